@@ -5,7 +5,10 @@ import { Route, Switch, Router as WouterRouter } from "wouter";
 import { Analytics } from "@vercel/analytics/react";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { PatientProvider } from "./contexts/PatientContext";
+import { SecureStoreProvider } from "./contexts/SecureStoreContext";
 import Dashboard from "./pages/Dashboard";
+import { CALCULATOR_ROUTE } from "./lib/calculatorLinks";
 
 // Detect base path from Vite config (for GitHub Pages subdirectory deployment)
 const basePath = import.meta.env.BASE_URL?.replace(/\/$/, '') || '';
@@ -14,6 +17,7 @@ function AppRoutes() {
   return (
     <Switch>
       <Route path={"/"} component={Dashboard} />
+      <Route path={CALCULATOR_ROUTE} component={Dashboard} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -29,13 +33,17 @@ function App() {
         defaultTheme="light"
         switchable
       >
-        <TooltipProvider>
-          <Toaster />
-          <WouterRouter base={basePath}>
-            <AppRoutes />
-          </WouterRouter>
-          <Analytics />
-        </TooltipProvider>
+        <SecureStoreProvider>
+          <PatientProvider>
+            <TooltipProvider>
+              <Toaster />
+              <WouterRouter base={basePath}>
+                <AppRoutes />
+              </WouterRouter>
+              <Analytics />
+            </TooltipProvider>
+          </PatientProvider>
+        </SecureStoreProvider>
       </ThemeProvider>
     </ErrorBoundary>
   );
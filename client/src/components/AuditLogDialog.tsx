@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, ScrollText } from "lucide-react";
+import { useSecureStore } from "@/contexts/SecureStoreContext";
+import { auditLogToCsv, auditLogToJson, readAuditLog, type AuditRecord } from "@/lib/auditLog";
+
+// Rows shown in the dialog; exports always include the whole range
+const PREVIEW_ROWS = 100;
+
+function downloadText(filename: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Local day boundaries as ISO times for the loggedAt index */
+function dayRange(from: string, to: string): [string | null, string | null] {
+  const start = from ? new Date(`${from}T00:00:00`).toISOString() : null;
+  const end = to ? new Date(new Date(`${to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000 - 1).toISOString() : null;
+  return [start, end];
+}
+
+/** Review and export the append-only calculation audit log */
+export function AuditLogDialog() {
+  const { key, status } = useSecureStore();
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [includeLabels, setIncludeLabels] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    const [start, end] = dayRange(from, to);
+    readAuditLog(start, end, key)
+      .then((read) => {
+        if (cancelled) return;
+        setRecords(read);
+        setError(null);
+      })
+      .catch(() => {
+        if (!cancelled) setError("Could not read the audit log on this device.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, from, to, key]);
+
+  const hasLabels = records.some((r) => r.details?.patientLabel !== undefined);
+  const exportRecords =
+    includeLabels && status === "unlocked"
+      ? records
+      : records.map((r) => (r.details ? { ...r, details: { ...r.details, patientLabel: undefined } } : r));
+  const suffix = [from, to].filter(Boolean).join("_to_") || new Date().toISOString().slice(0, 10);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full justify-start" size="sm">
+          <ScrollText className="w-4 h-4 mr-2" />
+          Calculation Audit Log
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Calculation Audit Log</DialogTitle>
+          <DialogDescription>
+            Every calculation on this device with its formula version, inputs, outputs and warnings. Entries cannot be edited.
+            Inputs and results are encrypted with your patient data, so they are only shown while it is unlocked and are not
+            recorded for calculations made while it is locked.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="audit-from" className="text-xs">From</Label>
+            <Input id="audit-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 text-sm w-40" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to" className="text-xs">To</Label>
+            <Input id="audit-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 text-sm w-40" />
+          </div>
+          <span className="text-xs text-muted-foreground pb-2">
+            {records.length} calculation{records.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <div className="flex-1 overflow-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="text-xs">Time</TableHead>
+                <TableHead className="text-xs">Calculator</TableHead>
+                {hasLabels && <TableHead className="text-xs">Patient</TableHead>}
+                <TableHead className="text-xs">Inputs</TableHead>
+                <TableHead className="text-xs">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {records.slice(-PREVIEW_ROWS).reverse().map((r) => (
+                <TableRow key={r.seq} className="align-top text-xs">
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(r.loggedAt).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}
+                  </TableCell>
+                  <TableCell>
+                    {r.calculatorName}
+                    <span className="block text-[10px] text-muted-foreground" title={r.formulaSource}>v{r.formulaVersion}</span>
+                  </TableCell>
+                  {hasLabels && <TableCell>{r.details?.patientLabel ?? ""}</TableCell>}
+                  {r.details ? (
+                    <>
+                      <TableCell className="whitespace-normal">
+                        {r.details.inputs.map((i) => `${i.label} ${i.value}${i.unit ? ` ${i.unit}` : ""}`).join(", ")}
+                      </TableCell>
+                      <TableCell className="whitespace-normal">
+                        {r.details.outputs.map((o) => `${o.label} ${Number(o.value.toFixed(2))}${o.unit ? ` ${o.unit}` : ""}`).join(", ")}
+                        {r.details.warnings.length > 0 && (
+                          <Badge variant="outline" className="ml-1 text-[10px] font-normal border-amber-500/50 text-amber-700 dark:text-amber-400">
+                            {r.details.warnings.length} warning{r.details.warnings.length !== 1 ? "s" : ""}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={2} className="text-muted-foreground">
+                      {r.details === null ? "Locked" : "Not recorded (patient data was locked)"}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {records.length === 0 && <p className="text-sm text-muted-foreground text-center py-6">No calculations in this range.</p>}
+        </div>
+        {records.length > PREVIEW_ROWS && (
+          <p className="text-xs text-muted-foreground">Showing the latest {PREVIEW_ROWS}; exports include all {records.length}.</p>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {hasLabels ? (
+            <label className="flex items-center gap-2 text-xs cursor-pointer">
+              <Checkbox
+                checked={includeLabels && status === "unlocked"}
+                disabled={status !== "unlocked"}
+                onCheckedChange={(checked) => setIncludeLabels(checked === true)}
+              />
+              Include patient labels in exports{status !== "unlocked" && " (unlock patient data first)"}
+            </label>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={records.length === 0}
+              onClick={() => downloadText(`calculation-audit-log-${suffix}.csv`, auditLogToCsv(exportRecords), "text/csv")}
+            >
+              <Download className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={records.length === 0}
+              onClick={() => downloadText(`calculation-audit-log-${suffix}.json`, auditLogToJson(exportRecords), "application/json")}
+            >
+              <Download className="w-4 h-4 mr-1" />
+              JSON
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
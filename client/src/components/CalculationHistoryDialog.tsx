@@ -0,0 +1,152 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { History, Search } from "lucide-react";
+import { filterHistory, hasSnapshot, priorFormulaVersion, type CalculationHistoryEntry, type HistoryFilter } from "@/lib/calculationHistory";
+
+interface CalculationHistoryDialogProps {
+  entries: CalculationHistoryEntry[];
+  /** Reopen the calculator with the entry's inputs and result */
+  onRestore: (entry: CalculationHistoryEntry) => void;
+}
+
+const ALL_CALCULATORS = "all";
+const EMPTY_FILTER: HistoryFilter = { query: "", calculatorId: null, from: "", to: "" };
+
+function formatHistoryTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+/** Searchable list of past calculations, filterable by calculator and date */
+export function CalculationHistoryDialog({ entries, onRestore }: CalculationHistoryDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [filter, setFilter] = useState<HistoryFilter>(EMPTY_FILTER);
+
+  const calculatorOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const entry of entries) if (!names.has(entry.id)) names.set(entry.id, entry.name);
+    return Array.from(names).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [entries]);
+
+  const filtered = useMemo(() => filterHistory(entries, filter), [entries, filter]);
+  const isFiltered = filter.query !== "" || filter.calculatorId !== null || filter.from !== "" || filter.to !== "";
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setFilter(EMPTY_FILTER);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs text-muted-foreground" disabled={entries.length === 0}>
+          <History className="w-3.5 h-3.5 mr-1" />
+          History
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Calculation History</DialogTitle>
+          <DialogDescription>
+            Reopen a past calculation with its inputs and units. It is recalculated with the current formulas and any difference is shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={filter.query}
+              onChange={(e) => setFilter((prev) => ({ ...prev, query: e.target.value }))}
+              placeholder="Search results and interpretations..."
+              className="pl-8 h-9"
+            />
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Select
+              value={filter.calculatorId ?? ALL_CALCULATORS}
+              onValueChange={(value) => setFilter((prev) => ({ ...prev, calculatorId: value === ALL_CALCULATORS ? null : value }))}
+            >
+              <SelectTrigger className="h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CALCULATORS}>All calculators</SelectItem>
+                {calculatorOptions.map(([id, name]) => (
+                  <SelectItem key={id} value={id}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1.5">
+              <Label htmlFor="history-from" className="text-xs text-muted-foreground">From</Label>
+              <Input
+                id="history-from"
+                type="date"
+                value={filter.from}
+                onChange={(e) => setFilter((prev) => ({ ...prev, from: e.target.value }))}
+                className="h-9 text-sm"
+              />
+            </div>
+            <div className="flex items-center gap-1.5">
+              <Label htmlFor="history-to" className="text-xs text-muted-foreground">To</Label>
+              <Input
+                id="history-to"
+                type="date"
+                value={filter.to}
+                onChange={(e) => setFilter((prev) => ({ ...prev, to: e.target.value }))}
+                className="h-9 text-sm"
+              />
+            </div>
+          </div>
+          {isFiltered && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{filtered.length} of {entries.length} calculations</span>
+              <button type="button" onClick={() => setFilter(EMPTY_FILTER)} className="hover:text-foreground underline">
+                Clear filters
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-1 -mx-1 px-1">
+          {filtered.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No calculations match.</p>
+          ) : (
+            filtered.map((entry) => {
+              const priorVersion = priorFormulaVersion(entry);
+              return (
+                <button
+                  key={`${entry.id}-${entry.timestamp}`}
+                  onClick={() => {
+                    onRestore(entry);
+                    setOpen(false);
+                  }}
+                  className="w-full text-left px-3 py-2 rounded-md text-sm hover:bg-accent hover:text-accent-foreground transition-colors"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="truncate font-medium">{entry.name}</span>
+                    <span className="text-[10px] text-muted-foreground flex-shrink-0">{formatHistoryTime(entry.timestamp)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate mt-0.5">{entry.result}</p>
+                  {!hasSnapshot(entry) && (
+                    <Badge variant="outline" className="mt-1 text-[10px] font-normal">Inputs not saved</Badge>
+                  )}
+                  {priorVersion !== null && (
+                    <Badge variant="outline" className="mt-1 text-[10px] font-normal border-amber-500/50 text-amber-700 dark:text-amber-400">
+                      Earlier formula (v{priorVersion})
+                    </Badge>
+                  )}
+                </button>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
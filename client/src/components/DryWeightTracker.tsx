@@ -6,6 +6,9 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { X, Plus, Trash2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { useSecureState, useSecureStore } from "@/contexts/SecureStoreContext";
+import { useCurrentPatient } from "@/contexts/PatientContext";
+import { SecureStorePinForm } from "@/components/SecureStoreControls";
 
 interface DialysisSession {
   id: string;
@@ -17,6 +20,7 @@ interface DialysisSession {
   postBP: string;      // "110/70"
   dryWeight: string;   // target kg
   sessionHours: string; // default "4"
+  patientId?: string;  // census patient; unassigned when absent
 }
 
 interface DryWeightTrackerProps {
@@ -26,21 +30,6 @@ interface DryWeightTrackerProps {
 const STORAGE_KEY = "dialysis-sessions";
 const MAX_ENTRIES = 10;
 
-function loadSessions(): DialysisSession[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const sessions: DialysisSession[] = JSON.parse(raw);
-    return sessions.slice(0, MAX_ENTRIES);
-  } catch {
-    return [];
-  }
-}
-
-function saveSessions(sessions: DialysisSession[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
-}
-
 function parseSBP(bp: string): number | null {
   const match = bp.match(/^(\d+)\s*[/]\s*\d+$/);
   if (match) return parseInt(match[1], 10);
@@ -92,7 +81,11 @@ function severityClass(sev: Severity): string {
 }
 
 export function DryWeightTracker({ onClose }: DryWeightTrackerProps) {
-  const [sessions, setSessions] = useState<DialysisSession[]>(loadSessions);
+  const { status } = useSecureStore();
+  const { patient, census, ready } = useCurrentPatient();
+  const [allSessions, setSessions, loaded] = useSecureState<DialysisSession[]>(STORAGE_KEY, []);
+  // Sessions of the active census patient, or unassigned ones when none is active
+  const sessions = allSessions.filter((s) => (s.patientId ?? null) === (patient?.id ?? null));
   const [showForm, setShowForm] = useState(false);
   const [form, setForm] = useState<Omit<DialysisSession, "id">>({
     date: new Date().toISOString().slice(0, 10),
@@ -105,9 +98,20 @@ export function DryWeightTracker({ onClose }: DryWeightTrackerProps) {
     sessionHours: "4",
   });
 
+  // Carry the patient's last target weight into the form once the encrypted store has been read
+  useEffect(() => {
+    if (!loaded) return;
+    setForm((prev) => ({ ...prev, dryWeight: sessions[0]?.dryWeight ?? "" }));
+  }, [loaded, patient?.id]);
+
+  // Drop sessions of patients removed from the census
   useEffect(() => {
-    saveSessions(sessions);
-  }, [sessions]);
+    if (!loaded || !ready) return;
+    setSessions((prev) => {
+      const kept = prev.filter((s) => !s.patientId || census.some((p) => p.id === s.patientId));
+      return kept.length === prev.length ? prev : kept;
+    });
+  }, [loaded, ready, census, setSessions]);
 
   const handleNumericChange = useCallback((field: keyof Omit<DialysisSession, "id">, value: string) => {
     if (value === "" || /^\d*\.?\d*$/.test(value)) {
@@ -125,11 +129,14 @@ export function DryWeightTracker({ onClose }: DryWeightTrackerProps) {
     const session: DialysisSession = {
       id: crypto.randomUUID(),
       ...form,
+      ...(patient && { patientId: patient.id }),
     };
 
+    // MAX_ENTRIES applies per patient
     setSessions((prev) => {
-      const next = [session, ...prev];
-      return next.slice(0, MAX_ENTRIES);
+      const own = prev.filter((s) => s.patientId === session.patientId);
+      const others = prev.filter((s) => s.patientId !== session.patientId);
+      return [session, ...own.slice(0, MAX_ENTRIES - 1), ...others];
     });
 
     // Reset form but keep dryWeight and sessionHours for convenience
@@ -144,15 +151,15 @@ export function DryWeightTracker({ onClose }: DryWeightTrackerProps) {
       sessionHours: prev.sessionHours,
     }));
     setShowForm(false);
-  }, [form]);
+  }, [form, patient]);
 
   const handleDelete = useCallback((id: string) => {
     setSessions((prev) => prev.filter((s) => s.id !== id));
   }, []);
 
   const handleClearAll = useCallback(() => {
-    setSessions([]);
-  }, []);
+    setSessions((prev) => prev.filter((s) => (s.patientId ?? null) !== (patient?.id ?? null)));
+  }, [patient]);
 
   // Summary calculations
   const last5 = sessions.slice(0, 5);
@@ -182,7 +189,7 @@ export function DryWeightTracker({ onClose }: DryWeightTrackerProps) {
             Dry Weight Tracker
           </CardTitle>
           <div className="flex items-center gap-2">
-            {sessions.length > 0 && (
+            {status === "unlocked" && sessions.length > 0 && (
               <Button variant="ghost" size="sm" onClick={handleClearAll} className="text-xs text-destructive hover:text-destructive">
                 Clear All
               </Button>
@@ -193,298 +200,305 @@ export function DryWeightTracker({ onClose }: DryWeightTrackerProps) {
           </div>
         </div>
         <p className="text-xs text-muted-foreground">
+          {patient && `${patient.label}: `}
           Track dialysis sessions and spot concerning IDWG/UF rate trends. Max {MAX_ENTRIES} sessions.
         </p>
       </CardHeader>
-      <CardContent className="space-y-3">
-        {/* Summary badges */}
-        {sessions.length > 0 && (
-          <div className="flex flex-wrap gap-2">
-            {avgIDWG !== null && (
-              <Badge
-                variant="outline"
-                className={cn(
-                  "text-xs",
-                  avgIDWG > 4 ? "border-red-500 text-red-600 dark:text-red-400" :
-                  avgIDWG > 3 ? "border-amber-500 text-amber-600 dark:text-amber-400" :
-                  "border-teal-500 text-teal-600 dark:text-teal-400"
-                )}
-              >
-                Avg IDWG (last {last5.length}): {avgIDWG.toFixed(1)}%
-              </Badge>
-            )}
-            {currentDryWeight && (
-              <Badge variant="outline" className="text-xs border-teal-500 text-teal-600 dark:text-teal-400">
-                Target Dry Weight: {currentDryWeight} kg
-              </Badge>
-            )}
-          </div>
-        )}
-
-        {/* Sessions — mobile card view */}
-        {sessions.length > 0 && (
-          <div className="space-y-2 sm:hidden">
-            {sessions.map((s) => {
-              const preW = Number(s.preWeight);
-              const postW = Number(s.postWeight);
-              const uf = Number(s.ufVolume);
-              const dw = Number(s.dryWeight);
-              const hours = Number(s.sessionHours) || 4;
-
-              const idwg = calcIDWG(preW, dw);
-              const ufRate = uf > 0 ? calcUFRate(uf, postW, hours) : null;
-
-              const idwgSev = idwg ? getIDWGSeverity(idwg.pct) : "normal";
-              const ufSev = ufRate !== null ? getUFRateSeverity(ufRate) : "normal";
-              const bpSev = s.postBP ? getPostBPSeverity(s.postBP) : "normal";
-              const rowSev = worstSeverity(worstSeverity(idwgSev, ufSev), bpSev);
-
-              return (
-                <div
-                  key={s.id}
+      {status !== "unlocked" ? (
+        <CardContent>
+          <SecureStorePinForm />
+        </CardContent>
+      ) : (
+        <CardContent className="space-y-3">
+          {/* Summary badges */}
+          {sessions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {avgIDWG !== null && (
+                <Badge
+                  variant="outline"
                   className={cn(
-                    "rounded-lg border p-3 text-sm space-y-1",
-                    rowSev === "red" ? "bg-red-50/50 dark:bg-red-950/20 border-red-300 dark:border-red-800" :
-                    rowSev === "amber" ? "bg-amber-50/50 dark:bg-amber-950/20 border-amber-300 dark:border-amber-800" : ""
+                    "text-xs",
+                    avgIDWG > 4 ? "border-red-500 text-red-600 dark:text-red-400" :
+                    avgIDWG > 3 ? "border-amber-500 text-amber-600 dark:text-amber-400" :
+                    "border-teal-500 text-teal-600 dark:text-teal-400"
                   )}
                 >
-                  <div className="flex items-center justify-between">
-                    <span className="font-medium">{s.date}</span>
-                    <Button variant="ghost" size="icon" onClick={() => handleDelete(s.id)} className="h-6 w-6 text-destructive hover:text-destructive">
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
-                  </div>
-                  <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
-                    <span className="text-muted-foreground">Pre: {s.preWeight} kg</span>
-                    <span className="text-muted-foreground">Post: {s.postWeight} kg</span>
-                    {s.ufVolume && <span className="text-muted-foreground">UF: {s.ufVolume} mL</span>}
-                    {idwg && <span className={severityClass(idwgSev)}>IDWG: {idwg.kg.toFixed(1)} kg ({idwg.pct.toFixed(1)}%)</span>}
-                    {ufRate !== null && <span className={severityClass(ufSev)}>UF Rate: {ufRate.toFixed(1)} mL/kg/h</span>}
-                    {s.preBP && <span className="text-muted-foreground">Pre BP: {s.preBP}</span>}
-                    {s.postBP && <span className={severityClass(bpSev)}>Post BP: {s.postBP}</span>}
+                  Avg IDWG (last {last5.length}): {avgIDWG.toFixed(1)}%
+                </Badge>
+              )}
+              {currentDryWeight && (
+                <Badge variant="outline" className="text-xs border-teal-500 text-teal-600 dark:text-teal-400">
+                  Target Dry Weight: {currentDryWeight} kg
+                </Badge>
+              )}
+            </div>
+          )}
+
+          {/* Sessions — mobile card view */}
+          {sessions.length > 0 && (
+            <div className="space-y-2 sm:hidden">
+              {sessions.map((s) => {
+                const preW = Number(s.preWeight);
+                const postW = Number(s.postWeight);
+                const uf = Number(s.ufVolume);
+                const dw = Number(s.dryWeight);
+                const hours = Number(s.sessionHours) || 4;
+
+                const idwg = calcIDWG(preW, dw);
+                const ufRate = uf > 0 ? calcUFRate(uf, postW, hours) : null;
+
+                const idwgSev = idwg ? getIDWGSeverity(idwg.pct) : "normal";
+                const ufSev = ufRate !== null ? getUFRateSeverity(ufRate) : "normal";
+                const bpSev = s.postBP ? getPostBPSeverity(s.postBP) : "normal";
+                const rowSev = worstSeverity(worstSeverity(idwgSev, ufSev), bpSev);
+
+                return (
+                  <div
+                    key={s.id}
+                    className={cn(
+                      "rounded-lg border p-3 text-sm space-y-1",
+                      rowSev === "red" ? "bg-red-50/50 dark:bg-red-950/20 border-red-300 dark:border-red-800" :
+                      rowSev === "amber" ? "bg-amber-50/50 dark:bg-amber-950/20 border-amber-300 dark:border-amber-800" : ""
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{s.date}</span>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(s.id)} className="h-6 w-6 text-destructive hover:text-destructive">
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-0.5 text-xs">
+                      <span className="text-muted-foreground">Pre: {s.preWeight} kg</span>
+                      <span className="text-muted-foreground">Post: {s.postWeight} kg</span>
+                      {s.ufVolume && <span className="text-muted-foreground">UF: {s.ufVolume} mL</span>}
+                      {idwg && <span className={severityClass(idwgSev)}>IDWG: {idwg.kg.toFixed(1)} kg ({idwg.pct.toFixed(1)}%)</span>}
+                      {ufRate !== null && <span className={severityClass(ufSev)}>UF Rate: {ufRate.toFixed(1)} mL/kg/h</span>}
+                      {s.preBP && <span className="text-muted-foreground">Pre BP: {s.preBP}</span>}
+                      {s.postBP && <span className={severityClass(bpSev)}>Post BP: {s.postBP}</span>}
+                    </div>
                   </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Sessions — desktop table */}
+          {sessions.length > 0 && (
+            <div className="hidden sm:block overflow-x-auto">
+              <table className="min-w-[800px] w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Date</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Pre (kg)</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Post (kg)</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">UF (mL)</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">IDWG</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">UF Rate</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Pre BP</th>
+                    <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Post BP</th>
+                    <th className="py-2 px-2 whitespace-nowrap"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((s) => {
+                    const preW = Number(s.preWeight);
+                    const postW = Number(s.postWeight);
+                    const uf = Number(s.ufVolume);
+                    const dw = Number(s.dryWeight);
+                    const hours = Number(s.sessionHours) || 4;
+
+                    const idwg = calcIDWG(preW, dw);
+                    const ufRate = uf > 0 ? calcUFRate(uf, postW, hours) : null;
+
+                    const idwgSev = idwg ? getIDWGSeverity(idwg.pct) : "normal";
+                    const ufSev = ufRate !== null ? getUFRateSeverity(ufRate) : "normal";
+                    const bpSev = s.postBP ? getPostBPSeverity(s.postBP) : "normal";
+                    const rowSev = worstSeverity(worstSeverity(idwgSev, ufSev), bpSev);
+
+                    return (
+                      <tr
+                        key={s.id}
+                        className={cn(
+                          "border-b last:border-b-0",
+                          rowSev === "red" ? "bg-red-50/50 dark:bg-red-950/20" :
+                          rowSev === "amber" ? "bg-amber-50/50 dark:bg-amber-950/20" : ""
+                        )}
+                      >
+                        <td className="py-2 px-2 whitespace-nowrap">{s.date}</td>
+                        <td className="py-2 px-2 whitespace-nowrap">{s.preWeight}</td>
+                        <td className="py-2 px-2 whitespace-nowrap">{s.postWeight}</td>
+                        <td className="py-2 px-2 whitespace-nowrap">{s.ufVolume || "-"}</td>
+                        <td className={cn("py-2 px-2 whitespace-nowrap", severityClass(idwgSev))}>
+                          {idwg ? `${idwg.kg.toFixed(1)} kg (${idwg.pct.toFixed(1)}%)` : "-"}
+                        </td>
+                        <td className={cn("py-2 px-2 whitespace-nowrap", severityClass(ufSev))}>
+                          {ufRate !== null ? `${ufRate.toFixed(1)} mL/kg/h` : "-"}
+                        </td>
+                        <td className="py-2 px-2 whitespace-nowrap">{s.preBP || "-"}</td>
+                        <td className={cn("py-2 px-2 whitespace-nowrap", severityClass(bpSev))}>
+                          {s.postBP || "-"}
+                        </td>
+                        <td className="py-2 px-2 whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDelete(s.id)}
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {/* Warning legend */}
+          {sessions.length > 0 && (
+            <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-amber-500" />
+                IDWG &gt;3% or UF &gt;10 mL/kg/h
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-2 h-2 rounded-full bg-red-500" />
+                IDWG &gt;4% or UF &gt;13 mL/kg/h or post-SBP &lt;90
+              </span>
+            </div>
+          )}
+
+          {/* Add session form */}
+          {showForm ? (
+            <div className="rounded-lg border border-teal-500/30 p-3 space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                <div>
+                  <Label className="text-xs text-muted-foreground">Date</Label>
+                  <Input
+                    type="date"
+                    value={form.date}
+                    onChange={(e) => handleTextChange("date", e.target.value)}
+                    className="h-8 text-sm"
+                    autoComplete="off"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Pre Weight (kg)</Label>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    autoComplete="off"
+                    value={form.preWeight}
+                    onChange={(e) => handleNumericChange("preWeight", e.target.value)}
+                    placeholder="75.0"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Post Weight (kg)</Label>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    autoComplete="off"
+                    value={form.postWeight}
+                    onChange={(e) => handleNumericChange("postWeight", e.target.value)}
+                    placeholder="72.0"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">UF Volume (mL)</Label>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    autoComplete="off"
+                    value={form.ufVolume}
+                    onChange={(e) => handleNumericChange("ufVolume", e.target.value)}
+                    placeholder="3000"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Dry Weight (kg)</Label>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    autoComplete="off"
+                    value={form.dryWeight}
+                    onChange={(e) => handleNumericChange("dryWeight", e.target.value)}
+                    placeholder="70.0"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Session Hours</Label>
+                  <Input
+                    type="text"
+                    inputMode="decimal"
+                    autoComplete="off"
+                    value={form.sessionHours}
+                    onChange={(e) => handleNumericChange("sessionHours", e.target.value)}
+                    placeholder="4"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Pre BP</Label>
+                  <Input
+                    type="text"
+                    autoComplete="off"
+                    value={form.preBP}
+                    onChange={(e) => handleTextChange("preBP", e.target.value)}
+                    placeholder="140/90"
+                    className="h-8 text-sm"
+                  />
+                </div>
+                <div>
+                  <Label className="text-xs text-muted-foreground">Post BP</Label>
+                  <Input
+                    type="text"
+                    autoComplete="off"
+                    value={form.postBP}
+                    onChange={(e) => handleTextChange("postBP", e.target.value)}
+                    placeholder="110/70"
+                    className="h-8 text-sm"
+                  />
                 </div>
-              );
-            })}
-          </div>
-        )}
-
-        {/* Sessions — desktop table */}
-        {sessions.length > 0 && (
-          <div className="hidden sm:block overflow-x-auto">
-            <table className="min-w-[800px] w-full text-sm">
-              <thead>
-                <tr className="border-b">
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Date</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Pre (kg)</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Post (kg)</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">UF (mL)</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">IDWG</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">UF Rate</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Pre BP</th>
-                  <th className="text-left py-2 px-2 whitespace-nowrap font-medium text-muted-foreground">Post BP</th>
-                  <th className="py-2 px-2 whitespace-nowrap"></th>
-                </tr>
-              </thead>
-              <tbody>
-                {sessions.map((s) => {
-                  const preW = Number(s.preWeight);
-                  const postW = Number(s.postWeight);
-                  const uf = Number(s.ufVolume);
-                  const dw = Number(s.dryWeight);
-                  const hours = Number(s.sessionHours) || 4;
-
-                  const idwg = calcIDWG(preW, dw);
-                  const ufRate = uf > 0 ? calcUFRate(uf, postW, hours) : null;
-
-                  const idwgSev = idwg ? getIDWGSeverity(idwg.pct) : "normal";
-                  const ufSev = ufRate !== null ? getUFRateSeverity(ufRate) : "normal";
-                  const bpSev = s.postBP ? getPostBPSeverity(s.postBP) : "normal";
-                  const rowSev = worstSeverity(worstSeverity(idwgSev, ufSev), bpSev);
-
-                  return (
-                    <tr
-                      key={s.id}
-                      className={cn(
-                        "border-b last:border-b-0",
-                        rowSev === "red" ? "bg-red-50/50 dark:bg-red-950/20" :
-                        rowSev === "amber" ? "bg-amber-50/50 dark:bg-amber-950/20" : ""
-                      )}
-                    >
-                      <td className="py-2 px-2 whitespace-nowrap">{s.date}</td>
-                      <td className="py-2 px-2 whitespace-nowrap">{s.preWeight}</td>
-                      <td className="py-2 px-2 whitespace-nowrap">{s.postWeight}</td>
-                      <td className="py-2 px-2 whitespace-nowrap">{s.ufVolume || "-"}</td>
-                      <td className={cn("py-2 px-2 whitespace-nowrap", severityClass(idwgSev))}>
-                        {idwg ? `${idwg.kg.toFixed(1)} kg (${idwg.pct.toFixed(1)}%)` : "-"}
-                      </td>
-                      <td className={cn("py-2 px-2 whitespace-nowrap", severityClass(ufSev))}>
-                        {ufRate !== null ? `${ufRate.toFixed(1)} mL/kg/h` : "-"}
-                      </td>
-                      <td className="py-2 px-2 whitespace-nowrap">{s.preBP || "-"}</td>
-                      <td className={cn("py-2 px-2 whitespace-nowrap", severityClass(bpSev))}>
-                        {s.postBP || "-"}
-                      </td>
-                      <td className="py-2 px-2 whitespace-nowrap">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDelete(s.id)}
-                          className="h-7 w-7 text-destructive hover:text-destructive"
-                        >
-                          <Trash2 className="w-3 h-3" />
-                        </Button>
-                      </td>
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
-        )}
-
-        {/* Warning legend */}
-        {sessions.length > 0 && (
-          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
-            <span className="flex items-center gap-1">
-              <span className="w-2 h-2 rounded-full bg-amber-500" />
-              IDWG &gt;3% or UF &gt;10 mL/kg/h
-            </span>
-            <span className="flex items-center gap-1">
-              <span className="w-2 h-2 rounded-full bg-red-500" />
-              IDWG &gt;4% or UF &gt;13 mL/kg/h or post-SBP &lt;90
-            </span>
-          </div>
-        )}
-
-        {/* Add session form */}
-        {showForm ? (
-          <div className="rounded-lg border border-teal-500/30 p-3 space-y-3">
-            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
-              <div>
-                <Label className="text-xs text-muted-foreground">Date</Label>
-                <Input
-                  type="date"
-                  value={form.date}
-                  onChange={(e) => handleTextChange("date", e.target.value)}
-                  className="h-8 text-sm"
-                  autoComplete="off"
-                />
-              </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">Pre Weight (kg)</Label>
-                <Input
-                  type="text"
-                  inputMode="decimal"
-                  autoComplete="off"
-                  value={form.preWeight}
-                  onChange={(e) => handleNumericChange("preWeight", e.target.value)}
-                  placeholder="75.0"
-                  className="h-8 text-sm"
-                />
-              </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">Post Weight (kg)</Label>
-                <Input
-                  type="text"
-                  inputMode="decimal"
-                  autoComplete="off"
-                  value={form.postWeight}
-                  onChange={(e) => handleNumericChange("postWeight", e.target.value)}
-                  placeholder="72.0"
-                  className="h-8 text-sm"
-                />
-              </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">UF Volume (mL)</Label>
-                <Input
-                  type="text"
-                  inputMode="decimal"
-                  autoComplete="off"
-                  value={form.ufVolume}
-                  onChange={(e) => handleNumericChange("ufVolume", e.target.value)}
-                  placeholder="3000"
-                  className="h-8 text-sm"
-                />
-              </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">Dry Weight (kg)</Label>
-                <Input
-                  type="text"
-                  inputMode="decimal"
-                  autoComplete="off"
-                  value={form.dryWeight}
-                  onChange={(e) => handleNumericChange("dryWeight", e.target.value)}
-                  placeholder="70.0"
-                  className="h-8 text-sm"
-                />
-              </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">Session Hours</Label>
-                <Input
-                  type="text"
-                  inputMode="decimal"
-                  autoComplete="off"
-                  value={form.sessionHours}
-                  onChange={(e) => handleNumericChange("sessionHours", e.target.value)}
-                  placeholder="4"
-                  className="h-8 text-sm"
-                />
-              </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">Pre BP</Label>
-                <Input
-                  type="text"
-                  autoComplete="off"
-                  value={form.preBP}
-                  onChange={(e) => handleTextChange("preBP", e.target.value)}
-                  placeholder="140/90"
-                  className="h-8 text-sm"
-                />
               </div>
-              <div>
-                <Label className="text-xs text-muted-foreground">Post BP</Label>
-                <Input
-                  type="text"
-                  autoComplete="off"
-                  value={form.postBP}
-                  onChange={(e) => handleTextChange("postBP", e.target.value)}
-                  placeholder="110/70"
-                  className="h-8 text-sm"
-                />
+              <div className="flex items-center justify-end gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowForm(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleAdd}
+                  disabled={!canAdd}
+                >
+                  Save Session
+                </Button>
               </div>
             </div>
-            <div className="flex items-center justify-end gap-2">
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowForm(false)}
-              >
-                Cancel
-              </Button>
-              <Button
-                size="sm"
-                onClick={handleAdd}
-                disabled={!canAdd}
-              >
-                Save Session
-              </Button>
-            </div>
-          </div>
-        ) : (
-          <Button
-            variant="outline"
-            className="w-full border-dashed"
-            onClick={() => setShowForm(true)}
-            disabled={sessions.length >= MAX_ENTRIES}
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            {sessions.length >= MAX_ENTRIES
-              ? `Max ${MAX_ENTRIES} sessions reached`
-              : "Add Session"}
-          </Button>
-        )}
-      </CardContent>
+          ) : (
+            <Button
+              variant="outline"
+              className="w-full border-dashed"
+              onClick={() => setShowForm(true)}
+              disabled={sessions.length >= MAX_ENTRIES}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {sessions.length >= MAX_ENTRIES
+                ? `Max ${MAX_ENTRIES} sessions reached`
+                : "Add Session"}
+            </Button>
+          )}
+        </CardContent>
+      )}
     </Card>
   );
 }
@@ -6,7 +6,7 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Calculator, ArrowLeftRight, Info, Users, Baby, UserCheck, Globe, Ruler } from "lucide-react";
-import { ckdEpiCreatinine, cockcrofGault, bis1Elderly, fasFullAgeSpectrum, schwartzPediatric, ekfcCreatinine } from "@/lib/calculators";
+import { ckdEpiCreatinine, cockcrofGault, bis1Elderly, fasFullAgeSpectrum, schwartzPediatric, ekfcCreatinine } from "@shared/engine/calculators";
 
 interface EGFRComparisonProps {
   onClose?: () => void;
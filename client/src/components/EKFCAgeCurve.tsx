@@ -10,7 +10,8 @@ import {
   Tooltip,
   ResponsiveContainer,
 } from "recharts";
-import { ekfcCreatinine, getEkfcQValue } from "@/lib/calculators";
+import { ekfcCreatinine, getEkfcQValue } from "@shared/engine/calculators";
+import { healthyEgfrRange } from "@shared/engine/referenceRanges";
 
 interface EKFCAgeCurveProps {
   patientAge: number;
@@ -39,6 +40,7 @@ export function EKFCAgeCurve({
       age: number;
       healthyMale: number | null;
       healthyFemale: number | null;
+      lowerLimit: number | null;
       patient: number | null;
     }[] = [];
 
@@ -61,6 +63,8 @@ export function EKFCAgeCurve({
         age,
         healthyMale: Math.min(healthyMaleEgfr, 150),
         healthyFemale: Math.min(healthyFemaleEgfr, 150),
+        // Lower limit of normal for age (creatinine 1.33 × Q)
+        lowerLimit: healthyEgfrRange(age).lower,
         patient: Math.min(Math.max(patientEgfrAtAge, 0), 150),
       });
     }
@@ -165,6 +169,17 @@ export function EKFCAgeCurve({
               activeDot={false}
             />
 
+            <Line
+              type="monotone"
+              dataKey="lowerLimit"
+              name="Lower Limit for Age"
+              stroke="#9ca3af"
+              strokeWidth={1}
+              strokeDasharray="2 3"
+              dot={false}
+              activeDot={false}
+            />
+
             {/* Patient curve */}
             <Line
               type="monotone"
@@ -199,6 +214,10 @@ export function EKFCAgeCurve({
           <span className="inline-block w-4 border-t-2 border-dashed" style={{ borderColor: "#ec4899" }} />
           Healthy Female
         </span>
+        <span className="flex items-center gap-1.5">
+          <span className="inline-block w-4 border-t-2 border-dotted" style={{ borderColor: "#9ca3af" }} />
+          Lower Limit for Age
+        </span>
         <span className="flex items-center gap-1.5">
           <span className="inline-block w-4 border-t-2" style={{ borderColor: "#f59e0b" }} />
           Patient
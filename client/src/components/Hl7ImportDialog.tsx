@@ -0,0 +1,154 @@
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { FileText } from "lucide-react";
+import { labsToCalculatorValues, parseOruMessage, type OruParseResult } from "@/lib/hl7OruParser";
+
+interface Hl7ImportDialogProps {
+  /** Input ids of the active calculator */
+  inputIds: string[];
+  /** Receives input values in conventional units */
+  onApply: (values: Record<string, string>) => void;
+}
+
+function formatObservedAt(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export function Hl7ImportDialog({ inputIds, onApply }: Hl7ImportDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [message, setMessage] = useState("");
+  const [parsed, setParsed] = useState<OruParseResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const values = parsed ? labsToCalculatorValues(parsed.labs, inputIds) : {};
+  const filledCount = Object.keys(values).length;
+
+  const handleParse = useCallback(() => {
+    try {
+      setParsed(parseOruMessage(message));
+      setError(null);
+    } catch (e) {
+      setParsed(null);
+      setError(e instanceof Error ? e.message : "Could not read the HL7 message.");
+    }
+  }, [message]);
+
+  const handleOpenChange = useCallback((next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setMessage("");
+      setParsed(null);
+      setError(null);
+    }
+  }, []);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-xs" title="Prefill inputs from an HL7 v2 ORU^R01 lab message">
+          <FileText className="w-3.5 h-3.5 mr-1" />
+          HL7
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import HL7 Lab Message</DialogTitle>
+          <DialogDescription>
+            Paste an ORU^R01 message. OBX results are converted to conventional units and the most recent value per lab is used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Textarea
+          value={message}
+          onChange={(e) => {
+            setMessage(e.target.value);
+            setParsed(null);
+            setError(null);
+          }}
+          placeholder={"MSH|^~\\&|LAB|...\nPID|...\nOBX|1|NM|2160-0^Creatinine^LN||1.4|mg/dL|..."}
+          className="font-mono text-xs min-h-[140px]"
+        />
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {parsed && (
+          <div className="space-y-3 text-sm">
+            <p className="text-xs text-muted-foreground">
+              {parsed.messageType} · {parsed.obxCount} OBX segment{parsed.obxCount !== 1 ? "s" : ""}
+              {parsed.patientId && ` · Patient ${parsed.patientId}`}
+            </p>
+
+            {parsed.labs.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium text-xs">Matched labs</p>
+                {parsed.labs.map((lab) => {
+                  const inputs = Object.keys(labsToCalculatorValues([lab], inputIds));
+                  return (
+                    <div key={lab.analyte} className="flex items-center justify-between gap-2 text-xs">
+                      <span>
+                        {lab.label}: {Math.round(lab.value * 100) / 100}
+                        {lab.unit ? ` ${lab.unit}` : ""}
+                        {lab.observedAt && (
+                          <span className="ml-1 text-muted-foreground">{formatObservedAt(lab.observedAt)}</span>
+                        )}
+                      </span>
+                      {inputs.length > 0 ? (
+                        <Badge variant="secondary" className="text-[10px] font-normal">→ {inputs.join(", ")}</Badge>
+                      ) : (
+                        <span className="text-muted-foreground">not used by this calculator</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {parsed.unmatched.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium text-xs">Unmatched OBX ({parsed.unmatched.length})</p>
+                <div className="rounded-md border divide-y">
+                  {parsed.unmatched.map((obx, i) => (
+                    <div key={i} className="px-2 py-1 text-xs grid grid-cols-[auto_1fr_auto] gap-2">
+                      <code className="font-mono">{obx.code || "?"}{obx.codingSystem ? `^${obx.codingSystem}` : ""}</code>
+                      <span className="truncate">
+                        {obx.text}
+                        {obx.value && <span className="text-muted-foreground"> = {obx.value}{obx.units ? ` ${obx.units}` : ""}</span>}
+                      </span>
+                      <span className="text-muted-foreground">{obx.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" size="sm" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          {parsed ? (
+            <Button
+              size="sm"
+              disabled={filledCount === 0}
+              onClick={() => {
+                onApply(values);
+                handleOpenChange(false);
+              }}
+            >
+              Fill {filledCount} input{filledCount !== 1 ? "s" : ""}
+            </Button>
+          ) : (
+            <Button size="sm" onClick={handleParse} disabled={!message.trim()}>
+              Parse
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
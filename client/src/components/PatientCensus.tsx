@@ -0,0 +1,301 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Users, Plus, Trash2, ClipboardList, Copy, Check, Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCurrentPatient, type CensusPatient } from "@/contexts/PatientContext";
+import { useSecureStore } from "@/contexts/SecureStoreContext";
+import { SecureStorePinForm } from "@/components/SecureStoreControls";
+import { formatHandoffText, formatHandoffTime, summarizePatient } from "@/lib/handoffSummary";
+
+/** ISO time for an "HH:MM" due time: today, or tomorrow if that has passed */
+function dueTimeToIso(time: string): string | undefined {
+  const match = time.match(/^(\d{2}):(\d{2})$/);
+  if (!match) return undefined;
+  const due = new Date();
+  due.setHours(Number(match[1]), Number(match[2]), 0, 0);
+  if (due.getTime() < Date.now()) due.setDate(due.getDate() + 1);
+  return due.toISOString();
+}
+
+/** On-call census: named or bed-labelled patients, quick switching, rechecks and the handoff summary */
+export function PatientCensus() {
+  const { census, patient, selectPatient, addPatient, removePatient, addRecheck, toggleRecheck, removeRecheck } =
+    useCurrentPatient();
+  const { status } = useSecureStore();
+  const [newLabel, setNewLabel] = useState("");
+  const [recheckText, setRecheckText] = useState("");
+  const [recheckTime, setRecheckTime] = useState("");
+  const [removing, setRemoving] = useState<CensusPatient | null>(null);
+
+  const handleAddPatient = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newLabel.trim()) return;
+    addPatient(newLabel);
+    setNewLabel("");
+  };
+
+  const handleAddRecheck = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!patient || !recheckText.trim()) return;
+    addRecheck(patient.id, recheckText, dueTimeToIso(recheckTime));
+    setRecheckText("");
+    setRecheckTime("");
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Users className="w-4 h-4 text-amber-600 dark:text-amber-400" />
+            Patient Census
+            {status === "unlocked" && census.length > 0 && (
+              <Badge variant="secondary" className="text-xs font-normal">{census.length}</Badge>
+            )}
+          </CardTitle>
+          {status === "unlocked" && census.length > 0 && <HandoffSummaryDialog patients={census} />}
+        </div>
+        <CardDescription>
+          Select a patient to fill calculators with their labs and record results against them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {status !== "unlocked" ? (
+          <SecureStorePinForm />
+        ) : (
+          <>
+            <form onSubmit={handleAddPatient} className="flex gap-2">
+              <Input
+                value={newLabel}
+                onChange={(e) => setNewLabel(e.target.value)}
+                placeholder="Bed 12, Patient A..."
+                className="h-8 text-sm"
+                autoComplete="off"
+              />
+              <Button type="submit" size="sm" className="h-8" disabled={!newLabel.trim()}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </form>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {census.map((p) => {
+                const summary = summarizePatient(p);
+                const active = p.id === patient?.id;
+                return (
+                  <div
+                    key={p.id}
+                    className={cn(
+                      "rounded-lg border p-2.5 text-left transition-colors",
+                      active ? "border-amber-500/60 bg-amber-500/5" : "hover:bg-muted/50"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <button
+                        type="button"
+                        onClick={() => selectPatient(active ? null : p.id)}
+                        className="min-w-0 flex-1 text-left"
+                        title={active ? "Stop using this patient" : "Use this patient"}
+                      >
+                        <span className="font-medium text-sm truncate block">{p.label}</span>
+                        <span className="text-xs text-muted-foreground truncate block">
+                          {[summary.demographics, `${summary.labs.length} labs`, `${p.history.length} results`]
+                            .filter(Boolean)
+                            .join(" · ")}
+                        </span>
+                      </button>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {summary.pending.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className={cn(
+                              "text-[10px] font-normal",
+                              summary.pending.some((r) => r.overdue) && "border-destructive text-destructive"
+                            )}
+                          >
+                            <Clock className="w-3 h-3 mr-0.5" />
+                            {summary.pending.length}
+                          </Badge>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRemoving(p)}
+                          className="h-7 w-7 text-destructive hover:text-destructive"
+                          title="Remove from census"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    </div>
+                    {summary.results[0] && (
+                      <p className="text-xs mt-1 truncate">
+                        {summary.results[0].calculatorName}: {summary.results[0].summary}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {patient && (
+              <div className="rounded-lg border p-3 space-y-2">
+                <p className="text-sm font-medium">Rechecks for {patient.label}</p>
+                {patient.rechecks.map((r) => (
+                  <div key={r.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={r.done} onCheckedChange={() => toggleRecheck(patient.id, r.id)} />
+                    <span className={cn("flex-1 min-w-0 truncate", r.done && "line-through text-muted-foreground")}>
+                      {r.text}
+                      {r.dueAt && <span className="ml-1 text-xs text-muted-foreground">due {formatHandoffTime(r.dueAt)}</span>}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => removeRecheck(patient.id, r.id)}
+                      className="h-6 w-6 text-muted-foreground"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                ))}
+                <form onSubmit={handleAddRecheck} className="flex gap-2">
+                  <Input
+                    value={recheckText}
+                    onChange={(e) => setRecheckText(e.target.value)}
+                    placeholder="K after repletion, Na q4h..."
+                    className="h-8 text-sm"
+                    autoComplete="off"
+                  />
+                  <Input
+                    type="time"
+                    value={recheckTime}
+                    onChange={(e) => setRecheckTime(e.target.value)}
+                    className="h-8 text-sm w-28"
+                    title="Due time"
+                  />
+                  <Button type="submit" size="sm" variant="outline" className="h-8" disabled={!recheckText.trim()}>
+                    Add
+                  </Button>
+                </form>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <AlertDialog open={removing !== null} onOpenChange={(open) => !open && setRemoving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove {removing?.label} from the census?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their labs, results, rechecks, scratchpad entries and dialysis sessions are deleted from this device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => removing && removePatient(removing.id)}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Remove
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
+
+function HandoffSummaryDialog({ patients }: { patients: CensusPatient[] }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(formatHandoffText(patients));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <ClipboardList className="w-4 h-4 mr-1" />
+          Handoff
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Handoff Summary</DialogTitle>
+          <DialogDescription>
+            Latest labs, key results and pending rechecks for {patients.length} patient{patients.length !== 1 ? "s" : ""}.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          {patients.map((p) => {
+            const summary = summarizePatient(p);
+            return (
+              <div key={p.id} className="rounded-lg border p-3 space-y-1.5 text-sm">
+                <p className="font-medium">
+                  {p.label}
+                  {summary.demographics && <span className="font-normal text-muted-foreground"> — {summary.demographics}</span>}
+                </p>
+                {summary.labs.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {summary.labs.map((lab) => (
+                      <Badge
+                        key={lab.label}
+                        variant="secondary"
+                        className="text-xs font-normal"
+                        title={lab.collectedAt ? `Collected ${formatHandoffTime(lab.collectedAt)}` : undefined}
+                      >
+                        {lab.label} {lab.value}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {summary.results.map((result) => (
+                  <p key={result.calculatorId} className="text-xs">
+                    <span className="font-medium">{result.calculatorName}:</span> {result.summary}
+                    <span className="text-muted-foreground"> ({formatHandoffTime(result.computedAt)})</span>
+                  </p>
+                ))}
+                {summary.pending.map((recheck) => (
+                  <p
+                    key={recheck.id}
+                    className={cn("text-xs flex items-center gap-1", recheck.overdue && "text-destructive font-medium")}
+                  >
+                    <Clock className="w-3 h-3 flex-shrink-0" />
+                    {recheck.text}
+                    {recheck.dueAt && ` — due ${formatHandoffTime(recheck.dueAt)}${recheck.overdue ? " (overdue)" : ""}`}
+                  </p>
+                ))}
+                {summary.labs.length === 0 && summary.results.length === 0 && summary.pending.length === 0 && (
+                  <p className="text-xs text-muted-foreground">No labs, results or rechecks yet.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        <Button onClick={handleCopy} variant="outline" size="sm" className="w-full">
+          {copied ? <Check className="w-4 h-4 mr-1" /> : <Copy className="w-4 h-4 mr-1" />}
+          {copied ? "Copied" : "Copy as text"}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UserRound, Pencil, Lock, X, ChevronDown, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useCurrentPatient } from "@/contexts/PatientContext";
+import { useSecureStore } from "@/contexts/SecureStoreContext";
+import { SecureStorePinForm } from "@/components/SecureStoreControls";
+import { DEMOGRAPHIC_FIELDS, LAB_FIELDS } from "@/lib/patientFields";
+import { summarizePatient } from "@/lib/handoffSummary";
+
+export function formatPatientTime(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+/** Current patient summary above the calculator inputs, with census switching and a demographics editor */
+export function PatientContextBar() {
+  const { patient, census, selectPatient, addPatient, setField } = useCurrentPatient();
+  const { status } = useSecureStore();
+  const [editing, setEditing] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [newLabel, setNewLabel] = useState("");
+
+  const fields = patient?.fields ?? {};
+  const demographics = patient ? summarizePatient(patient).demographics : "";
+  const labs = LAB_FIELDS.filter((f) => fields[f.id]);
+  const latest = labs
+    .map((f) => fields[f.id].collectedAt ?? "")
+    .sort()
+    .pop();
+
+  const handleAdd = () => {
+    if (!newLabel.trim()) return;
+    addPatient(newLabel);
+    setNewLabel("");
+    setAdding(false);
+  };
+
+  return (
+    <div className="flex items-center justify-between gap-2 rounded-lg border border-emerald-500/30 bg-emerald-500/5 px-3 py-2 text-xs">
+      <div className="flex items-center gap-2 min-w-0">
+        <UserRound className="w-3.5 h-3.5 text-emerald-600 dark:text-emerald-400 flex-shrink-0" />
+        {status !== "unlocked" ? (
+          <span className="text-muted-foreground truncate">Patient data is locked.</span>
+        ) : adding ? (
+          <form
+            className="flex items-center gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAdd();
+            }}
+          >
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              placeholder="Bed 12, Patient A..."
+              className="h-7 text-xs w-40"
+              autoComplete="off"
+              autoFocus
+            />
+            <Button type="submit" size="sm" className="h-7 text-xs" disabled={!newLabel.trim()}>
+              Add
+            </Button>
+            <Button type="button" variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setAdding(false)}>
+              Cancel
+            </Button>
+          </form>
+        ) : (
+          <>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  className="flex items-center gap-0.5 font-medium hover:text-emerald-700 dark:hover:text-emerald-400 flex-shrink-0"
+                  title="Switch census patient"
+                >
+                  {patient ? patient.label : "No patient"}
+                  <ChevronDown className="w-3 h-3" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start" className="w-56 max-h-80 overflow-y-auto">
+                {census.map((p) => {
+                  const pending = p.rechecks.filter((r) => !r.done).length;
+                  return (
+                    <DropdownMenuItem
+                      key={p.id}
+                      onClick={() => selectPatient(p.id)}
+                      className={cn("justify-between", p.id === patient?.id && "font-semibold")}
+                    >
+                      <span className="truncate">{p.label}</span>
+                      {pending > 0 && (
+                        <span className="text-[10px] text-amber-600 dark:text-amber-400">
+                          {pending} recheck{pending !== 1 ? "s" : ""}
+                        </span>
+                      )}
+                    </DropdownMenuItem>
+                  );
+                })}
+                {census.length > 0 && <DropdownMenuSeparator />}
+                <DropdownMenuItem onClick={() => setAdding(true)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add patient
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {patient ? (
+              <span className="truncate text-muted-foreground">
+                {demographics && `${demographics} · `}
+                {labs.length} lab{labs.length !== 1 ? "s" : ""}
+                {latest && `, latest ${formatPatientTime(latest)}`}
+              </span>
+            ) : (
+              <span className="text-muted-foreground truncate">
+                Pick or add a patient, or set one from the Patient Scratchpad.
+              </span>
+            )}
+          </>
+        )}
+      </div>
+      <div className="flex items-center gap-1 flex-shrink-0">
+        <Popover open={editing} onOpenChange={setEditing}>
+          <PopoverTrigger asChild>
+            {status !== "unlocked" ? (
+              <Button variant="ghost" size="sm" className="h-7 text-xs" disabled={status === "loading" || status === "unavailable"}>
+                <Lock className="w-3 h-3 mr-1" />
+                {status === "setup" ? "Set PIN" : "Unlock"}
+              </Button>
+            ) : (
+              <Button variant="ghost" size="sm" className="h-7 text-xs" title="Edit current patient demographics">
+                <Pencil className="w-3 h-3 mr-1" />
+                Demographics
+              </Button>
+            )}
+          </PopoverTrigger>
+          <PopoverContent align="end" className={cn("space-y-2", status !== "unlocked" ? "w-80" : "w-64")}>
+            {status !== "unlocked" && <SecureStorePinForm onUnlocked={() => setEditing(false)} />}
+            {status === "unlocked" && DEMOGRAPHIC_FIELDS.map((field) => (
+              <div key={field.id} className="grid grid-cols-[4rem_1fr] items-center gap-2">
+                <Label className="text-xs">{field.label}</Label>
+                {field.id === "sex" ? (
+                  <Select value={fields.sex?.value ?? ""} onValueChange={(value) => setField("sex", value)}>
+                    <SelectTrigger className="h-8 text-sm">
+                      <SelectValue placeholder="Select..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="F">Female</SelectItem>
+                      <SelectItem value="M">Male</SelectItem>
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <div className="relative">
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      autoComplete="off"
+                      value={fields[field.id]?.value ?? ""}
+                      onChange={(e) => {
+                        const val = e.target.value;
+                        if (val === "" || /^\d*\.?\d*$/.test(val)) setField(field.id, val);
+                      }}
+                      className="h-8 text-sm pr-12"
+                    />
+                    <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-muted-foreground">{field.unit}</span>
+                  </div>
+                )}
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+        {patient && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => selectPatient(null)}
+            className="h-7 w-7"
+            title="Stop using this patient (it stays in the census)"
+          >
+            <X className="w-3.5 h-3.5" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
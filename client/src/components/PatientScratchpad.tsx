@@ -4,44 +4,44 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { X, Plus, Trash2, ClipboardPaste } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { X, Plus, Trash2, ClipboardPaste, FileJson, UserCheck } from "lucide-react";
+import {
+  importFhirObservations,
+  LAB_LOINC_CODES,
+  scratchpadUnit,
+  toConventionalValue,
+  type FhirImportResult,
+  type SkippedObservation,
+} from "@/lib/fhirObservationImport";
+import { labsToScratchpad, parseOruMessage } from "@/lib/hl7OruParser";
+import { parseLabText, type LabFlag, type LabTextParseResult } from "@/lib/labTextParser";
+import { useCurrentPatient } from "@/contexts/PatientContext";
+import { useSecureState, useSecureStore } from "@/contexts/SecureStoreContext";
+import { SecureStorePinForm } from "@/components/SecureStoreControls";
 
 interface ScratchpadEntry {
   id: string;
   label: string;
   labs: Record<string, string>;
-  /** Unit system when entry was saved — needed to display badges and convert on "Use Labs" */
+  /** Unit system when entry was saved — needed to display badges and convert on "Set as patient" */
   unitSystem: "conventional" | "si";
   createdAt: number;
+  /** ISO collection time per lab, for imported labs */
+  collectedAt?: Record<string, string>;
+  /** Abnormal flags per lab, for labs pasted from EMR text */
+  flags?: Record<string, LabFlag>;
+  /** Census patient the entry belongs to; unassigned when absent */
+  patientId?: string;
 }
 
 interface PatientScratchpadProps {
   onClose: () => void;
-  onUseLabs?: (labs: Record<string, string>) => void;
   /** Current global unit preference from Dashboard */
   unitPreference: "conventional" | "si";
 }
 
-// Unit conversion definitions for labs that support SI
-// conversionFactor: multiply conventional value by this to get SI value
-interface UnitDef {
-  conventional: { unit: string; placeholder: string };
-  si: { unit: string; placeholder: string };
-  factor: number; // conventional × factor = SI
-}
-
-const UNIT_CONVERSIONS: Record<string, UnitDef> = {
-  cr:      { conventional: { unit: "mg/dL", placeholder: "1.2" },   si: { unit: "μmol/L", placeholder: "106" },  factor: 88.4 },
-  ucr:     { conventional: { unit: "mg/dL", placeholder: "80" },    si: { unit: "μmol/L", placeholder: "7072" }, factor: 88.4 },
-  bun:     { conventional: { unit: "mg/dL", placeholder: "20" },    si: { unit: "mmol/L", placeholder: "7.1" },  factor: 0.357 },
-  ca:      { conventional: { unit: "mg/dL", placeholder: "9.5" },   si: { unit: "mmol/L", placeholder: "2.38" }, factor: 0.25 },
-  phos:    { conventional: { unit: "mg/dL", placeholder: "3.5" },   si: { unit: "mmol/L", placeholder: "1.13" }, factor: 0.3229 },
-  mg:      { conventional: { unit: "mg/dL", placeholder: "2.0" },   si: { unit: "mmol/L", placeholder: "0.82" }, factor: 0.4114 },
-  alb:     { conventional: { unit: "g/dL", placeholder: "4.0" },    si: { unit: "g/L", placeholder: "40" },      factor: 10 },
-  glucose: { conventional: { unit: "mg/dL", placeholder: "100" },   si: { unit: "mmol/L", placeholder: "5.6" },  factor: 0.0555 },
-  hgb:     { conventional: { unit: "g/dL", placeholder: "12" },     si: { unit: "g/L", placeholder: "120" },     factor: 10 },
-};
-
 interface LabField {
   id: string;
   label: string;
@@ -49,80 +49,49 @@ interface LabField {
   placeholder: string;
 }
 
-function getLabFields(unitPref: "conventional" | "si"): LabField[] {
-  const base: Array<{ id: string; label: string; unit: string; placeholder: string }> = [
-    { id: "cr", label: "Cr", unit: "mg/dL", placeholder: "1.2" },
-    { id: "na", label: "Na", unit: "mEq/L", placeholder: "140" },
-    { id: "k", label: "K", unit: "mEq/L", placeholder: "4.0" },
-    { id: "bun", label: "BUN", unit: "mg/dL", placeholder: "20" },
-    { id: "hco3", label: "HCO\u2083", unit: "mEq/L", placeholder: "24" },
-    { id: "cl", label: "Cl", unit: "mEq/L", placeholder: "100" },
-    { id: "ca", label: "Ca", unit: "mg/dL", placeholder: "9.5" },
-    { id: "phos", label: "Phos", unit: "mg/dL", placeholder: "3.5" },
-    { id: "mg", label: "Mg", unit: "mg/dL", placeholder: "2.0" },
-    { id: "alb", label: "Alb", unit: "g/dL", placeholder: "4.0" },
-    { id: "glucose", label: "Gluc", unit: "mg/dL", placeholder: "100" },
-    { id: "hgb", label: "Hgb", unit: "g/dL", placeholder: "12" },
-    { id: "ph", label: "pH", unit: "", placeholder: "7.40" },
-    { id: "pco2", label: "pCO\u2082", unit: "mmHg", placeholder: "40" },
-    { id: "una", label: "UNa", unit: "mEq/L", placeholder: "40" },
-    { id: "ucr", label: "UCr", unit: "mg/dL", placeholder: "80" },
-    { id: "uosm", label: "UOsm", unit: "mOsm/kg", placeholder: "500" },
-    { id: "sosm", label: "SOsm", unit: "mOsm/kg", placeholder: "285" },
-  ];
+// Placeholders in conventional units, and in SI for labs whose unit changes
+const LAB_PLACEHOLDERS: Array<{ id: string; label: string; placeholder: string; siPlaceholder?: string }> = [
+  { id: "cr", label: "Cr", placeholder: "1.2", siPlaceholder: "106" },
+  { id: "na", label: "Na", placeholder: "140" },
+  { id: "k", label: "K", placeholder: "4.0" },
+  { id: "bun", label: "BUN", placeholder: "20", siPlaceholder: "7.1" },
+  { id: "hco3", label: "HCO\u2083", placeholder: "24" },
+  { id: "cl", label: "Cl", placeholder: "100" },
+  { id: "ca", label: "Ca", placeholder: "9.5", siPlaceholder: "2.38" },
+  { id: "phos", label: "Phos", placeholder: "3.5", siPlaceholder: "1.13" },
+  { id: "mg", label: "Mg", placeholder: "2.0", siPlaceholder: "0.82" },
+  { id: "alb", label: "Alb", placeholder: "4.0", siPlaceholder: "40" },
+  { id: "glucose", label: "Gluc", placeholder: "100", siPlaceholder: "5.6" },
+  { id: "hgb", label: "Hgb", placeholder: "12", siPlaceholder: "120" },
+  { id: "ph", label: "pH", placeholder: "7.40" },
+  { id: "pco2", label: "pCO\u2082", placeholder: "40" },
+  { id: "una", label: "UNa", placeholder: "40" },
+  { id: "ucr", label: "UCr", placeholder: "80", siPlaceholder: "7072" },
+  { id: "uosm", label: "UOsm", placeholder: "500" },
+  { id: "sosm", label: "SOsm", placeholder: "285" },
+];
 
-  return base.map((f) => {
-    const conv = UNIT_CONVERSIONS[f.id];
-    if (conv && unitPref === "si") {
-      return { ...f, unit: conv.si.unit, placeholder: conv.si.placeholder };
-    }
-    return f;
-  });
+function getLabFields(unitPref: "conventional" | "si"): LabField[] {
+  return LAB_PLACEHOLDERS.map(({ siPlaceholder, ...f }) => ({
+    ...f,
+    unit: getDisplayUnit(f.id, unitPref),
+    placeholder: unitPref === "si" && siPlaceholder ? siPlaceholder : f.placeholder,
+  }));
 }
 
 /** Get the display unit for a lab field given the unit system it was saved with */
 function getDisplayUnit(labId: string, unitSystem: "conventional" | "si"): string {
-  const conv = UNIT_CONVERSIONS[labId];
-  if (conv) {
-    return unitSystem === "si" ? conv.si.unit : conv.conventional.unit;
-  }
-  // Non-convertible labs — static units
-  const staticUnits: Record<string, string> = {
-    na: "mEq/L", k: "mEq/L", hco3: "mEq/L", cl: "mEq/L",
-    ph: "", pco2: "mmHg", una: "mEq/L", uosm: "mOsm/kg", sosm: "mOsm/kg",
-  };
-  return staticUnits[labId] ?? "";
+  const def = LAB_LOINC_CODES.find((d) => d.labId === labId);
+  return def ? scratchpadUnit(def, unitSystem) : "";
 }
 
 /** Convert a value from SI to conventional units */
 function siToConventional(labId: string, siValue: number): number {
-  const conv = UNIT_CONVERSIONS[labId];
-  if (!conv) return siValue;
-  return siValue / conv.factor;
+  const def = LAB_LOINC_CODES.find((d) => d.labId === labId);
+  if (!def) return siValue;
+  return toConventionalValue(def, siValue, scratchpadUnit(def, "si")) ?? siValue;
 }
 
-// Maps scratchpad lab IDs to all possible calculator input IDs
-const LAB_TO_CALCULATOR: Record<string, string[]> = {
-  cr: ["creatinine", "serumCreatinine", "serumCr"],
-  na: ["sodium", "serumNa", "serumSodium"],
-  k: ["potassium", "serumPotassium"],
-  bun: ["bun", "serumBUN"],
-  hco3: ["bicarbonate", "serumBicarbonate"],
-  cl: ["chloride", "serumChloride"],
-  ca: ["calcium", "serumCalcium"],
-  phos: ["phosphate", "serumPhosphate", "serumPhos"],
-  mg: ["magnesium", "serumMagnesium"],
-  alb: ["albumin", "serumAlbumin"],
-  glucose: ["glucose", "serumGlucose"],
-  hgb: ["hemoglobin"],
-  ph: ["ph", "arterialPH"],
-  pco2: ["pco2", "arterialPCO2"],
-  una: ["urineNa", "urineSodium"],
-  ucr: ["urineCr", "urineCreatinine"],
-  uosm: ["urineOsm", "urineOsmolality"],
-  sosm: ["serumOsm", "serumOsmolality"],
-};
-
 const STORAGE_KEY = "patient-scratchpad";
 const MAX_ENTRIES = 8;
 const EXPIRY_MS = 24 * 60 * 60 * 1000; // 24 hours
@@ -137,20 +106,31 @@ function timeAgo(timestamp: number): string {
   return "expired";
 }
 
-function loadEntries(): ScratchpadEntry[] {
-  try {
-    const raw = localStorage.getItem(STORAGE_KEY);
-    if (!raw) return [];
-    const entries: ScratchpadEntry[] = JSON.parse(raw);
-    const now = Date.now();
-    return entries.filter((e) => now - e.createdAt < EXPIRY_MS);
-  } catch {
-    return [];
+/** Parse pasted FHIR JSON or an HL7 v2 ORU^R01 message into scratchpad labs */
+function importLabs(text: string, unitSystem: "conventional" | "si"): FhirImportResult {
+  if (!text.trimStart().startsWith("MSH")) {
+    return importFhirObservations(text, unitSystem);
   }
+  const message = parseOruMessage(text);
+  const labs = labsToScratchpad(message.labs, unitSystem);
+  const skipped: SkippedObservation[] = [
+    ...message.unmatched.map((obx) => ({ code: obx.code, display: obx.text, reason: obx.reason })),
+    ...message.labs
+      .filter((lab) => !labs.some((l) => l.code === lab.code))
+      .map((lab) => ({ code: lab.code, display: lab.label, reason: "No scratchpad field" })),
+  ];
+  return { labs, skipped, observationCount: message.obxCount };
 }
 
-function saveEntries(entries: ScratchpadEntry[]) {
-  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+const FLAG_MARKERS: Record<LabFlag, string> = { high: "H", low: "L", critical: "!!", abnormal: "*" };
+
+// Pasted text that is neither FHIR JSON nor an HL7 message goes through the lab text parser
+const isStructuredImport = (text: string) => /^\s*([[{]|MSH)/.test(text);
+
+function formatCollectedAt(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
 }
 
 const SHORT_LABELS: Record<string, string> = {
@@ -159,31 +139,124 @@ const SHORT_LABELS: Record<string, string> = {
   ph: "pH", pco2: "pCO\u2082", una: "UNa", ucr: "UCr", uosm: "UOsm", sosm: "SOsm",
 };
 
-export function PatientScratchpad({ onClose, onUseLabs, unitPreference }: PatientScratchpadProps) {
-  const [entries, setEntries] = useState<ScratchpadEntry[]>(loadEntries);
+export function PatientScratchpad({ onClose, unitPreference }: PatientScratchpadProps) {
+  const { patient, census, ready, addPatient, setLabs } = useCurrentPatient();
+  const { status } = useSecureStore();
+  const [allEntries, setEntries, loaded] = useSecureState<ScratchpadEntry[]>(STORAGE_KEY, []);
+  // Each census patient has its own scratchpad; unassigned entries show when no patient is active
+  const entries = allEntries.filter((e) => (e.patientId ?? null) === (patient?.id ?? null));
   const [showForm, setShowForm] = useState(false);
   const [newLabel, setNewLabel] = useState("");
   const [newLabs, setNewLabs] = useState<Record<string, string>>({});
+  const [newCollectedAt, setNewCollectedAt] = useState<Record<string, string>>({});
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importSkipped, setImportSkipped] = useState<SkippedObservation[]>([]);
+  const [newFlags, setNewFlags] = useState<Record<string, LabFlag>>({});
+  const [review, setReview] = useState<LabTextParseResult | null>(null);
+  const [reviewSelected, setReviewSelected] = useState<Set<number>>(new Set());
 
   const labFields = getLabFields(unitPreference);
 
-  // Persist whenever entries change
+  // Drop expired entries, and those of patients removed from the census,
+  // once the encrypted store has been read
   useEffect(() => {
-    saveEntries(entries);
-  }, [entries]);
+    if (!loaded || !ready) return;
+    const now = Date.now();
+    setEntries((prev) => {
+      const fresh = prev.filter(
+        (e) => now - e.createdAt < EXPIRY_MS && (!e.patientId || census.some((p) => p.id === e.patientId))
+      );
+      return fresh.length === prev.length ? prev : fresh;
+    });
+  }, [loaded, ready, census, setEntries]);
 
   const handleLabChange = useCallback((labId: string, value: string) => {
     if (value === "" || /^\d*\.?\d*$/.test(value)) {
       setNewLabs((prev) => ({ ...prev, [labId]: value }));
+      // A hand-edited value no longer carries the imported collection time or flag
+      const without = <T,>(prev: Record<string, T>) => {
+        if (!(labId in prev)) return prev;
+        const { [labId]: _, ...rest } = prev;
+        return rest;
+      };
+      setNewCollectedAt(without);
+      setNewFlags(without);
     }
   }, []);
 
+  const resetForm = useCallback(() => {
+    setNewLabel("");
+    setNewLabs({});
+    setNewCollectedAt({});
+    setNewFlags({});
+    setImportSkipped([]);
+  }, []);
+
+  const closeImport = useCallback(() => {
+    setShowImport(false);
+    setImportText("");
+    setImportError(null);
+    setReview(null);
+  }, []);
+
+  const handleImportFile = useCallback(async (file: File | undefined) => {
+    if (!file) return;
+    setImportText(await file.text());
+    setImportError(null);
+  }, []);
+
+  // Parse the FHIR JSON or HL7 message and pre-fill the add form for review before saving;
+  // free text first gets a review list, since its analyte matching is heuristic
+  const handleImport = useCallback(() => {
+    if (!isStructuredImport(importText)) {
+      const parsed = parseLabText(importText, unitPreference);
+      if (parsed.rows.length === 0) {
+        setImportError("No recognizable lab values found.");
+        return;
+      }
+      setReview(parsed);
+      setReviewSelected(new Set(parsed.rows.flatMap((row, i) => (row.duplicate ? [] : [i]))));
+      setImportError(null);
+      return;
+    }
+    try {
+      const result = importLabs(importText, unitPreference);
+      if (result.labs.length === 0) {
+        setImportError(`None of the ${result.observationCount} results matched a scratchpad lab.`);
+        setImportSkipped(result.skipped);
+        return;
+      }
+      setNewLabs(Object.fromEntries(result.labs.map((lab) => [lab.labId, lab.value])));
+      setNewCollectedAt(Object.fromEntries(result.labs.filter((lab) => lab.collectedAt).map((lab) => [lab.labId, lab.collectedAt])));
+      setImportSkipped(result.skipped);
+      closeImport();
+      setShowForm(true);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : "Could not read the lab data.");
+    }
+  }, [importText, unitPreference, closeImport]);
+
+  const handleApplyReview = useCallback(() => {
+    if (!review) return;
+    const rows = review.rows.filter((_, i) => reviewSelected.has(i));
+    setNewLabs(Object.fromEntries(rows.map((row) => [row.labId, row.value])));
+    setNewCollectedAt(Object.fromEntries(rows.flatMap((row) => (row.collectedAt ? [[row.labId, row.collectedAt]] : []))));
+    setNewFlags(Object.fromEntries(rows.flatMap((row) => (row.flag ? [[row.labId, row.flag]] : []))));
+    setImportSkipped(review.unparsed.map(({ line, reason }) => ({ code: "", display: line, reason })));
+    closeImport();
+    setShowForm(true);
+  }, [review, reviewSelected, closeImport]);
+
   const handleAdd = useCallback(() => {
     const filledLabs: Record<string, string> = {};
     for (const [key, val] of Object.entries(newLabs)) {
       if (val && val.trim()) filledLabs[key] = val.trim();
     }
     if (!newLabel.trim() || Object.keys(filledLabs).length === 0) return;
+    const collectedAt = Object.fromEntries(Object.entries(newCollectedAt).filter(([labId]) => labId in filledLabs));
+    const flags = Object.fromEntries(Object.entries(newFlags).filter(([labId]) => labId in filledLabs));
 
     const entry: ScratchpadEntry = {
       id: crypto.randomUUID(),
@@ -191,53 +264,53 @@ export function PatientScratchpad({ onClose, onUseLabs, unitPreference }: Patien
       labs: filledLabs,
       unitSystem: unitPreference,
       createdAt: Date.now(),
+      ...(Object.keys(collectedAt).length > 0 && { collectedAt }),
+      ...(Object.keys(flags).length > 0 && { flags }),
+      ...(patient && { patientId: patient.id }),
     };
 
+    // MAX_ENTRIES applies per patient
     setEntries((prev) => {
-      const next = [entry, ...prev];
-      return next.slice(0, MAX_ENTRIES);
+      const own = prev.filter((e) => e.patientId === entry.patientId);
+      const others = prev.filter((e) => e.patientId !== entry.patientId);
+      return [entry, ...own.slice(0, MAX_ENTRIES - 1), ...others];
     });
-    setNewLabel("");
-    setNewLabs({});
+    resetForm();
     setShowForm(false);
-  }, [newLabel, newLabs, unitPreference]);
+  }, [newLabel, newLabs, newCollectedAt, newFlags, unitPreference, patient, resetForm]);
 
   const handleDelete = useCallback((id: string) => {
     setEntries((prev) => prev.filter((e) => e.id !== id));
   }, []);
 
   const handleClearAll = useCallback(() => {
-    setEntries([]);
-  }, []);
+    setEntries((prev) => prev.filter((e) => (e.patientId ?? null) !== (patient?.id ?? null)));
+  }, [patient]);
 
-  const handleUseLabs = useCallback(
+  // Load the entry's labs into the active census patient, which keeps every
+  // calculator's matching inputs filled. The context stores conventional units.
+  // An unassigned entry becomes a new census patient named after its label.
+  const handleSetPatient = useCallback(
     (entry: ScratchpadEntry) => {
-      if (!onUseLabs) return;
-      const mapped: Record<string, string> = {};
+      const labs: Record<string, string> = {};
       for (const [labId, value] of Object.entries(entry.labs)) {
         const numVal = Number(value);
-        const calcIds = LAB_TO_CALCULATOR[labId];
-        if (!calcIds) continue;
-
-        // If the entry was saved in SI but calculators expect conventional input,
-        // convert SI → conventional. Dashboard's getValue() will then convert
-        // conventional → SI if the user has SI units active.
-        // If entry was saved in conventional, pass as-is.
-        let outputValue: string;
-        if (entry.unitSystem === "si" && UNIT_CONVERSIONS[labId] && !isNaN(numVal)) {
-          const conventionalVal = siToConventional(labId, numVal);
-          outputValue = conventionalVal.toFixed(2).replace(/\.?0+$/, "");
+        if (entry.unitSystem === "si" && getDisplayUnit(labId, "si") !== getDisplayUnit(labId, "conventional") && !isNaN(numVal)) {
+          labs[labId] = siToConventional(labId, numVal).toFixed(2).replace(/\.?0+$/, "");
         } else {
-          outputValue = value;
-        }
-
-        for (const calcId of calcIds) {
-          mapped[calcId] = outputValue;
+          labs[labId] = value;
         }
       }
-      onUseLabs(mapped);
+      // Hand-entered labs are timed by when the entry was saved
+      const saved = new Date(entry.createdAt).toISOString();
+      const collectedAt = Object.fromEntries(Object.keys(labs).map((labId) => [labId, entry.collectedAt?.[labId] ?? saved]));
+      if (!patient) {
+        const patientId = addPatient(entry.label);
+        setEntries((prev) => prev.map((e) => (e.id === entry.id ? { ...e, patientId } : e)));
+      }
+      setLabs(labs, collectedAt);
     },
-    [onUseLabs]
+    [patient, addPatient, setLabs]
   );
 
   const filledCount = Object.values(newLabs).filter((v) => v && v.trim()).length;
@@ -251,7 +324,7 @@ export function PatientScratchpad({ onClose, onUseLabs, unitPreference }: Patien
             Patient Scratchpad
           </CardTitle>
           <div className="flex items-center gap-2">
-            {entries.length > 0 && (
+            {status === "unlocked" && entries.length > 0 && (
               <Button variant="ghost" size="sm" onClick={handleClearAll} className="text-xs text-destructive hover:text-destructive">
                 Clear All
               </Button>
@@ -262,128 +335,288 @@ export function PatientScratchpad({ onClose, onUseLabs, unitPreference }: Patien
           </div>
         </div>
         <p className="text-xs text-muted-foreground">
-          Save patient labs temporarily for quick reuse. Auto-expires after 24h.
+          {patient ? `Labs for ${patient.label}. ` : "Save patient labs temporarily for quick reuse. "}
+          Encrypted on this device; auto-expires after 24h.
         </p>
       </CardHeader>
-      <CardContent className="space-y-3">
-        {/* Existing entries */}
-        {entries.map((entry) => (
-          <div
-            key={entry.id}
-            className="rounded-lg border p-3 space-y-2"
-          >
-            <div className="flex items-center justify-between gap-2">
-              <div className="flex items-center gap-2 min-w-0">
-                <span className="font-medium text-sm truncate">{entry.label}</span>
-                <span className="text-xs text-muted-foreground flex-shrink-0">{timeAgo(entry.createdAt)}</span>
-                {entry.unitSystem === "si" && (
-                  <Badge variant="outline" className="text-[10px] flex-shrink-0">SI</Badge>
-                )}
+      {status !== "unlocked" ? (
+        <CardContent>
+          <SecureStorePinForm />
+        </CardContent>
+      ) : (
+        <CardContent className="space-y-3">
+          {/* Existing entries */}
+          {entries.map((entry) => (
+            <div
+              key={entry.id}
+              className="rounded-lg border p-3 space-y-2"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium text-sm truncate">{entry.label}</span>
+                  <span className="text-xs text-muted-foreground flex-shrink-0">{timeAgo(entry.createdAt)}</span>
+                  {entry.unitSystem === "si" && (
+                    <Badge variant="outline" className="text-[10px] flex-shrink-0">SI</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSetPatient(entry)}
+                    className="text-xs h-7"
+                    title={
+                      patient
+                        ? `Make these ${patient.label}'s current labs; calculators fill matching inputs automatically`
+                        : "Add a census patient with these labs; calculators fill matching inputs automatically"
+                    }
+                  >
+                    <UserCheck className="w-3 h-3 mr-1" />
+                    {patient ? "Use labs" : "Set as patient"}
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.id)} className="h-7 w-7 text-destructive hover:text-destructive">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(entry.labs).map(([labId, value]) => {
+                  const displayUnit = getDisplayUnit(labId, entry.unitSystem ?? "conventional");
+                  const collectedAt = entry.collectedAt?.[labId];
+                  return (
+                    <Badge
+                      key={labId}
+                      variant="secondary"
+                      className="text-xs font-normal"
+                      title={collectedAt ? `Collected ${collectedAt}` : undefined}
+                    >
+                      {SHORT_LABELS[labId] ?? labId}: {value}
+                      {displayUnit ? ` ${displayUnit}` : ""}
+                      {entry.flags?.[labId] && (
+                        <span className="ml-1 font-semibold text-destructive">{FLAG_MARKERS[entry.flags[labId]]}</span>
+                      )}
+                      {collectedAt && <span className="ml-1 opacity-60">{formatCollectedAt(collectedAt)}</span>}
+                    </Badge>
+                  );
+                })}
               </div>
-              <div className="flex items-center gap-1 flex-shrink-0">
-                {onUseLabs && (
-                  <Button variant="outline" size="sm" onClick={() => handleUseLabs(entry)} className="text-xs h-7">
-                    <ClipboardPaste className="w-3 h-3 mr-1" />
-                    Use
+            </div>
+          ))}
+
+          {/* Add form */}
+          {showForm ? (
+            <div className="rounded-lg border border-emerald-500/30 p-3 space-y-3">
+              <div>
+                <Label htmlFor="scratchpad-label" className="text-sm font-medium">
+                  Label
+                </Label>
+                <Input
+                  id="scratchpad-label"
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  placeholder="Bed 12, Patient A..."
+                  className="mt-1"
+                  autoComplete="off"
+                />
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
+                {labFields.map((field) => (
+                  <div key={field.id}>
+                    <Label className="text-xs text-muted-foreground truncate block">
+                      {field.label}
+                      {field.unit ? (
+                        <span className="ml-1 opacity-60">{field.unit}</span>
+                      ) : null}
+                    </Label>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      autoComplete="off"
+                      value={newLabs[field.id] ?? ""}
+                      onChange={(e) => handleLabChange(field.id, e.target.value)}
+                      placeholder={field.placeholder}
+                      className="h-8 text-sm"
+                    />
+                    {(newCollectedAt[field.id] || newFlags[field.id]) && (
+                      <span className="text-[10px] text-muted-foreground">
+                        {newFlags[field.id] && (
+                          <span className="mr-1 font-semibold text-destructive">{FLAG_MARKERS[newFlags[field.id]]}</span>
+                        )}
+                        {newCollectedAt[field.id] && formatCollectedAt(newCollectedAt[field.id])}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+              {importSkipped.length > 0 && <SkippedList skipped={importSkipped} />}
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">
+                  {filledCount} lab{filledCount !== 1 ? "s" : ""} filled
+                  {unitPreference === "si" && " (SI units)"}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setShowForm(false);
+                      resetForm();
+                    }}
+                  >
+                    Cancel
                   </Button>
-                )}
-                <Button variant="ghost" size="icon" onClick={() => handleDelete(entry.id)} className="h-7 w-7 text-destructive hover:text-destructive">
-                  <Trash2 className="w-3 h-3" />
-                </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleAdd}
+                    disabled={!newLabel.trim() || filledCount === 0}
+                  >
+                    Save
+                  </Button>
+                </div>
               </div>
             </div>
-            <div className="flex flex-wrap gap-1">
-              {Object.entries(entry.labs).map(([labId, value]) => {
-                const displayUnit = getDisplayUnit(labId, entry.unitSystem ?? "conventional");
-                return (
-                  <Badge key={labId} variant="secondary" className="text-xs font-normal">
-                    {SHORT_LABELS[labId] ?? labId}: {value}
-                    {displayUnit ? ` ${displayUnit}` : ""}
-                  </Badge>
-                );
-              })}
+          ) : showImport && review ? (
+            <div className="rounded-lg border border-emerald-500/30 p-3 space-y-3">
+              <div>
+                <p className="text-sm font-medium">Review Pasted Labs</p>
+                <p className="text-xs text-muted-foreground">
+                  Check each match before using it. Rows without a unit were read as {unitPreference === "si" ? "SI" : "conventional"} units.
+                </p>
+              </div>
+              <div className="rounded-md border divide-y">
+                {review.rows.map((row, i) => (
+                  <label key={i} className="flex items-start gap-2 px-2 py-1.5 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={reviewSelected.has(i)}
+                      onCheckedChange={(checked) =>
+                        setReviewSelected((prev) => {
+                          const next = new Set(prev);
+                          if (checked) next.add(i);
+                          else next.delete(i);
+                          return next;
+                        })
+                      }
+                      className="mt-0.5"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-1">
+                        <span className="font-medium">{SHORT_LABELS[row.labId] ?? row.labId}</span>
+                        <span>
+                          {row.value}
+                          {row.unit ? ` ${row.unit}` : ""}
+                        </span>
+                        {row.flag && (
+                          <Badge variant="outline" className="text-[10px] text-destructive border-destructive/40">
+                            {row.flag}
+                          </Badge>
+                        )}
+                        {row.collectedAt && <span className="text-muted-foreground">{formatCollectedAt(row.collectedAt)}</span>}
+                        {row.unitAssumed && row.unit && <span className="text-amber-600 dark:text-amber-400">unit assumed</span>}
+                        {row.duplicate && <span className="text-muted-foreground">older duplicate</span>}
+                      </div>
+                      <p className="text-muted-foreground font-mono truncate">{row.line}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+              {review.unparsed.length > 0 && (
+                <SkippedList skipped={review.unparsed.map(({ line, reason }) => ({ code: "", display: line, reason }))} />
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setReview(null)}>
+                  Back
+                </Button>
+                <Button size="sm" onClick={handleApplyReview} disabled={reviewSelected.size === 0}>
+                  Use {reviewSelected.size} lab{reviewSelected.size !== 1 ? "s" : ""}
+                </Button>
+              </div>
             </div>
-          </div>
-        ))}
-
-        {/* Add form */}
-        {showForm ? (
-          <div className="rounded-lg border border-emerald-500/30 p-3 space-y-3">
-            <div>
-              <Label htmlFor="scratchpad-label" className="text-sm font-medium">
-                Label
-              </Label>
+          ) : showImport ? (
+            <div className="rounded-lg border border-emerald-500/30 p-3 space-y-3">
+              <div>
+                <Label htmlFor="scratchpad-fhir" className="text-sm font-medium">
+                  Import Labs
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  Paste a lab table copied from the EMR, a FHIR Bundle or Observation, or an HL7 ORU^R01 message, or choose a file. The most recent value per lab is kept.
+                </p>
+              </div>
+              <Textarea
+                id="scratchpad-fhir"
+                value={importText}
+                onChange={(e) => {
+                  setImportText(e.target.value);
+                  setImportError(null);
+                }}
+                placeholder={'Creatinine  2.3  H  mg/dL  06:00\nPotassium  5.1  mmol/L\n\nor FHIR JSON / HL7 v2'}
+                className="font-mono text-xs min-h-[120px]"
+              />
               <Input
-                id="scratchpad-label"
-                value={newLabel}
-                onChange={(e) => setNewLabel(e.target.value)}
-                placeholder="Bed 12, Patient A..."
-                className="mt-1"
-                autoComplete="off"
+                type="file"
+                accept=".json,.hl7,.txt,application/json,application/fhir+json"
+                onChange={(e) => handleImportFile(e.target.files?.[0])}
+                className="text-xs"
               />
-            </div>
-            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">
-              {labFields.map((field) => (
-                <div key={field.id}>
-                  <Label className="text-xs text-muted-foreground truncate block">
-                    {field.label}
-                    {field.unit ? (
-                      <span className="ml-1 opacity-60">{field.unit}</span>
-                    ) : null}
-                  </Label>
-                  <Input
-                    type="text"
-                    inputMode="decimal"
-                    autoComplete="off"
-                    value={newLabs[field.id] ?? ""}
-                    onChange={(e) => handleLabChange(field.id, e.target.value)}
-                    placeholder={field.placeholder}
-                    className="h-8 text-sm"
-                  />
-                </div>
-              ))}
-            </div>
-            <div className="flex items-center justify-between">
-              <span className="text-xs text-muted-foreground">
-                {filledCount} lab{filledCount !== 1 ? "s" : ""} filled
-                {unitPreference === "si" && " (SI units)"}
-              </span>
-              <div className="flex gap-2">
+              {importError && <p className="text-xs text-destructive">{importError}</p>}
+              {importError && importSkipped.length > 0 && <SkippedList skipped={importSkipped} />}
+              <div className="flex justify-end gap-2">
                 <Button
                   variant="ghost"
                   size="sm"
                   onClick={() => {
-                    setShowForm(false);
-                    setNewLabel("");
-                    setNewLabs({});
+                    closeImport();
+                    setImportSkipped([]);
                   }}
                 >
                   Cancel
                 </Button>
-                <Button
-                  size="sm"
-                  onClick={handleAdd}
-                  disabled={!newLabel.trim() || filledCount === 0}
-                >
-                  Save
+                <Button size="sm" onClick={handleImport} disabled={!importText.trim()}>
+                  Import
                 </Button>
               </div>
             </div>
-          </div>
-        ) : (
-          <Button
-            variant="outline"
-            className="w-full border-dashed"
-            onClick={() => setShowForm(true)}
-            disabled={entries.length >= MAX_ENTRIES}
-          >
-            <Plus className="w-4 h-4 mr-2" />
-            {entries.length >= MAX_ENTRIES
-              ? `Max ${MAX_ENTRIES} entries reached`
-              : "Add Patient Labs"}
-          </Button>
-        )}
-      </CardContent>
+          ) : (
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1 border-dashed"
+                onClick={() => setShowForm(true)}
+                disabled={entries.length >= MAX_ENTRIES}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                {entries.length >= MAX_ENTRIES
+                  ? `Max ${MAX_ENTRIES} entries reached`
+                  : "Add Patient Labs"}
+              </Button>
+              <Button
+                variant="outline"
+                className="border-dashed"
+                onClick={() => setShowImport(true)}
+                disabled={entries.length >= MAX_ENTRIES}
+              >
+                <FileJson className="w-4 h-4 mr-2" />
+                Import Labs
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      )}
     </Card>
   );
 }
+
+function SkippedList({ skipped }: { skipped: SkippedObservation[] }) {
+  return (
+    <div className="text-xs text-muted-foreground">
+      <p className="font-medium">Not imported ({skipped.length})</p>
+      <ul className="mt-1 space-y-0.5">
+        {skipped.map((obs, i) => (
+          <li key={i}>
+            {obs.display || "Unknown code"}
+            {obs.code && obs.code !== obs.display ? ` (${obs.code})` : ""}: {obs.reason}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
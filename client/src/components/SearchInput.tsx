@@ -1,7 +1,7 @@
 import { useState, useCallback, memo, useRef, useEffect } from "react";
 import { Input } from "@/components/ui/input";
 import { Search, X, Calculator, ChevronRight } from "lucide-react";
-import { calculators } from "@/lib/calculatorData";
+import { calculators } from "@shared/engine/calculatorData";
 import { scoreCalculator } from "@/lib/fuzzySearch";
 import { cn } from "@/lib/utils";
 
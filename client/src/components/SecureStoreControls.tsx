@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Lock, LockOpen, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSecureStore } from "@/contexts/SecureStoreContext";
+import { WrongPinError } from "@/lib/secureStore";
+
+const MIN_PIN_LENGTH = 4;
+const AUTO_LOCK_CHOICES = [2, 5, 15, 30];
+
+/** Set-up or unlock form shown wherever patient data is needed while the store is locked */
+export function SecureStorePinForm({ onUnlocked }: { onUnlocked?: () => void }) {
+  const { status, setup, unlock } = useSecureStore();
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  if (status === "loading" || status === "unlocked") return null;
+  if (status === "unavailable") {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Encrypted storage is not available in this browser, so patient data cannot be saved.
+      </p>
+    );
+  }
+
+  const isSetup = status === "setup";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSetup && pin.length < MIN_PIN_LENGTH) {
+      setError(`Use at least ${MIN_PIN_LENGTH} characters.`);
+      return;
+    }
+    if (isSetup && pin !== confirmPin) {
+      setError("PINs do not match.");
+      return;
+    }
+    setBusy(true);
+    try {
+      await (isSetup ? setup(pin) : unlock(pin));
+      setPin("");
+      setConfirmPin("");
+      setError(null);
+      onUnlocked?.();
+    } catch (err) {
+      setError(err instanceof WrongPinError ? err.message : "Could not open encrypted storage.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+        <Lock className="w-3.5 h-3.5 flex-shrink-0" />
+        {isSetup
+          ? "Patient data is encrypted on this device. Choose a PIN or passphrase to protect it."
+          : "Patient data is locked. Enter your PIN or passphrase."}
+      </p>
+      <div className={cn("grid gap-2", isSetup && "sm:grid-cols-2")}>
+        <div>
+          <Label htmlFor="secure-store-pin" className="text-xs">
+            {isSetup ? "New PIN" : "PIN"}
+          </Label>
+          <Input
+            id="secure-store-pin"
+            type="password"
+            autoComplete={isSetup ? "new-password" : "current-password"}
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            className="h-8 text-sm mt-1"
+            autoFocus
+          />
+        </div>
+        {isSetup && (
+          <div>
+            <Label htmlFor="secure-store-pin-confirm" className="text-xs">
+              Confirm PIN
+            </Label>
+            <Input
+              id="secure-store-pin-confirm"
+              type="password"
+              autoComplete="new-password"
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value)}
+              className="h-8 text-sm mt-1"
+            />
+          </div>
+        )}
+      </div>
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <Button type="submit" size="sm" disabled={busy || !pin}>
+        <LockOpen className="w-3.5 h-3.5 mr-1" />
+        {isSetup ? "Set PIN" : "Unlock"}
+      </Button>
+    </form>
+  );
+}
+
+/** Header menu: lock now, auto-lock timeout and the end-of-shift wipe */
+export function SecureStoreMenu() {
+  const { status, lock, wipe, autoLockMinutes, setAutoLockMinutes } = useSecureStore();
+  const [confirmWipe, setConfirmWipe] = useState(false);
+
+  if (status === "loading" || status === "unavailable") return null;
+  const unlocked = status === "unlocked";
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="rounded-lg"
+            title={unlocked ? "Patient data unlocked" : "Patient data locked"}
+          >
+            {unlocked ? <LockOpen className="w-5 h-5 text-emerald-600 dark:text-emerald-400" /> : <Lock className="w-5 h-5" />}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs">Patient data</DropdownMenuLabel>
+          <DropdownMenuItem onClick={lock} disabled={!unlocked}>
+            <Lock className="w-4 h-4 mr-2" />
+            Lock now
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Auto-lock after inactivity</DropdownMenuLabel>
+          <DropdownMenuRadioGroup
+            value={String(autoLockMinutes)}
+            onValueChange={(value) => setAutoLockMinutes(Number(value))}
+          >
+            {AUTO_LOCK_CHOICES.map((minutes) => (
+              <DropdownMenuRadioItem key={minutes} value={String(minutes)}>
+                {minutes} minutes
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => setConfirmWipe(true)}
+            disabled={status === "setup"}
+            className="text-destructive focus:text-destructive"
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Wipe on shift end
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <AlertDialog open={confirmWipe} onOpenChange={setConfirmWipe}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Wipe all patient data?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Deletes the scratchpad, dry weight sessions and current patient from this device, along with the PIN.
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => void wipe()}
+              className="bg-destructive text-white hover:bg-destructive/90"
+            >
+              Wipe
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ArchiveRestore, Download, Upload } from "lucide-react";
+import { useSecureStore } from "@/contexts/SecureStoreContext";
+import {
+  BACKUP_SECTIONS,
+  backupSectionIds,
+  createBackup,
+  parseBackup,
+  restoreBackup,
+  type BackupSectionId,
+  type RestoreMode,
+  type SettingsBackup,
+} from "@/lib/settingsBackup";
+
+const DEFAULT_EXPORT_SECTIONS = BACKUP_SECTIONS.filter((s) => !s.secure).map((s) => s.id);
+
+function downloadBackup(backup: SettingsBackup) {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `nephrology-calculator-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function formatExportedAt(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "an unknown date";
+  return date.toLocaleString(undefined, { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+interface SectionChecklistProps {
+  available: BackupSectionId[];
+  selected: BackupSectionId[];
+  onChange: (selected: BackupSectionId[]) => void;
+  /** Whether the encrypted patient data can be read or written */
+  unlocked: boolean;
+}
+
+function SectionChecklist({ available, selected, onChange, unlocked }: SectionChecklistProps) {
+  return (
+    <div className="space-y-2">
+      {BACKUP_SECTIONS.filter((s) => available.includes(s.id)).map((section) => {
+        const disabled = section.secure && !unlocked;
+        return (
+          <label key={section.id} className="flex items-start gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={selected.includes(section.id) && !disabled}
+              disabled={disabled}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...selected, section.id] : selected.filter((id) => id !== section.id))
+              }
+              className="mt-0.5"
+            />
+            <span>
+              <span className="font-medium">{section.label}</span>
+              <span className="block text-xs text-muted-foreground">
+                {disabled ? "Unlock patient data to include it." : section.description}
+              </span>
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Header dialog for exporting all settings to a JSON file and restoring them on another device */
+export function SettingsBackupDialog() {
+  const { key, status } = useSecureStore();
+  const unlocked = status === "unlocked";
+  const [open, setOpen] = useState(false);
+  const [exportSections, setExportSections] = useState<BackupSectionId[]>(DEFAULT_EXPORT_SECTIONS);
+  const [backup, setBackup] = useState<SettingsBackup | null>(null);
+  const [restoreSections, setRestoreSections] = useState<BackupSectionId[]>([]);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const includesPatientData = exportSections.includes("patientData") && unlocked;
+  const restorable = backup ? backupSectionIds(backup) : [];
+  const selectedRestore = restoreSections.filter((id) => unlocked || !BACKUP_SECTIONS.find((s) => s.id === id)?.secure);
+
+  const handleOpenChange = useCallback((next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setBackup(null);
+      setError(null);
+    }
+  }, []);
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const selected = exportSections.filter((id) => unlocked || !BACKUP_SECTIONS.find((s) => s.id === id)?.secure);
+      downloadBackup(await createBackup(selected, key));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed);
+      setRestoreSections(backupSectionIds(parsed));
+      setError(null);
+    } catch (e) {
+      setBackup(null);
+      setError(e instanceof Error ? e.message : "Could not read the backup file.");
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setBusy(true);
+    try {
+      await restoreBackup(backup, selectedRestore, mode, key);
+      // Every component reads its settings from storage on load
+      window.location.reload();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not restore the backup.");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-lg" title="Back up or restore settings">
+          <ArchiveRestore className="w-5 h-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Backup &amp; Restore</DialogTitle>
+          <DialogDescription>
+            Move your setup to another device or keep a copy before clearing the browser.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid grid-cols-2 w-full">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="restore">Restore</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-2">
+            <SectionChecklist
+              available={BACKUP_SECTIONS.map((s) => s.id)}
+              selected={exportSections}
+              onChange={setExportSections}
+              unlocked={unlocked}
+            />
+            {includesPatientData && (
+              <p className="text-xs text-amber-700 dark:text-amber-400">
+                Patient data is written to the file unencrypted. Store and delete it as you would any identifiable record.
+              </p>
+            )}
+            <Button onClick={handleExport} disabled={busy || exportSections.length === 0} className="w-full">
+              <Download className="w-4 h-4 mr-1" />
+              Download backup
+            </Button>
+          </TabsContent>
+
+          <TabsContent value="restore" className="space-y-4 pt-2">
+            <Button asChild variant="outline" className="w-full">
+              <label className="cursor-pointer">
+                <Upload className="w-4 h-4 mr-1" />
+                Choose backup file
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="sr-only"
+                  onChange={(e) => {
+                    handleFile(e.target.files?.[0]);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </Button>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            {backup && (
+              <>
+                <p className="text-xs text-muted-foreground">Backup from {formatExportedAt(backup.exportedAt)}.</p>
+                {restorable.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">This backup contains no settings.</p>
+                ) : (
+                  <>
+                    <SectionChecklist
+                      available={restorable}
+                      selected={restoreSections}
+                      onChange={setRestoreSections}
+                      unlocked={unlocked}
+                    />
+                    <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="gap-2">
+                      <div className="flex items-start gap-2">
+                        <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+                        <Label htmlFor="restore-merge" className="flex-col items-start gap-0 font-normal">
+                          <span className="font-medium">Merge</span>
+                          <span className="text-xs text-muted-foreground">
+                            Keep this device's settings and add what the backup has on top.
+                          </span>
+                        </Label>
+                      </div>
+                      <div className="flex items-start gap-2">
+                        <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+                        <Label htmlFor="restore-replace" className="flex-col items-start gap-0 font-normal">
+                          <span className="font-medium">Replace</span>
+                          <span className="text-xs text-muted-foreground">
+                            Overwrite the selected sections with the backup.
+                          </span>
+                        </Label>
+                      </div>
+                    </RadioGroup>
+                    <Button onClick={handleRestore} disabled={busy || selectedRestore.length === 0} className="w-full">
+                      Restore {selectedRestore.length} section{selectedRestore.length !== 1 ? "s" : ""} and reload
+                    </Button>
+                  </>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Check, Copy, Share2 } from "lucide-react";
+import type { CalculatorUnits, CalculatorValues, UnitPreference } from "@shared/engine/calculatorInputs";
+import { calculatorPath } from "@/lib/calculatorLinks";
+import { encodeShareFragment } from "@/lib/shareLink";
+
+interface ShareCalculationDialogProps {
+  calculatorId: string;
+  calculatorName: string;
+  values: CalculatorValues;
+  units: CalculatorUnits;
+  unitPreference: UnitPreference;
+}
+
+function appUrl(path: string): string {
+  return `${window.location.origin}${import.meta.env.BASE_URL.replace(/\/$/, "")}${path}`;
+}
+
+function CopyField({ label, value }: { label: string; value: string }) {
+  const [copied, setCopied] = useState(false);
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium">{label}</p>
+      <div className="flex gap-2">
+        <Input readOnly value={value} className="h-8 text-xs font-mono" onFocus={(e) => e.target.select()} />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          disabled={!value}
+          onClick={() => {
+            navigator.clipboard.writeText(value);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+          }}
+        >
+          {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/** Share the current calculation as a compressed link and an offline-rendered QR code */
+export function ShareCalculationDialog({ calculatorId, calculatorName, values, units, unitPreference }: ShareCalculationDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [shareUrl, setShareUrl] = useState("");
+  const [qrDataUrl, setQrDataUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  // Built when the dialog opens, so the link reflects the inputs at that moment
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    encodeShareFragment(calculatorId, values, units, unitPreference)
+      .then(async (fragment) => {
+        const url = appUrl(calculatorPath(calculatorId) + fragment);
+        const qr = await QRCode.toDataURL(url, { errorCorrectionLevel: "M", margin: 1, width: 240 });
+        if (cancelled) return;
+        setShareUrl(url);
+        setQrDataUrl(qr);
+        setError(null);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : "Could not create a share link.");
+      });
+    return () => {
+      cancelled = true;
+    };
+    // Snapshot on open only
+  }, [open]);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) {
+          setShareUrl("");
+          setQrDataUrl("");
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <button className="p-2 rounded-lg hover:bg-accent transition-colors flex-shrink-0" title="Share this calculation">
+          <Share2 className="w-5 h-5 text-muted-foreground" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share {calculatorName}</DialogTitle>
+          <DialogDescription>
+            Scan or send the link to open this calculation with the same inputs on another device.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-center">
+              {qrDataUrl ? (
+                <img src={qrDataUrl} alt="QR code for the shared calculation" width={240} height={240} className="rounded-md border bg-white" />
+              ) : (
+                <div className="w-[240px] h-[240px] rounded-md border bg-muted animate-pulse" />
+              )}
+            </div>
+            <CopyField label="This calculation" value={shareUrl} />
+            <CopyField label="Calculator only (no inputs)" value={appUrl(calculatorPath(calculatorId))} />
+            <p className="text-xs text-muted-foreground">
+              Only this calculator's input values and units are included — no patient names, labels, times or scratchpad notes.
+              They travel in the part of the link after "#", which browsers never send to the server.
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
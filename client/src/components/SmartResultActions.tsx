@@ -1,5 +1,6 @@
 import { ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import type { CalculatorResult } from "@shared/engine/calculatorData";
 
 interface SmartAction {
   label: string;
@@ -8,20 +9,16 @@ interface SmartAction {
 }
 
 interface SmartResultActionsProps {
-  calculatorId: string;
-  result: number | Record<string, unknown> | null;
+  result: CalculatorResult;
   inputs: Record<string, unknown>;
   onNavigate: (calcId: string) => void;
 }
 
-function getSmartActions(
-  calculatorId: string,
-  result: number | Record<string, unknown> | null
-): SmartAction[] {
+function getSmartActions(result: CalculatorResult): SmartAction[] {
   const actions: SmartAction[] = [];
-  const numResult = typeof result === "number" ? result : null;
+  const numResult = result.primary?.value ?? null;
 
-  switch (calculatorId) {
+  switch (result.calculatorId) {
     case "fena":
       if (numResult !== null && numResult < 1) {
         actions.push({ label: "Calculate Water Deficit", calculatorId: "water-deficit-hypernatremia" });
@@ -160,12 +157,11 @@ function getSmartActions(
 }
 
 export function SmartResultActions({
-  calculatorId,
   result,
   inputs: _inputs,
   onNavigate,
 }: SmartResultActionsProps) {
-  const actions = getSmartActions(calculatorId, result);
+  const actions = getSmartActions(result);
 
   if (actions.length === 0) return null;
 
@@ -0,0 +1,245 @@
+import React, { createContext, useCallback, useContext, useEffect } from "react";
+import { useSecureState } from "./SecureStoreContext";
+
+export interface PatientFieldValue {
+  /** Conventional-unit value ("M"/"F" for sex) */
+  value: string;
+  /** ISO collection time, for labs that carried one */
+  collectedAt?: string;
+  updatedAt: number;
+}
+
+/** A calculator result recorded against a census patient */
+export interface PatientCalculation {
+  calculatorId: string;
+  calculatorName: string;
+  summary: string;
+  severity?: string;
+  computedAt: number;
+}
+
+/** A value to repeat, e.g. "K after 40 mEq KCl" due at 06:00 */
+export interface PatientRecheck {
+  id: string;
+  text: string;
+  /** ISO due time */
+  dueAt?: string;
+  done: boolean;
+  createdAt: number;
+}
+
+export interface CensusPatient {
+  id: string;
+  /** Name or bed label */
+  label: string;
+  createdAt: number;
+  /** Keyed by patient field id (see lib/patientFields.ts) */
+  fields: Record<string, PatientFieldValue>;
+  /** Most recent first */
+  history: PatientCalculation[];
+  rechecks: PatientRecheck[];
+}
+
+interface Census {
+  activeId: string | null;
+  patients: CensusPatient[];
+}
+
+interface PatientContextType {
+  census: CensusPatient[];
+  /** False until the census has been read from the (unlocked) store */
+  ready: boolean;
+  /** The active census patient; calculators bind to its fields */
+  patient: CensusPatient | null;
+  selectPatient: (id: string | null) => void;
+  /** Add a patient to the census and make it active; returns its id */
+  addPatient: (label: string) => string;
+  removePatient: (id: string) => void;
+  /** Set or clear (empty value) a field of the active patient */
+  setField: (fieldId: string, value: string) => void;
+  /**
+   * Load lab values into the active patient, or into a new census patient
+   * named `label` when none is active.
+   */
+  setLabs: (values: Record<string, string>, collectedAt?: Record<string, string>, label?: string) => void;
+  recordCalculation: (calculation: PatientCalculation) => void;
+  addRecheck: (patientId: string, text: string, dueAt?: string) => void;
+  toggleRecheck: (patientId: string, recheckId: string) => void;
+  removeRecheck: (patientId: string, recheckId: string) => void;
+}
+
+const STORAGE_KEY = "patient-census";
+// Single current patient kept before the census; folded in on first load
+const LEGACY_PATIENT_KEY = "current-patient";
+const MAX_HISTORY = 20;
+const EMPTY_CENSUS: Census = { activeId: null, patients: [] };
+
+const PatientContext = createContext<PatientContextType | undefined>(undefined);
+
+function newPatient(label: string, fields: Record<string, PatientFieldValue> = {}): CensusPatient {
+  return { id: crypto.randomUUID(), label, createdAt: Date.now(), fields, history: [], rechecks: [] };
+}
+
+/** Update the active patient, first adding one named `fallbackLabel` if none is active */
+function updateActive(census: Census, fallbackLabel: string, update: (patient: CensusPatient) => CensusPatient): Census {
+  const active = census.patients.find((p) => p.id === census.activeId);
+  if (!active) {
+    const added = update(newPatient(fallbackLabel));
+    return { activeId: added.id, patients: [...census.patients, added] };
+  }
+  return { ...census, patients: census.patients.map((p) => (p === active ? update(p) : p)) };
+}
+
+export function PatientProvider({ children }: { children: React.ReactNode }) {
+  // Identifiable, so kept in the encrypted store; empty while locked
+  const [census, setCensus, loaded] = useSecureState<Census>(STORAGE_KEY, EMPTY_CENSUS);
+  const [legacyPatient, setLegacyPatient, legacyLoaded] = useSecureState<{
+    label: string;
+    fields: Record<string, PatientFieldValue>;
+  } | null>(LEGACY_PATIENT_KEY, null);
+
+  useEffect(() => {
+    if (!loaded || !legacyLoaded || !legacyPatient) return;
+    const migrated = newPatient(legacyPatient.label || "Patient", legacyPatient.fields);
+    setCensus((prev) => ({ activeId: prev.activeId ?? migrated.id, patients: [...prev.patients, migrated] }));
+    setLegacyPatient(null);
+  }, [loaded, legacyLoaded, legacyPatient, setCensus, setLegacyPatient]);
+
+  const patient = census.patients.find((p) => p.id === census.activeId) ?? null;
+
+  const updatePatient = useCallback(
+    (id: string, update: (patient: CensusPatient) => CensusPatient) => {
+      setCensus((prev) => ({
+        ...prev,
+        patients: prev.patients.map((p) => (p.id === id ? update(p) : p)),
+      }));
+    },
+    [setCensus]
+  );
+
+  const selectPatient = useCallback(
+    (id: string | null) => setCensus((prev) => ({ ...prev, activeId: id })),
+    [setCensus]
+  );
+
+  const addPatient = useCallback(
+    (label: string) => {
+      const added = newPatient(label.trim());
+      setCensus((prev) => ({ activeId: added.id, patients: [...prev.patients, added] }));
+      return added.id;
+    },
+    [setCensus]
+  );
+
+  const removePatient = useCallback(
+    (id: string) =>
+      setCensus((prev) => ({
+        activeId: prev.activeId === id ? null : prev.activeId,
+        patients: prev.patients.filter((p) => p.id !== id),
+      })),
+    [setCensus]
+  );
+
+  const setField = useCallback(
+    (fieldId: string, value: string) =>
+      setCensus((prev) =>
+        updateActive(prev, "Patient", (p) => {
+          const fields = { ...p.fields };
+          if (value.trim()) {
+            fields[fieldId] = { value: value.trim(), updatedAt: Date.now() };
+          } else {
+            delete fields[fieldId];
+          }
+          return { ...p, fields };
+        })
+      ),
+    [setCensus]
+  );
+
+  const setLabs = useCallback(
+    (values: Record<string, string>, collectedAt: Record<string, string> = {}, label = "Patient") =>
+      setCensus((prev) =>
+        updateActive(prev, label, (p) => {
+          const fields = { ...p.fields };
+          const now = Date.now();
+          for (const [fieldId, value] of Object.entries(values)) {
+            if (!value.trim()) continue;
+            fields[fieldId] = {
+              value: value.trim(),
+              updatedAt: now,
+              ...(collectedAt[fieldId] && { collectedAt: collectedAt[fieldId] }),
+            };
+          }
+          return { ...p, fields };
+        })
+      ),
+    [setCensus]
+  );
+
+  const recordCalculation = useCallback(
+    (calculation: PatientCalculation) =>
+      setCensus((prev) => ({
+        ...prev,
+        patients: prev.patients.map((p) =>
+          p.id === prev.activeId ? { ...p, history: [calculation, ...p.history].slice(0, MAX_HISTORY) } : p
+        ),
+      })),
+    [setCensus]
+  );
+
+  const addRecheck = useCallback(
+    (patientId: string, text: string, dueAt?: string) =>
+      updatePatient(patientId, (p) => ({
+        ...p,
+        rechecks: [
+          ...p.rechecks,
+          { id: crypto.randomUUID(), text: text.trim(), ...(dueAt && { dueAt }), done: false, createdAt: Date.now() },
+        ],
+      })),
+    [updatePatient]
+  );
+
+  const toggleRecheck = useCallback(
+    (patientId: string, recheckId: string) =>
+      updatePatient(patientId, (p) => ({
+        ...p,
+        rechecks: p.rechecks.map((r) => (r.id === recheckId ? { ...r, done: !r.done } : r)),
+      })),
+    [updatePatient]
+  );
+
+  const removeRecheck = useCallback(
+    (patientId: string, recheckId: string) =>
+      updatePatient(patientId, (p) => ({ ...p, rechecks: p.rechecks.filter((r) => r.id !== recheckId) })),
+    [updatePatient]
+  );
+
+  return (
+    <PatientContext.Provider
+      value={{
+        census: census.patients,
+        ready: loaded,
+        patient,
+        selectPatient,
+        addPatient,
+        removePatient,
+        setField,
+        setLabs,
+        recordCalculation,
+        addRecheck,
+        toggleRecheck,
+        removeRecheck,
+      }}
+    >
+      {children}
+    </PatientContext.Provider>
+  );
+}
+
+export function useCurrentPatient() {
+  const context = useContext(PatientContext);
+  if (!context) {
+    throw new Error("useCurrentPatient must be used within PatientProvider");
+  }
+  return context;
+}
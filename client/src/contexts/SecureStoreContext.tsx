@@ -0,0 +1,166 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import {
+  initializeStore,
+  isStoreInitialized,
+  migrateLegacyStorage,
+  readRecord,
+  unlockStore,
+  wipeStore,
+  writeRecord,
+} from "@/lib/secureStore";
+
+export type SecureStoreStatus = "loading" | "unavailable" | "setup" | "locked" | "unlocked";
+
+interface SecureStoreContextType {
+  status: SecureStoreStatus;
+  /** Derived key while unlocked; null when locked */
+  key: CryptoKey | null;
+  /** Create the store under a new PIN and unlock it */
+  setup: (pin: string) => Promise<void>;
+  /** Throws WrongPinError on a bad PIN */
+  unlock: (pin: string) => Promise<void>;
+  lock: () => void;
+  /** Delete all patient data and the PIN ("wipe on shift end") */
+  wipe: () => Promise<void>;
+  autoLockMinutes: number;
+  setAutoLockMinutes: (minutes: number) => void;
+}
+
+const AUTO_LOCK_KEY = "secure-store-auto-lock-minutes";
+const DEFAULT_AUTO_LOCK_MINUTES = 5;
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+const SecureStoreContext = createContext<SecureStoreContextType | undefined>(undefined);
+
+export function SecureStoreProvider({ children }: { children: React.ReactNode }) {
+  const [status, setStatus] = useState<SecureStoreStatus>("loading");
+  const [key, setKey] = useState<CryptoKey | null>(null);
+  const [autoLockMinutes, setAutoLockMinutesState] = useState<number>(() => {
+    const saved = Number(localStorage.getItem(AUTO_LOCK_KEY));
+    return saved > 0 ? saved : DEFAULT_AUTO_LOCK_MINUTES;
+  });
+
+  useEffect(() => {
+    if (typeof indexedDB === "undefined" || !crypto?.subtle) {
+      setStatus("unavailable");
+      return;
+    }
+    isStoreInitialized()
+      .then((initialized) => setStatus(initialized ? "locked" : "setup"))
+      .catch(() => setStatus("unavailable"));
+  }, []);
+
+  const open = useCallback(async (derived: CryptoKey) => {
+    await migrateLegacyStorage(derived);
+    setKey(derived);
+    setStatus("unlocked");
+  }, []);
+
+  const setup = useCallback(async (pin: string) => open(await initializeStore(pin)), [open]);
+  const unlock = useCallback(async (pin: string) => open(await unlockStore(pin)), [open]);
+
+  const lock = useCallback(() => {
+    setKey(null);
+    setStatus((prev) => (prev === "unlocked" ? "locked" : prev));
+  }, []);
+
+  const wipe = useCallback(async () => {
+    setKey(null);
+    await wipeStore();
+    setStatus("setup");
+  }, []);
+
+  const setAutoLockMinutes = useCallback((minutes: number) => {
+    setAutoLockMinutesState(minutes);
+    localStorage.setItem(AUTO_LOCK_KEY, String(minutes));
+  }, []);
+
+  // Lock after a period without user activity
+  useEffect(() => {
+    if (status !== "unlocked") return;
+    let timer = window.setTimeout(lock, autoLockMinutes * 60_000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lock, autoLockMinutes * 60_000);
+    };
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+    };
+  }, [status, autoLockMinutes, lock]);
+
+  return (
+    <SecureStoreContext.Provider
+      value={{ status, key, setup, unlock, lock, wipe, autoLockMinutes, setAutoLockMinutes }}
+    >
+      {children}
+    </SecureStoreContext.Provider>
+  );
+}
+
+export function useSecureStore() {
+  const context = useContext(SecureStoreContext);
+  if (!context) {
+    throw new Error("useSecureStore must be used within SecureStoreProvider");
+  }
+  return context;
+}
+
+/**
+ * useState backed by an encrypted record. Holds `initial` while locked,
+ * loads the record on unlock and saves every change. `loaded` is false until
+ * the record has been read, so callers can avoid acting on the placeholder.
+ * A record that can't be decrypted stays unloaded, so it is never overwritten,
+ * and failed saves are reported rather than passed off as saved.
+ */
+export function useSecureState<T>(
+  name: string,
+  initial: T
+): [T, React.Dispatch<React.SetStateAction<T>>, boolean] {
+  const { key } = useSecureStore();
+  const [value, setValue] = useState<T>(initial);
+  // Name of the record `value` was read from; guards against saving one
+  // record's value under another name in the render where `name` changes
+  const [loadedName, setLoadedName] = useState<string | null>(null);
+  const loaded = key !== null && loadedName === name;
+  const initialRef = useRef(initial);
+  // Writes are chained so a slow encryption can't land after a newer one
+  const writeChain = useRef<Promise<void>>(Promise.resolve());
+
+  useEffect(() => {
+    setLoadedName(null);
+    setValue(initialRef.current);
+    if (!key) return;
+    let cancelled = false;
+    readRecord<T>(key, name)
+      .then((stored) => {
+        if (cancelled) return;
+        if (stored !== undefined) setValue(stored);
+        setLoadedName(name);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        toast.error("Some saved patient data could not be read, so changes to it won't be saved.", {
+          id: `secure-read-error-${name}`,
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [key, name]);
+
+  useEffect(() => {
+    if (!key || !loaded) return;
+    writeChain.current = writeChain.current
+      .then(() => writeRecord(key, name, value))
+      // One toast per record however many saves fail, e.g. when storage is full
+      .catch(() => {
+        toast.error("Patient data could not be saved on this device.", { id: `secure-write-error-${name}` });
+      });
+  }, [key, name, loaded, value]);
+
+  // Never show a previous record's value while the next one is loading
+  return [loaded ? value : initialRef.current, setValue, loaded];
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { computeCalculator, getCalculatorById } from "@shared/engine/calculatorData";
+import { auditLogToCsv, createAuditEntry, type AuditDetails } from "./auditLog";
+import { decrypt } from "./secureStore";
+
+const calculator = getCalculatorById("ckd-epi-creatinine")!;
+// Creatinine entered in µmol/L under mg/dL, so the result carries a plausibility warning
+const values = { creatinine: "120", age: "55", sex: "M", race: "Other" };
+const result = computeCalculator(calculator, values, {}, "conventional");
+const unitLabel = () => "mg/dL";
+
+const newKey = () => crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, ["encrypt", "decrypt"]);
+
+describe("audit log", () => {
+  it("encrypts inputs, outputs, warnings and the patient label", async () => {
+    const key = await newKey();
+    const entry = await createAuditEntry(calculator, values, result, unitLabel, key, "Bed 4");
+    const { details: encrypted, ...plain } = entry;
+    expect(JSON.stringify(plain)).not.toMatch(/Serum Creatinine|Bed 4|implausible/);
+    expect(encrypted!.data).toBeInstanceOf(ArrayBuffer);
+
+    const details: AuditDetails = JSON.parse(await decrypt(key, encrypted!));
+    expect(details.patientLabel).toBe("Bed 4");
+    expect(details.inputs).toContainEqual({ id: "creatinine", label: "Serum Creatinine", value: "120", unit: "mg/dL" });
+    expect(details.warnings).toContainEqual(expect.stringMatching(/^Serum Creatinine 120 mg\/dL is implausible/));
+  });
+
+  it("keeps only the calculator and formula version while patient data is locked", async () => {
+    const entry = await createAuditEntry(calculator, values, result, unitLabel, null);
+    expect(entry).toEqual({
+      loggedAt: result.provenance.computedAt,
+      calculatorId: "ckd-epi-creatinine",
+      calculatorName: calculator.name,
+      formulaVersion: result.provenance.formulaVersion,
+      formulaSource: result.provenance.formulaSource,
+      severity: result.severity,
+    });
+  });
+
+  it("exports locked entries with empty detail columns", async () => {
+    const { details: _, ...entry } = await createAuditEntry(calculator, values, result, unitLabel, await newKey());
+    const [, row] = auditLogToCsv([{ ...entry, details: null }]).split("\r\n");
+    expect(row.startsWith(`${entry.loggedAt},ckd-epi-creatinine,`)).toBe(true);
+    expect(row).not.toMatch(/Serum Creatinine|implausible/);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Calculation Audit Log
+ * Append-only on-device log of every calculation for quality-improvement
+ * review: calculator and formula version, inputs with units, outputs,
+ * interpretation and the warnings shown. Entries are only ever added.
+ *
+ * Inputs, outputs, interpretation, warnings and the optional patient label
+ * are patient data, so they are encrypted together with the secure store key
+ * and only readable while patient data is unlocked. Calculations made while
+ * it is locked are logged with their calculator, formula version and
+ * severity only.
+ *
+ * CSV row example:
+ *   2025-03-02T06:14:00.000Z,ckd-epi-creatinine,CKD-EPI Creatinine (2021),1,,Serum Creatinine=1.8 mg/dL; Age=62 years,eGFR=40.1 mL/min/1.73m²,warning,...
+ */
+
+import type { Calculator, CalculatorInput, CalculatorResult, ResultValue } from "@shared/engine/calculatorData";
+import { decrypt, encrypt, type EncryptedRecord } from "./secureStore";
+
+const DB_NAME = "nephrology-audit-log";
+const DB_VERSION = 1;
+const ENTRY_STORE = "entries";
+
+export interface AuditInput {
+  id: string;
+  label: string;
+  value: string;
+  unit: string;
+}
+
+/** The parts of an entry that hold patient values */
+export interface AuditDetails {
+  inputs: AuditInput[];
+  outputs: ResultValue[];
+  interpretation: string;
+  warnings: string[];
+  patientLabel?: string;
+}
+
+export interface AuditEntry {
+  /** Assigned by the store, increasing */
+  seq?: number;
+  loggedAt: string;
+  calculatorId: string;
+  calculatorName: string;
+  formulaVersion: string;
+  /** Absent on entries logged before formula sources were recorded */
+  formulaSource?: string;
+  severity: string;
+  /** Encrypted AuditDetails; absent when logged while patient data was locked */
+  details?: EncryptedRecord;
+}
+
+/** An entry as read back, with its details decrypted when possible */
+export type AuditRecord = Omit<AuditEntry, "details"> & {
+  /** undefined when none were recorded, null when they can't be decrypted (locked or wiped) */
+  details?: AuditDetails | null;
+};
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(ENTRY_STORE, { keyPath: "seq", autoIncrement: true });
+      store.createIndex("loggedAt", "loggedAt");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function createAuditEntry(
+  calculator: Calculator,
+  values: Record<string, string | number | boolean>,
+  result: CalculatorResult,
+  getUnitLabel: (input: CalculatorInput) => string,
+  key: CryptoKey | null,
+  patientLabel?: string
+): Promise<AuditEntry> {
+  const entry: AuditEntry = {
+    loggedAt: result.provenance.computedAt,
+    calculatorId: calculator.id,
+    calculatorName: calculator.name,
+    formulaVersion: result.provenance.formulaVersion,
+    formulaSource: result.provenance.formulaSource,
+    severity: result.severity,
+  };
+  if (!key) return entry;
+
+  const details: AuditDetails = {
+    inputs: calculator.inputs
+      .filter((input) => values[input.id] !== undefined && values[input.id] !== "")
+      .map((input) => ({ id: input.id, label: input.label, value: String(values[input.id]), unit: getUnitLabel(input) })),
+    outputs: [...(result.primary ? [result.primary] : []), ...result.secondary],
+    interpretation: result.interpretation,
+    // Includes the plausibility warnings shown beside the inputs
+    warnings: result.warnings,
+    ...(patientLabel !== undefined && { patientLabel }),
+  };
+  return { ...entry, details: await encrypt(key, JSON.stringify(details)) };
+}
+
+export async function appendAuditEntry(entry: AuditEntry): Promise<void> {
+  const db = await openDb();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(ENTRY_STORE, "readwrite");
+      tx.objectStore(ENTRY_STORE).add(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Entries logged between `from` and `to` (ISO times, inclusive), oldest
+ * first. Details are decrypted with `key` when given.
+ */
+export async function readAuditLog(from: string | null, to: string | null, key: CryptoKey | null): Promise<AuditRecord[]> {
+  const db = await openDb();
+  let entries: AuditEntry[];
+  try {
+    const range =
+      from && to ? IDBKeyRange.bound(from, to) : from ? IDBKeyRange.lowerBound(from) : to ? IDBKeyRange.upperBound(to) : undefined;
+    entries = await new Promise((resolve, reject) => {
+      const req = db.transaction(ENTRY_STORE, "readonly").objectStore(ENTRY_STORE).index("loggedAt").getAll(range);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } finally {
+    db.close();
+  }
+
+  return Promise.all(
+    entries.map(async ({ details, ...entry }) => {
+      if (!details) return entry;
+      if (!key) return { ...entry, details: null };
+      try {
+        return { ...entry, details: JSON.parse(await decrypt(key, details)) as AuditDetails };
+      } catch {
+        // Encrypted under a PIN that has since been wiped
+        return { ...entry, details: null };
+      }
+    })
+  );
+}
+
+function formatOutput(value: ResultValue): string {
+  return `${value.label}=${value.value}${value.unit ? ` ${value.unit}` : ""}`;
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+const CSV_COLUMNS = [
+  "logged_at",
+  "calculator_id",
+  "calculator_name",
+  "formula_version",
+  "formula_source",
+  "patient_label",
+  "inputs",
+  "outputs",
+  "severity",
+  "interpretation",
+  "warnings",
+] as const;
+
+export function auditLogToCsv(records: AuditRecord[]): string {
+  const rows = records.map((r) =>
+    [
+      r.loggedAt,
+      r.calculatorId,
+      r.calculatorName,
+      r.formulaVersion,
+      r.formulaSource ?? "",
+      r.details?.patientLabel ?? "",
+      r.details?.inputs.map((i) => `${i.label}=${i.value}${i.unit ? ` ${i.unit}` : ""}`).join("; ") ?? "",
+      r.details?.outputs.map(formatOutput).join("; ") ?? "",
+      r.severity,
+      r.details?.interpretation ?? "",
+      r.details?.warnings.join("; ") ?? "",
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+export function auditLogToJson(records: AuditRecord[]): string {
+  return JSON.stringify(records, null, 2);
+}
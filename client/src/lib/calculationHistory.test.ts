@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { computeCalculator, getCalculatorById } from "@shared/engine/calculatorData";
+import { priorFormulaVersion, type CalculationHistoryEntry } from "./calculationHistory";
+
+function savedEntry(id: string, formulaVersion?: string): CalculationHistoryEntry {
+  const output = computeCalculator(getCalculatorById(id)!, { spKtv: "1.4", sessionTime: "4", creatinine: "1", age: "50", sex: "M", race: "Other" }, {}, "conventional");
+  const provenance = { ...output.provenance, formulaVersion };
+  return { id, name: id, result: output.summary, timestamp: 0, values: {}, units: {}, output: { ...output, provenance } as CalculationHistoryEntry["output"] };
+}
+
+describe("calculation history formula versions", () => {
+  it("flags results saved under a superseded version", () => {
+    expect(priorFormulaVersion(savedEntry("standard-ktv", "1"))).toBe("1");
+    expect(priorFormulaVersion(savedEntry("standard-ktv", "2"))).toBeNull();
+  });
+
+  it("treats results saved before versions were recorded as version 1", () => {
+    expect(priorFormulaVersion(savedEntry("standard-ktv"))).toBe("1");
+    expect(priorFormulaVersion({ id: "standard-ktv", name: "Standard Kt/V", result: "1.40", timestamp: 0 })).toBe("1");
+    // Still the current version for calculators that were never bumped
+    expect(priorFormulaVersion(savedEntry("ckd-epi-creatinine"))).toBeNull();
+  });
+
+  it("ignores calculators that no longer exist", () => {
+    expect(priorFormulaVersion({ id: "retired-calculator", name: "Retired", result: "", timestamp: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Calculation History
+ * Each entry snapshots the inputs, units and structured result of a
+ * calculation so it can be reopened exactly, searched, and recalculated
+ * against the current formulas to show what (if anything) changed. Results
+ * computed under a formula version that has since been superseded are
+ * flagged.
+ *
+ * Entries hold patient values, so the list is an encrypted secure store
+ * record: it is only read and added to while patient data is unlocked, and
+ * is deleted with everything else on a wipe.
+ *
+ * Entries saved before snapshots were kept only have id/name/result/timestamp;
+ * those reopen the calculator empty.
+ */
+
+import {
+  hasUnitToggle,
+  selectedUnit,
+  unitKey,
+  unitSelection,
+  type CalculatorUnits,
+  type CalculatorValues,
+  type UnitPreference,
+} from "@shared/engine/calculatorInputs";
+import {
+  computeCalculator,
+  currentFormulaVersion,
+  getCalculatorById,
+  type Calculator,
+  type CalculatorResult,
+  type ResultValue,
+} from "@shared/engine/calculatorData";
+
+/** Secure store record name; also the plain localStorage key older versions used */
+export const HISTORY_STORAGE_KEY = "nephrology-recent-calculations";
+export const MAX_CALCULATION_HISTORY = 50;
+
+export interface CalculationHistoryEntry {
+  /** Calculator id */
+  id: string;
+  name: string;
+  /** One-line summary */
+  result: string;
+  timestamp: number;
+  values?: CalculatorValues;
+  /** Explicit unit choice for every unit-switchable input of the calculator */
+  units?: CalculatorUnits;
+  unitPreference?: UnitPreference;
+  output?: CalculatorResult;
+}
+
+export interface HistoryFilter {
+  query: string;
+  calculatorId: string | null;
+  /** yyyy-mm-dd, inclusive, local time */
+  from: string;
+  to: string;
+}
+
+export interface ResultChange {
+  label: string;
+  before: string;
+  after: string;
+}
+
+export function hasSnapshot(entry: CalculationHistoryEntry): entry is CalculationHistoryEntry & Required<Pick<CalculationHistoryEntry, "values" | "units" | "output">> {
+  return entry.values !== undefined && entry.units !== undefined && entry.output !== undefined;
+}
+
+/** Formula version a saved result was computed with, when it is no longer the calculator's current one */
+export function priorFormulaVersion(entry: CalculationHistoryEntry): string | null {
+  const calculator = getCalculatorById(entry.id);
+  if (!calculator) return null;
+  // Entries saved before results were stamped with a version were computed with version 1
+  const saved = entry.output?.provenance?.formulaVersion ?? "1";
+  return saved === currentFormulaVersion(calculator) ? null : saved;
+}
+
+/** Units in effect for a calculator's inputs, resolving the global preference so the snapshot stands alone */
+export function snapshotUnits(calculator: Calculator, units: CalculatorUnits, unitPreference: UnitPreference): CalculatorUnits {
+  const snapshot: CalculatorUnits = {};
+  for (const input of calculator.inputs.filter(hasUnitToggle)) {
+    snapshot[unitKey(input)] = unitSelection(input, selectedUnit(input, units, unitPreference));
+  }
+  return snapshot;
+}
+
+export function createHistoryEntry(
+  calculator: Calculator,
+  values: CalculatorValues,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference,
+  output: CalculatorResult
+): CalculationHistoryEntry {
+  return {
+    id: calculator.id,
+    name: calculator.name,
+    result: output.summary,
+    timestamp: Date.now(),
+    values: { ...values },
+    units: snapshotUnits(calculator, units, unitPreference),
+    unitPreference,
+    output,
+  };
+}
+
+function startOfDay(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+export function filterHistory(entries: CalculationHistoryEntry[], filter: HistoryFilter): CalculationHistoryEntry[] {
+  const query = filter.query.trim().toLowerCase();
+  const from = filter.from ? startOfDay(filter.from) : -Infinity;
+  // `to` is inclusive: everything before the start of the next day
+  const to = filter.to ? startOfDay(filter.to) + 24 * 60 * 60 * 1000 : Infinity;
+  return entries.filter((entry) => {
+    if (filter.calculatorId && entry.id !== filter.calculatorId) return false;
+    if (entry.timestamp < from || entry.timestamp >= to) return false;
+    if (!query) return true;
+    const text = [entry.name, entry.result, entry.output?.primary?.label ?? "", entry.output?.interpretation ?? ""].join(" ").toLowerCase();
+    return text.includes(query);
+  });
+}
+
+function formatResultValue(value: ResultValue | undefined): string {
+  if (!value) return "—";
+  const rounded = Number.isFinite(value.value) ? String(Number(value.value.toPrecision(4))) : String(value.value);
+  return value.unit ? `${rounded} ${value.unit}` : rounded;
+}
+
+function sameNumber(a: number, b: number): boolean {
+  return a === b || Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+}
+
+/** What differs between a saved result and the same inputs computed now */
+export function diffResults(saved: CalculatorResult, current: CalculatorResult): ResultChange[] {
+  const changes: ResultChange[] = [];
+
+  const primaryChanged =
+    (saved.primary === null) !== (current.primary === null) ||
+    (saved.primary && current.primary && (!sameNumber(saved.primary.value, current.primary.value) || saved.primary.unit !== current.primary.unit));
+  if (primaryChanged) {
+    changes.push({
+      label: current.primary?.label ?? saved.primary?.label ?? "Result",
+      before: formatResultValue(saved.primary ?? undefined),
+      after: formatResultValue(current.primary ?? undefined),
+    });
+  }
+
+  const labels = Array.from(new Set([...saved.secondary.map((v) => v.label), ...current.secondary.map((v) => v.label)]));
+  for (const label of labels) {
+    const before = saved.secondary.find((v) => v.label === label);
+    const after = current.secondary.find((v) => v.label === label);
+    if (before && after && sameNumber(before.value, after.value) && before.unit === after.unit) continue;
+    changes.push({ label, before: formatResultValue(before), after: formatResultValue(after) });
+  }
+
+  if (saved.severity !== current.severity) {
+    changes.push({ label: "Severity", before: saved.severity, after: current.severity });
+  }
+  if (saved.interpretation !== current.interpretation) {
+    changes.push({ label: "Interpretation", before: saved.interpretation || "—", after: current.interpretation || "—" });
+  }
+  // Custom displays (KDPI, Banff, Mehran...) carry their detail in `data`
+  const savedData = "data" in saved ? JSON.stringify(saved.data) : "";
+  const currentData = "data" in current ? JSON.stringify(current.data) : "";
+  if (saved.kind !== current.kind || savedData !== currentData) {
+    changes.push({ label: "Detailed result", before: "as saved", after: "changed" });
+  }
+  return changes;
+}
+
+/**
+ * Recompute a snapshot with the current formulas. Returns null when the
+ * entry has no snapshot, the calculator no longer exists, or the inputs no
+ * longer compute.
+ */
+export function recalculate(entry: CalculationHistoryEntry): { result: CalculatorResult; changes: ResultChange[] } | null {
+  if (!hasSnapshot(entry)) return null;
+  const calculator = getCalculatorById(entry.id);
+  if (!calculator) return null;
+  try {
+    const result = computeCalculator(calculator, entry.values, entry.units, entry.unitPreference ?? "conventional");
+    return { result, changes: diffResults(entry.output, result) };
+  } catch {
+    return null;
+  }
+}
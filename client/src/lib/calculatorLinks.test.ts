@@ -0,0 +1,86 @@
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import vm from "node:vm";
+import { createElement } from "react";
+import { renderToString } from "react-dom/server";
+import { Router, useRoute, useSearch } from "wouter";
+import { describe, expect, it } from "vitest";
+import { getCalculatorById } from "@shared/engine/calculatorData";
+import { CALCULATOR_ROUTE, calculatorPath, parseCalculatorQuery } from "./calculatorLinks";
+
+const ORIGIN = "https://calc.example.org";
+const CLIENT_DIR = path.resolve(import.meta.dirname, "..", "..");
+
+function inlineScript(html: string, marker: string): string {
+  const match = html.slice(html.indexOf(marker)).match(/<script type="text\/javascript">([\s\S]*?)<\/script>/);
+  if (!match) throw new Error(`No script after ${marker}`);
+  return match[1];
+}
+
+// 404.html bounces /calc/:id to /?/calc/:id on GitHub Pages; index.html restores the path before the app loads
+const REDIRECT_SCRIPT = inlineScript(readFileSync(path.join(CLIENT_DIR, "public", "404.html"), "utf8"), "<head>");
+const RESTORE_SCRIPT = inlineScript(readFileSync(path.join(CLIENT_DIR, "index.html"), "utf8"), "Restore deep links");
+
+/** Run a page's inline script at `url` and return the address it leaves the browser on */
+function runPageScript(script: string, url: string): string {
+  let current = new URL(url);
+  const location = {
+    get protocol() { return current.protocol; },
+    get hostname() { return current.hostname; },
+    get port() { return current.port; },
+    get pathname() { return current.pathname; },
+    get search() { return current.search; },
+    get hash() { return current.hash; },
+    replace: (next: string) => (current = new URL(next)),
+  };
+  const history = { replaceState: (_state: unknown, _title: unknown, next: string) => (current = new URL(next, current)) };
+  vm.runInNewContext(script, { window: { location, history } });
+  return current.href;
+}
+
+/** Address the app starts on when `url` is opened directly */
+function openDeepLink(url: string): string {
+  const bounced = runPageScript(REDIRECT_SCRIPT, url);
+  expect(new URL(bounced).pathname).toBe("/");
+  return runPageScript(RESTORE_SCRIPT, bounced);
+}
+
+/** Calculator id and query the Dashboard's route hooks see at `url` */
+function routeAt(url: string): { id: string | null; search: string } {
+  const { pathname, search } = new URL(url);
+  let seen = { id: null as string | null, search: "" };
+  const Probe = () => {
+    const [, params] = useRoute(CALCULATOR_ROUTE);
+    seen = { id: params?.id ?? null, search: useSearch() };
+    return null;
+  };
+  renderToString(createElement(Router, { ssrPath: pathname, ssrSearch: search.slice(1), children: createElement(Probe) }));
+  return seen;
+}
+
+describe("calculator deep links", () => {
+  it("restore the calculator and its inputs after the GitHub Pages 404 redirect", () => {
+    const link = ORIGIN + calculatorPath("ckd-epi-creatinine", { creatinine: "120", age: "55", sex: "F" }, { unit: "si", compute: true });
+    const restored = openDeepLink(link);
+    expect(restored).toBe(link);
+
+    const { id, search } = routeAt(restored);
+    expect(id).toBe("ckd-epi-creatinine");
+    expect(parseCalculatorQuery(getCalculatorById(id!)!, search)).toEqual({
+      values: { creatinine: "120", age: "55", sex: "F" },
+      units: { creatinine: "si" },
+      compute: true,
+    });
+  });
+
+  it("keep a share fragment through the redirect", () => {
+    const link = `${ORIGIN}/calc/kfre#s=q1YqzsgvyA`;
+    expect(openDeepLink(link)).toBe(link);
+    expect(routeAt(link).id).toBe("kfre");
+  });
+
+  it("leave the home page alone", () => {
+    expect(routeAt(`${ORIGIN}/`).id).toBeNull();
+    expect(runPageScript(RESTORE_SCRIPT, `${ORIGIN}/?q=1`)).toBe(`${ORIGIN}/?q=1`);
+  });
+});
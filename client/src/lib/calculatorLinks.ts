@@ -0,0 +1,84 @@
+/**
+ * Calculator Links
+ * Deep links that open a calculator with inputs prefilled, for order sets
+ * and teaching slides. Query parameters are input ids, plus:
+ *   unit=si|conventional  units of every unit-switchable input in the link
+ *   compute=1             calculate as soon as the calculator opens
+ *
+ * Example:
+ *   /calc/ckd-epi-creatinine?creatinine=1.4&age=62&sex=F&compute=1
+ */
+
+import { getUnitType, unitKey, unitSelection, type CalculatorUnits, type CalculatorValues, type UnitPreference } from "@shared/engine/calculatorInputs";
+import type { Calculator, CalculatorInput } from "@shared/engine/calculatorData";
+
+export const CALCULATOR_ROUTE = "/calc/:id";
+
+export interface CalculatorLinkParams {
+  values: CalculatorValues;
+  /** Unit selections for the calculator's switchable inputs when the link sets `unit` */
+  units: CalculatorUnits;
+  compute: boolean;
+}
+
+const TRUE_VALUES = ["1", "true", "yes", "on"];
+const FALSE_VALUES = ["0", "false", "no", "off"];
+
+/** A linked value in the form the input stores, or null if it isn't valid for that input */
+export function parseInputValue(input: CalculatorInput, raw: string): string | null {
+  const value = raw.trim();
+  switch (input.type) {
+    case "number":
+    case "score":
+      return /^-?(\d+\.?\d*|\.\d+)$/.test(value) ? value : null;
+    case "checkbox":
+      if (TRUE_VALUES.includes(value.toLowerCase())) return "on";
+      if (FALSE_VALUES.includes(value.toLowerCase())) return "";
+      return null;
+    default: {
+      // Select-style inputs accept an option value or label, case-insensitively
+      const match = input.options?.find(
+        (option) => option.value.toLowerCase() === value.toLowerCase() || option.label.toLowerCase() === value.toLowerCase()
+      );
+      return match ? match.value : null;
+    }
+  }
+}
+
+/** Values and units a link's query string sets for this calculator; unknown or invalid parameters are ignored */
+export function parseCalculatorQuery(calculator: Calculator, search: string): CalculatorLinkParams {
+  const params = new URLSearchParams(search);
+  const values: CalculatorValues = {};
+  for (const input of calculator.inputs) {
+    const raw = params.get(input.id);
+    if (raw === null) continue;
+    const value = parseInputValue(input, raw);
+    if (value !== null) values[input.id] = value;
+  }
+
+  const units: CalculatorUnits = {};
+  const unit = params.get("unit");
+  if (unit === "si" || unit === "conventional") {
+    for (const input of calculator.inputs) {
+      const preference = getUnitType(input)?.preference;
+      if (preference) units[unitKey(input)] = unitSelection(input, preference[unit]);
+    }
+  }
+
+  return { values, units, compute: TRUE_VALUES.includes((params.get("compute") ?? "").toLowerCase()) };
+}
+
+export function calculatorPath(
+  calculatorId: string,
+  values: CalculatorValues = {},
+  options: { unit?: UnitPreference; compute?: boolean } = {}
+): string {
+  const params = new URLSearchParams();
+  for (const [inputId, value] of Object.entries(values)) {
+    if (value !== "" && value !== false) params.set(inputId, String(value));
+  }
+  if (options.unit) params.set("unit", options.unit);
+  if (options.compute) params.set("compute", "1");
+  const query = params.toString();
+  return `/calc/${encodeURIComponent(calculatorId)}${query ? `?${query}` : ""}`;
+}
@@ -5,12 +5,13 @@
  * Example output:
  *   eGFR (CKD-EPI 2021): 34.00 mL/min/1.73m² — CKD Stage 3b
  *   (Cr 1.8 mg/dL, Age 62, Male)
+ *   [Formula v1: CKD-EPI 2021 race-free creatinine equation (Inker 2021)]
  */
 
-import type { Calculator, CalculatorInput } from "./calculatorData";
+import type { Calculator, CalculatorInput, CalculatorResult, ResultValue } from "@shared/engine/calculatorData";
 
-/** Short clinical abbreviations for common input labels */
-const SHORT_LABELS: Record<string, string> = {
+/** Short clinical abbreviations for common input labels (keys are lowercase) */
+export const SHORT_LABELS: Record<string, string> = {
   // Creatinine family
   creatinine: "Cr",
   "serum creatinine": "Cr",
@@ -108,11 +109,10 @@ const SHORT_LABELS: Record<string, string> = {
 
 interface ClinicalNoteParams {
   calculator: Calculator;
-  result: number | { [key: string]: number } | null;
-  resultInterpretation: string;
+  result: CalculatorResult;
   calculatorState: Record<string, string>;
   unitState: Record<string, string>;
-  getUnitLabel: (input: { id: string; unit?: string }) => string;
+  getUnitLabel: (input: CalculatorInput) => string;
 }
 
 /**
@@ -171,13 +171,16 @@ function getDisplayValue(
   }
 }
 
+function formatResultValue({ value, unit }: ResultValue): string {
+  return unit ? `${value.toFixed(2)} ${unit}` : value.toFixed(2);
+}
+
 /**
  * Generate an EMR-ready clinical note from a calculator result.
  */
 export function generateClinicalNote({
   calculator,
   result,
-  resultInterpretation,
   calculatorState,
   unitState: _unitState,
   getUnitLabel,
@@ -185,23 +188,20 @@ export function generateClinicalNote({
   const lines: string[] = [];
 
   // --- Line 1: Result headline ---
-  let resultStr: string;
-
-  if (calculator.id === "corrected-calcium" && result && typeof result === "object") {
-    const obj = result as { mgDl: number; mmolL: number };
-    resultStr = `${obj.mgDl.toFixed(2)} mg/dL (${obj.mmolL.toFixed(2)} mmol/L)`;
-  } else if (typeof result === "number") {
-    resultStr = result.toFixed(2);
-    if (calculator.resultUnit) {
-      resultStr += ` ${calculator.resultUnit}`;
-    }
-  } else {
-    resultStr = "N/A";
+  let resultStr = result.primary ? formatResultValue(result.primary) : "N/A";
+
+  // Secondary values: same quantity in another unit is shown bare, others labelled
+  if (result.primary && result.secondary.length > 0) {
+    const primaryLabel = result.primary.label;
+    const extras = result.secondary.map((s) =>
+      s.label.startsWith(primaryLabel) ? formatResultValue(s) : `${s.label} ${formatResultValue(s)}`
+    );
+    resultStr += ` (${extras.join(", ")})`;
   }
 
   // First sentence of interpretation only
-  const firstSentence = resultInterpretation
-    ? resultInterpretation.split(/[.!]\s/)[0].replace(/[.!]$/, "").trim()
+  const firstSentence = result.interpretation
+    ? result.interpretation.split(/[.!]\s/)[0].replace(/[.!]$/, "").trim()
     : "";
 
   const headline = firstSentence
@@ -230,5 +230,9 @@ export function generateClinicalNote({
     lines.push(`(${parts.join(", ")})`);
   }
 
+  // --- Line 3: Formula provenance (results saved before sources were recorded have none) ---
+  const { formulaVersion, formulaSource } = result.provenance;
+  lines.push(formulaSource ? `[Formula v${formulaVersion}: ${formulaSource}]` : `[Formula v${formulaVersion}]`);
+
   return lines.join("\n");
 }
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { importFhirObservations, LAB_LOINC_CODES, toConventionalValue, toScratchpadValue } from "./fhirObservationImport";
+
+const observation = (loinc: string, value: number | undefined, unit: string, date: string, status = "final") => ({
+  resourceType: "Observation",
+  status,
+  code: { coding: [{ system: "http://loinc.org", code: loinc, display: loinc }] },
+  effectiveDateTime: date,
+  ...(value !== undefined && { valueQuantity: { value, unit, system: "http://unitsofmeasure.org", code: unit } }),
+});
+
+const bundle = (...resources: unknown[]) => ({ resourceType: "Bundle", type: "searchset", entry: resources.map((resource) => ({ resource })) });
+
+describe("FHIR Observation import", () => {
+  it("keeps the latest value per lab in scratchpad order", () => {
+    const { labs, observationCount } = importFhirObservations(
+      bundle(
+        observation("2951-2", 138, "mmol/L", "2026-03-01T08:00:00Z"),
+        observation("2160-0", 1.1, "mg/dL", "2026-03-01T08:00:00Z"),
+        observation("2160-0", 1.4, "mg/dL", "2026-03-02T08:00:00Z")
+      ),
+      "conventional"
+    );
+    expect(observationCount).toBe(3);
+    expect(labs.map((lab) => [lab.labId, lab.value, lab.unit])).toEqual([
+      ["cr", "1.4", "mg/dL"],
+      ["na", "138", "mEq/L"],
+    ]);
+    expect(labs[0].collectedAt).toBe("2026-03-02T08:00:00Z");
+  });
+
+  it("converts observed units into the scratchpad's unit system", () => {
+    const json = JSON.stringify(bundle(observation("14682-9", 88.4, "umol/L", "2026-03-01T08:00:00Z")));
+    expect(importFhirObservations(json, "conventional").labs[0]).toMatchObject({ labId: "cr", value: "1", unit: "mg/dL" });
+    expect(importFhirObservations(json, "si").labs[0]).toMatchObject({ labId: "cr", value: "88.4", unit: "μmol/L" });
+  });
+
+  it("accepts a bare Observation and an array of Observations", () => {
+    const obs = observation("2823-3", 4.2, "mmol/L", "2026-03-01T08:00:00Z");
+    expect(importFhirObservations(obs, "conventional").labs).toHaveLength(1);
+    expect(importFhirObservations([obs], "conventional").labs).toHaveLength(1);
+  });
+
+  it("round-trips every registry lab through its SI unit", () => {
+    const defs = LAB_LOINC_CODES.filter((def) => def.unitType);
+    fc.assert(
+      fc.property(fc.constantFrom(...defs), fc.double({ min: 0.1, max: 500, noNaN: true }), (def, conventional) => {
+        const si = toScratchpadValue(def, conventional, "si");
+        const back = toConventionalValue(def, Number(si.value), si.unit);
+        // Read back in its own unit, the SI value shows the same digits
+        expect(back).not.toBeNull();
+        expect(toScratchpadValue(def, back!, "si")).toEqual(si);
+      })
+    );
+  });
+
+  it("skips observations it can't use, with the reason", () => {
+    const { labs, skipped } = importFhirObservations(
+      bundle(
+        observation("2160-0", 1.0, "mg/dL", "2026-03-01T08:00:00Z", "entered-in-error"),
+        observation("99999-9", 5, "mg/dL", "2026-03-01T08:00:00Z"),
+        observation("2823-3", undefined, "", "2026-03-01T08:00:00Z"),
+        observation("2823-3", 4, "furlongs", "2026-03-01T08:00:00Z")
+      ),
+      "conventional"
+    );
+    expect(labs).toEqual([]);
+    expect(skipped.map((s) => s.reason)).toEqual([
+      "Status entered-in-error",
+      "No matching scratchpad lab",
+      "No numeric value",
+      'Unrecognized unit "furlongs"',
+    ]);
+  });
+
+  it.each([
+    ["text that is not JSON", "Not valid JSON. Paste a FHIR Bundle or Observation resource."],
+    ['{"value": 1}', "Expected a FHIR resource with a resourceType."],
+    ["null", "Expected a FHIR resource with a resourceType."],
+    ['"a string"', "Expected a FHIR resource with a resourceType."],
+    ['{"resourceType": "Patient"}', "No Observation resources found."],
+    ['{"resourceType": "Bundle", "entry": "not a list"}', "No Observation resources found."],
+    ['{"resourceType": "Bundle", "entry": [null, 7, {"resource": null}]}', "No Observation resources found."],
+  ])("rejects %s", (input, message) => {
+    expect(() => importFhirObservations(input, "conventional")).toThrow(message);
+  });
+
+  it("skips malformed Observations instead of failing the import", () => {
+    const { labs, skipped } = importFhirObservations(
+      bundle(
+        { resourceType: "Observation" },
+        { resourceType: "Observation", code: { coding: "2160-0" }, valueQuantity: { value: 1 } },
+        { resourceType: "Observation", code: { coding: [{ code: "2160-0" }] }, valueQuantity: { value: "1.2", unit: "mg/dL" } },
+        { resourceType: "Observation", code: { coding: [{ code: "2160-0" }] }, valueQuantity: { value: 1.2, unit: 42 } },
+        observation("2160-0", 1.3, "mg/dL", "not a date")
+      ),
+      "conventional"
+    );
+    expect(skipped).toHaveLength(4);
+    expect(labs).toEqual([expect.objectContaining({ labId: "cr", value: "1.3" })]);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * FHIR Observation Import
+ * Maps FHIR R4 lab Observations (by LOINC code) onto Patient Scratchpad
+ * lab fields, converting units through the shared unit registry and keeping the
+ * most recent value per analyte.
+ */
+
+import {
+  bundleResources,
+  LOINC_SYSTEM,
+  observationTime,
+  type FhirResource,
+  type Observation,
+} from "@shared/fhir";
+import { conversionFactor, convertUnit, findUnit, unitSymbol, unitTypes, type UnitType, type UnitTypeId } from "@shared/engine/unitRegistry";
+
+/** How a lab's observed units are recognized and converted */
+export interface LabUnitDef {
+  /** Unit type in the unit registry; labs without one use `units` as-is */
+  unitType?: UnitTypeId;
+  units?: string[];
+}
+
+interface LabCodeDef extends LabUnitDef {
+  /** Scratchpad lab field id */
+  labId: string;
+  loinc: string[];
+}
+
+// LOINC codes for each scratchpad lab (serum/plasma/blood unless noted)
+export const LAB_LOINC_CODES: LabCodeDef[] = [
+  { labId: "cr", loinc: ["2160-0", "38483-4", "14682-9"], unitType: "creatinine" },
+  { labId: "na", loinc: ["2951-2", "2947-0"], unitType: "sodium" },
+  { labId: "k", loinc: ["2823-3", "6298-4"], unitType: "potassium" },
+  { labId: "bun", loinc: ["3094-0", "6299-2", "14937-7"], unitType: "bunUrea" },
+  { labId: "hco3", loinc: ["1963-8", "2028-9", "1959-6"], unitType: "bicarbonate" },
+  { labId: "cl", loinc: ["2075-0", "2069-3"], unitType: "chloride" },
+  { labId: "ca", loinc: ["17861-6", "2000-8"], unitType: "calcium" },
+  { labId: "phos", loinc: ["2777-1", "14879-1"], unitType: "phosphate" },
+  { labId: "mg", loinc: ["19123-9", "2601-3"], unitType: "magnesium" },
+  { labId: "alb", loinc: ["1751-7", "61151-7", "61152-5"], unitType: "albumin" },
+  { labId: "glucose", loinc: ["2345-7", "2339-0", "14749-6"], unitType: "glucose" },
+  { labId: "hgb", loinc: ["718-7"], unitType: "hemoglobin" },
+  { labId: "ph", loinc: ["2744-1", "11558-4", "2746-6"], units: ["", "[pH]", "pH"] },
+  { labId: "pco2", loinc: ["2019-8", "11557-6", "2021-4"], units: ["mmHg", "mm[Hg]"] },
+  // Urine
+  { labId: "una", loinc: ["2955-3"], unitType: "sodium" },
+  { labId: "ucr", loinc: ["2161-8", "14683-7"], unitType: "creatinine" },
+  { labId: "uosm", loinc: ["2695-8"], unitType: "osmolality" },
+  { labId: "sosm", loinc: ["2692-2"], unitType: "osmolality" },
+];
+
+export interface ImportedLab {
+  labId: string;
+  value: string;
+  unit: string;
+  /** ISO collection timestamp (effectiveDateTime, else issued) */
+  collectedAt: string;
+  /** Observation code: LOINC for FHIR, the OBX-3 identifier for HL7 v2 */
+  code: string;
+}
+
+export interface SkippedObservation {
+  code: string;
+  display: string;
+  reason: string;
+}
+
+export interface FhirImportResult {
+  /** Most recent value per lab, in the requested unit system */
+  labs: ImportedLab[];
+  skipped: SkippedObservation[];
+  observationCount: number;
+}
+
+// UCUM and free-text spellings compared case-insensitively, ignoring {annotations}
+const normalizeUnit = (unit: string) =>
+  unit.replace(/\{.*?\}/g, "").replace(/[µμ]/g, "u").replace(/\[(hg|ph)\]/gi, "$1").replace(/\s+/g, "").toLowerCase();
+
+/**
+ * Convert an observed quantity to the unit type's canonical (conventional)
+ * unit, or null when the unit is not one we recognize for this lab.
+ */
+export function toConventionalValue(def: LabUnitDef, value: number, unit: string): number | null {
+  if (!def.unitType) {
+    const observed = normalizeUnit(unit);
+    return def.units?.some((u) => normalizeUnit(u) === observed) ? value : null;
+  }
+  const type = unitTypes[def.unitType];
+  const observed = findUnit(unit);
+  const factor = observed ? conversionFactor(type.analyte, observed, type.canonical) : null;
+  return factor === null ? null : value * factor;
+}
+
+// Up to 2 decimals without trailing zeros, like a hand-typed lab value
+const formatLabValue = (value: number) => String(Math.round(value * 100) / 100);
+
+// Registry unit the scratchpad shows a lab in; labs without an SI preference
+// (electrolytes, osmolality) keep their conventional unit
+function scratchpadRegistryUnit(unitType: UnitTypeId, unitSystem: "conventional" | "si"): string {
+  const type: UnitType = unitTypes[unitType];
+  return type.preference?.[unitSystem] ?? type.canonical;
+}
+
+/** Unit the scratchpad shows a lab in for the given unit system */
+export function scratchpadUnit(def: LabUnitDef, unitSystem: "conventional" | "si"): string {
+  return def.unitType ? unitSymbol(scratchpadRegistryUnit(def.unitType, unitSystem)) : def.units?.[0] ?? "";
+}
+
+/** A conventional-unit value as the scratchpad displays it in the given unit system */
+export function toScratchpadValue(
+  def: LabUnitDef,
+  conventional: number,
+  unitSystem: "conventional" | "si"
+): { value: string; unit: string } {
+  if (!def.unitType) return { value: formatLabValue(conventional), unit: scratchpadUnit(def, unitSystem) };
+  const type = unitTypes[def.unitType];
+  return {
+    value: formatLabValue(convertUnit(type.analyte, conventional, type.canonical, scratchpadRegistryUnit(def.unitType, unitSystem))),
+    unit: scratchpadUnit(def, unitSystem),
+  };
+}
+
+function parseJson(input: string | unknown): unknown {
+  if (typeof input !== "string") return input;
+  try {
+    return JSON.parse(input);
+  } catch {
+    throw new Error("Not valid JSON. Paste a FHIR Bundle or Observation resource.");
+  }
+}
+
+/**
+ * Parse a FHIR R4 Bundle (or a single Observation / array of Observations)
+ * into scratchpad labs. Throws when the input is not FHIR JSON.
+ */
+export function importFhirObservations(input: string | unknown, unitSystem: "conventional" | "si"): FhirImportResult {
+  const json = parseJson(input) as FhirResource | FhirResource[] | null;
+  if (!json || typeof json !== "object" || (!Array.isArray(json) && typeof json.resourceType !== "string")) {
+    throw new Error("Expected a FHIR resource with a resourceType.");
+  }
+
+  const observations = bundleResources<Observation>(json, "Observation");
+  if (observations.length === 0) {
+    throw new Error("No Observation resources found.");
+  }
+
+  const latest = new Map<string, ImportedLab>();
+  const skipped: SkippedObservation[] = [];
+
+  for (const obs of observations) {
+    // Pasted JSON is untrusted: tolerate codings and units of the wrong shape
+    const codings = Array.isArray(obs.code?.coding) ? obs.code.coding : [];
+    const coding = codings.find((c) => c?.system === LOINC_SYSTEM) ?? codings[0];
+    const code = typeof coding?.code === "string" ? coding.code : "";
+    const display = obs.code?.text ?? coding?.display ?? code;
+    const skip = (reason: string) => skipped.push({ code, display, reason });
+
+    if (obs.status === "entered-in-error" || obs.status === "cancelled") {
+      skip(`Status ${obs.status}`);
+      continue;
+    }
+    const def = LAB_LOINC_CODES.find((d) => d.loinc.includes(code));
+    if (!def) {
+      skip("No matching scratchpad lab");
+      continue;
+    }
+    const quantity = obs.valueQuantity;
+    if (typeof quantity?.value !== "number") {
+      skip("No numeric value");
+      continue;
+    }
+    const unit = [quantity.code, quantity.unit].find((u): u is string => typeof u === "string") ?? "";
+    const conventional = toConventionalValue(def, quantity.value, unit);
+    if (conventional === null) {
+      skip(`Unrecognized unit "${quantity.unit ?? quantity.code ?? ""}"`);
+      continue;
+    }
+
+    const collectedAt = observationTime(obs);
+    const existing = latest.get(def.labId);
+    if (existing && (Date.parse(existing.collectedAt) || 0) >= (Date.parse(collectedAt) || 0)) continue;
+
+    latest.set(def.labId, { labId: def.labId, ...toScratchpadValue(def, conventional, unitSystem), collectedAt, code });
+  }
+
+  // Keep the scratchpad's field order
+  const labs = LAB_LOINC_CODES.map((d) => latest.get(d.labId)).filter((lab): lab is ImportedLab => Boolean(lab));
+  return { labs, skipped, observationCount: observations.length };
+}
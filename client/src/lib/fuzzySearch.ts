@@ -1,4 +1,4 @@
-import type { Calculator } from "./calculatorData";
+import type { Calculator } from "@shared/engine/calculatorData";
 
 /**
  * Bounded Damerau-Levenshtein distance with early termination.
@@ -0,0 +1,85 @@
+/**
+ * Handoff Summary
+ * Condenses each census patient into the lines a covering clinician needs:
+ * demographics, latest labs, the most recent result per calculator and
+ * outstanding rechecks (overdue first).
+ *
+ * Example output:
+ *   Bed 12 — 67y, F, 72 kg
+ *     Labs: Cr 2.3 mg/dL (06:00), K 5.9 mEq/L (06:00)
+ *     CKD-EPI Creatinine (2021): eGFR 28 mL/min/1.73m² — CKD G4 (05:40)
+ *     Recheck: K after 40 mEq KCl — due 10:00 (overdue)
+ */
+
+import type { CensusPatient, PatientCalculation, PatientRecheck } from "@/contexts/PatientContext";
+import { DEMOGRAPHIC_FIELDS, LAB_FIELDS } from "./patientFields";
+
+export interface PatientHandoff {
+  patient: CensusPatient;
+  demographics: string;
+  labs: { label: string; value: string; collectedAt?: string }[];
+  /** Latest result per calculator, most recent first */
+  results: PatientCalculation[];
+  /** Not done, soonest due first; undated rechecks last */
+  pending: (PatientRecheck & { overdue: boolean })[];
+}
+
+const MAX_RESULTS = 5;
+
+export function formatHandoffTime(iso: string | number): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return "";
+  return date.toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+export function summarizePatient(patient: CensusPatient, now: Date = new Date()): PatientHandoff {
+  const { fields } = patient;
+
+  const demographics = DEMOGRAPHIC_FIELDS.filter((f) => fields[f.id])
+    .map((f) => (f.id === "sex" ? fields.sex.value : `${fields[f.id].value}${f.id === "age" ? "y" : ` ${f.unit}`}`))
+    .join(", ");
+
+  const labs = LAB_FIELDS.filter((f) => fields[f.id]).map((f) => ({
+    label: f.label,
+    value: `${fields[f.id].value}${f.unit ? ` ${f.unit}` : ""}`,
+    collectedAt: fields[f.id].collectedAt,
+  }));
+
+  const seen = new Set<string>();
+  const results = patient.history.filter((calc) => {
+    if (seen.has(calc.calculatorId)) return false;
+    seen.add(calc.calculatorId);
+    return true;
+  }).slice(0, MAX_RESULTS);
+
+  const due = (r: PatientRecheck) => (r.dueAt ? Date.parse(r.dueAt) : Infinity);
+  const pending = patient.rechecks
+    .filter((r) => !r.done)
+    .sort((a, b) => due(a) - due(b))
+    .map((r) => ({ ...r, overdue: due(r) < now.getTime() }));
+
+  return { patient, demographics, labs, results, pending };
+}
+
+/** Plain-text handoff for the whole census, for pasting into a signout tool */
+export function formatHandoffText(patients: CensusPatient[], now: Date = new Date()): string {
+  const blocks = patients.map((patient) => {
+    const summary = summarizePatient(patient, now);
+    const lines = [`${patient.label}${summary.demographics ? ` — ${summary.demographics}` : ""}`];
+    if (summary.labs.length > 0) {
+      const labs = summary.labs.map((lab) =>
+        `${lab.label} ${lab.value}${lab.collectedAt ? ` (${formatHandoffTime(lab.collectedAt)})` : ""}`
+      );
+      lines.push(`  Labs: ${labs.join(", ")}`);
+    }
+    for (const result of summary.results) {
+      lines.push(`  ${result.calculatorName}: ${result.summary} (${formatHandoffTime(result.computedAt)})`);
+    }
+    for (const recheck of summary.pending) {
+      const due = recheck.dueAt ? ` — due ${formatHandoffTime(recheck.dueAt)}${recheck.overdue ? " (overdue)" : ""}` : "";
+      lines.push(`  Recheck: ${recheck.text}${due}`);
+    }
+    return lines.join("\n");
+  });
+  return blocks.join("\n\n");
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { hl7TimestampToIso, labsToCalculatorValues, labsToScratchpad, parseOruMessage } from "./hl7OruParser";
+
+const MSH = "MSH|^~\\&|LAB|HOSP|EHR|HOSP|20260310081500||ORU^R01|MSG00001|P|2.5.1";
+const PID = "PID|1||MRN12345^^^HOSP^MR||DOE^JANE||19600101|F";
+const OBR = "OBR|1|||80048^BASIC METABOLIC PANEL^L|||20260310070000";
+
+const obx = (setId: number, code: string, value: string, units: string, extra: { type?: string; status?: string; time?: string } = {}) =>
+  `OBX|${setId}|${extra.type ?? "NM"}|${code}||${value}|${units}|||||${extra.status ?? "F"}|||${extra.time ?? ""}`;
+
+const message = (...segments: string[]) => [MSH, PID, OBR, ...segments].join("\r");
+
+describe("HL7 ORU^R01 parsing", () => {
+  it("reads labs, the patient id and observation times", () => {
+    const result = parseOruMessage(
+      message(
+        obx(1, "2160-0^Creatinine^LN", "1.4", "mg/dL", { time: "20260310064500" }),
+        obx(2, "2951-2^Sodium^LN", "138", "mmol/L"),
+        obx(3, "9999-9^Unknown^LN", "5", "mg/dL")
+      )
+    );
+    expect(result.messageType).toBe("ORU^R01");
+    expect(result.patientId).toBe("MRN12345");
+    expect(result.obxCount).toBe(3);
+    expect(result.labs.map((lab) => [lab.analyte, lab.value, lab.unit, lab.observedAt])).toEqual([
+      ["creatinine", 1.4, "mg/dL", "2026-03-10T06:45:00"],
+      // No OBX-14, so the OBR-7 time applies
+      ["sodium", 138, "mEq/L", "2026-03-10T07:00:00"],
+    ]);
+    expect(result.unmatched).toEqual([
+      expect.objectContaining({ setId: "3", code: "9999-9", text: "Unknown", reason: "No mapping for this code" }),
+    ]);
+  });
+
+  it("converts SI units and keeps the latest result per analyte", () => {
+    const { labs } = parseOruMessage(
+      message(
+        obx(1, "CREAT^Creatinine^L", "150", "umol/L", { time: "20260309080000" }),
+        obx(2, "14682-9^Creatinine^LN", "88.4", "umol/L", { time: "20260310080000" })
+      )
+    );
+    expect(labs).toHaveLength(1);
+    expect(labs[0].value).toBeCloseTo(1, 3);
+  });
+
+  it("round-trips values through a generated message", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 20, max: 2000 }),
+        fc.integer({ min: 100, max: 180 }),
+        fc.constantFrom("mg/dL", "umol/L"),
+        (crHundredths, sodium, crUnit) => {
+          const cr = crHundredths / 100;
+          const entered = crUnit === "mg/dL" ? cr : Math.round(cr * 88.4 * 100) / 100;
+          const { labs } = parseOruMessage(message(obx(1, "2160-0^Creatinine^LN", String(entered), crUnit), obx(2, "NA^Sodium^L", String(sodium), "mEq/L")));
+          const values = labsToCalculatorValues(labs, ["creatinine", "sodium"]);
+          expect(Number(values.creatinine)).toBeCloseTo(cr, 2);
+          expect(values.sodium).toBe(String(sodium));
+        }
+      )
+    );
+  });
+
+  it("fills only the calculator inputs that exist and maps scratchpad fields", () => {
+    const { labs } = parseOruMessage(message(obx(1, "2160-0^Creatinine^LN", "1.2", "mg/dL"), obx(2, "UK^Urine K^L", "40", "mmol/L")));
+    expect(labsToCalculatorValues(labs, ["plasmaCr"])).toEqual({ plasmaCr: "1.2" });
+    // Urine potassium has no scratchpad field
+    expect(labsToScratchpad(labs, "si")).toEqual([expect.objectContaining({ labId: "cr", value: "106.08", unit: "μmol/L" })]);
+  });
+
+  it("accepts LF line endings, a byte order mark and custom delimiters", () => {
+    const text = "\uFEFF" + ["MSH#$~\\&#LAB#HOSP#EHR#HOSP#20260310##ORU$R01#1#P#2.5", "OBX#1#NM#K$Potassium$L##4.1#mmol/L#####F"].join("\n");
+    const { labs } = parseOruMessage(text);
+    expect(labs).toEqual([expect.objectContaining({ analyte: "potassium", value: 4.1 })]);
+  });
+
+  it("unescapes HL7 escape sequences", () => {
+    const { unmatched } = parseOruMessage(message(obx(1, "X1^Na \\T\\ K \\F\\ ratio^L", "3", "")));
+    expect(unmatched[0].text).toBe("Na & K | ratio");
+  });
+
+  it("reports results it can't use, with the reason", () => {
+    const { labs, unmatched } = parseOruMessage(
+      message(
+        obx(1, "2160-0^Creatinine^LN", "1.0", "mg/dL", { status: "X" }),
+        obx(2, "2160-0^Creatinine^LN", "<^0.2", "mg/dL", { type: "SN" }),
+        obx(3, "2160-0^Creatinine^LN", "pending", "mg/dL"),
+        obx(4, "2160-0^Creatinine^LN", "", "mg/dL"),
+        obx(5, "2160-0^Creatinine^LN", "1.0", "furlongs"),
+        obx(6, "2160-0^Creatinine^LN", "=^1.3", "mg/dL", { type: "SN" })
+      )
+    );
+    expect(unmatched.map((u) => u.reason)).toEqual([
+      "Result status X",
+      "Censored value <0.2",
+      "No numeric value",
+      "No numeric value",
+      'Unrecognized unit "furlongs"',
+    ]);
+    expect(labs).toEqual([expect.objectContaining({ analyte: "creatinine", value: 1.3 })]);
+  });
+
+  it.each([
+    ["", "No MSH segment found. Paste a complete HL7 v2 message."],
+    ["not an hl7 message", "No MSH segment found. Paste a complete HL7 v2 message."],
+    ["MSH|^~", "No MSH segment found. Paste a complete HL7 v2 message."],
+    ["MSH|^~\\&|LAB|HOSP|EHR|HOSP|20260310||ADT^A01|1|P|2.5", "Expected an ORU^R01 message, got ADT^A01."],
+    ["MSH|^~\\&", "Expected an ORU^R01 message, got no message type."],
+    [[MSH, PID, OBR].join("\r"), "The message has no OBX segments."],
+  ])("rejects %j", (text, error) => {
+    expect(() => parseOruMessage(text)).toThrow(error);
+  });
+
+  it("survives truncated and garbled segments", () => {
+    const { labs, unmatched } = parseOruMessage(message("OBX", "OBX|1", "OBX|2|NM|2160-0", "OBR", "PID", "ZZZ|junk", obx(3, "K", "4.5", "mmol/L")));
+    expect(unmatched.map((u) => u.reason)).toEqual(["No mapping for this code", "No mapping for this code", "No numeric value"]);
+    expect(labs).toEqual([expect.objectContaining({ analyte: "potassium", value: 4.5, observedAt: "2026-03-10T08:15:00" })]);
+  });
+
+  it("converts HL7 timestamps and rejects malformed ones", () => {
+    expect(hl7TimestampToIso("20260310")).toBe("2026-03-10T00:00:00");
+    expect(hl7TimestampToIso("202603100815")).toBe("2026-03-10T08:15:00");
+    expect(hl7TimestampToIso("20260310081530.123-0500")).toBe("2026-03-10T08:15:30-05:00");
+    expect(hl7TimestampToIso("2026-03-10")).toBe("");
+    expect(hl7TimestampToIso("")).toBe("");
+  });
+});
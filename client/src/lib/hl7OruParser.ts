@@ -0,0 +1,353 @@
+/**
+ * HL7 v2 ORU^R01 Parser
+ * Pulls lab results out of OBX segments of a pasted ORU^R01 message,
+ * normalizes units through the shared unit registry, and maps them onto
+ * calculator inputs and Patient Scratchpad fields. OBX codes that are
+ * not in HL7_OBX_CODES are reported so the table can be extended.
+ */
+
+import { scratchpadUnit, toConventionalValue, toScratchpadValue, type ImportedLab, type LabUnitDef } from "./fhirObservationImport";
+
+interface ObxCodeDef extends LabUnitDef {
+  /** Analyte key */
+  id: string;
+  label: string;
+  /** LOINC codes and common local mnemonics, matched case-insensitively against OBX-3 */
+  codes: string[];
+  /** Patient Scratchpad field, when the scratchpad has one */
+  scratchpadId?: string;
+  /** Calculator input ids this analyte fills */
+  calculatorInputs: string[];
+}
+
+export const HL7_OBX_CODES: ObxCodeDef[] = [
+  // Serum chemistry
+  {
+    id: "creatinine", label: "Creatinine", codes: ["2160-0", "38483-4", "14682-9", "CREAT", "CRE", "CR"],
+    unitType: "creatinine", scratchpadId: "cr",
+    calculatorInputs: ["creatinine", "plasmaCr", "currentCreatinine", "serumCreatinine"],
+  },
+  {
+    id: "sodium", label: "Sodium", codes: ["2951-2", "2947-0", "NA"],
+    unitType: "sodium", scratchpadId: "na",
+    calculatorInputs: ["sodium", "plasmaNa", "currentNa", "measuredNa", "serumNa", "serumSodium"],
+  },
+  {
+    id: "potassium", label: "Potassium", codes: ["2823-3", "6298-4", "K"],
+    unitType: "potassium", scratchpadId: "k",
+    calculatorInputs: ["potassium", "plasmaK", "serumPotassium", "potassiumDialysis"],
+  },
+  {
+    id: "chloride", label: "Chloride", codes: ["2075-0", "2069-3", "CL"],
+    unitType: "chloride", scratchpadId: "cl",
+    calculatorInputs: ["chloride", "serumChloride"],
+  },
+  {
+    id: "bicarbonate", label: "Bicarbonate", codes: ["1963-8", "2028-9", "1959-6", "HCO3", "CO2"],
+    unitType: "bicarbonate", scratchpadId: "hco3",
+    calculatorInputs: ["bicarbonate", "measuredHCO3", "bicarbDialysis", "serumBicarbonate"],
+  },
+  {
+    id: "bun", label: "BUN", codes: ["3094-0", "6299-2", "14937-7", "BUN"],
+    unitType: "bunUrea", scratchpadId: "bun",
+    calculatorInputs: ["bun", "bunValue", "plasmaUrea", "bunDialysis"],
+  },
+  {
+    id: "glucose", label: "Glucose", codes: ["2345-7", "2339-0", "GLU", "GLUC"],
+    unitType: "glucose", scratchpadId: "glucose",
+    calculatorInputs: ["glucose", "serumGlucose"],
+  },
+  {
+    id: "serumOsm", label: "Serum osmolality", codes: ["2692-2", "OSMO", "OSM", "SOSM"],
+    unitType: "osmolality", scratchpadId: "sosm",
+    calculatorInputs: ["measuredOsmolality", "plasmaOsm", "serumOsm", "serumOsmolality"],
+  },
+  {
+    id: "albumin", label: "Albumin", codes: ["1751-7", "61151-7", "ALB"],
+    unitType: "albumin", scratchpadId: "alb",
+    calculatorInputs: ["albumin", "serumAlbumin"],
+  },
+  {
+    id: "calcium", label: "Calcium", codes: ["17861-6", "2000-8", "CA"],
+    unitType: "calcium", scratchpadId: "ca",
+    calculatorInputs: ["calcium", "measuredCa", "calciumPhos", "calciumPTH"],
+  },
+  {
+    id: "phosphate", label: "Phosphate", codes: ["2777-1", "14879-1", "PHOS", "PO4"],
+    unitType: "phosphate", scratchpadId: "phos",
+    calculatorInputs: ["phosphate", "serumPhosphate", "phosphateLevel", "phosphatePTH", "plasmaPhosphate"],
+  },
+  {
+    id: "magnesium", label: "Magnesium", codes: ["19123-9", "2601-3", "MG"],
+    unitType: "magnesium", scratchpadId: "mg",
+    calculatorInputs: ["plasmaMagnesium", "serumMagnesium", "serumMagnesiumRepletion"],
+  },
+  // Urine chemistry
+  {
+    id: "urineNa", label: "Urine sodium", codes: ["2955-3", "UNA"],
+    unitType: "sodium", scratchpadId: "una",
+    calculatorInputs: ["urineNa", "urineSodium"],
+  },
+  {
+    id: "urineK", label: "Urine potassium", codes: ["2828-2", "UK"],
+    unitType: "potassium",
+    calculatorInputs: ["urineK"],
+  },
+  {
+    id: "urineCl", label: "Urine chloride", codes: ["2078-4", "UCL"],
+    unitType: "chloride",
+    calculatorInputs: ["urineCl"],
+  },
+  {
+    id: "urineCr", label: "Urine creatinine", codes: ["2161-8", "14683-7", "UCREAT", "UCR"],
+    unitType: "creatinine", scratchpadId: "ucr",
+    calculatorInputs: ["urineCr", "urineCreatinine"],
+  },
+  {
+    id: "urineUrea", label: "Urine urea nitrogen", codes: ["3095-7", "UUN"],
+    unitType: "bunUrea",
+    calculatorInputs: ["urineUrea"],
+  },
+  {
+    id: "urineOsm", label: "Urine osmolality", codes: ["2695-8", "UOSM"],
+    unitType: "osmolality", scratchpadId: "uosm",
+    calculatorInputs: ["urineOsm", "urineOsmolality", "measuredUrineOsm"],
+  },
+  // Arterial blood gas
+  {
+    id: "ph", label: "pH", codes: ["2744-1", "11558-4", "PH"],
+    units: ["", "[pH]", "pH"], scratchpadId: "ph",
+    calculatorInputs: ["arterialPH", "pHDialysis", "ph"],
+  },
+  {
+    id: "pco2", label: "pCO₂", codes: ["2019-8", "11557-6", "PCO2"],
+    units: ["mmHg", "mm[Hg]"], scratchpadId: "pco2",
+    calculatorInputs: ["pCO2", "pco2", "arterialPCO2"],
+  },
+];
+
+export interface Hl7Lab {
+  analyte: string;
+  label: string;
+  /** Value in conventional units */
+  value: number;
+  unit: string;
+  /** ISO observation time (OBX-14, else OBR-7, else MSH-7) */
+  observedAt: string;
+  /** OBX-3 identifier */
+  code: string;
+}
+
+export interface UnmatchedObx {
+  /** OBX-1 set id */
+  setId: string;
+  code: string;
+  text: string;
+  codingSystem: string;
+  value: string;
+  units: string;
+  reason: string;
+}
+
+export interface OruParseResult {
+  messageType: string;
+  /** PID-3 patient identifier, first repetition */
+  patientId?: string;
+  /** Most recent result per analyte, in HL7_OBX_CODES order */
+  labs: Hl7Lab[];
+  unmatched: UnmatchedObx[];
+  obxCount: number;
+}
+
+interface Delimiters {
+  field: string;
+  component: string;
+  repetition: string;
+  escape: string;
+  subcomponent: string;
+}
+
+type Segment = string[];
+
+// HL7 escape sequences within a field value
+function unescapeHl7(value: string, d: Delimiters): string {
+  if (!value.includes(d.escape)) return value;
+  const e = d.escape.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return value.replace(new RegExp(`${e}([FSTRE])${e}`, "g"), (_, code: string) => {
+    switch (code) {
+      case "F": return d.field;
+      case "S": return d.component;
+      case "T": return d.subcomponent;
+      case "R": return d.repetition;
+      default: return d.escape;
+    }
+  });
+}
+
+/**
+ * Field n of a segment, using HL7 numbering. MSH-1 is the field separator
+ * itself, so MSH fields sit one position earlier after splitting.
+ */
+function field(segment: Segment, n: number): string {
+  const index = segment[0] === "MSH" ? n - 1 : n;
+  return segment[index] ?? "";
+}
+
+function components(value: string, d: Delimiters): string[] {
+  return value.split(d.repetition)[0].split(d.component).map((c) => unescapeHl7(c, d));
+}
+
+/** HL7 TS (YYYYMMDD[HHMM[SS]][+/-ZZZZ]) to ISO 8601; empty when unparseable */
+export function hl7TimestampToIso(ts: string): string {
+  const m = ts.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(?:(\d{2}))?)?(?:\.\d+)?([+-]\d{4})?$/);
+  if (!m) return "";
+  const [, y, mo, day, h = "00", mi = "00", s = "00", tz] = m;
+  const offset = tz ? `${tz.slice(0, 3)}:${tz.slice(3)}` : "";
+  return `${y}-${mo}-${day}T${h}:${mi}:${s}${offset}`;
+}
+
+// Latest-wins comparison that tolerates missing times
+const timeValue = (iso: string) => Date.parse(iso) || 0;
+
+function splitMessage(text: string): { segments: Segment[]; delimiters: Delimiters } {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n|\r|\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const msh = lines.find((line) => line.startsWith("MSH"));
+  if (!msh || msh.length < 8) {
+    throw new Error("No MSH segment found. Paste a complete HL7 v2 message.");
+  }
+  const delimiters: Delimiters = {
+    field: msh[3],
+    component: msh[4],
+    repetition: msh[5],
+    escape: msh[6],
+    subcomponent: msh[7],
+  };
+  const start = lines.indexOf(msh);
+  const segments = lines.slice(start).map((line) => line.split(delimiters.field));
+  return { segments, delimiters };
+}
+
+/** Parse a pasted ORU^R01 message. Throws when the text is not an ORU message. */
+export function parseOruMessage(text: string): OruParseResult {
+  const { segments, delimiters: d } = splitMessage(text);
+  const msh = segments[0];
+  const messageType = components(field(msh, 9), d).slice(0, 2).join("^");
+  if (!messageType.startsWith("ORU")) {
+    throw new Error(`Expected an ORU^R01 message, got ${messageType || "no message type"}.`);
+  }
+  const messageTime = hl7TimestampToIso(field(msh, 7));
+
+  const pid = segments.find((s) => s[0] === "PID");
+  const patientId = pid ? components(field(pid, 3), d)[0] || undefined : undefined;
+
+  const latest = new Map<string, Hl7Lab>();
+  const unmatched: UnmatchedObx[] = [];
+  let obxCount = 0;
+  let obrTime = "";
+
+  for (const segment of segments) {
+    if (segment[0] === "OBR") {
+      obrTime = hl7TimestampToIso(field(segment, 7));
+      continue;
+    }
+    if (segment[0] !== "OBX") continue;
+    obxCount++;
+
+    const [code = "", text = "", codingSystem = "", altCode = "", altText = ""] = components(field(segment, 3), d);
+    const rawValue = unescapeHl7(field(segment, 5).split(d.repetition)[0], d);
+    const [unitCode = "", unitText = ""] = components(field(segment, 6), d);
+    const units = unitCode || unitText;
+    const unmatch = (reason: string) =>
+      unmatched.push({ setId: field(segment, 1), code, text: text || altText, codingSystem, value: rawValue, units, reason });
+
+    const status = field(segment, 11);
+    if (["D", "W", "X"].includes(status)) {
+      unmatch(`Result status ${status}`);
+      continue;
+    }
+
+    const identifiers = [code, altCode].filter(Boolean).map((c) => c.toUpperCase());
+    const def = HL7_OBX_CODES.find((entry) => entry.codes.some((c) => identifiers.includes(c.toUpperCase())));
+    if (!def) {
+      unmatch("No mapping for this code");
+      continue;
+    }
+
+    // SN values arrive as comparator^number; only plain "=" values are usable
+    const valueType = field(segment, 2);
+    let numeric = rawValue;
+    if (valueType === "SN") {
+      const [comparator, number] = rawValue.split(d.component);
+      if (comparator && comparator !== "=") {
+        unmatch(`Censored value ${comparator}${number ?? ""}`);
+        continue;
+      }
+      numeric = number ?? "";
+    }
+    const value = Number(numeric.trim());
+    if (numeric.trim() === "" || !Number.isFinite(value)) {
+      unmatch("No numeric value");
+      continue;
+    }
+
+    const conventional = toConventionalValue(def, value, units);
+    if (conventional === null) {
+      unmatch(`Unrecognized unit "${units}"`);
+      continue;
+    }
+
+    const observedAt = hl7TimestampToIso(field(segment, 14)) || obrTime || messageTime;
+    const existing = latest.get(def.id);
+    if (existing && timeValue(existing.observedAt) >= timeValue(observedAt)) continue;
+
+    latest.set(def.id, {
+      analyte: def.id,
+      label: def.label,
+      value: conventional,
+      unit: scratchpadUnit(def, "conventional"),
+      observedAt,
+      code,
+    });
+  }
+
+  if (obxCount === 0) {
+    throw new Error("The message has no OBX segments.");
+  }
+
+  const labs = HL7_OBX_CODES.map((def) => latest.get(def.id)).filter((lab): lab is Hl7Lab => Boolean(lab));
+  return { messageType, patientId, labs, unmatched, obxCount };
+}
+
+const defFor = (analyte: string) => HL7_OBX_CODES.find((def) => def.id === analyte);
+
+/**
+ * Calculator input values (conventional units) for the inputs a calculator
+ * actually has. Inputs absent from the calculator are left out.
+ */
+export function labsToCalculatorValues(labs: Hl7Lab[], inputIds: string[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const lab of labs) {
+    for (const inputId of defFor(lab.analyte)?.calculatorInputs ?? []) {
+      if (inputIds.includes(inputId)) values[inputId] = String(Math.round(lab.value * 100) / 100);
+    }
+  }
+  return values;
+}
+
+/** Labs with a Patient Scratchpad field, converted to the scratchpad's unit system */
+export function labsToScratchpad(labs: Hl7Lab[], unitSystem: "conventional" | "si"): ImportedLab[] {
+  return labs.flatMap((lab) => {
+    const def = defFor(lab.analyte);
+    if (!def?.scratchpadId) return [];
+    return [{
+      labId: def.scratchpadId,
+      ...toScratchpadValue(def, lab.value, unitSystem),
+      collectedAt: lab.observedAt,
+      code: lab.code,
+    }];
+  });
+}
@@ -2,7 +2,7 @@
  * Helper functions for input type detection
  */
 
-import { CalculatorInput } from './calculatorData';
+import { CalculatorInput } from '@shared/engine/calculatorData';
 
 /**
  * Check if a label starts with "Yes" or "No" (case-insensitive)
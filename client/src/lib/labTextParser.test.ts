@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { LAB_LOINC_CODES, toScratchpadValue } from "./fhirObservationImport";
+import { matchAnalyte, parseLabText } from "./labTextParser";
+
+const NOW = new Date(2026, 2, 10, 12, 0);
+
+// Names an EMR export would print for each scratchpad lab
+const LAB_NAMES: Record<string, string> = {
+  cr: "Creatinine",
+  na: "Sodium",
+  k: "Potassium",
+  bun: "BUN",
+  hco3: "Bicarbonate",
+  cl: "Chloride",
+  ca: "Calcium",
+  phos: "Phosphorus",
+  mg: "Magnesium",
+  alb: "Albumin",
+  glucose: "Glucose",
+  hgb: "Hemoglobin",
+  pco2: "pCO2",
+  una: "Sodium, urine",
+  ucr: "Urine creatinine",
+  uosm: "Urine osm",
+  sosm: "Serum osm",
+};
+
+describe("lab text parsing", () => {
+  it("reads values, units, flags and times from an EMR grid", () => {
+    const { rows, unparsed } = parseLabText(
+      ["Test\tResult\tFlag\tUnits\tTime", "Creatinine\t2.3\tH\tmg/dL\t06:00", "K+ 5.9 (HH) [3.5-5.1]", "Sodium, urine 22 mmol/L"].join("\n"),
+      "conventional",
+      NOW
+    );
+    expect(unparsed).toEqual([]);
+    expect(rows.map((r) => [r.labId, r.value, r.unit, r.flag, r.unitAssumed])).toEqual([
+      ["cr", "2.3", "mg/dL", "high", false],
+      ["k", "5.9", "mEq/L", "critical", true],
+      ["una", "22", "mEq/L", undefined, false],
+    ]);
+    expect(rows[0].collectedAt).toBe(new Date(2026, 2, 10, 6, 0).toISOString());
+  });
+
+  it("converts pasted SI units into the scratchpad's unit system", () => {
+    const { rows } = parseLabText("Creatinine 176.8 umol/L", "conventional", NOW);
+    expect(rows[0]).toMatchObject({ labId: "cr", value: "2", unit: "mg/dL", sourceUnit: "umol/L" });
+  });
+
+  it("round-trips every lab it writes in either unit system", () => {
+    const defs = LAB_LOINC_CODES.filter((def) => LAB_NAMES[def.labId]);
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...defs),
+        fc.double({ min: 0.5, max: 400, noNaN: true }),
+        fc.constantFrom("conventional" as const, "si" as const),
+        (def, conventional, system) => {
+          const shown = toScratchpadValue(def, conventional, system);
+          const { rows } = parseLabText(`${LAB_NAMES[def.labId]} ${shown.value} ${shown.unit}`, system, NOW);
+          expect(rows).toHaveLength(1);
+          expect(rows[0]).toMatchObject({ labId: def.labId, value: shown.value, unit: shown.unit, unitAssumed: false });
+        }
+      )
+    );
+  });
+
+  it("keeps the most recent timed row per lab and marks the rest duplicate", () => {
+    const { rows } = parseLabText("Creatinine 1.8 mg/dL 3/9 06:00\nCreatinine 2.1 mg/dL 3/10 06:00", "conventional", NOW);
+    expect(rows.map((r) => [r.value, r.duplicate])).toEqual([
+      ["1.8", true],
+      ["2.1", false],
+    ]);
+  });
+
+  it("reports lines it can't use, with the reason", () => {
+    const { rows, unparsed } = parseLabText(
+      ["Creatinine", "Troponin 0.04 ng/mL", "Sodium <100 mEq/L", "Glucose 5.5 mmol/kg"].join("\n"),
+      "conventional",
+      NOW
+    );
+    expect(rows).toEqual([]);
+    expect(unparsed.map((u) => u.reason)).toEqual([
+      "No value",
+      "Unrecognized analyte",
+      "Censored value <100",
+      'Unrecognized unit "mmol/kg"',
+    ]);
+  });
+
+  it("ignores impossible dates and times", () => {
+    const { rows } = parseLabText("Creatinine 1.2 mg/dL 13/45 25:99", "conventional", NOW);
+    expect(rows[0].collectedAt).toBeUndefined();
+  });
+
+  it("rejects overlong lines quickly", () => {
+    const started = Date.now();
+    const { rows, unparsed } = parseLabText(`Creatinine${" :".repeat(20000)}x\nSodium 140`, "conventional", NOW);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(unparsed).toEqual([expect.objectContaining({ reason: "Line too long" })]);
+    expect(rows).toEqual([expect.objectContaining({ labId: "na", value: "140" })]);
+  });
+
+  it("returns nothing for empty or binary-looking input", () => {
+    expect(parseLabText("", "conventional", NOW)).toEqual({ rows: [], unparsed: [] });
+    expect(parseLabText("\u0000\u0001\uFFFD\r\n\t\t", "conventional", NOW)).toEqual({ rows: [], unparsed: [] });
+  });
+
+  it("matches analyte spellings from different EMRs", () => {
+    expect(matchAnalyte("Creatinine, Ser/Plas")).toBe("cr");
+    expect(matchAnalyte("CO2 Total")).toBe("hco3");
+    expect(matchAnalyte("Potassium Whole Blood")).toBe("k");
+    expect(matchAnalyte("Sodium (serum)")).toBe("na");
+    expect(matchAnalyte("Troponin")).toBeNull();
+    expect(matchAnalyte("   ")).toBeNull();
+  });
+});
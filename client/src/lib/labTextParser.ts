@@ -0,0 +1,291 @@
+/**
+ * Lab Text Parser
+ * Tolerant parser for lab grids copied out of an EMR as tab- or
+ * space-separated text, e.g.
+ *   Creatinine    2.3  H  mg/dL   06:00
+ *   Sodium, urine 22 mmol/L
+ *   K+ 5.9 (HH) [3.5-5.1]
+ * Analyte names are recognized through the SHORT_LABELS vocabulary of
+ * clinicalNoteFormatter.ts; units are converted for the Patient Scratchpad.
+ */
+
+import { SHORT_LABELS } from "./clinicalNoteFormatter";
+import { LAB_LOINC_CODES, scratchpadUnit, toConventionalValue, toScratchpadValue } from "./fhirObservationImport";
+
+export type LabFlag = "high" | "low" | "critical" | "abnormal";
+
+export interface ParsedLabRow {
+  /** Source line as pasted */
+  line: string;
+  /** Scratchpad lab field id */
+  labId: string;
+  /** Analyte name as pasted */
+  name: string;
+  /** Value in the scratchpad's unit system */
+  value: string;
+  unit: string;
+  /** Unit as pasted; empty when the line had none */
+  sourceUnit: string;
+  flag?: LabFlag;
+  /** ISO collection time when the line carried a time or date */
+  collectedAt?: string;
+  /** No unit on the line, so the scratchpad's unit system was assumed */
+  unitAssumed: boolean;
+  /** Superseded by a later (or earlier-listed) row for the same lab */
+  duplicate: boolean;
+}
+
+export interface UnparsedLine {
+  line: string;
+  reason: string;
+}
+
+export interface LabTextParseResult {
+  rows: ParsedLabRow[];
+  unparsed: UnparsedLine[];
+}
+
+// EMR spellings not covered by SHORT_LABELS, mapped to the same abbreviations
+const EXTRA_NAMES: Record<string, string> = {
+  creat: "Cr",
+  cre: "Cr",
+  scr: "Cr",
+  "co2": "HCO₃",
+  "total co2": "HCO₃",
+  "co2 total": "HCO₃",
+  bicarb: "HCO₃",
+  hco3: "HCO₃",
+  "urea nitrogen": "BUN",
+  phosphorus: "Phos",
+  "inorganic phosphorus": "Phos",
+  mag: "Mg",
+  glu: "Glc",
+  gluc: "Glc",
+  hgb: "Hb",
+  ph: "pH",
+  "ph arterial": "pH",
+  "arterial ph": "pH",
+  pco2: "pCO₂",
+  paco2: "pCO₂",
+  "arterial pco2": "pCO₂",
+  osmolality: "SOsm",
+  osmo: "SOsm",
+  osm: "SOsm",
+  "serum osm": "SOsm",
+  "urine osm": "UOsm",
+  "urine na": "UNa",
+  "urine creat": "Urine Cr",
+  ucr: "Urine Cr",
+};
+
+// Abbreviations from SHORT_LABELS (plus pH/pCO2) that have a scratchpad field
+const ABBREVIATION_TO_LAB: Record<string, string> = {
+  Cr: "cr",
+  "Plasma Cr": "cr",
+  Na: "na",
+  K: "k",
+  BUN: "bun",
+  "HCO₃": "hco3",
+  Cl: "cl",
+  Ca: "ca",
+  Phos: "phos",
+  Mg: "mg",
+  Alb: "alb",
+  Glc: "glucose",
+  Hb: "hgb",
+  pH: "ph",
+  "pCO₂": "pco2",
+  UNa: "una",
+  "Urine Cr": "ucr",
+  UOsm: "uosm",
+  SOsm: "sosm",
+};
+
+const VOCABULARY: Record<string, string> = { ...SHORT_LABELS, ...EXTRA_NAMES };
+
+// Longest names first so "urine sodium" wins over "sodium"
+const NAMES_BY_LENGTH = Object.keys(VOCABULARY).sort((a, b) => b.length - a.length);
+
+function normalizeName(name: string): string {
+  let n = name
+    .toLowerCase()
+    .replace(/₂/g, "2")
+    .replace(/₃/g, "3")
+    .replace(/[*:]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  // "Sodium, urine" -> "urine sodium"
+  const comma = n.match(/^(.+?),\s*(urine|serum|plasma|blood|arterial)$/);
+  if (comma) n = `${comma[2]} ${comma[1]}`;
+  return n.replace(/[+-]$/, "").replace(/\s*\((serum|plasma|blood)\)$/, "").replace(/\s+level$/, "").trim();
+}
+
+/** Scratchpad lab id for a pasted analyte name, or null */
+export function matchAnalyte(name: string): string | null {
+  const n = normalizeName(name);
+  if (!n) return null;
+
+  const byAbbreviation = (abbreviation: string | undefined) =>
+    abbreviation ? ABBREVIATION_TO_LAB[abbreviation] ?? null : null;
+
+  if (VOCABULARY[n]) return byAbbreviation(VOCABULARY[n]);
+  // The abbreviation itself, e.g. "Cr", "UNa", "HCO3"
+  for (const abbreviation of Object.keys(ABBREVIATION_TO_LAB)) {
+    if (normalizeName(abbreviation) === n) return ABBREVIATION_TO_LAB[abbreviation];
+  }
+  const unqualified = n.replace(/^(serum|plasma|blood) /, "");
+  if (unqualified !== n && VOCABULARY[unqualified]) return byAbbreviation(VOCABULARY[unqualified]);
+  // "Creatinine, Ser/Plas" or "Potassium Whole Blood": longest known prefix
+  const prefix = NAMES_BY_LENGTH.find((key) => n.startsWith(`${key} `) || n.startsWith(`${key},`));
+  return prefix ? byAbbreviation(VOCABULARY[prefix]) : null;
+}
+
+const FLAGS: Record<string, LabFlag> = {
+  h: "high",
+  hi: "high",
+  high: "high",
+  l: "low",
+  lo: "low",
+  low: "low",
+  hh: "critical",
+  ll: "critical",
+  c: "critical",
+  crit: "critical",
+  critical: "critical",
+  panic: "critical",
+  a: "abnormal",
+  abn: "abnormal",
+  abnormal: "abnormal",
+};
+
+const UNIT_PATTERN = /^(m?g|u?mol|µmol|μmol|mmol|meq|mosm)\/(d?l|kg)$|^mm\s?hg$/i;
+
+function parseFlag(token: string): LabFlag | null {
+  const bare = token.replace(/^[([]|[)\]]$/g, "").toLowerCase();
+  if (/^[*!]+$/.test(bare)) return "abnormal";
+  return FLAGS[bare] ?? null;
+}
+
+/**
+ * ISO time for "06:00", "10/19", "10/19/2026" or "10/19/26 06:00". A bare
+ * time is taken as the most recent occurrence before `now`.
+ */
+function parseTime(tokens: string[], now: Date): string | undefined {
+  let date: Date | null = null;
+  let time: [number, number] | null = null;
+  for (const token of tokens) {
+    const t = token.match(/^(\d{1,2}):(\d{2})$/);
+    if (t && Number(t[1]) < 24 && Number(t[2]) < 60) time = [Number(t[1]), Number(t[2])];
+    const d = token.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?$/);
+    if (d) {
+      const year = d[3] ? (d[3].length === 2 ? 2000 + Number(d[3]) : Number(d[3])) : now.getFullYear();
+      const candidate = new Date(year, Number(d[1]) - 1, Number(d[2]));
+      // Date rolls "13/45" over into next year; take only real calendar dates
+      if (candidate.getMonth() === Number(d[1]) - 1 && candidate.getDate() === Number(d[2])) date = candidate;
+    }
+  }
+  if (!date && !time) return undefined;
+  const result = date ?? new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  if (time) result.setHours(time[0], time[1], 0, 0);
+  if (!date && result > now) result.setDate(result.getDate() - 1);
+  return result.toISOString();
+}
+
+// Longer lines are not lab rows, and LINE_PATTERN backtracks quadratically on them
+const MAX_LINE_LENGTH = 300;
+
+// Name, then the first standalone number (optionally with a comparator)
+const LINE_PATTERN = /^(.+?)[\s:]+([<>]=?\s?)?(\d+(?:\.\d+)?|\.\d+)(?=$|[\s*(])(.*)$/;
+
+/** Parse pasted lab text into scratchpad rows for review */
+export function parseLabText(
+  text: string,
+  unitSystem: "conventional" | "si",
+  now: Date = new Date()
+): LabTextParseResult {
+  const rows: ParsedLabRow[] = [];
+  const unparsed: UnparsedLine[] = [];
+
+  for (const rawLine of text.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/\t/g, "  ").trim();
+    if (!line) continue;
+    if (line.length > MAX_LINE_LENGTH) {
+      unparsed.push({ line: `${line.slice(0, 60)}…`, reason: "Line too long" });
+      continue;
+    }
+
+    const match = line.match(LINE_PATTERN);
+    if (!match) {
+      // Headers and free text without a value are ignored unless they name a lab
+      if (matchAnalyte(line)) unparsed.push({ line, reason: "No value" });
+      continue;
+    }
+    const [, name, comparator, number, rest] = match;
+    const labId = matchAnalyte(name);
+    if (!labId) {
+      const n = normalizeName(name);
+      const known = NAMES_BY_LENGTH.some((key) => n === key || n.startsWith(`${key} `));
+      unparsed.push({ line, reason: known ? "No scratchpad field" : "Unrecognized analyte" });
+      continue;
+    }
+    if (comparator) {
+      unparsed.push({ line, reason: `Censored value ${comparator.trim()}${number}` });
+      continue;
+    }
+
+    // Flags, units, reference ranges and times can come in any order; later
+    // numeric columns are older results in a grid and are ignored
+    const tokens = rest.trim().split(/\s+/).filter(Boolean);
+    let flag: LabFlag | undefined;
+    let sourceUnit = "";
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const pair = `${token} ${tokens[i + 1] ?? ""}`;
+      if (!sourceUnit && UNIT_PATTERN.test(pair)) {
+        sourceUnit = pair;
+        i++;
+      } else if (!sourceUnit && UNIT_PATTERN.test(token)) {
+        sourceUnit = token;
+      } else if (!flag && parseFlag(token)) {
+        flag = parseFlag(token) ?? undefined;
+      }
+    }
+
+    const def = LAB_LOINC_CODES.find((d) => d.labId === labId);
+    if (!def) continue;
+    const value = Number(number);
+    let conventional: number | null;
+    if (sourceUnit) {
+      conventional = toConventionalValue(def, value, sourceUnit);
+      if (conventional === null) {
+        unparsed.push({ line, reason: `Unrecognized unit "${sourceUnit}"` });
+        continue;
+      }
+    } else {
+      conventional = toConventionalValue(def, value, scratchpadUnit(def, unitSystem)) ?? value;
+    }
+
+    rows.push({
+      line,
+      labId,
+      name: name.trim(),
+      ...toScratchpadValue(def, conventional, unitSystem),
+      sourceUnit,
+      flag,
+      collectedAt: parseTime(line.split(/\s+/), now),
+      unitAssumed: !sourceUnit,
+      duplicate: false,
+    });
+  }
+
+  // Keep one row per lab: the most recent timed row, else the first listed
+  const kept = new Map<string, ParsedLabRow>();
+  for (const row of rows) {
+    const current = kept.get(row.labId);
+    const newer = current?.collectedAt && row.collectedAt && row.collectedAt > current.collectedAt;
+    if (!current || newer) kept.set(row.labId, row);
+  }
+  for (const row of rows) row.duplicate = kept.get(row.labId) !== row;
+
+  return { rows, unparsed };
+}
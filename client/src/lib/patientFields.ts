@@ -0,0 +1,81 @@
+/**
+ * Patient Context Fields
+ * Demographics and labs held by the current patient context, and the
+ * calculator input ids each one prefills. Values are stored in conventional
+ * units and converted to the input's selected unit when bound.
+ */
+
+import type { CalculatorInput } from "@shared/engine/calculatorData";
+import { fromCanonical, type CalculatorUnits, type UnitPreference } from "@shared/engine/calculatorInputs";
+
+export interface PatientFieldDef {
+  /** Demographic id, or the Patient Scratchpad lab id */
+  id: string;
+  label: string;
+  /** Conventional unit the value is stored in */
+  unit: string;
+  /** Calculator inputs that mean the same current measurement */
+  inputIds: string[];
+}
+
+export const DEMOGRAPHIC_FIELDS: PatientFieldDef[] = [
+  { id: "age", label: "Age", unit: "years", inputIds: ["age"] },
+  { id: "sex", label: "Sex", unit: "", inputIds: ["sex"] },
+  { id: "weight", label: "Weight", unit: "kg", inputIds: ["weight"] },
+  { id: "height", label: "Height", unit: "cm", inputIds: ["height"] },
+];
+
+// Baseline, pre/post-dialysis and serial values (cr1, preBUN, ...) are left out:
+// they are not the patient's latest result
+export const LAB_FIELDS: PatientFieldDef[] = [
+  { id: "cr", label: "Cr", unit: "mg/dL", inputIds: ["creatinine", "plasmaCr", "currentCreatinine"] },
+  { id: "na", label: "Na", unit: "mEq/L", inputIds: ["sodium", "plasmaNa", "currentNa", "measuredNa"] },
+  { id: "k", label: "K", unit: "mEq/L", inputIds: ["potassium", "serumPotassium", "plasmaK"] },
+  { id: "bun", label: "BUN", unit: "mg/dL", inputIds: ["bun", "bunValue"] },
+  { id: "hco3", label: "HCO₃", unit: "mEq/L", inputIds: ["bicarbonate", "measuredHCO3"] },
+  { id: "cl", label: "Cl", unit: "mEq/L", inputIds: ["chloride"] },
+  { id: "ca", label: "Ca", unit: "mg/dL", inputIds: ["calcium", "measuredCa", "calciumPTH", "calciumPhos", "serumCalciumQtc"] },
+  { id: "phos", label: "Phos", unit: "mg/dL", inputIds: ["phosphate", "serumPhosphate", "plasmaPhosphate", "phosphateLevel", "phosphatePTH"] },
+  { id: "mg", label: "Mg", unit: "mg/dL", inputIds: ["serumMagnesium", "plasmaMagnesium", "serumMagnesiumRepletion", "serumMagnesiumQtc"] },
+  { id: "alb", label: "Alb", unit: "g/dL", inputIds: ["albumin"] },
+  { id: "glucose", label: "Gluc", unit: "mg/dL", inputIds: ["glucose"] },
+  { id: "hgb", label: "Hgb", unit: "g/dL", inputIds: ["hemoglobin", "currentHemoglobin"] },
+  { id: "ph", label: "pH", unit: "", inputIds: ["arterialPH"] },
+  { id: "pco2", label: "pCO₂", unit: "mmHg", inputIds: ["pCO2", "actualPCO2"] },
+  { id: "una", label: "UNa", unit: "mEq/L", inputIds: ["urineNa"] },
+  { id: "ucr", label: "UCr", unit: "mg/dL", inputIds: ["urineCr"] },
+  { id: "uosm", label: "UOsm", unit: "mOsm/kg", inputIds: ["urineOsm", "measuredUrineOsm"] },
+  { id: "sosm", label: "SOsm", unit: "mOsm/kg", inputIds: ["plasmaOsm", "measuredOsmolality"] },
+];
+
+export const PATIENT_FIELDS: PatientFieldDef[] = [...DEMOGRAPHIC_FIELDS, ...LAB_FIELDS];
+
+const FIELD_BY_INPUT: Record<string, PatientFieldDef> = Object.fromEntries(
+  PATIENT_FIELDS.flatMap((field) => field.inputIds.map((inputId) => [inputId, field]))
+);
+
+/** Patient field an input binds to, or undefined */
+export function patientFieldForInput(inputId: string): PatientFieldDef | undefined {
+  return FIELD_BY_INPUT[inputId];
+}
+
+/**
+ * A stored patient value as the input should display it, or null when it
+ * cannot be expressed (e.g. a select without a matching option).
+ */
+export function patientValueForInput(
+  input: CalculatorInput,
+  value: string,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference
+): string | null {
+  if (input.id === "sex") {
+    // Calculators use "M"/"F" or "male"/"female"; the context stores "M"/"F"
+    const option = input.options?.find((opt) => String(opt.value).charAt(0).toUpperCase() === value);
+    return option ? String(option.value) : null;
+  }
+  const conventional = Number(value);
+  if (value.trim() === "" || isNaN(conventional)) return null;
+  const converted = fromCanonical(input, conventional, units, unitPreference);
+  return String(Math.round(converted * 100) / 100);
+}
@@ -0,0 +1,176 @@
+/**
+ * Secure Store
+ * Encrypted on-device storage for identifiable patient data. Records live in
+ * IndexedDB, each encrypted with AES-GCM under a key derived from the user's
+ * PIN or passphrase (PBKDF2-SHA-256). The key is never persisted; locking
+ * simply drops it from memory.
+ */
+
+const DB_NAME = "nephrology-secure-store";
+const DB_VERSION = 1;
+const META_STORE = "meta";
+const RECORD_STORE = "records";
+
+const PBKDF2_ITERATIONS = 310_000;
+// Encrypted with the derived key at setup; decrypting it checks the PIN
+const VERIFIER_TEXT = "nephrology-secure-store";
+
+/** Plain localStorage keys that held patient data before the secure store */
+export const LEGACY_PATIENT_KEYS = [
+  "patient-scratchpad",
+  "dialysis-sessions",
+  "current-patient",
+  // Calculation history snapshots every input value
+  "nephrology-recent-calculations",
+];
+
+interface StoreMeta {
+  salt: Uint8Array;
+  iterations: number;
+  verifier: EncryptedRecord;
+}
+
+export interface EncryptedRecord {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+export class WrongPinError extends Error {
+  constructor() {
+    super("Incorrect PIN or passphrase.");
+    this.name = "WrongPinError";
+  }
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(META_STORE);
+      req.result.createObjectStore(RECORD_STORE);
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await request(run(db.transaction(storeName, mode).objectStore(storeName)));
+  } finally {
+    db.close();
+  }
+}
+
+async function deriveKey(pin: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(pin), "PBKDF2", false, ["deriveKey"]);
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+}
+
+export async function encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedRecord> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  return { iv, data };
+}
+
+export async function decrypt(key: CryptoKey, record: EncryptedRecord): Promise<string> {
+  const plain = await crypto.subtle.decrypt({ name: "AES-GCM", iv: record.iv }, key, record.data);
+  return new TextDecoder().decode(plain);
+}
+
+/** Whether a PIN has been set up on this device */
+export async function isStoreInitialized(): Promise<boolean> {
+  const meta = await withStore<StoreMeta | undefined>(META_STORE, "readonly", (s) => s.get("meta"));
+  return Boolean(meta);
+}
+
+/** Create the store under a new PIN and return the unlocked key */
+export async function initializeStore(pin: string): Promise<CryptoKey> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(pin, salt, PBKDF2_ITERATIONS);
+  const meta: StoreMeta = { salt, iterations: PBKDF2_ITERATIONS, verifier: await encrypt(key, VERIFIER_TEXT) };
+  await withStore(META_STORE, "readwrite", (s) => s.put(meta, "meta"));
+  return key;
+}
+
+/** Derive the key for an existing store. Throws WrongPinError on a bad PIN. */
+export async function unlockStore(pin: string): Promise<CryptoKey> {
+  const meta = await withStore<StoreMeta | undefined>(META_STORE, "readonly", (s) => s.get("meta"));
+  if (!meta) throw new Error("The secure store has not been set up.");
+  const key = await deriveKey(pin, meta.salt, meta.iterations);
+  let verifier: string;
+  try {
+    verifier = await decrypt(key, meta.verifier);
+  } catch {
+    // AES-GCM authentication fails under the wrong key
+    throw new WrongPinError();
+  }
+  if (verifier !== VERIFIER_TEXT) throw new WrongPinError();
+  return key;
+}
+
+export async function readRecord<T>(key: CryptoKey, name: string): Promise<T | undefined> {
+  const record = await withStore<EncryptedRecord | undefined>(RECORD_STORE, "readonly", (s) => s.get(name));
+  if (!record) return undefined;
+  return JSON.parse(await decrypt(key, record)) as T;
+}
+
+export async function writeRecord(key: CryptoKey, name: string, value: unknown): Promise<void> {
+  const record = await encrypt(key, JSON.stringify(value));
+  await withStore(RECORD_STORE, "readwrite", (s) => s.put(record, name));
+}
+
+export async function deleteRecord(name: string): Promise<void> {
+  await withStore(RECORD_STORE, "readwrite", (s) => s.delete(name));
+}
+
+/**
+ * Move patient data left in plain localStorage into the encrypted store,
+ * keeping the same record names, then remove the plaintext copies.
+ */
+export async function migrateLegacyStorage(key: CryptoKey): Promise<void> {
+  for (const name of LEGACY_PATIENT_KEYS) {
+    const raw = localStorage.getItem(name);
+    if (raw === null) continue;
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      // Unparseable legacy data is dropped rather than kept in plaintext
+      localStorage.removeItem(name);
+      continue;
+    }
+    await writeRecord(key, name, value);
+    localStorage.removeItem(name);
+  }
+}
+
+/** Delete the database (PIN and all records) and any plaintext leftovers */
+export async function wipeStore(): Promise<void> {
+  for (const name of LEGACY_PATIENT_KEYS) localStorage.removeItem(name);
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    // Another tab still has the database open; deletion completes when it closes
+    req.onblocked = () => resolve();
+  });
+}
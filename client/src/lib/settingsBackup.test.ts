@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { BACKUP_FORMAT, BACKUP_VERSION, parseBackup } from "./settingsBackup";
+import { HISTORY_STORAGE_KEY } from "./calculationHistory";
+
+const history = [{ id: "kfre", name: "KFRE", result: "12%", timestamp: 1, values: { age: "70" } }];
+
+describe("settings backup", () => {
+  it("moves version 1 calculation history into the patient data section", () => {
+    const backup = parseBackup(
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: 1,
+        exportedAt: "2026-03-10T08:00:00Z",
+        sections: { recent: { "nephrology-calculator-recent": ["kfre"], [HISTORY_STORAGE_KEY]: history } },
+      })
+    );
+    expect(backup.version).toBe(BACKUP_VERSION);
+    expect(backup.sections.recent).toEqual({ "nephrology-calculator-recent": ["kfre"] });
+    expect(backup.sections.patientData).toEqual({ [HISTORY_STORAGE_KEY]: history });
+  });
+
+  it("drops values whose type the app can't read back", () => {
+    const backup = parseBackup(
+      JSON.stringify({
+        format: BACKUP_FORMAT,
+        version: BACKUP_VERSION,
+        exportedAt: "2026-03-10T08:00:00Z",
+        sections: {
+          favorites: { "nephrology-calculator-favorites": "kfre" },
+          units: { "nephrology-calculator-units": "si", "nephrology-unit-preference": "si" },
+          onCall: { "on-call-calculators": ["fena", 7], "on-call-mode-active": true },
+          appearance: { theme: { dark: true }, "secure-store-auto-lock-minutes": 10 },
+          patientData: { "patient-census": [], [HISTORY_STORAGE_KEY]: history },
+        },
+      })
+    );
+    expect(backup.sections).toEqual({
+      favorites: {},
+      units: { "nephrology-unit-preference": "si" },
+      onCall: { "on-call-mode-active": true },
+      appearance: { "secure-store-auto-lock-minutes": 10 },
+      patientData: { [HISTORY_STORAGE_KEY]: history },
+    });
+  });
+
+  it("rejects backups from a newer version", () => {
+    expect(() =>
+      parseBackup(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION + 1, exportedAt: "", sections: {} }))
+    ).toThrow("This backup was made by a newer version of the app.");
+  });
+});
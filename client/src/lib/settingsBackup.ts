@@ -0,0 +1,306 @@
+/**
+ * Settings Backup
+ * Versioned JSON export/import of everything the app keeps on the device:
+ * favorites, on-call calculators, category order, unit preferences, recent
+ * calculators, theme and (optionally) the encrypted patient data, which
+ * includes calculation history.
+ *
+ * A restore can be limited to some sections and either merges into the
+ * current setup (this device wins on conflicts, the backup fills gaps and
+ * adds list items) or replaces those sections outright.
+ *
+ * Backup layout:
+ *   { format: "nephrology-calculator-backup", version: 2, exportedAt,
+ *     sections: { favorites: { "nephrology-calculator-favorites": [...] }, ... } }
+ */
+
+import { calculators } from "@shared/engine/calculatorData";
+import { deleteRecord, readRecord, writeRecord } from "./secureStore";
+import { HISTORY_STORAGE_KEY, MAX_CALCULATION_HISTORY } from "./calculationHistory";
+
+export const BACKUP_FORMAT = "nephrology-calculator-backup";
+export const BACKUP_VERSION = 2;
+
+export type BackupSectionId =
+  | "favorites"
+  | "onCall"
+  | "categoryOrder"
+  | "units"
+  | "recent"
+  | "appearance"
+  | "patientData";
+
+export interface BackupSectionDef {
+  id: BackupSectionId;
+  label: string;
+  description: string;
+  /** localStorage keys, or encrypted record names for secure sections */
+  keys: string[];
+  /** Stored in the encrypted store; needs the unlocked key */
+  secure?: boolean;
+}
+
+export const BACKUP_SECTIONS: BackupSectionDef[] = [
+  {
+    id: "favorites",
+    label: "Favorites",
+    description: "Starred calculators",
+    keys: ["nephrology-calculator-favorites"],
+  },
+  {
+    id: "onCall",
+    label: "On-call mode",
+    description: "On-call calculator list and whether on-call mode is on",
+    keys: ["on-call-calculators", "on-call-mode-active"],
+  },
+  {
+    id: "categoryOrder",
+    label: "Category order",
+    description: "Sidebar category arrangement",
+    keys: ["nephrology-calculator-category-order"],
+  },
+  {
+    id: "units",
+    label: "Unit preferences",
+    description: "Conventional/SI default and per-input unit choices",
+    keys: ["nephrology-unit-preference", "nephrology-calculator-units"],
+  },
+  {
+    id: "recent",
+    label: "Recent calculators",
+    description: "Recently opened calculators",
+    keys: ["nephrology-calculator-recent"],
+  },
+  {
+    id: "appearance",
+    label: "Theme and auto-lock",
+    description: "Light/dark/midnight theme and patient data auto-lock time",
+    keys: ["theme", "secure-store-auto-lock-minutes"],
+  },
+  {
+    id: "patientData",
+    label: "Patient data",
+    description: "Census, scratchpad labs, dry-weight sessions and calculation history",
+    keys: ["patient-census", "patient-scratchpad", "dialysis-sessions", "current-patient", HISTORY_STORAGE_KEY],
+    secure: true,
+  },
+];
+
+export interface SettingsBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  /** Section id → stored key → parsed value */
+  sections: Partial<Record<BackupSectionId, Record<string, unknown>>>;
+}
+
+export type RestoreMode = "merge" | "replace";
+
+export class BackupFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupFormatError";
+  }
+}
+
+/**
+ * Upgrade steps, indexed by the version they upgrade from. When the layout
+ * changes, bump BACKUP_VERSION and add the step from the previous version.
+ */
+const MIGRATIONS: Record<number, (backup: SettingsBackup) => SettingsBackup> = {
+  // Version 1 kept calculation history, which holds patient values, with the recent calculators
+  1: (backup) => {
+    const { [HISTORY_STORAGE_KEY]: history, ...recent } = backup.sections.recent ?? {};
+    if (history === undefined) return backup;
+    return {
+      ...backup,
+      sections: {
+        ...backup.sections,
+        recent,
+        patientData: { ...backup.sections.patientData, [HISTORY_STORAGE_KEY]: history },
+      },
+    };
+  },
+};
+
+// Lists capped by the Dashboard; a merge must not grow them past that
+const LIST_LIMITS: Record<string, number> = {
+  "nephrology-calculator-recent": 5,
+  [HISTORY_STORAGE_KEY]: MAX_CALCULATION_HISTORY,
+};
+
+// Lists of calculator ids, filtered to calculators this version still has
+const CALCULATOR_ID_LISTS = ["nephrology-calculator-favorites", "on-call-calculators", "nephrology-calculator-recent"];
+
+const isStringList = (value: unknown) => Array.isArray(value) && value.every((item) => typeof item === "string");
+const isObjectList = (value: unknown) => Array.isArray(value) && value.every(isPlainObject);
+
+// Shape each stored value must have for the code that reads it back; anything else is dropped on import
+const VALUE_SHAPES: Record<string, (value: unknown) => boolean> = {
+  "nephrology-calculator-favorites": isStringList,
+  "on-call-calculators": isStringList,
+  "on-call-mode-active": (value) => typeof value === "boolean",
+  "nephrology-calculator-category-order": isStringList,
+  "nephrology-unit-preference": (value) => value === "conventional" || value === "si",
+  "nephrology-calculator-units": (value) => isPlainObject(value) && Object.values(value).every((unit) => typeof unit === "string"),
+  "nephrology-calculator-recent": isStringList,
+  theme: (value) => value === "light" || value === "dark" || value === "midnight",
+  "secure-store-auto-lock-minutes": (value) => typeof value === "number" && value > 0,
+  "patient-census": (value) =>
+    isPlainObject(value) && (value.activeId === null || typeof value.activeId === "string") && isObjectList(value.patients),
+  "patient-scratchpad": isObjectList,
+  "dialysis-sessions": isObjectList,
+  "current-patient": (value) => value === null || (isPlainObject(value) && isPlainObject(value.fields)),
+  [HISTORY_STORAGE_KEY]: isObjectList,
+};
+
+function parseStored(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    // Plain string settings such as the theme or unit preference
+    return raw;
+  }
+}
+
+function serializeStored(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Identity of a list item for merging: ids (plus timestamp for history entries) or the value itself
+function itemKey(item: unknown): string {
+  if (isPlainObject(item) && item.id !== undefined) return `${item.id}|${item.timestamp ?? ""}`;
+  return JSON.stringify(item);
+}
+
+/** Merge a backup value into the current one; the current value wins on conflicts */
+export function mergeValue(current: unknown, incoming: unknown): unknown {
+  if (current === undefined) return incoming;
+  if (Array.isArray(current) && Array.isArray(incoming)) {
+    const seen = new Set(current.map(itemKey));
+    return [...current, ...incoming.filter((item) => !seen.has(itemKey(item)))];
+  }
+  if (isPlainObject(current) && isPlainObject(incoming)) {
+    const merged: Record<string, unknown> = { ...incoming };
+    for (const [key, value] of Object.entries(current)) merged[key] = mergeValue(value, incoming[key]);
+    return merged;
+  }
+  return current;
+}
+
+function sanitizeValue(key: string, value: unknown): unknown {
+  if (!Array.isArray(value)) return value;
+  let list = value;
+  if (CALCULATOR_ID_LISTS.includes(key)) {
+    const known = new Set(calculators.map((c) => c.id));
+    list = list.filter((id) => typeof id === "string" && known.has(id));
+  }
+  return LIST_LIMITS[key] ? list.slice(0, LIST_LIMITS[key]) : list;
+}
+
+export async function createBackup(sectionIds: BackupSectionId[], key: CryptoKey | null): Promise<SettingsBackup> {
+  const sections: SettingsBackup["sections"] = {};
+  for (const section of BACKUP_SECTIONS) {
+    if (!sectionIds.includes(section.id)) continue;
+    const values: Record<string, unknown> = {};
+    for (const name of section.keys) {
+      if (section.secure) {
+        if (!key) continue;
+        const value = await readRecord(key, name);
+        if (value !== undefined) values[name] = value;
+      } else {
+        const raw = localStorage.getItem(name);
+        if (raw !== null) values[name] = parseStored(raw);
+      }
+    }
+    sections[section.id] = values;
+  }
+  return { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: new Date().toISOString(), sections };
+}
+
+/** Parse and validate a backup file, migrating older versions to the current layout */
+export function parseBackup(text: string): SettingsBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupFormatError("This file is not valid JSON.");
+  }
+  if (!isPlainObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupFormatError("This file is not a Nephrology Calculator backup.");
+  }
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    throw new BackupFormatError("The backup has no valid version number.");
+  }
+  if (data.version > BACKUP_VERSION) {
+    throw new BackupFormatError("This backup was made by a newer version of the app. Update the app and try again.");
+  }
+  if (!isPlainObject(data.sections)) {
+    throw new BackupFormatError("The backup contains no settings.");
+  }
+
+  let backup = data as unknown as SettingsBackup;
+  for (let version = backup.version; version < BACKUP_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new BackupFormatError(`No migration from backup version ${version}.`);
+    backup = { ...migrate(backup), version: version + 1 };
+  }
+
+  // Keep only known sections and their known keys, holding values of the shape the app reads back
+  const sections: SettingsBackup["sections"] = {};
+  for (const section of BACKUP_SECTIONS) {
+    const values = backup.sections[section.id];
+    if (!isPlainObject(values)) continue;
+    sections[section.id] = Object.fromEntries(
+      Object.entries(values).filter(([name, value]) => section.keys.includes(name) && VALUE_SHAPES[name](value))
+    );
+  }
+  return { ...backup, sections };
+}
+
+/** Sections of a backup that hold at least one value */
+export function backupSectionIds(backup: SettingsBackup): BackupSectionId[] {
+  return BACKUP_SECTIONS.filter((s) => Object.keys(backup.sections[s.id] ?? {}).length > 0).map((s) => s.id);
+}
+
+/**
+ * Write the chosen sections of a backup to storage. Patient data needs the
+ * unlocked key. The page should be reloaded afterwards so every component
+ * re-reads its settings.
+ */
+export async function restoreBackup(
+  backup: SettingsBackup,
+  sectionIds: BackupSectionId[],
+  mode: RestoreMode,
+  key: CryptoKey | null
+): Promise<void> {
+  for (const section of BACKUP_SECTIONS) {
+    const values = backup.sections[section.id];
+    if (!values || !sectionIds.includes(section.id)) continue;
+    if (section.secure && !key) throw new BackupFormatError("Unlock patient data before restoring it.");
+
+    for (const name of section.keys) {
+      const incoming = values[name];
+      if (section.secure && key) {
+        if (incoming === undefined) {
+          if (mode === "replace") await deleteRecord(name);
+          continue;
+        }
+        const current = mode === "merge" ? await readRecord(key, name) : undefined;
+        await writeRecord(key, name, sanitizeValue(name, mergeValue(current, incoming)));
+      } else {
+        if (incoming === undefined) {
+          if (mode === "replace") localStorage.removeItem(name);
+          continue;
+        }
+        const raw = localStorage.getItem(name);
+        const current = mode === "merge" && raw !== null ? parseStored(raw) : undefined;
+        localStorage.setItem(name, serializeStored(sanitizeValue(name, mergeValue(current, incoming))));
+      }
+    }
+  }
+}
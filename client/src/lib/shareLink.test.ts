@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import { decodeShareFragment, encodeShareFragment, isShareFragment } from "./shareLink";
+
+const KFRE_VALUES = { age: "70", sex: "M", eGFR: "30", acr: "100", years: "5" };
+
+/** Encode a raw payload the way encodeShareFragment does, without its sanitizing */
+async function rawFragment(payload: unknown): Promise<string> {
+  const stream = new Blob([JSON.stringify(payload)]).stream().pipeThrough(new CompressionStream("deflate-raw"));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return "#s=" + btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+describe("share links", () => {
+  it("round-trips a calculation with its unit selections", async () => {
+    const fragment = await encodeShareFragment("kfre", KFRE_VALUES, { acr: "mg/g" }, "conventional");
+    expect(isShareFragment(fragment)).toBe(true);
+    expect(fragment).toMatch(/^#s=[A-Za-z0-9_-]+$/);
+    expect(await decodeShareFragment(fragment)).toEqual({
+      calculatorId: "kfre",
+      link: { values: KFRE_VALUES, units: { acr: "mg/g" }, compute: true },
+    });
+  });
+
+  it("round-trips any numeric inputs", async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 18, max: 110 }), fc.integer({ min: 0, max: 20000 }), async (age, eGFRHundredths) => {
+        const values = { ...KFRE_VALUES, age: String(age), eGFR: String(eGFRHundredths / 100) };
+        const { link } = await decodeShareFragment(await encodeShareFragment("kfre", values, {}, "si"));
+        expect(link.values).toEqual(values);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it("leaves out values that are not the calculator's inputs", async () => {
+    const fragment = await encodeShareFragment("kfre", { ...KFRE_VALUES, patientName: "Jane Doe", sex: "unknown", age: "seventy" }, {}, "conventional");
+    const { link } = await decodeShareFragment(fragment);
+    expect(link.values).toEqual({ eGFR: "30", acr: "100", years: "5" });
+    expect(JSON.stringify(link)).not.toContain("Jane");
+  });
+
+  it("drops unit selections the calculator doesn't offer", async () => {
+    const { link } = await decodeShareFragment(await rawFragment({ v: 1, c: "kfre", s: KFRE_VALUES, u: { acr: "furlongs", eGFR: "mg/g" } }));
+    expect(link.units).toEqual({});
+    expect(link.values).toEqual(KFRE_VALUES);
+  });
+
+  it("refuses to encode an unknown calculator", async () => {
+    await expect(encodeShareFragment("no-such-calculator", {}, {}, "conventional")).rejects.toThrow(
+      "This calculator is not available in this version of the app."
+    );
+  });
+
+  it("rejects links from a newer version or for unknown calculators", async () => {
+    await expect(decodeShareFragment(await rawFragment({ v: 2, c: "kfre", s: {}, u: {} }))).rejects.toThrow(
+      "This calculation was shared from a newer version of the app."
+    );
+    await expect(decodeShareFragment(await rawFragment({ v: 1, c: "no-such-calculator", s: {}, u: {} }))).rejects.toThrow(
+      "This calculator is not available in this version of the app."
+    );
+  });
+
+  it.each([
+    ["an empty fragment", "#s="],
+    ["invalid base64", "#s=***"],
+    ["bytes that don't inflate", "#s=AAAA"],
+  ])("rejects %s as damaged", async (_, fragment) => {
+    await expect(decodeShareFragment(fragment)).rejects.toMatchObject({
+      name: "ShareLinkError",
+      message: "This shared calculation link is incomplete or damaged.",
+    });
+  });
+
+  it("rejects a truncated link as damaged", async () => {
+    const fragment = await encodeShareFragment("kfre", KFRE_VALUES, {}, "conventional");
+    await expect(decodeShareFragment(fragment.slice(0, fragment.length / 2))).rejects.toThrow("incomplete or damaged");
+  });
+
+  it.each([["null"], ['"kfre"'], ['{"v": 1}'], ['{"v": 1, "c": 7}']])("rejects the payload %s as damaged", async (json) => {
+    await expect(decodeShareFragment(await rawFragment(JSON.parse(json)))).rejects.toThrow("incomplete or damaged");
+  });
+
+  it("only recognizes share fragments", () => {
+    expect(isShareFragment("#s=abc")).toBe(true);
+    expect(isShareFragment("#results")).toBe(false);
+    expect(isShareFragment("")).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Share Links
+ * Packs a calculation (calculator id, inputs and units) into a compressed
+ * URL fragment, e.g. /calc/kfre#s=q1YqzsgvyA..., so a colleague can open the
+ * same calculation on another device. The fragment is never sent to the
+ * server.
+ *
+ * Only the calculator's own inputs go into the payload, and each value must
+ * be a number, an option value or a checkbox state, so patient labels,
+ * collection times and scratchpad notes can't be included.
+ */
+
+import { getCalculatorById } from "@shared/engine/calculatorData";
+import {
+  hasUnitToggle,
+  unitKey,
+  unitSelections,
+  type CalculatorUnits,
+  type CalculatorValues,
+  type UnitPreference,
+} from "@shared/engine/calculatorInputs";
+import { parseInputValue, type CalculatorLinkParams } from "./calculatorLinks";
+import { snapshotUnits } from "./calculationHistory";
+
+const FRAGMENT_PREFIX = "#s=";
+const SHARE_VERSION = 1;
+
+interface SharePayload {
+  v: number;
+  /** Calculator id */
+  c: string;
+  /** Input values */
+  s: CalculatorValues;
+  /** Unit selections for unit-switchable inputs */
+  u: CalculatorUnits;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ShareLinkError";
+  }
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const result = new Response(new Blob([bytes]).stream().pipeThrough(stream));
+  return new Uint8Array(await result.arrayBuffer());
+}
+
+/** Keep only the calculator's inputs, with values valid for each */
+function sanitizeValues(calculatorId: string, values: CalculatorValues): CalculatorValues {
+  const calculator = getCalculatorById(calculatorId);
+  if (!calculator) throw new ShareLinkError("This calculator is not available in this version of the app.");
+  const clean: CalculatorValues = {};
+  for (const input of calculator.inputs) {
+    const value = values[input.id];
+    if (value === undefined || value === "") continue;
+    const parsed = parseInputValue(input, String(value));
+    if (parsed !== null) clean[input.id] = parsed;
+  }
+  return clean;
+}
+
+/** Fragment ("#s=...") encoding a calculation */
+export async function encodeShareFragment(
+  calculatorId: string,
+  values: CalculatorValues,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference
+): Promise<string> {
+  const calculator = getCalculatorById(calculatorId);
+  if (!calculator) throw new ShareLinkError("This calculator is not available in this version of the app.");
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    c: calculatorId,
+    s: sanitizeValues(calculatorId, values),
+    u: snapshotUnits(calculator, units, unitPreference),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  return FRAGMENT_PREFIX + toBase64Url(await transform(json, new CompressionStream("deflate-raw")));
+}
+
+export function isShareFragment(hash: string): boolean {
+  return hash.startsWith(FRAGMENT_PREFIX);
+}
+
+/** Decode a share fragment into the calculator and the values to apply */
+export async function decodeShareFragment(hash: string): Promise<{ calculatorId: string; link: CalculatorLinkParams }> {
+  let payload: SharePayload;
+  try {
+    const bytes = await transform(fromBase64Url(hash.slice(FRAGMENT_PREFIX.length)), new DecompressionStream("deflate-raw"));
+    payload = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ShareLinkError("This shared calculation link is incomplete or damaged.");
+  }
+  if (typeof payload !== "object" || payload === null || typeof payload.c !== "string") {
+    throw new ShareLinkError("This shared calculation link is incomplete or damaged.");
+  }
+  if (payload.v > SHARE_VERSION) {
+    throw new ShareLinkError("This calculation was shared from a newer version of the app.");
+  }
+  // Unit selections for this calculator's switchable inputs only
+  const units: CalculatorUnits = {};
+  for (const input of getCalculatorById(payload.c)?.inputs.filter(hasUnitToggle) ?? []) {
+    const unit = payload.u?.[unitKey(input)];
+    if (typeof unit === "string" && unitSelections(input).includes(unit)) units[unitKey(input)] = unit;
+  }
+  return {
+    calculatorId: payload.c,
+    link: { values: sanitizeValues(payload.c, payload.s ?? {}), units, compute: true },
+  };
+}
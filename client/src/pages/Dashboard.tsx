@@ -5,7 +5,7 @@
  * Features: Light/Dark theme, inline unit conversion per input, mobile-friendly
  */
 
-import { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import { useState, useMemo, useCallback, useEffect, useEffectEvent, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -47,14 +47,27 @@ import {
   Check,
   ArrowLeftRight,
   ChevronDown,
-  ClipboardList
+  ClipboardList,
+  FileJson,
+  RotateCcw,
+  History
 } from "lucide-react";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { calculators, getCategories, getCalculatorById, CalculatorInput } from "@/lib/calculatorData";
-import * as calc from "@/lib/calculators";
-import { getRecommendations } from '@/lib/clinicalRecommendations';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { calculators, getCategories, getCalculatorById, computeCalculator, getFormulaVersions, CalculatorInput, type CalculatorResult } from "@shared/engine/calculatorData";
+import { getUnitType, hasUnitToggle, selectedUnit, unitKey, unitSelection } from "@shared/engine/calculatorInputs";
+import { convertUnit, unitLabel } from "@shared/engine/unitRegistry";
+import { checkPlausibility } from "@shared/engine/plausibility";
+import { evaluateReferenceRanges } from "@shared/engine/referenceRanges";
+import { getMissingRequiredInputs } from "@shared/engine/calculatorSchema";
+import { getRecommendationKey, getRecommendations } from '@shared/engine/clinicalRecommendations';
 import { generateClinicalNote } from '@/lib/clinicalNoteFormatter';
+import { buildDiagnosticReportBundle, buildResultObservationBundle, type ResultExportEntry } from '@shared/fhirResultExport';
 import { useTheme } from "@/contexts/ThemeContext";
+import { useLocation, useRoute, useSearch } from "wouter";
+import { useCurrentPatient } from "@/contexts/PatientContext";
+import { useSecureState, useSecureStore } from "@/contexts/SecureStoreContext";
+import { patientFieldForInput, patientValueForInput } from "@/lib/patientFields";
 import { useKeyboardOffset } from "@/hooks/useKeyboardOffset";
 import { cn } from "@/lib/utils";
 import { scoreCalculator, cmdkFuzzyFilter } from "@/lib/fuzzySearch";
@@ -79,7 +92,7 @@ import {
 import { CSS } from '@dnd-kit/utilities';
 import { EGFRComparison } from "@/components/EGFRComparison";
 import { PEPathway } from "@/components/PEPathway";
-import { getResultColorCoding } from "@/lib/resultColorCoding";
+import { getResultColorCoding } from "@shared/engine/resultColorCoding";
 import { UnitConversionTooltip, hasUnitConversion } from "@/components/UnitConversionTooltip";
 import { isBinaryYesNoInput, getYesNoLabel, getYesNoValue, isYesValue } from "@/lib/inputHelpers";
 import ConversionReferenceCard from "@/components/ConversionReferenceCard";
@@ -89,6 +102,27 @@ import { RTADifferentialCard, GNSerologicWorkupCard, DialysisIndicationsCard, Tr
 import { HyponatremiaWizard } from "@/components/HyponatremiaWizard";
 import { PatientScratchpad } from "@/components/PatientScratchpad";
 import { DryWeightTracker } from "@/components/DryWeightTracker";
+import { Hl7ImportDialog } from "@/components/Hl7ImportDialog";
+import { PatientContextBar, formatPatientTime } from "@/components/PatientContextBar";
+import { PatientCensus } from "@/components/PatientCensus";
+import { SecureStoreMenu, SecureStorePinForm } from "@/components/SecureStoreControls";
+import { SettingsBackupDialog } from "@/components/SettingsBackupDialog";
+import { CalculationHistoryDialog } from "@/components/CalculationHistoryDialog";
+import { AuditLogDialog } from "@/components/AuditLogDialog";
+import { appendAuditEntry, createAuditEntry } from "@/lib/auditLog";
+import { CALCULATOR_ROUTE, calculatorPath, parseCalculatorQuery, type CalculatorLinkParams } from "@/lib/calculatorLinks";
+import { decodeShareFragment, isShareFragment } from "@/lib/shareLink";
+import { ShareCalculationDialog } from "@/components/ShareCalculationDialog";
+import { toast } from "sonner";
+import {
+  createHistoryEntry,
+  hasSnapshot,
+  priorFormulaVersion,
+  recalculate,
+  HISTORY_STORAGE_KEY,
+  MAX_CALCULATION_HISTORY,
+  type CalculationHistoryEntry,
+} from "@/lib/calculationHistory";
 
 interface CalculatorState {
   [key: string]: string | number | boolean;
@@ -99,6 +133,17 @@ interface UnitState {
   [inputId: string]: string;
 }
 
+// Save a FHIR resource as a .json file for the EHR interface engine
+function downloadFhirJson(filename: string, resource: unknown) {
+  const blob = new Blob([JSON.stringify(resource, null, 2)], { type: "application/fhir+json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
 // Category color classes for sidebar accordion titles
 const categoryColors: { [key: string]: string } = {
   "Kidney Function & CKD Risk": "text-blue-600 dark:text-blue-400",
@@ -150,102 +195,9 @@ const categoryDescriptions: { [key: string]: string } = {
   "Drug Dosing & Toxicity": "Renal dosing calculators for commonly used nephrotoxic drugs, including vancomycin AUC-guided monitoring and steroid conversion.",
 };
 
-// Define which inputs support unit conversion and their options
-const unitOptions: { [inputId: string]: { conventional: string; si: string; conversionFactor: number } } = {
-  creatinine: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  preCreatinine: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  postCreatinine: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  baselineCreatinine: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  currentCreatinine: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  creatinine1: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  creatinine2: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  plasmaCr: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  urineCr: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  donorCreatinine: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  cr1: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  cr2: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  cr3: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  baselineCrTrajectory: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  bun: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.357 },
-  preBUN: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.357 },
-  postBUN: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.357 },
-  plasmaUrea: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.357 },
-  urineUrea: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.357 },
-  urineaNitrogen: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.357 },
-  glucose: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.0555 },
-  albumin: { conventional: "g/dL", si: "g/L", conversionFactor: 10 },
-  // UACR inputs
-  urineAlbumin: { conventional: "mg", si: "μg", conversionFactor: 1000 },
-  // UPCR inputs
-  urineProtein: { conventional: "mg", si: "g", conversionFactor: 0.001 },
-  calcium: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.25 },
-  calciumPTH: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.25 },
-  calciumPhos: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.25 },
-  measuredCa: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.25 },
-  phosphate: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.3229 },
-  totalCholesterol: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.0259 },
-  hdl: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.0259 },
-  hemoglobin: { conventional: "g/dL", si: "g/L", conversionFactor: 10 },
-  targetHemoglobin: { conventional: "g/dL", si: "g/L", conversionFactor: 10 },
-  currentHemoglobin: { conventional: "g/dL", si: "g/L", conversionFactor: 10 },
-  cystatinC: { conventional: "mg/L", si: "μmol/L", conversionFactor: 0.0749 },
-  acr: { conventional: "mg/g", si: "mg/mmol", conversionFactor: 0.113 },
-  // ACR from PCR calculator - PCR: 1 g/g = 113 mg/mmol (1000 mg/g ÷ 8.84 mmol/g creatinine)
-  pcr: { conventional: "g/g", si: "mg/mmol", conversionFactor: 113 },
-  // 24-Hour Protein Excretion Estimator inputs
-  // ratioValue: mg/mg is base unit, mg/g = mg/mg * 1000, mg/mmol = mg/mg * 113.12
-  ratioValue: { conventional: "mg/mg", si: "mg/mmol", conversionFactor: 113.12 },
-  proteinValue: { conventional: "mg/dL", si: "g/L", conversionFactor: 0.01 },
-  creatinineValue: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.0884 },
-  // Critical Care - SOFA inputs
-  bilirubin: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 17.1 },
-  // 24h Urine creatinine
-  urineCreatinine24h: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 88.4 },
-  // Height
-  height: { conventional: "cm", si: "in", conversionFactor: 0.3937 },
-  // Magnesium (1 mg/dL = 0.4114 mmol/L)
-  urineMagnesium: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.4114 },
-  plasmaMagnesium: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.4114 },
-  serumMagnesium: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.4114 },
-  serumMagnesiumRepletion: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.4114 },
-  serumMagnesiumQtc: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.4114 },
-  targetMagnesium: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.4114 },
-  // Uric acid (1 mg/dL = 59.48 μmol/L)
-  urineUricAcid: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 59.48 },
-  plasmaUricAcid: { conventional: "mg/dL", si: "μmol/L", conversionFactor: 59.48 },
-  // Phosphate (additional IDs — same factor as phosphate: 0.3229)
-  serumPhosphate: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.3229 },
-  urinePhosphate: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.3229 },
-  plasmaPhosphate: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.3229 },
-  phosphateLevel: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.3229 },
-  phosphatePTH: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.3229 },
-  // Urine glucose
-  urineGlucose: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.0555 },
-  // PTH: 1 pg/mL = 0.1061 pmol/L (intact PTH, MW ≈ 9425 Da)
-  pth: { conventional: "pg/mL", si: "pmol/L", conversionFactor: 0.1061 },
-  pthPhos: { conventional: "pg/mL", si: "pmol/L", conversionFactor: 0.1061 },
-  // Vitamin D: 1 ng/mL = 2.496 nmol/L
-  vitaminD: { conventional: "ng/mL", si: "nmol/L", conversionFactor: 2.496 },
-  // Additional calcium IDs
-  serumCalciumQtc: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.25 },
-  // LDL cholesterol (same as total cholesterol)
-  ldl: { conventional: "mg/dL", si: "mmol/L", conversionFactor: 0.0259 },
-};
-
 // Global unit preference key for localStorage
 const UNIT_PREF_KEY = 'nephrology-unit-preference';
 
-// BUN/Urea inputs that need 4-option toggle
-const bunUreaInputIds = ["bun", "preBUN", "postBUN", "plasmaUrea", "urineUrea", "urineaNitrogen", "bunValue", "bunDialysis"];
-
-// 4-option BUN/Urea toggle options
-const bunUreaOptions = [
-  { value: "BUN (mg/dL)", label: "BUN (mg/dL)", isBUN: true, unit: "mg/dL" },
-  { value: "BUN (mmol/L)", label: "BUN (mmol/L)", isBUN: true, unit: "mmol/L" },
-  { value: "Urea (mg/dL)", label: "Urea (mg/dL)", isBUN: false, unit: "mg/dL" },
-  { value: "Urea (mmol/L)", label: "Urea (mmol/L)", isBUN: false, unit: "mmol/L" },
-];
-
 // Collapsible section - collapsed by default on mobile, always open on desktop
 function MobileCollapsible({ title, icon, children }: { title: string; icon?: React.ReactNode; children: React.ReactNode }) {
   return (
@@ -361,33 +313,24 @@ export default function Dashboard() {
     const saved = localStorage.getItem(UNIT_PREF_KEY);
     return saved === "si" ? "si" : "conventional";
   });
-  const [result, setResult] = useState<number | { [key: string]: number } | null>(null);
+  const [result, setResult] = useState<CalculatorResult | null>(null);
   const [lastCalculatedEgfr, setLastCalculatedEgfr] = useState<number | null>(null);
   const [navigatedFromMehran, setNavigatedFromMehran] = useState<string | null>(null);
   const [savedMehranState, setSavedMehranState] = useState<CalculatorState | null>(null);
-  const [savedMehranResult, setSavedMehranResult] = useState<{
-    totalScore: number;
-    riskCategory: string;
-    cinRisk: number;
-    dialysisRisk: number;
-    breakdown: { factor: string; points: number; present: boolean }[];
-  } | null>(null);
+  const [savedMehranResult, setSavedMehranResult] = useState<CalculatorResult | null>(null);
   const [savedMehranUnitState, setSavedMehranUnitState] = useState<Record<string, string> | null>(null);
-  const [resultInterpretation, setResultInterpretation] = useState<string>("");
-  const [banffResult, setBanffResult] = useState<calc.BanffResult | null>(null);
-  const [kdpiResult, setKdpiResult] = useState<{ kdri: number; kdpi: number } | null>(null);
-  const [mehranResult, setMehranResult] = useState<{
-    totalScore: number;
-    riskCategory: string;
-    cinRisk: number;
-    dialysisRisk: number;
-    breakdown: { factor: string; points: number; present: boolean }[];
-  } | null>(null);
-  const [fraxResult, setFraxResult] = useState<{ majorFracture: number; hipFracture: number } | null>(null);
-  const [anticoagReversalResult, setAnticoagReversalResult] = useState<calc.AnticoagulantReversalResult | null>(null);
-  const [steroidConversionResult, setSteroidConversionResult] = useState<calc.SteroidConversionResult | null>(null);
-  const [plasmaExchangeResult, setPlasmaExchangeResult] = useState<calc.PlasmaExchangeResult | null>(null);
-  const [ekfcPatientCreatinine, setEkfcPatientCreatinine] = useState<number | null>(null);
+  // Results computed in this session, exported together as a FHIR DiagnosticReport (not persisted)
+  const [sessionResults, setSessionResults] = useState<ResultExportEntry[]>([]);
+  // Custom-display payloads carried on the structured result
+  const primaryValue = result?.primary?.value ?? null;
+  const banffResult = result?.kind === "banff" ? result.data : null;
+  const kdpiResult = result?.kind === "kdpi" ? result.data : null;
+  const mehranResult = result?.kind === "mehran" ? result.data : null;
+  const fraxResult = result?.kind === "frax" ? result.data : null;
+  const anticoagReversalResult = result?.kind === "anticoagReversal" ? result.data : null;
+  const steroidConversionResult = result?.kind === "steroidConversion" ? result.data : null;
+  const plasmaExchangeResult = result?.kind === "plasmaExchange" ? result.data : null;
+  const ekfcPatientCreatinine = result?.kind === "ekfc" ? result.data.patientCreatinine : null;
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
   const [viewingCategoryList, setViewingCategoryList] = useState<string | null>(null);
@@ -556,16 +499,15 @@ export default function Dashboard() {
     localStorage.setItem('nephrology-calculator-recent', JSON.stringify(recentCalculatorIds));
   }, [recentCalculatorIds]);
 
-  // Recent calculations history (last 5 with results)
-  const [recentCalculations, setRecentCalculations] = useState<{id: string; name: string; result: string; timestamp: number}[]>(() => {
-    try {
-      const saved = localStorage.getItem('nephrology-recent-calculations');
-      return saved ? JSON.parse(saved) : [];
-    } catch { return []; }
-  });
-  useEffect(() => {
-    localStorage.setItem('nephrology-recent-calculations', JSON.stringify(recentCalculations));
-  }, [recentCalculations]);
+  // Calculation history with input/result snapshots (home card shows the last 5); encrypted, so only kept while unlocked
+  const [recentCalculations, setRecentCalculations, historyLoaded] = useSecureState<CalculationHistoryEntry[]>(HISTORY_STORAGE_KEY, []);
+  // History entry currently reopened, with its recalculation against the current formulas
+  const [restoredCalculation, setRestoredCalculation] = useState<{
+    entry: CalculationHistoryEntry;
+    recalculated: ReturnType<typeof recalculate>;
+  } | null>(null);
+  // Superseded formula version chosen to reproduce a historical result; null for the current one
+  const [selectedFormulaVersion, setSelectedFormulaVersion] = useState<string | null>(null);
 
   // Scroll to panel when toggled on
   useEffect(() => {
@@ -688,40 +630,6 @@ export default function Dashboard() {
     });
   }, []);
 
-  // Helper function to get recommendation key based on calculator and result
-  const getRecommendationKey = (calculatorId: string, result: number): string | null => {
-    switch (calculatorId) {
-      case "ckd-epi-creatinine":
-        if (result >= 90) return "stage1";
-        if (result >= 60) return "stage2";
-        if (result >= 45) return "stage3a";
-        if (result >= 30) return "stage3b";
-        if (result >= 15) return "stage4";
-        return "stage5";
-      
-      case "kfre":
-        if (result < 10) return "low";
-        if (result < 40) return "moderate";
-        return "high";
-      
-      case "cin-mehran-score":
-      case "cin-mehran-original-score":
-        if (result < 8) return "low";
-        if (result < 16) return "moderate";
-        if (result < 26) return "high";
-        return "veryhigh";
-
-      case "ascvd-risk":
-        if (result < 5) return "low";
-        if (result < 7.5) return "borderline";
-        if (result < 20) return "intermediate";
-        return "high";
-      
-      default:
-        return null;
-    }
-  };
-
   // Get recent calculators (excluding favorites to avoid duplication)
   const recentCalculators = useMemo(() => 
     calculators.filter(c => recentCalculatorIds.includes(c.id) && !favorites.includes(c.id)),
@@ -746,6 +654,38 @@ export default function Dashboard() {
     [selectedCalculatorId]
   );
 
+  // Inputs bound to the current patient context, shown in the input's selected unit.
+  // Editing a bound input overrides it for this calculator until reverted.
+  const { patient, recordCalculation } = useCurrentPatient();
+  const { key: secureKey, status: secureStatus } = useSecureStore();
+  const [patientOverrides, setPatientOverrides] = useState<Set<string>>(() => new Set());
+  const patientBoundValues = useMemo(() => {
+    const bound: Record<string, string> = {};
+    if (!selectedCalculator || !patient) return bound;
+    for (const input of selectedCalculator.inputs) {
+      const field = patientFieldForInput(input.id);
+      const stored = field ? patient.fields[field.id] : undefined;
+      if (!stored || patientOverrides.has(input.id)) continue;
+      const value = patientValueForInput(input, stored.value, unitState, globalUnitPreference);
+      if (value !== null) bound[input.id] = value;
+    }
+    return bound;
+  }, [selectedCalculator, patient, patientOverrides, unitState, globalUnitPreference]);
+
+  const previousBoundRef = useRef<Record<string, string>>({});
+  useEffect(() => {
+    const previous = previousBoundRef.current;
+    previousBoundRef.current = patientBoundValues;
+    setCalculatorState((prev) => {
+      const next = { ...prev };
+      // A field removed from the context clears the value it filled
+      for (const [inputId, value] of Object.entries(previous)) {
+        if (!(inputId in patientBoundValues) && String(next[inputId] ?? "") === value) delete next[inputId];
+      }
+      return { ...next, ...patientBoundValues };
+    });
+  }, [patientBoundValues]);
+
   // Smart search: scores calculators by relevance with fuzzy fallback
   const filteredCalculators = useMemo(() => {
     const baseCalculators = onCallMode ? calculators.filter(c => onCallCalculators.includes(c.id)) : calculators;
@@ -783,2078 +723,101 @@ export default function Dashboard() {
       ...prev,
       [inputId]: value,
     }));
-  }, []);
+    if (inputId in patientBoundValues) {
+      setPatientOverrides((prev) => new Set(prev).add(inputId));
+    }
+  }, [patientBoundValues]);
 
-  const handleUnitChange = useCallback((inputId: string, unit: string) => {
+  const handleUnitChange = useCallback((input: CalculatorInput, unit: string) => {
     // Standard 2-option toggle (conventional/si) → update global preference for ALL inputs
-    if (unit === "conventional" || unit === "si") {
-      setGlobalUnitPreference(unit);
+    const selection = unitSelection(input, unit);
+    if (selection === "conventional" || selection === "si") {
+      setGlobalUnitPreference(selection);
       // Clear all per-input overrides so every input follows the global preference
       setUnitState({});
       return;
     }
 
-    // Special multi-option toggles (BUN 4-option, KFRE ACR 3-option) — store specific selection
-    // Link related inputs of the same measurement type so they toggle together
-    const allCreatinineIds = ["creatinine", "baselineCreatinine", "currentCreatinine", "creatinine1", "creatinine2", "preCreatinine", "postCreatinine", "plasmaCr", "urineCr", "urineCreatinine24h", "donorCreatinine", "cr1", "cr2", "cr3", "baselineCrTrajectory"];
-    const allPhosphateIds = ["phosphate", "serumPhosphate", "urinePhosphate", "plasmaPhosphate", "phosphateLevel", "phosphatePTH"];
-    const allMagnesiumIds = ["urineMagnesium", "plasmaMagnesium", "serumMagnesium", "serumMagnesiumRepletion", "serumMagnesiumQtc", "targetMagnesium"];
-    const allUricAcidIds = ["urineUricAcid", "plasmaUricAcid"];
-    const allCalciumIds = ["calcium", "calciumPTH", "calciumPhos", "measuredCa", "serumCalciumQtc"];
-    const allPTHIds = ["pth", "pthPhos"];
-    const allCholesterolIds = ["totalCholesterol", "hdl", "ldl"];
-    const creatinineGroups: Record<string, string[]> = {
-      ...Object.fromEntries(allCreatinineIds.map(id => [id, allCreatinineIds])),
-      ...Object.fromEntries(allPhosphateIds.map(id => [id, allPhosphateIds])),
-      ...Object.fromEntries(allMagnesiumIds.map(id => [id, allMagnesiumIds])),
-      ...Object.fromEntries(allUricAcidIds.map(id => [id, allUricAcidIds])),
-      ...Object.fromEntries(allCalciumIds.map(id => [id, allCalciumIds])),
-      ...Object.fromEntries(allPTHIds.map(id => [id, allPTHIds])),
-      ...Object.fromEntries(allCholesterolIds.map(id => [id, allCholesterolIds])),
-    };
-    const linked = creatinineGroups[inputId];
-    if (linked) {
-      setUnitState((prev) => {
-        const next = { ...prev };
-        for (const id of linked) next[id] = unit;
-        return next;
-      });
-    } else {
-      setUnitState((prev) => ({ ...prev, [inputId]: unit }));
-    }
-  }, []);
-
-  // Get the current unit for an input (follows global unit preference)
-  const getInputUnit = useCallback((inputId: string): string => {
-    if (unitOptions[inputId]) {
-      return unitState[inputId] || globalUnitPreference;
-    }
-    return "conventional";
-  }, [unitState, globalUnitPreference]);
+    // Multi-option toggles (BUN/Urea, ratios) — store the specific unit, and switch
+    // inputs of the same unit type together (e.g. pre- and post-dialysis BUN)
+    const linked = selectedCalculator?.inputs.filter((other) => other.unitType === input.unitType) ?? [input];
+    setUnitState((prev) => {
+      const next = { ...prev };
+      for (const other of linked) next[unitKey(other)] = selection;
+      return next;
+    });
+  }, [selectedCalculator]);
 
   // Get the display unit label for an input
-  const getUnitLabel = useCallback((input: { id: string; unit?: string }): string => {
-    // Handle BUN/Urea 4-option toggle — extract unit from the stored option string
-    if (bunUreaInputIds.includes(input.id)) {
-      const bunUreaUnit = unitState[input.id] || (globalUnitPreference === "si" ? "BUN (mmol/L)" : "BUN (mg/dL)");
-      // Extract the parenthesized unit and prepend BUN/Urea label
-      const match = bunUreaUnit.match(/^(BUN|Urea)\s*\((.+)\)$/);
-      if (match) return `${match[2]} (${match[1]})`;
-      return bunUreaUnit;
-    }
-    const options = unitOptions[input.id];
-    if (options) {
-      const currentUnit = getInputUnit(input.id);
-      return currentUnit === "si" ? options.si : options.conventional;
-    }
-    return input.unit || "";
-  }, [getInputUnit, unitState, globalUnitPreference]);
+  const getUnitLabel = useCallback((input: CalculatorInput): string => {
+    return unitLabel(selectedUnit(input, unitState, globalUnitPreference));
+  }, [unitState, globalUnitPreference]);
 
-  // Get dynamic placeholder based on unit selection
+  // Placeholder converted from the input's declared unit into the selected one
   const getDynamicPlaceholder = useCallback((input: CalculatorInput): string => {
-    // Handle ACR multi-unit placeholders for KFRE calculator
-    if (selectedCalculatorId === "kfre" && input.id === "acr") {
-      const currentAcrUnit = unitState.acr || "mg/mmol";
-      // Typical moderately elevated ACR values for each unit
-      // 300 mg/g = 33.9 mg/mmol = 0.3 mg/mg (A3 category)
-      switch (currentAcrUnit) {
-        case "mg/g":
-          return "300";
-        case "mg/mmol":
-          return "34";
-        case "mg/mg":
-          return "0.3";
-        default:
-          return "300";
-      }
-    }
-
-    // Handle UPCR multi-unit placeholders for Nephrotic Syndrome Assessment
-    if (selectedCalculatorId === "nephrotic-assessment" && input.id === "upcr") {
-      const currentUnit = unitState.upcr || "mg/mmol";
-      // Nephrotic-range ~5 g/g = 5000 mg/g = 565 mg/mmol
-      switch (currentUnit) {
-        case "mg/mmol":
-          return "565";
-        case "mg/g":
-          return "5000";
-        case "g/g":
-          return "5.0";
-        default:
-          return "565";
-      }
-    }
-
-    // Handle urine creatinine multi-unit placeholders for UACR calculator
-    if (selectedCalculatorId === "uacr" && input.id === "urineCreatinineUACR") {
-      const currentUnit = unitState.urineCreatinineUACR || "g";
-      switch (currentUnit) {
-        case "g":
-          return "1.0";
-        case "mg":
-          return "1000";
-        case "μmol":
-          return "8840";
-        default:
-          return "1.0";
-      }
-    }
-
-    // Handle urine creatinine multi-unit placeholders for UPCR calculator
-    if (selectedCalculatorId === "upcr" && input.id === "urineCreatinineUPCR") {
-      const currentUnit = unitState.urineCreatinineUPCR || "mg";
-      switch (currentUnit) {
-        case "mg":
-          return "100";
-        case "g":
-          return "0.1";
-        case "μmol":
-          return "884";
-        default:
-          return "100";
-      }
-    }
-
-    // Define typical clinical values for common inputs (conventional | SI)
-    // These represent typical or moderately abnormal values for clinical context
-    const typicalValues: { [inputId: string]: { conventional: string; si: string } } = {
-      // Creatinine: 1.2 mg/dL = 106 μmol/L (mildly elevated)
-      creatinine: { conventional: "1.2", si: "106" },
-      preCreatinine: { conventional: "1.2", si: "106" },
-      postCreatinine: { conventional: "0.8", si: "71" },
-      plasmaCr: { conventional: "1.0", si: "88" },
-      urineCr: { conventional: "100", si: "8840" },
-      donorCreatinine: { conventional: "0.9", si: "80" },
-      cr1: { conventional: "2.0", si: "177" },
-      cr2: { conventional: "3.5", si: "309" },
-      cr3: { conventional: "3.0", si: "265" },
-      baselineCrTrajectory: { conventional: "1.0", si: "88" },
-      // BUN: 20 mg/dL = 7.1 mmol/L (upper normal)
-      bun: { conventional: "20", si: "7.1" },
-      preBUN: { conventional: "60", si: "21" },
-      postBUN: { conventional: "20", si: "7.1" },
-      plasmaUrea: { conventional: "20", si: "7.1" },
-      urineUrea: { conventional: "500", si: "178" },
-      urineaNitrogen: { conventional: "12", si: "4.3" },
-      // Glucose: 100 mg/dL = 5.6 mmol/L (fasting normal)
-      glucose: { conventional: "100", si: "5.6" },
-      // Albumin: 4.0 g/dL = 40 g/L (normal)
-      albumin: { conventional: "4.0", si: "40" },
-      // Calcium: 9.5 mg/dL = 2.4 mmol/L (normal)
-      calcium: { conventional: "9.5", si: "2.4" },
-      calciumPTH: { conventional: "9.5", si: "2.4" },
-      calciumPhos: { conventional: "9.5", si: "2.4" },
-      measuredCa: { conventional: "9.5", si: "2.4" },
-      // Phosphate: 4.0 mg/dL = 1.3 mmol/L (normal)
-      phosphate: { conventional: "4.0", si: "1.3" },
-      // Cystatin C: 1.0 mg/L = 0.075 μmol/L (normal)
-      cystatinC: { conventional: "1.0", si: "0.08" },
-      // Hemoglobin: 12 g/dL = 120 g/L (lower normal)
-      hemoglobin: { conventional: "12", si: "120" },
-      targetHemoglobin: { conventional: "11", si: "110" },
-      currentHemoglobin: { conventional: "9", si: "90" },
-      // Cholesterol: 200 mg/dL = 5.2 mmol/L (borderline high)
-      totalCholesterol: { conventional: "200", si: "5.2" },
-      hdl: { conventional: "50", si: "1.3" },
-      // ACR: 30 mg/g = 3.4 mg/mmol (A2 category - moderately increased)
-      acr: { conventional: "30", si: "3.4" },
-      // PCR: 0.5 g/g = 56.5 mg/mmol (mild proteinuria)
-      pcr: { conventional: "0.5", si: "57" },
-      // Ratio value: 0.5 mg/mg = 56.6 mg/mmol (mild)
-      ratioValue: { conventional: "0.5", si: "57" },
-      // Additional creatinine inputs
-      baselineCreatinine: { conventional: "1.0", si: "88" },
-      currentCreatinine: { conventional: "2.5", si: "221" },
-      creatinine1: { conventional: "2.0", si: "177" },
-      creatinine2: { conventional: "3.0", si: "265" },
-      // UACR raw inputs
-      urineAlbumin: { conventional: "150", si: "150000" },
-      // UPCR raw inputs
-      urineProtein: { conventional: "500", si: "0.5" },
-      // 24h protein estimator raw inputs
-      proteinValue: { conventional: "50", si: "0.5" },
-      creatinineValue: { conventional: "100", si: "8.8" },
-      // Bilirubin: 1.0 mg/dL = 17.1 μmol/L
-      bilirubin: { conventional: "1.0", si: "17" },
-      // Urine Creatinine (24h): 80 mg/dL = 7072 μmol/L
-      urineCreatinine24h: { conventional: "80", si: "7072" },
-      // Height: 170 cm = 67 in
-      height: { conventional: "170", si: "67" },
-      // Magnesium: urine 4.0 mg/dL = 1.6 mmol/L, plasma 1.8 mg/dL = 0.74 mmol/L
-      urineMagnesium: { conventional: "4.0", si: "1.6" },
-      plasmaMagnesium: { conventional: "1.8", si: "0.74" },
-      serumMagnesiumRepletion: { conventional: "1.4", si: "0.58" },
-      // Uric acid: urine 20 mg/dL = 1190 μmol/L, plasma 4.5 mg/dL = 268 μmol/L
-      urineUricAcid: { conventional: "20", si: "1190" },
-      plasmaUricAcid: { conventional: "4.5", si: "268" },
-      // Phosphate (additional IDs): serum 1.8 = 0.58, urine 40 = 12.9, plasma 3.0 = 0.97
-      serumPhosphate: { conventional: "1.8", si: "0.58" },
-      urinePhosphate: { conventional: "40", si: "12.9" },
-      plasmaPhosphate: { conventional: "3.0", si: "0.97" },
-      phosphateLevel: { conventional: "5.5", si: "1.78" },
-      phosphatePTH: { conventional: "4.5", si: "1.45" },
-      // Urine glucose
-      urineGlucose: { conventional: "0", si: "0" },
-      // PTH: 300 pg/mL = 31.8 pmol/L (elevated, typical CKD 5D)
-      pth: { conventional: "300", si: "32" },
-      pthPhos: { conventional: "300", si: "32" },
-      // Vitamin D: 30 ng/mL = 74.9 nmol/L (sufficient threshold)
-      vitaminD: { conventional: "30", si: "75" },
-      // Additional calcium: 9.5 mg/dL = 2.4 mmol/L (normal)
-      serumCalciumQtc: { conventional: "9.5", si: "2.4" },
-      // LDL: 130 mg/dL = 3.4 mmol/L (borderline high)
-      ldl: { conventional: "130", si: "3.4" },
-      // Magnesium (QTc context and target)
-      serumMagnesium: { conventional: "1.8", si: "0.74" },
-      serumMagnesiumQtc: { conventional: "1.8", si: "0.74" },
-      targetMagnesium: { conventional: "2.0", si: "0.82" },
-    };
-    
-    const typicalValue = typicalValues[input.id];
-    if (typicalValue) {
-      const currentUnit = getInputUnit(input.id);
-      return currentUnit === "si" ? typicalValue.si : typicalValue.conventional;
-    }
-    
-    // Handle BUN/Urea 4-option toggle placeholders
-    if (bunUreaInputIds.includes(input.id)) {
-      const bunUreaUnit = unitState[input.id] || (globalUnitPreference === "si" ? "BUN (mmol/L)" : "BUN (mg/dL)");
-      // Typical pre-dialysis BUN: 60 mg/dL, post-dialysis: 20 mg/dL
-      const isPreBUN = input.id === "preBUN";
-      const baseBUN = isPreBUN ? 60 : 20; // mg/dL
-      switch (bunUreaUnit) {
-        case "BUN (mg/dL)":
-          return String(baseBUN);
-        case "BUN (mmol/L)":
-          return (baseBUN * 0.357).toFixed(1); // BUN mg/dL → BUN mmol/L
-        case "Urea (mg/dL)":
-          return (baseBUN * 2.14).toFixed(0); // BUN mg/dL → Urea mg/dL (× 60/28)
-        case "Urea (mmol/L)":
-          return (baseBUN * 0.357).toFixed(1); // BUN mg/dL → Urea mmol/L (same as BUN mmol/L at molar level)
-        default:
-          return String(baseBUN);
-      }
-    }
-    
-    // Fallback to original logic for other inputs
-    const options = unitOptions[input.id];
-    if (!options || !input.placeholder) return input.placeholder || "";
-    const currentUnit = getInputUnit(input.id);
-    const placeholderValue = parseFloat(input.placeholder);
-    if (isNaN(placeholderValue)) return input.placeholder;
-    if (currentUnit === "si") {
-      const siValue = placeholderValue * options.conversionFactor;
-      return siValue.toFixed(2);
-    }
-    return input.placeholder;
-  }, [getInputUnit, selectedCalculatorId, unitState]);
-
-  // Convert input value to conventional units for calculation
-  const normalizeValue = useCallback((inputId: string, value: number): number => {
-    const options = unitOptions[inputId];
-    if (options && getInputUnit(inputId) === "si") {
-      // Convert from SI to conventional
-      return value / options.conversionFactor;
-    }
-    return value;
-  }, [getInputUnit]);
+    const type = getUnitType(input);
+    const placeholderValue = parseFloat(input.placeholder ?? "");
+    if (!type || isNaN(placeholderValue)) return input.placeholder || "";
+    const from = type.units.includes(input.unit ?? "") ? input.unit! : type.canonical;
+    const to = selectedUnit(input, unitState, globalUnitPreference);
+    if (from === to) return input.placeholder!;
+    return String(Number(convertUnit(type.analyte, placeholderValue, from, to).toPrecision(2)));
+  }, [unitState, globalUnitPreference]);
 
   const handleCalculate = useCallback(() => {
     if (!selectedCalculator) return;
 
-    let calcResultDisplay = '';
+    let historyEntry: CalculationHistoryEntry | null = null;
+    setRestoredCalculation(null);
     try {
-      let calculationResult: number | { [key: string]: number } | undefined;
-
-      // Helper to get normalized value (always in conventional units)
-      const getValue = (id: string) => {
-        const raw = Number(calculatorState[id]) || 0;
-        return normalizeValue(id, raw);
-      };
-
-      // Helper to get BUN value in mg/dL from 4-option toggle
-      // Converts from BUN/Urea in different units to BUN in mg/dL
-      const getBunValue = (inputId: string) => {
-        const raw = Number(calculatorState[inputId]) || 0;
-        if (raw === undefined || raw === null || isNaN(raw)) return 0;
-        
-        const selectedUnit = unitState[`${inputId}_bunUrea`] || (globalUnitPreference === "si" ? "BUN (mmol/L)" : "BUN (mg/dL)");
-        
-        // Conversion factors (per acutecaretesting.org, wikipedia BUN):
-        // BUN (mg/dL) → BUN (mg/dL): 1
-        // BUN (mmol/L) → BUN (mg/dL): × 2.8
-        // Urea (mg/dL) → BUN (mg/dL): × 0.467 (= 28/60, i.e. ÷ 2.14)
-        // Urea (mmol/L) → BUN (mg/dL): × 2.8 (at molar level BUN = Urea, then × 2.8)
-
-        switch (selectedUnit) {
-          case "BUN (mg/dL)":
-            return raw;
-          case "BUN (mmol/L)":
-            return raw * 2.8; // BUN mmol/L → BUN mg/dL
-          case "Urea (mg/dL)":
-            return raw * 0.467; // Urea mg/dL → BUN mg/dL (28/60)
-          case "Urea (mmol/L)":
-            return raw * 2.8; // Urea mmol/L = BUN mmol/L (same at molar level) → × 2.8 for mg/dL
-          default:
-            return raw;
-        }
-      };
-
-      // Call appropriate calculator function based on ID
-      switch (selectedCalculator.id) {
-        case "ckd-epi-creatinine":
-          calculationResult = calc.ckdEpiCreatinine(
-            getValue("creatinine"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            calculatorState.race as "Black" | "Other",
-            "mg/dL"
-          );
-          break;
-
-        case "cockcroft-gault":
-          calculationResult = calc.cockcrofGault(
-            getValue("creatinine"),
-            Number(calculatorState.age) || 0,
-            Number(calculatorState.weight) || 0,
-            calculatorState.sex as "M" | "F",
-            "mg/dL"
-          );
-          break;
-
-        case "schwartz-pediatric":
-          calculationResult = calc.schwartzPediatric(
-            getValue("creatinine"),
-            getValue("height"),
-            "mg/dL"
-          );
-          break;
-
-        case "kinetic-egfr":
-          calculationResult = calc.kineticEgfr(
-            getValue("baselineCreatinine"),
-            getValue("creatinine1"),
-            getValue("creatinine2"),
-            Number(calculatorState.timeInterval) || 0,
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            calculatorState.isBlack === "yes"
-          );
-          break;
-
-        case "ckd-epi-cystatin-c":
-          calculationResult = calc.ckdEpiCystatinC(
-            getValue("creatinine"),
-            getValue("cystatinC"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            "mg/dL"
-          );
-          break;
-
-        case "egfr-slope":
-          calculationResult = calc.eGFRSlope(
-            Number(calculatorState.eGFRBaseline) || 0,
-            Number(calculatorState.eGFRFinal) || 0,
-            Number(calculatorState.timeYears) || 0
-          );
-          break;
-
-        case "kfre": {
-          // Read ACR value and unit directly (multi-unit toggle stores actual unit string)
-          const rawAcr = Number(calculatorState.acr) || 0;
-          const acrUnit = (unitState.acr || "mg/mmol") as "mg/g" | "mg/mmol" | "mg/mg";
-          calculationResult = calc.kfre(
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            Number(calculatorState.eGFR) || 0,
-            rawAcr,
-            acrUnit,
-            (Number(calculatorState.years) || 5) as 2 | 5
-          );
-          break;
-        }
-
-        case "lund-malmo-revised":
-          calculationResult = calc.lundMalmoRevised(
-            getValue("creatinine"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            "mg/dL"
-          );
-          break;
-
-        case "bis1-elderly":
-          calculationResult = calc.bis1Elderly(
-            getValue("creatinine"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            "mg/dL"
-          );
-          break;
-
-        case "fas-full-age-spectrum":
-          calculationResult = calc.fasFullAgeSpectrum(
-            getValue("creatinine"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            "mg/dL"
-          );
-          break;
-
-        case "fena": {
-          calculationResult = calc.fena(
-            Number(calculatorState.urineNa) || 0,
-            getValue("plasmaCr"),
-            Number(calculatorState.plasmaNa) || 0,
-            getValue("urineCr"),
-            "mg/dL"
-          );
-          const fenaVal = typeof calculationResult === "number" ? calculationResult : 0;
-          setResultInterpretation(selectedCalculator.interpretation(fenaVal, calculatorState));
-          break;
-        }
-
-        case "feurea":
-          calculationResult = calc.feurea(
-            getValue("urineUrea"),
-            getValue("plasmaCr"),
-            getValue("plasmaUrea"),
-            getValue("urineCr"),
-            "mg/dL"
-          );
-          break;
-
-        case "anion-gap":
-          calculationResult = calc.anionGap(
-            Number(calculatorState.sodium) || 0,
-            Number(calculatorState.chloride) || 0,
-            Number(calculatorState.bicarbonate) || 0
-          );
-          break;
-
-        case "delta-gap":
-          const deltaResult = calc.deltaGap(
-            Number(calculatorState.measuredAG) || 0,
-            Number(calculatorState.measuredHCO3) || 0,
-            Number(calculatorState.normalAG) || 0,
-            Number(calculatorState.normalHCO3) || 0
-          );
-          calculationResult = deltaResult.ratio;
-          break;
-
-        case "osmolal-gap":
-          // getValue already normalizes to conventional units (mg/dL)
-          // getBunValue handles BUN/Urea 4-option toggle conversion
-          calculationResult = calc.osmolalGap(
-            Number(calculatorState.measuredOsmolality) || 0,
-            Number(calculatorState.sodium) || 0,
-            getValue("glucose"),
-            getBunValue("bun"),
-            Number(calculatorState.ethanol) || 0,
-            "mg/dL",
-            "mg/dL"
-          );
-          break;
-
-        case "urine-anion-gap":
-          calculationResult = calc.urineAnionGap(
-            Number(calculatorState.urineNa) || 0,
-            Number(calculatorState.urineK) || 0,
-            Number(calculatorState.urineCl) || 0
-          );
-          break;
-
-        case "bun-creatinine-ratio":
-          // getBunValue handles BUN/Urea 4-option toggle conversion to BUN mg/dL
-          calculationResult = calc.bunCreatinineRatio(
-            getBunValue("bunValue"),
-            getValue("creatinine"),
-            getInputUnit("creatinine") as "mg/dL" | "μmol/L"
-          );
-          break;
-
-        case "ttkg":
-          calculationResult = calc.ttkg(
-            Number(calculatorState.urineK) || 0,
-            Number(calculatorState.plasmaK) || 0,
-            Number(calculatorState.urineOsm) || 0,
-            Number(calculatorState.plasmaOsm) || 0
-          );
-          break;
-
-        case "water-deficit-hypernatremia": {
-          const wdWt = Number(calculatorState.weight) || 0;
-          const wdTbw = wdWt * (calculatorState.sex === "F" ? 0.5 : 0.6);
-          calculationResult = calc.waterDeficitHypernatremia(
-            Number(calculatorState.currentNa) || 0,
-            Number(calculatorState.targetNa) || 0,
-            wdTbw
-          );
-          break;
-        }
-
-        case "corrected-sodium-hyperglycemia":
-          // getValue already normalizes to conventional units (mg/dL)
-          calculationResult = calc.correctedSodiumHyperglycemia(
-            Number(calculatorState.measuredNa) || 0,
-            getValue("glucose"),
-            "mg/dL"
-          );
-          break;
-
-        case "sodium-correction-rate": {
-          const wt = Number(calculatorState.weight) || 0;
-          const tbwFactor = calculatorState.sex === "F" ? 0.5 : 0.6;
-          const tbw = wt * tbwFactor;
-          calculationResult = calc.sodiumCorrectionRateHyponatremia(
-            Number(calculatorState.currentNa) || 0,
-            Number(calculatorState.targetNa) || 0,
-            parseInt(String(calculatorState.infusionNa)) || 0,
-            tbw,
-            Number(calculatorState.correctionHours) || 0
-          );
-          break;
-        }
-
-        case "sodium-deficit": {
-          const sdWt = Number(calculatorState.weight) || 0;
-          const sdTbw = sdWt * (calculatorState.sex === "F" ? 0.5 : 0.6);
-          calculationResult = calc.sodiumDeficitHyponatremia(
-            Number(calculatorState.currentNa) || 0,
-            Number(calculatorState.targetNa) || 0,
-            sdTbw
-          );
-          break;
-        }
-
-        case "corrected-calcium":
-          calculationResult = calc.correctedCalcium(
-            getValue("measuredCa"),
-            getValue("albumin"),
-            "g/dL"
-          );
-          break;
-
-        case "qtc-bazett": {
-          calculationResult = calc.qtcBazett(
-            Number(calculatorState.qtInterval) || 0,
-            Number(calculatorState.heartRate) || 0
-          );
-          const qtcVal = typeof calculationResult === "number" ? calculationResult : 0;
-          // Pass pre-converted electrolyte values for interpretation thresholds
-          const qtcInputs = {
-            ...calculatorState,
-            serumMagnesiumQtc: String(getValue("serumMagnesiumQtc")),
-            serumCalciumQtc: String(getValue("serumCalciumQtc")),
-          };
-          setResultInterpretation(selectedCalculator.interpretation(qtcVal, qtcInputs));
-          break;
-        }
-
-        case "uacr": {
-          const rawCreatUACR = Number(calculatorState.urineCreatinineUACR) || 0;
-          const creatUnitUACR = unitState.urineCreatinineUACR || "g";
-          // Normalize to grams
-          let creatInG: number;
-          if (creatUnitUACR === "mg") creatInG = rawCreatUACR / 1000;
-          else if (creatUnitUACR === "μmol") creatInG = rawCreatUACR * 113.12 / 1000000;
-          else creatInG = rawCreatUACR; // already in g
-          calculationResult = calc.uacr(
-            getValue("urineAlbumin"),
-            creatInG,
-            "mg",
-            "g"
-          );
-          break;
-        }
-
-        case "upcr": {
-          const rawCreatUPCR = Number(calculatorState.urineCreatinineUPCR) || 0;
-          const creatUnitUPCR = unitState.urineCreatinineUPCR || "mg";
-          // Normalize to mg
-          let creatInMg: number;
-          if (creatUnitUPCR === "g") creatInMg = rawCreatUPCR * 1000;
-          else if (creatUnitUPCR === "μmol") creatInMg = rawCreatUPCR * 113.12 / 1000;
-          else creatInMg = rawCreatUPCR; // already in mg
-          calculationResult = calc.upcr(
-            getValue("urineProtein"),
-            creatInMg,
-            "mg",
-            "mg"
-          );
-          break;
-        }
-
-        case "selectivity-index":
-          // Selectivity Index = (Urine IgG / Plasma IgG) / (Urine Albumin / Plasma Albumin)
-          const urineIgG = Number(calculatorState.urineIgG) || 0;
-          const plasmaIgG = Number(calculatorState.plasmaIgG) || 0;
-          const urineAlb = getValue("urineAlbumin");
-          const plasmaAlb = getValue("plasmaAlbumin");
-          calculationResult = Math.round(((urineIgG / plasmaIgG) / (urineAlb / plasmaAlb)) * 100) / 100;
-          break;
-
-        case "24h-protein":
-          calculationResult = calc.upcr(
-            Number(calculatorState.spotProtein) || 0,
-            Number(calculatorState.spotCreatinine) || 0
-          );
-          break;
-
-        case "igan-prediction":
-          calculationResult = calc.iganPredictionTool(
-            Number(calculatorState.age) || 0,
-            Number(calculatorState.eGFR) || 0,
-            Number(calculatorState.map) || 0,
-            Number(calculatorState.proteinuria) || 0,
-            parseInt(calculatorState.years as string) as 2 | 5 | 7
-          );
-          break;
-
-        case "acr-from-pcr":
-          calculationResult = calc.acrFromPcr(
-            getValue("pcr")
-          );
-          break;
-
-        case "24-hour-protein": {
-          const inputMode = (calculatorState.inputMode as string) || "ratio";
-          let ratioMgPerMg = 0;
-
-          if (inputMode === "ratio") {
-            // multiUnitOptions — getValue doesn't handle these, convert manually
-            const rawRatio = Number(calculatorState.ratioValue) || 0;
-            const ratioUnit = unitState.ratioValue || "mg/mmol";
-
-            if (ratioUnit === "mg/mg") {
-              ratioMgPerMg = rawRatio;
-            } else if (ratioUnit === "mg/g") {
-              ratioMgPerMg = rawRatio / 1000;
-            } else if (ratioUnit === "mg/mmol") {
-              ratioMgPerMg = rawRatio / 113.12;
-            } else if (ratioUnit === "mg/L") {
-              ratioMgPerMg = rawRatio;
-            }
-          } else {
-            // Raw mode — convert protein and creatinine to mg/dL then compute ratio
-            const rawProtein = Number(calculatorState.proteinValue) || 0;
-            const proteinUnit = unitState.proteinValue || "mg/dL";
-            let proteinMgdL = rawProtein;
-            if (proteinUnit === "g/L") {
-              proteinMgdL = rawProtein * 100; // g/L to mg/dL
-            } else if (proteinUnit === "mg/L") {
-              proteinMgdL = rawProtein / 10; // mg/L to mg/dL
-            }
-
-            const rawCreatinine = Number(calculatorState.creatinineValue) || 0;
-            const creatinineUnit = unitState.creatinineValue || "mg/dL";
-            let creatinineMgdL = rawCreatinine;
-            if (creatinineUnit === "mmol/L") {
-              creatinineMgdL = rawCreatinine * 11.312; // 1 mmol/L = 113.12 mg/L = 11.312 mg/dL
-            }
-
-            ratioMgPerMg = creatinineMgdL > 0 ? proteinMgdL / creatinineMgdL : 0;
-          }
-
-          // PCR/ACR in mg/mg ≈ estimated 24-hour protein/albumin excretion in g/day
-          calculationResult = ratioMgPerMg;
-          break;
-        }
-
-        case "ktv-hemodialysis":
-          // getBunValue handles BUN/Urea 4-option toggle conversion to BUN mg/dL
-          calculationResult = calc.ktv(
-            getBunValue("preBUN"),
-            getBunValue("postBUN"),
-            Number(calculatorState.postWeight) || 0,
-            Number(calculatorState.sessionTime) || 0,
-            Number(calculatorState.ultrafiltration) || 0,
-            "mg/dL" // Always mg/dL since getBunValue converts to BUN mg/dL
-          );
-          break;
-
-        case "hd-session-duration": {
-          const hdWt = Number(calculatorState.weight) || 0;
-          const hdTbw = hdWt * (calculatorState.sex === "F" ? 0.5 : 0.6);
-          calculationResult = calc.hemodialysisSessionDuration(
-            Number(calculatorState.targetKtV) || 0,
-            Number(calculatorState.dialyzerClearance) || 0,
-            hdTbw
-          );
-          break;
-        }
-
-        case "pd-weekly-ktv": {
-          const pdWt = Number(calculatorState.weight) || 0;
-          const pdTbw = pdWt * (calculatorState.sex === "F" ? 0.5 : 0.6);
-          calculationResult = calc.pdWeeklyKtv(
-            Number(calculatorState.dailyDialysateUrea) || 0,
-            Number(calculatorState.plasmaUrea) || 0,
-            Number(calculatorState.dialysateVolume) || 0,
-            pdTbw,
-            Number(calculatorState.residualKtv) || 0
-          );
-          break;
-        }
-
-        case "residual-rkf-ktv": {
-          const rkfWt = Number(calculatorState.weight) || 0;
-          const rkfTbw = rkfWt * (calculatorState.sex === "F" ? 0.5 : 0.6);
-          calculationResult = calc.residualKfKtv(
-            Number(calculatorState.ureaUrineClearance) || 0,
-            rkfTbw
-          );
-          break;
-        }
-
-        case "equilibrated-ktv":
-          calculationResult = calc.equilibratedKtv(
-            Number(calculatorState.spKtv) || 0,
-            Number(calculatorState.sessionTime) || 0
-          );
-          break;
-
-        case "standard-ktv":
-          calculationResult = calc.standardKtv(
-            Number(calculatorState.spKtv) || 0,
-            Number(calculatorState.sessionTime) || 4,
-            Number(calculatorState.sessionsPerWeek) || 3,
-            Number(calculatorState.residualKtv) || 0
-          );
-          break;
-
-        case "devine-ibw":
-          calculationResult = calc.devineIdealBodyWeight(
-            getValue("height"),
-            calculatorState.sex as "M" | "F",
-            "cm"
-          );
-          break;
-
-        case "kt-v-daugirdas":
-          // getBunValue handles BUN/Urea 4-option toggle conversion to BUN mg/dL
-          calculationResult = calc.ktv(
-            getBunValue("preBUN"),
-            getBunValue("postBUN"),
-            Number(calculatorState.postWeight) || 0,
-            Number(calculatorState.sessionTime) || 0,
-            Number(calculatorState.ultrafiltration) || 0,
-            "mg/dL"
-          );
-          break;
-
-        case "kt-v-peritoneal":
-          calculationResult = calc.pdWeeklyKtv(
-            Number(calculatorState.dialysateUrea) || 0,
-            getValue("plasmaUrea"),
-            Number(calculatorState.dialysateVolume) || 0,
-            Number(calculatorState.bodyWeight) || 0
-          );
-          break;
-
-        case "creatinine-clearance-pd":
-          // Simplified PD creatinine clearance calculation
-          const dialysateCr = getValue("dialysateCreatinine");
-          const plasmaCr = getValue("plasmaCreatinine");
-          const dialVol = Number(calculatorState.dialysateVolume) || 0;
-          const bodyWt = Number(calculatorState.bodyWeight) || 0;
-          calculationResult = Math.round((dialysateCr / plasmaCr) * (dialVol / bodyWt) * 100) / 100;
-          break;
-
-        case "total-body-water":
-          calculationResult = calc.totalBodyWaterWatson(
-            Number(calculatorState.weight) || 0,
-            getValue("height"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F"
-          );
-          break;
-
-        case "urr":
-          // getBunValue handles BUN/Urea 4-option toggle conversion to BUN mg/dL
-          calculationResult = calc.urrHemodialysis(
-            getBunValue("preBUN"),
-            getBunValue("postBUN"),
-            "mg/dL"
-          );
-          break;
-
-        case "iron-deficit": {
-          calculationResult = calc.ironDeficitGanzoni(
-            getValue("targetHemoglobin"),
-            getValue("currentHemoglobin"),
-            Number(calculatorState.weight) || 0,
-            calculatorState.sex as "M" | "F"
-          );
-          const ironVal = typeof calculationResult === "number" ? calculationResult : 0;
-          setResultInterpretation(selectedCalculator.interpretation(ironVal, calculatorState));
-          break;
-        }
-
-        case "kdpi": {
-          const kdpiCalcResult = calc.kdpi(
-            Number(calculatorState.donorAge) || 0,
-            Number(calculatorState.donorHeight) || 0,
-            Number(calculatorState.donorWeight) || 0,
-            getValue("donorCreatinine"),
-            (calculatorState.hypertensionDuration as "NO" | "0-5" | "6-10" | ">10") || "NO",
-            (calculatorState.diabetesDuration as "NO" | "0-5" | "6-10" | ">10") || "NO",
-            (calculatorState.causeOfDeath as "ANOXIA" | "CVA" | "HEAD_TRAUMA" | "CNS_TUMOR" | "OTHER") || "ANOXIA",
-            calculatorState.isDCD === "YES",
-            getInputUnit("donorCreatinine") === "SI" ? "μmol/L" : "mg/dL"
-          );
-          setKdpiResult(kdpiCalcResult);
-          setResult(kdpiCalcResult.kdpi);
-          // Generate interpretation based on KDPI value
-          let kdpiInterpretation = "";
-          if (kdpiCalcResult.kdpi <= 20) {
-            kdpiInterpretation = "Low risk donor kidney. Expected to have better long-term graft survival.";
-          } else if (kdpiCalcResult.kdpi <= 85) {
-            kdpiInterpretation = "Standard criteria donor kidney. Acceptable for most recipients.";
-          } else {
-            kdpiInterpretation = "High KDPI (≥85%). Consider for expanded criteria donor (ECD) allocation. May be suitable for older recipients or those with limited life expectancy.";
-          }
-          setResultInterpretation(kdpiInterpretation);
-          calcResultDisplay = kdpiCalcResult.kdpi.toFixed(0) + '%';
-          return;
-        }
-
-        case "epts":
-          calculationResult = calc.epts(
-            Number(calculatorState.recipientAge) || 0,
-            Boolean(calculatorState.recipientDiabetes),
-            Boolean(calculatorState.priorTransplant),
-            Number(calculatorState.yearsOnDialysis) || 0
-          );
-          break;
-
-        case "ascvd-risk":
-          calculationResult = calc.ascvdRisk(
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            getValue("totalCholesterol"),
-            getValue("hdl"),
-            Number(calculatorState.systolicBP) || 0,
-            Boolean(calculatorState.treated),
-            Boolean(calculatorState.diabetes),
-            Boolean(calculatorState.smoker),
-            calculatorState.race as "Black" | "White"
-          );
-          break;
-
-        case "cha2ds2-vasc": {
-          const cha2Result = calc.cha2ds2vasc(
-            calculatorState.chf === "1",
-            calculatorState.hypertension === "1",
-            Number(calculatorState.age) || 0,
-            calculatorState.diabetes === "1",
-            calculatorState.strokeTia === "1",
-            calculatorState.vascularDisease === "1",
-            calculatorState.sex as "M" | "F"
-          );
-          calculationResult = cha2Result.score;
-          // Store the full result for detailed display
-          setResultInterpretation(
-            `Score: ${cha2Result.score} | Annual Stroke Risk: ${cha2Result.annualStrokeRisk}\n\n${cha2Result.recommendation}`
-          );
-          break;
-        }
-
-        case "bmi":
-          calculationResult = calc.bmi(
-            Number(calculatorState.weight) || 0,
-            getValue("height"),
-            "cm"
-          );
-          break;
-
-        case "bsa-dubois":
-          calculationResult = calc.bsaDuBois(
-            Number(calculatorState.weight) || 0,
-            getValue("height"),
-            "cm"
-          );
-          break;
-
-        case "bsa-mosteller":
-          calculationResult = calc.bsaMosteller(
-            Number(calculatorState.weight) || 0,
-            getValue("height"),
-            "cm"
-          );
-          break;
-
-        case "ideal-body-weight":
-          calculationResult = calc.devineIdealBodyWeight(
-            getValue("height"),
-            calculatorState.sex as "M" | "F",
-            "cm"
-          );
-          break;
-
-        case "lean-body-weight":
-          calculationResult = calc.leanBodyWeight(
-            Number(calculatorState.weight) || 0,
-            getValue("height"),
-            calculatorState.sex as "M" | "F",
-            "cm"
-          );
-          break;
-
-        case "adjusted-body-weight":
-          calculationResult = calc.adjustedBodyWeight(
-            Number(calculatorState.actualWeight) || 0,
-            Number(calculatorState.idealWeight) || 0
-          );
-          break;
-
-        case "ca-pho-product":
-          calculationResult = calc.caPhoProduct(
-            getValue("calcium"),
-            getValue("phosphate"),
-            "mg/dL",
-            "mg/dL"
-          );
-          break;
-
-        case "sledai-2k":
-          calculationResult = calc.sledai2k(
-            Boolean(calculatorState.seizures),
-            Boolean(calculatorState.psychosis),
-            Boolean(calculatorState.organicBrainSyndrome),
-            Boolean(calculatorState.visualDisorder),
-            Boolean(calculatorState.cranialNerveDisorder),
-            Boolean(calculatorState.lupusHeadache),
-            Boolean(calculatorState.cerebrovasitisAccident),
-            Boolean(calculatorState.vasculitis),
-            Boolean(calculatorState.arthritis),
-            Boolean(calculatorState.myositis),
-            Boolean(calculatorState.urinaryCasts),
-            Boolean(calculatorState.proteinuria),
-            Boolean(calculatorState.hematuria),
-            Boolean(calculatorState.pyuria),
-            Boolean(calculatorState.rash),
-            Boolean(calculatorState.alopecia),
-            Boolean(calculatorState.mucousalUlcers),
-            Boolean(calculatorState.pleuritis),
-            Boolean(calculatorState.pericarditis),
-            Boolean(calculatorState.lowComplement),
-            Boolean(calculatorState.elevatedDNA),
-            Boolean(calculatorState.fever),
-            Boolean(calculatorState.thrombocytopenia),
-            Boolean(calculatorState.leukopenia)
-          );
-          break;
-
-        case "frail-scale":
-          calculationResult = calc.frailScale(
-            Boolean(calculatorState.fatigue),
-            Boolean(calculatorState.resistance),
-            Boolean(calculatorState.ambulation),
-            Boolean(calculatorState.illness),
-            Boolean(calculatorState.lossOfWeight)
-          );
-          break;
-
-        case "prisma-7":
-          calculationResult = calc.prisma7(
-            Boolean(calculatorState.age85),
-            Boolean(calculatorState.male),
-            Boolean(calculatorState.healthLimitActivities),
-            Boolean(calculatorState.needHelp),
-            Boolean(calculatorState.healthStayHome),
-            Boolean(calculatorState.socialSupport),
-            Boolean(calculatorState.mobilityAid)
-          );
-          break;
-
-        case "curb-65":
-          // getBunValue handles BUN/Urea 4-option toggle conversion to BUN mg/dL
-          calculationResult = calc.curb65(
-            Boolean(calculatorState.confusion),
-            getBunValue("urineaNitrogen"),
-            Number(calculatorState.respiratoryRate) || 0,
-            Number(calculatorState.bloodPressureSystolic) || 0,
-            Number(calculatorState.bloodPressureDiastolic) || 0,
-            Number(calculatorState.age) || 0,
-            "mg/dL"
-          );
-          break;
-
-        case "roks":
-          calculationResult = calc.roks(
-            Number(calculatorState.age) || 0,
-            Number(calculatorState.bmi) || 0,
-            Boolean(calculatorState.maleGender),
-            Boolean(calculatorState.previousStone),
-            Boolean(calculatorState.familyHistory)
-          );
-          break;
-
-        case "slicc-2012":
-          calculationResult = calc.slicc2012(
-            Boolean(calculatorState.acuteRash),
-            Boolean(calculatorState.chronicRash),
-            Boolean(calculatorState.oralUlcers),
-            Boolean(calculatorState.alopecia),
-            Boolean(calculatorState.photosensitivity),
-            Boolean(calculatorState.arthritis),
-            Boolean(calculatorState.serositis),
-            Boolean(calculatorState.renal),
-            Boolean(calculatorState.psychosis),
-            Boolean(calculatorState.seizures),
-            Boolean(calculatorState.hemolytic),
-            Boolean(calculatorState.leukopenia),
-            Boolean(calculatorState.thrombocytopenia),
-            Boolean(calculatorState.ana),
-            Boolean(calculatorState.antiDsDna),
-            Boolean(calculatorState.antiSmRnp),
-            Boolean(calculatorState.antiRoSsa),
-            Boolean(calculatorState.antiLaSSb),
-            Boolean(calculatorState.antiC1q),
-            Boolean(calculatorState.directCoombs)
-          );
-          break;
-
-        case "das28-esr":
-          calculationResult = calc.das28esr(
-            Number(calculatorState.tenderJointCount) || 0,
-            Number(calculatorState.swollenJointCount) || 0,
-            Number(calculatorState.esr) || 0,
-            Number(calculatorState.patientGlobalVAS) || 0
-          );
-          break;
-
-        case "frax-simplified": {
-          const fraxCalcResult = calc.fraxSimplified(
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            Number(calculatorState.weight) || 0,
-            getValue("height"),
-            Boolean(calculatorState.previousFracture),
-            Boolean(calculatorState.parentHipFracture),
-            Boolean(calculatorState.currentSmoking),
-            Boolean(calculatorState.glucocorticoids),
-            Boolean(calculatorState.rheumatoidArthritis),
-            Boolean(calculatorState.secondaryOsteoporosis),
-            Boolean(calculatorState.alcoholIntake),
-            calculatorState.bmdTScore ? Number(calculatorState.bmdTScore) : undefined
-          );
-          setFraxResult(fraxCalcResult);
-          setResult(fraxCalcResult.majorFracture);
-          setResultInterpretation('');
-          calcResultDisplay = fraxCalcResult.majorFracture.toFixed(1) + '% major / ' + fraxCalcResult.hipFracture.toFixed(1) + '% hip';
-          return;
-        }
-
-        case "banff-classification":
-          console.log('Banff calculation starting...');
-          console.log('calculatorState:', JSON.stringify(calculatorState));
-          const banffScores: calc.BanffScores = {
-            glomeruli: parseFloat(calculatorState.glomeruli as string) || 10,
-            arteries: parseFloat(calculatorState.arteries as string) || 2,
-            i: parseFloat(calculatorState.i as string) || 0,
-            t: parseFloat(calculatorState.t as string) || 0,
-            v: parseFloat(calculatorState.v as string) || 0,
-            g: parseFloat(calculatorState.g as string) || 0,
-            ptc: parseFloat(calculatorState.ptc as string) || 0,
-            ci: parseFloat(calculatorState.ci as string) || 0,
-            ct: parseFloat(calculatorState.ct as string) || 0,
-            cv: parseFloat(calculatorState.cv as string) || 0,
-            cg: parseFloat(calculatorState.cg as string) || 0,
-            ti: parseFloat(calculatorState.ti as string) || 0,
-            iIfta: parseFloat(calculatorState.iIfta as string) || 0,
-            tIfta: parseFloat(calculatorState.tIfta as string) || 0,
-            ah: parseFloat(calculatorState.ah as string) || 0,
-            c4d: parseInt(calculatorState.c4d as string) || 0,
-            dsa: (calculatorState.dsa as string) || 'negative',
-            acuteTMA: (calculatorState.acuteTMA as string) === 'yes',
-            chronicTMA: (calculatorState.chronicTMA as string) === 'yes',
-            recurrentGN: (calculatorState.recurrentGN as string) === 'yes',
-            acuteTubularInjury: (calculatorState.acuteTubularInjury as string) === 'yes',
-            priorABMR: (calculatorState.priorABMR as string) === 'yes',
-            ptcBMML: (calculatorState.ptcBMML as string) === 'yes',
-          };
-          console.log('banffScores:', JSON.stringify(banffScores));
-          const banffResultData = calc.banffClassification(banffScores);
-          console.log('banffResultData:', JSON.stringify(banffResultData));
-          setBanffResult(banffResultData);
-          console.log('setBanffResult called');
-          setResult(null); // Banff uses custom display, not numeric result
-          setResultInterpretation('');
-          calcResultDisplay = banffResultData.diagnoses.filter(d => d.diagnosed).map(d => d.title).join(', ') || 'Normal';
-          return; // Skip the default interpretation handling
-
-
-        // Contrast-Induced Nephropathy Risk Calculator
-        case "cin-mehran-score": {
-          // Mehran 2 Score Model 1 (Pre-procedural) - Lancet 2021
-          const m2breakdown: { factor: string; points: number; present: boolean }[] = [];
-          let m2Score = 0;
-          
-          // 1. Clinical Presentation: 0/2/4/8 points
-          const presentation = calculatorState.presentation as string;
-          let presentationPoints = 0;
-          let presentationLabel = 'Asymptomatic / Stable Angina';
-          if (presentation === 'unstable') { presentationPoints = 2; presentationLabel = 'Unstable Angina'; }
-          else if (presentation === 'nstemi') { presentationPoints = 4; presentationLabel = 'NSTEMI'; }
-          else if (presentation === 'stemi') { presentationPoints = 8; presentationLabel = 'STEMI'; }
-          m2breakdown.push({ factor: `Clinical Presentation: ${presentationLabel}`, points: presentationPoints, present: presentationPoints > 0 });
-          m2Score += presentationPoints;
-          
-          // 2. eGFR: 0/1/4 points
-          const m2Egfr = Number(calculatorState.egfr) || 0;
-          let m2EgfrPoints = 0;
-          let m2EgfrLabel = '';
-          if (m2Egfr < 30) {
-            m2EgfrPoints = 4;
-            m2EgfrLabel = `eGFR <30 mL/min/1.73m² (${m2Egfr})`;
-          } else if (m2Egfr < 60) {
-            m2EgfrPoints = 1;
-            m2EgfrLabel = `eGFR 30-59 mL/min/1.73m² (${m2Egfr})`;
-          } else {
-            m2EgfrLabel = `eGFR ≥60 mL/min/1.73m² (${m2Egfr})`;
-          }
-          m2breakdown.push({ factor: m2EgfrLabel, points: m2EgfrPoints, present: m2EgfrPoints > 0 });
-          m2Score += m2EgfrPoints;
-          
-          // 3. LVEF: 0/2 points
-          const m2Lvef = Number(calculatorState.lvef) || 0;
-          const m2LvefPoints = m2Lvef < 40 ? 2 : 0;
-          m2breakdown.push({ factor: `LVEF ${m2Lvef < 40 ? '<40%' : '≥40%'} (${m2Lvef}%)`, points: m2LvefPoints, present: m2LvefPoints > 0 });
-          m2Score += m2LvefPoints;
-          
-          // 4. Diabetes: 0/1/2 points
-          const m2DiabetesType = calculatorState.diabetesType as string;
-          let m2DiabetesPoints = 0;
-          let m2DiabetesLabel = 'No Diabetes';
-          if (m2DiabetesType === 'noninsulin') { m2DiabetesPoints = 1; m2DiabetesLabel = 'Non-Insulin-Treated Diabetes'; }
-          else if (m2DiabetesType === 'insulin') { m2DiabetesPoints = 2; m2DiabetesLabel = 'Insulin-Treated Diabetes'; }
-          m2breakdown.push({ factor: `Diabetes: ${m2DiabetesLabel}`, points: m2DiabetesPoints, present: m2DiabetesPoints > 0 });
-          m2Score += m2DiabetesPoints;
-          
-          // 5. Hemoglobin: 0/1 points (getValue normalizes to g/dL)
-          const m2Hb = getValue("hemoglobin");
-          const m2HbPoints = m2Hb < 11 ? 1 : 0;
-          m2breakdown.push({ factor: `Hemoglobin ${m2Hb < 11 ? '<11' : '≥11'} g/dL (${m2Hb.toFixed(1)})`, points: m2HbPoints, present: m2HbPoints > 0 });
-          m2Score += m2HbPoints;
-          
-          // 6. Basal Glucose: 0/1 points (getValue normalizes to mg/dL)
-          const m2Glucose = getValue("glucose");
-          const m2GlucosePoints = m2Glucose >= 150 ? 1 : 0;
-          m2breakdown.push({ factor: `Basal Glucose ${m2Glucose >= 150 ? '≥150' : '<150'} mg/dL (${Math.round(m2Glucose)})`, points: m2GlucosePoints, present: m2GlucosePoints > 0 });
-          m2Score += m2GlucosePoints;
-          
-          // 7. CHF on presentation: 0/1 points
-          const m2Chf = calculatorState.chf === '1' || calculatorState.chf === true;
-          m2breakdown.push({ factor: 'Congestive Heart Failure on Presentation', points: 1, present: m2Chf });
-          if (m2Chf) m2Score += 1;
-          
-          // 8. Age >75: 0/1 points
-          const m2AgeOver75 = calculatorState.ageOver75 === '1' || calculatorState.ageOver75 === true;
-          m2breakdown.push({ factor: 'Age >75 years', points: 1, present: m2AgeOver75 });
-          if (m2AgeOver75) m2Score += 1;
-          
-          // Determine risk category and CA-AKI risk
-          let m2RiskCategory = '';
-          let m2CakiRisk = 0;
-          if (m2Score <= 4) {
-            m2RiskCategory = 'Low Risk';
-            m2CakiRisk = 2.3;
-          } else if (m2Score <= 8) {
-            m2RiskCategory = 'Moderate Risk';
-            m2CakiRisk = 8.3;
-          } else if (m2Score <= 11) {
-            m2RiskCategory = 'High Risk';
-            m2CakiRisk = 16.5;
-          } else {
-            m2RiskCategory = 'Very High Risk';
-            m2CakiRisk = 34.9;
-          }
-          
-          setMehranResult({
-            totalScore: m2Score,
-            riskCategory: m2RiskCategory,
-            cinRisk: m2CakiRisk,
-            dialysisRisk: 0,
-            breakdown: m2breakdown
-          });
-          setResult(m2Score);
-          setResultInterpretation('');
-          calcResultDisplay = m2Score + ' pts - ' + m2RiskCategory;
-          return;
-        }
-
-        // Original Mehran Score (2004)
-        case "cin-mehran-original-score": {
-          const origBreakdown: { factor: string; points: number; present: boolean }[] = [];
-          let origMehranScore = 0;
-          
-          // Hypotension: 5 points
-          const origHasHypotension = calculatorState.hypotension === "on";
-          origBreakdown.push({ factor: 'Hypotension (SBP <80 mmHg for ≥1 hr requiring inotropes)', points: 5, present: origHasHypotension });
-          if (origHasHypotension) origMehranScore += 5;
-
-          // IABP: 5 points
-          const origHasIABP = calculatorState.iabp === "on";
-          origBreakdown.push({ factor: 'Intra-aortic balloon pump (IABP)', points: 5, present: origHasIABP });
-          if (origHasIABP) origMehranScore += 5;
-
-          // CHF: 5 points
-          const origHasCHF = calculatorState.chf === "on";
-          origBreakdown.push({ factor: 'Congestive heart failure (NYHA III-IV or pulmonary edema)', points: 5, present: origHasCHF });
-          if (origHasCHF) origMehranScore += 5;
-
-          // Age >75: 4 points
-          const origHasAge = calculatorState.ageOver75 === "on";
-          origBreakdown.push({ factor: 'Age >75 years', points: 4, present: origHasAge });
-          if (origHasAge) origMehranScore += 4;
-
-          // Anemia: 3 points
-          const origHasAnemia = calculatorState.anemia === "on";
-          origBreakdown.push({ factor: 'Anemia (Hct <39% for men, <36% for women)', points: 3, present: origHasAnemia });
-          if (origHasAnemia) origMehranScore += 3;
-
-          // Diabetes: 3 points
-          const origHasDiabetes = calculatorState.diabetes === "on";
-          origBreakdown.push({ factor: 'Diabetes mellitus', points: 3, present: origHasDiabetes });
-          if (origHasDiabetes) origMehranScore += 3;
-          
-          // Contrast volume: 1 point per 100cc
-          const origContrastVol = Number(calculatorState.contrastVolume) || 0;
-          const origContrastPoints = Math.floor(origContrastVol / 100);
-          origBreakdown.push({ factor: `Contrast volume (${origContrastVol} mL = ${origContrastPoints} pts)`, points: origContrastPoints, present: origContrastPoints > 0 });
-          origMehranScore += origContrastPoints;
-          
-          // eGFR points: 2 points if 40-60, 4 points if 20-40, 6 points if <20
-          const origCreatinine = getValue("creatinine") || 1.0;
-          const origCinEgfr = Number(calculatorState.egfr) || 60;
-          let origEgfrPoints = 0;
-          let origEgfrLabel = '';
-          if (origCinEgfr < 20) {
-            origEgfrPoints = 6;
-            origEgfrLabel = `eGFR <20 mL/min (${origCinEgfr})`;
-          } else if (origCinEgfr < 40) {
-            origEgfrPoints = 4;
-            origEgfrLabel = `eGFR 20-39 mL/min (${origCinEgfr})`;
-          } else if (origCinEgfr < 60) {
-            origEgfrPoints = 2;
-            origEgfrLabel = `eGFR 40-59 mL/min (${origCinEgfr})`;
-          } else {
-            origEgfrLabel = `eGFR ≥60 mL/min (${origCinEgfr})`;
-          }
-          origBreakdown.push({ factor: origEgfrLabel, points: origEgfrPoints, present: origEgfrPoints > 0 });
-          origMehranScore += origEgfrPoints;
-          
-          // SCr >1.5: 4 points (only if eGFR not provided)
-          if (!calculatorState.egfr && origCreatinine > 1.5) {
-            origBreakdown.push({ factor: `Serum Creatinine >1.5 mg/dL (${origCreatinine.toFixed(1)})`, points: 4, present: true });
-            origMehranScore += 4;
-          }
-          
-          // Determine risk category
-          let origRiskCategory = '';
-          let origCinRisk = 0;
-          let origDialysisRisk = 0;
-          if (origMehranScore <= 5) {
-            origRiskCategory = 'Low Risk';
-            origCinRisk = 7.5;
-            origDialysisRisk = 0.04;
-          } else if (origMehranScore <= 10) {
-            origRiskCategory = 'Moderate Risk';
-            origCinRisk = 14.0;
-            origDialysisRisk = 0.12;
-          } else if (origMehranScore <= 15) {
-            origRiskCategory = 'High Risk';
-            origCinRisk = 26.1;
-            origDialysisRisk = 1.09;
-          } else {
-            origRiskCategory = 'Very High Risk';
-            origCinRisk = 57.3;
-            origDialysisRisk = 12.6;
-          }
-          
-          setMehranResult({
-            totalScore: origMehranScore,
-            riskCategory: origRiskCategory,
-            cinRisk: origCinRisk,
-            dialysisRisk: origDialysisRisk,
-            breakdown: origBreakdown
-          });
-          setResult(origMehranScore);
-          setResultInterpretation('');
-          calcResultDisplay = origMehranScore + ' pts - ' + origRiskCategory;
-          return;
-        }
-
-        // ============================================================================
-        // CRITICAL CARE CALCULATORS
-        // ============================================================================
-        case "qsofa": {
-          const qsofaResult = calc.qsofa(
-            Number(calculatorState.respiratoryRate) || 0,
-            Number(calculatorState.systolicBP) || 0,
-            Number(calculatorState.gcs) || 0
-          );
-          calculationResult = qsofaResult.score;
-          setResultInterpretation(
-            `${qsofaResult.interpretation}\n\nCriteria:\n${qsofaResult.criteria.join('\n')}`
-          );
-          break;
-        }
-
-        case "news2": {
-          const news2Result = calc.news2(
-            Number(calculatorState.respiratoryRate) || 0,
-            Number(calculatorState.spo2) || 0,
-            calculatorState.supplementalO2 === 'yes',
-            Number(calculatorState.systolicBP) || 0,
-            Number(calculatorState.heartRate) || 0,
-            Number(calculatorState.temperature) || 0,
-            calculatorState.consciousness as 'A' | 'C' | 'V' | 'P' | 'U'
-          );
-          calculationResult = news2Result.score;
-          setResultInterpretation(
-            `${news2Result.interpretation}\n\nBreakdown:\n${news2Result.breakdown.join('\n')}`
-          );
-          break;
-        }
-
-        case "sofa": {
-          const sofaResult = calc.sofa(
-            Number(calculatorState.pao2) || 0,
-            Number(calculatorState.fio2) || 21,
-            Number(calculatorState.platelets) || 0,
-            getValue("bilirubin"),
-            'mg/dL',
-            Number(calculatorState.map) || 0,
-            calculatorState.vasopressor as 'none' | 'dopa_low' | 'dopa_mid' | 'dopa_high',
-            Number(calculatorState.gcs) || 0,
-            getValue("creatinine"),
-            'mg/dL',
-            Number(calculatorState.urineOutput) || 0
-          );
-          calculationResult = sofaResult.score;
-          setResultInterpretation(
-            `${sofaResult.interpretation}\n\nOrgan Scores:\n` +
-            `• Respiratory: ${sofaResult.organScores.respiratory}\n` +
-            `• Coagulation: ${sofaResult.organScores.coagulation}\n` +
-            `• Liver: ${sofaResult.organScores.liver}\n` +
-            `• Cardiovascular: ${sofaResult.organScores.cardiovascular}\n` +
-            `• CNS: ${sofaResult.organScores.cns}\n` +
-            `• Renal: ${sofaResult.organScores.renal}`
-          );
-          break;
-        }
-
-        case "wells-pe": {
-          const wellsPeResult = calc.wellsPE(
-            calculatorState.dvtSigns === 'yes',
-            calculatorState.peTopDiagnosis === 'yes',
-            calculatorState.heartRateOver100 === 'yes',
-            calculatorState.immobilization === 'yes',
-            calculatorState.previousPeDvt === 'yes',
-            calculatorState.hemoptysis === 'yes',
-            calculatorState.malignancy === 'yes'
-          );
-          calculationResult = wellsPeResult.score;
-          setResultInterpretation(
-            `${wellsPeResult.interpretation} (${wellsPeResult.simplified})\n\nCriteria:\n${wellsPeResult.criteria.join('\n')}`
-          );
-          break;
-        }
-
-        case "wells-dvt": {
-          const wellsDvtResult = calc.wellsDVT(
-            calculatorState.activeCancer === 'yes',
-            calculatorState.paralysis === 'yes',
-            calculatorState.bedridden === 'yes',
-            calculatorState.localizedTenderness === 'yes',
-            calculatorState.entireLegSwollen === 'yes',
-            calculatorState.calfSwelling === 'yes',
-            calculatorState.pittingEdema === 'yes',
-            calculatorState.collateralVeins === 'yes',
-            calculatorState.previousDvt === 'yes',
-            calculatorState.alternativeDiagnosis === 'yes'
-          );
-          calculationResult = wellsDvtResult.score;
-          setResultInterpretation(
-            `${wellsDvtResult.interpretation}\n\nCriteria:\n${wellsDvtResult.criteria.join('\n')}`
-          );
-          break;
-        }
-
-        case "gcs": {
-          const gcsResult = calc.glasgowComaScale(
-            parseInt(String(calculatorState.eyeOpening)) || 4,
-            parseInt(String(calculatorState.verbalResponse)) || 5,
-            parseInt(String(calculatorState.motorResponse)) || 6
-          );
-          calculationResult = gcsResult.score;
-          setResultInterpretation(
-            `${gcsResult.severity}\n\nComponents: E${gcsResult.components.eye}V${gcsResult.components.verbal}M${gcsResult.components.motor}`
-          );
-          break;
-        }
-
-        case "pesi": {
-          const pesiResult = calc.pesiScore(
-            parseFloat(String(calculatorState.age)) || 65,
-            calculatorState.sex === 'male',
-            calculatorState.cancer === 'yes',
-            calculatorState.heartFailure === 'yes',
-            calculatorState.chronicLungDisease === 'yes',
-            calculatorState.pulse === 'yes',
-            calculatorState.systolicBPLow === 'yes',
-            calculatorState.respiratoryRateHigh === 'yes',
-            calculatorState.tempLow === 'yes',
-            calculatorState.alteredMentalStatus === 'yes',
-            calculatorState.spo2Low === 'yes'
-          );
-          calculationResult = pesiResult.score;
-          setResultInterpretation(
-            `${pesiResult.riskClass}\n30-day mortality: ${pesiResult.mortality}\n\nScoring:\n${pesiResult.criteria.join('\n')}`
-          );
-          break;
-        }
-
-        case "apache2": {
-          const apache2Result = calc.apacheIIScore(
-            parseFloat(String(calculatorState.age)) || 55,
-            parseFloat(String(calculatorState.temperature)) || 37,
-            parseFloat(String(calculatorState.map)) || 80,
-            parseFloat(String(calculatorState.heartRate)) || 85,
-            parseFloat(String(calculatorState.respiratoryRate)) || 18,
-            parseFloat(String(calculatorState.fio2)) || 21,
-            calculatorState.pao2 ? parseFloat(String(calculatorState.pao2)) : null,
-            calculatorState.aaGradient ? parseFloat(String(calculatorState.aaGradient)) : null,
-            parseFloat(String(calculatorState.arterialPH)) || 7.4,
-            parseFloat(String(calculatorState.sodium)) || 140,
-            parseFloat(String(calculatorState.potassium)) || 4.0,
-            getValue("creatinine") || 1.0,
-            calculatorState.acuteRenalFailure === 'yes',
-            parseFloat(String(calculatorState.hematocrit)) || 40,
-            parseFloat(String(calculatorState.wbc)) || 10,
-            parseFloat(String(calculatorState.gcs)) || 15,
-            (calculatorState.chronicHealth as 'none' | 'elective' | 'emergency') || 'none'
-          );
-          calculationResult = apache2Result.score;
-          setResultInterpretation(
-            `Predicted mortality: ${apache2Result.predictedMortality}\n\nComponents:\n• Acute Physiology Score: ${apache2Result.components.aps}\n• Age Points: ${apache2Result.components.age}\n• Chronic Health Points: ${apache2Result.components.chronic}`
-          );
-          break;
-        }
-
-        case "sirs": {
-          const sirsResult = calc.sirsScore(
-            String(calculatorState.temperature) || 'normal',
-            String(calculatorState.heartRate) || 'normal',
-            String(calculatorState.respiratoryRate) || 'normal',
-            String(calculatorState.wbc) || 'normal'
-          );
-          calculationResult = sirsResult.score;
-          const criteriaMet = [];
-          if (sirsResult.criteria.temp) criteriaMet.push('Temperature >38C or <36C');
-          if (sirsResult.criteria.hr) criteriaMet.push('Heart Rate >90 bpm');
-          if (sirsResult.criteria.rr) criteriaMet.push('RR >20 or PaCO2 <32');
-          if (sirsResult.criteria.wbc) criteriaMet.push('WBC >12k or <4k or >10% bands');
-          setResultInterpretation(
-            `Criteria Met (${sirsResult.score}/4):\n${criteriaMet.length > 0 ? criteriaMet.map(c => '\u2713 ' + c).join('\n') : 'None'}\n\n${sirsResult.score >= 2 ? 'SIRS POSITIVE - If infection suspected, consider sepsis.' : 'SIRS NEGATIVE - Does not rule out infection.'}`
-          );
-          break;
-        }
-
-        case "genevaRevised": {
-          const genevaResult = calc.genevaRevisedScore(
-            String(calculatorState.age) || 'no',
-            String(calculatorState.previousPeDvt) || 'no',
-            String(calculatorState.surgery) || 'no',
-            String(calculatorState.malignancy) || 'no',
-            String(calculatorState.unilateralPain) || 'no',
-            String(calculatorState.hemoptysis) || 'no',
-            String(calculatorState.heartRate) || 'normal',
-            String(calculatorState.legPainEdema) || 'no'
-          );
-          calculationResult = genevaResult.score;
-          const genevaComponents = [];
-          if (genevaResult.components.age > 0) genevaComponents.push(`Age >65: +${genevaResult.components.age}`);
-          if (genevaResult.components.previousPeDvt > 0) genevaComponents.push(`Previous PE/DVT: +${genevaResult.components.previousPeDvt}`);
-          if (genevaResult.components.surgery > 0) genevaComponents.push(`Surgery/fracture: +${genevaResult.components.surgery}`);
-          if (genevaResult.components.malignancy > 0) genevaComponents.push(`Malignancy: +${genevaResult.components.malignancy}`);
-          if (genevaResult.components.unilateralPain > 0) genevaComponents.push(`Unilateral leg pain: +${genevaResult.components.unilateralPain}`);
-          if (genevaResult.components.hemoptysis > 0) genevaComponents.push(`Hemoptysis: +${genevaResult.components.hemoptysis}`);
-          if (genevaResult.components.heartRate > 0) genevaComponents.push(`Heart rate: +${genevaResult.components.heartRate}`);
-          if (genevaResult.components.legPainEdema > 0) genevaComponents.push(`Leg pain/edema: +${genevaResult.components.legPainEdema}`);
-          let probability = 'LOW';
-          let prevalence = '~8%';
-          if (genevaResult.score >= 11) { probability = 'HIGH'; prevalence = '~74%'; }
-          else if (genevaResult.score >= 4) { probability = 'INTERMEDIATE'; prevalence = '~28%'; }
-          setResultInterpretation(
-            `${probability} PROBABILITY (PE prevalence ${prevalence})\n\nPoint Breakdown:\n${genevaComponents.length > 0 ? genevaComponents.join('\n') : 'No risk factors identified'}`
-          );
-          break;
-        }
-
-        case "hasbled": {
-          const hasbledResult = calc.hasbledScore(
-            String(calculatorState.hypertension) || 'no',
-            String(calculatorState.renalDisease) || 'no',
-            String(calculatorState.liverDisease) || 'no',
-            String(calculatorState.strokeHistory) || 'no',
-            String(calculatorState.priorBleeding) || 'no',
-            String(calculatorState.labileINR) || 'no',
-            String(calculatorState.age) || 'no',
-            String(calculatorState.medications) || 'no',
-            String(calculatorState.alcoholUse) || 'no'
-          );
-          calculationResult = hasbledResult.score;
-          const hasbledComponents = [];
-          if (hasbledResult.components.hypertension > 0) hasbledComponents.push('H - Hypertension: +1');
-          if (hasbledResult.components.renal > 0) hasbledComponents.push('A - Abnormal renal function: +1');
-          if (hasbledResult.components.liver > 0) hasbledComponents.push('A - Abnormal liver function: +1');
-          if (hasbledResult.components.stroke > 0) hasbledComponents.push('S - Stroke history: +1');
-          if (hasbledResult.components.bleeding > 0) hasbledComponents.push('B - Bleeding history: +1');
-          if (hasbledResult.components.labileINR > 0) hasbledComponents.push('L - Labile INR: +1');
-          if (hasbledResult.components.age > 0) hasbledComponents.push('E - Elderly (>65): +1');
-          if (hasbledResult.components.medications > 0) hasbledComponents.push('D - Drugs (antiplatelets/NSAIDs): +1');
-          if (hasbledResult.components.alcohol > 0) hasbledComponents.push('D - Drinking (alcohol): +1');
-          let riskLevel = 'LOW';
-          if (hasbledResult.score >= 4) riskLevel = 'VERY HIGH';
-          else if (hasbledResult.score === 3) riskLevel = 'HIGH';
-          else if (hasbledResult.score === 2) riskLevel = 'MODERATE';
-          setResultInterpretation(
-            `${riskLevel} BLEEDING RISK\nAnnual major bleeding risk: ${hasbledResult.annualBleedingRisk}\n\nComponents (HAS-BLED):\n${hasbledComponents.length > 0 ? hasbledComponents.join('\n') : 'No risk factors identified'}`
-          );
-          break;
-        }
-
-        case "perc": {
-          const percResult = calc.percRule(
-            String(calculatorState.age) || 'no',
-            String(calculatorState.heartRate) || 'no',
-            String(calculatorState.oxygenSaturation) || 'no',
-            String(calculatorState.unilateralLegSwelling) || 'no',
-            String(calculatorState.hemoptysis) || 'no',
-            String(calculatorState.recentSurgeryTrauma) || 'no',
-            String(calculatorState.priorPeDvt) || 'no',
-            String(calculatorState.hormoneUse) || 'no'
-          );
-          calculationResult = percResult.criteriaCount;
-          const percPositive = [];
-          const percNegative = [];
-          if (percResult.criteria.age) percPositive.push('Age \u226550 years');
-          else percNegative.push('Age <50 years');
-          if (percResult.criteria.heartRate) percPositive.push('HR \u2265100 bpm');
-          else percNegative.push('HR <100 bpm');
-          if (percResult.criteria.oxygenSaturation) percPositive.push('SpO\u2082 <95%');
-          else percNegative.push('SpO\u2082 \u226595%');
-          if (percResult.criteria.unilateralLegSwelling) percPositive.push('Unilateral leg swelling');
-          else percNegative.push('No leg swelling');
-          if (percResult.criteria.hemoptysis) percPositive.push('Hemoptysis');
-          else percNegative.push('No hemoptysis');
-          if (percResult.criteria.recentSurgeryTrauma) percPositive.push('Recent surgery/trauma');
-          else percNegative.push('No recent surgery');
-          if (percResult.criteria.priorPeDvt) percPositive.push('Prior PE/DVT');
-          else percNegative.push('No prior PE/DVT');
-          if (percResult.criteria.hormoneUse) percPositive.push('Hormone use');
-          else percNegative.push('No hormone use');
-          const percStatus = percResult.allNegative ? 'PERC NEGATIVE - PE Ruled Out' : 'PERC POSITIVE - Cannot Rule Out PE';
-          setResultInterpretation(
-            `${percStatus}\n\n${percResult.allNegative ? '\u2713 All 8 criteria negative. In LOW pretest probability patients, PE can be safely ruled out without D-dimer.' : '\u2717 ' + percResult.criteriaCount + ' criteria positive. Proceed with D-dimer or imaging.'}\n\nPositive Criteria:\n${percPositive.length > 0 ? percPositive.map(c => '\u2717 ' + c).join('\n') : 'None'}\n\nNegative Criteria:\n${percNegative.map(c => '\u2713 ' + c).join('\n')}`
-          );
-          break;
-        }
-
-        case "anticoagReversal": {
-          const reversalResult = calc.anticoagulationReversal(
-            String(calculatorState.anticoagulant) || 'warfarin',
-            String(calculatorState.indication) || 'major',
-            String(calculatorState.renalFunction) || 'normal',
-            String(calculatorState.bleedingSeverity) || 'major',
-            calculatorState.weight ? parseFloat(String(calculatorState.weight)) : undefined
-          );
-          calculationResult = 1; // Placeholder for display
-          setAnticoagReversalResult(reversalResult);
-          setResultInterpretation(`Reversal protocol generated for ${reversalResult.anticoagulant}. See detailed action plan below.`);
-          break;
-        }
-
-        case "steroid-conversion": {
-          const steroidResult = calc.steroidConversion(
-            String(calculatorState.fromSteroid) || 'prednisone',
-            parseFloat(String(calculatorState.dose)) || 0
-          );
-          setSteroidConversionResult(steroidResult);
-          calculationResult = steroidResult.fromDose;
-          setResultInterpretation(`Equivalent doses calculated for ${steroidResult.fromDose} mg of ${steroidResult.fromSteroid}. See conversion table below.`);
-          break;
-        }
-
-        case "plasma-exchange": {
-          const plexResult = calc.plasmaExchangeDosing(
-            parseFloat(String(calculatorState.weight)) || 70,
-            getValue("height") || 170,
-            parseFloat(String(calculatorState.hematocrit)) || 40,
-            (String(calculatorState.sex) || 'M') as 'M' | 'F',
-            parseFloat(String(calculatorState.exchangeVolumes)) || 1,
-            String(calculatorState.indication) || 'other'
-          );
-          setPlasmaExchangeResult(plexResult);
-          calculationResult = plexResult.totalPlasmaVolume;
-          setResultInterpretation(`Plasma volume: ${plexResult.totalPlasmaVolume} mL (${plexResult.plasmaVolumePerKg} mL/kg). Exchange volume: ${plexResult.exchangeVolume} mL. See detailed protocol below.`);
-          break;
-        }
-
-        // RESTORED CALCULATORS (18 previously missing)
-        case "albumin-corrected-ag": {
-          const agResult = calc.albuminCorrectedAnionGap(
-            Number(calculatorState.sodium) || 0,
-            Number(calculatorState.chloride) || 0,
-            Number(calculatorState.bicarbonate) || 0,
-            getValue("albumin")
-          );
-          calculationResult = agResult.correctedAG;
-          setResultInterpretation(
-            `Uncorrected AG: ${agResult.ag} mEq/L | Corrected AG: ${agResult.correctedAG} mEq/L. ` +
-            selectedCalculator.interpretation(agResult.correctedAG)
-          );
-          break;
-        }
-
-        case "bicarbonate-deficit":
-          calculationResult = calc.bicarbonateDeficit(
-            Number(calculatorState.weight) || 0,
-            Number(calculatorState.bicarbonate) || 0
-          );
-          break;
-
-        case "calculated-osmolality":
-          calculationResult = calc.calculatedOsmolality(
-            Number(calculatorState.sodium) || 0,
-            getValue("glucose"),
-            getBunValue("bun")
-          );
-          break;
-
-        case "creatinine-clearance-24h":
-          calculationResult = calc.creatinineClearance24h(
-            getValue("urineCreatinine24h"),
-            Number(calculatorState.urineVolume24h) || 0,
-            getValue("plasmaCr")
-          );
-          break;
-
-        case "ekfc-creatinine": {
-          const ekfcCr = getValue("creatinine");
-          calculationResult = calc.ekfcCreatinine(
-            ekfcCr,
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            "mg/dL"
-          );
-          setEkfcPatientCreatinine(ekfcCr);
-          break;
-        }
-
-        case "electrolyte-free-water-clearance":
-          calculationResult = calc.electrolyteFreeWaterClearance(
-            Number(calculatorState.urineOutput) || 0,
-            Number(calculatorState.urineNa) || 0,
-            Number(calculatorState.urineK) || 0,
-            Number(calculatorState.plasmaNa) || 0
-          );
-          break;
-
-        case "fe-magnesium":
-          calculationResult = calc.feMagnesium(
-            getValue("urineMagnesium"),
-            getValue("plasmaMagnesium"),
-            getValue("urineCr"),
-            getValue("plasmaCr")
-          );
-          break;
-
-        case "fe-uric-acid":
-          calculationResult = calc.feUricAcid(
-            getValue("urineUricAcid"),
-            getValue("plasmaUricAcid"),
-            getValue("urineCr"),
-            getValue("plasmaCr")
-          );
-          break;
-
-        case "free-water-clearance":
-          calculationResult = calc.freeWaterClearance(
-            Number(calculatorState.urineOutput) || 0,
-            Number(calculatorState.urineOsm) || 0,
-            Number(calculatorState.plasmaOsm) || 0
-          );
-          break;
-
-        case "henderson-hasselbalch":
-          calculationResult = calc.hendersonHasselbalch(
-            Number(calculatorState.bicarbonate) || 0,
-            Number(calculatorState.pCO2) || 0
-          );
-          break;
-
-        case "kdigo-aki-staging": {
-          calculationResult = calc.kdigoAkiStaging(
-            getValue("baselineCreatinine"),
-            getValue("currentCreatinine")
-          );
-          // Pass full inputs to interpretation for UO-based staging
-          const akiVal = typeof calculationResult === "number" ? calculationResult : 0;
-          setResultInterpretation(selectedCalculator.interpretation(akiVal, calculatorState));
-          break;
-        }
-
-        case "mdrd":
-          calculationResult = calc.mdrdGfr(
-            getValue("creatinine"),
-            Number(calculatorState.age) || 0,
-            calculatorState.sex as "M" | "F",
-            calculatorState.race as "Black" | "Other",
-            "mg/dL"
-          );
-          break;
-
-        case "phosphate-repletion": {
-          const phosResult = calc.phosphateRepletion(
-            getValue("serumPhosphate"),
-            Number(calculatorState.weight) || 0
-          );
-          calculationResult = phosResult.dose;
-          if (phosResult.severity !== "normal") {
-            setResultInterpretation(
-              `${phosResult.severity.charAt(0).toUpperCase() + phosResult.severity.slice(1)} hypophosphatemia — ` +
-              `recommended IV phosphate dose: ${phosResult.dose} mmol. ` +
-              selectedCalculator.interpretation(phosResult.dose)
-            );
-          }
-          break;
-        }
-
-        case "potassium-repletion": {
-          const kResult = calc.potassiumRepletion(
-            Number(calculatorState.serumPotassium) || 0,
-            Number(calculatorState.targetPotassium) || 4.0
-          );
-          calculationResult = kResult.deficit;
-          // Pass pre-converted Mg for interpretation thresholds
-          const kInputs = { ...calculatorState, serumMagnesium: String(getValue("serumMagnesium")) };
-          if (kResult.severity !== "normal") {
-            setResultInterpretation(
-              `${kResult.severity.charAt(0).toUpperCase() + kResult.severity.slice(1)} hypokalemia — ` +
-              `estimated total body deficit: ~${kResult.deficit} mEq. ` +
-              selectedCalculator.interpretation(kResult.deficit, kInputs)
-            );
-          } else {
-            setResultInterpretation(selectedCalculator.interpretation(kResult.deficit, kInputs));
-          }
-          break;
-        }
-
-        case "stool-osmolar-gap":
-          calculationResult = calc.stoolOsmolarGap(
-            Number(calculatorState.stoolNa) || 0,
-            Number(calculatorState.stoolK) || 0,
-            Number(calculatorState.stoolOsmolality) || 290
-          );
-          break;
-
-        case "trp-tmp-gfr": {
-          const trpResult = calc.trpTmpGfr(
-            getValue("urinePhosphate"),
-            getValue("plasmaPhosphate"),
-            getValue("urineCr"),
-            getValue("plasmaCr")
-          );
-          calculationResult = trpResult.tmpGfr;
-          setResultInterpretation(
-            `TRP: ${(trpResult.trp * 100).toFixed(1)}% | TmP/GFR: ${trpResult.tmpGfr} mg/dL. ` +
-            selectedCalculator.interpretation(trpResult.tmpGfr)
-          );
-          break;
-        }
-
-        case "urine-osmolal-gap":
-          calculationResult = calc.urineOsmolalGap(
-            Number(calculatorState.measuredUrineOsm) || 0,
-            Number(calculatorState.urineNa) || 0,
-            Number(calculatorState.urineK) || 0,
-            getBunValue("urineUrea"),
-            getValue("urineGlucose") || 0
-          );
-          break;
-
-        case "winters-formula": {
-          const wintersResult = calc.wintersFormula(
-            Number(calculatorState.bicarbonate) || 0
-          );
-          calculationResult = wintersResult.expectedPCO2;
-          break;
-        }
-
-        // ====================================================================
-        // NEW CALCULATORS — PHASE 2 & 3
-        // ====================================================================
-
-        case "magnesium-repletion": {
-          const mgConv = getValue("serumMagnesiumRepletion");
-          const targetMgConv = getValue("targetMagnesium") || 2.0;
-          const mgResult = calc.magnesiumRepletion(
-            mgConv,
-            targetMgConv,
-            Number(calculatorState.weight) || 70,
-            (calculatorState.renalFunction as "normal" | "ckd3-4" | "dialysis") || "normal"
-          );
-          calculationResult = mgResult.dose;
-          // Pass pre-converted Mg value for interpretation thresholds
-          const mgInputs = { ...calculatorState, serumMagnesiumRepletion: String(mgConv), targetMagnesium: String(targetMgConv) };
-          if (mgResult.severity !== "normal") {
-            setResultInterpretation(
-              `${mgResult.severity.charAt(0).toUpperCase() + mgResult.severity.slice(1)} hypomagnesemia — ` +
-              `IV MgSO4 dose: ${mgResult.dose}g. ` +
-              `Route: ${mgResult.route}\n` +
-              `Monitoring: ${mgResult.monitoring}\n\n` +
-              selectedCalculator.interpretation(mgResult.dose, mgInputs)
-            );
-          }
-          break;
-        }
-
-        case "pth-target-ckd": {
-          const pthVal = getValue("pth");
-          // Pass pre-converted values so interpretation thresholds (conventional units) work correctly
-          const pthInputs = {
-            ...calculatorState,
-            pth: String(pthVal),
-            calciumPTH: String(getValue("calciumPTH")),
-            phosphatePTH: String(getValue("phosphatePTH")),
-            vitaminD: String(getValue("vitaminD")),
-          };
-          calculationResult = pthVal;
-          setResultInterpretation(selectedCalculator.interpretation(pthVal, pthInputs));
-          break;
-        }
-
-        case "phosphate-management": {
-          const phos = getValue("phosphateLevel");
-          const ca = getValue("calciumPhos");
-          calculationResult = Math.round(phos * ca * 10) / 10;
-          // Pass pre-converted values so interpretation thresholds work correctly
-          const phosInputs = {
-            ...calculatorState,
-            phosphateLevel: String(phos),
-            calciumPhos: String(ca),
-            pthPhos: String(getValue("pthPhos")),
-          };
-          setResultInterpretation(selectedCalculator.interpretation(calculationResult, phosInputs));
-          break;
-        }
-
-        case "vancomycin-auc": {
-          const vancResult = calc.vancomycinAuc(
-            Number(calculatorState.vancDose) || 0,
-            Number(calculatorState.vancInterval) || 12,
-            Number(calculatorState.vancTrough) || 0,
-            Number(calculatorState.vancPeak) || 0,
-            Number(calculatorState.vancInfusionTime) || 1,
-            Number(calculatorState.timeToPeak) || 1,
-            Number(calculatorState.timeToTrough) || 11,
-            Number(calculatorState.vancMIC) || 1.0,
-            Number(calculatorState.weight) || 70
-          );
-          calculationResult = vancResult.aucMic;
-          setResultInterpretation(
-            `AUC/MIC: ${vancResult.aucMic} | AUC₂₄: ${vancResult.auc24} mg·h/L\n` +
-            `Ke: ${vancResult.ke} h⁻¹ | t½: ${vancResult.halfLife}h | Vd: ${vancResult.vd}L\n\n` +
-            `${vancResult.adjustedDose}\n\n` +
-            selectedCalculator.interpretation(vancResult.aucMic)
-          );
-          break;
-        }
-
-        case "tacrolimus-target": {
-          const tacroVal = Number(calculatorState.tacroLevel) || 0;
-          calculationResult = tacroVal;
-          setResultInterpretation(selectedCalculator.interpretation(tacroVal, calculatorState));
-          break;
-        }
-
-        case "bk-virus-assessment": {
-          const bkVal = Number(calculatorState.bkViralLoad) || 0;
-          calculationResult = bkVal;
-          setResultInterpretation(selectedCalculator.interpretation(bkVal, calculatorState));
-          break;
-        }
-
-        case "bvas-v3": {
-          const bvasItems: Record<string, boolean> = {};
-          const bvasCheckboxIds = [
-            "myalgia", "arthralgia", "fever", "weightLoss",
-            "infarct", "purpura", "ulcer", "gangrene", "otherSkinVasculitis",
-            "uveitis", "retinalVasculitis", "scleritis", "suddenVisualLoss",
-            "nasalDischarge", "sinusitis", "hearingLoss", "subglotticStenosis",
-            "nodules", "infiltrate", "alveolarHemorrhage", "respiratoryFailure",
-            "pericarditis", "ischemicCardiacPain", "cardiomyopathy",
-            "bloodyDiarrhea", "ischemicAbdominalPain",
-            "hypertensionBvas", "proteinuriaBvas", "hematuria", "creatinineRise", "creatinineRiseRapid",
-            "organicConfusion", "seizuresBvas", "strokeBvas", "cranialNervePalsy", "sensorNeuropathy", "motorNeuropathy",
-          ];
-          for (const id of bvasCheckboxIds) {
-            bvasItems[id] = calculatorState[id] === "on";
-          }
-          const bvasResult = calc.bvasV3(bvasItems);
-          calculationResult = bvasResult.total;
-          const activeOrgans = Object.entries(bvasResult.organScores)
-            .filter(([, score]) => score > 0)
-            .map(([organ, score]) => `${organ}: ${score}`)
-            .join(", ");
-          setResultInterpretation(
-            (activeOrgans ? `Active organs: ${activeOrgans}\n\n` : "") +
-            selectedCalculator.interpretation(bvasResult.total)
-          );
-          break;
-        }
-
-        case "dialysis-urgency": {
-          const duResult = calc.dialysisUrgency(
-            Number(calculatorState.pHDialysis) || 0,
-            Number(calculatorState.bicarbDialysis) || 0,
-            Number(calculatorState.potassiumDialysis) || 0,
-            calculatorState.ecgChanges === "yes",
-            (calculatorState.fluidOverload as "none" | "mild" | "moderate" | "refractory") || "none",
-            getBunValue("bunDialysis"),
-            (calculatorState.uremicSymptoms as "none" | "nausea" | "encephalopathy" | "pericarditis") || "none",
-            0, // urineOutput24h — not used directly, diureticResponse covers it
-            Number(calculatorState.weight) || 70,
-            calculatorState.toxicIngestion === "yes",
-            (calculatorState.diureticResponse as "responsive" | "resistant" | "anuric") || "responsive"
-          );
-          calculationResult = duResult.score;
-          setResultInterpretation(
-            `${duResult.urgency}\n\n` +
-            (duResult.indications.length > 0 ? `Indications:\n• ${duResult.indications.join("\n• ")}\n\n` : "") +
-            selectedCalculator.interpretation(duResult.score)
-          );
-          break;
-        }
-
-        case "complement-gn": {
-          const c3Val = Number(calculatorState.c3) || 0;
-          const c4Val = Number(calculatorState.c4) || 0;
-          // Result is a code: 0=normal/normal, 1=lowC3/normalC4, 2=normalC3/lowC4, 3=lowC3/lowC4
-          const lowC3 = c3Val < 90;
-          const lowC4 = c4Val < 10;
-          calculationResult = (lowC3 ? 2 : 0) + (lowC4 ? 1 : 0);
-          setResultInterpretation(selectedCalculator.interpretation(calculationResult, calculatorState));
-          break;
-        }
-
-        case "recurrence-risk-transplant": {
-          // Lookup-based — pass disease code, result is approximate recurrence rate
-          const diseaseRates: Record<string, number> = {
-            "fsgs": 35, "igan": 50, "membranous": 35, "mpgn-ic": 45, "c3g": 65,
-            "lupus": 5, "anca": 15, "antigbm": 3, "ahus": 65, "dkd": 95,
-            "amyloid-al": 15, "amyloid-aa": 15, "oxalosis": 95, "mcd": 3, "fibrillary": 50, "other": 20,
-          };
-          const disease = calculatorState.primaryDisease || "other";
-          calculationResult = diseaseRates[disease as string] || 20;
-          setResultInterpretation(selectedCalculator.interpretation(calculationResult, calculatorState));
-          break;
-        }
-
-        case "nephrotic-assessment": {
-          // Multi-section assessment — result is albumin (drives thrombotic risk)
-          const albVal = getValue("albumin");
-          calculationResult = albVal;
-          // Convert UPCR to g/g for interpretation thresholds
-          const rawUpcr = Number(calculatorState.upcr) || 0;
-          const upcrUnit = unitState.upcr || "mg/mmol";
-          let upcrGG: number;
-          if (upcrUnit === "mg/mmol") upcrGG = rawUpcr / 113;
-          else if (upcrUnit === "mg/g") upcrGG = rawUpcr / 1000;
-          else upcrGG = rawUpcr; // already g/g
-          // Pass pre-converted values so interpretation thresholds work correctly
-          const nephInputs = {
-            ...calculatorState,
-            upcr: String(upcrGG),
-            albumin: String(albVal),
-            totalCholesterol: String(getValue("totalCholesterol")),
-            ldl: String(getValue("ldl")),
-          };
-          setResultInterpretation(selectedCalculator.interpretation(albVal, nephInputs));
-          break;
-        }
-
-        case "creatinine-trajectory": {
-          const crValues: { creatinine: number; hoursFromFirst: number }[] = [];
-          const cr1 = getValue("cr1");
-          const cr1Time = Number(calculatorState.cr1Time) || 0;
-          const cr2 = getValue("cr2");
-          const cr2Time = Number(calculatorState.cr2Time) || 0;
-          const cr3 = getValue("cr3");
-          const cr3Time = Number(calculatorState.cr3Time) || 0;
-          if (cr1 > 0) crValues.push({ creatinine: cr1, hoursFromFirst: cr1Time });
-          if (cr2 > 0) crValues.push({ creatinine: cr2, hoursFromFirst: cr2Time });
-          if (cr3 > 0 && cr3Time > 0) crValues.push({ creatinine: cr3, hoursFromFirst: cr3Time });
-          const trajResult = calc.creatinineTrajectory(crValues, getValue("baselineCrTrajectory") || 1.0);
-          calculationResult = trajResult.slope;
-          let trajInterp = selectedCalculator.interpretation(trajResult.slope);
-          if (trajResult.trend === "Falling" && trajResult.projectedBaseline > 0) {
-            trajInterp += `\n\nProjected time to baseline: ~${Math.round(trajResult.projectedBaseline / 24)} days (${trajResult.projectedBaseline}h).`;
-          }
-          if (trajResult.trend === "Rising" && trajResult.projectedDialysis > 0) {
-            trajInterp += `\n\n⚠ Projected time to dialysis threshold (Cr 6.0): ~${Math.round(trajResult.projectedDialysis / 24)} days (${trajResult.projectedDialysis}h).`;
-          }
-          setResultInterpretation(trajInterp);
-          break;
-        }
-
-        default:
-          calculationResult = undefined;
+      const output = computeCalculator(selectedCalculator, calculatorState, unitState, globalUnitPreference, selectedFormulaVersion ?? undefined);
+      setResult(output);
+      historyEntry = createHistoryEntry(selectedCalculator, calculatorState, unitState, globalUnitPreference, output);
+      setSessionResults(prev => [
+        ...prev,
+        { calculator: selectedCalculator, result: output, values: calculatorState, units: unitState, unitPreference: globalUnitPreference },
+      ]);
+      // Keep the result in the active census patient's history for handoff
+      if (patient) {
+        recordCalculation({
+          calculatorId: selectedCalculator.id,
+          calculatorName: selectedCalculator.name,
+          summary: output.summary,
+          severity: output.severity,
+          computedAt: Date.now(),
+        });
       }
 
-      if (calculationResult !== undefined) {
-        // For corrected-calcium, pass the object directly
-        if (selectedCalculator.id === "corrected-calcium" && typeof calculationResult === "object") {
-          setResult(calculationResult);
-          const numResult = (calculationResult as any).mgDl;
-          setResultInterpretation(selectedCalculator.interpretation(numResult, calculatorState as Record<string, unknown>));
-          calcResultDisplay = numResult.toFixed(2) + (selectedCalculator.resultUnit ? ' ' + selectedCalculator.resultUnit : '');
-        } else {
-          const numResult = typeof calculationResult === "number" ? calculationResult : 0;
-          setResult(numResult);
-          setResultInterpretation(selectedCalculator.interpretation(numResult, calculatorState as Record<string, unknown>));
-          calcResultDisplay = numResult.toFixed(2) + (selectedCalculator.resultUnit ? ' ' + selectedCalculator.resultUnit : '');
-          // Store eGFR result for auto-population in other calculators (e.g., Mehran 2)
-          if (['ckd-epi-creatinine', 'ckd-epi-cystatin-c', 'cockcroft-gault', 'kinetic-egfr'].includes(selectedCalculator.id)) {
-            setLastCalculatedEgfr(Math.round(numResult * 100) / 100);
-          }
-        }
+      // Store eGFR result for auto-population in other calculators (e.g., Mehran 2)
+      if (output.primary && ['ckd-epi-creatinine', 'ckd-epi-cystatin-c', 'cockcroft-gault', 'kinetic-egfr'].includes(selectedCalculator.id)) {
+        setLastCalculatedEgfr(Math.round(output.primary.value * 100) / 100);
       }
     } catch (error) {
       console.error("Calculation error:", error);
       setResult(null);
-      setResultInterpretation("Error in calculation. Please check your inputs.");
     } finally {
       // Save to recent calculations history
-      if (selectedCalculator && calcResultDisplay) {
-        setRecentCalculations(prev => [
-          { id: selectedCalculator.id, name: selectedCalculator.name, result: calcResultDisplay, timestamp: Date.now() },
-          ...prev
-        ].slice(0, 5));
+      if (historyEntry?.result && historyLoaded) {
+        const entry = historyEntry;
+        setRecentCalculations(prev => [entry, ...prev].slice(0, MAX_CALCULATION_HISTORY));
+      }
+      // Append to the audit log; inputs, outputs and the patient label are only kept (encrypted) while patient data is unlocked
+      if (historyEntry?.output) {
+        createAuditEntry(selectedCalculator, calculatorState, historyEntry.output, getUnitLabel, secureKey, patient?.label)
+          .then(appendAuditEntry)
+          // One toast however many calculations fail to log
+          .catch(() => toast.error("This calculation could not be added to the audit log.", { id: "audit-log-error" }));
       }
-      // Always scroll to result after any calculation (including early-return calculators like Banff, KDPI, FRAX, Mehran)
+      // Always scroll to result after any calculation (including custom displays like Banff, KDPI, FRAX, Mehran)
       scrollToResultCard();
     }
-  }, [selectedCalculator, calculatorState, normalizeValue, scrollToResultCard]);
+  }, [selectedCalculator, calculatorState, unitState, globalUnitPreference, selectedFormulaVersion, scrollToResultCard, patient, recordCalculation, getUnitLabel, secureKey, historyLoaded, setRecentCalculations]);
 
   const handleSelectCalculator = useCallback((calcId: string) => {
     setSelectedCalculatorId(calcId);
+    setPatientOverrides(new Set());
+    setRestoredCalculation(null);
+    setSelectedFormulaVersion(null);
     // Initialize calculator state with default values for score inputs
     const calc = calculators.find(c => c.id === calcId);
     const initialState: CalculatorState = {};
@@ -2876,7 +839,7 @@ export default function Dashboard() {
     // When navigating FROM a Mehran calculator TO an eGFR calculator, save the Mehran state
     if (egfrCalculatorIds.includes(calcId) && isMehranCalc(selectedCalculatorId || '')) {
       setSavedMehranState({ ...calculatorState });
-      setSavedMehranResult(mehranResult ? { ...mehranResult } : null);
+      setSavedMehranResult(result?.kind === "mehran" ? result : null);
       setSavedMehranUnitState({ ...unitState });
       setNavigatedFromMehran(selectedCalculatorId);
     } else if (isMehranCalc(calcId) && navigatedFromMehran && savedMehranState) {
@@ -2891,16 +854,7 @@ export default function Dashboard() {
         setUnitState(savedMehranUnitState);
       }
       // Restore the Mehran result if it existed, otherwise clear it
-      if (savedMehranResult) {
-        setMehranResult(savedMehranResult);
-        setResult(savedMehranResult.totalScore);
-      } else {
-        setMehranResult(null);
-        setResult(null);
-      }
-      setResultInterpretation('');
-      setBanffResult(null);
-      setKdpiResult(null);
+      setResult(savedMehranResult);
       setMobileMenuOpen(false);
       // Clear saved state
       setSavedMehranState(null);
@@ -2941,9 +895,6 @@ export default function Dashboard() {
     setCalculatorState(initialState);
     // Note: Do NOT reset unitState here - we want to preserve unit preferences across calculator switches
     setResult(null);
-    setResultInterpretation("");
-    setBanffResult(null);
-    setKdpiResult(null);
     setMobileMenuOpen(false);
     // Track recent calculator usage
     addToRecent(calcId);
@@ -2970,17 +921,55 @@ export default function Dashboard() {
         }
       }
     }, 100);
-  }, [addToRecent, lastCalculatedEgfr, selectedCalculatorId, calculatorState, unitState, mehranResult, navigatedFromMehran, savedMehranState, savedMehranResult, savedMehranUnitState]);
+  }, [addToRecent, lastCalculatedEgfr, selectedCalculatorId, calculatorState, unitState, result, navigatedFromMehran, savedMehranState, savedMehranResult, savedMehranUnitState]);
 
-  const handleUseScratchpadLabs = useCallback((labs: Record<string, string>) => {
-    setCalculatorState(prev => {
+  // Reopen a history entry exactly as it was: inputs, units and the saved result
+  const handleRestoreCalculation = useCallback((entry: CalculationHistoryEntry) => {
+    if (!hasSnapshot(entry) || !getCalculatorById(entry.id)) {
+      // Entries from before snapshots were kept only reopen the calculator
+      handleSelectCalculator(entry.id);
+      return;
+    }
+    setSelectedCalculatorId(entry.id);
+    setCalculatorState({ ...entry.values });
+    setUnitState(prev => ({ ...prev, ...entry.units }));
+    // Saved inputs take precedence over the patient context
+    setPatientOverrides(new Set(Object.keys(entry.values)));
+    previousBoundRef.current = {};
+    setResult(entry.output);
+    setRestoredCalculation({ entry, recalculated: recalculate(entry) });
+    // Keep computing with the saved formula version while it is still selectable
+    const priorVersion = priorFormulaVersion(entry);
+    const selectable = getFormulaVersions(getCalculatorById(entry.id)!).some(v => v.version === priorVersion);
+    setSelectedFormulaVersion(selectable ? priorVersion : null);
+    setNavigatedFromMehran(null);
+    setSavedMehranState(null);
+    setSavedMehranResult(null);
+    setSavedMehranUnitState(null);
+    setMobileMenuOpen(false);
+    addToRecent(entry.id);
+    scrollToResultCard();
+  }, [handleSelectCalculator, addToRecent, scrollToResultCard]);
+
+  // HL7 values arrive in canonical units, so switch the filled inputs' toggles to match
+  const handleImportHl7Values = useCallback((values: Record<string, string>) => {
+    setCalculatorState(prev => ({ ...prev, ...values }));
+    // Imported values take precedence over the patient context
+    setPatientOverrides(prev => {
+      const next = new Set(prev);
+      for (const inputId of Object.keys(values)) {
+        if (patientFieldForInput(inputId)) next.add(inputId);
+      }
+      return next;
+    });
+    setUnitState(prev => {
       const next = { ...prev };
-      for (const [key, value] of Object.entries(labs)) {
-        next[key] = value;
+      for (const input of selectedCalculator?.inputs.filter((input) => input.id in values && hasUnitToggle(input)) ?? []) {
+        next[unitKey(input)] = unitSelection(input, getUnitType(input)!.canonical);
       }
       return next;
     });
-  }, []);
+  }, [selectedCalculator]);
 
   const clearSearch = useCallback(() => {
     setSearchQuery("");
@@ -2996,42 +985,98 @@ export default function Dashboard() {
     setFocusedIndex(-1);
   }, [selectedCategory]);
 
-  // Check if input supports unit toggle
-  const hasUnitToggle = (inputId: string): boolean => {
-    // For 24-hour-protein calculator, check multi-unit options
-    if (selectedCalculatorId === "24-hour-protein") {
-      const multiUnitIds = ["ratioValue", "proteinValue", "creatinineValue"];
-      if (multiUnitIds.includes(inputId)) return true;
-    }
-    // For UACR/UPCR calculators, check multi-unit options for urine creatinine
-    if (selectedCalculatorId === "uacr" && inputId === "urineCreatinineUACR") return true;
-    if (selectedCalculatorId === "upcr" && inputId === "urineCreatinineUPCR") return true;
-    // KFRE ACR multi-unit toggle
-    if (selectedCalculatorId === "kfre" && inputId === "acr") return true;
-    // Nephrotic Syndrome Assessment UPCR multi-unit toggle
-    if (selectedCalculatorId === "nephrotic-assessment" && inputId === "upcr") return true;
-    // Check if this is a BUN/Urea input that needs 4-option toggle
-    if (bunUreaInputIds.includes(inputId)) return true;
-    return inputId in unitOptions;
-  };
-
   const allRequiredFilled = selectedCalculator
-    ? selectedCalculator.inputs
-        .filter((input) => input.required)
-        .every((input) => {
-          // Skip unit selector inputs
-          if (input.id.endsWith("Unit")) return true;
-          // Skip bleeding severity for surgery indications in anticoag reversal
-          if (selectedCalculator.id === 'anticoagReversal' && input.id === 'bleedingSeverity') {
-            const indication = calculatorState['indication'] as string;
-            if (indication === 'urgent-surgery' || indication === 'elective') {
-              return true; // Skip this required field for surgery indications
-            }
-          }
-          return calculatorState[input.id] !== undefined && calculatorState[input.id] !== "";
-        })
+    ? getMissingRequiredInputs(selectedCalculator, calculatorState).length === 0
     : false;
 
+  // Physiologic range, wrong-unit and cross-field checks on the values as they are typed.
+  // computeCalculator adds the same messages to result.warnings for the API, FHIR export and audit log.
+  const plausibilityIssues = useMemo(
+    () => (selectedCalculator ? checkPlausibility(selectedCalculator, calculatorState, unitState, globalUnitPreference) : []),
+    [selectedCalculator, calculatorState, unitState, globalUnitPreference]
+  );
+
+  // Reference ranges for the patient's age and sex, with the one the result falls in
+  const referenceRangeEvaluation = useMemo(
+    () => (selectedCalculator && result ? evaluateReferenceRanges(selectedCalculator, result, calculatorState) : null),
+    [selectedCalculator, result, calculatorState]
+  );
+
+  // Deep links (/calc/:id?creatinine=1.4&unit=si&compute=1) open a calculator prefilled.
+  // The URL and the selected calculator follow each other so back/forward work.
+  const [, navigate] = useLocation();
+  const [, routeParams] = useRoute(CALCULATOR_ROUTE);
+  const search = useSearch();
+  const routeCalculatorId = routeParams?.id ?? null;
+  const [pendingLinkCompute, setPendingLinkCompute] = useState(false);
+
+  const applyLinkedState = useCallback((link: CalculatorLinkParams) => {
+    setCalculatorState(prev => ({ ...prev, ...link.values }));
+    setUnitState(prev => ({ ...prev, ...link.units }));
+    // Linked values take precedence over the patient context
+    setPatientOverrides(new Set(Object.keys(link.values)));
+    previousBoundRef.current = {};
+    setPendingLinkCompute(link.compute);
+  }, []);
+
+  // An effect event, so only a URL change re-runs it: a selection made in the
+  // sidebar must not be undone before the URL has caught up with it
+  const followRoute = useEffectEvent((calculatorId: string | null, query: string) => {
+    if (calculatorId === null) {
+      if (selectedCalculatorId !== null) setSelectedCalculatorId(null);
+      return;
+    }
+    const calc = getCalculatorById(calculatorId);
+    if (!calc) {
+      navigate("/404", { replace: true });
+      return;
+    }
+    if (calc.id === selectedCalculatorId && !query) return;
+    handleSelectCalculator(calc.id);
+    if (!query) return;
+    applyLinkedState(parseCalculatorQuery(calc, query));
+  });
+
+  useEffect(() => {
+    followRoute(routeCalculatorId, search);
+  }, [routeCalculatorId, search]);
+
+  // Shared calculations (#s=...) carry their inputs in the fragment, which never reaches the server
+  const openSharedCalculation = useEffectEvent(() => {
+    const hash = window.location.hash;
+    if (!isShareFragment(hash)) return;
+    // Drop the fragment so reloading or copying the address doesn't re-share the inputs
+    window.history.replaceState(window.history.state, "", window.location.pathname + window.location.search);
+    decodeShareFragment(hash)
+      .then(({ calculatorId, link }) => {
+        handleSelectCalculator(calculatorId);
+        applyLinkedState(link);
+      })
+      .catch((error) => toast.error(error instanceof Error ? error.message : "Could not open the shared calculation."));
+  });
+
+  useEffect(() => {
+    const onHashChange = () => openSharedCalculation();
+    onHashChange();
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, []);
+
+  const previousSelectedIdRef = useRef(selectedCalculatorId);
+  useEffect(() => {
+    if (previousSelectedIdRef.current === selectedCalculatorId) return;
+    previousSelectedIdRef.current = selectedCalculatorId;
+    if (selectedCalculatorId === routeCalculatorId) return;
+    navigate(selectedCalculatorId ? calculatorPath(selectedCalculatorId) : "/");
+  }, [selectedCalculatorId, routeCalculatorId, navigate]);
+
+  // compute=1 links calculate once the linked values are in place
+  useEffect(() => {
+    if (!pendingLinkCompute || !selectedCalculator) return;
+    setPendingLinkCompute(false);
+    if (allRequiredFilled) handleCalculate();
+  }, [pendingLinkCompute, selectedCalculator, allRequiredFilled, handleCalculate]);
+
   // Sidebar content - using useMemo to prevent recreation on every render
   const sidebarContent = useMemo(() => (
       <div className="h-full flex flex-col">
@@ -3174,116 +1219,64 @@ export default function Dashboard() {
     </div>
   ), [selectedCategory, categories, favoriteCalculators, recentCalculators, groupedCalculators, filteredCalculators, selectedCalculatorId, focusedIndex, favorites, handleSelectCalculator, toggleFavorite, sidebarAccordionValue]);
 
-  // Inline Unit Toggle Component
-  // Multi-option unit definitions for calculators with more than 2 unit options
-  const multiUnitOptions: { [inputId: string]: string[] } = {
-    ratioValue: ["mg/mmol", "mg/g", "mg/mg", "mg/L"],
-    proteinValue: ["mg/dL", "g/L", "mg/L"],
-    creatinineValue: ["mg/dL", "mmol/L"],
-    // ACR — mg/mmol (SI, default), mg/g (US conventional), mg/mg (ratio)
-    acr: ["mg/mmol", "mg/g", "mg/mg"],
-    // UPCR ratio input (nephrotic-assessment) — mg/mmol (SI, default), mg/g, g/g
-    upcr: ["mg/mmol", "mg/g", "g/g"],
-    // Urine creatinine for UACR calculator - g is most common, mg and μmol alternatives
-    urineCreatinineUACR: ["g", "mg", "μmol"],
-    // Urine creatinine for UPCR calculator - mg is most common, g and μmol alternatives
-    urineCreatinineUPCR: ["mg", "g", "μmol"],
-  };
-
-  const InlineUnitToggle = ({ inputId }: { inputId: string }) => {
-    // Check if this input has multi-unit options
-    // For 24-hour-protein calculator or ACR in KFRE
-    const hasMultiUnitOptions =
-      (selectedCalculatorId === "24-hour-protein" && multiUnitOptions[inputId]) ||
-      (selectedCalculatorId === "kfre" && inputId === "acr") ||
-      (selectedCalculatorId === "nephrotic-assessment" && inputId === "upcr") ||
-      (selectedCalculatorId === "uacr" && multiUnitOptions[inputId]) ||
-      (selectedCalculatorId === "upcr" && multiUnitOptions[inputId]);
-    
-    if (hasMultiUnitOptions && multiUnitOptions[inputId]) {
-      const options = multiUnitOptions[inputId];
-      // Default: mg/mmol for ratio inputs (ACR, PCR, UPCR), otherwise first option
-      const defaultUnit = options.includes("mg/mmol") ? "mg/mmol" : options[0];
-      const currentUnit = unitState[inputId] || defaultUnit;
-      
-      return (
-        <div className="flex items-center gap-0.5 bg-muted rounded p-0.5">
-          {options.map((unit) => (
-            <button
-              key={unit}
-              type="button"
-              onClick={() => setUnitState(prev => ({ ...prev, [inputId]: unit }))}
-              className={cn(
-                "px-2 py-0.5 text-xs font-medium rounded transition-colors",
-                currentUnit === unit
-                  ? "bg-primary text-primary-foreground"
-                  : "text-muted-foreground hover:text-foreground"
-              )}
-            >
-              {unit}
-            </button>
-          ))}
-        </div>
-      );
-    }
-
-    // Check if this is a BUN/Urea input that needs 4-option toggle
-    if (bunUreaInputIds.includes(inputId)) {
-      const currentBunUreaUnit = unitState[`${inputId}_bunUrea`] || (globalUnitPreference === "si" ? "BUN (mmol/L)" : "BUN (mg/dL)");
-      
+  // "Patient" marker on inputs filled from the current patient context, or a
+  // revert button once the user has overridden the value
+  const PatientInputMarker = ({ inputId }: { inputId: string }) => {
+    const field = patientFieldForInput(inputId);
+    const stored = field ? patient?.fields[field.id] : undefined;
+    if (!stored) return null;
+    if (inputId in patientBoundValues) {
       return (
-        <div className="flex items-center gap-0.5 bg-muted rounded p-0.5 flex-wrap">
-          {bunUreaOptions.map((option) => (
-            <button
-              key={option.value}
-              type="button"
-              onClick={() => setUnitState(prev => ({ ...prev, [`${inputId}_bunUrea`]: option.value }))}
-              className={cn(
-                "px-2 py-0.5 text-xs font-medium rounded transition-colors",
-                currentBunUreaUnit === option.value
-                  ? "bg-primary text-primary-foreground"
-                  : "text-muted-foreground hover:text-foreground"
-              )}
-            >
-              {option.label}
-            </button>
-          ))}
-        </div>
+        <Badge
+          variant="outline"
+          className="text-[10px] px-1.5 py-0 font-normal border-emerald-500/50 text-emerald-700 dark:text-emerald-400"
+          title={`From patient context${patient?.label ? ` (${patient.label})` : ""}${stored.collectedAt ? ` · collected ${formatPatientTime(stored.collectedAt)}` : ""}`}
+        >
+          Patient
+        </Badge>
       );
     }
+    if (!patientOverrides.has(inputId)) return null;
+    return (
+      <button
+        type="button"
+        onClick={() => setPatientOverrides((prev) => {
+          const next = new Set(prev);
+          next.delete(inputId);
+          return next;
+        })}
+        className="inline-flex items-center gap-0.5 text-[10px] font-normal text-muted-foreground hover:text-emerald-700 dark:hover:text-emerald-400"
+        title="Discard this value and use the patient context value"
+      >
+        <RotateCcw className="w-3 h-3" />
+        Patient
+      </button>
+    );
+  };
 
-    // Default 2-option toggle for other calculators
-    const options = unitOptions[inputId];
-    if (!options) return null;
-
-    const currentUnit = getInputUnit(inputId);
+  // Inline Unit Toggle Component
+  const InlineUnitToggle = ({ input }: { input: CalculatorInput }) => {
+    const type = getUnitType(input);
+    if (!type) return null;
+    const currentUnit = selectedUnit(input, unitState, globalUnitPreference);
 
     return (
-      <div className="flex items-center gap-0.5 bg-muted rounded p-0.5">
-        <button
-          type="button"
-          onClick={() => handleUnitChange(inputId, "conventional")}
-          className={cn(
-            "px-2 py-0.5 text-xs font-medium rounded transition-colors",
-            currentUnit === "conventional"
-              ? "bg-primary text-primary-foreground"
-              : "text-muted-foreground hover:text-foreground"
-          )}
-        >
-          {options.conventional}
-        </button>
-        <button
-          type="button"
-          onClick={() => handleUnitChange(inputId, "si")}
-          className={cn(
-            "px-2 py-0.5 text-xs font-medium rounded transition-colors",
-            currentUnit === "si"
-              ? "bg-primary text-primary-foreground"
-              : "text-muted-foreground hover:text-foreground"
-          )}
-        >
-          {options.si}
-        </button>
+      <div className="flex items-center gap-0.5 bg-muted rounded p-0.5 flex-wrap">
+        {type.units.map((unit) => (
+          <button
+            key={unit}
+            type="button"
+            onClick={() => handleUnitChange(input, unit)}
+            className={cn(
+              "px-2 py-0.5 text-xs font-medium rounded transition-colors",
+              currentUnit === unit
+                ? "bg-primary text-primary-foreground"
+                : "text-muted-foreground hover:text-foreground"
+            )}
+          >
+            {unitLabel(unit)}
+          </button>
+        ))}
       </div>
     );
   };
@@ -3359,6 +1352,10 @@ export default function Dashboard() {
                 <span className="absolute -top-1 -right-1 w-2.5 h-2.5 bg-green-400 rounded-full animate-pulse" />
               )}
             </Button>
+            {/* Settings backup */}
+            <SettingsBackupDialog />
+            {/* Patient data lock */}
+            <SecureStoreMenu />
             {/* Theme Toggle */}
             <Button
               variant="ghost"
@@ -3437,6 +1434,8 @@ export default function Dashboard() {
                       key={calc.id}
                       onClick={() => {
                         setSelectedCalculatorId(calc.id);
+                        setPatientOverrides(new Set());
+                        setSelectedFormulaVersion(null);
                         setViewingCategoryList(null);
                         setSelectedCategory(viewingCategoryList);
                         addToRecent(calc.id);
@@ -3558,6 +1557,8 @@ export default function Dashboard() {
                 </Card>
               )}
 
+              <PatientCensus />
+
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
                 {calculators
                   .filter(c => onCallCalculators.includes(c.id))
@@ -3660,22 +1661,32 @@ export default function Dashboard() {
                 {/* Recent Calculations Card */}
                 <Card className="animate-in fade-in slide-in-from-bottom-2 duration-300 delay-75">
                   <CardHeader className="pb-3">
-                    <CardTitle className="text-base flex items-center gap-2">
-                      <Clock className="w-4 h-4 text-blue-500" />
-                      Recent Calculations
-                    </CardTitle>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-base flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-blue-500" />
+                        Recent Calculations
+                      </CardTitle>
+                      <CalculationHistoryDialog entries={recentCalculations} onRestore={handleRestoreCalculation} />
+                    </div>
                   </CardHeader>
                   <CardContent>
-                    {recentCalculations.length === 0 ? (
+                    {secureStatus !== "unlocked" ? (
+                      <div className="space-y-3">
+                        <p className="text-sm text-muted-foreground">
+                          Calculation history holds patient values, so it is kept with the encrypted patient data.
+                        </p>
+                        <SecureStorePinForm />
+                      </div>
+                    ) : recentCalculations.length === 0 ? (
                       <p className="text-sm text-muted-foreground text-center py-4">
                         Your recent calculation results will appear here.
                       </p>
                     ) : (
                       <div className="space-y-1">
-                        {recentCalculations.map((entry, idx) => (
+                        {recentCalculations.slice(0, 5).map((entry, idx) => (
                           <button
                             key={`home-calc-${idx}`}
-                            onClick={() => handleSelectCalculator(entry.id)}
+                            onClick={() => handleRestoreCalculation(entry)}
                             className="w-full text-left px-3 py-2 rounded-md text-sm hover:bg-accent hover:text-accent-foreground transition-colors group"
                           >
                             <div className="flex items-center justify-between">
@@ -3755,6 +1766,7 @@ export default function Dashboard() {
                       <ArrowLeftRight className="w-4 h-4 mr-2" />
                       {showConversionCard ? "Hide Unit Converter" : "Unit Conversion Reference"}
                     </Button>
+                    <AuditLogDialog />
 
                     <div className="relative py-2">
                       <Separator />
@@ -3943,7 +1955,7 @@ export default function Dashboard() {
 
               {showScratchpad && (
                 <div className="mt-4" ref={scratchpadRef}>
-                  <PatientScratchpad onClose={() => setShowScratchpad(false)} onUseLabs={handleUseScratchpadLabs} unitPreference={globalUnitPreference} />
+                  <PatientScratchpad onClose={() => setShowScratchpad(false)} unitPreference={globalUnitPreference} />
                 </div>
               )}
 
@@ -4015,22 +2027,37 @@ export default function Dashboard() {
                     <p className="text-sm text-muted-foreground mt-1">{selectedCalculator.whenToUse}</p>
                   )}
                 </div>
-                <button
-                  onClick={(e) => toggleFavorite(selectedCalculator.id, e)}
-                  className="p-2 rounded-lg hover:bg-accent transition-colors flex-shrink-0"
-                  title={favorites.includes(selectedCalculator.id) ? "Remove from favorites" : "Add to favorites"}
-                >
-                  <Star
-                    className={cn(
-                      "w-5 h-5 transition-colors",
-                      favorites.includes(selectedCalculator.id)
-                        ? "fill-amber-500 text-amber-500"
-                        : "text-muted-foreground hover:text-amber-500"
-                    )}
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Hl7ImportDialog
+                    inputIds={selectedCalculator.inputs.map((input) => input.id)}
+                    onApply={handleImportHl7Values}
                   />
-                </button>
+                  <ShareCalculationDialog
+                    calculatorId={selectedCalculator.id}
+                    calculatorName={selectedCalculator.name}
+                    values={calculatorState}
+                    units={unitState}
+                    unitPreference={globalUnitPreference}
+                  />
+                  <button
+                    onClick={(e) => toggleFavorite(selectedCalculator.id, e)}
+                    className="p-2 rounded-lg hover:bg-accent transition-colors flex-shrink-0"
+                    title={favorites.includes(selectedCalculator.id) ? "Remove from favorites" : "Add to favorites"}
+                  >
+                    <Star
+                      className={cn(
+                        "w-5 h-5 transition-colors",
+                        favorites.includes(selectedCalculator.id)
+                          ? "fill-amber-500 text-amber-500"
+                          : "text-muted-foreground hover:text-amber-500"
+                      )}
+                    />
+                  </button>
+                </div>
               </div>
 
+              <PatientContextBar />
+
               {/* Input Card */}
               <Card className="border-border">
                 <CardHeader className="pb-4 hidden sm:block">
@@ -4074,9 +2101,10 @@ export default function Dashboard() {
                           <Label className="text-sm font-medium flex items-center gap-1">
                             {input.label}
                             {input.required && <span className="text-destructive">*</span>}
+                            <PatientInputMarker inputId={input.id} />
                           </Label>
-                          {hasUnitToggle(input.id) && (
-                            <InlineUnitToggle inputId={input.id} />
+                          {hasUnitToggle(input) && (
+                            <InlineUnitToggle input={input} />
                           )}
                         </div>
                         
@@ -4094,17 +2122,17 @@ export default function Dashboard() {
                                   handleInputChange(input.id, val);
                                 }
                               }}
-                              className={cn("max-lg:text-base max-lg:min-h-[48px]", hasUnitToggle(input.id) ? "" : hasUnitConversion(input.id) ? "pr-20" : "pr-16")}
+                              className={cn("max-lg:text-base max-lg:min-h-[48px]", hasUnitToggle(input) ? "" : hasUnitConversion(input) ? "pr-20" : "pr-16")}
                             />
                             <div className="absolute right-3 top-1/2 -translate-y-1/2 flex items-center gap-1">
-                              {hasUnitConversion(input.id) && calculatorState[input.id] && (
+                              {hasUnitConversion(input) && calculatorState[input.id] && (
                                 <UnitConversionTooltip
-                                  inputId={input.id}
+                                  input={input}
                                   value={calculatorState[input.id] as number}
-                                  currentUnit={unitState[input.id] === "si" ? "si" : "conventional"}
+                                  currentUnit={selectedUnit(input, unitState, globalUnitPreference)}
                                 />
                               )}
-                              {!hasUnitToggle(input.id) && input.unit && (
+                              {!hasUnitToggle(input) && input.unit && (
                                 <span className="text-xs text-muted-foreground">
                                   {input.unit}
                                 </span>
@@ -4113,6 +2141,26 @@ export default function Dashboard() {
                           </div>
                         )}
 
+                        {plausibilityIssues
+                          .filter((issue) => issue.inputIds[issue.inputIds.length - 1] === input.id)
+                          .map((issue) => (
+                            <div key={issue.message} className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs text-amber-700 dark:text-amber-400">
+                              <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0" />
+                              <span className="flex-1 min-w-0">{issue.message}</span>
+                              {issue.fix && (
+                                <Button
+                                  type="button"
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs"
+                                  onClick={() => handleInputChange(issue.fix!.inputId, issue.fix!.value)}
+                                >
+                                  {issue.fix.label}
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+
                         {input.type === "select" && (
                           isBinaryYesNoInput(input) ? (
                             <div className="flex items-center justify-between p-3 sm:p-4 bg-muted/30 rounded-lg border">
@@ -4246,6 +2294,36 @@ export default function Dashboard() {
                     </div>
                   )}
 
+                  {/* Superseded formula versions stay selectable to reproduce historical results */}
+                  {selectedCalculator.previousVersions && selectedCalculator.previousVersions.length > 0 && (
+                    <div className="mt-4 space-y-1.5">
+                      <Label className="text-sm">Formula version</Label>
+                      <Select
+                        value={selectedFormulaVersion ?? getFormulaVersions(selectedCalculator)[0].version}
+                        onValueChange={(version) => {
+                          const current = getFormulaVersions(selectedCalculator)[0].version;
+                          setSelectedFormulaVersion(version === current ? null : version);
+                        }}
+                      >
+                        <SelectTrigger className="text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {getFormulaVersions(selectedCalculator).map((v) => (
+                            <SelectItem key={v.version} value={v.version}>
+                              {v.source}{v.current ? " (current)" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedFormulaVersion !== null && (
+                        <p className="text-xs text-amber-700 dark:text-amber-400">
+                          Superseded formula, for reproducing historical results only.
+                        </p>
+                      )}
+                    </div>
+                  )}
+
                   <Separator className="my-6" />
 
                   {/* Inline Calculate Button (all screen sizes) */}
@@ -4274,11 +2352,59 @@ export default function Dashboard() {
                 </Button>
               )}
 
+              {/* Reopened history entry: saved vs current formulas */}
+              {restoredCalculation && restoredCalculation.entry.id === selectedCalculator.id && (() => {
+                const { entry, recalculated } = restoredCalculation;
+                const changed = recalculated !== null && recalculated.changes.length > 0;
+                return (
+                  <Alert className={cn(changed ? "border-amber-500/50 bg-amber-500/5" : "border-blue-500/50 bg-blue-500/5")}>
+                    <History className={cn("h-4 w-4", changed ? "text-amber-600" : "text-blue-500")} />
+                    <AlertDescription className="space-y-2">
+                      <p>
+                        Reopened from {new Date(entry.timestamp).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}.{" "}
+                        {recalculated === null
+                          ? "It could not be recalculated with the current formulas."
+                          : changed
+                            ? "Recalculating with the current formulas gives a different result:"
+                            : "Recalculating with the current formulas gives the same result."}
+                      </p>
+                      {priorFormulaVersion(entry) !== null && (
+                        <p className="text-xs">
+                          Saved with formula version {priorFormulaVersion(entry)}
+                          {entry.output?.provenance.formulaSource ? ` (${entry.output.provenance.formulaSource})` : ""}, which has since been superseded.
+                        </p>
+                      )}
+                      {changed && (
+                        <>
+                          <ul className="text-xs space-y-0.5">
+                            {recalculated.changes.map((change) => (
+                              <li key={change.label}>
+                                <span className="font-medium">{change.label}:</span>{" "}
+                                <span className="line-through text-muted-foreground">{change.before}</span> → {change.after}
+                              </li>
+                            ))}
+                          </ul>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="h-7 text-xs"
+                            onClick={() => {
+                              setResult(recalculated.result);
+                              setRestoredCalculation(null);
+                            }}
+                          >
+                            Show recalculated result
+                          </Button>
+                        </>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                );
+              })()}
+
               {/* Result Card */}
-              {result !== null && (() => {
-                const colorCoding = typeof result === 'number' 
-                  ? getResultColorCoding(selectedCalculator.id, result, calculatorState as Record<string, unknown>) 
-                  : null;
+              {result?.primary && (() => {
+                const colorCoding = getResultColorCoding(result, calculatorState as Record<string, unknown>);
                 
                 return (
                 <Card id="result-card" ref={resultCardRef} className={cn(
@@ -4299,43 +2425,65 @@ export default function Dashboard() {
                         </Badge>
                       )}
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className="h-8 px-2 text-muted-foreground hover:text-foreground"
-                      onClick={() => {
-                        const noteText = generateClinicalNote({
-                          calculator: selectedCalculator,
-                          result,
-                          resultInterpretation,
-                          calculatorState: calculatorState as Record<string, string>,
-                          unitState,
-                          getUnitLabel,
-                        });
-                        navigator.clipboard.writeText(noteText);
-                        setCopied(true);
-                        setTimeout(() => setCopied(false), 2000);
-                      }}
-                    >
-                      {copied ? (
-                        <><Check className="w-4 h-4 mr-1" /> Copied!</>
-                      ) : (
-                        <><Copy className="w-4 h-4 mr-1" /> Copy</>
-                      )}
-                    </Button>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 px-2 text-muted-foreground hover:text-foreground"
+                        onClick={() => {
+                          const noteText = generateClinicalNote({
+                            calculator: selectedCalculator,
+                            result,
+                            calculatorState: calculatorState as Record<string, string>,
+                            unitState,
+                            getUnitLabel,
+                          });
+                          navigator.clipboard.writeText(noteText);
+                          setCopied(true);
+                          setTimeout(() => setCopied(false), 2000);
+                        }}
+                      >
+                        {copied ? (
+                          <><Check className="w-4 h-4 mr-1" /> Copied!</>
+                        ) : (
+                          <><Copy className="w-4 h-4 mr-1" /> Copy</>
+                        )}
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-8 px-2 text-muted-foreground hover:text-foreground">
+                            <FileJson className="w-4 h-4 mr-1" /> FHIR
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => downloadFhirJson(
+                              `${selectedCalculator.id}-observation.json`,
+                              // Prefer the inputs captured at calculation time over the live form
+                              buildResultObservationBundle(sessionResults.find(entry => entry.result === result) ?? {
+                                calculator: selectedCalculator,
+                                result,
+                                values: calculatorState,
+                                units: unitState,
+                                unitPreference: globalUnitPreference,
+                              })
+                            )}
+                          >
+                            This result (Observation)
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            disabled={sessionResults.length === 0}
+                            onClick={() => downloadFhirJson("calculator-session-report.json", buildDiagnosticReportBundle(sessionResults))}
+                          >
+                            Session report ({sessionResults.length} result{sessionResults.length !== 1 ? "s" : ""})
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
                   </CardHeader>
                   <CardContent>
                     <div className="text-center py-6">
-                      {selectedCalculator.id === "corrected-calcium" && typeof result === "object" ? (
-                        <>
-                          <p className={cn("text-3xl font-bold", colorCoding ? colorCoding.textClass : "text-primary")}>
-                            {(result as any).mgDl.toFixed(2)} mg/dL
-                          </p>
-                          <p className="text-sm text-muted-foreground mt-2">
-                            {(result as any).mmolL.toFixed(2)} mmol/L
-                          </p>
-                        </>
-                      ) : selectedCalculator.id === "anticoagReversal" ? (
+                      {selectedCalculator.id === "anticoagReversal" ? (
                         <>
                           <p className={cn("text-2xl font-bold text-amber-600 dark:text-amber-400")}>
                             Reversal Protocol Generated
@@ -4345,16 +2493,21 @@ export default function Dashboard() {
                       ) : (
                         <>
                           <p className={cn("text-5xl font-bold tracking-tight", colorCoding ? colorCoding.textClass : "text-primary")}>
-                            {typeof result === "number" ? result.toFixed(2) : "N/A"}
+                            {result.primary.value.toFixed(2)}
                           </p>
-                          {selectedCalculator.resultUnit && (
-                            <p className="text-xs font-medium uppercase tracking-widest text-muted-foreground mt-2">{selectedCalculator.resultUnit}</p>
+                          {result.primary.unit && (
+                            <p className="text-xs font-medium uppercase tracking-widest text-muted-foreground mt-2">{result.primary.unit}</p>
                           )}
+                          {result.secondary.map((item) => (
+                            <p key={item.label} className="text-sm text-muted-foreground mt-2">
+                              {item.label}: {item.value.toFixed(2)}{item.unit ? ` ${item.unit}` : ''}
+                            </p>
+                          ))}
                         </>
                       )}
                     </div>
 
-                    {resultInterpretation && (
+                    {result.interpretation && (
                       <Alert className={cn(
                         "mt-4",
                         colorCoding && colorCoding.severity === 'danger' && "border-red-500/50 bg-red-500/5",
@@ -4375,10 +2528,28 @@ export default function Dashboard() {
                           colorCoding && colorCoding.severity === 'warning' && "text-yellow-700 dark:text-yellow-400",
                           colorCoding && colorCoding.severity === 'success' && "text-emerald-700 dark:text-emerald-400",
                           colorCoding && colorCoding.severity === 'info' && "text-blue-700 dark:text-blue-400"
-                        )}>{resultInterpretation}</AlertDescription>
+                        )}>{result.interpretation}</AlertDescription>
                       </Alert>
                     )}
 
+                    {result.warnings.length > 0 && (
+                      <Alert className="mt-3 border-amber-500/50 bg-amber-500/5">
+                        <AlertTriangle className="h-4 w-4 text-amber-600" />
+                        <AlertDescription className="text-amber-700 dark:text-amber-400">
+                          <ul className="list-disc pl-4 space-y-0.5">
+                            {result.warnings.map((warning, idx) => (
+                              <li key={idx}>{warning}</li>
+                            ))}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <p className="mt-3 text-[11px] text-muted-foreground">
+                      Formula v{result.provenance.formulaVersion}
+                      {result.provenance.formulaSource ? `: ${result.provenance.formulaSource}` : ""}
+                    </p>
+
                     {/* Back to Mehran Quick-Link - shown on eGFR calculators when navigated from Mehran */}
                     {navigatedFromMehran && ['ckd-epi-creatinine', 'ckd-epi-cystatin-c', 'cockcroft-gault', 'kinetic-egfr', 'schwartz-pediatric', 'lund-malmo-revised', 'bis1-egfr'].includes(selectedCalculator.id) && (
                       <div className="mt-4 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
@@ -4386,8 +2557,8 @@ export default function Dashboard() {
                           <div className="flex items-start gap-2">
                             <ArrowLeft className="w-4 h-4 text-amber-600 dark:text-amber-400 mt-0.5 flex-shrink-0" />
                             <span className="text-sm text-amber-700 dark:text-amber-300">
-                              {result !== null
-                                ? `eGFR calculated: ${typeof result === 'number' ? Math.round(result * 100) / 100 : result} mL/min/1.73m²`
+                              {primaryValue !== null
+                                ? `eGFR calculated: ${Math.round(primaryValue * 100) / 100} mL/min/1.73m²`
                                 : `Calculate eGFR, then return to ${navigatedFromMehran === 'cin-mehran-score' ? 'Mehran 2 Score' : 'Original Mehran Score'}`
                               }
                             </span>
@@ -5618,62 +3789,76 @@ export default function Dashboard() {
                     )}
 
                     {/* EKFC eGFR vs Age Curve */}
-                    {selectedCalculator.id === 'ekfc-creatinine' && result !== null && ekfcPatientCreatinine !== null && (
+                    {selectedCalculator.id === 'ekfc-creatinine' && ekfcPatientCreatinine !== null && (
                       <EKFCAgeCurve
                         patientAge={Number(calculatorState.age) || 0}
-                        patientEgfr={result as number}
+                        patientEgfr={result.primary.value}
                         patientSex={calculatorState.sex as "M" | "F"}
                         patientCreatinine={ekfcPatientCreatinine}
                       />
                     )}
 
                     {/* Reference Ranges */}
-                    {selectedCalculator.referenceRanges && selectedCalculator.referenceRanges.length > 0 && (
+                    {referenceRangeEvaluation && (
                       <div className="mt-4 pt-4 border-t">
                         <p className="text-sm font-medium mb-2 flex items-center gap-2">
                           <Activity className="w-4 h-4 text-primary" />
                           Reference Ranges
                         </p>
                         <div className="space-y-1">
-                          {selectedCalculator.referenceRanges.map((range, idx) => {
-                            const isInRange = typeof result === 'number' && (
-                              (range.min !== undefined && range.max !== undefined && result >= range.min && result <= range.max) ||
-                              (range.min !== undefined && range.max === undefined && result >= range.min) ||
-                              (range.min === undefined && range.max !== undefined && result <= range.max)
-                            );
-                            return (
-                              <div
-                                key={idx}
-                                className={`flex items-center justify-between text-xs p-2 rounded ${
-                                  isInRange ? 'bg-primary/10 border border-primary/30' : 'bg-muted/50'
-                                }`}
-                              >
-                                <span className={`font-medium ${isInRange ? 'text-primary' : 'text-muted-foreground'}`}>
-                                  {range.label}
-                                  {isInRange && ' ✓'}
-                                </span>
-                                <span className="text-muted-foreground">
-                                  {range.min !== undefined && range.max !== undefined
-                                    ? `${range.min} - ${range.max} ${range.unit}`
-                                    : range.min !== undefined
-                                    ? `≥${range.min} ${range.unit}`
-                                    : `≤${range.max} ${range.unit}`}
-                                </span>
-                              </div>
-                            );
-                          })}
+                          {referenceRangeEvaluation.ranges.map(({ range, inRange: isInRange }, idx) => (
+                            <div
+                              key={idx}
+                              className={`flex items-center justify-between text-xs p-2 rounded ${
+                                isInRange ? 'bg-primary/10 border border-primary/30' : 'bg-muted/50'
+                              }`}
+                            >
+                              <span className={`font-medium ${isInRange ? 'text-primary' : 'text-muted-foreground'}`}>
+                                {range.label}
+                                {isInRange && ' ✓'}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {range.min !== undefined && range.max !== undefined
+                                  ? `${range.min} - ${range.max} ${range.unit}`
+                                  : range.min !== undefined
+                                  ? `≥${range.min} ${range.unit}`
+                                  : `≤${range.max} ${range.unit}`}
+                              </span>
+                            </div>
+                          ))}
+                          {referenceRangeEvaluation.ageExpectation && (
+                            <div
+                              className={`flex items-center justify-between text-xs p-2 rounded ${
+                                referenceRangeEvaluation.ageExpectation.position === 'below'
+                                  ? 'bg-amber-500/10 border border-amber-500/30'
+                                  : 'bg-primary/10 border border-primary/30'
+                              }`}
+                            >
+                              <span className={`font-medium ${referenceRangeEvaluation.ageExpectation.position === 'below' ? 'text-amber-700 dark:text-amber-400' : 'text-primary'}`}>
+                                Healthy for age {referenceRangeEvaluation.ageExpectation.age}
+                                {referenceRangeEvaluation.ageExpectation.position === 'within' ? ' ✓' : referenceRangeEvaluation.ageExpectation.position === 'below' ? ' ↓' : ' ↑'}
+                              </span>
+                              <span className="text-muted-foreground">
+                                {`${referenceRangeEvaluation.ageExpectation.lower} - ${referenceRangeEvaluation.ageExpectation.upper} ${referenceRangeEvaluation.ageExpectation.unit}`}
+                              </span>
+                            </div>
+                          )}
                         </div>
-                        {selectedCalculator.referenceRanges.some(r => r.note) && (
+                        {referenceRangeEvaluation.ageExpectation && (
+                          <p className="text-xs text-muted-foreground mt-2">
+                            {referenceRangeEvaluation.ageExpectation.message}
+                          </p>
+                        )}
+                        {referenceRangeEvaluation.ranges.some(({ range }) => range.note) && (
                           <p className="text-xs text-muted-foreground mt-2 italic">
-                            {selectedCalculator.referenceRanges.find(r => r.note)?.note}
+                            {referenceRangeEvaluation.ranges.find(({ range }) => range.note)?.range.note}
                           </p>
                         )}
                       </div>
                     )}
 
                     <SmartResultActions
-                      calculatorId={selectedCalculator.id}
-                      result={result as number | Record<string, unknown> | null}
+                      result={result}
                       inputs={calculatorState as Record<string, unknown>}
                       onNavigate={(calcId) => handleSelectCalculator(calcId)}
                     />
@@ -5682,8 +3867,8 @@ export default function Dashboard() {
               );
               })()}
 
-              {/* Standalone Banff Result Display - shown when result is null but banffResult exists */}
-              {selectedCalculator.id === 'banff-classification' && banffResult && result === null && (
+              {/* Standalone Banff Result Display - Banff has no primary value, only the diagnosis payload */}
+              {selectedCalculator.id === 'banff-classification' && result && banffResult && (
                 <Card id="result-card" className="border-l-4 border-emerald-500 bg-emerald-500/5">
                   <CardHeader className="pb-2 flex flex-row items-center justify-between">
                     <CardTitle className="text-base flex items-center gap-2">
@@ -5697,8 +3882,7 @@ export default function Dashboard() {
                       onClick={() => {
                         const noteText = generateClinicalNote({
                           calculator: selectedCalculator,
-                          result: null,
-                          resultInterpretation: banffResult.diagnoses.filter(d => d.diagnosed).map(d => d.title).join('; ') || 'Normal',
+                          result,
                           calculatorState: calculatorState as Record<string, string>,
                           unitState,
                           getUnitLabel,
@@ -5827,8 +4011,8 @@ export default function Dashboard() {
               )}
 
               {/* Clinical Decision Support Recommendations */}
-              {result !== null && (() => {
-                const recKey = getRecommendationKey(selectedCalculator.id, typeof result === 'number' ? result : 0);
+              {primaryValue !== null && Number.isFinite(primaryValue) && (() => {
+                const recKey = getRecommendationKey(selectedCalculator.id, primaryValue);
                 const rec = recKey ? getRecommendations(selectedCalculator.id, recKey) : null;
 
                 if (!rec) return null;
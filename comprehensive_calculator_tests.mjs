@@ -5,7 +5,7 @@ import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 
 // Import calculator functions
-const calculatorsPath = './client/src/lib/calculators.ts';
+const calculatorsPath = './shared/engine/calculators.ts';
 
 // Define all test cases with expected values from established references
 const testCases = [
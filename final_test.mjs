@@ -1,5 +1,5 @@
 // Final comprehensive test of all calculator formulas
-import * as calc from './client/src/lib/calculators.ts';
+import * as calc from './shared/engine/calculators.ts';
 
 const tests = [
   // Kidney Function
@@ -0,0 +1,94 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createCalculatorApi } from "./calculatorApi";
+
+let server: Server;
+let baseUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use("/api", createCalculatorApi());
+  server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+function post(path: string, body: unknown) {
+  return fetch(baseUrl + path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+describe("calculator API", () => {
+  it("lists calculators with their input schemas", async () => {
+    const res = await fetch(`${baseUrl}/calculators`);
+    expect(res.status).toBe(200);
+    const { calculators } = await res.json();
+    expect(calculators.find((c: { id: string }) => c.id === "ckd-epi-creatinine")).toBeDefined();
+  });
+
+  it("answers unknown calculators with a JSON 404", async () => {
+    const res = await fetch(`${baseUrl}/calculators/no-such-calculator`);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: "Unknown calculator: no-such-calculator" });
+  });
+
+  it("serves the OpenAPI document", async () => {
+    const res = await fetch(`${baseUrl}/openapi.json`);
+    expect(res.status).toBe(200);
+    expect((await res.json()).openapi).toMatch(/^3\.1/);
+  });
+
+  it("computes a result with its band", async () => {
+    const res = await post("/calculators/ckd-epi-creatinine/compute", { values: { creatinine: 1.2, age: 55, sex: "M", race: "Other" } });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.result.primary.value).toBeGreaterThan(60);
+    expect(body.result.primary.value).toBeLessThan(90);
+    expect(body.band).toEqual({ label: expect.any(String), severity: expect.any(String) });
+  });
+
+  it("returns the plausibility warnings the app shows", async () => {
+    const res = await post("/calculators/ckd-epi-creatinine/compute", { values: { creatinine: 120, age: 55, sex: "M", race: "Other" } });
+    expect(res.status).toBe(200);
+    expect((await res.json()).result.warnings).toContainEqual(expect.stringMatching(/Serum Creatinine 120 mg\/dL is implausible; it looks like a value in .mol\/L/));
+  });
+
+  it("rejects missing inputs with a 400 and the inputs at fault", async () => {
+    const res = await post("/calculators/ckd-epi-creatinine/compute", { values: { age: 55, sex: "M", race: "Other" } });
+    expect(res.status).toBe(400);
+    expect((await res.json()).details).toContain("creatinine: required");
+  });
+
+  it("rejects an unknown formula version", async () => {
+    const res = await post("/calculators/ckd-epi-creatinine/compute", { values: { creatinine: 1, age: 55, sex: "M", race: "Other" }, formulaVersion: "0" });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toMatch(/^formulaVersion must be one of/);
+  });
+
+  it.each([0, -1])("answers creatinine %d with a 422 instead of a result", async (creatinine) => {
+    const res = await post("/calculators/ckd-epi-creatinine/compute", { values: { creatinine, age: 55, sex: "M", race: "Other" } });
+    expect(res.status).toBe(422);
+    const body = await res.json();
+    expect(body.error).toBe("Calculation failed");
+    expect(body.details).toContain("Result is not a finite number. Check that all required inputs are filled in.");
+  });
+
+  it("answers a malformed JSON body with a JSON 400 and no stack trace", async () => {
+    const res = await post("/calculators/ckd-epi-creatinine/compute", '{"values": {');
+    expect(res.status).toBe(400);
+    expect(res.headers.get("content-type")).toMatch(/application\/json/);
+    const text = await res.text();
+    expect(JSON.parse(text)).toEqual({ error: "Request body is not valid JSON" });
+    expect(text).not.toMatch(/at .*\.js/);
+  });
+});
@@ -0,0 +1,112 @@
+import express, { type Request, type Response } from "express";
+import {
+  buildOpenApiDocument,
+  calculators,
+  computeCalculator,
+  describeCalculator,
+  evaluateReferenceRanges,
+  getCalculatorById,
+  getFormulaVersions,
+  getResultColorCoding,
+  validateCalculatorValues,
+  withInputDefaults,
+  type CalculatorUnits,
+  type CalculatorValues,
+} from "@shared/engine";
+import { jsonErrorHandler } from "./jsonErrors";
+
+interface ComputeRequestBody {
+  values?: CalculatorValues;
+  units?: CalculatorUnits;
+  unitPreference?: "conventional" | "si";
+  formulaVersion?: string;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * REST API over the shared calculator engine.
+ *   GET  /api/calculators              - calculators with their input schemas
+ *   GET  /api/calculators/:id          - a single calculator schema
+ *   POST /api/calculators/:id/compute  - { values, units?, unitPreference?, formulaVersion? } -> structured result
+ *   GET  /api/openapi.json             - OpenAPI 3.1 description of the above
+ */
+export function createCalculatorApi() {
+  const router = express.Router();
+  router.use(express.json({ limit: "100kb" }));
+
+  const openApiDocument = buildOpenApiDocument(calculators);
+  router.get("/openapi.json", (_req: Request, res: Response) => {
+    res.json(openApiDocument);
+  });
+
+  router.get("/calculators", (_req: Request, res: Response) => {
+    res.json({ calculators: calculators.map(describeCalculator) });
+  });
+
+  router.get("/calculators/:id", (req: Request, res: Response) => {
+    const calculator = getCalculatorById(req.params.id);
+    if (!calculator) {
+      res.status(404).json({ error: `Unknown calculator: ${req.params.id}` });
+      return;
+    }
+    res.json(describeCalculator(calculator));
+  });
+
+  router.post("/calculators/:id/compute", (req: Request, res: Response) => {
+    const calculator = getCalculatorById(req.params.id);
+    if (!calculator) {
+      res.status(404).json({ error: `Unknown calculator: ${req.params.id}` });
+      return;
+    }
+
+    const body = (req.body ?? {}) as ComputeRequestBody;
+    if (!isPlainObject(body.values) || (body.units !== undefined && !isPlainObject(body.units))) {
+      res.status(400).json({ error: "Body must be { values: object, units?: object, unitPreference?: \"conventional\" | \"si\" }" });
+      return;
+    }
+    const unitPreference = body.unitPreference ?? "conventional";
+    if (unitPreference !== "conventional" && unitPreference !== "si") {
+      res.status(400).json({ error: 'unitPreference must be "conventional" or "si"' });
+      return;
+    }
+    const versions = getFormulaVersions(calculator).map((v) => v.version);
+    if (body.formulaVersion !== undefined && !versions.includes(body.formulaVersion)) {
+      res.status(400).json({ error: `formulaVersion must be one of: ${versions.join(", ")}` });
+      return;
+    }
+
+    const values = withInputDefaults(calculator, body.values);
+    const units = body.units ?? {};
+    const errors = validateCalculatorValues(calculator, values, units);
+    if (errors.length > 0) {
+      res.status(400).json({ error: "Invalid inputs", details: errors });
+      return;
+    }
+
+    try {
+      const result = computeCalculator(calculator, values, units, unitPreference, body.formulaVersion);
+      if (result.primary && !Number.isFinite(result.primary.value)) {
+        res.status(422).json({ error: "Calculation failed", details: result.warnings });
+        return;
+      }
+      const colorCoding = getResultColorCoding(result, values);
+      res.json({
+        result,
+        band: colorCoding ? { label: colorCoding.label, severity: colorCoding.severity } : null,
+        referenceRanges: evaluateReferenceRanges(calculator, result, values),
+      });
+    } catch (error) {
+      res.status(422).json({ error: "Calculation failed", details: [error instanceof Error ? error.message : String(error)] });
+    }
+  });
+
+  router.use((_req: Request, res: Response) => {
+    res.status(404).json({ error: "Not found" });
+  });
+  router.use(jsonErrorHandler);
+
+  return router;
+}
@@ -0,0 +1,212 @@
+import { once } from "node:events";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import express from "express";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { createCdsHooksRouter, type CdsCard } from "./cdsHooks";
+
+const PATIENT_ID = "test-patient";
+const LATEST = Date.parse("2026-03-10T08:00:00Z");
+const hoursBefore = (hours: number) => new Date(LATEST - hours * 60 * 60 * 1000).toISOString();
+const daysBefore = (days: number) => hoursBefore(days * 24);
+
+const searchset = (resources: unknown[]) => ({ resourceType: "Bundle", type: "searchset", entry: resources.map((resource) => ({ resource })) });
+
+const observation = (loinc: string, value: number, unit: string, date: string) => ({
+  resourceType: "Observation",
+  status: "final",
+  code: { coding: [{ system: "http://loinc.org", code: loinc }] },
+  effectiveDateTime: date,
+  valueQuantity: { value, unit, code: unit },
+});
+
+/** Creatinine series in mg/dL, as [hours before the latest, value] */
+const creatinine = (...series: [number, number][]) =>
+  searchset(series.map(([hours, value]) => observation("2160-0", value, "mg/dL", hoursBefore(hours))));
+
+const patient = { resourceType: "Patient", id: PATIENT_ID, gender: "male", birthDate: "1960-01-01" };
+
+const patientView = (prefetch: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+  hook: "patient-view",
+  hookInstance: "d1577c69-dfbe-44ad-ba6d-3e05e953b2ea",
+  context: { patientId: PATIENT_ID },
+  prefetch: { patient, cystatinC: null, uacr: null, medications: null, ...prefetch },
+  ...extra,
+});
+
+async function listen(app: express.Express): Promise<{ server: Server; url: string }> {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` };
+}
+
+// Stands in for an EHR FHIR server and records the queries it receives
+const fhirQueries: string[] = [];
+let fhir: { server: Server; url: string };
+let cds: { server: Server; url: string };
+
+beforeAll(async () => {
+  const fhirApp = express();
+  fhirApp.use((req, res) => {
+    fhirQueries.push(req.url);
+    const reply = () => res.json(req.path.startsWith("/Patient") ? patient : searchset([]));
+    if (req.path.startsWith("/slow")) setTimeout(reply, 500);
+    else reply();
+  });
+  fhir = await listen(fhirApp);
+
+  const app = express();
+  app.use(createCdsHooksRouter({ fhirServers: [fhir.url + "/r4", fhir.url + "/slow"], prefetchTimeoutMs: 100 }));
+  cds = await listen(app);
+});
+
+afterAll(() => {
+  cds.server.close();
+  fhir.server.close();
+});
+
+async function invoke(serviceId: string, body: unknown): Promise<Response> {
+  return fetch(`${cds.url}/cds-services/${serviceId}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: typeof body === "string" ? body : JSON.stringify(body),
+  });
+}
+
+async function cards(prefetch: Record<string, unknown>): Promise<CdsCard[]> {
+  const res = await invoke("kidney-function-review", patientView(prefetch));
+  expect(res.status).toBe(200);
+  return (await res.json()).cards;
+}
+
+const akiCard = (list: CdsCard[]) => list.find((c) => c.summary.startsWith("KDIGO AKI"));
+const egfrCard = (list: CdsCard[]) => list.find((c) => c.summary.startsWith("eGFR"));
+
+describe("CDS Hooks AKI staging", () => {
+  it("does not call a stable creatinine above 4.0 AKI", async () => {
+    const list = await cards({ creatinine: creatinine([0, 6.1], [72, 6.0]) });
+    expect(akiCard(list)).toBeUndefined();
+    expect(egfrCard(list)?.detail).not.toMatch(/not at steady state/);
+  });
+
+  it("needs the 0.3 mg/dL rise within 48 hours", async () => {
+    expect(akiCard(await cards({ creatinine: creatinine([0, 1.3], [120, 1.0]) }))).toBeUndefined();
+    expect(akiCard(await cards({ creatinine: creatinine([0, 1.3], [24, 1.0]) }))?.summary).toBe("KDIGO AKI stage 1");
+  });
+
+  it("stages a 1.5× rise over the prior 7 days", async () => {
+    const list = await cards({ creatinine: creatinine([0, 1.6], [144, 1.0]) });
+    expect(akiCard(list)?.summary).toBe("KDIGO AKI stage 1");
+    expect(egfrCard(list)?.detail).toMatch(/not at steady state/);
+  });
+
+  it("ignores creatinine older than 7 days", async () => {
+    expect(akiCard(await cards({ creatinine: creatinine([0, 2.0], [200, 1.0]) }))).toBeUndefined();
+  });
+
+  it("applies the 4.0 mg/dL stage 3 rule only with an acute rise", async () => {
+    const card = akiCard(await cards({ creatinine: creatinine([0, 4.1], [24, 3.7]) }));
+    expect(card?.summary).toBe("KDIGO AKI stage 3");
+    expect(card?.indicator).toBe("critical");
+  });
+
+  it("stages by the ratio to the lowest value in 7 days", async () => {
+    expect(akiCard(await cards({ creatinine: creatinine([0, 2.1], [24, 1.5], [96, 1.0]) }))?.summary).toBe("KDIGO AKI stage 2");
+  });
+});
+
+describe("CDS Hooks lab units", () => {
+  it("converts creatinine reported in µmol/L", async () => {
+    const list = await cards({ creatinine: searchset([observation("2160-0", 176.8, "umol/L", hoursBefore(0))]) });
+    expect(egfrCard(list)?.detail).toMatch(/creatinine 2 mg\/dL/);
+  });
+
+  it("leaves out values whose unit is missing or unrecognized", async () => {
+    const unconvertible = searchset([
+      observation("2160-0", 1.0, "mg/dL", hoursBefore(24)),
+      { ...observation("2160-0", 150, "", hoursBefore(0)), valueQuantity: { value: 150 } },
+      observation("2160-0", 160, "micromoles per litre", hoursBefore(0)),
+    ]);
+    expect(akiCard(await cards({ creatinine: unconvertible }))).toBeUndefined();
+  });
+
+  it("skips observations without a code", async () => {
+    const { code: _, ...uncoded } = observation("2160-0", 4.0, "mg/dL", hoursBefore(0));
+    const list = await cards({ creatinine: searchset([uncoded, ...creatinine([24, 2.0]).entry.map((e) => e.resource)]) });
+    expect(akiCard(list)).toBeUndefined();
+    expect(egfrCard(list)).toBeDefined();
+  });
+});
+
+describe("CDS Hooks eGFR", () => {
+  const cystatinC = (date: string) => searchset([observation("33863-2", 1.8, "mg/L", date)]);
+
+  it("combines creatinine with a cystatin C from the same week", async () => {
+    const list = await cards({ creatinine: creatinine([0, 2.0]), cystatinC: cystatinC(daysBefore(2)) });
+    expect(egfrCard(list)?.detail).toMatch(/creatinine-cystatin C: .*cystatin C 1\.8 mg\/L/);
+  });
+
+  it("ignores a cystatin C older than the creatinine window", async () => {
+    const list = await cards({ creatinine: creatinine([0, 2.0]), cystatinC: cystatinC(daysBefore(30)) });
+    expect(egfrCard(list)?.detail).toMatch(/CKD-EPI 2021 creatinine: /);
+    expect(egfrCard(list)?.detail).not.toMatch(/cystatin/);
+  });
+});
+
+describe("CDS Hooks service", () => {
+  it("lists its services", async () => {
+    const { services } = await (await fetch(`${cds.url}/cds-services`)).json();
+    expect(services.map((s: { id: string }) => s.id)).toEqual(["kidney-function-review", "kidney-medication-check"]);
+  });
+
+  it("rejects unknown services and mismatched hooks", async () => {
+    expect((await invoke("no-such-service", patientView({}))).status).toBe(404);
+    expect((await invoke("kidney-medication-check", patientView({}))).status).toBe(400);
+  });
+
+  it("answers a malformed JSON body with a JSON 400 and no stack trace", async () => {
+    const res = await invoke("kidney-function-review", '{"hook": ');
+    expect(res.status).toBe(400);
+    const text = await res.text();
+    expect(JSON.parse(text)).toEqual({ error: "Request body is not valid JSON" });
+    expect(text).not.toMatch(/at .*\.js/);
+  });
+
+  it("queries a configured FHIR server for missing prefetch", async () => {
+    fhirQueries.length = 0;
+    const res = await invoke("kidney-function-review", {
+      hook: "patient-view",
+      hookInstance: "4ad5ab49-0b5d-4d28-a8a7-8c8f2f3b6d0e",
+      fhirServer: fhir.url + "/r4/",
+      context: { patientId: PATIENT_ID },
+    });
+    expect(res.status).toBe(200);
+    expect(fhirQueries).toContain(`/r4/Patient/${PATIENT_ID}`);
+  });
+
+  it("answers with no cards when the FHIR server is too slow", async () => {
+    const started = Date.now();
+    const res = await invoke("kidney-function-review", {
+      hook: "patient-view",
+      hookInstance: "0c3b9f7e-2a61-4e0d-b8f5-6d4c1a9e7b23",
+      fhirServer: fhir.url + "/slow",
+      context: { patientId: PATIENT_ID },
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ cards: [] });
+    expect(Date.now() - started).toBeLessThan(500);
+  });
+
+  it("never fetches from a FHIR server it was not configured with", async () => {
+    fhirQueries.length = 0;
+    const res = await invoke("kidney-function-review", {
+      hook: "patient-view",
+      hookInstance: "9a2f6b1e-5c1d-4d52-9d3e-1f0c2b7a8e41",
+      fhirServer: fhir.url + "/internal",
+      context: { patientId: PATIENT_ID },
+      prefetch: { patient, creatinine: creatinine([0, 1.0]) },
+    });
+    expect(res.status).toBe(200);
+    expect(fhirQueries).toEqual([]);
+  });
+});
@@ -0,0 +1,503 @@
+import express, { type Request, type Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  conversionFactor,
+  findUnit,
+  formulas,
+  getRecommendationKey,
+  getRecommendations,
+  unitTypes,
+  type ClinicalRecommendation,
+  type UnitTypeId,
+} from "@shared/engine";
+import {
+  bundleResources,
+  LOINC_SYSTEM,
+  observationTime,
+  type Bundle,
+  type FhirResource,
+  type MedicationRequest,
+  type Observation,
+  type Patient,
+} from "@shared/fhir";
+import { jsonErrorHandler } from "./jsonErrors";
+
+// ============================================================================
+// CDS HOOKS 1.0 TYPES
+// ============================================================================
+
+interface CdsServiceRequest {
+  hook: string;
+  hookInstance: string;
+  fhirServer?: string;
+  fhirAuthorization?: { access_token: string };
+  context: {
+    userId?: string;
+    patientId: string;
+    selections?: string[];
+    draftOrders?: Bundle;
+  };
+  prefetch?: Record<string, FhirResource | null>;
+}
+
+export interface CdsCard {
+  uuid: string;
+  summary: string;
+  detail?: string;
+  indicator: "info" | "warning" | "critical";
+  source: { label: string };
+}
+
+interface CdsService {
+  id: string;
+  hook: "patient-view" | "order-select";
+  title: string;
+  description: string;
+  prefetch: Record<string, string>;
+}
+
+const CARD_SOURCE = { label: "Nephrology Calculator" };
+
+// LOINC codes accepted for each lab
+const LOINC = {
+  creatinine: ["2160-0", "38483-4", "14682-9"],
+  cystatinC: ["33863-2"],
+  uacr: ["9318-7", "14959-1", "32294-1"],
+};
+
+const loincQuery = (codes: string[]) => codes.map((code) => `${LOINC_SYSTEM}|${code}`).join(",");
+
+const labPrefetch = {
+  patient: "Patient/{{context.patientId}}",
+  creatinine: `Observation?patient={{context.patientId}}&code=${loincQuery(LOINC.creatinine)}&_sort=-date&_count=10`,
+  cystatinC: `Observation?patient={{context.patientId}}&code=${loincQuery(LOINC.cystatinC)}&_sort=-date&_count=1`,
+  uacr: `Observation?patient={{context.patientId}}&code=${loincQuery(LOINC.uacr)}&_sort=-date&_count=1`,
+};
+
+export const cdsServices: CdsService[] = [
+  {
+    id: "kidney-function-review",
+    hook: "patient-view",
+    title: "Kidney function review",
+    description: "CKD-EPI eGFR staging, KFRE kidney failure risk, KDIGO AKI staging and kidney medication review.",
+    prefetch: {
+      ...labPrefetch,
+      medications: "MedicationRequest?patient={{context.patientId}}&status=active",
+    },
+  },
+  {
+    id: "kidney-medication-check",
+    hook: "order-select",
+    title: "Kidney medication check",
+    description: "Checks selected medication orders against the patient's eGFR and AKI stage.",
+    prefetch: labPrefetch,
+  },
+];
+
+// ============================================================================
+// LAB EXTRACTION
+// ============================================================================
+
+interface LabValue {
+  value: number;
+  date: string;
+}
+
+// Convert a quantity to the canonical unit the formulas expect, or null when its unit is missing or unrecognized
+function toCanonical(unitType: UnitTypeId, value: number, unit: string | undefined): number | null {
+  const { analyte, canonical } = unitTypes[unitType];
+  const observed = unit ? findUnit(unit) : undefined;
+  const factor = observed ? conversionFactor(analyte, observed, canonical) : null;
+  return factor === null ? null : value * factor;
+}
+
+/**
+ * Matching lab values, newest first, converted to the unit type's canonical unit.
+ * Values whose unit can't be converted are left out rather than guessed at:
+ * a creatinine in µmol/L read as mg/dL would be about 88 times too high.
+ */
+function extractLab(resource: FhirResource | null | undefined, codes: string[], unitType: UnitTypeId): LabValue[] {
+  return bundleResources<Observation>(resource, "Observation")
+    .filter((obs) => obs.status !== "entered-in-error" && obs.status !== "cancelled")
+    .filter((obs) => obs.code?.coding?.some((c) => c.code && codes.includes(c.code)))
+    .filter((obs) => typeof obs.valueQuantity?.value === "number")
+    .flatMap((obs) => {
+      const value = toCanonical(unitType, obs.valueQuantity!.value!, obs.valueQuantity!.code ?? obs.valueQuantity!.unit);
+      return value === null ? [] : [{ value, date: observationTime(obs) }];
+    })
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function ageOn(birthDate: string, date: string): number {
+  const birth = new Date(birthDate);
+  const on = date ? new Date(date) : new Date();
+  let age = on.getFullYear() - birth.getFullYear();
+  const monthDiff = on.getMonth() - birth.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && on.getDate() < birth.getDate())) age--;
+  return age;
+}
+
+const formatDate = (date: string) => (date ? date.slice(0, 10) : "date unknown");
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// ============================================================================
+// KIDNEY ASSESSMENT
+// ============================================================================
+
+interface KidneyAssessment {
+  age: number | null;
+  sex: "M" | "F" | null;
+  creatinine: LabValue[];
+  cystatinC: LabValue | null;
+  uacr: LabValue | null;
+  egfr: number | null;
+  akiStage: number;
+  akiBaseline: LabValue | null;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const FORTY_EIGHT_HOURS_MS = 48 * HOUR_MS;
+const SEVEN_DAYS_MS = 7 * 24 * HOUR_MS;
+
+const labTime = (lab: LabValue) => new Date(lab.date).getTime();
+const lowest = (labs: LabValue[]) => labs.reduce<LabValue | null>((min, lab) => (!min || lab.value < min.value ? lab : min), null);
+
+function assessKidneyFunction(prefetch: Record<string, FhirResource | null>): KidneyAssessment {
+  const patient = bundleResources<Patient>(prefetch.patient, "Patient")[0];
+  const creatinine = extractLab(prefetch.creatinine, LOINC.creatinine, "creatinine");
+  const uacr = extractLab(prefetch.uacr, LOINC.uacr, "acr")[0] ?? null;
+  const latest = creatinine[0];
+  const latestTime = latest ? labTime(latest) : NaN;
+  // Cystatin C only pairs with creatinine drawn within the same 7-day window
+  const cystatinC =
+    extractLab(prefetch.cystatinC, LOINC.cystatinC, "cystatinC").find((lab) => latestTime - labTime(lab) <= SEVEN_DAYS_MS) ?? null;
+
+  const sex = patient?.gender === "male" ? "M" : patient?.gender === "female" ? "F" : null;
+  const age = patient?.birthDate && latest ? ageOn(patient.birthDate, latest.date) : null;
+
+  // CKD-EPI 2021 is validated in adults only; use the combined equation when cystatin C is available
+  let egfr: number | null = null;
+  if (latest && sex && age !== null && age >= 18) {
+    egfr = cystatinC
+      ? formulas.ckdEpiCystatinC(latest.value, cystatinC.value, age, sex)
+      : formulas.ckdEpiCreatinine(latest.value, age, sex);
+  }
+
+  // KDIGO AKI needs an acute rise: ≥0.3 mg/dL within 48 h, or ≥1.5× the lowest
+  // value in the prior 7 days. Only then is it staged, so a stable creatinine
+  // of 4.0 or more (CKD G5) is not called stage 3.
+  let akiStage = 0;
+  let akiBaseline: LabValue | null = null;
+  if (latest) {
+    const prior = creatinine.slice(1);
+    const baseline7d = lowest(prior.filter((lab) => latestTime - labTime(lab) <= SEVEN_DAYS_MS));
+    const baseline48h = lowest(prior.filter((lab) => latestTime - labTime(lab) <= FORTY_EIGHT_HOURS_MS));
+    const relativeRise = baseline7d !== null && latest.value >= 1.5 * baseline7d.value;
+    const absoluteRise = baseline48h !== null && latest.value - baseline48h.value >= 0.3;
+    if (relativeRise || absoluteRise) {
+      akiBaseline = relativeRise ? baseline7d : baseline48h;
+      akiStage = formulas.kdigoAkiStaging(baseline7d!.value, latest.value);
+    }
+  }
+
+  return { age, sex, creatinine, cystatinC, uacr, egfr, akiStage, akiBaseline };
+}
+
+// ============================================================================
+// MEDICATION RULES
+// ============================================================================
+
+interface MedicationFinding {
+  indicator: CdsCard["indicator"];
+  advice: string;
+}
+
+interface KidneyMedicationRule {
+  name: string;
+  pattern: RegExp;
+  check: (egfr: number | null, akiStage: number) => MedicationFinding | null;
+}
+
+const kidneyMedicationRules: KidneyMedicationRule[] = [
+  {
+    name: "NSAID",
+    pattern: /ibuprofen|naproxen|ketorolac|diclofenac|celecoxib|indomethacin|meloxicam|ketoprofen/i,
+    check: (egfr, akiStage) => {
+      if (akiStage > 0) return { indicator: "critical", advice: "Avoid NSAIDs during AKI." };
+      if (egfr !== null && egfr < 30) return { indicator: "warning", advice: "Avoid NSAIDs with eGFR <30." };
+      if (egfr !== null && egfr < 60) return { indicator: "info", advice: "Avoid prolonged NSAID use in CKD; monitor creatinine and potassium." };
+      return null;
+    },
+  },
+  {
+    name: "Metformin",
+    pattern: /metformin/i,
+    check: (egfr, akiStage) => {
+      if (akiStage > 0) return { indicator: "warning", advice: "Hold metformin during AKI (lactic acidosis risk)." };
+      if (egfr !== null && egfr < 30) return { indicator: "critical", advice: "Metformin is contraindicated with eGFR <30." };
+      if (egfr !== null && egfr < 45) return { indicator: "warning", advice: "Do not initiate metformin with eGFR 30-44; if continuing, limit to 1000 mg/day." };
+      return null;
+    },
+  },
+  {
+    name: "Aminoglycoside",
+    pattern: /gentamicin|tobramycin|amikacin/i,
+    check: (egfr, akiStage) => {
+      if (akiStage > 0 || (egfr !== null && egfr < 60)) {
+        return { indicator: "warning", advice: "Extend the dosing interval and monitor levels; consider a non-nephrotoxic alternative." };
+      }
+      return null;
+    },
+  },
+  {
+    name: "Vancomycin",
+    pattern: /vancomycin/i,
+    check: (egfr, akiStage) => {
+      if (akiStage > 0 || (egfr !== null && egfr < 60)) {
+        return { indicator: "warning", advice: "Use AUC-guided dosing (target AUC 400-600) and monitor creatinine." };
+      }
+      return null;
+    },
+  },
+];
+
+const medicationName = (med: MedicationRequest) =>
+  med.medicationCodeableConcept?.text ?? med.medicationCodeableConcept?.coding?.find((c) => c.display)?.display ?? "";
+
+function checkMedication(med: MedicationRequest, assessment: KidneyAssessment) {
+  const name = medicationName(med);
+  const rule = kidneyMedicationRules.find((r) => r.pattern.test(name));
+  const finding = rule?.check(assessment.egfr, assessment.akiStage);
+  return finding ? { name, finding } : null;
+}
+
+// ============================================================================
+// CARDS
+// ============================================================================
+
+const INDICATOR_RANK: Record<CdsCard["indicator"], number> = { info: 0, warning: 1, critical: 2 };
+
+const urgencyIndicator = (urgency: ClinicalRecommendation["urgency"]): CdsCard["indicator"] =>
+  urgency === "emergent" ? "critical" : urgency === "urgent" ? "warning" : "info";
+
+function card(summary: string, indicator: CdsCard["indicator"], detail?: string): CdsCard {
+  // CDS Hooks limits summary to 140 characters
+  return { uuid: randomUUID(), summary: summary.slice(0, 140), indicator, detail, source: CARD_SOURCE };
+}
+
+function recommendationDetail(rec: ClinicalRecommendation, basis: string, akiStage: number): string {
+  return [
+    rec.recommendation,
+    "",
+    ...rec.actionItems.map((item) => `- ${item}`),
+    "",
+    `_${basis}_`,
+    // eGFR equations assume steady-state creatinine
+    ...(akiStage > 0 ? ["", "**Creatinine is not at steady state (AKI); eGFR-based estimates may overestimate kidney function.**"] : []),
+  ].join("\n");
+}
+
+function egfrCard(assessment: KidneyAssessment): CdsCard | null {
+  const { egfr, creatinine, cystatinC, age, sex } = assessment;
+  // Only surface CKD G3 and below to keep the chart quiet
+  if (egfr === null || egfr >= 60) return null;
+  const key = getRecommendationKey("ckd-epi-creatinine", egfr);
+  const rec = key ? getRecommendations("ckd-epi-creatinine", key) : null;
+  if (!rec) return null;
+
+  const equation = cystatinC ? "CKD-EPI 2021 creatinine-cystatin C" : "CKD-EPI 2021 creatinine";
+  const basis = `${equation}: creatinine ${round(creatinine[0].value, 2)} mg/dL (${formatDate(creatinine[0].date)})` +
+    (cystatinC ? `, cystatin C ${round(cystatinC.value, 2)} mg/L` : "") +
+    `, age ${age}, ${sex === "F" ? "female" : "male"}`;
+  return card(`eGFR ${round(egfr)} mL/min/1.73m² - ${rec.condition}`, urgencyIndicator(rec.urgency), recommendationDetail(rec, basis, assessment.akiStage));
+}
+
+function kfreCard(assessment: KidneyAssessment): CdsCard | null {
+  const { egfr, uacr, age, sex } = assessment;
+  // KFRE is validated for CKD G3-G5
+  if (egfr === null || egfr >= 60 || !uacr || !sex || age === null) return null;
+  const twoYear = formulas.kfre(age, sex, egfr, uacr.value, "mg/g", 2);
+  const fiveYear = formulas.kfre(age, sex, egfr, uacr.value, "mg/g", 5);
+  const key = getRecommendationKey("kfre", fiveYear);
+  const rec = key ? getRecommendations("kfre", key) : null;
+  if (!rec) return null;
+
+  const basis = `KFRE 4-variable: eGFR ${round(egfr)}, UACR ${round(uacr.value)} mg/g (${formatDate(uacr.date)})`;
+  return card(
+    `Kidney failure risk ${round(twoYear)}% at 2 years, ${round(fiveYear)}% at 5 years - ${rec.condition}`,
+    urgencyIndicator(rec.urgency),
+    recommendationDetail(rec, basis, assessment.akiStage)
+  );
+}
+
+function akiCard(assessment: KidneyAssessment, medications: MedicationRequest[]): CdsCard | null {
+  const { akiStage, akiBaseline, creatinine } = assessment;
+  if (akiStage === 0 || !akiBaseline) return null;
+
+  const nephrotoxins = medications.map((med) => checkMedication(med, assessment)).filter((m) => m !== null);
+  const detail = [
+    `Creatinine rose from ${round(akiBaseline.value, 2)} mg/dL (${formatDate(akiBaseline.date)}) to ${round(creatinine[0].value, 2)} mg/dL (${formatDate(creatinine[0].date)}).`,
+    "",
+    "- Review volume status and urine output",
+    "- Hold nephrotoxins and renally dose medications",
+    "- Check urinalysis and consider FENa/FEUrea",
+    ...(nephrotoxins.length > 0 ? ["", `Active medications to review: ${nephrotoxins.map((m) => m.name).join(", ")}`] : []),
+  ].join("\n");
+  return card(`KDIGO AKI stage ${akiStage}`, akiStage >= 3 ? "critical" : "warning", detail);
+}
+
+function medicationReviewCard(medications: MedicationRequest[], assessment: KidneyAssessment): CdsCard | null {
+  const findings = medications.map((med) => checkMedication(med, assessment)).filter((m) => m !== null);
+  if (findings.length === 0) return null;
+  const indicator = findings.reduce<CdsCard["indicator"]>(
+    (worst, m) => (INDICATOR_RANK[m.finding.indicator] > INDICATOR_RANK[worst] ? m.finding.indicator : worst),
+    "info"
+  );
+  return card(
+    `${findings.length} active medication${findings.length === 1 ? " needs" : "s need"} kidney dose review`,
+    indicator,
+    findings.map((m) => `- **${m.name}**: ${m.finding.advice}`).join("\n")
+  );
+}
+
+function patientViewCards(prefetch: Record<string, FhirResource | null>): CdsCard[] {
+  const assessment = assessKidneyFunction(prefetch);
+  const medications = bundleResources<MedicationRequest>(prefetch.medications, "MedicationRequest");
+  return [
+    akiCard(assessment, medications),
+    egfrCard(assessment),
+    kfreCard(assessment),
+    medicationReviewCard(medications, assessment),
+  ].filter((c): c is CdsCard => c !== null);
+}
+
+function orderSelectCards(prefetch: Record<string, FhirResource | null>, context: CdsServiceRequest["context"]): CdsCard[] {
+  const assessment = assessKidneyFunction(prefetch);
+  const selections = context.selections ?? [];
+  const selected = bundleResources<MedicationRequest>(context.draftOrders, "MedicationRequest").filter(
+    (med) => selections.length === 0 || selections.includes(`MedicationRequest/${med.id}`)
+  );
+
+  const kidneyStatus = [
+    assessment.egfr !== null ? `eGFR ${round(assessment.egfr)} mL/min/1.73m²` : null,
+    assessment.akiStage > 0 ? `KDIGO AKI stage ${assessment.akiStage}` : null,
+  ].filter(Boolean).join(", ");
+
+  return selected
+    .map((med) => checkMedication(med, assessment))
+    .filter((m) => m !== null)
+    .map((m) => card(`${m.name}: ${m.finding.advice}`, m.finding.indicator, kidneyStatus ? `Current kidney status: ${kidneyStatus}.` : undefined));
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export interface CdsHooksOptions {
+  /**
+   * FHIR base URLs the service may query for missing prefetch. Requests naming
+   * any other fhirServer are answered from their prefetch alone, so callers
+   * can't make the server fetch arbitrary (e.g. internal) URLs. Defaults to the
+   * comma-separated CDS_FHIR_SERVERS environment variable.
+   */
+  fhirServers?: string[];
+  /** How long to wait for missing prefetch before answering with no cards */
+  prefetchTimeoutMs?: number;
+}
+
+const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+function configuredFhirServers(): string[] {
+  return (process.env.CDS_FHIR_SERVERS ?? "").split(",").map(normalizeBaseUrl).filter(Boolean);
+}
+
+// CDS clients expect an answer within seconds, so a slow FHIR server must not hold up the hook
+const PREFETCH_TIMEOUT_MS = 5000;
+
+/**
+ * Fetch prefetch keys the EHR did not supply, when it named a FHIR server we are
+ * configured to query. Null when the server doesn't answer within the timeout.
+ */
+async function resolvePrefetch(service: CdsService, request: CdsServiceRequest, fhirServers: string[], timeoutMs: number) {
+  const prefetch: Record<string, FhirResource | null> = { ...(request.prefetch ?? {}) };
+  const fhirServer = typeof request.fhirServer === "string" ? normalizeBaseUrl(request.fhirServer) : null;
+  if (!fhirServer || !fhirServers.includes(fhirServer)) return prefetch;
+  const signal = AbortSignal.timeout(timeoutMs);
+  for (const [key, template] of Object.entries(service.prefetch)) {
+    if (prefetch[key] !== undefined) continue;
+    const query = template.replace(/\{\{context\.patientId\}\}/g, encodeURIComponent(request.context.patientId));
+    try {
+      const response = await fetch(`${fhirServer}/${query}`, {
+        headers: {
+          Accept: "application/fhir+json",
+          ...(request.fhirAuthorization ? { Authorization: `Bearer ${request.fhirAuthorization.access_token}` } : {}),
+        },
+        signal,
+      });
+      prefetch[key] = response.ok ? ((await response.json()) as FhirResource) : null;
+    } catch (error) {
+      if (signal.aborted) return null;
+      throw error;
+    }
+  }
+  return prefetch;
+}
+
+/**
+ * CDS Hooks 1.0 service.
+ *   GET  /cds-services      - discovery
+ *   POST /cds-services/:id  - invoke a service; responds with { cards }
+ */
+export function createCdsHooksRouter(options: CdsHooksOptions = {}) {
+  const router = express.Router();
+  const fhirServers = (options.fhirServers ?? configuredFhirServers()).map(normalizeBaseUrl);
+  const prefetchTimeoutMs = options.prefetchTimeoutMs ?? PREFETCH_TIMEOUT_MS;
+
+  // EHR sandboxes call services cross-origin
+  router.use("/cds-services", (req, res, next) => {
+    res.header("Access-Control-Allow-Origin", "*");
+    res.header("Access-Control-Allow-Headers", "Authorization, Content-Type");
+    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.sendStatus(204);
+      return;
+    }
+    next();
+  });
+  router.use("/cds-services", express.json({ limit: "2mb" }));
+
+  router.get("/cds-services", (_req: Request, res: Response) => {
+    res.json({ services: cdsServices });
+  });
+
+  router.post("/cds-services/:id", async (req: Request, res: Response) => {
+    const service = cdsServices.find((s) => s.id === req.params.id);
+    if (!service) {
+      res.status(404).json({ error: `Unknown CDS service: ${req.params.id}` });
+      return;
+    }
+
+    const body = req.body as CdsServiceRequest;
+    if (body?.hook !== service.hook || !body.context?.patientId) {
+      res.status(400).json({ error: `Expected a ${service.hook} request with context.patientId` });
+      return;
+    }
+
+    try {
+      const prefetch = await resolvePrefetch(service, body, fhirServers, prefetchTimeoutMs);
+      if (!prefetch) {
+        console.warn(`CDS Hooks: FHIR server did not answer within ${prefetchTimeoutMs} ms`);
+        res.json({ cards: [] });
+        return;
+      }
+      const cards = service.hook === "patient-view" ? patientViewCards(prefetch) : orderSelectCards(prefetch, body.context);
+      res.json({ cards });
+    } catch (error) {
+      console.error("CDS Hooks error:", error);
+      res.status(500).json({ error: "Failed to evaluate CDS service" });
+    }
+  });
+  router.use("/cds-services", jsonErrorHandler);
+
+  return router;
+}
@@ -0,0 +1,24 @@
+import type { ErrorRequestHandler } from "express";
+
+/**
+ * Error handler for JSON routers. Without it a malformed body falls through
+ * to Express's default HTML error page, which includes the stack trace.
+ * Client errors (bad JSON, oversized body) keep their 4xx status; anything
+ * else is a 500 with no details.
+ */
+export const jsonErrorHandler: ErrorRequestHandler = (error, _req, res, next) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  const status = typeof error?.status === "number" && error.status >= 400 && error.status < 500 ? error.status : 500;
+  const message =
+    status === 500
+      ? "Internal server error"
+      : error.type === "entity.parse.failed"
+        ? "Request body is not valid JSON"
+        : error.type === "entity.too.large"
+          ? "Request body is too large"
+          : String(error.message ?? "Bad request");
+  res.status(status).json({ error: message });
+};
@@ -0,0 +1,133 @@
+/**
+ * Mock EHR harness for the CDS Hooks service.
+ * Starts the hooks router on a random local port, then plays the EHR side:
+ * discovery, a patient-view call with prefetched labs and medications, and
+ * an order-select call for a draft NSAID order. Prints the returned cards.
+ *
+ * Usage: pnpm cds:mock
+ */
+import express from "express";
+import type { AddressInfo } from "net";
+import { createCdsHooksRouter } from "./cdsHooks";
+
+const PATIENT_ID = "mock-patient-1";
+
+const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const observation = (id: string, loinc: string, display: string, value: number, unit: string, date: string) => ({
+  resourceType: "Observation",
+  id,
+  status: "final",
+  code: { coding: [{ system: "http://loinc.org", code: loinc, display }] },
+  subject: { reference: `Patient/${PATIENT_ID}` },
+  effectiveDateTime: date,
+  valueQuantity: { value, unit, system: "http://unitsofmeasure.org", code: unit },
+});
+
+const searchset = (resources: unknown[]) => ({
+  resourceType: "Bundle",
+  type: "searchset",
+  entry: resources.map((resource) => ({ resource })),
+});
+
+const medicationRequest = (id: string, name: string, status: string) => ({
+  resourceType: "MedicationRequest",
+  id,
+  status,
+  intent: "order",
+  subject: { reference: `Patient/${PATIENT_ID}` },
+  medicationCodeableConcept: { text: name },
+});
+
+// 68-year-old man, CKD G3b with albuminuria and a creatinine rise over the last 3 days
+const labPrefetch = {
+  patient: {
+    resourceType: "Patient",
+    id: PATIENT_ID,
+    gender: "male",
+    birthDate: `${new Date().getFullYear() - 68}-03-15`,
+  },
+  creatinine: searchset([
+    observation("cr-3", "14682-9", "Creatinine [Moles/volume] in Serum or Plasma", 203, "umol/L", daysAgo(0)),
+    observation("cr-2", "2160-0", "Creatinine [Mass/volume] in Serum or Plasma", 1.6, "mg/dL", daysAgo(2)),
+    observation("cr-1", "2160-0", "Creatinine [Mass/volume] in Serum or Plasma", 1.5, "mg/dL", daysAgo(3)),
+  ]),
+  cystatinC: null,
+  uacr: searchset([
+    observation("uacr-1", "9318-7", "Albumin/Creatinine [Mass Ratio] in Urine", 420, "mg/g", daysAgo(30)),
+  ]),
+};
+
+function printCards(label: string, response: { cards?: { indicator: string; summary: string; detail?: string }[] }) {
+  console.log(`\n=== ${label}: ${response.cards?.length ?? 0} card(s) ===`);
+  for (const card of response.cards ?? []) {
+    console.log(`\n[${card.indicator.toUpperCase()}] ${card.summary}`);
+    if (card.detail) console.log(card.detail.replace(/^/gm, "    "));
+  }
+}
+
+async function run() {
+  const app = express();
+  app.use(createCdsHooksRouter());
+  const server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/cds-services`;
+
+  const post = async (serviceId: string, body: unknown) => {
+    const res = await fetch(`${base}/${serviceId}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    return res.json();
+  };
+
+  try {
+    const discovery = await (await fetch(base)).json();
+    console.log("Discovered services:");
+    for (const service of discovery.services) {
+      console.log(`  ${service.id} (${service.hook}) - ${service.title}`);
+    }
+
+    printCards(
+      "patient-view",
+      await post("kidney-function-review", {
+        hook: "patient-view",
+        hookInstance: crypto.randomUUID(),
+        context: { userId: "Practitioner/mock", patientId: PATIENT_ID },
+        prefetch: {
+          ...labPrefetch,
+          medications: searchset([
+            medicationRequest("med-1", "Metformin 1000 mg tablet", "active"),
+            medicationRequest("med-2", "Lisinopril 10 mg tablet", "active"),
+          ]),
+        },
+      })
+    );
+
+    printCards(
+      "order-select",
+      await post("kidney-medication-check", {
+        hook: "order-select",
+        hookInstance: crypto.randomUUID(),
+        context: {
+          userId: "Practitioner/mock",
+          patientId: PATIENT_ID,
+          selections: ["MedicationRequest/draft-1"],
+          draftOrders: searchset([
+            medicationRequest("draft-1", "Ibuprofen 600 mg tablet", "draft"),
+            medicationRequest("draft-2", "Acetaminophen 500 mg tablet", "draft"),
+          ]),
+        },
+        prefetch: labPrefetch,
+      })
+    );
+  } finally {
+    server.close();
+  }
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,7 +1,21 @@
 /**
  * Calculator Data Definitions
- * All 52 calculators with metadata, inputs, and interpretation guides
+ * All 52 calculators with metadata, inputs, interpretation guides and compute functions
  */
+import * as calc from "./calculators";
+import { getValueColorCoding } from "./resultColorCoding";
+import { bandInterpretation } from "./severityBands";
+import { checkPlausibility } from "./plausibility";
+import { unitLabel, type UnitTypeId } from "./unitRegistry";
+import {
+  createComputeInputs,
+  getUnitType,
+  type CalculatorUnits,
+  type CalculatorValues,
+  type ComputeInputs,
+  type UnitPreference,
+} from "./calculatorInputs";
+
 export interface CalculatorInput {
   id: string;
   label: string;
@@ -14,10 +28,8 @@ export interface CalculatorInput {
   min?: number;
   max?: number;
   step?: number;
-  unitToggle?: {
-    units: string[];
-    conversionFactor: number;
-  };
+  /** What the input measures; drives its unit toggle and the canonical unit compute receives */
+  unitType?: UnitTypeId;
   default?: number | string;
 }
 export interface ReferenceRange {
@@ -25,10 +37,40 @@ export interface ReferenceRange {
   min?: number;
   max?: number;
   unit: string;
-  ageRange?: string;
+  /** Ages in years the range applies to, inclusive; see referenceRanges.ts */
+  ageRange?: { min?: number; max?: number };
   sex?: "M" | "F" | "all";
   note?: string;
 }
+/** A case the calculator must reproduce, worked independently of the implementation */
+export interface ReferenceCase {
+  description: string;
+  /** Inputs as the form stores them; checkboxes are "on" or "" */
+  values: CalculatorValues;
+  /** Unit selections; conventional units when omitted */
+  units?: CalculatorUnits;
+  /** Expected primary result, or the `output` secondary value; null when the result is non-numeric */
+  expected: number | null;
+  /** Label of a secondary result to check instead of the primary one */
+  output?: string;
+  tolerance: number;
+  /** Text the interpretation must contain, for categorical results */
+  interpretation?: string;
+  /** Formula version to compute with; the current one when omitted */
+  formulaVersion?: string;
+  /**
+   * Where the expected value comes from. Says when it was derived from the
+   * cited equation or scoring rules rather than printed there as a worked example.
+   */
+  citation: string;
+}
+/** A superseded formula kept selectable so historical results can be reproduced */
+export interface PreviousFormulaVersion {
+  version: string;
+  /** Equation or table edition, e.g. "CKD-EPI 2009" */
+  source: string;
+  compute(inputs: ComputeInputs): ComputeResult;
+}
 export interface Calculator {
   id: string;
   name: string;
@@ -40,10 +82,74 @@ export interface Calculator {
   resultLabel: string;
   resultUnit?: string;
   interpretation: (value: number, inputs?: Record<string, unknown>) => string;
+  compute(inputs: ComputeInputs): ComputeResult;
   referenceRanges?: ReferenceRange[];
   clinicalPearls: string[];
   references: string[];
+  /** Bumped whenever the formula or its interpretation changes; "1" when omitted */
+  formulaVersion?: string;
+  /** Equation or table edition the current version implements; the first reference when omitted */
+  formulaSource?: string;
+  /** Superseded versions that can still be selected to reproduce historical results */
+  previousVersions?: PreviousFormulaVersion[];
+  referenceCases?: ReferenceCase[];
 }
+// Rich payloads for calculators with a custom result display
+export type CalculatorDetail =
+  | { kind: "kdpi"; data: { kdri: number; kdpi: number } }
+  | { kind: "frax"; data: { majorFracture: number; hipFracture: number } }
+  | { kind: "banff"; data: calc.BanffResult }
+  | { kind: "mehran"; data: calc.MehranResult }
+  | { kind: "anticoagReversal"; data: calc.AnticoagulantReversalResult }
+  | { kind: "steroidConversion"; data: calc.SteroidConversionResult }
+  | { kind: "plasmaExchange"; data: calc.PlasmaExchangeResult }
+  | { kind: "ekfc"; data: { patientCreatinine: number } };
+
+export interface ResultValue {
+  label: string;
+  value: number;
+  unit?: string;
+}
+
+export type ResultSeverity = "success" | "info" | "warning" | "danger" | "neutral";
+
+export interface ResultProvenance {
+  calculatorId: string;
+  calculatorName: string;
+  formulaVersion: string;
+  formulaSource: string;
+  references: string[];
+  computedAt: string;
+}
+
+// What a calculator's compute function returns; computeCalculator fills in the rest
+export interface ComputeResult {
+  /** Primary numeric result, or null for calculators with only a custom display */
+  value: number | null;
+  secondary?: ResultValue[];
+  /** Overrides the calculator's interpretation(value) text; "" hides it */
+  interpretation?: string;
+  /** One-line result for the recent calculations list */
+  summary?: string;
+  warnings?: string[];
+  detail?: CalculatorDetail;
+}
+
+/**
+ * Structured calculator result. Discriminated on `kind`: plain results are
+ * "value", calculators with a custom display carry their payload in `data`.
+ */
+export type CalculatorResult = ({ kind: "value" } | CalculatorDetail) & {
+  calculatorId: string;
+  primary: ResultValue | null;
+  secondary: ResultValue[];
+  severity: ResultSeverity;
+  interpretation: string;
+  warnings: string[];
+  summary: string;
+  provenance: ResultProvenance;
+};
+
 export const calculators: Calculator[] = [
   // ============================================================================
   // KIDNEY FUNCTION & CKD RISK
@@ -56,21 +162,37 @@ export const calculators: Calculator[] = [
     whenToUse: "Use for routine eGFR estimation in adults with stable kidney function.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "45", required: true, min: 18, max: 120 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
       { id: "race", label: "Race", type: "select", options: [{ value: "Black", label: "African American" }, { value: "Other", label: "Other" }], required: true },
     ],
     resultLabel: "eGFR",
     resultUnit: "mL/min/1.73m²",
-    interpretation: (value) => {
-      if (value >= 90) return "Normal kidney function (CKD Stage 1)";
-      if (value >= 60) return "Mild decrease in kidney function (CKD Stage 2)";
-      if (value >= 45) return "Mild to moderate decrease (CKD Stage 3a)";
-      if (value >= 30) return "Moderate to severe decrease (CKD Stage 3b)";
-      if (value >= 15) return "Severe decrease in kidney function (CKD Stage 4)";
-      return "Kidney failure (CKD Stage 5) - Consider dialysis/transplant planning";
+    formulaSource: "CKD-EPI 2021 race-free creatinine equation (Inker 2021)",
+    previousVersions: [
+      {
+        version: "2009",
+        source: "CKD-EPI 2009 creatinine equation with race coefficient (Levey 2009)",
+        compute({ values: v, num, value }) {
+          return {
+            value: calc.ckdEpiCreatinine2009(value("creatinine"), num("age"), v.sex as "M" | "F", v.race as "Black" | "Other", "mg/dL"),
+          };
+        },
+      },
+    ],
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.ckdEpiCreatinine(
+          value("creatinine"),
+          num("age"),
+          v.sex as "M" | "F",
+          v.race as "Black" | "Other",
+          "mg/dL"
+        ),
+      };
     },
+    interpretation: bandInterpretation("ckd-epi-creatinine"),
     referenceRanges: [
       { label: "Normal (Stage 1)", min: 90, unit: "mL/min/1.73m²", note: "Normal or high GFR" },
       { label: "Mild decrease (Stage 2)", min: 60, max: 89, unit: "mL/min/1.73m²" },
@@ -85,7 +207,41 @@ export const calculators: Calculator[] = [
       "Use for CKD staging and medication dosing",
       "Compare with cystatin C if creatinine unreliable",
     ],
-    references: ["Inker LA et al. N Engl J Med. 2021;385(19):1737-1749"],
+    references: ["Inker LA et al. N Engl J Med. 2021;385(19):1737-1749", "Levey AS et al. Ann Intern Med. 2009;150(9):604-612"],
+    referenceCases: [
+      {
+        description: "55-year-old man, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "55", sex: "M", race: "Other" },
+        expected: 71.4,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Inker LA et al. N Engl J Med. 2021;385(19):1737-1749 (race-free CKD-EPI 2021 creatinine equation)",
+      },
+      {
+        description: "62-year-old woman, creatinine 124 µmol/L (SI units)",
+        values: { creatinine: "124", age: "62", sex: "F", race: "Other" },
+        units: { creatinine: "si" },
+        expected: 42.4,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Inker LA et al. N Engl J Med. 2021;385(19):1737-1749 (race-free CKD-EPI 2021 creatinine equation)",
+      },
+      {
+        description: "Formula version 2009: 55-year-old man, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "55", sex: "M", race: "Other" },
+        formulaVersion: "2009",
+        expected: 67.7,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Levey AS et al. Ann Intern Med. 2009;150(9):604-612 (CKD-EPI 2009 creatinine equation)",
+      },
+      {
+        description: "Formula version 2009: 62-year-old Black woman, creatinine 124 µmol/L (SI units)",
+        values: { creatinine: "124", age: "62", sex: "F", race: "Black" },
+        units: { creatinine: "si" },
+        formulaVersion: "2009",
+        expected: 46.3,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Levey AS et al. Ann Intern Med. 2009;150(9):604-612 (CKD-EPI 2009 creatinine equation, Table 2 coefficient 166 for Black women)",
+      },
+    ],
   },
   {
     id: "cockcroft-gault",
@@ -95,19 +251,25 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when drug dosing requires creatinine clearance rather than eGFR.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "45", required: true },
       { id: "weight", label: "Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "Creatinine Clearance",
     resultUnit: "mL/min",
-    interpretation: (value) => {
-      if (value >= 90) return "Normal kidney function";
-      if (value >= 60) return "Mild reduction";
-      if (value >= 30) return "Moderate reduction";
-      return "Severe reduction - adjust drug dosing";
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.cockcrofGault(
+          value("creatinine"),
+          num("age"),
+          num("weight"),
+          v.sex as "M" | "F",
+          "mg/dL"
+        ),
+      };
     },
+    interpretation: bandInterpretation("cockcroft-gault"),
     referenceRanges: [
       { label: "Normal", min: 90, unit: "mL/min" },
       { label: "Mild reduction", min: 60, max: 89, unit: "mL/min" },
@@ -120,6 +282,22 @@ export const calculators: Calculator[] = [
       "Less accurate in elderly and obese patients",
     ],
     references: ["Cockcroft DW, Gault MH. Nephron. 1976;16(1):31-41"],
+    referenceCases: [
+      {
+        description: "55-year-old man, 70 kg, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "55", weight: "70", sex: "M" },
+        expected: 68.866,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Cockcroft DW, Gault MH. Nephron. 1976;16(1):31-41",
+      },
+      {
+        description: "80-year-old woman, 55 kg, creatinine 1.0 mg/dL",
+        values: { creatinine: "1.0", age: "80", weight: "55", sex: "F" },
+        expected: 38.958,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Cockcroft DW, Gault MH. Nephron. 1976;16(1):31-41 (× 0.85 for women)",
+      },
+    ],
   },
   {
     id: "schwartz-pediatric",
@@ -129,23 +307,30 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to estimate kidney function in children and adolescents under 18.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "0.5", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "140", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "0.5", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "140", required: true },
     ],
     resultLabel: "eGFR",
     resultUnit: "mL/min/1.73m²",
-    interpretation: (value) => {
-      if (value >= 90) return "Normal kidney function";
-      if (value >= 60) return "Mild decrease";
-      if (value >= 30) return "Moderate decrease";
-      return "Severe decrease - nephrologist referral needed";
+    compute({ value }) {
+      return { value: calc.schwartzPediatric(value("creatinine"), value("height"), "mg/dL") };
     },
+    interpretation: bandInterpretation("schwartz-pediatric"),
     clinicalPearls: [
       "Use in children and adolescents",
       "Height-dependent formula",
       "Updated versions available for different age groups",
     ],
     references: ["Schwartz GJ et al. Kidney Int. 2009;76(2):159-166"],
+    referenceCases: [
+      {
+        description: "Child 120 cm, creatinine 0.5 mg/dL",
+        values: { creatinine: "0.5", height: "120" },
+        expected: 99.12,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Schwartz GJ et al. J Am Soc Nephrol. 2009;20(3):629-637 (bedside Schwartz, k = 0.413)",
+      },
+    ],
   },
   {
     id: "kinetic-egfr",
@@ -155,9 +340,9 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when serum creatinine is acutely rising or falling, such as in AKI or recovery.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "baselineCreatinine", label: "Baseline (Stable) Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
-      { id: "creatinine1", label: "First Creatinine (Cr\u2081)", type: "number", unit: "mg/dL", placeholder: "2.0", required: true },
-      { id: "creatinine2", label: "Second Creatinine (Cr\u2082)", type: "number", unit: "mg/dL", placeholder: "3.0", required: true },
+      { id: "baselineCreatinine", label: "Baseline (Stable) Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
+      { id: "creatinine1", label: "First Creatinine (Cr\u2081)", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "2.0", required: true },
+      { id: "creatinine2", label: "Second Creatinine (Cr\u2082)", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "3.0", required: true },
       { id: "timeInterval", label: "Time Between Cr\u2081 and Cr\u2082", type: "number", unit: "hours", placeholder: "24", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "60", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
@@ -165,6 +350,19 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Kinetic eGFR",
     resultUnit: "mL/min/1.73m²",
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.kineticEgfr(
+          value("baselineCreatinine"),
+          value("creatinine1"),
+          value("creatinine2"),
+          num("timeInterval"),
+          num("age"),
+          v.sex as "M" | "F",
+          v.isBlack === "yes"
+        ),
+      };
+    },
     interpretation: (value) => {
       if (value >= 90) return "Normal or near-normal kidney function";
       if (value >= 60) return "Mildly decreased (CKD G2 equivalent)";
@@ -184,6 +382,23 @@ export const calculators: Calculator[] = [
       "Chen S. Retooling the creatinine clearance equation to estimate kinetic GFR. Am J Kidney Dis. 2013;62(6):1171-1172",
       "Levey AS et al. A more accurate method to estimate glomerular filtration rate from serum creatinine. Ann Intern Med. 2006;145(4):247-254 (MDRD)",
     ],
+    referenceCases: [
+      {
+        description: "60-year-old man, baseline 1.0, creatinine 1.5 → 2.0 mg/dL over 24 h",
+        values: {
+          baselineCreatinine: "1.0",
+          creatinine1: "1.5",
+          creatinine2: "2.0",
+          timeInterval: "24",
+          age: "60",
+          sex: "M",
+          isBlack: "no",
+        },
+        expected: 29.037,
+        tolerance: 0.5,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Chen S. Am J Kidney Dis. 2013;62(6):1171-1172 (KeGFR with MDRD baseline eGFR and a maximal creatinine rise of 1.5 mg/dL/day, as in MDCalc)",
+      },
+    ],
   },
   {
     id: "ckd-epi-cystatin-c",
@@ -193,25 +408,40 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when creatinine-based eGFR may be inaccurate, such as in extremes of muscle mass or diet.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
-      { id: "cystatinC", label: "Cystatin C", type: "number", unit: "mg/L", placeholder: "0.8", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
+      { id: "cystatinC", label: "Cystatin C", type: "number", unit: "mg/L", unitType: "cystatinC", placeholder: "0.8", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "45", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "eGFR",
     resultUnit: "mL/min/1.73m²",
-    interpretation: (value) => {
-      if (value >= 90) return "Normal kidney function";
-      if (value >= 60) return "Mild decrease";
-      if (value >= 30) return "Moderate to severe decrease";
-      return "Severe decrease - kidney failure";
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.ckdEpiCystatinC(
+          value("creatinine"),
+          value("cystatinC"),
+          num("age"),
+          v.sex as "M" | "F",
+          "mg/dL"
+        ),
+      };
     },
+    interpretation: bandInterpretation("ckd-epi-cystatin-c"),
     clinicalPearls: [
       "Less biased than creatinine-only equation",
       "Useful in extremes of muscle mass (sarcopenia, athletes)",
       "Recommended when creatinine-based eGFR doesn't fit clinical picture",
     ],
     references: ["Inker LA et al. N Engl J Med. 2021;385(19):1737-1749"],
+    referenceCases: [
+      {
+        description: "55-year-old woman, creatinine 1.1 mg/dL, cystatin C 1.2 mg/L",
+        values: { creatinine: "1.1", cystatinC: "1.2", age: "55", sex: "F" },
+        expected: 59.819,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Inker LA et al. N Engl J Med. 2021;385(19):1737-1749 (CKD-EPI 2021 creatinine–cystatin C equation)",
+      },
+    ],
   },
   {
     id: "egfr-slope",
@@ -227,18 +457,25 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "eGFR Decline Rate",
     resultUnit: "mL/min/1.73m²/year",
-    interpretation: (value) => {
-      if (value > -1) return "Normal aging rate";
-      if (value > -3) return "Mild CKD progression";
-      if (value > -5) return "Moderate CKD progression";
-      return "Rapid progression - investigate for acute process or adjust treatment";
+    compute({ num }) {
+      return { value: calc.eGFRSlope(num("eGFRBaseline"), num("eGFRFinal"), num("timeYears")) };
     },
+    interpretation: bandInterpretation("egfr-slope"),
     clinicalPearls: [
       "Normal aging: -0.5 to -1 mL/min/1.73m²/year",
       ">20% decline in 1 year suggests acute process",
       ">30% acute dip acceptable after RAAS inhibitor initiation",
     ],
     references: ["KDIGO CKD Work Group. KDIGO 2024 Clinical Practice Guideline for the Evaluation and Management of Chronic Kidney Disease. Kidney Int. 2024;105(4S):S117-S314"],
+    referenceCases: [
+      {
+        description: "eGFR 60 → 48 over 3 years",
+        values: { eGFRBaseline: "60", eGFRFinal: "48", timeYears: "3" },
+        expected: -4,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO 2024 CKD Guideline. Kidney Int. 2024;105(4S):S117-S314 (annualised eGFR change; > 5 mL/min/1.73m²/year is rapid progression)",
+      },
+    ],
   },
   {
     id: "kfre",
@@ -251,24 +488,47 @@ export const calculators: Calculator[] = [
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "55", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
       { id: "eGFR", label: "eGFR", type: "number", unit: "mL/min/1.73m²", placeholder: "35", required: true },
-      { id: "acr", label: "Albumin-Creatinine Ratio", type: "number", unit: "mg/mmol", placeholder: "34", required: true, unitToggle: { units: ["mg/mmol", "mg/g", "mg/mg"], conversionFactor: 1 } },
+      { id: "acr", label: "Albumin-Creatinine Ratio", type: "number", unit: "mg/mmol", unitType: "acr", placeholder: "34", required: true },
       { id: "years", label: "Prediction Timeframe", type: "select", options: [{ value: "2", label: "2-year risk" }, { value: "5", label: "5-year risk" }], required: true },
     ],
     resultLabel: "Kidney Failure Risk",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value < 3) return "Low risk - routine follow-up";
-      if (value < 5) return "Borderline - consider nephrology referral";
-      if (value < 20) return "Moderate risk - nephrology referral recommended";
-      if (value < 40) return "High risk - intensive management";
-      return "Very high risk - consider early transplant/dialysis planning";
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.kfre(
+          num("age"),
+          v.sex as "M" | "F",
+          num("eGFR"),
+          value("acr"),
+          "mg/g",
+          (num("years") || 5) as 2 | 5
+        ),
+      };
     },
+    interpretation: bandInterpretation("kfre"),
     clinicalPearls: [
       "Most validated CKD progression risk tool",
       "KDIGO 2024 recommends referral when 5-year risk ≥3-5%",
       "Risk >40% at 2 years = consider early transplant evaluation",
     ],
     references: ["Tangri N et al. JAMA. 2016;315(2):164-174"],
+    referenceCases: [
+      {
+        description: "70-year-old man, eGFR 30, ACR 100 mg/mmol, 5-year risk",
+        values: { age: "70", sex: "M", eGFR: "30", acr: "100", years: "5" },
+        expected: 30.805,
+        tolerance: 0.2,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Tangri N et al. JAMA. 2016;315(2):164-174 (4-variable KFRE, North American calibration)",
+      },
+      {
+        description: "60-year-old woman, eGFR 25, ACR 300 mg/g, 2-year risk",
+        values: { age: "60", sex: "F", eGFR: "25", acr: "300", years: "2" },
+        units: { acr: "mg/g" },
+        expected: 11.582,
+        tolerance: 0.2,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Tangri N et al. JAMA. 2016;315(2):164-174 (4-variable KFRE, North American calibration)",
+      },
+    ],
   },
   // ============================================================================
   // ACUTE KIDNEY INJURY (AKI) WORKUP
@@ -281,22 +541,24 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to differentiate prerenal AKI from acute tubular necrosis in oliguric patients.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", placeholder: "20", required: true },
-      { id: "plasmaCr", label: "Plasma Creatinine", type: "number", unit: "mg/dL", placeholder: "2.0", required: true },
-      { id: "plasmaNa", label: "Plasma Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true },
-      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", placeholder: "80", required: true },
+      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "20", required: true },
+      { id: "plasmaCr", label: "Plasma Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "2.0", required: true },
+      { id: "plasmaNa", label: "Plasma Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true },
+      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "80", required: true },
       { id: "onDiuretics", label: "On Diuretics?", type: "select", options: [{ value: "no", label: "No" }, { value: "yes", label: "Yes" }] },
       { id: "baselineEgfr", label: "Baseline eGFR (optional)", type: "number", unit: "mL/min", placeholder: "60" },
     ],
     resultLabel: "FENa",
     resultUnit: "%",
+    compute({ num, value }) {
+      return {
+        value: calc.fena(num("urineNa"), value("plasmaCr"), num("plasmaNa"), value("urineCr"), "mg/dL"),
+      };
+    },
     interpretation: (value, inputs) => {
       const onDiuretics = inputs?.onDiuretics === "yes";
       const baselineEgfr = Number(inputs?.baselineEgfr) || 0;
-      let base: string;
-      if (value < 1) base = "Prerenal azotemia (volume depletion, heart failure, cirrhosis)";
-      else if (value <= 2) base = "Indeterminate — consider clinical context";
-      else base = "Intrinsic AKI (acute tubular necrosis most likely)";
+      const base = bandInterpretation("fena")(value);
 
       const warnings: string[] = [];
       if (onDiuretics) warnings.push("⚠ Patient on diuretics — FENa is unreliable. Use FEUrea instead (threshold <35% = prerenal).");
@@ -318,6 +580,15 @@ export const calculators: Calculator[] = [
       "Espinel CH. The FENa test: use in the differential diagnosis of acute renal failure. JAMA. 1976;236(6):579-581",
       "Steiner RW. Interpreting the fractional excretion of sodium. Am J Med. 1984;77(4):699-702",
     ],
+    referenceCases: [
+      {
+        description: "Urine Na 20, plasma Cr 2.0, plasma Na 140, urine Cr 100",
+        values: { urineNa: "20", plasmaCr: "2.0", plasmaNa: "140", urineCr: "100", onDiuretics: "no" },
+        expected: 0.286,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Espinel CH. JAMA. 1976;236(6):579-581 (FENa = UNa × PCr / (PNa × UCr) × 100)",
+      },
+    ],
   },
   {
     id: "feurea",
@@ -327,24 +598,47 @@ export const calculators: Calculator[] = [
     whenToUse: "Use instead of FENa when the patient is on diuretics.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "urineUrea", label: "Urine Urea Nitrogen", type: "number", unit: "mg/dL", placeholder: "200", required: true },
-      { id: "plasmaCr", label: "Plasma Creatinine", type: "number", unit: "mg/dL", placeholder: "2.0", required: true },
-      { id: "plasmaUrea", label: "Plasma Urea Nitrogen", type: "number", unit: "mg/dL", placeholder: "40", required: true },
-      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", placeholder: "80", required: true },
+      { id: "urineUrea", label: "Urine Urea Nitrogen", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "200", required: true },
+      { id: "plasmaCr", label: "Plasma Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "2.0", required: true },
+      { id: "plasmaUrea", label: "Plasma Urea Nitrogen", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "40", required: true },
+      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "80", required: true },
     ],
     resultLabel: "FEUrea",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value < 35) return "Prerenal azotemia";
-      if (value <= 50) return "Indeterminate";
-      return "Intrinsic AKI (acute tubular necrosis)";
+    formulaVersion: "2",
+    formulaSource: "FEUrea with both urea levels converted from their selected BUN/urea unit",
+    previousVersions: [
+      {
+        version: "1",
+        source: "FEUrea with urea levels read as entered, ignoring the BUN/urea unit selection",
+        compute({ num, value }) {
+          return {
+            value: calc.feurea(num("urineUrea"), value("plasmaCr"), num("plasmaUrea"), value("urineCr"), "mg/dL"),
+          };
+        },
+      },
+    ],
+    compute({ value }) {
+      return {
+        value: calc.feurea(value("urineUrea"), value("plasmaCr"), value("plasmaUrea"), value("urineCr"), "mg/dL"),
+      };
     },
+    interpretation: bandInterpretation("feurea"),
     clinicalPearls: [
       "Superior to FENa in patients on diuretics",
       "Urea reabsorption unaffected by diuretics",
       "Limited added diagnostic value over FENa per recent meta-analysis",
     ],
     references: ["Carvounis CP et al. Kidney Int. 2002;62(6):2223-2229"],
+    referenceCases: [
+      {
+        description: "Urine urea 300, plasma Cr 2.0, plasma urea 60, urine Cr 100",
+        values: { urineUrea: "300", plasmaCr: "2.0", plasmaUrea: "60", urineCr: "100" },
+        expected: 10,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Carvounis CP et al. Kidney Int. 2002;62(6):2223-2229",
+      },
+    ],
   },
   {
     id: "anion-gap",
@@ -354,17 +648,16 @@ export const calculators: Calculator[] = [
     whenToUse: "Use as the first step when evaluating metabolic acidosis.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "sodium", label: "Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true },
-      { id: "chloride", label: "Chloride", type: "number", unit: "mEq/L", placeholder: "105", required: true },
-      { id: "bicarbonate", label: "Bicarbonate", type: "number", unit: "mEq/L", placeholder: "20", required: true },
+      { id: "sodium", label: "Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true },
+      { id: "chloride", label: "Chloride", type: "number", unit: "mEq/L", unitType: "chloride", placeholder: "105", required: true },
+      { id: "bicarbonate", label: "Bicarbonate", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "20", required: true },
     ],
     resultLabel: "Anion Gap",
     resultUnit: "mEq/L",
-    interpretation: (value) => {
-      if (value <= 12) return "Normal anion gap (NAGMA) - think HARDUPS";
-      if (value <= 16) return "Borderline high";
-      return "High anion gap (HAGMA) - think GOLDMARK";
+    compute({ num }) {
+      return { value: calc.anionGap(num("sodium"), num("chloride"), num("bicarbonate")) };
     },
+    interpretation: bandInterpretation("anion-gap"),
     referenceRanges: [
       { label: "Normal", min: 8, max: 12, unit: "mEq/L", note: "Varies by lab" },
       { label: "Borderline high", min: 13, max: 16, unit: "mEq/L" },
@@ -376,6 +669,15 @@ export const calculators: Calculator[] = [
       "Essential in DKA, lactic acidosis, toxic ingestions",
     ],
     references: ["Kraut JA, Madias NE. Clin J Am Soc Nephrol. 2007;2(1):162-174"],
+    referenceCases: [
+      {
+        description: "Na 140, Cl 100, HCO₃ 24",
+        values: { sodium: "140", chloride: "100", bicarbonate: "24" },
+        expected: 16,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Kraut JA, Madias NE. Clin J Am Soc Nephrol. 2007;2(1):162-174 (AG = Na − (Cl + HCO₃))",
+      },
+    ],
   },
   {
     id: "delta-gap",
@@ -386,23 +688,32 @@ export const calculators: Calculator[] = [
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
       { id: "measuredAG", label: "Measured Anion Gap", type: "number", unit: "mEq/L", placeholder: "20", required: true },
-      { id: "measuredHCO3", label: "Measured HCO3", type: "number", unit: "mEq/L", placeholder: "15", required: true },
+      { id: "measuredHCO3", label: "Measured HCO3", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "15", required: true },
       { id: "normalAG", label: "Normal AG", type: "number", unit: "mEq/L", placeholder: "12", required: true },
-      { id: "normalHCO3", label: "Normal HCO3", type: "number", unit: "mEq/L", placeholder: "24", required: true },
+      { id: "normalHCO3", label: "Normal HCO3", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "24", required: true },
     ],
     resultLabel: "Delta-Delta Ratio",
     resultUnit: "ratio",
-    interpretation: (value) => {
-      if (value >= 1 && value <= 2) return "Pure high anion gap metabolic acidosis";
-      if (value < 1) return "Combined HAGMA + normal anion gap metabolic acidosis";
-      return "Combined HAGMA + metabolic alkalosis";
+    compute({ num }) {
+      const deltaResult = calc.deltaGap(num("measuredAG"), num("measuredHCO3"), num("normalAG"), num("normalHCO3"));
+      return { value: deltaResult.ratio };
     },
+    interpretation: bandInterpretation("delta-gap"),
     clinicalPearls: [
       "Identifies mixed acid-base disorders",
       "Essential in DKA (concomitant vomiting causes alkalosis)",
       "Guides treatment strategy",
     ],
     references: ["Rastegar A. J Am Soc Nephrol. 2007;18(9):2429-2431"],
+    referenceCases: [
+      {
+        description: "AG 24, HCO₃ 12 against normal AG 12 and HCO₃ 24",
+        values: { measuredAG: "24", measuredHCO3: "12", normalAG: "12", normalHCO3: "24" },
+        expected: 1,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Rastegar A. J Am Soc Nephrol. 2007;18(9):2429-2431 (ΔAG/ΔHCO₃)",
+      },
+    ],
   },
   {
     id: "bun-creatinine-ratio",
@@ -412,11 +723,14 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to help differentiate prerenal azotemia from intrinsic kidney disease.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "bunValue", label: "BUN / Urea", type: "number", unit: "mg/dL", placeholder: "20", required: true },
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true, unitToggle: { units: ["mg/dL", "μmol/L"], conversionFactor: 88.4 } },
+      { id: "bunValue", label: "BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "20", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
     ],
     resultLabel: "BUN/Creatinine Ratio",
     resultUnit: "ratio",
+    compute({ value }) {
+      return { value: calc.bunCreatinineRatio(value("bunValue"), value("creatinine"), "mg/dL") };
+    },
     interpretation: (value) => {
       if (value < 10) return "Low - suggests intrinsic renal disease or decreased BUN production";
       if (value <= 20) return "Normal - proportional elevation or normal kidney function";
@@ -440,6 +754,15 @@ export const calculators: Calculator[] = [
       "Morgan DB et al. Renal failure as a cause of a raised BUN/creatinine ratio. Br Med J. 1977;2(6092):929-932",
       "Hosten AO. BUN and Creatinine. In: Walker HK, Hall WD, Hurst JW, eds. Clinical Methods. 3rd ed. Butterworths; 1990:874-878",
     ],
+    referenceCases: [
+      {
+        description: "BUN 40, creatinine 1.0 mg/dL",
+        values: { bunValue: "40", creatinine: "1.0" },
+        expected: 40,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Morgan DB et al. Br Med J. 1977;2(6092):929-932",
+      },
+    ],
   },
   {
     id: "osmolal-gap",
@@ -449,25 +772,43 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when toxic alcohol ingestion (methanol, ethylene glycol) is suspected.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "measuredOsmolality", label: "Measured Osmolality", type: "number", unit: "mOsm/kg", placeholder: "320", required: true },
-      { id: "sodium", label: "Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true },
-      { id: "glucose", label: "Glucose", type: "number", unit: "mg/dL", placeholder: "100", required: true },
-      { id: "bun", label: "BUN / Urea", type: "number", unit: "mg/dL", placeholder: "20", required: true },
+      { id: "measuredOsmolality", label: "Measured Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "320", required: true },
+      { id: "sodium", label: "Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true },
+      { id: "glucose", label: "Glucose", type: "number", unit: "mg/dL", unitType: "glucose", placeholder: "100", required: true },
+      { id: "bun", label: "BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "20", required: true },
       { id: "ethanol", label: "Ethanol (if known)", type: "number", unit: "mg/dL", placeholder: "0" },
     ],
     resultLabel: "Osmolal Gap",
     resultUnit: "mOsm/kg",
-    interpretation: (value) => {
-      if (value <= 10) return "Normal - no unmeasured osmotically active substances";
-      if (value <= 20) return "Borderline - consider toxic alcohol ingestion";
-      return "Elevated - suggests methanol, ethylene glycol, isopropanol, or other toxins";
+    compute({ num, value }) {
+      return {
+        value: calc.osmolalGap(
+          num("measuredOsmolality"),
+          num("sodium"),
+          value("glucose"),
+          value("bun"),
+          num("ethanol"),
+          "mg/dL",
+          "mg/dL"
+        ),
+      };
     },
+    interpretation: bandInterpretation("osmolal-gap"),
     clinicalPearls: [
       "Critical in suspected toxic alcohol ingestion with HAGMA",
       "Gap normalizes as alcohols metabolize to acids",
       "Nephrology consult for hemodialysis if severe",
     ],
     references: ["Kraut JA, Kurtz I. Clin J Am Soc Nephrol. 2008;3(1):208-225"],
+    referenceCases: [
+      {
+        description: "Measured 320, Na 140, glucose 90, BUN 14, no ethanol",
+        values: { measuredOsmolality: "320", sodium: "140", glucose: "90", bun: "14", ethanol: "0" },
+        expected: 30,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Kraut JA, Kurtz I. Clin J Am Soc Nephrol. 2008;3(1):208-225 (calculated osmolality = 2Na + glucose/18 + BUN/2.8)",
+      },
+    ],
   },
   {
     id: "urine-anion-gap",
@@ -477,23 +818,31 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to differentiate renal tubular acidosis from GI bicarbonate losses in non-anion-gap metabolic acidosis.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", placeholder: "40", required: true },
-      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", placeholder: "20", required: true },
-      { id: "urineCl", label: "Urine Chloride", type: "number", unit: "mEq/L", placeholder: "50", required: true },
+      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "40", required: true },
+      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "20", required: true },
+      { id: "urineCl", label: "Urine Chloride", type: "number", unit: "mEq/L", unitType: "chloride", placeholder: "50", required: true },
     ],
     resultLabel: "Urine Anion Gap",
     resultUnit: "mEq/L",
-    interpretation: (value) => {
-      if (value < -20) return "Negative UAG - intact renal acidification (GI HCO3 losses or proximal RTA)";
-      if (value <= 20) return "Equivocal - may need urine pH and NH4+ measurement";
-      return "Positive UAG - impaired renal NH4+ excretion (distal RTA or Type 4 RTA)";
+    compute({ num }) {
+      return { value: calc.urineAnionGap(num("urineNa"), num("urineK"), num("urineCl")) };
     },
+    interpretation: bandInterpretation("urine-anion-gap"),
     clinicalPearls: [
       "Differentiates renal vs. GI causes of normal AG metabolic acidosis",
       "Urine pH helps further: pH >5.5 in acidosis = distal RTA",
       "Type 1 RTA: positive UAG, urine pH >5.5, may have stones",
     ],
     references: ["Batlle DC et al. N Engl J Med. 1988;318(10):594-599"],
+    referenceCases: [
+      {
+        description: "Urine Na 40, K 30, Cl 90",
+        values: { urineNa: "40", urineK: "30", urineCl: "90" },
+        expected: -20,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Batlle DC et al. N Engl J Med. 1988;318(10):594-599 (UAG = UNa + UK − UCl)",
+      },
+    ],
   },
   // ============================================================================
   // ELECTROLYTES & ACID-BASE
@@ -506,19 +855,17 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to assess whether the kidney is appropriately excreting or retaining potassium.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", placeholder: "40", required: true },
-      { id: "plasmaK", label: "Plasma Potassium", type: "number", unit: "mEq/L", placeholder: "5.5", required: true },
-      { id: "urineOsm", label: "Urine Osmolality", type: "number", unit: "mOsm/kg", placeholder: "400", required: true },
-      { id: "plasmaOsm", label: "Plasma Osmolality", type: "number", unit: "mOsm/kg", placeholder: "290", required: true },
+      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "40", required: true },
+      { id: "plasmaK", label: "Plasma Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "5.5", required: true },
+      { id: "urineOsm", label: "Urine Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "400", required: true },
+      { id: "plasmaOsm", label: "Plasma Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "290", required: true },
     ],
     resultLabel: "TTKG",
     resultUnit: "ratio",
-    interpretation: (value) => {
-      if (value < 6) return "Low TTKG in hyperkalemia - suggests hypoaldosteronism or aldosterone resistance";
-      if (value > 3 && value < 8) return "Normal TTKG";
-      if (value > 8) return "High TTKG in hypokalemia - suggests renal K wasting";
-      return "Validity criteria not met (need urine Osm >300 and urine Na >25)";
+    compute({ num }) {
+      return { value: calc.ttkg(num("urineK"), num("plasmaK"), num("urineOsm"), num("plasmaOsm")) };
     },
+    interpretation: bandInterpretation("ttkg"),
     clinicalPearls: [
       "Validity criteria: urine Osm >300 mOsm/kg and urine Na >25 mEq/L",
       "Normal on regular diet: 8-9",
@@ -528,6 +875,15 @@ export const calculators: Calculator[] = [
       "Ethier JH et al. The transtubular potassium concentration in patients with hypokalemia and hyperkalemia. Am J Kidney Dis. 1990;15(4):309-315",
       "Kamel KS, Halperin ML. Intrarenal urea recycling leads to a higher rate of renal excretion of potassium: an hypothesis with clinical implications. Curr Opin Nephrol Hypertens. 2011;20(5):547-554",
     ],
+    referenceCases: [
+      {
+        description: "Urine K 40, plasma K 4, urine osm 600, plasma osm 300",
+        values: { urineK: "40", plasmaK: "4", urineOsm: "600", plasmaOsm: "300" },
+        expected: 5,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Ethier JH et al. Am J Kidney Dis. 1990;15(4):309-315",
+      },
+    ],
   },
   {
     id: "water-deficit-hypernatremia",
@@ -537,24 +893,33 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to calculate the free water deficit when correcting hypernatremia.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "currentNa", label: "Current Serum Sodium", type: "number", unit: "mEq/L", placeholder: "160", required: true },
-      { id: "targetNa", label: "Target Serum Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true },
+      { id: "currentNa", label: "Current Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "160", required: true },
+      { id: "targetNa", label: "Target Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true },
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "Free Water Deficit",
     resultUnit: "L",
-    interpretation: (value) => {
-      if (value <= 1) return "Mild deficit - oral rehydration may suffice";
-      if (value <= 3) return "Moderate deficit - IV D5W or hypotonic saline";
-      return "Severe deficit - careful IV rehydration needed to avoid cerebral edema";
+    compute({ values: v, num }) {
+      const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+      return { value: calc.waterDeficitHypernatremia(num("currentNa"), num("targetNa"), tbw) };
     },
+    interpretation: bandInterpretation("water-deficit-hypernatremia"),
     clinicalPearls: [
       "Correct slowly: no more than 10-12 mEq/L in 24 hours",
       "Rapid correction risks cerebral edema",
       "Address underlying cause (diabetes insipidus, insensible losses)",
     ],
     references: ["Adrogué HJ, Madias NE. N Engl J Med. 2000;342(20):1493-1499"],
+    referenceCases: [
+      {
+        description: "70 kg man, Na 160 → 140",
+        values: { currentNa: "160", targetNa: "140", weight: "70", sex: "M" },
+        expected: 6,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Adrogué HJ, Madias NE. N Engl J Med. 2000;342(20):1493-1499 (TBW 0.6 × weight in men)",
+      },
+    ],
   },
   {
     id: "corrected-sodium-hyperglycemia",
@@ -564,16 +929,15 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to determine the true sodium level when blood glucose is significantly elevated.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "measuredNa", label: "Measured Serum Sodium", type: "number", unit: "mEq/L", placeholder: "130", required: true },
-      { id: "glucose", label: "Serum Glucose", type: "number", unit: "mg/dL", placeholder: "500", required: true },
+      { id: "measuredNa", label: "Measured Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "130", required: true },
+      { id: "glucose", label: "Serum Glucose", type: "number", unit: "mg/dL", unitType: "glucose", placeholder: "500", required: true },
     ],
     resultLabel: "Corrected Sodium",
     resultUnit: "mEq/L",
-    interpretation: (value) => {
-      if (value >= 135) return "Sodium normal when corrected for hyperglycemia";
-      if (value >= 130) return "Mild hyponatremia";
-      return "Significant hyponatremia - requires careful correction";
+    compute({ num, value }) {
+      return { value: calc.correctedSodiumHyperglycemia(num("measuredNa"), value("glucose"), "mg/dL") };
     },
+    interpretation: bandInterpretation("corrected-sodium-hyperglycemia"),
     clinicalPearls: [
       "Each 100 mg/dL glucose above 100 lowers Na by ~2-3 mEq/L",
       "Critical in DKA and HHS management",
@@ -583,6 +947,15 @@ export const calculators: Calculator[] = [
       "Katz MA. Hyperglycemia-induced hyponatremia — calculation of expected serum sodium depression. N Engl J Med. 1973;289(16):843-844",
       "Hillier TA et al. Hyponatremia: evaluating the correction factor for hyperglycemia. Am J Med. 1999;106(4):399-403",
     ],
+    referenceCases: [
+      {
+        description: "Na 130, glucose 600 mg/dL",
+        values: { measuredNa: "130", glucose: "600" },
+        expected: 138,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Katz MA. N Engl J Med. 1973;289(16):843-844 (1.6 mEq/L per 100 mg/dL glucose above 100)",
+      },
+    ],
   },
   {
     id: "sodium-correction-rate",
@@ -592,8 +965,8 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to monitor safe sodium correction rate and avoid osmotic demyelination syndrome.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "currentNa", label: "Current Serum Sodium", type: "number", unit: "mEq/L", placeholder: "120", required: true },
-      { id: "targetNa", label: "Target Serum Sodium", type: "number", unit: "mEq/L", placeholder: "130", required: true },
+      { id: "currentNa", label: "Current Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "120", required: true },
+      { id: "targetNa", label: "Target Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "130", required: true },
       { id: "infusionNa", label: "Infusate Fluid", type: "select", options: [
         { value: "154", label: "0.9% NaCl (NS) — 154 mEq/L" },
         { value: "512", label: "3% NaCl (Hypertonic) — 512 mEq/L" },
@@ -610,6 +983,18 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Infusion Rate",
     resultUnit: "mL/hr",
+    compute({ values: v, num }) {
+      const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+      return {
+        value: calc.sodiumCorrectionRateHyponatremia(
+          num("currentNa"),
+          num("targetNa"),
+          parseInt(String(v.infusionNa)) || 0,
+          tbw,
+          num("correctionHours")
+        ),
+      };
+    },
     interpretation: (value, inputs) => {
       const currentNa = Number(inputs?.currentNa) || 0;
       const targetNa = Number(inputs?.targetNa) || 0;
@@ -633,6 +1018,15 @@ export const calculators: Calculator[] = [
       "Adrogue-Madias formula: ΔNa per 1L infusate = (Infusate Na − Serum Na) / (TBW + 1)",
     ],
     references: ["Adrogué HJ, Madias NE. N Engl J Med. 2000;342(20):1493-1499"],
+    referenceCases: [
+      {
+        description: "60 kg woman, Na 115 → 123 over 24 h with 3% saline",
+        values: { currentNa: "115", targetNa: "123", infusionNa: "512", weight: "60", sex: "F", correctionHours: "24" },
+        expected: 26.029,
+        tolerance: 0.5,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Adrogué HJ, Madias NE. N Engl J Med. 2000;342(21):1581-1589 (change in Na per litre = (infusate Na − serum Na)/(TBW + 1))",
+      },
+    ],
   },
   {
     id: "sodium-deficit",
@@ -642,24 +1036,33 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to estimate the amount of sodium needed to correct symptomatic hyponatremia.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "currentNa", label: "Current Serum Sodium", type: "number", unit: "mEq/L", placeholder: "120", required: true },
-      { id: "targetNa", label: "Target Serum Sodium", type: "number", unit: "mEq/L", placeholder: "130", required: true },
+      { id: "currentNa", label: "Current Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "120", required: true },
+      { id: "targetNa", label: "Target Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "130", required: true },
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "Sodium Deficit",
     resultUnit: "mEq",
-    interpretation: (value) => {
-      if (value <= 100) return "Mild deficit - may use hypotonic saline or fluid restriction";
-      if (value <= 300) return "Moderate deficit - hypertonic saline (3%) may be needed";
-      return "Severe deficit - careful IV hypertonic saline with monitoring";
+    compute({ values: v, num }) {
+      const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+      return { value: calc.sodiumDeficitHyponatremia(num("currentNa"), num("targetNa"), tbw) };
     },
+    interpretation: bandInterpretation("sodium-deficit"),
     clinicalPearls: [
       "Guides choice of IV fluid and rate of administration",
       "Acute hyponatremia (<48 hours) needs faster correction",
       "Chronic hyponatremia needs slower correction",
     ],
     references: ["Adrogué HJ, Madias NE. N Engl J Med. 2000;342(20):1493-1499"],
+    referenceCases: [
+      {
+        description: "60 kg woman, Na 120 → 130",
+        values: { currentNa: "120", targetNa: "130", weight: "60", sex: "F" },
+        expected: 300,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Adrogué HJ, Madias NE. N Engl J Med. 2000;342(21):1581-1589 (Na deficit = TBW × (target − current))",
+      },
+    ],
   },
   {
     id: "corrected-calcium",
@@ -669,22 +1072,35 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to adjust total calcium when serum albumin is low.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "measuredCa", label: "Measured Total Calcium", type: "number", unit: "mg/dL", placeholder: "7.5", required: true },
-      { id: "albumin", label: "Serum Albumin", type: "number", unit: "g/dL", placeholder: "2.0", required: true },
+      { id: "measuredCa", label: "Measured Total Calcium", type: "number", unit: "mg/dL", unitType: "calcium", placeholder: "7.5", required: true },
+      { id: "albumin", label: "Serum Albumin", type: "number", unit: "g/dL", unitType: "albumin", placeholder: "2.0", required: true },
     ],
     resultLabel: "Corrected Calcium",
     resultUnit: "mg/dL",
-    interpretation: (value) => {
-      if (value >= 8.5 && value <= 10.5) return "Normal corrected calcium";
-      if (value < 8.5) return "Hypocalcemia - may need supplementation";
-      return "Hypercalcemia - investigate cause";
+    compute({ value }) {
+      const corrected = calc.correctedCalcium(value("measuredCa"), value("albumin"), "g/dL");
+      return {
+        value: corrected.mgDl,
+        secondary: [{ label: "Corrected Calcium (SI)", value: corrected.mmolL, unit: "mmol/L" }],
+        summary: `${corrected.mgDl.toFixed(2)} mg/dL`,
+      };
     },
+    interpretation: bandInterpretation("corrected-calcium"),
     clinicalPearls: [
       "~40% of serum calcium is albumin-bound",
       "Ionized calcium measurement is gold standard",
       "Less accurate in severe acid-base disturbances",
     ],
     references: ["Payne RB et al. Br Med J. 1973;4(5893):643-646"],
+    referenceCases: [
+      {
+        description: "Calcium 8.0 mg/dL, albumin 2.0 g/dL",
+        values: { measuredCa: "8.0", albumin: "2.0" },
+        expected: 9.6,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Payne RB et al. Br Med J. 1973;4(5893):643-646 (Ca + 0.8 × (4 − albumin))",
+      },
+    ],
   },
   {
     id: "qtc-bazett",
@@ -696,12 +1112,22 @@ export const calculators: Calculator[] = [
     inputs: [
       { id: "qtInterval", label: "QT Interval", type: "number", unit: "ms", placeholder: "400", required: true },
       { id: "heartRate", label: "Heart Rate", type: "number", unit: "bpm", placeholder: "80", required: true, min: 40, max: 200 },
-      { id: "serumPotassium", label: "Serum K⁺ (optional)", type: "number", unit: "mEq/L", placeholder: "4.0" },
-      { id: "serumMagnesiumQtc", label: "Serum Mg²⁺ (optional)", type: "number", unit: "mg/dL", placeholder: "2.0" },
-      { id: "serumCalciumQtc", label: "Serum Ca²⁺ (optional)", type: "number", unit: "mg/dL", placeholder: "9.0" },
+      { id: "serumPotassium", label: "Serum K⁺ (optional)", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "4.0" },
+      { id: "serumMagnesiumQtc", label: "Serum Mg²⁺ (optional)", type: "number", unit: "mg/dL", unitType: "magnesium", placeholder: "2.0" },
+      { id: "serumCalciumQtc", label: "Serum Ca²⁺ (optional)", type: "number", unit: "mg/dL", unitType: "calcium", placeholder: "9.0" },
     ],
     resultLabel: "QTc",
     resultUnit: "ms",
+    compute({ values: v, num, value }) {
+      const qtc = calc.qtcBazett(num("qtInterval"), num("heartRate"));
+      // Pass pre-converted electrolyte values for interpretation thresholds
+      const qtcInputs = {
+        ...v,
+        serumMagnesiumQtc: String(value("serumMagnesiumQtc")),
+        serumCalciumQtc: String(value("serumCalciumQtc")),
+      };
+      return { value: qtc, interpretation: this.interpretation(qtc, qtcInputs) };
+    },
     interpretation: (value, inputs) => {
       const k = Number(inputs?.serumPotassium) || 0;
       const mg = Number(inputs?.serumMagnesiumQtc) || 0;
@@ -728,6 +1154,15 @@ export const calculators: Calculator[] = [
       "Common QT-prolonging drugs: methadone, haloperidol, ondansetron, fluoroquinolones, azithromycin",
     ],
     references: ["Rautaharju PM et al. Circulation. 2009;119(10):e241-e250"],
+    referenceCases: [
+      {
+        description: "QT 400 ms at 90 bpm",
+        values: { qtInterval: "400", heartRate: "90" },
+        expected: 489.898,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Bazett HC. Heart. 1920;7:353-370 (QTc = QT/√RR)",
+      },
+    ],
   },
   // ============================================================================
   // PROTEINURIA & GLOMERULAR DISEASE
@@ -740,17 +1175,15 @@ export const calculators: Calculator[] = [
     whenToUse: "Use for CKD screening and staging of albuminuria per KDIGO guidelines.",
     category: "Proteinuria & Glomerular Disease",
     inputs: [
-      { id: "urineAlbumin", label: "Urine Albumin", type: "number", unit: "mg", placeholder: "150", required: true },
-      { id: "urineCreatinineUACR", label: "Urine Creatinine", type: "number", unit: "g", placeholder: "1.0", required: true },
+      { id: "urineAlbumin", label: "Urine Albumin", type: "number", unit: "mg", unitType: "urineAlbumin", placeholder: "150", required: true },
+      { id: "urineCreatinineUACR", label: "Urine Creatinine", type: "number", unit: "g", unitType: "urineCreatinineGrams", placeholder: "1.0", required: true },
     ],
     resultLabel: "uACR",
     resultUnit: "mg/g",
-    interpretation: (value) => {
-      if (value < 30) return "A1: Normal to mildly increased albuminuria (<30 mg/g). Low risk of CKD progression. Repeat annually if risk factors present (diabetes, hypertension).";
-      if (value < 300) return "A2: Moderately increased albuminuria (30–300 mg/g, formerly 'microalbuminuria'). KDIGO: increased risk of CKD progression and CVD. Optimize RAAS blockade (ACEi/ARB), add SGLT2i if diabetic. Target ≥30% reduction. Repeat in 3–6 months.";
-      if (value < 2200) return "A3: Severely increased albuminuria (>300 mg/g, formerly 'macroalbuminuria'). KDIGO: high/very high risk. Maximize RAAS blockade + SGLT2i. If >500 mg/g and unexplained, consider kidney biopsy. Required for KFRE risk calculation.";
-      return "Nephrotic-range albuminuria (>2200 mg/g ≈ >3.5 g/24h albumin). Kidney biopsy strongly indicated. Full nephrotic workup: serum albumin, lipids, thrombotic risk assessment. Consider anticoagulation if albumin <2.5 g/dL.";
+    compute({ value }) {
+      return { value: calc.uacr(value("urineAlbumin"), value("urineCreatinineUACR"), "mg", "g") };
     },
+    interpretation: bandInterpretation("uacr"),
     clinicalPearls: [
       "KDIGO A1/A2/A3 staging: <30 / 30–300 / >300 mg/g",
       "Key CKD marker — predicts progression and CVD events independently of eGFR",
@@ -761,6 +1194,15 @@ export const calculators: Calculator[] = [
       "A2 + diabetes: start SGLT2i regardless of eGFR (KDIGO 2024)",
     ],
     references: ["KDIGO CKD Work Group. KDIGO 2024 Clinical Practice Guideline for the Evaluation and Management of Chronic Kidney Disease. Kidney Int. 2024;105(4S):S117-S314"],
+    referenceCases: [
+      {
+        description: "Albumin 30 mg, creatinine 1 g",
+        values: { urineAlbumin: "30", urineCreatinineUACR: "1" },
+        expected: 30,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO 2024 CKD Guideline. Kidney Int. 2024;105(4S):S117-S314 (30 mg/g marks A2)",
+      },
+    ],
   },
   {
     id: "upcr",
@@ -770,19 +1212,15 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to quantify proteinuria, especially when monitoring nephrotic-range protein loss.",
     category: "Proteinuria & Glomerular Disease",
     inputs: [
-      { id: "urineProtein", label: "Urine Total Protein", type: "number", unit: "mg", placeholder: "500", required: true },
-      { id: "urineCreatinineUPCR", label: "Urine Creatinine", type: "number", unit: "mg", placeholder: "100", required: true },
+      { id: "urineProtein", label: "Urine Total Protein", type: "number", unit: "mg", unitType: "urineProtein", placeholder: "500", required: true },
+      { id: "urineCreatinineUPCR", label: "Urine Creatinine", type: "number", unit: "mg", unitType: "urineCreatinineMilligrams", placeholder: "100", required: true },
     ],
     resultLabel: "UPCR",
     resultUnit: "g/g",
-    interpretation: (value) => {
-      if (value < 0.15) return "Normal proteinuria (<0.15 g/g)";
-      if (value < 0.5) return "Mild proteinuria (0.15–0.5 g/g) — monitor, optimize RAAS blockade";
-      if (value < 1.0) return "Moderate proteinuria (0.5–1.0 g/g) — nephrology referral recommended, consider biopsy if unexplained";
-      if (value < 3.5) return "Subnephrotic proteinuria (1.0–3.5 g/g) — kidney biopsy indicated if etiology unclear. Aggressive RAAS blockade + SGLT2i. Monitor for progression to nephrotic range.";
-      if (value < 10) return "Nephrotic-range proteinuria (≥3.5 g/g) — kidney biopsy strongly indicated. Assess for complications: edema, hypoalbuminemia, hyperlipidemia, thrombotic risk (albumin <2.5 g/dL = high VTE risk). Consider anticoagulation if albumin <2.0.";
-      return "Massive proteinuria (≥10 g/g) — severe nephrotic syndrome. Urgent biopsy. High thrombotic risk — consider prophylactic anticoagulation. Aggressive edema management (loop diuretics + albumin if needed). Rule out amyloidosis, membranous, FSGS, diabetic nephropathy.";
+    compute({ value }) {
+      return { value: calc.upcr(value("urineProtein"), value("urineCreatinineUPCR"), "mg", "mg") };
     },
+    interpretation: bandInterpretation("upcr"),
     clinicalPearls: [
       "Replaces 24-hour urine collection in most cases",
       "UPCR (g/g) ≈ 24-hour proteinuria (g/24h)",
@@ -796,6 +1234,15 @@ export const calculators: Calculator[] = [
       "Ginsberg JM et al. Use of single voided urine samples to estimate quantitative proteinuria. N Engl J Med. 1983;309(25):1543-1546",
       "KDIGO CKD Work Group. KDIGO 2024 Clinical Practice Guideline for the Evaluation and Management of Chronic Kidney Disease. Kidney Int. 2024;105(4S):S117-S314",
     ],
+    referenceCases: [
+      {
+        description: "Protein 500 mg, creatinine 1000 mg",
+        values: { urineProtein: "500", urineCreatinineUPCR: "1000" },
+        expected: 0.5,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Ginsberg JM et al. N Engl J Med. 1983;309(25):1543-1546",
+      },
+    ],
   },
   {
     id: "acr-from-pcr",
@@ -805,21 +1252,29 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to estimate albumin-creatinine ratio when only total protein-creatinine ratio is available.",
     category: "Proteinuria & Glomerular Disease",
     inputs: [
-      { id: "pcr", label: "Urine Protein-Creatinine Ratio", type: "number", unit: "mg/mmol", placeholder: "170", required: true },
+      { id: "pcr", label: "Urine Protein-Creatinine Ratio", type: "number", unit: "mg/mmol", unitType: "pcr", placeholder: "170", required: true },
     ],
     resultLabel: "Estimated ACR",
     resultUnit: "mg/g",
-    interpretation: (value) => {
-      if (value < 30) return "A1: Normal to mildly increased";
-      if (value < 300) return "A2: Moderately increased";
-      return "A3: Severely increased";
+    compute({ value }) {
+      return { value: calc.acrFromPcr(value("pcr")) };
     },
+    interpretation: bandInterpretation("acr-from-pcr"),
     clinicalPearls: [
       "Allows use of KFRE when only PCR available",
       "Simplified conversion: ACR ≈ PCR × 700",
       "Not a substitute for direct ACR measurement when precision needed",
     ],
     references: ["Sumida K et al. Ann Intern Med. 2020;173(6):426-435"],
+    referenceCases: [
+      {
+        description: "PCR 0.5 (g/g)",
+        values: { pcr: "0.5" },
+        expected: 350,
+        tolerance: 0.1,
+        citation: "Expected value from this app's documented approximation, not a published worked example (ACR ≈ PCR × 700); Sumida K et al. Ann Intern Med. 2020;173(6):426-435 gives the full conversion",
+      },
+    ],
   },
   {
     id: "24-hour-protein",
@@ -831,18 +1286,28 @@ export const calculators: Calculator[] = [
     inputs: [
       { id: "testType", label: "Test Type", type: "select", options: [{ value: "pcr", label: "Protein/Creatinine Ratio (PCR)" }, { value: "acr", label: "Albumin/Creatinine Ratio (ACR)" }], required: true },
       { id: "inputMode", label: "Input Method", type: "select", options: [{ value: "ratio", label: "I have the ratio value" }, { value: "raw", label: "I have protein/albumin and creatinine values" }], required: true },
-      { id: "ratioValue", label: "Ratio Value", type: "number", unit: "mg/mmol", placeholder: "57", required: false },
-      { id: "proteinValue", label: "Urine Protein/Albumin Concentration", type: "number", unit: "mg/dL", placeholder: "50", required: false },
-      { id: "creatinineValue", label: "Urine Creatinine Concentration", type: "number", unit: "mg/dL", placeholder: "100", required: false },
+      { id: "ratioValue", label: "Ratio Value", type: "number", unit: "mg/mmol", unitType: "spotUrineRatio", placeholder: "57", required: false },
+      { id: "proteinValue", label: "Urine Protein/Albumin Concentration", type: "number", unit: "mg/dL", unitType: "urineProteinConcentration", placeholder: "50", required: false },
+      { id: "creatinineValue", label: "Urine Creatinine Concentration", type: "number", unit: "mg/dL", unitType: "urineCreatinineConcentration", placeholder: "100", required: false },
     ],
     resultLabel: "Estimated 24-Hour Protein Excretion",
     resultUnit: "g/day",
-    interpretation: (value) => {
-      if (value < 0.15) return "Normal (A1) - No significant proteinuria";
-      if (value < 3.0) return "Mildly to Moderately Increased (A1-A2) - Monitor and treat underlying cause";
-      if (value < 10) return "Nephrotic-Range (A3) - Requires aggressive treatment";
-      return "Severe Nephrotic-Range (A3) - Timed 24-hour collection recommended for clinical decisions";
+    compute({ values: v, value }) {
+      const inputMode = (v.inputMode as string) || "ratio";
+      let ratioMgPerMg = 0;
+
+      if (inputMode === "ratio") {
+        ratioMgPerMg = value("ratioValue");
+      } else {
+        // Raw mode — protein and creatinine both arrive in mg/dL
+        const creatinineMgdL = value("creatinineValue");
+        ratioMgPerMg = creatinineMgdL > 0 ? value("proteinValue") / creatinineMgdL : 0;
+      }
+
+      // PCR/ACR in mg/mg ≈ estimated 24-hour protein/albumin excretion in g/day
+      return { value: ratioMgPerMg };
     },
+    interpretation: bandInterpretation("24-hour-protein"),
     referenceRanges: [
       { label: "Normal (A1)", max: 0.15, unit: "g/day", note: "No significant proteinuria" },
       { label: "Increased (A2)", min: 0.15, max: 3, unit: "g/day", note: "Mildly to moderately increased" },
@@ -856,6 +1321,22 @@ export const calculators: Calculator[] = [
       "Less accurate with tubular or overflow proteinuria",
     ],
     references: ["KDIGO CKD Work Group. KDIGO 2024 Clinical Practice Guideline for the Evaluation and Management of Chronic Kidney Disease. Kidney Int. 2024;105(4S):S117-S314"],
+    referenceCases: [
+      {
+        description: "PCR 113.12 mg/mmol",
+        values: { testType: "pcr", inputMode: "ratio", ratioValue: "113.12" },
+        expected: 1,
+        tolerance: 0.001,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO 2024 CKD Guideline. Kidney Int. 2024;105(4S):S117-S314 (ratio in mg/mg ≈ g/day; 113.12 mg creatinine per mmol)",
+      },
+      {
+        description: "Urine protein 150 mg/dL, creatinine 100 mg/dL",
+        values: { testType: "pcr", inputMode: "raw", proteinValue: "150", creatinineValue: "100" },
+        expected: 1.5,
+        tolerance: 0.001,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Ginsberg JM et al. N Engl J Med. 1983;309(25):1543-1546 (spot protein/creatinine ratio ≈ grams per day)",
+      },
+    ],
   },
   {
     id: "igan-prediction",
@@ -873,11 +1354,18 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Kidney Failure Risk",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value < 20) return "Low risk - conservative management (RAAS blockade, SGLT2i)";
-      if (value < 40) return "Intermediate risk - consider immunosuppression";
-      return "High risk - immunosuppression recommended";
+    compute({ values: v, num }) {
+      return {
+        value: calc.iganPredictionTool(
+          num("age"),
+          num("eGFR"),
+          num("map"),
+          num("proteinuria"),
+          parseInt(v.years as string) as 2 | 5 | 7
+        ),
+      };
     },
+    interpretation: bandInterpretation("igan-prediction"),
     clinicalPearls: [
       "Most validated prognostic tool for IgAN",
       "Guides treatment intensity decisions",
@@ -885,6 +1373,15 @@ export const calculators: Calculator[] = [
       "External validation in >4000 patients",
     ],
     references: ["Barbour SJ et al. JAMA Intern Med. 2019;179(7):942-952"],
+    referenceCases: [
+      {
+        description: "45 years, eGFR 60, MAP 95, proteinuria 1.5 g/day, 5-year risk",
+        values: { age: "45", eGFR: "60", map: "95", proteinuria: "1.5", years: "5" },
+        expected: 2.57,
+        tolerance: 0.1,
+        citation: "Expected value from this app's documented approximation, not a published worked example (simplified logistic model); Barbour SJ et al. JAMA Intern Med. 2019;179(7):942-952 describes the full tool",
+      },
+    ],
   },
   // ============================================================================
   // DIALYSIS ADEQUACY
@@ -897,19 +1394,27 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to assess hemodialysis adequacy per KDOQI guidelines.",
     category: "Dialysis Adequacy",
     inputs: [
-      { id: "preBUN", label: "Pre-Dialysis BUN / Urea", type: "number", unit: "mg/dL", placeholder: "60", required: true },
-      { id: "postBUN", label: "Post-Dialysis BUN / Urea", type: "number", unit: "mg/dL", placeholder: "20", required: true },
+      { id: "preBUN", label: "Pre-Dialysis BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "60", required: true },
+      { id: "postBUN", label: "Post-Dialysis BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "20", required: true },
       { id: "postWeight", label: "Post-Dialysis Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "sessionTime", label: "Session Duration", type: "number", unit: "minutes", placeholder: "240", required: true },
       { id: "ultrafiltration", label: "Ultrafiltration Volume", type: "number", unit: "L", placeholder: "3", required: true },
     ],
     resultLabel: "Kt/V",
     resultUnit: "ratio",
-    interpretation: (value) => {
-      if (value >= 1.4) return "Adequate dialysis (≥1.4 recommended)";
-      if (value >= 1.2) return "Borderline adequate";
-      return "Inadequate dialysis - increase session time or frequency";
+    compute({ num, value }) {
+      return {
+        value: calc.ktv(
+          value("preBUN"),
+          value("postBUN"),
+          num("postWeight"),
+          num("sessionTime"),
+          num("ultrafiltration"),
+          "mg/dL" // value() always converts BUN/Urea to BUN mg/dL
+        ),
+      };
     },
+    interpretation: bandInterpretation("ktv-hemodialysis"),
     referenceRanges: [
       { label: "Adequate", min: 65, unit: "%", note: "Target ≥65%" },
       { label: "Borderline", min: 60, max: 64, unit: "%" },
@@ -922,6 +1427,15 @@ export const calculators: Calculator[] = [
       "Post-BUN must be drawn correctly (slow flow or stop pump 15 sec before)",
     ],
     references: ["National Kidney Foundation. KDOQI Clinical Practice Guideline for Hemodialysis Adequacy: 2015 Update. Am J Kidney Dis. 2015;66(5):884-930"],
+    referenceCases: [
+      {
+        description: "BUN 70 → 20 mg/dL, 4 h, 3 L UF, 70 kg",
+        values: { preBUN: "70", postBUN: "20", postWeight: "70", sessionTime: "240", ultrafiltration: "3" },
+        expected: 1.5,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Daugirdas JT. J Am Soc Nephrol. 1993;4(5):1205-1213 (second-generation single-pool Kt/V)",
+      },
+    ],
   },
   {
     id: "total-body-water",
@@ -932,12 +1446,17 @@ export const calculators: Calculator[] = [
     category: "Dialysis Adequacy",
     inputs: [
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "55", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "Total Body Water",
     resultUnit: "L",
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.totalBodyWaterWatson(num("weight"), value("height"), num("age"), v.sex as "M" | "F"),
+      };
+    },
     interpretation: (value) => {
       if (value > 0) return `Estimated TBW: ${value.toFixed(1)} L - use for Kt/V calculations`;
       return "Unable to calculate";
@@ -949,6 +1468,22 @@ export const calculators: Calculator[] = [
       "Females typically 45-50% of body weight",
     ],
     references: ["Watson PE et al. Am J Clin Nutr. 1980;33(12):2641-2645"],
+    referenceCases: [
+      {
+        description: "40-year-old man, 70 kg, 175 cm",
+        values: { weight: "70", height: "175", age: "40", sex: "M" },
+        expected: 40.97,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Watson PE et al. Am J Clin Nutr. 1980;33(12):2641-2645",
+      },
+      {
+        description: "Woman, 60 kg, 160 cm",
+        values: { weight: "60", height: "160", age: "50", sex: "F" },
+        expected: 29.803,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Watson PE et al. Am J Clin Nutr. 1980;33(12):2641-2645",
+      },
+    ],
   },
   {
     id: "hd-session-duration",
@@ -965,6 +1500,10 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Required Session Duration",
     resultUnit: "minutes",
+    compute({ values: v, num }) {
+      const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+      return { value: calc.hemodialysisSessionDuration(num("targetKtV"), num("dialyzerClearance"), tbw) };
+    },
     interpretation: (value) => {
       if (value <= 180) return `${(value / 60).toFixed(1)} hours - short session`;
       if (value <= 240) return `${(value / 60).toFixed(1)} hours - standard session`;
@@ -978,6 +1517,15 @@ export const calculators: Calculator[] = [
       "Target Kt/V ≥1.4 for thrice-weekly HD (minimum 1.2)",
     ],
     references: ["Daugirdas JT. Adv Ren Replace Ther. 1995;2(4):295-304", "National Kidney Foundation. KDOQI Clinical Practice Guideline for Hemodialysis Adequacy: 2015 Update. Am J Kidney Dis. 2015;66(5):884-930"],
+    referenceCases: [
+      {
+        description: "Target Kt/V 1.2, K 250 mL/min, 70 kg man",
+        values: { targetKtV: "1.2", dialyzerClearance: "250", weight: "70", sex: "M" },
+        expected: 201.6,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Daugirdas JT. Adv Ren Replace Ther. 1995;2(4):295-304 (t = Kt/V × V / K with V = 0.6 × weight)",
+      },
+    ],
   },
   {
     id: "pd-weekly-ktv",
@@ -987,8 +1535,8 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to assess solute clearance adequacy in peritoneal dialysis patients.",
     category: "Dialysis Adequacy",
     inputs: [
-      { id: "dailyDialysateUrea", label: "Daily Dialysate Urea", type: "number", unit: "mg/dL", placeholder: "200", required: true },
-      { id: "plasmaUrea", label: "Plasma Urea", type: "number", unit: "mg/dL", placeholder: "40", required: true },
+      { id: "dailyDialysateUrea", label: "Daily Dialysate Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "200", required: true },
+      { id: "plasmaUrea", label: "Plasma Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "40", required: true },
       { id: "dialysateVolume", label: "Daily Dialysate Volume", type: "number", unit: "L", placeholder: "8", required: true },
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
@@ -996,11 +1544,33 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Weekly PD Kt/V",
     resultUnit: "ratio",
-    interpretation: (value) => {
-      if (value >= 2.0) return "Optimal PD adequacy (≥2.0 recommended)";
-      if (value >= 1.7) return "Minimum adequate PD (≥1.7 minimum)";
-      return "Inadequate PD - increase dwell time, add exchange, or consider HD transition";
+    formulaVersion: "2",
+    formulaSource: "Weekly Kt/V with both urea levels converted from their selected BUN/urea unit (ISPD)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "Weekly Kt/V with urea levels read as entered, ignoring the BUN/urea unit selection",
+        compute({ values: v, num }) {
+          const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+          return {
+            value: calc.pdWeeklyKtv(num("dailyDialysateUrea"), num("plasmaUrea"), num("dialysateVolume"), tbw, num("residualKtv")),
+          };
+        },
+      },
+    ],
+    compute({ values: v, num, value }) {
+      const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+      return {
+        value: calc.pdWeeklyKtv(
+          value("dailyDialysateUrea"),
+          value("plasmaUrea"),
+          num("dialysateVolume"),
+          tbw,
+          num("residualKtv")
+        ),
+      };
     },
+    interpretation: bandInterpretation("pd-weekly-ktv"),
     clinicalPearls: [
       "Includes both peritoneal and residual renal clearance",
       "Measured every 6 months or when clinically indicated",
@@ -1008,6 +1578,15 @@ export const calculators: Calculator[] = [
       "Preserve residual kidney function",
     ],
     references: ["Brown EA et al. Survival of functionally anuric patients on automated peritoneal dialysis: the European APD Outcome Study. J Am Soc Nephrol. 2003;14(11):2948-2957", "Brown EA et al. ISPD practice recommendations: prescribing high-quality goal-directed peritoneal dialysis. Perit Dial Int. 2020;40(3):244-253"],
+    referenceCases: [
+      {
+        description: "D/P urea 0.9, 8 L/day drained, 70 kg man, no residual function",
+        values: { dailyDialysateUrea: "54", plasmaUrea: "60", dialysateVolume: "8", weight: "70", sex: "M", residualKtv: "0" },
+        expected: 1.2,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Lo WK et al. Perit Dial Int. 2006;26(5):520-522 (ISPD adequacy: weekly Kt/V = D/P urea × drained volume / V × 7)",
+      },
+    ],
   },
   {
     id: "residual-rkf-ktv",
@@ -1023,12 +1602,11 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Residual Kt/V",
     resultUnit: "ratio",
-    interpretation: (value) => {
-      if (value >= 0.2) return "Significant residual kidney function - preserve it!";
-      if (value >= 0.1) return "Moderate residual function";
-      if (value > 0) return "Minimal residual function";
-      return "No residual kidney function";
+    compute({ values: v, num }) {
+      const tbw = num("weight") * (v.sex === "F" ? 0.5 : 0.6);
+      return { value: calc.residualKfKtv(num("ureaUrineClearance"), tbw) };
     },
+    interpretation: bandInterpretation("residual-rkf-ktv"),
     clinicalPearls: [
       "Preservation of RKF = better survival, fluid balance, phosphate control",
       "Measure RKF if urine output ≥100 mL/day",
@@ -1036,6 +1614,15 @@ export const calculators: Calculator[] = [
       "RKF loss faster in HD than PD",
     ],
     references: ["Bargman JM et al. J Am Soc Nephrol. 2001;12(10):2158-2162"],
+    referenceCases: [
+      {
+        description: "Residual urea clearance 3 mL/min, 70 kg man",
+        values: { ureaUrineClearance: "3", weight: "70", sex: "M" },
+        expected: 0.72,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Bargman JM et al. J Am Soc Nephrol. 2001;12(10):2158-2162 (weekly Kt/V = Kru × 10.08 L / V)",
+      },
+    ],
   },
   {
     id: "equilibrated-ktv",
@@ -1050,11 +1637,10 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Equilibrated Kt/V",
     resultUnit: "ratio",
-    interpretation: (value) => {
-      if (value >= 1.2) return "Adequate eKt/V";
-      if (value >= 1.0) return "Borderline adequate";
-      return "Inadequate - increase dialysis dose";
+    compute({ num }) {
+      return { value: calc.equilibratedKtv(num("spKtv"), num("sessionTime")) };
     },
+    interpretation: bandInterpretation("equilibrated-ktv"),
     clinicalPearls: [
       "Accounts for post-dialysis urea rebound (30-60 min after HD)",
       "More accurate than spKt/V",
@@ -1062,6 +1648,15 @@ export const calculators: Calculator[] = [
       "Important for short, high-efficiency dialysis",
     ],
     references: ["Daugirdas JT. Adv Ren Replace Ther. 1995;2(4):295-304"],
+    referenceCases: [
+      {
+        description: "spKt/V 1.4 over 4 h",
+        values: { spKtv: "1.4", sessionTime: "4" },
+        expected: 1.22,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Daugirdas JT, Schneditz D. ASAIO J. 1995;41(3):M719-M724 (eKt/V = spKt/V − 0.6 × spKt/V / t + 0.03)",
+      },
+    ],
   },
   {
     id: "standard-ktv",
@@ -1078,11 +1673,30 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Standard Kt/V",
     resultUnit: "ratio/week",
-    interpretation: (value) => {
-      if (value >= 2.3) return "Adequate stdKt/V (≥2.3 recommended)";
-      if (value >= 2.1) return "Borderline adequate";
-      return "Inadequate - increase dialysis frequency or duration";
+    formulaVersion: "2",
+    formulaSource: "Leypoldt standard Kt/V equation (KDOQI 2015)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "Interval-based approximation that returned roughly spKt/V",
+        compute({ num }) {
+          return {
+            value: calc.standardKtvV1(num("spKtv"), num("sessionTime") || 4, num("sessionsPerWeek") || 3, num("residualKtv")),
+          };
+        },
+      },
+    ],
+    compute({ num }) {
+      return {
+        value: calc.standardKtv(
+          num("spKtv"),
+          num("sessionTime") || 4,
+          num("sessionsPerWeek") || 3,
+          num("residualKtv")
+        ),
+      };
     },
+    interpretation: bandInterpretation("standard-ktv"),
     clinicalPearls: [
       "Allows comparison across different HD schedules",
       "Accounts for dialysis frequency and residual function",
@@ -1090,6 +1704,15 @@ export const calculators: Calculator[] = [
       "Complex calculation - use HD machine software",
     ],
     references: ["National Kidney Foundation. KDOQI Clinical Practice Guideline for Hemodialysis Adequacy: 2015 Update. Am J Kidney Dis. 2015;66(5):884-930"],
+    referenceCases: [
+      {
+        description: "spKt/V 1.4, 4 h, three sessions a week, no residual function",
+        values: { spKtv: "1.4", sessionTime: "4", sessionsPerWeek: "3", residualKtv: "0" },
+        expected: 2.18,
+        tolerance: 0.02,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Leypoldt JK. Semin Dial. 2004;17(2):142-145; KDOQI Hemodialysis Adequacy 2015 Update. Am J Kidney Dis. 2015;66(5):884-930",
+      },
+    ],
   },
   {
     id: "urr",
@@ -1099,16 +1722,15 @@ export const calculators: Calculator[] = [
     whenToUse: "Use as a quick bedside check of hemodialysis adequacy.",
     category: "Dialysis Adequacy",
     inputs: [
-      { id: "preBUN", label: "Pre-Dialysis BUN / Urea", type: "number", unit: "mg/dL", placeholder: "60", required: true },
-      { id: "postBUN", label: "Post-Dialysis BUN / Urea", type: "number", unit: "mg/dL", placeholder: "20", required: true },
+      { id: "preBUN", label: "Pre-Dialysis BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "60", required: true },
+      { id: "postBUN", label: "Post-Dialysis BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "20", required: true },
     ],
     resultLabel: "URR",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value >= 70) return "Optimal URR (≥70% recommended)";
-      if (value >= 65) return "Minimum adequate URR (≥65% minimum)";
-      return "Inadequate dialysis - increase session time or frequency";
+    compute({ value }) {
+      return { value: calc.urrHemodialysis(value("preBUN"), value("postBUN"), "mg/dL") };
     },
+    interpretation: bandInterpretation("urr"),
     clinicalPearls: [
       "Simplest measure - does not require weight or session time",
       "Underestimates adequacy in short session/high UF",
@@ -1116,6 +1738,15 @@ export const calculators: Calculator[] = [
       "Post-BUN must be drawn correctly (slow flow or stop pump 15 sec)",
     ],
     references: ["National Kidney Foundation. KDOQI Clinical Practice Guideline for Hemodialysis Adequacy: 2015 Update. Am J Kidney Dis. 2015;66(5):884-930"],
+    referenceCases: [
+      {
+        description: "BUN 70 → 20 mg/dL",
+        values: { preBUN: "70", postBUN: "20" },
+        expected: 71.429,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDOQI Hemodialysis Adequacy 2015 Update. Am J Kidney Dis. 2015;66(5):884-930 (URR = (pre − post)/pre)",
+      },
+    ],
   },
   {
     id: "iron-deficit",
@@ -1125,8 +1756,8 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to calculate IV iron replacement dose for iron deficiency anemia.",
     category: "Drug Dosing & Toxicity",
     inputs: [
-      { id: "targetHemoglobin", label: "Target Hemoglobin", type: "number", unit: "g/dL", placeholder: "11", required: true },
-      { id: "currentHemoglobin", label: "Current Hemoglobin", type: "number", unit: "g/dL", placeholder: "8", required: true },
+      { id: "targetHemoglobin", label: "Target Hemoglobin", type: "number", unit: "g/dL", unitType: "hemoglobin", placeholder: "11", required: true },
+      { id: "currentHemoglobin", label: "Current Hemoglobin", type: "number", unit: "g/dL", unitType: "hemoglobin", placeholder: "8", required: true },
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
       { id: "tsat", label: "TSAT (optional)", type: "number", unit: "%", placeholder: "20" },
@@ -1135,14 +1766,21 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Total Iron Needed",
     resultUnit: "mg",
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.ironDeficitGanzoni(
+          value("targetHemoglobin"),
+          value("currentHemoglobin"),
+          num("weight"),
+          v.sex as "M" | "F"
+        ),
+      };
+    },
     interpretation: (value, inputs) => {
       const tsat = Number(inputs?.tsat) || 0;
       const ferritin = Number(inputs?.ferritin) || 0;
       const dialysis = inputs?.dialysisStatus || "nondialysis";
-      let base: string;
-      if (value <= 500) base = "Mild iron deficit — oral iron may suffice for non-dialysis CKD";
-      else if (value <= 1000) base = "Moderate deficit — IV iron likely needed";
-      else base = "Severe deficit — significant IV iron supplementation required";
+      const base = bandInterpretation("iron-deficit")(value);
 
       const details: string[] = [];
       if (tsat > 0 || ferritin > 0) {
@@ -1169,6 +1807,23 @@ export const calculators: Calculator[] = [
       "Ganzoni formula accounts for hemoglobin deficit + 500mg iron stores",
     ],
     references: ["Ganzoni AM. Schweiz Med Wochenschr. 1970;100(7):301-303"],
+    referenceCases: [
+      {
+        description: "70 kg, Hb 8 → 15 g/dL",
+        values: {
+          targetHemoglobin: "15",
+          currentHemoglobin: "8",
+          weight: "70",
+          sex: "M",
+          tsat: "10",
+          ferritin: "20",
+          dialysisStatus: "nondialysis",
+        },
+        expected: 1676,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Ganzoni AM. Schweiz Med Wochenschr. 1970;100(7):301-303 (weight × ΔHb × 2.4 + 500 mg stores)",
+      },
+    ],
   },
   // ============================================================================
   // TRANSPLANTATION
@@ -1184,7 +1839,7 @@ export const calculators: Calculator[] = [
       { id: "donorAge", label: "Donor Age", type: "number", unit: "years", placeholder: "45", required: true },
       { id: "donorHeight", label: "Donor Height", type: "number", unit: "cm", placeholder: "170", required: true },
       { id: "donorWeight", label: "Donor Weight", type: "number", unit: "kg", placeholder: "80", required: true },
-      { id: "donorCreatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "donorCreatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
       { id: "hypertensionDuration", label: "History of Hypertension", type: "select", options: [
         { value: "NO", label: "No" },
         { value: "0-5", label: "Yes, 0-5 years" },
@@ -1211,6 +1866,35 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "KDPI",
     resultUnit: "%",
+    formulaSource: "OPTN KDRI 2024 refit; KDRI-to-KDPI mapping table of April 2025 (2024 donors)",
+    compute({ values: v, num, value }) {
+      const kdpiResult = calc.kdpi(
+        num("donorAge"),
+        num("donorHeight"),
+        num("donorWeight"),
+        value("donorCreatinine"),
+        (v.hypertensionDuration as "NO" | "0-5" | "6-10" | ">10") || "NO",
+        (v.diabetesDuration as "NO" | "0-5" | "6-10" | ">10") || "NO",
+        (v.causeOfDeath as "ANOXIA" | "CVA" | "HEAD_TRAUMA" | "CNS_TUMOR" | "OTHER") || "ANOXIA",
+        v.isDCD === "YES",
+        "mg/dL"
+      );
+      let interpretation = "";
+      if (kdpiResult.kdpi <= 20) {
+        interpretation = "Low risk donor kidney. Expected to have better long-term graft survival.";
+      } else if (kdpiResult.kdpi <= 85) {
+        interpretation = "Standard criteria donor kidney. Acceptable for most recipients.";
+      } else {
+        interpretation = "High KDPI (≥85%). Consider for expanded criteria donor (ECD) allocation. May be suitable for older recipients or those with limited life expectancy.";
+      }
+      return {
+        value: kdpiResult.kdpi,
+        interpretation,
+        secondary: [{ label: "KDRI", value: kdpiResult.kdri }],
+        summary: kdpiResult.kdpi.toFixed(0) + "%",
+        detail: { kind: "kdpi", data: kdpiResult },
+      };
+    },
     interpretation: (value) => {
       if (value <= 20) return "KDPI 0-20%: Highest quality organs (longevity matching to EPTS ≤20%)";
       if (value <= 85) return "KDPI 21-85%: Standard criteria donors";
@@ -1228,6 +1912,41 @@ export const calculators: Calculator[] = [
       "Miller J et al. Updating the Kidney Donor Risk Index. Am J Transplant. 2025.",
       "Rao PS et al. A comprehensive risk quantification score for deceased donor kidneys. Transplantation. 2009;88(2):231-236",
     ],
+    referenceCases: [
+      {
+        description: "Reference donor: 40 years, 170 cm, 80 kg, creatinine 1.0, no comorbidities",
+        values: {
+          donorAge: "40",
+          donorHeight: "170",
+          donorWeight: "80",
+          donorCreatinine: "1.0",
+          hypertensionDuration: "NO",
+          diabetesDuration: "NO",
+          causeOfDeath: "HEAD_TRAUMA",
+          isDCD: "NO",
+        },
+        expected: 16,
+        tolerance: 0,
+        citation: "OPTN KDPI Guide (2024 refit) and KDRI-to-KDPI mapping table, April 2025: KDRI 0.71 maps to KDPI 16%",
+      },
+      {
+        description: "60-year-old hypertensive CVA donor, 165 cm, 70 kg, creatinine 1.4, DCD",
+        values: {
+          donorAge: "60",
+          donorHeight: "165",
+          donorWeight: "70",
+          donorCreatinine: "1.4",
+          hypertensionDuration: "6-10",
+          diabetesDuration: "NO",
+          causeOfDeath: "CVA",
+          isDCD: "YES",
+        },
+        expected: 1.604,
+        output: "KDRI",
+        tolerance: 0.01,
+        citation: "OPTN KDPI Guide (2024 refit), HRSA April 2025: KDRI = e^Xβ / 1.40436817",
+      },
+    ],
   },
   {
     id: "epts",
@@ -1244,10 +1963,17 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "EPTS",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value <= 20) return "EPTS 0-20%: Highest longevity candidates (receive KDPI ≤20% kidneys first)";
-      return "EPTS 21-100%: Standard allocation";
+    compute({ values: v, num }) {
+      return {
+        value: calc.epts(
+          num("recipientAge"),
+          Boolean(v.recipientDiabetes),
+          Boolean(v.priorTransplant),
+          num("yearsOnDialysis")
+        ),
+      };
     },
+    interpretation: bandInterpretation("epts"),
     clinicalPearls: [
       "Matches best kidneys to longest-lived recipients",
       "Does not measure medical urgency (unlike liver MELD)",
@@ -1258,6 +1984,15 @@ export const calculators: Calculator[] = [
       "OPTN. A Guide to Calculating and Interpreting the Estimated Post-Transplant Survival (EPTS) Score. HRSA. 2024",
       "Massie AB et al. A risk index for living donor kidney transplantation. Am J Transplant. 2016;16(7):2077-2084",
     ],
+    referenceCases: [
+      {
+        description: "45-year-old with diabetes, no prior transplant, 3 years on dialysis",
+        values: { recipientAge: "45", recipientDiabetes: "on", yearsOnDialysis: "3" },
+        expected: 2.201,
+        tolerance: 0.001,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: OPTN. A Guide to Calculating and Interpreting the EPTS Score. HRSA. 2024 (raw EPTS score)",
+      },
+    ],
   },
   {
     id: "banff-classification",
@@ -1329,6 +2064,41 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Banff Classification",
     resultUnit: "category",
+    compute({ values: v }) {
+      const scores: calc.BanffScores = {
+        glomeruli: parseFloat(v.glomeruli as string) || 10,
+        arteries: parseFloat(v.arteries as string) || 2,
+        i: parseFloat(v.i as string) || 0,
+        t: parseFloat(v.t as string) || 0,
+        v: parseFloat(v.v as string) || 0,
+        g: parseFloat(v.g as string) || 0,
+        ptc: parseFloat(v.ptc as string) || 0,
+        ci: parseFloat(v.ci as string) || 0,
+        ct: parseFloat(v.ct as string) || 0,
+        cv: parseFloat(v.cv as string) || 0,
+        cg: parseFloat(v.cg as string) || 0,
+        ti: parseFloat(v.ti as string) || 0,
+        iIfta: parseFloat(v.iIfta as string) || 0,
+        tIfta: parseFloat(v.tIfta as string) || 0,
+        ah: parseFloat(v.ah as string) || 0,
+        c4d: parseInt(v.c4d as string) || 0,
+        dsa: (v.dsa as string) || "negative",
+        acuteTMA: (v.acuteTMA as string) === "yes",
+        chronicTMA: (v.chronicTMA as string) === "yes",
+        recurrentGN: (v.recurrentGN as string) === "yes",
+        acuteTubularInjury: (v.acuteTubularInjury as string) === "yes",
+        priorABMR: (v.priorABMR as string) === "yes",
+        ptcBMML: (v.ptcBMML as string) === "yes",
+      };
+      const banffResult = calc.banffClassification(scores);
+      // Banff uses a custom display rather than a numeric result
+      return {
+        value: null,
+        interpretation: banffResult.diagnoses.filter(d => d.diagnosed).map(d => d.title).join('; ') || 'Normal',
+        summary: banffResult.diagnoses.filter(d => d.diagnosed).map(d => d.title).join(", ") || "Normal",
+        detail: { kind: "banff", data: banffResult },
+      };
+    },
     interpretation: (value) => {
       // This will be handled specially in Dashboard.tsx
       return "See detailed classification below";
@@ -1357,6 +2127,16 @@ export const calculators: Calculator[] = [
       "Mengel M et al. Am J Transplant. 2024;24(4):557-570 — Banff 2022 meeting report",
       "Roufosse C et al. Transplantation. 2018;102(11):1795-1814",
     ],
+    referenceCases: [
+      {
+        description: "i2 t2 without antibody findings",
+        values: { glomeruli: "12", arteries: "2", i: "2", t: "2" },
+        expected: null,
+        tolerance: 0,
+        interpretation: "IA",
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Loupy A et al. Am J Transplant. 2020;20(9):2305-2331 (i2 t2 = acute TCMR grade IA)",
+      },
+    ],
   },
   // ============================================================================
   // CARDIOVASCULAR RISK
@@ -1372,8 +2152,8 @@ export const calculators: Calculator[] = [
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "55", required: true, min: 40, max: 79 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
       { id: "race", label: "Race", type: "select", options: [{ value: "Black", label: "African American" }, { value: "White", label: "White/Other" }], required: true },
-      { id: "totalCholesterol", label: "Total Cholesterol", type: "number", unit: "mg/dL", placeholder: "200", required: true },
-      { id: "hdl", label: "HDL Cholesterol", type: "number", unit: "mg/dL", placeholder: "50", required: true },
+      { id: "totalCholesterol", label: "Total Cholesterol", type: "number", unit: "mg/dL", unitType: "cholesterol", placeholder: "200", required: true },
+      { id: "hdl", label: "HDL Cholesterol", type: "number", unit: "mg/dL", unitType: "cholesterol", placeholder: "50", required: true },
       { id: "systolicBP", label: "Systolic Blood Pressure", type: "number", unit: "mmHg", placeholder: "130", required: true },
       { id: "treated", label: "On Blood Pressure Medication", type: "checkbox" },
       { id: "diabetes", label: "Diabetes Mellitus", type: "checkbox" },
@@ -1381,12 +2161,22 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "10-Year ASCVD Risk",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value < 5) return "Low risk (<5%)";
-      if (value < 7.5) return "Borderline risk (5-7.5%) - CKD is risk enhancer";
-      if (value < 20) return "Intermediate risk (7.5-20%)";
-      return "High risk (>20%)";
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.ascvdRisk(
+          num("age"),
+          v.sex as "M" | "F",
+          value("totalCholesterol"),
+          value("hdl"),
+          num("systolicBP"),
+          Boolean(v.treated),
+          Boolean(v.diabetes),
+          Boolean(v.smoker),
+          v.race as "Black" | "White"
+        ),
+      };
     },
+    interpretation: bandInterpretation("ascvd-risk"),
     clinicalPearls: [
       "CKD (eGFR <60 or ACR ≥30) = risk enhancer → consider statin even if calculated risk 5-7.5%",
       "Traditional calculators UNDERESTIMATE risk in CKD",
@@ -1394,6 +2184,36 @@ export const calculators: Calculator[] = [
       "Lower thresholds for statin initiation in CKD patients",
     ],
     references: ["Goff DC Jr et al. Circulation. 2014;129(25 Suppl 2):S49-73"],
+    referenceCases: [
+      {
+        description: "White woman, Goff 2013 example",
+        values: { age: "55", totalCholesterol: "213", hdl: "50", systolicBP: "120", sex: "F", race: "White" },
+        expected: 2.1,
+        tolerance: 0.1,
+        citation: "Goff DC Jr et al. Circulation. 2014;129(25 Suppl 2):S49-73 (Pooled Cohort Equations worked example: age 55, TC 213, HDL 50, SBP 120 untreated, non-smoker, no diabetes)",
+      },
+      {
+        description: "African American woman, Goff 2013 example",
+        values: { age: "55", totalCholesterol: "213", hdl: "50", systolicBP: "120", sex: "F", race: "Black" },
+        expected: 3,
+        tolerance: 0.1,
+        citation: "Goff DC Jr et al. Circulation. 2014;129(25 Suppl 2):S49-73 (Pooled Cohort Equations worked example: age 55, TC 213, HDL 50, SBP 120 untreated, non-smoker, no diabetes)",
+      },
+      {
+        description: "White man, Goff 2013 example",
+        values: { age: "55", totalCholesterol: "213", hdl: "50", systolicBP: "120", sex: "M", race: "White" },
+        expected: 5.3,
+        tolerance: 0.1,
+        citation: "Goff DC Jr et al. Circulation. 2014;129(25 Suppl 2):S49-73 (Pooled Cohort Equations worked example: age 55, TC 213, HDL 50, SBP 120 untreated, non-smoker, no diabetes)",
+      },
+      {
+        description: "African American man, Goff 2013 example",
+        values: { age: "55", totalCholesterol: "213", hdl: "50", systolicBP: "120", sex: "M", race: "Black" },
+        expected: 6.1,
+        tolerance: 0.1,
+        citation: "Goff DC Jr et al. Circulation. 2014;129(25 Suppl 2):S49-73 (Pooled Cohort Equations worked example: age 55, TC 213, HDL 50, SBP 120 untreated, non-smoker, no diabetes)",
+      },
+    ],
   },
   {
     id: "cha2ds2-vasc",
@@ -1413,6 +2233,21 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "CHA\u2082DS\u2082-VASc Score",
     resultUnit: "points",
+    compute({ values: v, num }) {
+      const cha2Result = calc.cha2ds2vasc(
+        v.chf === "1",
+        v.hypertension === "1",
+        num("age"),
+        v.diabetes === "1",
+        v.strokeTia === "1",
+        v.vascularDisease === "1",
+        v.sex as "M" | "F"
+      );
+      return {
+        value: cha2Result.score,
+        interpretation: `Score: ${cha2Result.score} | Annual Stroke Risk: ${cha2Result.annualStrokeRisk}\n\n${cha2Result.recommendation}`,
+      };
+    },
     interpretation: (value) => {
       const strokeRisk: Record<number, string> = {
         0: "0%", 1: "1.3%", 2: "2.2%", 3: "3.2%", 4: "4.0%",
@@ -1444,6 +2279,15 @@ export const calculators: Calculator[] = [
       "Hindricks G et al. Eur Heart J. 2021;42(5):373-498 (2020 ESC AF Guidelines)",
       "January CT et al. Circulation. 2019;140(2):e125-e151 (2019 AHA/ACC/HRS Focused Update)",
     ],
+    referenceCases: [
+      {
+        description: "76-year-old woman with hypertension and diabetes",
+        values: { chf: "0", hypertension: "1", age: "76", diabetes: "1", strokeTia: "0", vascularDisease: "0", sex: "F" },
+        expected: 5,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Lip GY et al. Chest. 2010;137(2):263-272 (age ≥ 75 = 2, female = 1, hypertension = 1, diabetes = 1)",
+      },
+    ],
   },
   // ============================================================================
   // ANTHROPOMETRIC & BODY COMPOSITION
@@ -1457,18 +2301,14 @@ export const calculators: Calculator[] = [
     category: "Anthropometric & Body Composition",
     inputs: [
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
     ],
     resultLabel: "BMI",
     resultUnit: "kg/m²",
-    interpretation: (value) => {
-      if (value < 18.5) return "Underweight";
-      if (value < 25) return "Normal weight";
-      if (value < 30) return "Overweight";
-      if (value < 35) return "Obese Class I";
-      if (value < 40) return "Obese Class II";
-      return "Obese Class III (Severe obesity)";
+    compute({ num, value }) {
+      return { value: calc.bmi(num("weight"), value("height"), "cm") };
     },
+    interpretation: bandInterpretation("bmi"),
     referenceRanges: [
       { label: "Underweight", max: 18.4, unit: "kg/m²" },
       { label: "Normal weight", min: 18.5, max: 24.9, unit: "kg/m²" },
@@ -1487,6 +2327,15 @@ export const calculators: Calculator[] = [
       "WHO Expert Consultation. Appropriate body-mass index for Asian populations and its implications for policy and intervention strategies. Lancet. 2004;363(9403):157-163",
       "World Health Organization. Obesity: preventing and managing the global epidemic. WHO Technical Report Series 894. Geneva: WHO; 2000",
     ],
+    referenceCases: [
+      {
+        description: "70 kg, 170 cm",
+        values: { weight: "70", height: "170" },
+        expected: 24.221,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: WHO Expert Consultation. Lancet. 2004;363(9403):157-163 (weight / height²)",
+      },
+    ],
   },
   {
     id: "bsa-dubois",
@@ -1497,10 +2346,13 @@ export const calculators: Calculator[] = [
     category: "Anthropometric & Body Composition",
     inputs: [
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
     ],
     resultLabel: "Body Surface Area",
     resultUnit: "m²",
+    compute({ num, value }) {
+      return { value: calc.bsaDuBois(num("weight"), value("height"), "cm") };
+    },
     interpretation: (value) => {
       if (value < 1.5) return "Small BSA - typical for children or small adults";
       if (value < 2.0) return "Average BSA - typical for adults";
@@ -1513,6 +2365,15 @@ export const calculators: Calculator[] = [
       "Average adult BSA: 1.7-2.0 m²",
     ],
     references: ["Du Bois D, Du Bois EF. Arch Intern Med. 1916;17(6):863-871"],
+    referenceCases: [
+      {
+        description: "70 kg, 175 cm",
+        values: { weight: "70", height: "175" },
+        expected: 1.848,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Du Bois D, Du Bois EF. Arch Intern Med. 1916;17(6):863-871",
+      },
+    ],
   },
   {
     id: "bsa-mosteller",
@@ -1523,10 +2384,13 @@ export const calculators: Calculator[] = [
     category: "Anthropometric & Body Composition",
     inputs: [
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
     ],
     resultLabel: "Body Surface Area",
     resultUnit: "m²",
+    compute({ num, value }) {
+      return { value: calc.bsaMosteller(num("weight"), value("height"), "cm") };
+    },
     interpretation: (value) => {
       if (value < 1.5) return "Small BSA";
       if (value < 2.0) return "Average BSA";
@@ -1538,6 +2402,15 @@ export const calculators: Calculator[] = [
       "Easier to calculate than Du Bois",
     ],
     references: ["Mosteller RD. N Engl J Med. 1987;317(17):1098"],
+    referenceCases: [
+      {
+        description: "70 kg, 175 cm",
+        values: { weight: "70", height: "175" },
+        expected: 1.845,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Mosteller RD. N Engl J Med. 1987;317(17):1098",
+      },
+    ],
   },
   {
     id: "devine-ibw",
@@ -1547,11 +2420,14 @@ export const calculators: Calculator[] = [
     whenToUse: "Use for weight-based drug dosing and ventilator tidal volume settings.",
     category: "Anthropometric & Body Composition",
     inputs: [
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "Ideal Body Weight",
     resultUnit: "kg",
+    compute({ values: v, value }) {
+      return { value: calc.devineIdealBodyWeight(value("height"), v.sex as "M" | "F", "cm") };
+    },
     interpretation: (value) => {
       if (value > 0) return `Ideal body weight: ${value.toFixed(1)} kg`;
       return "Unable to calculate";
@@ -1563,6 +2439,22 @@ export const calculators: Calculator[] = [
       "Reference for calculating adjusted body weight",
     ],
     references: ["Devine BJ. Drug Intell Clin Pharm. 1974;8(7):470-471"],
+    referenceCases: [
+      {
+        description: "Man, 175 cm",
+        values: { height: "175", sex: "M" },
+        expected: 70.465,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Devine BJ. Drug Intell Clin Pharm. 1974;8(7):470-471 (50 kg + 2.3 kg per inch over 5 ft)",
+      },
+      {
+        description: "Woman, 160 cm",
+        values: { height: "160", sex: "F" },
+        expected: 52.382,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Devine BJ. Drug Intell Clin Pharm. 1974;8(7):470-471 (45.5 kg + 2.3 kg per inch over 5 ft)",
+      },
+    ],
   },
   {
     id: "lean-body-weight",
@@ -1573,11 +2465,25 @@ export const calculators: Calculator[] = [
     category: "Anthropometric & Body Composition",
     inputs: [
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "Lean Body Weight",
     resultUnit: "kg",
+    formulaVersion: "2",
+    formulaSource: "Janmahasatian lean body weight equation (2005)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "James lean body weight equation, which falls at high BMI",
+        compute({ values: v, num, value }) {
+          return { value: calc.leanBodyWeightJames(num("weight"), value("height"), v.sex as "M" | "F", "cm") };
+        },
+      },
+    ],
+    compute({ values: v, num, value }) {
+      return { value: calc.leanBodyWeight(num("weight"), value("height"), v.sex as "M" | "F", "cm") };
+    },
     interpretation: (value) => {
       if (value > 0) return `Lean body weight: ${value.toFixed(1)} kg`;
       return "Unable to calculate";
@@ -1588,6 +2494,22 @@ export const calculators: Calculator[] = [
       "Accounts for sex differences in body composition",
     ],
     references: ["Janmahasatian S et al. Clin Pharmacokinet. 2005;44(10):1051-1065"],
+    referenceCases: [
+      {
+        description: "Man, 70 kg, 170 cm",
+        values: { weight: "70", height: "170", sex: "M" },
+        expected: 54.475,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Janmahasatian S et al. Clin Pharmacokinet. 2005;44(10):1051-1065 (men: 9270 × W / (6680 + 216 × BMI))",
+      },
+      {
+        description: "Woman, 80 kg, 160 cm",
+        values: { weight: "80", height: "160", sex: "F" },
+        expected: 45.206,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Janmahasatian S et al. Clin Pharmacokinet. 2005;44(10):1051-1065 (women: 9270 × W / (8780 + 244 × BMI))",
+      },
+    ],
   },
   {
     id: "adjusted-body-weight",
@@ -1602,6 +2524,9 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Adjusted Body Weight",
     resultUnit: "kg",
+    compute({ num }) {
+      return { value: calc.adjustedBodyWeight(num("actualWeight"), num("idealWeight")) };
+    },
     interpretation: (value) => {
       if (value > 0) return `Adjusted BW: ${value.toFixed(1)} kg - use for aminoglycosides`;
       return "Unable to calculate";
@@ -1613,6 +2538,15 @@ export const calculators: Calculator[] = [
       "Vancomycin: controversial (some use actual BW, some adjusted)",
     ],
     references: ["Pai MP, Paloucek FP. Ann Pharmacother. 2000;34(9):1066-1069"],
+    referenceCases: [
+      {
+        description: "Actual 100 kg, ideal 70 kg",
+        values: { actualWeight: "100", idealWeight: "70" },
+        expected: 82,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Pai MP, Paloucek FP. Ann Pharmacother. 2000;34(9):1066-1069 (IBW + 0.4 × (actual − IBW))",
+      },
+    ],
   },
   // ============================================================================
   // CKD-MINERAL BONE DISEASE
@@ -1625,11 +2559,14 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to assess vascular calcification risk in CKD-MBD patients.",
     category: "CKD-Mineral Bone Disease",
     inputs: [
-      { id: "calcium", label: "Serum Calcium", type: "number", unit: "mg/dL", placeholder: "9", required: true },
-      { id: "phosphate", label: "Serum Phosphate", type: "number", unit: "mg/dL", placeholder: "5", required: true },
+      { id: "calcium", label: "Serum Calcium", type: "number", unit: "mg/dL", unitType: "calcium", placeholder: "9", required: true },
+      { id: "phosphate", label: "Serum Phosphate", type: "number", unit: "mg/dL", unitType: "phosphate", placeholder: "5", required: true },
     ],
     resultLabel: "Ca × PO₄ Product",
     resultUnit: "mg²/dL²",
+    compute({ value }) {
+      return { value: calc.caPhoProduct(value("calcium"), value("phosphate"), "mg/dL", "mg/dL") };
+    },
     interpretation: (value) => {
       if (value < 55) return "Target range - low vascular calcification risk";
       if (value < 70) return "Caution zone - risk of vascular calcification";
@@ -1642,6 +2579,15 @@ export const calculators: Calculator[] = [
       "Management: phosphate binders, dietary restriction, dialysis adequacy, calcimimetics",
     ],
     references: ["KDIGO CKD-MBD Work Group. KDIGO 2017 Clinical Practice Guideline Update for the Diagnosis, Evaluation, Prevention, and Treatment of CKD-MBD. Kidney Int Suppl. 2017;7(1):1-59"],
+    referenceCases: [
+      {
+        description: "Calcium 9.5, phosphate 5.0 mg/dL",
+        values: { calcium: "9.5", phosphate: "5.0" },
+        expected: 47.5,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO CKD-MBD 2017 Update. Kidney Int Suppl. 2017;7(1):1-59",
+      },
+    ],
   },
   // ============================================================================
   // SYSTEMIC DISEASES & SCORES
@@ -1681,13 +2627,37 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "SLEDAI-2K Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value === 0) return "Remission - no active disease";
-      if (value <= 4) return "Mild disease activity";
-      if (value <= 8) return "Moderate disease activity";
-      if (value <= 16) return "High disease activity";
-      return "Very high disease activity - requires aggressive treatment";
+    compute({ values: v }) {
+      return {
+        value: calc.sledai2k(
+          Boolean(v.seizures),
+          Boolean(v.psychosis),
+          Boolean(v.organicBrainSyndrome),
+          Boolean(v.visualDisorder),
+          Boolean(v.cranialNerveDisorder),
+          Boolean(v.lupusHeadache),
+          Boolean(v.cerebrovasitisAccident),
+          Boolean(v.vasculitis),
+          Boolean(v.arthritis),
+          Boolean(v.myositis),
+          Boolean(v.urinaryCasts),
+          Boolean(v.proteinuria),
+          Boolean(v.hematuria),
+          Boolean(v.pyuria),
+          Boolean(v.rash),
+          Boolean(v.alopecia),
+          Boolean(v.mucousalUlcers),
+          Boolean(v.pleuritis),
+          Boolean(v.pericarditis),
+          Boolean(v.lowComplement),
+          Boolean(v.elevatedDNA),
+          Boolean(v.fever),
+          Boolean(v.thrombocytopenia),
+          Boolean(v.leukopenia)
+        ),
+      };
     },
+    interpretation: bandInterpretation("sledai-2k"),
     clinicalPearls: [
       "Measures current SLE disease activity",
       "Useful for monitoring treatment response",
@@ -1695,6 +2665,15 @@ export const calculators: Calculator[] = [
       "Serial measurements track disease course",
     ],
     references: ["Gladman DD et al. Lupus. 2011;20(5):453-462"],
+    referenceCases: [
+      {
+        description: "Arthritis, proteinuria, low complement and raised anti-dsDNA",
+        values: { arthritis: "on", proteinuria: "on", lowComplement: "on", elevatedDNA: "on" },
+        expected: 12,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Gladman DD et al. J Rheumatol. 2002;29(2):288-291 (SLEDAI-2K weights: arthritis 4, proteinuria 4, low complement 2, anti-dsDNA 2)",
+      },
+    ],
   },
   {
     id: "slicc-2012",
@@ -1727,10 +2706,33 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "SLICC 2012 Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 4) return "Meets SLICC 2012 SLE classification criteria";
-      return "Does not meet SLICC 2012 SLE classification criteria";
+    compute({ values: v }) {
+      return {
+        value: calc.slicc2012(
+          Boolean(v.acuteRash),
+          Boolean(v.chronicRash),
+          Boolean(v.oralUlcers),
+          Boolean(v.alopecia),
+          Boolean(v.photosensitivity),
+          Boolean(v.arthritis),
+          Boolean(v.serositis),
+          Boolean(v.renal),
+          Boolean(v.psychosis),
+          Boolean(v.seizures),
+          Boolean(v.hemolytic),
+          Boolean(v.leukopenia),
+          Boolean(v.thrombocytopenia),
+          Boolean(v.ana),
+          Boolean(v.antiDsDna),
+          Boolean(v.antiSmRnp),
+          Boolean(v.antiRoSsa),
+          Boolean(v.antiLaSSb),
+          Boolean(v.antiC1q),
+          Boolean(v.directCoombs)
+        ),
+      };
     },
+    interpretation: bandInterpretation("slicc-2012"),
     clinicalPearls: [
       "Classification criteria (not diagnostic criteria)",
       "Requires ≥4 points from clinical and immunologic criteria",
@@ -1738,6 +2740,15 @@ export const calculators: Calculator[] = [
       "Updated from 1997 ACR criteria",
     ],
     references: ["Petri M et al. Arthritis Care Res (Hoboken). 2012;64(8):1246-1255"],
+    referenceCases: [
+      {
+        description: "Acute rash, arthritis, renal disorder, ANA and anti-dsDNA",
+        values: { acuteRash: "on", arthritis: "on", renal: "on", ana: "on", antiDsDna: "on" },
+        expected: 5,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Petri M et al. Arthritis Rheum. 2012;64(8):2677-2686 (one point per criterion; ≥ 4 with one clinical and one immunologic classifies SLE)",
+      },
+    ],
   },
   {
     id: "das28-esr",
@@ -1754,12 +2765,12 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "DAS28-ESR",
     resultUnit: "",
-    interpretation: (value) => {
-      if (value < 2.6) return "Remission (DAS28 <2.6). Target achieved per treat-to-target strategy. Continue current DMARD therapy, monitor every 3–6 months. Consider tapering biologics if sustained remission >6 months.";
-      if (value < 3.2) return "Low disease activity (DAS28 2.6–3.2). Acceptable alternative target if remission is not achievable. Optimize current DMARD therapy, consider dose adjustment. Monitor every 3–6 months.";
-      if (value <= 5.1) return "Moderate disease activity (DAS28 3.2–5.1). Treatment escalation recommended. Consider adding or switching DMARDs (methotrexate, leflunomide, sulfasalazine). If failing conventional DMARDs, consider biologic or targeted synthetic DMARDs (TNF inhibitors, IL-6 inhibitors, JAK inhibitors).";
-      return "High disease activity (DAS28 >5.1). Aggressive treatment escalation required. Initiate or switch biologic/targeted synthetic DMARD. Consider short-course glucocorticoid bridging (≤3 months). Reassess in 1–3 months. Screen for extra-articular manifestations (interstitial lung disease, vasculitis, secondary amyloidosis).";
+    compute({ num }) {
+      return {
+        value: calc.das28esr(num("tenderJointCount"), num("swollenJointCount"), num("esr"), num("patientGlobalVAS")),
+      };
     },
+    interpretation: bandInterpretation("das28-esr"),
     referenceRanges: [
       { label: "Remission", max: 2.6, unit: "", note: "<2.6" },
       { label: "Low Activity", min: 2.6, max: 3.2, unit: "", note: "2.6–3.2" },
@@ -1780,6 +2791,15 @@ export const calculators: Calculator[] = [
       "Smolen JS et al. Ann Rheum Dis. 2017;76(6):960-977 (EULAR treat-to-target update)",
       "Fransen J, van Riel PL. Clin Exp Rheumatol. 2005;23(5 Suppl 39):S93-99",
     ],
+    referenceCases: [
+      {
+        description: "4 tender, 2 swollen, ESR 30, patient global 50",
+        values: { tenderJointCount: "4", swollenJointCount: "2", esr: "30", patientGlobalVAS: "50" },
+        expected: 4.597,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Prevoo ML et al. Arthritis Rheum. 1995;38(1):44-48",
+      },
+    ],
   },
   {
     id: "frail-scale",
@@ -1797,12 +2817,18 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "FRAIL Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value === 0) return "Not frail";
-      if (value === 1) return "Pre-frail";
-      if (value >= 2) return "Frail - higher mortality and morbidity risk";
-      return "Unable to determine";
+    compute({ values: v }) {
+      return {
+        value: calc.frailScale(
+          Boolean(v.fatigue),
+          Boolean(v.resistance),
+          Boolean(v.ambulation),
+          Boolean(v.illness),
+          Boolean(v.lossOfWeight)
+        ),
+      };
     },
+    interpretation: bandInterpretation("frail-scale"),
     clinicalPearls: [
       "Simple 5-item screening tool",
       "Identifies frail older adults at risk",
@@ -1813,6 +2839,15 @@ export const calculators: Calculator[] = [
       "Morley JE et al. A simple frailty questionnaire (FRAIL) predicts outcomes in middle aged African Americans. J Nutr Health Aging. 2012;16(7):601-608",
       "van Kan GA et al. The IANA Task Force on frailty assessment of older people in clinical practice. J Nutr Health Aging. 2008;12(1):29-37",
     ],
+    referenceCases: [
+      {
+        description: "Fatigue, resistance and ambulation",
+        values: { fatigue: "on", resistance: "on", ambulation: "on" },
+        expected: 3,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Morley JE et al. J Nutr Health Aging. 2012;16(7):601-608 (3–5 = frail)",
+      },
+    ],
   },
   {
     id: "prisma-7",
@@ -1827,22 +2862,54 @@ export const calculators: Calculator[] = [
       { id: "healthLimitActivities", label: "In general, do you have any health problems that require you to limit your activities?", type: "checkbox" },
       { id: "needHelp", label: "Do you need someone to help you on a regular basis?", type: "checkbox" },
       { id: "healthStayHome", label: "In general, do you have any health problems that require you to stay at home?", type: "checkbox" },
-      { id: "socialSupport", label: "If you need help, can you count on someone close to you?", type: "checkbox" },
+      { id: "socialSupport", label: "If you need help, can you count on someone close to you?", type: "select", options: [{ value: "yes", label: "Yes" }, { value: "no", label: "No" }], default: "yes" },
       { id: "mobilityAid", label: "Do you regularly use a stick, walker or wheelchair to move about?", type: "checkbox" },
     ],
     resultLabel: "PRISMA-7 Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value <= 3) return "Negative screen (0-3) — frailty unlikely";
-      if (value >= 4) return "Positive screen (≥4) — further comprehensive geriatric assessment recommended";
-      return "Unable to determine";
+    formulaVersion: "2",
+    formulaSource: "PRISMA-7 with question 6 scored when the answer is no (Raîche 2008)",
+    previousVersions: [
+      {
+        // Same arithmetic; question 6 was ticked for a "yes" answer under this version
+        version: "1",
+        source: "PRISMA-7 with question 6 ticked when the answer is yes",
+        compute({ values: v }) {
+          return {
+            value: calc.prisma7(
+              Boolean(v.age85),
+              Boolean(v.male),
+              Boolean(v.healthLimitActivities),
+              Boolean(v.needHelp),
+              Boolean(v.healthStayHome),
+              v.socialSupport === "on" || v.socialSupport === "yes",
+              Boolean(v.mobilityAid)
+            ),
+          };
+        },
+      },
+    ],
+    compute({ values: v }) {
+      return {
+        value: calc.prisma7(
+          Boolean(v.age85),
+          Boolean(v.male),
+          Boolean(v.healthLimitActivities),
+          Boolean(v.needHelp),
+          Boolean(v.healthStayHome),
+          // "on" is the earlier checkbox, which was ticked for a "no"
+          v.socialSupport === "no" || v.socialSupport === "on",
+          Boolean(v.mobilityAid)
+        ),
+      };
     },
+    interpretation: bandInterpretation("prisma-7"),
     clinicalPearls: [
       "PRISMA-7 is a validated 7-item yes/no screening questionnaire for frailty",
       "Both scores of ≥3 and ≥4 are acceptable cut-points; in practice, ≥4 is frequently used",
       "Relies on self-report only — do not judge the respondent's answer",
       "If the respondent hesitates between yes and no, ask them to choose one; if they persist with 'a little' or 'at times', enter 'yes'",
-      "Each 'Yes' answer scores 1 point (maximum score = 7)",
+      "Each 'Yes' answer scores 1 point, except question 6 where 'No' scores (maximum score = 7)",
       "Quick to administer (~3 minutes), suitable for clinical practice, transplant, and dialysis settings",
       "A positive screen should be followed by a detailed comprehensive geriatric assessment (CGA)",
     ],
@@ -1851,6 +2918,22 @@ export const calculators: Calculator[] = [
       "Clegg A et al. Development and validation of an electronic frailty index using routine primary care electronic health record data. Age Ageing. 2016;45(3):353-360",
       "BCGuidelines.ca: Frailty in Older Adults — Early Identification and Management (2017)",
     ],
+    referenceCases: [
+      {
+        description: "Man over 85 who uses a walking aid",
+        values: { age85: "on", male: "on", mobilityAid: "on" },
+        expected: 3,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Raîche M et al. Arch Gerontol Geriatr. 2008;47(1):9-18 (one point per risk answer; ≥ 3 flags frailty)",
+      },
+      {
+        description: "No one to count on in case of need",
+        values: { socialSupport: "no" },
+        expected: 1,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Raîche M et al. Arch Gerontol Geriatr. 2008;47(1):9-18 (item 6 scores when the answer to \"can you count on someone close to you?\" is no)",
+      },
+    ],
   },
   {
     id: "curb-65",
@@ -1861,7 +2944,7 @@ export const calculators: Calculator[] = [
     category: "Systemic Diseases & Scores",
     inputs: [
       { id: "confusion", label: "Confusion (new onset)", type: "checkbox" },
-      { id: "urineaNitrogen", label: "Urea Nitrogen (BUN)", type: "number", unit: "mg/dL", placeholder: "20", required: true },
+      { id: "urineaNitrogen", label: "Urea Nitrogen (BUN)", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "20", required: true },
       { id: "respiratoryRate", label: "Respiratory Rate", type: "number", unit: "breaths/min", placeholder: "20", required: true },
       { id: "bloodPressureSystolic", label: "Systolic Blood Pressure", type: "number", unit: "mmHg", placeholder: "110", required: true },
       { id: "bloodPressureDiastolic", label: "Diastolic Blood Pressure", type: "number", unit: "mmHg", placeholder: "70", required: true },
@@ -1869,13 +2952,20 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "CURB-65 Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value === 0) return "Low risk (0.7% mortality) - outpatient treatment";
-      if (value === 1) return "Low-intermediate risk (2.1% mortality) - consider hospitalization";
-      if (value === 2) return "Intermediate risk (9.2% mortality) - hospitalize";
-      if (value === 3) return "High risk (14.5% mortality) - hospitalize, consider ICU";
-      return "Very high risk (>40% mortality) - ICU admission";
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.curb65(
+          Boolean(v.confusion),
+          value("urineaNitrogen"),
+          num("respiratoryRate"),
+          num("bloodPressureSystolic"),
+          num("bloodPressureDiastolic"),
+          num("age"),
+          "mg/dL"
+        ),
+      };
     },
+    interpretation: bandInterpretation("curb-65"),
     clinicalPearls: [
       "Guides hospitalization and ICU admission decisions",
       "Simple bedside assessment",
@@ -1883,6 +2973,22 @@ export const calculators: Calculator[] = [
       "BUN >7 mmol/L (>20 mg/dL) = 1 point",
     ],
     references: ["Lim WS et al. Thorax. 2003;58(5):377-382"],
+    referenceCases: [
+      {
+        description: "Confused 70-year-old, BUN 25 mg/dL, RR 32, BP 100/70",
+        values: {
+          confusion: "on",
+          urineaNitrogen: "25",
+          respiratoryRate: "32",
+          bloodPressureSystolic: "100",
+          bloodPressureDiastolic: "70",
+          age: "70",
+        },
+        expected: 4,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Lim WS et al. Thorax. 2003;58(5):377-382 (urea > 7 mmol/L ≈ BUN > 19 mg/dL)",
+      },
+    ],
   },
   {
     id: "roks",
@@ -1900,11 +3006,18 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Recurrence Risk",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value < 20) return "Low recurrence risk";
-      if (value < 50) return "Moderate recurrence risk";
-      return "High recurrence risk - aggressive prevention recommended";
+    compute({ values: v, num }) {
+      return {
+        value: calc.roks(
+          num("age"),
+          num("bmi"),
+          Boolean(v.maleGender),
+          Boolean(v.previousStone),
+          Boolean(v.familyHistory)
+        ),
+      };
     },
+    interpretation: bandInterpretation("roks"),
     clinicalPearls: [
       "Predicts 5-year stone recurrence",
       "Guides prevention intensity",
@@ -1912,6 +3025,15 @@ export const calculators: Calculator[] = [
       "Obesity increases recurrence risk",
     ],
     references: ["Rule AD et al. The ROKS nomogram for predicting a second symptomatic stone episode. J Am Soc Nephrol. 2014;25(12):2878-2886"],
+    referenceCases: [
+      {
+        description: "30-year-old woman, BMI 20, first stone",
+        values: { age: "30", bmi: "20" },
+        expected: 70,
+        tolerance: 0.1,
+        citation: "Expected value from this app's documented approximation, not a published worked example (simplified additive model); Rule AD et al. J Am Soc Nephrol. 2014;25(12):2878-2886 describes the nomogram",
+      },
+    ],
   },
   // ============================================================================
   // BONE & FRACTURE RISK
@@ -1927,7 +3049,7 @@ export const calculators: Calculator[] = [
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "65", required: true, min: 40, max: 90 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
       { id: "weight", label: "Weight", type: "number", unit: "kg", placeholder: "70", required: true },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true },
       { id: "previousFracture", label: "Previous Fragility Fracture", type: "checkbox" },
       { id: "parentHipFracture", label: "Parent with Hip Fracture", type: "checkbox" },
       { id: "currentSmoking", label: "Current Smoking", type: "checkbox" },
@@ -1939,11 +3061,30 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "10-Year Major Osteoporotic Fracture Risk",
     resultUnit: "%",
-    interpretation: (value) => {
-      if (value < 10) return "Low fracture risk - lifestyle measures recommended";
-      if (value < 20) return "Moderate fracture risk - consider pharmacotherapy";
-      return "High fracture risk - pharmacotherapy strongly recommended";
+    compute({ values: v, num, value }) {
+      const fraxResult = calc.fraxSimplified(
+        num("age"),
+        v.sex as "M" | "F",
+        num("weight"),
+        value("height"),
+        Boolean(v.previousFracture),
+        Boolean(v.parentHipFracture),
+        Boolean(v.currentSmoking),
+        Boolean(v.glucocorticoids),
+        Boolean(v.rheumatoidArthritis),
+        Boolean(v.secondaryOsteoporosis),
+        Boolean(v.alcoholIntake),
+        v.bmdTScore ? Number(v.bmdTScore) : undefined
+      );
+      return {
+        value: fraxResult.majorFracture,
+        interpretation: "",
+        secondary: [{ label: "Hip Fracture Risk", value: fraxResult.hipFracture, unit: "%" }],
+        summary: fraxResult.majorFracture.toFixed(1) + "% major / " + fraxResult.hipFracture.toFixed(1) + "% hip",
+        detail: { kind: "frax", data: fraxResult },
+      };
     },
+    interpretation: bandInterpretation("frax-simplified"),
     clinicalPearls: [
       "CKD patients have 2-4x increased fracture risk",
       "FRAX may underestimate risk in CKD (does not account for CKD-MBD)",
@@ -1957,6 +3098,15 @@ export const calculators: Calculator[] = [
       "KDIGO 2017 Clinical Practice Guideline Update for CKD-MBD",
       "Naylor KL et al. Am J Kidney Dis. 2014;63(4):612-622",
     ],
+    referenceCases: [
+      {
+        description: "67-year-old woman, 60 kg, 160 cm, on glucocorticoids",
+        values: { age: "67", sex: "F", weight: "60", height: "160", glucocorticoids: "on" },
+        expected: 18.15,
+        tolerance: 0.1,
+        citation: "Expected value from this app's documented approximation, not a published worked example (age-band baseline × risk-factor multipliers); the FRAX tool itself is proprietary: Kanis JA et al. Osteoporos Int. 2008;19(4):385-397",
+      },
+    ],
   },
   // ============================================================================
   // CONTRAST-INDUCED NEPHROPATHY RISK
@@ -1982,8 +3132,8 @@ export const calculators: Calculator[] = [
         { value: "noninsulin", label: "Non-Insulin-Treated Diabetes" },
         { value: "insulin", label: "Insulin-Treated Diabetes" },
       ], required: true },
-      { id: "hemoglobin", label: "Hemoglobin", type: "number", unit: "g/dL", placeholder: "12", required: true, unitToggle: { units: ["g/dL", "g/L"], conversionFactor: 10 } },
-      { id: "glucose", label: "Basal Glucose", type: "number", unit: "mg/dL", placeholder: "100", required: true, unitToggle: { units: ["mg/dL", "mmol/L"], conversionFactor: 18.0182 } },
+      { id: "hemoglobin", label: "Hemoglobin", type: "number", unit: "g/dL", unitType: "hemoglobin", placeholder: "12", required: true },
+      { id: "glucose", label: "Basal Glucose", type: "number", unit: "mg/dL", unitType: "glucose", placeholder: "100", required: true },
       { id: "chf", label: "Congestive Heart Failure on Presentation", type: "select", options: [
         { value: "0", label: "No" },
         { value: "1", label: "Yes" },
@@ -1995,6 +3145,25 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Mehran 2 Score",
     resultUnit: "points",
+    compute({ values: v, num, value }) {
+      const mehranResult = calc.mehran2Score(
+        v.presentation as string,
+        num("egfr"),
+        num("lvef"),
+        v.diabetesType as string,
+        value("hemoglobin"),
+        value("glucose"),
+        v.chf === "1" || v.chf === true,
+        v.ageOver75 === "1" || v.ageOver75 === true
+      );
+      return {
+        value: mehranResult.totalScore,
+        interpretation: "",
+        secondary: [{ label: "CIN Risk", value: mehranResult.cinRisk, unit: "%" }],
+        summary: mehranResult.totalScore + " pts - " + mehranResult.riskCategory,
+        detail: { kind: "mehran", data: mehranResult },
+      };
+    },
     interpretation: (value, inputs) => {
       let riskCategory = "";
       let cakiRisk = "";
@@ -2039,6 +3208,24 @@ export const calculators: Calculator[] = [
       "Weisbord SD et al. Outcomes after Angiography with Sodium Bicarbonate and Acetylcysteine. N Engl J Med. 2018;378(7):603-614 (PRESERVE trial)",
       "KDIGO Clinical Practice Guideline for AKI. Kidney Int Suppl. 2012;2:1-138",
     ],
+    referenceCases: [
+      {
+        description: "NSTEMI, eGFR 45, LVEF 35%, insulin-treated diabetes, Hb 10.5, glucose 160",
+        values: {
+          presentation: "nstemi",
+          egfr: "45",
+          lvef: "35",
+          diabetesType: "insulin",
+          hemoglobin: "10.5",
+          glucose: "160",
+          chf: "0",
+          ageOver75: "0",
+        },
+        expected: 11,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Mehran R et al. Lancet. 2021;398(10315):1974-1983 (Mehran 2 model 1 points)",
+      },
+    ],
   },
   {
     id: "cin-mehran-original-score",
@@ -2055,12 +3242,34 @@ export const calculators: Calculator[] = [
       { id: "anemia", label: "Anemia (Hct <39% for men, <36% for women)", type: "checkbox" },
       { id: "diabetes", label: "Diabetes mellitus", type: "checkbox" },
       { id: "contrastVolume", label: "Contrast Volume", type: "number", unit: "mL", placeholder: "100", required: true },
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.5", required: true,
-        unitToggle: { units: ["mg/dL", "μmol/L"], conversionFactor: 88.4 } },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.5", required: true },
       { id: "egfr", label: "eGFR (if known, otherwise calculated from SCr)", type: "number", unit: "mL/min/1.73m²", placeholder: "45" },
     ],
     resultLabel: "Mehran Score",
     resultUnit: "points",
+    compute({ values: v, num, value }) {
+      const mehranResult = calc.mehranOriginalScore(
+        v.hypotension === "on",
+        v.iabp === "on",
+        v.chf === "on",
+        v.ageOver75 === "on",
+        v.anemia === "on",
+        v.diabetes === "on",
+        num("contrastVolume"),
+        v.egfr ? num("egfr") || 60 : null,
+        value("creatinine") || 1.0
+      );
+      return {
+        value: mehranResult.totalScore,
+        interpretation: "",
+        secondary: [
+          { label: "CIN Risk", value: mehranResult.cinRisk, unit: "%" },
+          { label: "Dialysis Risk", value: mehranResult.dialysisRisk, unit: "%" },
+        ],
+        summary: mehranResult.totalScore + " pts - " + mehranResult.riskCategory,
+        detail: { kind: "mehran", data: mehranResult },
+      };
+    },
     interpretation: (value, inputs) => {
       let riskCategory = "";
       let cinRisk = "";
@@ -2110,6 +3319,15 @@ export const calculators: Calculator[] = [
       "ACR Manual on Contrast Media, Version 2023",
       "Weisbord SD et al. N Engl J Med. 2018;378(7):603-614 (PRESERVE trial)",
     ],
+    referenceCases: [
+      {
+        description: "CHF, age > 75, diabetes, 250 mL contrast, eGFR 35",
+        values: { chf: "on", ageOver75: "on", diabetes: "on", contrastVolume: "250", creatinine: "1.8", egfr: "35" },
+        expected: 18,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Mehran R et al. J Am Coll Cardiol. 2004;44(7):1393-1399 (1 point per 100 mL contrast; eGFR 20–40 = 4)",
+      },
+    ],
   },
   // ============================================================================
   // ADDITIONAL GFR EQUATIONS
@@ -2122,12 +3340,28 @@ export const calculators: Calculator[] = [
     whenToUse: "Use as an alternative eGFR equation with improved accuracy across BMI ranges.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "50", required: true, min: 18, max: 120 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "eGFR (LMR)",
     resultUnit: "mL/min/1.73m²",
+    formulaVersion: "2",
+    formulaSource: "Lund-Malmö revised equation (Björk 2011)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "Q-ratio approximation of the Lund-Malmö revised equation",
+        compute({ values: v, num, value }) {
+          return { value: calc.lundMalmoRevisedV1(value("creatinine"), num("age"), v.sex as "M" | "F", "mg/dL") };
+        },
+      },
+    ],
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.lundMalmoRevised(value("creatinine"), num("age"), v.sex as "M" | "F", "mg/dL"),
+      };
+    },
     interpretation: (value) => {
       if (value >= 90) return "Normal kidney function (CKD Stage 1)";
       if (value >= 60) return "Mild decrease in kidney function (CKD Stage 2)";
@@ -2155,6 +3389,23 @@ export const calculators: Calculator[] = [
       "Björk J et al. Scand J Clin Lab Invest. 2011;71:232-239",
       "Nyman U et al. Clin Chem Lab Med. 2014;52:815-824",
     ],
+    referenceCases: [
+      {
+        description: "60-year-old man, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "60", sex: "M" },
+        expected: 61.613,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Björk J et al. Scand J Clin Lab Invest. 2011;71(3):232-239 (revised Lund-Malmö, creatinine in µmol/L)",
+      },
+      {
+        description: "75-year-old woman, creatinine 200 µmol/L",
+        values: { creatinine: "200", age: "75", sex: "F" },
+        units: { creatinine: "si" },
+        expected: 18.91,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Björk J et al. Scand J Clin Lab Invest. 2011;71(3):232-239 (revised Lund-Malmö, creatinine in µmol/L)",
+      },
+    ],
   },
   {
     id: "bis1-elderly",
@@ -2164,12 +3415,17 @@ export const calculators: Calculator[] = [
     whenToUse: "Use for eGFR estimation in patients aged 70 years and older.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.2", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.2", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "75", required: true, min: 70, max: 120 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "eGFR (BIS1)",
     resultUnit: "mL/min/1.73m²",
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.bis1Elderly(value("creatinine"), num("age"), v.sex as "M" | "F", "mg/dL"),
+      };
+    },
     interpretation: (value, inputs) => {
       const age = inputs?.age as number || 70;
       if (age < 70) return "⚠️ BIS1 is designed for patients ≥70 years. Consider using CKD-EPI or FAS equation instead.";
@@ -2200,6 +3456,15 @@ export const calculators: Calculator[] = [
       "Schaeffner ES et al. Ann Intern Med. 2012;157(7):471-481",
       "Koppe L et al. Nephrol Dial Transplant. 2013;28(11):2839-2847",
     ],
+    referenceCases: [
+      {
+        description: "80-year-old woman, creatinine 1.0 mg/dL",
+        values: { creatinine: "1.0", age: "80", sex: "F" },
+        expected: 47.674,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Schaeffner ES et al. Ann Intern Med. 2012;157(7):471-481 (BIS1 = 3736 × SCr^−0.87 × age^−0.95 × 0.82 if female)",
+      },
+    ],
   },
   {
     id: "fas-full-age-spectrum",
@@ -2209,12 +3474,28 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when a single eGFR equation is needed across pediatric and adult age ranges.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "45", required: true, min: 2, max: 120 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "eGFR (FAS)",
     resultUnit: "mL/min/1.73m²",
+    formulaVersion: "2",
+    formulaSource: "FAS equation (Pottel 2016)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "FAS with a 1.209 exponent above SCr/Q 1 and the age term from 40",
+        compute({ values: v, num, value }) {
+          return { value: calc.fasFullAgeSpectrumV1(value("creatinine"), num("age"), v.sex as "M" | "F", "mg/dL") };
+        },
+      },
+    ],
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.fasFullAgeSpectrum(value("creatinine"), num("age"), v.sex as "M" | "F", "mg/dL"),
+      };
+    },
     interpretation: (value, inputs) => {
       const age = inputs?.age as number || 45;
       let stageInfo = "";
@@ -2251,6 +3532,22 @@ export const calculators: Calculator[] = [
       "Pottel H et al. Nephrol Dial Transplant. 2016;31(5):798-806",
       "Pottel H et al. Nephrol Dial Transplant. 2017;32(3):497-507",
     ],
+    referenceCases: [
+      {
+        description: "60-year-old man, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "60", sex: "M" },
+        expected: 63.212,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Pottel H et al. Nephrol Dial Transplant. 2016;31(5):798-806 (107.3 / (SCr/Q) × 0.988^(age − 40) after 40, Q = 0.90 mg/dL in men)",
+      },
+      {
+        description: "30-year-old woman, creatinine 0.6 mg/dL",
+        values: { creatinine: "0.6", age: "30", sex: "F" },
+        expected: 125.183,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Pottel H et al. Nephrol Dial Transplant. 2016;31(5):798-806 (Q = 0.70 mg/dL in women, no age term before 40)",
+      },
+    ],
   },
   // ============================================================================
   // CRITICAL CARE
@@ -2269,11 +3566,14 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "qSOFA Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 2) return "HIGH RISK - High risk of poor outcome. Escalate care immediately.";
-      if (value === 1) return "Intermediate - Monitor closely. qSOFA has low sensitivity.";
-      return "Low Score - Does not exclude sepsis. Continue clinical assessment.";
+    compute({ num }) {
+      const qsofaResult = calc.qsofa(num("respiratoryRate"), num("systolicBP"), num("gcs"));
+      return {
+        value: qsofaResult.score,
+        interpretation: `${qsofaResult.interpretation}\n\nCriteria:\n${qsofaResult.criteria.join("\n")}`,
+      };
     },
+    interpretation: bandInterpretation("qsofa"),
     clinicalPearls: [
       "qSOFA ≥2 indicates high risk for poor outcomes in infection",
       "Should NOT be used alone to exclude sepsis (low sensitivity)",
@@ -2285,6 +3585,15 @@ export const calculators: Calculator[] = [
       "Singer M et al. JAMA. 2016;315(8):801-810 (Sepsis-3 definitions)",
       "Seymour CW et al. JAMA. 2016;315(8):762-774",
     ],
+    referenceCases: [
+      {
+        description: "RR 24, SBP 95, GCS 15",
+        values: { respiratoryRate: "24", systolicBP: "95", gcs: "15" },
+        expected: 2,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Seymour CW et al. JAMA. 2016;315(8):762-774 (RR ≥ 22, SBP ≤ 100, altered mentation)",
+      },
+    ],
   },
   {
     id: "news2",
@@ -2304,12 +3613,22 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "NEWS2 Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 7) return "HIGH RISK - Emergency assessment by critical care team. ICU referral likely.";
-      if (value >= 5) return "MEDIUM RISK - Urgent review within 30-60 min. Consider sepsis bundle.";
-      if (value >= 1) return "Low-Medium Risk - Assess by registered nurse. Consider increased monitoring.";
-      return "Low Risk - Continue routine monitoring per ward protocol.";
+    compute({ values: v, num }) {
+      const news2Result = calc.news2(
+        num("respiratoryRate"),
+        num("spo2"),
+        v.supplementalO2 === "yes",
+        num("systolicBP"),
+        num("heartRate"),
+        num("temperature"),
+        v.consciousness as "A" | "C" | "V" | "P" | "U"
+      );
+      return {
+        value: news2Result.score,
+        interpretation: `${news2Result.interpretation}\n\nBreakdown:\n${news2Result.breakdown.join("\n")}`,
+      };
     },
+    interpretation: bandInterpretation("news2"),
     clinicalPearls: [
       "NEWS2 ≥5: Medium risk - urgent clinical review within 30-60 min",
       "NEWS2 ≥7: High risk - immediate senior review, ICU assessment",
@@ -2322,6 +3641,23 @@ export const calculators: Calculator[] = [
       "Smith GB et al. The ability of the National Early Warning Score (NEWS) to discriminate patients at risk of early cardiac arrest, unanticipated intensive care unit admission, and death. Resuscitation. 2013;84(4):465-470",
       "NICE NG51: Sepsis recognition, diagnosis and early management (2024)",
     ],
+    referenceCases: [
+      {
+        description: "RR 22, SpO₂ 95% on air, SBP 105, HR 105, 38.5 °C, alert",
+        values: {
+          respiratoryRate: "22",
+          spo2: "95",
+          supplementalO2: "no",
+          systolicBP: "105",
+          heartRate: "105",
+          temperature: "38.5",
+          consciousness: "A",
+        },
+        expected: 6,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Royal College of Physicians. National Early Warning Score (NEWS) 2. London: RCP; 2017 (SpO₂ scale 1)",
+      },
+    ],
   },
   {
     id: "sofa",
@@ -2334,21 +3670,66 @@ export const calculators: Calculator[] = [
       { id: "pao2", label: "PaO₂", type: "number", unit: "mmHg", placeholder: "95", required: true, min: 0 },
       { id: "fio2", label: "FiO₂", type: "number", unit: "%", placeholder: "21", required: true, min: 21, max: 100 },
       { id: "platelets", label: "Platelets", type: "number", unit: "×10⁹/L", placeholder: "200", required: true, min: 0 },
-      { id: "bilirubin", label: "Bilirubin", type: "number", unit: "mg/dL", placeholder: "15", required: true, min: 0 },
+      { id: "bilirubin", label: "Bilirubin", type: "number", unit: "mg/dL", unitType: "bilirubin", placeholder: "15", required: true, min: 0 },
       { id: "map", label: "Mean Arterial Pressure (MAP)", type: "number", unit: "mmHg", placeholder: "80", required: true, min: 0 },
       { id: "vasopressor", label: "Vasopressor Support", type: "select", options: [{ value: "none", label: "None" }, { value: "dopa_low", label: "Dopamine ≤5 or Dobutamine (any)" }, { value: "dopa_mid", label: "Dopamine >5 or Norepi/Epi ≤0.1" }, { value: "dopa_high", label: "Dopamine >15 or Norepi/Epi >0.1" }], required: true },
       { id: "gcs", label: "Glasgow Coma Scale (GCS)", type: "number", unit: "points", placeholder: "15", required: true, min: 3, max: 15 },
-      { id: "creatinine", label: "Creatinine", type: "number", unit: "mg/dL", placeholder: "90", required: true, min: 0 },
+      { id: "creatinine", label: "Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "90", required: true, min: 0 },
       { id: "urineOutput", label: "Urine Output (24h)", type: "number", unit: "mL/day", placeholder: "2000", required: true, min: 0 },
     ],
     resultLabel: "SOFA Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 11) return "VERY HIGH - Critical organ dysfunction (~50%+ mortality). Maximum support needed.";
-      if (value >= 6) return "HIGH - Significant organ dysfunction. ICU-level care required.";
-      if (value >= 2) return "MODERATE - Organ dysfunction present. If acute rise ≥2 + infection = sepsis.";
-      return "Low - Minimal organ dysfunction. Continue routine assessment.";
+    formulaVersion: "2",
+    formulaSource: "SOFA score (Vincent 1996)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "SOFA with CNS scored 0 from GCS 13 and renal on 110/221/354/442 μmol/L creatinine bands",
+        compute({ values: v, num, value }) {
+          const sofaResult = calc.sofaV1(
+            num("pao2"),
+            num("fio2") || 21,
+            num("platelets"),
+            value("bilirubin"),
+            "mg/dL",
+            num("map"),
+            v.vasopressor as "none" | "dopa_low" | "dopa_mid" | "dopa_high",
+            num("gcs"),
+            value("creatinine"),
+            "mg/dL",
+            num("urineOutput")
+          );
+          return { value: sofaResult.score };
+        },
+      },
+    ],
+    compute({ values: v, num, value }) {
+      const sofaResult = calc.sofa(
+        num("pao2"),
+        num("fio2") || 21,
+        num("platelets"),
+        value("bilirubin"),
+        "mg/dL",
+        num("map"),
+        v.vasopressor as "none" | "dopa_low" | "dopa_mid" | "dopa_high",
+        num("gcs"),
+        value("creatinine"),
+        "mg/dL",
+        num("urineOutput")
+      );
+      return {
+        value: sofaResult.score,
+        interpretation:
+          `${sofaResult.interpretation}\n\nOrgan Scores:\n` +
+          `• Respiratory: ${sofaResult.organScores.respiratory}\n` +
+          `• Coagulation: ${sofaResult.organScores.coagulation}\n` +
+          `• Liver: ${sofaResult.organScores.liver}\n` +
+          `• Cardiovascular: ${sofaResult.organScores.cardiovascular}\n` +
+          `• CNS: ${sofaResult.organScores.cns}\n` +
+          `• Renal: ${sofaResult.organScores.renal}`,
+      };
     },
+    interpretation: bandInterpretation("sofa"),
     clinicalPearls: [
       "SOFA ≥2 from baseline + suspected infection = Sepsis-3 definition",
       "Each point increase associated with ~7-9% mortality rise",
@@ -2360,6 +3741,42 @@ export const calculators: Calculator[] = [
       "Singer M et al. JAMA. 2016;315(8):801-810 (Sepsis-3)",
       "Vincent JL et al. Intensive Care Med. 1996;22(7):707-710",
     ],
+    referenceCases: [
+      {
+        description: "P/F 200, platelets 90, bilirubin 1.5, MAP 65, GCS 14, creatinine 2.5 mg/dL",
+        values: {
+          pao2: "80",
+          fio2: "40",
+          platelets: "90",
+          bilirubin: "1.5",
+          map: "65",
+          vasopressor: "none",
+          gcs: "14",
+          creatinine: "2.5",
+          urineOutput: "1500",
+        },
+        expected: 9,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Vincent JL et al. Intensive Care Med. 1996;22(7):707-710 (GCS 13–14 = 1; creatinine 2.0–3.4 mg/dL = 2)",
+      },
+      {
+        description: "Creatinine 3.8 mg/dL, otherwise normal",
+        values: {
+          pao2: "95",
+          fio2: "21",
+          platelets: "250",
+          bilirubin: "0.8",
+          map: "85",
+          vasopressor: "none",
+          gcs: "15",
+          creatinine: "3.8",
+          urineOutput: "1500",
+        },
+        expected: 3,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Vincent JL et al. Intensive Care Med. 1996;22(7):707-710 (creatinine 3.5–4.9 mg/dL = 3)",
+      },
+    ],
   },
   {
     id: "wells-pe",
@@ -2379,11 +3796,22 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Wells PE Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value > 6) return "HIGH PROBABILITY - >50% risk of PE. Consider immediate anticoagulation and imaging.";
-      if (value >= 2) return "MODERATE PROBABILITY - 20-50% risk. D-dimer or imaging recommended.";
-      return "LOW PROBABILITY - <10% risk. D-dimer to rule out; if negative, PE unlikely.";
+    compute({ values: v }) {
+      const wellsPeResult = calc.wellsPE(
+        v.dvtSigns === "yes",
+        v.peTopDiagnosis === "yes",
+        v.heartRateOver100 === "yes",
+        v.immobilization === "yes",
+        v.previousPeDvt === "yes",
+        v.hemoptysis === "yes",
+        v.malignancy === "yes"
+      );
+      return {
+        value: wellsPeResult.score,
+        interpretation: `${wellsPeResult.interpretation} (${wellsPeResult.simplified})\n\nCriteria:\n${wellsPeResult.criteria.join("\n")}`,
+      };
     },
+    interpretation: bandInterpretation("wells-pe"),
     clinicalPearls: [
       "Traditional interpretation: >6 high, 2-6 moderate, <2 low probability",
       "Simplified (two-tier): >4 PE likely, ≤4 PE unlikely",
@@ -2395,6 +3823,23 @@ export const calculators: Calculator[] = [
       "Wells PS et al. Ann Intern Med. 2001;135(2):98-107",
       "van Belle A et al. JAMA. 2006;295(2):172-179",
     ],
+    referenceCases: [
+      {
+        description: "DVT signs, heart rate > 100, malignancy",
+        values: {
+          dvtSigns: "yes",
+          peTopDiagnosis: "no",
+          heartRateOver100: "yes",
+          immobilization: "no",
+          previousPeDvt: "no",
+          hemoptysis: "no",
+          malignancy: "yes",
+        },
+        expected: 5.5,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Wells PS et al. Ann Intern Med. 2001;135(2):98-107",
+      },
+    ],
   },
   {
     id: "wells-dvt",
@@ -2417,11 +3862,25 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Wells DVT Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 3) return "HIGH PROBABILITY - ~75% risk of DVT. Ultrasound recommended.";
-      if (value >= 1) return "MODERATE PROBABILITY - ~17% risk. D-dimer or ultrasound recommended.";
-      return "LOW PROBABILITY - ~3% risk. D-dimer to rule out; if negative, DVT unlikely.";
+    compute({ values: v }) {
+      const wellsDvtResult = calc.wellsDVT(
+        v.activeCancer === "yes",
+        v.paralysis === "yes",
+        v.bedridden === "yes",
+        v.localizedTenderness === "yes",
+        v.entireLegSwollen === "yes",
+        v.calfSwelling === "yes",
+        v.pittingEdema === "yes",
+        v.collateralVeins === "yes",
+        v.previousDvt === "yes",
+        v.alternativeDiagnosis === "yes"
+      );
+      return {
+        value: wellsDvtResult.score,
+        interpretation: `${wellsDvtResult.interpretation}\n\nCriteria:\n${wellsDvtResult.criteria.join("\n")}`,
+      };
     },
+    interpretation: bandInterpretation("wells-dvt"),
     clinicalPearls: [
       "Score ≥3: High probability (~75% prevalence)",
       "Score 1-2: Moderate probability (~17% prevalence)",
@@ -2434,6 +3893,26 @@ export const calculators: Calculator[] = [
       "Wells PS et al. Lancet. 1997;350(9094):1795-1798",
       "Wells PS et al. N Engl J Med. 2003;349(13):1227-1235",
     ],
+    referenceCases: [
+      {
+        description: "Active cancer, calf swelling, pitting oedema, alternative diagnosis as likely",
+        values: {
+          activeCancer: "yes",
+          paralysis: "no",
+          bedridden: "no",
+          localizedTenderness: "no",
+          entireLegSwollen: "no",
+          calfSwelling: "yes",
+          pittingEdema: "yes",
+          collateralVeins: "no",
+          previousDvt: "no",
+          alternativeDiagnosis: "yes",
+        },
+        expected: 1,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Wells PS et al. Lancet. 1997;350(9094):1795-1798; Wells PS et al. N Engl J Med. 2003;349(13):1227-1235",
+      },
+    ],
   },
   {
     id: "gcs",
@@ -2467,11 +3946,18 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "GCS Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value <= 8) return "SEVERE - Coma. Intubation usually indicated for airway protection.";
-      if (value <= 12) return "MODERATE - Significant impairment. Close monitoring required.";
-      return "MILD - Minor impairment (13-15). Continue neurological monitoring.";
+    compute({ values: v }) {
+      const gcsResult = calc.glasgowComaScale(
+        parseInt(String(v.eyeOpening)) || 4,
+        parseInt(String(v.verbalResponse)) || 5,
+        parseInt(String(v.motorResponse)) || 6
+      );
+      return {
+        value: gcsResult.score,
+        interpretation: `${gcsResult.severity}\n\nComponents: E${gcsResult.components.eye}V${gcsResult.components.verbal}M${gcsResult.components.motor}`,
+      };
     },
+    interpretation: bandInterpretation("gcs"),
     clinicalPearls: [
       "GCS 3-8: Severe brain injury - consider intubation for airway protection",
       "GCS 9-12: Moderate brain injury",
@@ -2484,6 +3970,15 @@ export const calculators: Calculator[] = [
       "Teasdale G, Jennett B. Lancet. 1974;2(7872):81-84",
       "Teasdale G et al. J Neurosurg. 2014;120(6):1241-1249",
     ],
+    referenceCases: [
+      {
+        description: "E3 V4 M5",
+        values: { eyeOpening: "3", verbalResponse: "4", motorResponse: "5" },
+        expected: 12,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Teasdale G, Jennett B. Lancet. 1974;2(7872):81-84",
+      },
+    ],
   },
   {
     id: "pesi",
@@ -2507,13 +4002,26 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "PESI Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value > 125) return "CLASS V (Very High Risk) - 10-25% 30-day mortality. ICU admission recommended.";
-      if (value > 105) return "CLASS IV (High Risk) - 4-11% 30-day mortality. Inpatient treatment required.";
-      if (value > 85) return "CLASS III (Intermediate Risk) - 3-7% 30-day mortality. Consider inpatient care.";
-      if (value > 65) return "CLASS II (Low Risk) - 1.7-3.5% 30-day mortality. Consider early discharge.";
-      return "CLASS I (Very Low Risk) - 0-1.6% 30-day mortality. Outpatient treatment may be appropriate.";
+    compute({ values: v }) {
+      const pesiResult = calc.pesiScore(
+        parseFloat(String(v.age)) || 65,
+        v.sex === "male",
+        v.cancer === "yes",
+        v.heartFailure === "yes",
+        v.chronicLungDisease === "yes",
+        v.pulse === "yes",
+        v.systolicBPLow === "yes",
+        v.respiratoryRateHigh === "yes",
+        v.tempLow === "yes",
+        v.alteredMentalStatus === "yes",
+        v.spo2Low === "yes"
+      );
+      return {
+        value: pesiResult.score,
+        interpretation: `${pesiResult.riskClass}\n30-day mortality: ${pesiResult.mortality}\n\nScoring:\n${pesiResult.criteria.join("\n")}`,
+      };
     },
+    interpretation: bandInterpretation("pesi"),
     clinicalPearls: [
       "PESI is used AFTER PE is confirmed (not for diagnosis)",
       "Class I-II: Consider outpatient treatment if no contraindications",
@@ -2526,6 +4034,27 @@ export const calculators: Calculator[] = [
       "Aujesky D et al. Am J Respir Crit Care Med. 2005;172(8):1041-1046",
       "Jiménez D et al. Arch Intern Med. 2010;170(15):1383-1389",
     ],
+    referenceCases: [
+      {
+        description: "70-year-old man with cancer and pulse ≥ 110",
+        values: {
+          age: "70",
+          sex: "male",
+          cancer: "yes",
+          heartFailure: "no",
+          chronicLungDisease: "no",
+          pulse: "yes",
+          systolicBPLow: "no",
+          respiratoryRateHigh: "no",
+          tempLow: "no",
+          alteredMentalStatus: "no",
+          spo2Low: "no",
+        },
+        expected: 130,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Aujesky D et al. Am J Respir Crit Care Med. 2005;172(8):1041-1046",
+      },
+    ],
   },
   {
     id: "apache2",
@@ -2544,9 +4073,9 @@ export const calculators: Calculator[] = [
       { id: "pao2", label: "PaO₂ (if FiO₂ <50%)", type: "number", unit: "mmHg", placeholder: "95", required: false, min: 0 },
       { id: "aaGradient", label: "A-a Gradient (if FiO₂ ≥50%)", type: "number", unit: "mmHg", placeholder: "100", required: false, min: 0 },
       { id: "arterialPH", label: "Arterial pH", type: "number", unit: "", placeholder: "7.40", required: true, min: 6.5, max: 8.0, step: 0.01 },
-      { id: "sodium", label: "Serum Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true, min: 100, max: 200 },
-      { id: "potassium", label: "Serum Potassium", type: "number", unit: "mEq/L", placeholder: "4.0", required: true, min: 1, max: 10, step: 0.1 },
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true, min: 0, max: 20, step: 0.1 },
+      { id: "sodium", label: "Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true, min: 100, max: 200 },
+      { id: "potassium", label: "Serum Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "4.0", required: true, min: 1, max: 10, step: 0.1 },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true, min: 0, max: 20, step: 0.1 },
       { id: "acuteRenalFailure", label: "Acute Renal Failure", type: "select", options: [{ value: "no", label: "No" }, { value: "yes", label: "Yes (doubles creatinine points)" }], required: true },
       { id: "hematocrit", label: "Hematocrit", type: "number", unit: "%", placeholder: "40", required: true, min: 0, max: 70 },
       { id: "wbc", label: "White Blood Count", type: "number", unit: "×10³/μL", placeholder: "10", required: true, min: 0, max: 100, step: 0.1 },
@@ -2559,13 +4088,32 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "APACHE II Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 35) return "VERY HIGH RISK - ~85% predicted mortality. Maximum ICU support indicated.";
-      if (value >= 25) return "HIGH RISK - ~55% predicted mortality. Aggressive ICU management needed.";
-      if (value >= 15) return "MODERATE RISK - ~25% predicted mortality. Close ICU monitoring.";
-      if (value >= 10) return "LOW-MODERATE RISK - ~15% predicted mortality.";
-      return "LOW RISK - <10% predicted mortality. Continue standard ICU care.";
+    compute({ values: v, value }) {
+      const apache2Result = calc.apacheIIScore(
+        parseFloat(String(v.age)) || 55,
+        parseFloat(String(v.temperature)) || 37,
+        parseFloat(String(v.map)) || 80,
+        parseFloat(String(v.heartRate)) || 85,
+        parseFloat(String(v.respiratoryRate)) || 18,
+        parseFloat(String(v.fio2)) || 21,
+        v.pao2 ? parseFloat(String(v.pao2)) : null,
+        v.aaGradient ? parseFloat(String(v.aaGradient)) : null,
+        parseFloat(String(v.arterialPH)) || 7.4,
+        parseFloat(String(v.sodium)) || 140,
+        parseFloat(String(v.potassium)) || 4.0,
+        value("creatinine") || 1.0,
+        v.acuteRenalFailure === "yes",
+        parseFloat(String(v.hematocrit)) || 40,
+        parseFloat(String(v.wbc)) || 10,
+        parseFloat(String(v.gcs)) || 15,
+        (v.chronicHealth as "none" | "elective" | "emergency") || "none"
+      );
+      return {
+        value: apache2Result.score,
+        interpretation: `Predicted mortality: ${apache2Result.predictedMortality}\n\nComponents:\n• Acute Physiology Score: ${apache2Result.components.aps}\n• Age Points: ${apache2Result.components.age}\n• Chronic Health Points: ${apache2Result.components.chronic}`,
+      };
     },
+    interpretation: bandInterpretation("apache2"),
     clinicalPearls: [
       "Use worst values in first 24 hours of ICU admission",
       "Score range 0-71; higher = worse prognosis",
@@ -2578,6 +4126,56 @@ export const calculators: Calculator[] = [
       "Knaus WA et al. Crit Care Med. 1985;13(10):818-829",
       "Zimmerman JE et al. Crit Care Med. 2006;34(5):1297-1310",
     ],
+    referenceCases: [
+      {
+        description: "55-year-old with normal physiology",
+        values: {
+          age: "55",
+          temperature: "37",
+          map: "80",
+          heartRate: "85",
+          respiratoryRate: "18",
+          fio2: "21",
+          pao2: "90",
+          arterialPH: "7.4",
+          sodium: "140",
+          potassium: "4.0",
+          creatinine: "1.0",
+          acuteRenalFailure: "no",
+          hematocrit: "40",
+          wbc: "10",
+          gcs: "15",
+          chronicHealth: "none",
+        },
+        expected: 3,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Knaus WA et al. Crit Care Med. 1985;13(10):818-829 (age 55–64 = 3 points)",
+      },
+      {
+        description: "70-year-old emergency admission with chronic organ insufficiency and deranged physiology",
+        values: {
+          age: "70",
+          temperature: "39.2",
+          map: "65",
+          heartRate: "125",
+          respiratoryRate: "30",
+          fio2: "21",
+          pao2: "65",
+          arterialPH: "7.3",
+          sodium: "135",
+          potassium: "3.2",
+          creatinine: "2.5",
+          acuteRenalFailure: "no",
+          hematocrit: "28",
+          wbc: "18",
+          gcs: "13",
+          chronicHealth: "emergency",
+        },
+        expected: 30,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Knaus WA et al. Crit Care Med. 1985;13(10):818-829 (APS 20 + age 5 + chronic health 5)",
+      },
+    ],
   },
   {
     id: "sirs",
@@ -2606,10 +4204,24 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "SIRS Criteria Met",
     resultUnit: "of 4",
-    interpretation: (value) => {
-      if (value >= 2) return "SIRS POSITIVE - >=2 criteria met. If infection suspected, consider sepsis. Evaluate for source and initiate workup.";
-      return "SIRS NEGATIVE - <2 criteria met. SIRS not present, but does not rule out infection.";
+    compute({ values: v }) {
+      const sirsResult = calc.sirsScore(
+        String(v.temperature) || "normal",
+        String(v.heartRate) || "normal",
+        String(v.respiratoryRate) || "normal",
+        String(v.wbc) || "normal"
+      );
+      const criteriaMet = [];
+      if (sirsResult.criteria.temp) criteriaMet.push("Temperature >38C or <36C");
+      if (sirsResult.criteria.hr) criteriaMet.push("Heart Rate >90 bpm");
+      if (sirsResult.criteria.rr) criteriaMet.push("RR >20 or PaCO2 <32");
+      if (sirsResult.criteria.wbc) criteriaMet.push("WBC >12k or <4k or >10% bands");
+      return {
+        value: sirsResult.score,
+        interpretation: `Criteria Met (${sirsResult.score}/4):\n${criteriaMet.length > 0 ? criteriaMet.map(c => "✓ " + c).join("\n") : "None"}\n\n${sirsResult.score >= 2 ? "SIRS POSITIVE - If infection suspected, consider sepsis." : "SIRS NEGATIVE - Does not rule out infection."}`,
+      };
     },
+    interpretation: bandInterpretation("sirs"),
     clinicalPearls: [
       "SIRS >=2 criteria + suspected infection = Sepsis (Sepsis-1 definition)",
       "SIRS is sensitive but not specific for sepsis",
@@ -2622,6 +4234,15 @@ export const calculators: Calculator[] = [
       "Bone RC et al. Chest. 1992;101(6):1644-1655",
       "American College of Chest Physicians/Society of Critical Care Medicine Consensus Conference. Crit Care Med. 1992;20(6):864-874",
     ],
+    referenceCases: [
+      {
+        description: "Abnormal temperature and heart rate",
+        values: { temperature: "abnormal", heartRate: "abnormal", respiratoryRate: "normal", wbc: "normal" },
+        expected: 2,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Bone RC et al. Chest. 1992;101(6):1644-1655 (≥ 2 criteria = SIRS)",
+      },
+    ],
   },
   {
     id: "genevaRevised",
@@ -2667,11 +4288,36 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Revised Geneva Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 11) return "HIGH PROBABILITY - PE prevalence ~74%. Proceed directly to CTPA or treatment if CTPA unavailable.";
-      if (value >= 4) return "INTERMEDIATE PROBABILITY - PE prevalence ~28%. D-dimer testing recommended; if positive, proceed to CTPA.";
-      return "LOW PROBABILITY - PE prevalence ~8%. D-dimer testing; if negative, PE can be safely ruled out.";
+    compute({ values: v }) {
+      const genevaResult = calc.genevaRevisedScore(
+        String(v.age) || "no",
+        String(v.previousPeDvt) || "no",
+        String(v.surgery) || "no",
+        String(v.malignancy) || "no",
+        String(v.unilateralPain) || "no",
+        String(v.hemoptysis) || "no",
+        String(v.heartRate) || "normal",
+        String(v.legPainEdema) || "no"
+      );
+      const components = [];
+      if (genevaResult.components.age > 0) components.push(`Age >65: +${genevaResult.components.age}`);
+      if (genevaResult.components.previousPeDvt > 0) components.push(`Previous PE/DVT: +${genevaResult.components.previousPeDvt}`);
+      if (genevaResult.components.surgery > 0) components.push(`Surgery/fracture: +${genevaResult.components.surgery}`);
+      if (genevaResult.components.malignancy > 0) components.push(`Malignancy: +${genevaResult.components.malignancy}`);
+      if (genevaResult.components.unilateralPain > 0) components.push(`Unilateral leg pain: +${genevaResult.components.unilateralPain}`);
+      if (genevaResult.components.hemoptysis > 0) components.push(`Hemoptysis: +${genevaResult.components.hemoptysis}`);
+      if (genevaResult.components.heartRate > 0) components.push(`Heart rate: +${genevaResult.components.heartRate}`);
+      if (genevaResult.components.legPainEdema > 0) components.push(`Leg pain/edema: +${genevaResult.components.legPainEdema}`);
+      let probability = "LOW";
+      let prevalence = "~8%";
+      if (genevaResult.score >= 11) { probability = "HIGH"; prevalence = "~74%"; }
+      else if (genevaResult.score >= 4) { probability = "INTERMEDIATE"; prevalence = "~28%"; }
+      return {
+        value: genevaResult.score,
+        interpretation: `${probability} PROBABILITY (PE prevalence ${prevalence})\n\nPoint Breakdown:\n${components.length > 0 ? components.join("\n") : "No risk factors identified"}`,
+      };
     },
+    interpretation: bandInterpretation("genevaRevised"),
     clinicalPearls: [
       "Three-tier interpretation: 0-3 low, 4-10 intermediate, >=11 high probability",
       "Two-tier (simplified): 0-5 PE unlikely, >=6 PE likely",
@@ -2684,6 +4330,24 @@ export const calculators: Calculator[] = [
       "Le Gal G et al. Ann Intern Med. 2006;144(3):165-171",
       "Klok FA et al. Arch Intern Med. 2008;168(21):2131-2136",
     ],
+    referenceCases: [
+      {
+        description: "Age > 65, heart rate 75–94, haemoptysis",
+        values: {
+          heartRate: "moderate",
+          age: "yes",
+          previousPeDvt: "no",
+          surgery: "no",
+          malignancy: "no",
+          unilateralPain: "no",
+          hemoptysis: "yes",
+          legPainEdema: "no",
+        },
+        expected: 6,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Le Gal G et al. Ann Intern Med. 2006;144(3):165-171",
+      },
+    ],
   },
   {
     id: "hasbled",
@@ -2732,12 +4396,38 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "HAS-BLED Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value <= 1) return "LOW BLEEDING RISK - Annual major bleeding risk ~1-3%. Anticoagulation generally safe.";
-      if (value === 2) return "MODERATE BLEEDING RISK - Annual major bleeding risk ~4%. Consider modifiable risk factors.";
-      if (value === 3) return "HIGH BLEEDING RISK - Annual major bleeding risk ~6%. Caution with anticoagulation, address modifiable factors.";
-      return "VERY HIGH BLEEDING RISK - Annual major bleeding risk >9%. Carefully weigh risks vs benefits. Consider alternatives.";
+    compute({ values: v }) {
+      const hasbledResult = calc.hasbledScore(
+        String(v.hypertension) || "no",
+        String(v.renalDisease) || "no",
+        String(v.liverDisease) || "no",
+        String(v.strokeHistory) || "no",
+        String(v.priorBleeding) || "no",
+        String(v.labileINR) || "no",
+        String(v.age) || "no",
+        String(v.medications) || "no",
+        String(v.alcoholUse) || "no"
+      );
+      const components = [];
+      if (hasbledResult.components.hypertension > 0) components.push("H - Hypertension: +1");
+      if (hasbledResult.components.renal > 0) components.push("A - Abnormal renal function: +1");
+      if (hasbledResult.components.liver > 0) components.push("A - Abnormal liver function: +1");
+      if (hasbledResult.components.stroke > 0) components.push("S - Stroke history: +1");
+      if (hasbledResult.components.bleeding > 0) components.push("B - Bleeding history: +1");
+      if (hasbledResult.components.labileINR > 0) components.push("L - Labile INR: +1");
+      if (hasbledResult.components.age > 0) components.push("E - Elderly (>65): +1");
+      if (hasbledResult.components.medications > 0) components.push("D - Drugs (antiplatelets/NSAIDs): +1");
+      if (hasbledResult.components.alcohol > 0) components.push("D - Drinking (alcohol): +1");
+      let riskLevel = "LOW";
+      if (hasbledResult.score >= 4) riskLevel = "VERY HIGH";
+      else if (hasbledResult.score === 3) riskLevel = "HIGH";
+      else if (hasbledResult.score === 2) riskLevel = "MODERATE";
+      return {
+        value: hasbledResult.score,
+        interpretation: `${riskLevel} BLEEDING RISK\nAnnual major bleeding risk: ${hasbledResult.annualBleedingRisk}\n\nComponents (HAS-BLED):\n${components.length > 0 ? components.join("\n") : "No risk factors identified"}`,
+      };
     },
+    interpretation: bandInterpretation("hasbled"),
     clinicalPearls: [
       "HAS-BLED ≥3 indicates high bleeding risk but is NOT a contraindication to anticoagulation",
       "Focus on modifiable risk factors: hypertension, labile INR, medications, alcohol",
@@ -2750,6 +4440,25 @@ export const calculators: Calculator[] = [
       "Pisters R et al. Chest. 2010;138(5):1093-1100",
       "Lip GY et al. J Am Coll Cardiol. 2011;57(2):173-180",
     ],
+    referenceCases: [
+      {
+        description: "Hypertension, elderly, antiplatelet use",
+        values: {
+          hypertension: "yes",
+          renalDisease: "no",
+          liverDisease: "no",
+          strokeHistory: "no",
+          priorBleeding: "no",
+          labileINR: "no",
+          age: "yes",
+          medications: "yes",
+          alcoholUse: "no",
+        },
+        expected: 3,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Pisters R et al. Chest. 2010;138(5):1093-1100",
+      },
+    ],
   },
   {
     id: "perc",
@@ -2794,10 +4503,42 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "PERC Criteria Positive",
     resultUnit: "of 8",
-    interpretation: (value) => {
-      if (value === 0) return "PERC NEGATIVE - All 8 criteria negative. In low pretest probability patients, PE can be ruled out without D-dimer testing. <2% miss rate.";
-      return "PERC POSITIVE - Cannot rule out PE with PERC alone. Proceed with D-dimer testing or further workup based on clinical probability.";
+    compute({ values: v }) {
+      const percResult = calc.percRule(
+        String(v.age) || "no",
+        String(v.heartRate) || "no",
+        String(v.oxygenSaturation) || "no",
+        String(v.unilateralLegSwelling) || "no",
+        String(v.hemoptysis) || "no",
+        String(v.recentSurgeryTrauma) || "no",
+        String(v.priorPeDvt) || "no",
+        String(v.hormoneUse) || "no"
+      );
+      const positive = [];
+      const negative = [];
+      if (percResult.criteria.age) positive.push("Age ≥50 years");
+      else negative.push("Age <50 years");
+      if (percResult.criteria.heartRate) positive.push("HR ≥100 bpm");
+      else negative.push("HR <100 bpm");
+      if (percResult.criteria.oxygenSaturation) positive.push("SpO₂ <95%");
+      else negative.push("SpO₂ ≥95%");
+      if (percResult.criteria.unilateralLegSwelling) positive.push("Unilateral leg swelling");
+      else negative.push("No leg swelling");
+      if (percResult.criteria.hemoptysis) positive.push("Hemoptysis");
+      else negative.push("No hemoptysis");
+      if (percResult.criteria.recentSurgeryTrauma) positive.push("Recent surgery/trauma");
+      else negative.push("No recent surgery");
+      if (percResult.criteria.priorPeDvt) positive.push("Prior PE/DVT");
+      else negative.push("No prior PE/DVT");
+      if (percResult.criteria.hormoneUse) positive.push("Hormone use");
+      else negative.push("No hormone use");
+      const status = percResult.allNegative ? "PERC NEGATIVE - PE Ruled Out" : "PERC POSITIVE - Cannot Rule Out PE";
+      return {
+        value: percResult.criteriaCount,
+        interpretation: `${status}\n\n${percResult.allNegative ? "✓ All 8 criteria negative. In LOW pretest probability patients, PE can be safely ruled out without D-dimer." : "✗ " + percResult.criteriaCount + " criteria positive. Proceed with D-dimer or imaging."}\n\nPositive Criteria:\n${positive.length > 0 ? positive.map(c => "✗ " + c).join("\n") : "None"}\n\nNegative Criteria:\n${negative.map(c => "✓ " + c).join("\n")}`,
+      };
     },
+    interpretation: bandInterpretation("perc"),
     clinicalPearls: [
       "ONLY apply PERC to LOW pretest probability patients (gestalt <15% or Wells ≤4)",
       "ALL 8 criteria must be negative to rule out PE",
@@ -2812,6 +4553,42 @@ export const calculators: Calculator[] = [
       "Kline JA et al. Ann Emerg Med. 2008;52(4):408-415",
       "Singh B et al. JAMA Intern Med. 2013;173(18):1715-1722",
     ],
+    referenceCases: [
+      {
+        description: "Age ≥ 50 and heart rate ≥ 100",
+        values: {
+          age: "yes",
+          heartRate: "yes",
+          oxygenSaturation: "no",
+          unilateralLegSwelling: "no",
+          hemoptysis: "no",
+          recentSurgeryTrauma: "no",
+          priorPeDvt: "no",
+          hormoneUse: "no",
+        },
+        expected: 2,
+        tolerance: 0,
+        interpretation: "PERC POSITIVE",
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Kline JA et al. J Thromb Haemost. 2004;2(8):1247-1255 (any positive criterion means PE cannot be ruled out)",
+      },
+      {
+        description: "All criteria negative",
+        values: {
+          age: "no",
+          heartRate: "no",
+          oxygenSaturation: "no",
+          unilateralLegSwelling: "no",
+          hemoptysis: "no",
+          recentSurgeryTrauma: "no",
+          priorPeDvt: "no",
+          hormoneUse: "no",
+        },
+        expected: 0,
+        tolerance: 0,
+        interpretation: "PERC NEGATIVE",
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Kline JA et al. J Thromb Haemost. 2004;2(8):1247-1255",
+      },
+    ],
   },
   {
     id: "anticoagReversal",
@@ -2851,6 +4628,20 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Reversal Strategy",
     resultUnit: "",
+    compute({ values: v }) {
+      const reversalResult = calc.anticoagulationReversal(
+        String(v.anticoagulant) || "warfarin",
+        String(v.indication) || "major",
+        String(v.renalFunction) || "normal",
+        String(v.bleedingSeverity) || "major",
+        v.weight ? parseFloat(String(v.weight)) : undefined
+      );
+      return {
+        value: 1, // Placeholder for display
+        interpretation: `Reversal protocol generated for ${reversalResult.anticoagulant}. See detailed action plan below.`,
+        detail: { kind: "anticoagReversal", data: reversalResult },
+      };
+    },
     interpretation: () => "See detailed reversal recommendations below.",
     clinicalPearls: [
       "Always hold the anticoagulant and identify/treat the bleeding source",
@@ -2868,6 +4659,22 @@ export const calculators: Calculator[] = [
       "Cuker A et al. Am J Hematol. 2019;94(6):697-709",
       "Levy JH et al. Thromb Haemost. 2016;116(1):13-21",
     ],
+    referenceCases: [
+      {
+        description: "Warfarin with life-threatening bleeding",
+        values: {
+          anticoagulant: "warfarin",
+          indication: "life-threatening",
+          renalFunction: "normal",
+          bleedingSeverity: "life-threatening",
+          weight: "70",
+        },
+        expected: 1,
+        tolerance: 0,
+        interpretation: "Reversal protocol generated",
+        citation: "Expected value from this app's documented approximation, not a published worked example (protocol output, no numeric result); Tomaselli GF et al. J Am Coll Cardiol. 2020;76(5):594-622",
+      },
+    ],
   },
   // ============================================================================
   // MISCELLANEOUS
@@ -2894,6 +4701,17 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Equivalent Doses",
     resultUnit: "",
+    compute({ values: v }) {
+      const steroidResult = calc.steroidConversion(
+        String(v.fromSteroid) || "prednisone",
+        parseFloat(String(v.dose)) || 0
+      );
+      return {
+        value: steroidResult.fromDose,
+        interpretation: `Equivalent doses calculated for ${steroidResult.fromDose} mg of ${steroidResult.fromSteroid}. See conversion table below.`,
+        detail: { kind: "steroidConversion", data: steroidResult },
+      };
+    },
     interpretation: () => "See equivalent doses for all corticosteroids below.",
     clinicalPearls: [
       "Equivalencies are based on anti-inflammatory (glucocorticoid) potency",
@@ -2910,6 +4728,16 @@ export const calculators: Calculator[] = [
       "Liu D et al. J Allergy Clin Immunol Pract. 2013;1(4):305-316",
       "Buttgereit F et al. Lancet. 2020;396(10252):714-726",
     ],
+    referenceCases: [
+      {
+        description: "Prednisone 10 mg",
+        values: { fromSteroid: "prednisone", dose: "10" },
+        expected: 10,
+        tolerance: 0,
+        interpretation: "10 mg of",
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Schimmer BP, Funder JW. Goodman & Gilman's Pharmacological Basis of Therapeutics (prednisone 5 mg ≈ hydrocortisone 20 mg)",
+      },
+    ],
   },
   {
     id: "plasma-exchange",
@@ -2920,7 +4748,7 @@ export const calculators: Calculator[] = [
     category: "Systemic Diseases & Scores",
     inputs: [
       { id: "weight", label: "Weight", type: "number", unit: "kg", placeholder: "70", required: true, min: 1 },
-      { id: "height", label: "Height", type: "number", unit: "cm", placeholder: "170", required: true, min: 50 },
+      { id: "height", label: "Height", type: "number", unit: "cm", unitType: "height", placeholder: "170", required: true, min: 50 },
       { id: "hematocrit", label: "Hematocrit", type: "number", unit: "%", placeholder: "40", required: true, min: 10, max: 70 },
       { id: "sex", label: "Sex", type: "select", options: [
         { value: "M", label: "Male" },
@@ -2944,6 +4772,21 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Plasma Volume",
     resultUnit: "mL",
+    compute({ values: v, value }) {
+      const plexResult = calc.plasmaExchangeDosing(
+        parseFloat(String(v.weight)) || 70,
+        value("height") || 170,
+        parseFloat(String(v.hematocrit)) || 40,
+        (String(v.sex) || "M") as "M" | "F",
+        parseFloat(String(v.exchangeVolumes)) || 1,
+        String(v.indication) || "other"
+      );
+      return {
+        value: plexResult.totalPlasmaVolume,
+        interpretation: `Plasma volume: ${plexResult.totalPlasmaVolume} mL (${plexResult.plasmaVolumePerKg} mL/kg). Exchange volume: ${plexResult.exchangeVolume} mL. See detailed protocol below.`,
+        detail: { kind: "plasmaExchange", data: plexResult },
+      };
+    },
     interpretation: (value) => {
       if (value < 2000) return "Low plasma volume. Verify patient parameters.";
       if (value < 3000) return "Typical plasma volume for smaller patients.";
@@ -2967,6 +4810,15 @@ export const calculators: Calculator[] = [
       "Padmanabhan A et al. J Clin Apher. 2019;34(3):171-354",
       "Kaplan AA. UpToDate. Therapeutic apheresis (plasma exchange or cytapheresis): Indications and technology.",
     ],
+    referenceCases: [
+      {
+        description: "70 kg man, 175 cm, haematocrit 40%",
+        values: { weight: "70", height: "175", hematocrit: "40", sex: "M", exchangeVolumes: "1", indication: "other" },
+        expected: 2894.253,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Nadler SB et al. Surgery. 1962;51(2):224-232 (blood volume); Schwartz J et al. J Clin Apher. 2016;31(3):149-162 (plasma volume = blood volume × (1 − Hct))",
+      },
+    ],
   },
   // ============================================================================
   // RESTORED CALCULATORS (18 previously missing)
@@ -2979,13 +4831,22 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when serum albumin is low to get a more accurate anion gap.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "sodium", label: "Serum Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true },
-      { id: "chloride", label: "Serum Chloride", type: "number", unit: "mEq/L", placeholder: "104", required: true },
-      { id: "bicarbonate", label: "Serum Bicarbonate", type: "number", unit: "mEq/L", placeholder: "24", required: true },
-      { id: "albumin", label: "Serum Albumin", type: "number", unit: "g/dL", placeholder: "2.5", required: true },
+      { id: "sodium", label: "Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true },
+      { id: "chloride", label: "Serum Chloride", type: "number", unit: "mEq/L", unitType: "chloride", placeholder: "104", required: true },
+      { id: "bicarbonate", label: "Serum Bicarbonate", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "24", required: true },
+      { id: "albumin", label: "Serum Albumin", type: "number", unit: "g/dL", unitType: "albumin", placeholder: "2.5", required: true },
     ],
     resultLabel: "Corrected AG",
     resultUnit: "mEq/L",
+    compute({ num, value }) {
+      const agResult = calc.albuminCorrectedAnionGap(num("sodium"), num("chloride"), num("bicarbonate"), value("albumin"));
+      return {
+        value: agResult.correctedAG,
+        interpretation:
+          `Uncorrected AG: ${agResult.ag} mEq/L | Corrected AG: ${agResult.correctedAG} mEq/L. ` +
+          this.interpretation(agResult.correctedAG),
+      };
+    },
     interpretation: (value) => {
       if (value <= 12) return "Normal corrected anion gap (≤12 mEq/L)";
       if (value <= 20) return "Mildly elevated corrected AG — possible early HAGMA";
@@ -3007,6 +4868,15 @@ export const calculators: Calculator[] = [
       "Figge J et al. Crit Care Med. 1998;26(11):1807-1810",
       "Kraut JA, Madias NE. Clin J Am Soc Nephrol. 2007;2(1):162-174",
     ],
+    referenceCases: [
+      {
+        description: "Na 140, Cl 104, HCO₃ 20, albumin 2.0 g/dL",
+        values: { sodium: "140", chloride: "104", bicarbonate: "20", albumin: "2.0" },
+        expected: 21,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Figge J et al. Crit Care Med. 1998;26(11):1807-1810 (AG + 2.5 × (4 − albumin))",
+      },
+    ],
   },
   {
     id: "bicarbonate-deficit",
@@ -3017,10 +4887,13 @@ export const calculators: Calculator[] = [
     category: "Electrolytes & Acid-Base",
     inputs: [
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true, min: 1 },
-      { id: "bicarbonate", label: "Measured Bicarbonate", type: "number", unit: "mEq/L", placeholder: "14", required: true, min: 0, max: 40 },
+      { id: "bicarbonate", label: "Measured Bicarbonate", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "14", required: true, min: 0, max: 40 },
     ],
     resultLabel: "Bicarbonate Deficit",
     resultUnit: "mEq",
+    compute({ num }) {
+      return { value: calc.bicarbonateDeficit(num("weight"), num("bicarbonate")) };
+    },
     interpretation: (value) => {
       if (value <= 0) return "No bicarbonate deficit — HCO₃ ≥ 24 mEq/L";
       if (value <= 100) return "Mild deficit — consider oral bicarbonate supplementation";
@@ -3039,6 +4912,15 @@ export const calculators: Calculator[] = [
       "Adrogué HJ, Madias NE. N Engl J Med. 1998;338(1):26-34",
       "Kraut JA, Madias NE. Nat Rev Nephrol. 2012;8(10):589-601",
     ],
+    referenceCases: [
+      {
+        description: "70 kg, HCO₃ 12",
+        values: { weight: "70", bicarbonate: "12" },
+        expected: 420,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Adrogué HJ, Madias NE. N Engl J Med. 1998;338(1):26-34 (0.5 × weight × (24 − HCO₃))",
+      },
+    ],
   },
   {
     id: "calculated-osmolality",
@@ -3048,12 +4930,15 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to calculate expected serum osmolality and compare with measured values for osmolar gap.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "sodium", label: "Serum Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true },
-      { id: "glucose", label: "Serum Glucose", type: "number", unit: "mg/dL", placeholder: "100", required: true },
-      { id: "bun", label: "BUN / Urea", type: "number", unit: "mg/dL", placeholder: "15", required: true },
+      { id: "sodium", label: "Serum Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true },
+      { id: "glucose", label: "Serum Glucose", type: "number", unit: "mg/dL", unitType: "glucose", placeholder: "100", required: true },
+      { id: "bun", label: "BUN / Urea", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "15", required: true },
     ],
     resultLabel: "Calculated Osmolality",
     resultUnit: "mOsm/kg",
+    compute({ num, value }) {
+      return { value: calc.calculatedOsmolality(num("sodium"), value("glucose"), value("bun")) };
+    },
     interpretation: (value) => {
       if (value < 275) return "Low calculated osmolality — hypo-osmolar state";
       if (value <= 295) return "Normal calculated osmolality (275-295 mOsm/kg)";
@@ -3075,6 +4960,15 @@ export const calculators: Calculator[] = [
       "Purssell RA et al. BMJ. 2001;322(7289):683",
       "Fazekas AS et al. Eur J Emerg Med. 2013;20(2):100-105",
     ],
+    referenceCases: [
+      {
+        description: "Na 140, glucose 180, BUN 28",
+        values: { sodium: "140", glucose: "180", bun: "28" },
+        expected: 300,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Purssell RA et al. BMJ. 2001;322(7289):683 (2Na + glucose/18 + BUN/2.8)",
+      },
+    ],
   },
   {
     id: "creatinine-clearance-24h",
@@ -3084,12 +4978,17 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when a measured creatinine clearance from 24-hour urine collection is needed.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "urineCreatinine24h", label: "Urine Creatinine", type: "number", unit: "mg/dL", placeholder: "80", required: true },
+      { id: "urineCreatinine24h", label: "Urine Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "80", required: true },
       { id: "urineVolume24h", label: "24-Hour Urine Volume", type: "number", unit: "mL", placeholder: "1500", required: true, min: 100 },
-      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.2", required: true },
+      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.2", required: true },
     ],
     resultLabel: "CrCl",
     resultUnit: "mL/min",
+    compute({ num, value }) {
+      return {
+        value: calc.creatinineClearance24h(value("urineCreatinine24h"), num("urineVolume24h"), value("plasmaCr")),
+      };
+    },
     interpretation: (value) => {
       if (value >= 90) return "Normal creatinine clearance";
       if (value >= 60) return "Mildly decreased clearance";
@@ -3115,6 +5014,15 @@ export const calculators: Calculator[] = [
       "Levey AS et al. J Am Soc Nephrol. 1993;4(5):1159-1166",
       "KDIGO CKD Clinical Practice Guideline. Kidney Int Suppl. 2013;3(1):1-150",
     ],
+    referenceCases: [
+      {
+        description: "Urine Cr 100 mg/dL in 1440 mL, plasma Cr 1.0",
+        values: { urineCreatinine24h: "100", urineVolume24h: "1440", plasmaCr: "1.0" },
+        expected: 100,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Levey AS et al. J Am Soc Nephrol. 1993;4(5):1159-1166 (UCr × V / (PCr × 1440 min))",
+      },
+    ],
   },
   {
     id: "ekfc-creatinine",
@@ -3124,12 +5032,19 @@ export const calculators: Calculator[] = [
     whenToUse: "Use as an alternative eGFR equation with smooth transitions across all age groups.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "45", required: true, min: 2, max: 120 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
     ],
     resultLabel: "eGFR (EKFC)",
     resultUnit: "mL/min/1.73m²",
+    compute({ values: v, num, value }) {
+      const creatinine = value("creatinine");
+      return {
+        value: calc.ekfcCreatinine(creatinine, num("age"), v.sex as "M" | "F", "mg/dL"),
+        detail: { kind: "ekfc", data: { patientCreatinine: creatinine } },
+      };
+    },
     interpretation: (value, inputs) => {
       const age = inputs?.age as number || 45;
       let stageInfo = "";
@@ -3165,6 +5080,15 @@ export const calculators: Calculator[] = [
       "Pottel H, Björk J, Courbebaisse M, et al. Ann Intern Med. 2021;174:183-192",
       "Pottel H, Björk J, Rule AD, et al. N Engl J Med. 2023;388:333-343",
     ],
+    referenceCases: [
+      {
+        description: "60-year-old man, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "60", sex: "M" },
+        expected: 63.765,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Pottel H et al. Ann Intern Med. 2021;174(2):183-191 (Q = 80 µmol/L in adult men)",
+      },
+    ],
   },
   {
     id: "electrolyte-free-water-clearance",
@@ -3175,12 +5099,17 @@ export const calculators: Calculator[] = [
     category: "Electrolytes & Acid-Base",
     inputs: [
       { id: "urineOutput", label: "Urine Output", type: "number", unit: "mL/hr", placeholder: "60", required: true, min: 0 },
-      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", placeholder: "60", required: true, min: 0 },
-      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", placeholder: "30", required: true, min: 0 },
-      { id: "plasmaNa", label: "Plasma Sodium", type: "number", unit: "mEq/L", placeholder: "140", required: true, min: 100 },
+      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "60", required: true, min: 0 },
+      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "30", required: true, min: 0 },
+      { id: "plasmaNa", label: "Plasma Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "140", required: true, min: 100 },
     ],
     resultLabel: "Electrolyte-Free Water Clearance",
     resultUnit: "mL/hr",
+    compute({ num }) {
+      return {
+        value: calc.electrolyteFreeWaterClearance(num("urineOutput"), num("urineNa"), num("urineK"), num("plasmaNa")),
+      };
+    },
     interpretation: (value) => {
       if (value > 10) return "Positive EFWC — kidney excreting electrolyte-free water. Expect serum Na to rise if not replaced.";
       if (value > -10) return "Near zero EFWC — no net electrolyte-free water gain or loss.";
@@ -3197,6 +5126,15 @@ export const calculators: Calculator[] = [
       "Nguyen MK, Kurtz I. Clin Exp Nephrol. 2005;9(4):272-280",
       "Berl T. J Am Soc Nephrol. 2008;19(6):1076-1078",
     ],
+    referenceCases: [
+      {
+        description: "100 mL/h, urine Na 50 + K 30, plasma Na 160",
+        values: { urineOutput: "100", urineNa: "50", urineK: "30", plasmaNa: "160" },
+        expected: 50,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Nguyen MK, Kurtz I. Clin Exp Nephrol. 2005;9(4):272-280 (V × (1 − (UNa + UK)/PNa))",
+      },
+    ],
   },
   {
     id: "fe-magnesium",
@@ -3206,13 +5144,18 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to differentiate renal magnesium wasting from extrarenal causes of hypomagnesemia.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "urineMagnesium", label: "Urine Magnesium", type: "number", unit: "mg/dL", placeholder: "4.0", required: true },
-      { id: "plasmaMagnesium", label: "Serum Magnesium", type: "number", unit: "mg/dL", placeholder: "1.8", required: true },
-      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", placeholder: "100", required: true },
-      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "urineMagnesium", label: "Urine Magnesium", type: "number", unit: "mg/dL", unitType: "magnesium", placeholder: "4.0", required: true },
+      { id: "plasmaMagnesium", label: "Serum Magnesium", type: "number", unit: "mg/dL", unitType: "magnesium", placeholder: "1.8", required: true },
+      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "100", required: true },
+      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
     ],
     resultLabel: "FEMg",
     resultUnit: "%",
+    compute({ value }) {
+      return {
+        value: calc.feMagnesium(value("urineMagnesium"), value("plasmaMagnesium"), value("urineCr"), value("plasmaCr")),
+      };
+    },
     interpretation: (value) => {
       if (value < 2) return "Low FEMg (<2%) — appropriate renal conservation. Extrarenal magnesium loss (GI, poor intake).";
       if (value <= 4) return "Normal FEMg (2-4%)";
@@ -3234,6 +5177,15 @@ export const calculators: Calculator[] = [
       "Elisaf M et al. Miner Electrolyte Metab. 1997;23(2):66-72",
       "Agus ZS. N Engl J Med. 1999;340(15):1177-1187",
     ],
+    referenceCases: [
+      {
+        description: "Urine Mg 4, plasma Mg 1.6, urine Cr 100, plasma Cr 1.0",
+        values: { urineMagnesium: "4", plasmaMagnesium: "1.6", urineCr: "100", plasmaCr: "1.0" },
+        expected: 3.571,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Elisaf M et al. Miner Electrolyte Metab. 1997;23(2):66-72 (plasma Mg × 0.7 for the ultrafilterable fraction)",
+      },
+    ],
   },
   {
     id: "fe-uric-acid",
@@ -3243,13 +5195,18 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to differentiate SIADH from cerebral salt wasting or assess uric acid handling.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "urineUricAcid", label: "Urine Uric Acid", type: "number", unit: "mg/dL", placeholder: "20", required: true },
-      { id: "plasmaUricAcid", label: "Serum Uric Acid", type: "number", unit: "mg/dL", placeholder: "4.5", required: true },
-      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", placeholder: "100", required: true },
-      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "urineUricAcid", label: "Urine Uric Acid", type: "number", unit: "mg/dL", unitType: "uricAcid", placeholder: "20", required: true },
+      { id: "plasmaUricAcid", label: "Serum Uric Acid", type: "number", unit: "mg/dL", unitType: "uricAcid", placeholder: "4.5", required: true },
+      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "100", required: true },
+      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
     ],
     resultLabel: "FEUA",
     resultUnit: "%",
+    compute({ value }) {
+      return {
+        value: calc.feUricAcid(value("urineUricAcid"), value("plasmaUricAcid"), value("urineCr"), value("plasmaCr")),
+      };
+    },
     interpretation: (value) => {
       if (value < 4) return "Low FEUA (<4%) — suggests pre-renal state, volume depletion, or uric acid underexcretion";
       if (value <= 11) return "Normal FEUA (4-11%) — normal uric acid handling";
@@ -3273,6 +5230,15 @@ export const calculators: Calculator[] = [
       "Steinhauslin F, Burnier M. Am J Kidney Dis. 1995;25(3):407-410",
       "Maesaka JK et al. Clin J Am Soc Nephrol. 2009;4(7):1218-1226",
     ],
+    referenceCases: [
+      {
+        description: "Urine UA 40, plasma UA 5, urine Cr 100, plasma Cr 1.0",
+        values: { urineUricAcid: "40", plasmaUricAcid: "5", urineCr: "100", plasmaCr: "1.0" },
+        expected: 8,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Steinhauslin F, Burnier M. Am J Kidney Dis. 1995;25(3):407-410",
+      },
+    ],
   },
   {
     id: "free-water-clearance",
@@ -3283,11 +5249,14 @@ export const calculators: Calculator[] = [
     category: "Electrolytes & Acid-Base",
     inputs: [
       { id: "urineOutput", label: "Urine Output", type: "number", unit: "mL/hr", placeholder: "60", required: true, min: 0 },
-      { id: "urineOsm", label: "Urine Osmolality", type: "number", unit: "mOsm/kg", placeholder: "300", required: true, min: 50 },
-      { id: "plasmaOsm", label: "Plasma Osmolality", type: "number", unit: "mOsm/kg", placeholder: "285", required: true, min: 200 },
+      { id: "urineOsm", label: "Urine Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "300", required: true, min: 50 },
+      { id: "plasmaOsm", label: "Plasma Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "285", required: true, min: 200 },
     ],
     resultLabel: "Free Water Clearance",
     resultUnit: "mL/hr",
+    compute({ num }) {
+      return { value: calc.freeWaterClearance(num("urineOutput"), num("urineOsm"), num("plasmaOsm")) };
+    },
     interpretation: (value) => {
       if (value > 10) return "Positive CH₂O — kidney excreting free water (dilute urine). Seen in water diuresis, diabetes insipidus.";
       if (value > -10) return "Near zero CH₂O — urine is approximately iso-osmolar to plasma.";
@@ -3303,6 +5272,15 @@ export const calculators: Calculator[] = [
       "Rose BD, Post TW. Clinical Physiology of Acid-Base and Electrolyte Disorders. 5th ed. McGraw-Hill; 2001.",
       "Halperin ML, Goldstein MB. Fluid, Electrolyte and Acid-Base Physiology. 4th ed.",
     ],
+    referenceCases: [
+      {
+        description: "100 mL/h, urine osm 150, plasma osm 300",
+        values: { urineOutput: "100", urineOsm: "150", plasmaOsm: "300" },
+        expected: 50,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Rose BD, Post TW. Clinical Physiology of Acid-Base and Electrolyte Disorders. 5th ed. 2001 (V × (1 − Uosm/Posm))",
+      },
+    ],
   },
   {
     id: "henderson-hasselbalch",
@@ -3312,11 +5290,14 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to calculate expected pH from known bicarbonate and pCO2 values.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "bicarbonate", label: "Serum Bicarbonate (HCO3)", type: "number", unit: "mEq/L", placeholder: "24", required: true },
+      { id: "bicarbonate", label: "Serum Bicarbonate (HCO3)", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "24", required: true },
       { id: "pCO2", label: "Arterial pCO2", type: "number", unit: "mmHg", placeholder: "40", required: true },
     ],
     resultLabel: "Calculated pH",
     resultUnit: "",
+    compute({ num }) {
+      return { value: calc.hendersonHasselbalch(num("bicarbonate"), num("pCO2")) };
+    },
     interpretation: (value) => {
       if (value <= 0) return "Invalid — check inputs";
       if (value < 7.35) return "Acidemia";
@@ -3330,6 +5311,15 @@ export const calculators: Calculator[] = [
       "pKa of carbonic acid = 6.1; CO2 solubility coefficient = 0.03",
     ],
     references: ["Henderson LJ. Am J Physiol. 1908;21:427-448", "Hasselbalch KA. Biochem Z. 1917;78:112-144"],
+    referenceCases: [
+      {
+        description: "HCO₃ 24, pCO₂ 40",
+        values: { bicarbonate: "24", pCO2: "40" },
+        expected: 7.401,
+        tolerance: 0.005,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Henderson LJ. Am J Physiol. 1908;21:427-448 (pH = 6.1 + log(HCO₃ / (0.03 × pCO₂)))",
+      },
+    ],
   },
   {
     id: "kdigo-aki-staging",
@@ -3339,8 +5329,8 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to stage AKI severity per KDIGO criteria and guide clinical management.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "baselineCreatinine", label: "Baseline Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
-      { id: "currentCreatinine", label: "Current Creatinine", type: "number", unit: "mg/dL", placeholder: "2.5", required: true },
+      { id: "baselineCreatinine", label: "Baseline Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
+      { id: "currentCreatinine", label: "Current Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "2.5", required: true },
       { id: "weight", label: "Body Weight (for UO criteria)", type: "number", unit: "kg", placeholder: "70" },
       { id: "urineOutput6h", label: "Urine Output (past 6h)", type: "number", unit: "mL", placeholder: "180" },
       { id: "urineOutput12h", label: "Urine Output (past 12h)", type: "number", unit: "mL", placeholder: "400" },
@@ -3348,6 +5338,10 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "AKI Stage",
     resultUnit: "",
+    compute({ value }) {
+      // Default interpretation receives the full inputs for UO-based staging
+      return { value: calc.kdigoAkiStaging(value("baselineCreatinine"), value("currentCreatinine")) };
+    },
     interpretation: (value, inputs) => {
       const weight = Number(inputs?.weight) || 0;
       const uo6h = Number(inputs?.urineOutput6h) || 0;
@@ -3395,6 +5389,36 @@ export const calculators: Calculator[] = [
       "Kellum JA et al. Acute kidney injury. Lancet. 2021;398(10302):786-798",
       "Chawla LS et al. Acute kidney disease and renal recovery. Nat Rev Nephrol. 2017;13(4):241-257",
     ],
+    referenceCases: [
+      {
+        description: "Creatinine 1.0 → 2.2 mg/dL with preserved urine output",
+        values: {
+          baselineCreatinine: "1.0",
+          currentCreatinine: "2.2",
+          weight: "70",
+          urineOutput6h: "300",
+          urineOutput12h: "600",
+          urineOutput24h: "1200",
+        },
+        expected: 2,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO AKI Guideline. Kidney Int Suppl. 2012;2(1):1-138 (2.0–2.9 × baseline = stage 2)",
+      },
+      {
+        description: "Creatinine 1.0 → 1.35 mg/dL",
+        values: {
+          baselineCreatinine: "1.0",
+          currentCreatinine: "1.35",
+          weight: "70",
+          urineOutput6h: "300",
+          urineOutput12h: "600",
+          urineOutput24h: "1200",
+        },
+        expected: 1,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO AKI Guideline. Kidney Int Suppl. 2012;2(1):1-138 (rise ≥ 0.3 mg/dL = stage 1)",
+      },
+    ],
   },
   {
     id: "mdrd",
@@ -3404,13 +5428,24 @@ export const calculators: Calculator[] = [
     whenToUse: "Use when CKD-EPI is unavailable or for comparison with historical eGFR values.",
     category: "Kidney Function & CKD Risk",
     inputs: [
-      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.2", required: true },
+      { id: "creatinine", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.2", required: true },
       { id: "age", label: "Age", type: "number", unit: "years", placeholder: "55", required: true, min: 18, max: 120 },
       { id: "sex", label: "Sex", type: "select", options: [{ value: "M", label: "Male" }, { value: "F", label: "Female" }], required: true },
       { id: "race", label: "Race", type: "select", options: [{ value: "Other", label: "Non-Black" }, { value: "Black", label: "Black" }], required: true },
     ],
     resultLabel: "eGFR",
     resultUnit: "mL/min/1.73m²",
+    compute({ values: v, num, value }) {
+      return {
+        value: calc.mdrdGfr(
+          value("creatinine"),
+          num("age"),
+          v.sex as "M" | "F",
+          v.race as "Black" | "Other",
+          "mg/dL"
+        ),
+      };
+    },
     interpretation: (value) => {
       if (value >= 90) return "Normal or high GFR (G1)";
       if (value >= 60) return "Mildly decreased GFR (G2)";
@@ -3438,6 +5473,15 @@ export const calculators: Calculator[] = [
       "Levey AS et al. Ann Intern Med. 2006;145(4):247-254",
       "KDIGO CKD Clinical Practice Guideline. Kidney Int Suppl. 2013;3(1):1-150",
     ],
+    referenceCases: [
+      {
+        description: "60-year-old man, creatinine 1.2 mg/dL",
+        values: { creatinine: "1.2", age: "60", sex: "M", race: "Other" },
+        expected: 61.759,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Levey AS et al. Ann Intern Med. 2006;145(4):247-254 (IDMS-traceable 175 equation)",
+      },
+    ],
   },
   {
     id: "phosphate-repletion",
@@ -3447,11 +5491,22 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to calculate IV phosphate replacement dose for symptomatic hypophosphatemia.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "serumPhosphate", label: "Serum Phosphate", type: "number", unit: "mg/dL", placeholder: "1.8", required: true },
+      { id: "serumPhosphate", label: "Serum Phosphate", type: "number", unit: "mg/dL", unitType: "phosphate", placeholder: "1.8", required: true },
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true, min: 1 },
     ],
     resultLabel: "IV Phosphate Dose",
     resultUnit: "mmol",
+    compute({ num, value }) {
+      const phosResult = calc.phosphateRepletion(value("serumPhosphate"), num("weight"));
+      if (phosResult.severity === "normal") return { value: phosResult.dose };
+      return {
+        value: phosResult.dose,
+        interpretation:
+          `${phosResult.severity.charAt(0).toUpperCase() + phosResult.severity.slice(1)} hypophosphatemia — ` +
+          `recommended IV phosphate dose: ${phosResult.dose} mmol. ` +
+          this.interpretation(phosResult.dose),
+      };
+    },
     interpretation: (value) => {
       if (value <= 0) return "Phosphate ≥2.3 mg/dL — repletion likely not needed";
       if (value <= 20) return "Mild hypophosphatemia — consider oral phosphate first";
@@ -3470,6 +5525,15 @@ export const calculators: Calculator[] = [
       "Brown KA et al. Ann Pharmacother. 2006;40(7-8):1227-1230",
       "Clark CL et al. Ann Pharmacother. 2007;41(10):1646-1651",
     ],
+    referenceCases: [
+      {
+        description: "Phosphate 1.2 mg/dL, 70 kg",
+        values: { serumPhosphate: "1.2", weight: "70" },
+        expected: 33.6,
+        tolerance: 0.1,
+        citation: "Expected value from this app's documented approximation, not a published worked example (0.24/0.48/0.8 mmol/kg tiers, weight capped at 100 kg); Brown KA et al. Ann Pharmacother. 2006;40(7-8):1227-1230",
+      },
+    ],
   },
   {
     id: "potassium-repletion",
@@ -3479,12 +5543,27 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to estimate potassium replacement needs in hypokalemia.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "serumPotassium", label: "Serum Potassium", type: "number", unit: "mEq/L", placeholder: "3.2", required: true, min: 1, max: 7 },
-      { id: "targetPotassium", label: "Target Potassium", type: "number", unit: "mEq/L", placeholder: "4.0", required: false, min: 3.5, max: 5.0 },
-      { id: "serumMagnesium", label: "Serum Magnesium (optional)", type: "number", unit: "mg/dL", placeholder: "1.8" },
+      { id: "serumPotassium", label: "Serum Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "3.2", required: true, min: 1, max: 7 },
+      { id: "targetPotassium", label: "Target Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "4.0", required: false, min: 3.5, max: 5.0 },
+      { id: "serumMagnesium", label: "Serum Magnesium (optional)", type: "number", unit: "mg/dL", unitType: "magnesium", placeholder: "1.8" },
     ],
     resultLabel: "Estimated K⁺ Deficit",
     resultUnit: "mEq",
+    compute({ values: v, num, value }) {
+      const kResult = calc.potassiumRepletion(num("serumPotassium"), num("targetPotassium") || 4.0);
+      // Pass pre-converted Mg for interpretation thresholds
+      const kInputs = { ...v, serumMagnesium: String(value("serumMagnesium")) };
+      if (kResult.severity === "normal") {
+        return { value: kResult.deficit, interpretation: this.interpretation(kResult.deficit, kInputs) };
+      }
+      return {
+        value: kResult.deficit,
+        interpretation:
+          `${kResult.severity.charAt(0).toUpperCase() + kResult.severity.slice(1)} hypokalemia — ` +
+          `estimated total body deficit: ~${kResult.deficit} mEq. ` +
+          this.interpretation(kResult.deficit, kInputs),
+      };
+    },
     interpretation: (value, inputs) => {
       const mg = Number(inputs?.serumMagnesium) || 0;
       let base: string;
@@ -3510,6 +5589,15 @@ export const calculators: Calculator[] = [
       "Sterns RH et al. Am J Med. 1981;71(5):811-818",
       "Gennari FJ. N Engl J Med. 1998;339(7):451-458",
     ],
+    referenceCases: [
+      {
+        description: "K 3.0 → 4.0 mEq/L",
+        values: { serumPotassium: "3.0", targetPotassium: "4.0", serumMagnesium: "2.0" },
+        expected: 370.37,
+        tolerance: 1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Sterns RH et al. Medicine (Baltimore). 1981;60(5):339-354 (about 100 mEq of total body deficit per 0.27 mEq/L fall)",
+      },
+    ],
   },
   {
     id: "stool-osmolar-gap",
@@ -3519,12 +5607,15 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to differentiate osmotic diarrhea from secretory diarrhea.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "stoolNa", label: "Stool Sodium", type: "number", unit: "mEq/L", placeholder: "30", required: true },
-      { id: "stoolK", label: "Stool Potassium", type: "number", unit: "mEq/L", placeholder: "60", required: true },
-      { id: "stoolOsmolality", label: "Stool Osmolality", type: "number", unit: "mOsm/kg", placeholder: "290" },
+      { id: "stoolNa", label: "Stool Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "30", required: true },
+      { id: "stoolK", label: "Stool Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "60", required: true },
+      { id: "stoolOsmolality", label: "Stool Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "290" },
     ],
     resultLabel: "Stool Osmolar Gap",
     resultUnit: "mOsm/kg",
+    compute({ num }) {
+      return { value: calc.stoolOsmolarGap(num("stoolNa"), num("stoolK"), num("stoolOsmolality") || 290) };
+    },
     interpretation: (value) => {
       if (value > 125) return "Osmotic diarrhea — poorly absorbed solute (lactulose, Mg, sorbitol)";
       if (value >= 50) return "Mixed pattern — consider both osmotic and secretory causes";
@@ -3537,6 +5628,15 @@ export const calculators: Calculator[] = [
       "If measured stool osmolality > 350, suspect sample contamination or urine",
     ],
     references: ["Eherer AJ, Fordtran JS. Gastroenterology. 1992;103(2):545-551"],
+    referenceCases: [
+      {
+        description: "Stool Na 30, K 40, osmolality 290",
+        values: { stoolNa: "30", stoolK: "40", stoolOsmolality: "290" },
+        expected: 150,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Eherer AJ, Fordtran JS. Gastroenterology. 1992;103(2):545-551 (290 − 2 × (Na + K))",
+      },
+    ],
   },
   {
     id: "trp-tmp-gfr",
@@ -3546,13 +5646,22 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to evaluate renal phosphate handling in hypophosphatemia or hyperphosphatemia workup.",
     category: "CKD-Mineral Bone Disease",
     inputs: [
-      { id: "urinePhosphate", label: "Urine Phosphate", type: "number", unit: "mg/dL", placeholder: "40", required: true },
-      { id: "plasmaPhosphate", label: "Serum Phosphate", type: "number", unit: "mg/dL", placeholder: "3.0", required: true },
-      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", placeholder: "100", required: true },
-      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", placeholder: "1.0", required: true },
+      { id: "urinePhosphate", label: "Urine Phosphate", type: "number", unit: "mg/dL", unitType: "phosphate", placeholder: "40", required: true },
+      { id: "plasmaPhosphate", label: "Serum Phosphate", type: "number", unit: "mg/dL", unitType: "phosphate", placeholder: "3.0", required: true },
+      { id: "urineCr", label: "Urine Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "100", required: true },
+      { id: "plasmaCr", label: "Serum Creatinine", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0", required: true },
     ],
     resultLabel: "TmP/GFR",
     resultUnit: "mg/dL",
+    compute({ value }) {
+      const trpResult = calc.trpTmpGfr(value("urinePhosphate"), value("plasmaPhosphate"), value("urineCr"), value("plasmaCr"));
+      return {
+        value: trpResult.tmpGfr,
+        interpretation:
+          `TRP: ${(trpResult.trp * 100).toFixed(1)}% | TmP/GFR: ${trpResult.tmpGfr} mg/dL. ` +
+          this.interpretation(trpResult.tmpGfr),
+      };
+    },
     interpretation: (value) => {
       if (value < 2.0) return "Low TmP/GFR — renal phosphate wasting. Consider FGF23 excess, Fanconi, hyperparathyroidism.";
       if (value <= 4.4) return "Normal TmP/GFR (2.0-4.4 mg/dL) — appropriate renal phosphate handling.";
@@ -3574,6 +5683,15 @@ export const calculators: Calculator[] = [
       "Walton RJ, Bijvoet OL. Lancet. 1975;2(7929):309-310",
       "Payne RB. Ann Clin Biochem. 1998;35(Pt 2):201-206",
     ],
+    referenceCases: [
+      {
+        description: "Urine Pi 40, plasma Pi 3.0, urine Cr 100, plasma Cr 1.0 (TRP > 0.86)",
+        values: { urinePhosphate: "40", plasmaPhosphate: "3.0", urineCr: "100", plasmaCr: "1.0" },
+        expected: 2.543,
+        tolerance: 0.01,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Payne RB. Ann Clin Biochem. 1998;35(2):201-206 (Kenny & Glen form of the Walton-Bijvoet nomogram)",
+      },
+    ],
   },
   {
     id: "urine-osmolal-gap",
@@ -3583,14 +5701,25 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to estimate urine ammonium and assess renal acid excretion in metabolic acidosis.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "measuredUrineOsm", label: "Measured Urine Osmolality", type: "number", unit: "mOsm/kg", placeholder: "500", required: true },
-      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", placeholder: "60", required: true },
-      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", placeholder: "30", required: true },
-      { id: "urineUrea", label: "Urine Urea / BUN", type: "number", unit: "mg/dL", placeholder: "500", required: true },
-      { id: "urineGlucose", label: "Urine Glucose (optional)", type: "number", unit: "mg/dL", placeholder: "0", required: false },
+      { id: "measuredUrineOsm", label: "Measured Urine Osmolality", type: "number", unit: "mOsm/kg", unitType: "osmolality", placeholder: "500", required: true },
+      { id: "urineNa", label: "Urine Sodium", type: "number", unit: "mEq/L", unitType: "sodium", placeholder: "60", required: true },
+      { id: "urineK", label: "Urine Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "30", required: true },
+      { id: "urineUrea", label: "Urine Urea / BUN", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "500", required: true },
+      { id: "urineGlucose", label: "Urine Glucose (optional)", type: "number", unit: "mg/dL", unitType: "glucose", placeholder: "0", required: false },
     ],
     resultLabel: "Urine Osmolal Gap",
     resultUnit: "mOsm/kg",
+    compute({ num, value }) {
+      return {
+        value: calc.urineOsmolalGap(
+          num("measuredUrineOsm"),
+          num("urineNa"),
+          num("urineK"),
+          value("urineUrea"),
+          value("urineGlucose") || 0
+        ),
+      };
+    },
     interpretation: (value) => {
       if (value < 100) return "Low UOG (<100) — low urine NH₄⁺. Suggests renal cause of acidosis (RTA, CKD).";
       if (value <= 400) return "Normal/elevated UOG (100-400) — appropriate renal NH₄⁺ excretion. GI or extrarenal cause.";
@@ -3612,6 +5741,15 @@ export const calculators: Calculator[] = [
       "Kamel KS, Halperin ML. Clin J Am Soc Nephrol. 2012;7(4):674-678",
       "Batlle D et al. Kidney Int. 2006;70(3):391-406",
     ],
+    referenceCases: [
+      {
+        description: "Measured 600, Na 50, K 40, urea nitrogen 560 mg/dL",
+        values: { measuredUrineOsm: "600", urineNa: "50", urineK: "40", urineUrea: "560", urineGlucose: "0" },
+        expected: 220,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Kamel KS, Halperin ML. Clin J Am Soc Nephrol. 2012;7(4):674-678",
+      },
+    ],
   },
   {
     id: "winters-formula",
@@ -3621,11 +5759,14 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to check if respiratory compensation is appropriate in metabolic acidosis.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "bicarbonate", label: "Serum Bicarbonate (HCO3)", type: "number", unit: "mEq/L", placeholder: "15", required: true },
+      { id: "bicarbonate", label: "Serum Bicarbonate (HCO3)", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "15", required: true },
       { id: "actualPCO2", label: "Actual pCO2 (for comparison)", type: "number", unit: "mmHg", placeholder: "30" },
     ],
     resultLabel: "Expected pCO2",
     resultUnit: "mmHg",
+    compute({ num }) {
+      return { value: calc.wintersFormula(num("bicarbonate")).expectedPCO2 };
+    },
     interpretation: (value) => {
       if (value <= 0) return "Invalid — check inputs";
       return `Expected pCO2 range: ${(value - 2).toFixed(1)} – ${(value + 2).toFixed(1)} mmHg`;
@@ -3637,6 +5778,15 @@ export const calculators: Calculator[] = [
       "Only valid in primary metabolic acidosis (not mixed disorders)",
     ],
     references: ["Albert MS, Dell RB, Winters RW. Ann Intern Med. 1967;66(2):312-322"],
+    referenceCases: [
+      {
+        description: "HCO₃ 12",
+        values: { bicarbonate: "12", actualPCO2: "26" },
+        expected: 26,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Albert MS, Dell RB, Winters RW. Ann Intern Med. 1967;66(2):312-322 (1.5 × HCO₃ + 8 ± 2)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — MAGNESIUM REPLETION
@@ -3649,13 +5799,35 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to calculate magnesium replacement dose for hypomagnesemia. Critical when K⁺ repletion is failing.",
     category: "Electrolytes & Acid-Base",
     inputs: [
-      { id: "serumMagnesiumRepletion", label: "Serum Magnesium", type: "number", unit: "mg/dL", placeholder: "1.4", required: true },
-      { id: "targetMagnesium", label: "Target Magnesium", type: "number", unit: "mg/dL", placeholder: "2.0" },
+      { id: "serumMagnesiumRepletion", label: "Serum Magnesium", type: "number", unit: "mg/dL", unitType: "magnesium", placeholder: "1.4", required: true },
+      { id: "targetMagnesium", label: "Target Magnesium", type: "number", unit: "mg/dL", unitType: "magnesium", placeholder: "2.0" },
       { id: "weight", label: "Body Weight", type: "number", unit: "kg", placeholder: "70", required: true },
       { id: "renalFunction", label: "Renal Function", type: "select", options: [{ value: "normal", label: "Normal / CKD 1-2" }, { value: "ckd3-4", label: "CKD 3-4 (eGFR 15-59)" }, { value: "dialysis", label: "Dialysis" }] },
     ],
     resultLabel: "IV MgSO4 Dose",
     resultUnit: "g",
+    compute({ values: v, num, value }) {
+      const mgConv = value("serumMagnesiumRepletion");
+      const targetMgConv = value("targetMagnesium") || 2.0;
+      const mgResult = calc.magnesiumRepletion(
+        mgConv,
+        targetMgConv,
+        num("weight") || 70,
+        (v.renalFunction as "normal" | "ckd3-4" | "dialysis") || "normal"
+      );
+      if (mgResult.severity === "normal") return { value: mgResult.dose };
+      // Pass pre-converted Mg value for interpretation thresholds
+      const mgInputs = { ...v, serumMagnesiumRepletion: String(mgConv), targetMagnesium: String(targetMgConv) };
+      return {
+        value: mgResult.dose,
+        interpretation:
+          `${mgResult.severity.charAt(0).toUpperCase() + mgResult.severity.slice(1)} hypomagnesemia — ` +
+          `IV MgSO4 dose: ${mgResult.dose}g. ` +
+          `Route: ${mgResult.route}\n` +
+          `Monitoring: ${mgResult.monitoring}\n\n` +
+          this.interpretation(mgResult.dose, mgInputs),
+      };
+    },
     interpretation: (value, inputs) => {
       const mg = Number(inputs?.serumMagnesiumRepletion) || 0;
       if (mg >= 2.0) return "Magnesium ≥2.0 mg/dL — repletion likely not needed.";
@@ -3683,6 +5855,22 @@ export const calculators: Calculator[] = [
       "Cheungpasitporn W et al. Hosp Pract. 2015;43(2):79-83",
       "Blaine J et al. Clin J Am Soc Nephrol. 2015;10(7):1257-1267",
     ],
+    referenceCases: [
+      {
+        description: "Mg 1.4 mg/dL, normal kidney function",
+        values: { serumMagnesiumRepletion: "1.4", targetMagnesium: "2.0", weight: "70", renalFunction: "normal" },
+        expected: 4,
+        tolerance: 0,
+        citation: "Expected value from this app's documented approximation, not a published worked example (severity-tiered MgSO₄ dose); Cheungpasitporn W et al. Hosp Pract. 2015;43(2):79-83",
+      },
+      {
+        description: "Mg 1.4 mg/dL on dialysis",
+        values: { serumMagnesiumRepletion: "1.4", targetMagnesium: "2.0", weight: "70", renalFunction: "dialysis" },
+        expected: 1,
+        tolerance: 0,
+        citation: "Expected value from this app's documented approximation, not a published worked example (25% of the tiered dose on dialysis)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — PTH TARGET (CKD-MBD)
@@ -3695,15 +5883,27 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to evaluate if PTH is within KDIGO target range for the patient's CKD stage and guide vitamin D/calcimimetic therapy.",
     category: "CKD-Mineral Bone Disease",
     inputs: [
-      { id: "pth", label: "Intact PTH", type: "number", unit: "pg/mL", placeholder: "300", required: true },
+      { id: "pth", label: "Intact PTH", type: "number", unit: "pg/mL", unitType: "pth", placeholder: "300", required: true },
       { id: "ckdStage", label: "CKD Stage", type: "select", options: [{ value: "3", label: "CKD 3" }, { value: "4", label: "CKD 4" }, { value: "5", label: "CKD 5 (not on dialysis)" }, { value: "5D", label: "CKD 5D (Dialysis)" }], required: true },
-      { id: "calciumPTH", label: "Serum Calcium", type: "number", unit: "mg/dL", placeholder: "9.5", required: true },
-      { id: "phosphatePTH", label: "Serum Phosphate", type: "number", unit: "mg/dL", placeholder: "4.5" },
-      { id: "vitaminD", label: "25-OH Vitamin D", type: "number", unit: "ng/mL", placeholder: "30" },
+      { id: "calciumPTH", label: "Serum Calcium", type: "number", unit: "mg/dL", unitType: "calcium", placeholder: "9.5", required: true },
+      { id: "phosphatePTH", label: "Serum Phosphate", type: "number", unit: "mg/dL", unitType: "phosphate", placeholder: "4.5" },
+      { id: "vitaminD", label: "25-OH Vitamin D", type: "number", unit: "ng/mL", unitType: "vitaminD", placeholder: "30" },
       { id: "currentTherapy", label: "Current Therapy", type: "select", options: [{ value: "none", label: "None" }, { value: "vitD-nutritional", label: "Nutritional Vitamin D" }, { value: "vitD-active", label: "Active Vitamin D (calcitriol/alfacalcidol)" }, { value: "calcimimetic", label: "Calcimimetic (cinacalcet)" }, { value: "combination", label: "Active VitD + Calcimimetic" }] },
     ],
     resultLabel: "PTH",
     resultUnit: "pg/mL",
+    compute({ values: v, value }) {
+      const pthVal = value("pth");
+      // Pass pre-converted values so interpretation thresholds (conventional units) work correctly
+      const pthInputs = {
+        ...v,
+        pth: String(pthVal),
+        calciumPTH: String(value("calciumPTH")),
+        phosphatePTH: String(value("phosphatePTH")),
+        vitaminD: String(value("vitaminD")),
+      };
+      return { value: pthVal, interpretation: this.interpretation(pthVal, pthInputs) };
+    },
     interpretation: (value, inputs) => {
       const stage = inputs?.ckdStage || "5D";
       const ca = Number(inputs?.calciumPTH) || 0;
@@ -3752,6 +5952,15 @@ export const calculators: Calculator[] = [
       "KDIGO CKD-MBD Update. Kidney Int. 2017;92(1):26-36",
       "KDIGO CKD-MBD Guideline. Kidney Int Suppl. 2009;76(Suppl 113):S1-S130",
     ],
+    referenceCases: [
+      {
+        description: "PTH 600 pg/mL in CKD 5D",
+        values: { pth: "600", ckdStage: "5D", calciumPTH: "9.2", phosphatePTH: "5.0", vitaminD: "30", currentTherapy: "none" },
+        expected: 600,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO CKD-MBD Update. Kidney Int. 2017;92(1):26-36 (dialysis target about 2–9 × the upper normal limit)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — PHOSPHATE MANAGEMENT (CKD-MBD)
@@ -3764,14 +5973,27 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to guide phosphate management in CKD, including binder selection and target assessment.",
     category: "CKD-Mineral Bone Disease",
     inputs: [
-      { id: "phosphateLevel", label: "Serum Phosphate", type: "number", unit: "mg/dL", placeholder: "5.5", required: true },
+      { id: "phosphateLevel", label: "Serum Phosphate", type: "number", unit: "mg/dL", unitType: "phosphate", placeholder: "5.5", required: true },
       { id: "ckdStagePhos", label: "CKD Stage", type: "select", options: [{ value: "3-5", label: "CKD 3-5 (not on dialysis)" }, { value: "5D", label: "CKD 5D (Dialysis)" }], required: true },
-      { id: "calciumPhos", label: "Serum Calcium", type: "number", unit: "mg/dL", placeholder: "9.5", required: true },
-      { id: "pthPhos", label: "Intact PTH", type: "number", unit: "pg/mL", placeholder: "300" },
+      { id: "calciumPhos", label: "Serum Calcium", type: "number", unit: "mg/dL", unitType: "calcium", placeholder: "9.5", required: true },
+      { id: "pthPhos", label: "Intact PTH", type: "number", unit: "pg/mL", unitType: "pth", placeholder: "300" },
       { id: "currentBinder", label: "Current Binder", type: "select", options: [{ value: "none", label: "None" }, { value: "calcium", label: "Calcium-based (CaCO3, Ca acetate)" }, { value: "sevelamer", label: "Sevelamer (Renagel/Renvela)" }, { value: "lanthanum", label: "Lanthanum (Fosrenol)" }, { value: "sucroferric", label: "Sucroferric oxyhydroxide (Velphoro)" }, { value: "ironCitrate", label: "Ferric citrate (Auryxia)" }] },
     ],
     resultLabel: "Ca×PO4 Product",
     resultUnit: "mg²/dL²",
+    compute({ values: v, value }) {
+      const phos = value("phosphateLevel");
+      const ca = value("calciumPhos");
+      const product = Math.round(phos * ca * 10) / 10;
+      // Pass pre-converted values so interpretation thresholds work correctly
+      const phosInputs = {
+        ...v,
+        phosphateLevel: String(phos),
+        calciumPhos: String(ca),
+        pthPhos: String(value("pthPhos")),
+      };
+      return { value: product, interpretation: this.interpretation(product, phosInputs) };
+    },
     interpretation: (value, inputs) => {
       const phos = Number(inputs?.phosphateLevel) || 0;
       const ca = Number(inputs?.calciumPhos) || 0;
@@ -3813,6 +6035,15 @@ export const calculators: Calculator[] = [
       "KDIGO CKD-MBD Update. Kidney Int. 2017;92(1):26-36",
       "Block GA et al. Kidney Int. 2012;81(3):293-299",
     ],
+    referenceCases: [
+      {
+        description: "Phosphate 6.0, calcium 9.0 in CKD 5D",
+        values: { phosphateLevel: "6.0", ckdStagePhos: "5D", calciumPhos: "9.0", pthPhos: "300", currentBinder: "none" },
+        expected: 54,
+        tolerance: 0.1,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO CKD-MBD Update. Kidney Int. 2017;92(1):26-36",
+      },
+    ],
   },
   // ============================================================================
   // NEW — VANCOMYCIN AUC/MIC (Drug Dosing)
@@ -3837,11 +6068,28 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "AUC/MIC",
     resultUnit: "",
-    interpretation: (value) => {
-      if (value < 400) return "AUC/MIC <400 — subtherapeutic. Increase dose or shorten interval. Risk of treatment failure and resistance emergence.";
-      if (value <= 600) return "AUC/MIC 400–600 — within ASHP/IDSA 2020 target. Continue current regimen. Recheck levels in 3–5 days or with renal function change.";
-      return "AUC/MIC >600 — supratherapeutic. Reduce dose. Risk of nephrotoxicity (AKI risk increases linearly above AUC/MIC 600).";
+    compute({ num }) {
+      const vancResult = calc.vancomycinAuc(
+        num("vancDose"),
+        num("vancInterval") || 12,
+        num("vancTrough"),
+        num("vancPeak"),
+        num("vancInfusionTime") || 1,
+        num("timeToPeak") || 1,
+        num("timeToTrough") || 11,
+        num("vancMIC") || 1.0,
+        num("weight") || 70
+      );
+      return {
+        value: vancResult.aucMic,
+        interpretation:
+          `AUC/MIC: ${vancResult.aucMic} | AUC₂₄: ${vancResult.auc24} mg·h/L\n` +
+          `Ke: ${vancResult.ke} h⁻¹ | t½: ${vancResult.halfLife}h | Vd: ${vancResult.vd}L\n\n` +
+          `${vancResult.adjustedDose}\n\n` +
+          this.interpretation(vancResult.aucMic),
+      };
     },
+    interpretation: bandInterpretation("vancomycin-auc"),
     clinicalPearls: [
       "ASHP/IDSA 2020: AUC/MIC 400–600 replaces trough-only monitoring",
       "Two-level (peak + trough) is most accurate; trough-only uses population estimates",
@@ -3855,6 +6103,25 @@ export const calculators: Calculator[] = [
       "Rybak MJ et al. ASHP/IDSA/SIDP Vancomycin Therapeutic Monitoring Guidelines. Am J Health Syst Pharm. 2020;77(11):835-864",
       "Neely MN et al. Clin Infect Dis. 2018;67(3):303-309",
     ],
+    referenceCases: [
+      {
+        description: "1 g every 12 h, peak 30 at 2 h, trough 10 at 11 h, MIC 1",
+        values: {
+          vancDose: "1000",
+          vancInterval: "12",
+          vancTrough: "10",
+          vancPeak: "30",
+          vancInfusionTime: "1",
+          timeToPeak: "2",
+          timeToTrough: "11",
+          vancMIC: "1",
+          weight: "70",
+        },
+        expected: 346.514,
+        tolerance: 1,
+        citation: "Expected value from this app's documented approximation, not a published worked example (two-level ke, Vd = dose / (peak − trough·e^(−ke·tinf))); Rybak MJ et al. Am J Health Syst Pharm. 2020;77(11):835-864",
+      },
+    ],
   },
   // ============================================================================
   // NEW — TACROLIMUS TARGET (Transplantation)
@@ -3876,6 +6143,9 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Tacrolimus Level",
     resultUnit: "ng/mL",
+    compute({ num }) {
+      return { value: num("tacroLevel") };
+    },
     interpretation: (value, inputs) => {
       const months = Number(inputs?.monthsPostTx) || 0;
       const risk = inputs?.immunologicRisk || "standard";
@@ -3925,6 +6195,22 @@ export const calculators: Calculator[] = [
       "KDIGO Transplant Guideline. Am J Transplant. 2009;9(Suppl 3):S1-S157",
       "Ekberg H et al. N Engl J Med. 2007;357(25):2562-2575",
     ],
+    referenceCases: [
+      {
+        description: "Level 8 ng/mL at 6 months",
+        values: {
+          tacroLevel: "8",
+          monthsPostTx: "6",
+          immunologicRisk: "standard",
+          concomitantIS: "mmf",
+          recentRejection: "no",
+          bkViremia: "none",
+        },
+        expected: 8,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: KDIGO Transplant Guideline. Am J Transplant. 2009;9(Suppl 3):S1-S157 (the measured level is the result)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — BK VIRUS ASSESSMENT (Transplantation)
@@ -3947,6 +6233,9 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "BK Viral Load",
     resultUnit: "copies/mL",
+    compute({ num }) {
+      return { value: num("bkViralLoad") };
+    },
     interpretation: (value, inputs) => {
       const months = Number(inputs?.monthsPostTxBK) || 0;
       const biopsy = inputs?.biopsyResult || "notDone";
@@ -3988,6 +6277,23 @@ export const calculators: Calculator[] = [
       "Hirsch HH et al. Am J Transplant. 2019;19(Suppl 3):364-376",
       "AST Infectious Disease Community of Practice. Am J Transplant. 2019;19(Suppl 3)",
     ],
+    referenceCases: [
+      {
+        description: "BK viral load 15 000 copies/mL",
+        values: {
+          bkViralLoad: "15000",
+          monthsPostTxBK: "4",
+          tacroLevelBK: "8",
+          mmfDoseBK: "2000",
+          decoyCells: "positive",
+          biopsyResult: "notDone",
+          creatinineTrend: "stable",
+        },
+        expected: 15000,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Hirsch HH et al. Am J Transplant. 2019;19(Suppl 3):364-376 (the measured load is the result)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — BVAS v3 (Systemic Diseases)
@@ -4049,12 +6355,47 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "BVAS v3 Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value === 0) return "BVAS 0 — Remission. Continue maintenance therapy. Monitor for relapse.";
-      if (value <= 9) return "BVAS 1–9 — Low activity. Consider treatment optimization. May represent grumbling disease or minor flare. Repeat in 2–4 weeks to confirm trend.";
-      if (value <= 19) return "BVAS 10–19 — Moderate activity. Active vasculitis requiring treatment escalation. Consider pulse steroids + cyclophosphamide or rituximab induction.";
-      return "BVAS ≥20 — Severe/life-threatening activity. Urgent induction therapy: pulse methylprednisolone 500–1000 mg × 3 days + cyclophosphamide or rituximab. Consider plasma exchange if pulmonary hemorrhage or severe renal disease (PEXIVAS).";
+    formulaVersion: "2",
+    formulaSource: "BVAS v3 with each organ system capped at its published maximum (Mukhtyar 2009)",
+    previousVersions: [
+      {
+        version: "1",
+        source: "BVAS v3 items with no per-system maximum",
+        compute({ values: v }) {
+          const items = Object.fromEntries(Object.keys(v).map((id) => [id, v[id] === "on"]));
+          return { value: calc.bvasV3V1(items).total };
+        },
+      },
+    ],
+    compute({ values: v }) {
+      const items: Record<string, boolean> = {};
+      const checkboxIds = [
+        "myalgia", "arthralgia", "fever", "weightLoss",
+        "infarct", "purpura", "ulcer", "gangrene", "otherSkinVasculitis",
+        "uveitis", "retinalVasculitis", "scleritis", "suddenVisualLoss",
+        "nasalDischarge", "sinusitis", "hearingLoss", "subglotticStenosis",
+        "nodules", "infiltrate", "alveolarHemorrhage", "respiratoryFailure",
+        "pericarditis", "ischemicCardiacPain", "cardiomyopathy",
+        "bloodyDiarrhea", "ischemicAbdominalPain",
+        "hypertensionBvas", "proteinuriaBvas", "hematuria", "creatinineRise", "creatinineRiseRapid",
+        "organicConfusion", "seizuresBvas", "strokeBvas", "cranialNervePalsy", "sensorNeuropathy", "motorNeuropathy",
+      ];
+      for (const id of checkboxIds) {
+        items[id] = v[id] === "on";
+      }
+      const bvasResult = calc.bvasV3(items);
+      const activeOrgans = Object.entries(bvasResult.organScores)
+        .filter(([, score]) => score > 0)
+        .map(([organ, score]) => `${organ}: ${score}`)
+        .join(", ");
+      return {
+        value: bvasResult.total,
+        interpretation:
+          (activeOrgans ? `Active organs: ${activeOrgans}\n\n` : "") +
+          this.interpretation(bvasResult.total),
+      };
     },
+    interpretation: bandInterpretation("bvas-v3"),
     clinicalPearls: [
       "BVAS 0 defines remission in clinical trials (RAVE, RITUXVAS)",
       "Renal items carry high weight (max 32 pts) — kidney involvement drives severity",
@@ -4067,6 +6408,22 @@ export const calculators: Calculator[] = [
       "Mukhtyar C et al. Ann Rheum Dis. 2009;68(12):1827-1832",
       "Stone JH et al. N Engl J Med. 2010;363(3):221-232",
     ],
+    referenceCases: [
+      {
+        description: "Fever, weight loss and arthralgia with proteinuria, haematuria and rising creatinine",
+        values: { arthralgia: "on", fever: "on", weightLoss: "on", proteinuriaBvas: "on", hematuria: "on", creatinineRise: "on" },
+        expected: 15,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Mukhtyar C et al. Ann Rheum Dis. 2009;68(12):1827-1832 (organ maxima: general 3, renal 12)",
+      },
+      {
+        description: "Purpura with sinus involvement",
+        values: { purpura: "on", sinusitis: "on" },
+        expected: 4,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Mukhtyar C et al. Ann Rheum Dis. 2009;68(12):1827-1832",
+      },
+    ],
   },
   // ============================================================================
   // NEW — DIALYSIS URGENCY SCORE
@@ -4080,23 +6437,40 @@ export const calculators: Calculator[] = [
     category: "Dialysis Adequacy",
     inputs: [
       { id: "pHDialysis", label: "Arterial pH", type: "number", unit: "", placeholder: "7.25" },
-      { id: "bicarbDialysis", label: "Serum Bicarbonate", type: "number", unit: "mEq/L", placeholder: "12" },
-      { id: "potassiumDialysis", label: "Serum Potassium", type: "number", unit: "mEq/L", placeholder: "5.5" },
+      { id: "bicarbDialysis", label: "Serum Bicarbonate", type: "number", unit: "mEq/L", unitType: "bicarbonate", placeholder: "12" },
+      { id: "potassiumDialysis", label: "Serum Potassium", type: "number", unit: "mEq/L", unitType: "potassium", placeholder: "5.5" },
       { id: "ecgChanges", label: "ECG Changes (peaked T, wide QRS)", type: "select", options: [{ value: "no", label: "No" }, { value: "yes", label: "Yes" }] },
       { id: "fluidOverload", label: "Fluid Overload Status", type: "select", options: [{ value: "none", label: "None" }, { value: "mild", label: "Mild (peripheral edema)" }, { value: "moderate", label: "Moderate (pleural effusion)" }, { value: "refractory", label: "Refractory pulmonary edema" }] },
-      { id: "bunDialysis", label: "BUN", type: "number", unit: "mg/dL", placeholder: "80" },
+      { id: "bunDialysis", label: "BUN", type: "number", unit: "mg/dL", unitType: "bunUrea", placeholder: "80" },
       { id: "uremicSymptoms", label: "Uremic Symptoms", type: "select", options: [{ value: "none", label: "None" }, { value: "nausea", label: "Nausea/Vomiting/Anorexia" }, { value: "encephalopathy", label: "Encephalopathy (confusion, asterixis)" }, { value: "pericarditis", label: "Pericarditis (friction rub)" }] },
       { id: "toxicIngestion", label: "Dialyzable Toxic Ingestion", type: "select", options: [{ value: "no", label: "No" }, { value: "yes", label: "Yes" }] },
       { id: "diureticResponse", label: "Diuretic Response", type: "select", options: [{ value: "responsive", label: "Responsive to diuretics" }, { value: "resistant", label: "Diuretic resistant" }, { value: "anuric", label: "Anuric" }] },
     ],
     resultLabel: "Urgency Score",
     resultUnit: "points",
-    interpretation: (value) => {
-      if (value >= 9) return "EMERGENT (Score ≥9) — Immediate dialysis. Life-threatening indication present. Contact nephrology STAT for emergent RRT. Place dialysis catheter emergently if no access.";
-      if (value >= 6) return "HIGH URGENCY (Score 6–8) — Dialysis within hours. Multiple serious indications. Place urgent dialysis access. Temporize with medical management while arranging RRT.";
-      if (value >= 3) return "MODERATE (Score 3–5) — Plan dialysis within 24h. Significant indications accumulating. Optimize medical management. Arrange vascular access and nephrology consult.";
-      return "LOW (Score 0–2) — Conservative management appropriate. Monitor closely. No immediate RRT indication. Continue supportive care and reassess in 6–12h.";
+    compute({ values: v, num, value }) {
+      const duResult = calc.dialysisUrgency(
+        num("pHDialysis"),
+        num("bicarbDialysis"),
+        num("potassiumDialysis"),
+        v.ecgChanges === "yes",
+        (v.fluidOverload as "none" | "mild" | "moderate" | "refractory") || "none",
+        value("bunDialysis"),
+        (v.uremicSymptoms as "none" | "nausea" | "encephalopathy" | "pericarditis") || "none",
+        0, // urineOutput24h — not used directly, diureticResponse covers it
+        num("weight") || 70,
+        v.toxicIngestion === "yes",
+        (v.diureticResponse as "responsive" | "resistant" | "anuric") || "responsive"
+      );
+      return {
+        value: duResult.score,
+        interpretation:
+          `${duResult.urgency}\n\n` +
+          (duResult.indications.length > 0 ? `Indications:\n• ${duResult.indications.join("\n• ")}\n\n` : "") +
+          this.interpretation(duResult.score),
+      };
     },
+    interpretation: bandInterpretation("dialysis-urgency"),
     clinicalPearls: [
       "AEIOU mnemonic: Acidosis, Electrolytes, Intoxication, Overload, Uremia",
       "Any single life-threatening indication (pH <7.1, K >6.5+ECG, pulm edema, encephalopathy) = emergent",
@@ -4110,6 +6484,25 @@ export const calculators: Calculator[] = [
       "KDIGO AKI Guideline. Kidney Int Suppl. 2012;2(1):1-138",
       "Zarbock A et al. JAMA. 2016;315(20):2190-2199",
     ],
+    referenceCases: [
+      {
+        description: "pH 7.15, K 6.8 without ECG changes, moderate overload",
+        values: {
+          pHDialysis: "7.15",
+          bicarbDialysis: "12",
+          potassiumDialysis: "6.8",
+          ecgChanges: "no",
+          fluidOverload: "moderate",
+          bunDialysis: "80",
+          uremicSymptoms: "none",
+          toxicIngestion: "no",
+          diureticResponse: "responsive",
+        },
+        expected: 7,
+        tolerance: 0,
+        citation: "Expected value from this app's documented approximation, not a published worked example (AEIOU-weighted points); Bagshaw SM et al. Curr Opin Crit Care. 2009;15(6):481-486",
+      },
+    ],
   },
   // ============================================================================
   // NEW — COMPLEMENT LEVELS (GN Workup)
@@ -4128,6 +6521,12 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Complement Pattern",
     resultUnit: "",
+    compute({ num }) {
+      // Result is a code: 0=normal/normal, 1=normalC3/lowC4, 2=lowC3/normalC4, 3=lowC3/lowC4
+      const lowC3 = num("c3") < 90;
+      const lowC4 = num("c4") < 10;
+      return { value: (lowC3 ? 2 : 0) + (lowC4 ? 1 : 0) };
+    },
     interpretation: (value, inputs) => {
       const c3 = Number(inputs?.c3) || 0;
       const c4 = Number(inputs?.c4) || 0;
@@ -4162,6 +6561,15 @@ export const calculators: Calculator[] = [
       "Sethi S et al. J Am Soc Nephrol. 2012;23(8):1359-1367",
       "Fervenza FC et al. Kidney Int. 2012;82(4):465-473",
     ],
+    referenceCases: [
+      {
+        description: "Low C3, normal C4",
+        values: { c3: "50", c4: "20", clinicalContext: "acute-gn" },
+        expected: 2,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Sethi S et al. J Am Soc Nephrol. 2012;23(8):1359-1367 (result code 2 = isolated low C3)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — TRANSPLANT GN RECURRENCE RISK
@@ -4197,6 +6605,16 @@ export const calculators: Calculator[] = [
     ],
     resultLabel: "Recurrence Risk",
     resultUnit: "%",
+    compute({ values: v }) {
+      // Lookup-based — result is the approximate recurrence rate for the disease
+      const diseaseRates: Record<string, number> = {
+        "fsgs": 35, "igan": 50, "membranous": 35, "mpgn-ic": 45, "c3g": 65,
+        "lupus": 5, "anca": 15, "antigbm": 3, "ahus": 65, "dkd": 95,
+        "amyloid-al": 15, "amyloid-aa": 15, "oxalosis": 95, "mcd": 3, "fibrillary": 50, "other": 20,
+      };
+      const disease = v.primaryDisease || "other";
+      return { value: diseaseRates[disease as string] || 20 };
+    },
     interpretation: (value, inputs) => {
       const disease = inputs?.primaryDisease || "other";
       const prior = inputs?.priorRecurrence === "yes";
@@ -4238,6 +6656,15 @@ export const calculators: Calculator[] = [
       "Ponticelli C et al. Clin J Am Soc Nephrol. 2011;6(1):14-21",
       "Allen PJ et al. Transplantation. 2017;101(4):710-718",
     ],
+    referenceCases: [
+      {
+        description: "FSGS, no prior recurrence, deceased donor",
+        values: { primaryDisease: "fsgs", priorRecurrence: "no", donorType: "deceased" },
+        expected: 35,
+        tolerance: 0,
+        citation: "Expected value from this app's documented approximation, not a published worked example (literature recurrence rate lookup); Ponticelli C et al. Clin J Am Soc Nephrol. 2011;6(1):14-21",
+      },
+    ],
   },
   // ============================================================================
   // NEW — NEPHROTIC SYNDROME ASSESSMENT
@@ -4250,16 +6677,29 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to assess severity of nephrotic syndrome and guide management of complications (thrombosis, edema, hyperlipidemia).",
     category: "Proteinuria & Glomerular Disease",
     inputs: [
-      { id: "upcr", label: "UPCR", type: "number", unit: "mg/mmol", placeholder: "565", required: true },
-      { id: "albumin", label: "Serum Albumin", type: "number", unit: "g/dL", placeholder: "2.0", required: true },
-      { id: "totalCholesterol", label: "Total Cholesterol", type: "number", unit: "mg/dL", placeholder: "300" },
-      { id: "ldl", label: "LDL Cholesterol", type: "number", unit: "mg/dL", placeholder: "180" },
+      { id: "upcr", label: "UPCR", type: "number", unit: "mg/mmol", unitType: "upcr", placeholder: "565", required: true },
+      { id: "albumin", label: "Serum Albumin", type: "number", unit: "g/dL", unitType: "albumin", placeholder: "2.0", required: true },
+      { id: "totalCholesterol", label: "Total Cholesterol", type: "number", unit: "mg/dL", unitType: "cholesterol", placeholder: "300" },
+      { id: "ldl", label: "LDL Cholesterol", type: "number", unit: "mg/dL", unitType: "cholesterol", placeholder: "180" },
       { id: "edemaStatus", label: "Edema Severity", type: "select", options: [{ value: "none", label: "None" }, { value: "mild", label: "Mild (ankle)" }, { value: "moderate", label: "Moderate (legs, periorbital)" }, { value: "severe", label: "Severe (anasarca, ascites, pleural effusion)" }] },
       { id: "priorVTE", label: "Prior VTE / Known Thrombophilia", type: "select", options: [{ value: "no", label: "No" }, { value: "yes", label: "Yes" }] },
       { id: "memberanousNephropathy", label: "Membranous Nephropathy Diagnosis", type: "select", options: [{ value: "no", label: "No / Unknown" }, { value: "yes", label: "Yes" }] },
     ],
     resultLabel: "Assessment",
     resultUnit: "",
+    compute({ values: v, value }) {
+      // Multi-section assessment — result is albumin (drives thrombotic risk)
+      const albVal = value("albumin");
+      // Pass values in g/g and conventional units so interpretation thresholds work correctly
+      const nephInputs = {
+        ...v,
+        upcr: String(value("upcr")),
+        albumin: String(albVal),
+        totalCholesterol: String(value("totalCholesterol")),
+        ldl: String(value("ldl")),
+      };
+      return { value: albVal, interpretation: this.interpretation(albVal, nephInputs) };
+    },
     interpretation: (value, inputs) => {
       const proteinuria = Number(inputs?.upcr) || 0;
       const alb = Number(inputs?.albumin) || 0;
@@ -4308,6 +6748,23 @@ export const calculators: Calculator[] = [
       "Barbour SJ et al. Kidney Int. 2012;81(2):190-195",
       "KDIGO GN Guideline. Kidney Int. 2021;100(4S):S1-S276",
     ],
+    referenceCases: [
+      {
+        description: "UPCR 450 mg/mmol, albumin 2.0 g/dL",
+        values: {
+          upcr: "450",
+          albumin: "2.0",
+          totalCholesterol: "320",
+          ldl: "200",
+          edemaStatus: "moderate",
+          priorVTE: "no",
+          memberanousNephropathy: "yes",
+        },
+        expected: 2,
+        tolerance: 0,
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Glassock RJ. Clin J Am Soc Nephrol. 2007;2(5):1054-1065 (serum albumin is the result; < 2.5 g/dL raises thrombotic risk)",
+      },
+    ],
   },
   // ============================================================================
   // NEW — CREATININE TRAJECTORY (AKI Recovery)
@@ -4320,16 +6777,37 @@ export const calculators: Calculator[] = [
     whenToUse: "Use to track creatinine trajectory during AKI to predict recovery vs. progression to dialysis.",
     category: "Acute Kidney Injury (AKI) Workup",
     inputs: [
-      { id: "cr1", label: "Creatinine #1 (earliest)", type: "number", unit: "mg/dL", placeholder: "2.0", required: true },
+      { id: "cr1", label: "Creatinine #1 (earliest)", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "2.0", required: true },
       { id: "cr1Time", label: "Time of Cr #1 (hours from admission)", type: "number", unit: "hours", placeholder: "0", required: true },
-      { id: "cr2", label: "Creatinine #2", type: "number", unit: "mg/dL", placeholder: "3.5", required: true },
+      { id: "cr2", label: "Creatinine #2", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "3.5", required: true },
       { id: "cr2Time", label: "Time of Cr #2", type: "number", unit: "hours", placeholder: "24", required: true },
-      { id: "cr3", label: "Creatinine #3 (optional)", type: "number", unit: "mg/dL", placeholder: "3.0" },
+      { id: "cr3", label: "Creatinine #3 (optional)", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "3.0" },
       { id: "cr3Time", label: "Time of Cr #3", type: "number", unit: "hours", placeholder: "48" },
-      { id: "baselineCrTrajectory", label: "Baseline Creatinine (target)", type: "number", unit: "mg/dL", placeholder: "1.0" },
+      { id: "baselineCrTrajectory", label: "Baseline Creatinine (target)", type: "number", unit: "mg/dL", unitType: "creatinine", placeholder: "1.0" },
     ],
     resultLabel: "Slope",
     resultUnit: "mg/dL/day",
+    compute({ num, value }) {
+      const crValues: { creatinine: number; hoursFromFirst: number }[] = [];
+      const cr1 = value("cr1");
+      const cr1Time = num("cr1Time");
+      const cr2 = value("cr2");
+      const cr2Time = num("cr2Time");
+      const cr3 = value("cr3");
+      const cr3Time = num("cr3Time");
+      if (cr1 > 0) crValues.push({ creatinine: cr1, hoursFromFirst: cr1Time });
+      if (cr2 > 0) crValues.push({ creatinine: cr2, hoursFromFirst: cr2Time });
+      if (cr3 > 0 && cr3Time > 0) crValues.push({ creatinine: cr3, hoursFromFirst: cr3Time });
+      const trajResult = calc.creatinineTrajectory(crValues, value("baselineCrTrajectory") || 1.0);
+      let interpretation = this.interpretation(trajResult.slope);
+      if (trajResult.trend === "Falling" && trajResult.projectedBaseline > 0) {
+        interpretation += `\n\nProjected time to baseline: ~${Math.round(trajResult.projectedBaseline / 24)} days (${trajResult.projectedBaseline}h).`;
+      }
+      if (trajResult.trend === "Rising" && trajResult.projectedDialysis > 0) {
+        interpretation += `\n\n⚠ Projected time to dialysis threshold (Cr 6.0): ~${Math.round(trajResult.projectedDialysis / 24)} days (${trajResult.projectedDialysis}h).`;
+      }
+      return { value: trajResult.slope, interpretation };
+    },
     interpretation: (value) => {
       if (Math.abs(value) < 0.1) return `Plateau (slope ${value.toFixed(2)} mg/dL/day) — creatinine stabilizing. AKI may be at peak. Continue supportive care, avoid nephrotoxins, reassess in 12–24h.`;
       if (value > 0) return `Rising (slope +${value.toFixed(2)} mg/dL/day) — AKI progressing. Reassess volume status, obstruction, nephrotoxins. If sustained rise, evaluate for RRT. Consider urgent nephrology consult.`;
@@ -4346,6 +6824,16 @@ export const calculators: Calculator[] = [
       "Chen S. Kidney Int. 2013;83(3):435-438",
       "Waikar SS, Bonventre JV. J Am Soc Nephrol. 2009;20(4):672-679",
     ],
+    referenceCases: [
+      {
+        description: "Creatinine 2.0, 2.5, 3.0 mg/dL at 0, 24, 48 h",
+        values: { cr1: "2.0", cr1Time: "0", cr2: "2.5", cr2Time: "24", cr3: "3.0", cr3Time: "48", baselineCrTrajectory: "1.0" },
+        expected: 0.5,
+        tolerance: 0.01,
+        interpretation: "Rising",
+        citation: "Derived from the cited equation or scoring rules, not a published worked example: Chen S. Kidney Int. 2013;83(3):435-438 (least-squares slope per day)",
+      },
+    ],
   },
 ];
 export function getCalculatorsByCategory(category: string): Calculator[] {
@@ -4358,3 +6846,72 @@ export function getCategories(): string[] {
 export function getCalculatorById(id: string): Calculator | undefined {
   return calculators.find((calc) => calc.id === id);
 }
+export function currentFormulaVersion(calculator: Calculator): string {
+  return calculator.formulaVersion ?? "1";
+}
+/** Every selectable formula version, current first */
+export function getFormulaVersions(calculator: Calculator): { version: string; source: string; current: boolean }[] {
+  return [
+    { version: currentFormulaVersion(calculator), source: calculator.formulaSource ?? calculator.references[0] ?? calculator.name, current: true },
+    ...(calculator.previousVersions ?? []).map(({ version, source }) => ({ version, source, current: false })),
+  ];
+}
+/**
+ * Run a calculator against raw field values and unit selections and build
+ * the structured result consumed by the dashboard, notes and color coding.
+ * Pass a previous `formulaVersion` to reproduce a historical result.
+ */
+export function computeCalculator(
+  calculator: Calculator,
+  values: CalculatorValues,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference,
+  formulaVersion?: string
+): CalculatorResult {
+  const version = getFormulaVersions(calculator).find((v) => v.version === (formulaVersion ?? currentFormulaVersion(calculator)));
+  if (!version) {
+    throw new Error(`${calculator.name} has no formula version "${formulaVersion}"`);
+  }
+  const inputs = createComputeInputs(calculator.inputs, values, units, unitPreference);
+  const formula = version.current ? calculator : calculator.previousVersions!.find((v) => v.version === version.version)!;
+  const output = formula.compute(inputs);
+  const primary: ResultValue | null =
+    output.value === null
+      ? null
+      : { label: calculator.resultLabel, value: output.value, unit: calculator.resultUnit || undefined };
+
+  const warnings = [...(output.warnings ?? [])];
+  for (const input of calculator.inputs) {
+    if (input.type !== "number" || values[input.id] === undefined || values[input.id] === "") continue;
+    const entered = inputs.value(input.id);
+    const unit = unitLabel(getUnitType(input)?.canonical ?? input.unit ?? "");
+    if ((input.min !== undefined && entered < input.min) || (input.max !== undefined && entered > input.max)) {
+      warnings.push(`${input.label} ${entered}${unit ? " " + unit : ""} is outside the expected range (${input.min ?? "–"}–${input.max ?? "–"}).`);
+    }
+  }
+  warnings.push(...checkPlausibility(calculator, values, units, unitPreference).map((issue) => issue.message));
+  // A non-finite result (e.g. creatinine 0) must not be colored or interpreted as if it were a value
+  const finite = primary !== null && Number.isFinite(primary.value);
+  if (primary && !finite) {
+    warnings.push("Result is not a finite number. Check that all required inputs are filled in.");
+  }
+
+  return {
+    ...(output.detail ?? { kind: "value" }),
+    calculatorId: calculator.id,
+    primary,
+    secondary: output.secondary ?? [],
+    severity: finite ? getValueColorCoding(calculator.id, primary!.value, values)?.severity ?? "neutral" : "neutral",
+    interpretation: primary && !finite ? "" : output.interpretation ?? (primary ? calculator.interpretation(primary.value, values) : ""),
+    warnings,
+    summary: output.summary ?? (primary ? primary.value.toFixed(2) + (calculator.resultUnit ? " " + calculator.resultUnit : "") : ""),
+    provenance: {
+      calculatorId: calculator.id,
+      calculatorName: calculator.name,
+      formulaVersion: version.version,
+      formulaSource: version.source,
+      references: calculator.references,
+      computedAt: new Date().toISOString(),
+    },
+  };
+}
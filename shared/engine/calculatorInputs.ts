@@ -0,0 +1,109 @@
+/**
+ * Calculator Input Normalization
+ * Unit selections for inputs that declare a unit type in unitRegistry.ts,
+ * and the helpers compute functions use to read entered values in the
+ * type's canonical unit.
+ */
+import type { CalculatorInput } from "./calculatorData";
+import { convertUnit, unitTypes, type UnitType } from "./unitRegistry";
+
+/** Raw calculator field values keyed by input id */
+export interface CalculatorValues {
+  [inputId: string]: string | number | boolean;
+}
+
+/** Per-input unit selections under unitKey(): a unit, or "conventional" | "si" for two-unit toggles */
+export interface CalculatorUnits {
+  [inputId: string]: string;
+}
+
+export type UnitPreference = "conventional" | "si";
+
+/** Unit type an input declares, if any */
+export function getUnitType(input: CalculatorInput): UnitType | undefined {
+  return input.unitType ? unitTypes[input.unitType] : undefined;
+}
+
+/** Whether the input offers a choice of units */
+export function hasUnitToggle(input: CalculatorInput): boolean {
+  return (getUnitType(input)?.units.length ?? 0) > 1;
+}
+
+/** Key the input's unit selection is stored under; BUN/Urea toggles keep their historical suffix */
+export function unitKey(input: CalculatorInput): string {
+  return input.unitType === "bunUrea" ? `${input.id}_bunUrea` : input.id;
+}
+
+/** Unit an input is entered in: its stored selection, otherwise the global preference */
+export function selectedUnit(input: CalculatorInput, units: CalculatorUnits, unitPreference: UnitPreference): string {
+  const type = getUnitType(input);
+  if (!type) return input.unit ?? "";
+  const stored = units[unitKey(input)];
+  if (stored && type.units.includes(stored)) return stored;
+  if (stored === "conventional" || stored === "si") {
+    return type.preference?.[stored] ?? type.units[stored === "si" ? 1 : 0] ?? type.units[0];
+  }
+  return type.preference?.[unitPreference] ?? type.units[0];
+}
+
+/** What to store under unitKey() when the user picks a unit */
+export function unitSelection(input: CalculatorInput, unit: string): string {
+  const type = getUnitType(input);
+  if (type?.preference && type.units.length === 2) {
+    return unit === type.preference.si ? "si" : "conventional";
+  }
+  return unit;
+}
+
+/** Every value unitKey() may hold for this input */
+export function unitSelections(input: CalculatorInput): string[] {
+  const type = getUnitType(input);
+  if (!type) return [];
+  return type.preference || type.units.length === 2 ? ["conventional", "si", ...type.units] : [...type.units];
+}
+
+/**
+ * Typed accessors handed to each calculator's compute function.
+ * Everything returned by value() is already in the canonical unit of the
+ * input's unit type (conventional units, BUN in mg/dL).
+ */
+export interface ComputeInputs {
+  values: CalculatorValues;
+  units: CalculatorUnits;
+  /** Numeric value of an input as entered, 0 when empty or not a number */
+  num: (inputId: string) => number;
+  /** Numeric value converted from the selected unit to the canonical one */
+  value: (inputId: string) => number;
+}
+
+export function createComputeInputs(
+  inputs: CalculatorInput[],
+  values: CalculatorValues,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference
+): ComputeInputs {
+  const byId = new Map(inputs.map((input) => [input.id, input]));
+  const num = (inputId: string) => Number(values[inputId]) || 0;
+
+  const value = (inputId: string) => {
+    const raw = num(inputId);
+    const input = byId.get(inputId);
+    const type = input && getUnitType(input);
+    if (!input || !type) return raw;
+    return convertUnit(type.analyte, raw, selectedUnit(input, units, unitPreference), type.canonical);
+  };
+
+  return { values, units, num, value };
+}
+
+/** Inverse of value(): express a canonical-unit value in the unit currently selected for an input */
+export function fromCanonical(
+  input: CalculatorInput,
+  canonical: number,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference
+): number {
+  const type = getUnitType(input);
+  if (!type) return canonical;
+  return convertUnit(type.analyte, canonical, type.canonical, selectedUnit(input, units, unitPreference));
+}
@@ -0,0 +1,137 @@
+/**
+ * Calculator Schemas
+ * Serializable descriptions of calculators and their inputs, plus request
+ * validation, for consumers outside the dashboard (REST API, integrations).
+ */
+import { getFormulaVersions, type Calculator, type CalculatorInput, type ReferenceRange } from "./calculatorData";
+import {
+  getUnitType,
+  hasUnitToggle,
+  unitKey,
+  unitSelections,
+  type CalculatorUnits,
+  type CalculatorValues,
+} from "./calculatorInputs";
+
+export interface CalculatorInputSchema extends CalculatorInput {
+  /** Unit toggle; send one of `selections` under `key` in the request's units */
+  units?: {
+    key: string;
+    /** A unit, or "conventional" | "si" to follow the global preference */
+    selections: string[];
+    /** Unit the formula works in */
+    canonical: string;
+  };
+}
+
+export interface CalculatorSchema {
+  id: string;
+  name: string;
+  description: string;
+  whenToUse?: string;
+  category: string;
+  resultLabel: string;
+  resultUnit?: string;
+  inputs: CalculatorInputSchema[];
+  referenceRanges?: ReferenceRange[];
+  references: string[];
+  /** Selectable formula versions, current first; send `formulaVersion` to compute with an earlier one */
+  formulaVersions: { version: string; source: string; current: boolean }[];
+}
+
+export function describeCalculator(calculator: Calculator): CalculatorSchema {
+  return {
+    id: calculator.id,
+    name: calculator.name,
+    description: calculator.description,
+    whenToUse: calculator.whenToUse,
+    category: calculator.category,
+    resultLabel: calculator.resultLabel,
+    resultUnit: calculator.resultUnit,
+    inputs: calculator.inputs.map((input) => ({
+      ...input,
+      units: hasUnitToggle(input)
+        ? { key: unitKey(input), selections: unitSelections(input), canonical: getUnitType(input)!.canonical }
+        : undefined,
+    })),
+    referenceRanges: calculator.referenceRanges,
+    references: calculator.references,
+    formulaVersions: getFormulaVersions(calculator),
+  };
+}
+
+/** Fill empty inputs with their declared defaults (score inputs default to 0) */
+export function withInputDefaults(calculator: Calculator, values: CalculatorValues): CalculatorValues {
+  const filled: CalculatorValues = { ...values };
+  for (const input of calculator.inputs) {
+    if (filled[input.id] != null && filled[input.id] !== "") continue;
+    if (input.type === "score") {
+      filled[input.id] = input.default ?? 0;
+    } else if (input.default !== undefined) {
+      filled[input.id] = input.default;
+    }
+  }
+  return filled;
+}
+
+// Inputs that are only required for some values of another input
+const conditionallyRequired: Record<string, Record<string, (values: CalculatorValues) => boolean>> = {
+  // Bleeding severity does not apply to surgery indications in anticoag reversal
+  anticoagReversal: {
+    bleedingSeverity: (values) => values.indication !== "urgent-surgery" && values.indication !== "elective",
+  },
+};
+
+/**
+ * Whether an input must be filled in. Without values, conditionally required
+ * inputs count as optional.
+ */
+export function isInputRequired(calculator: Calculator, input: CalculatorInput, values?: CalculatorValues): boolean {
+  if (!input.required) return false;
+  // Skip unit selector inputs
+  if (input.id.endsWith("Unit")) return false;
+  const condition = conditionallyRequired[calculator.id]?.[input.id];
+  if (condition) return values ? condition(values) : false;
+  return true;
+}
+
+/** Required inputs that are still empty; the dashboard disables Calculate until this is empty */
+export function getMissingRequiredInputs(calculator: Calculator, values: CalculatorValues): CalculatorInput[] {
+  return calculator.inputs.filter(
+    (input) => isInputRequired(calculator, input, values) && (values[input.id] == null || values[input.id] === "")
+  );
+}
+
+/**
+ * Check raw values and unit selections against a calculator's inputs.
+ * Returns a list of problems; an empty list means the request can be computed.
+ */
+export function validateCalculatorValues(
+  calculator: Calculator,
+  values: CalculatorValues,
+  units: CalculatorUnits = {}
+): string[] {
+  const errors = getMissingRequiredInputs(calculator, values).map((input) => `${input.id}: required`);
+
+  for (const input of calculator.inputs) {
+    const raw = values[input.id];
+    if (raw === undefined || raw === null || raw === "") continue;
+
+    if (input.type === "number" && !Number.isFinite(Number(raw))) {
+      errors.push(`${input.id}: must be a number`);
+    }
+    if ((input.type === "select" || input.type === "radio") && input.options && !input.options.some((o) => o.value === String(raw))) {
+      errors.push(`${input.id}: must be one of ${input.options.map((o) => o.value).join(", ")}`);
+    }
+  }
+
+  for (const input of calculator.inputs.filter(hasUnitToggle)) {
+    const key = unitKey(input);
+    const unit = units[key];
+    if (unit !== undefined && !unitSelections(input).includes(unit)) {
+      errors.push(`${key}: must be one of ${unitSelections(input).join(", ")}`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,385 @@
+import { describe, expect, it } from "vitest";
+import fc from "fast-check";
+import * as calc from "./calculators";
+import { calculators, computeCalculator, currentFormulaVersion, getCalculatorById, getFormulaVersions } from "./calculatorData";
+import {
+  createComputeInputs,
+  fromCanonical,
+  getUnitType,
+  hasUnitToggle,
+  unitKey,
+  unitSelection,
+  type CalculatorUnits,
+} from "./calculatorInputs";
+import { getRecommendationKey, getRecommendations } from "./clinicalRecommendations";
+import { checkSeverityConsistency } from "./severityConsistency";
+import { bandInterpretation, getSeverityBand, severityBands } from "./severityBands";
+
+// Property tests: fast-check shrinks any failure to a minimal counterexample
+
+const sex = fc.constantFrom("M" as const, "F" as const);
+const adultAge = fc.integer({ min: 18, max: 100 });
+const flags = (n: number) => fc.array(fc.boolean(), { minLength: n, maxLength: n });
+const between = (min: number, max: number) => fc.double({ min, max, noNaN: true });
+
+describe("eGFR and clearance", () => {
+  // The equation is strictly decreasing, but eGFR is reported to the whole mL/min/1.73m², so two
+  // close creatinine values can round to the same result. The result must never rise, and must
+  // fall whenever the unrounded eGFR falls by more than 1, which rounding cannot hide.
+  it("CKD-EPI creatinine is strictly decreasing in creatinine", () => {
+    fc.assert(
+      fc.property(between(0.2, 15), between(0.2, 15), adultAge, sex, (a, b, age, s) => {
+        const [low, high] = a < b ? [a, b] : [b, a];
+        const [lowEgfr, highEgfr] = [calc.ckdEpiCreatinine(low, age, s), calc.ckdEpiCreatinine(high, age, s)];
+        expect(highEgfr).toBeLessThanOrEqual(lowEgfr);
+        // eGFR falls at least as fast as creatinine^-0.241, and the unrounded eGFR is at least lowEgfr - 0.5
+        const minimumFall = (lowEgfr - 0.5) * (1 - (high / low) ** -0.241);
+        if (minimumFall > 1) expect(highEgfr).toBeLessThan(lowEgfr);
+      })
+    );
+  });
+
+  it("MDRD, EKFC and bedside Schwartz decrease as creatinine doubles", () => {
+    fc.assert(
+      fc.property(between(0.3, 6), adultAge, sex, between(50, 180), (cr, age, s, height) => {
+        expect(calc.mdrdGfr(2 * cr, age, s)).toBeLessThan(calc.mdrdGfr(cr, age, s));
+        expect(calc.ekfcCreatinine(2 * cr, age, s)).toBeLessThan(calc.ekfcCreatinine(cr, age, s));
+        expect(calc.schwartzPediatric(2 * cr, height)).toBeLessThan(calc.schwartzPediatric(cr, height));
+      })
+    );
+  });
+
+  it("CKD-EPI creatinine-cystatin C decreases as either marker doubles", () => {
+    fc.assert(
+      fc.property(between(0.3, 6), between(0.5, 4), adultAge, sex, (cr, cys, age, s) => {
+        const egfr = calc.ckdEpiCystatinC(cr, cys, age, s);
+        expect(calc.ckdEpiCystatinC(2 * cr, cys, age, s)).toBeLessThan(egfr);
+        expect(calc.ckdEpiCystatinC(cr, 2 * cys, age, s)).toBeLessThan(egfr);
+      })
+    );
+  });
+
+  it("Cockcroft-Gault never falls as weight rises", () => {
+    fc.assert(
+      fc.property(between(0.3, 10), adultAge, between(30, 200), between(30, 200), sex, (cr, age, a, b, s) => {
+        const [light, heavy] = a < b ? [a, b] : [b, a];
+        expect(calc.cockcrofGault(cr, age, heavy, s)).toBeGreaterThanOrEqual(calc.cockcrofGault(cr, age, light, s));
+      })
+    );
+  });
+
+  it("Cockcroft-Gault increases as weight doubles", () => {
+    fc.assert(
+      fc.property(between(0.3, 4), fc.integer({ min: 18, max: 90 }), between(30, 150), sex, (cr, age, weight, s) => {
+        expect(calc.cockcrofGault(cr, age, 2 * weight, s)).toBeGreaterThan(calc.cockcrofGault(cr, age, weight, s));
+      })
+    );
+  });
+
+  // Only values that survive the unit round trip exactly, so float noise can't flip a rounding step
+  it("gives the same result for creatinine in mg/dL and μmol/L", () => {
+    fc.assert(
+      fc.property(between(0.2, 15), adultAge, sex, between(30, 200), (cr, age, s, weight) => {
+        const si = cr * 88.4;
+        fc.pre(si / 88.4 === cr);
+        expect(calc.ckdEpiCreatinine(si, age, s, "Other", "μmol/L")).toBe(calc.ckdEpiCreatinine(cr, age, s));
+        expect(calc.mdrdGfr(si, age, s, "Other", "μmol/L")).toBe(calc.mdrdGfr(cr, age, s));
+        expect(calc.cockcrofGault(si, age, weight, s, "μmol/L")).toBe(calc.cockcrofGault(cr, age, weight, s));
+        expect(calc.ekfcCreatinine(si, age, s, "μmol/L")).toBe(calc.ekfcCreatinine(cr, age, s));
+      })
+    );
+  });
+
+  it.each(["0", "-1", ""])("leaves a non-finite eGFR for creatinine %j uncolored and uninterpreted", (creatinine) => {
+    const result = computeCalculator(getCalculatorById("ckd-epi-creatinine")!, { creatinine, age: "55", sex: "M" }, {}, "conventional");
+    expect(Number.isFinite(result.primary?.value)).toBe(false);
+    expect(result.severity).toBe("neutral");
+    expect(result.interpretation).toBe("");
+    expect(result.warnings).toContain("Result is not a finite number. Check that all required inputs are filled in.");
+  });
+});
+
+describe("body size", () => {
+  it("BMI and BSA are positive and finite for positive weight and height", () => {
+    fc.assert(
+      fc.property(between(1, 300), between(40, 230), (weight, height) => {
+        for (const result of [calc.bmi(weight, height), calc.bsaDuBois(weight, height), calc.bsaMosteller(weight, height)]) {
+          expect(Number.isFinite(result)).toBe(true);
+          expect(result).toBeGreaterThan(0);
+        }
+      })
+    );
+  });
+
+  it("BMI and BSA agree for height in cm and inches", () => {
+    fc.assert(
+      fc.property(between(1, 300), between(40, 230), (weight, height) => {
+        const inches = height / 2.54;
+        fc.pre(inches * 2.54 === height);
+        expect(calc.bsaDuBois(weight, inches, "in")).toBe(calc.bsaDuBois(weight, height));
+        expect(calc.bsaMosteller(weight, inches, "in")).toBe(calc.bsaMosteller(weight, height));
+      })
+    );
+  });
+});
+
+describe("scores stay within their documented range", () => {
+  it("SLEDAI-2K is 0–105", () => {
+    fc.assert(
+      fc.property(flags(24), (f) => {
+        const score = calc.sledai2k(...(f as Parameters<typeof calc.sledai2k>));
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(105);
+      })
+    );
+  });
+
+  it("FRAIL is 0–5 and PRISMA-7 is 0–7", () => {
+    fc.assert(
+      fc.property(flags(5), flags(7), (frail, prisma) => {
+        expect(calc.frailScale(...(frail as Parameters<typeof calc.frailScale>))).toBeLessThanOrEqual(5);
+        expect(calc.prisma7(...(prisma as Parameters<typeof calc.prisma7>))).toBeLessThanOrEqual(7);
+      })
+    );
+  });
+
+  it("CURB-65 is 0–5 and agrees for BUN in mg/dL and mmol/L", () => {
+    fc.assert(
+      fc.property(
+        fc.boolean(),
+        between(1, 150),
+        fc.integer({ min: 5, max: 60 }),
+        fc.integer({ min: 50, max: 220 }),
+        fc.integer({ min: 30, max: 130 }),
+        adultAge,
+        (confusion, bun, rr, sbp, dbp, age) => {
+          const score = calc.curb65(confusion, bun, rr, sbp, dbp, age);
+          expect(score).toBeGreaterThanOrEqual(0);
+          expect(score).toBeLessThanOrEqual(5);
+          const mmol = bun / 2.8;
+          fc.pre(mmol * 2.8 === bun);
+          expect(calc.curb65(confusion, mmol, rr, sbp, dbp, age, "mmol/L")).toBe(score);
+        }
+      )
+    );
+  });
+
+  it("CHA₂DS₂-VASc is 0–9", () => {
+    fc.assert(
+      fc.property(flags(5), adultAge, sex, ([chf, htn, dm, stroke, vascular], age, s) => {
+        const { score } = calc.cha2ds2vasc(chf, htn, age, dm, stroke, vascular, s);
+        expect(score).toBeGreaterThanOrEqual(0);
+        expect(score).toBeLessThanOrEqual(9);
+      })
+    );
+  });
+
+  it("Wells PE is 0–12.5 and Wells DVT is −2 to 9", () => {
+    fc.assert(
+      fc.property(flags(7), flags(10), (pe, dvt) => {
+        const wellsPe = calc.wellsPE(...(pe as Parameters<typeof calc.wellsPE>)).score;
+        const wellsDvt = calc.wellsDVT(...(dvt as Parameters<typeof calc.wellsDVT>)).score;
+        expect(wellsPe).toBeGreaterThanOrEqual(0);
+        expect(wellsPe).toBeLessThanOrEqual(12.5);
+        expect(wellsDvt).toBeGreaterThanOrEqual(-2);
+        expect(wellsDvt).toBeLessThanOrEqual(9);
+      })
+    );
+  });
+
+  it("GCS is 3–15 and qSOFA is 0–3", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 4 }),
+        fc.integer({ min: 1, max: 5 }),
+        fc.integer({ min: 1, max: 6 }),
+        fc.integer({ min: 5, max: 60 }),
+        fc.integer({ min: 50, max: 220 }),
+        (eye, verbal, motor, rr, sbp) => {
+          const gcs = calc.glasgowComaScale(eye, verbal, motor).score;
+          expect(gcs).toBeGreaterThanOrEqual(3);
+          expect(gcs).toBeLessThanOrEqual(15);
+          const { score } = calc.qsofa(rr, sbp, gcs);
+          expect(score).toBeGreaterThanOrEqual(0);
+          expect(score).toBeLessThanOrEqual(3);
+        }
+      )
+    );
+  });
+
+  it("NEWS2 is 0–20", () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 4, max: 60 }),
+        fc.integer({ min: 60, max: 100 }),
+        fc.boolean(),
+        fc.integer({ min: 50, max: 250 }),
+        fc.integer({ min: 20, max: 200 }),
+        between(32, 42),
+        fc.constantFrom("A" as const, "C" as const, "V" as const, "P" as const, "U" as const),
+        (rr, spo2, o2, sbp, hr, temp, avpu) => {
+          const { score } = calc.news2(rr, spo2, o2, sbp, hr, temp, avpu);
+          expect(score).toBeGreaterThanOrEqual(0);
+          expect(score).toBeLessThanOrEqual(20);
+        }
+      )
+    );
+  });
+
+  it("SOFA is 0–24 and agrees for bilirubin and creatinine in either unit", () => {
+    fc.assert(
+      fc.property(
+        between(40, 500),
+        between(0.21, 1),
+        fc.integer({ min: 5, max: 500 }),
+        between(0.1, 20),
+        fc.integer({ min: 30, max: 120 }),
+        fc.constantFrom("none" as const, "dopa_low" as const, "dopa_mid" as const, "dopa_high" as const),
+        fc.integer({ min: 3, max: 15 }),
+        between(0.3, 10),
+        fc.integer({ min: 0, max: 3000 }),
+        (pao2, fio2, platelets, bili, map, pressor, gcs, cr, urine) => {
+          const { score } = calc.sofa(pao2, fio2, platelets, bili, "mg/dL", map, pressor, gcs, cr, "mg/dL", urine);
+          expect(score).toBeGreaterThanOrEqual(0);
+          expect(score).toBeLessThanOrEqual(24);
+          fc.pre(Number.isFinite(bili * 17.1) && (cr * 88.4) / 88.4 === cr);
+          expect(calc.sofa(pao2, fio2, platelets, bili * 17.1, "μmol/L", map, pressor, gcs, cr * 88.4, "μmol/L", urine).score).toBe(score);
+        }
+      )
+    );
+  });
+
+  it("BVAS v3 is 0–63 over every combination of its items", () => {
+    const itemIds = getCalculatorById("bvas-v3")!.inputs.map((input) => input.id);
+    fc.assert(
+      fc.property(flags(itemIds.length), (f) => {
+        const { total } = calc.bvasV3(Object.fromEntries(itemIds.map((id, i) => [id, f[i]])));
+        expect(total).toBeGreaterThanOrEqual(0);
+        expect(total).toBeLessThanOrEqual(63);
+      })
+    );
+  });
+});
+
+// Every unit-switchable input of every calculator, starting from its reference cases
+const unitCases = calculators.flatMap((calculator) =>
+  (calculator.referenceCases ?? []).flatMap((referenceCase, caseIndex) =>
+    calculator.inputs
+      .filter((input) => input.type === "number" && hasUnitToggle(input))
+      .filter((input) => Number(referenceCase.values[input.id]) > 0)
+      .map((input) => [`${calculator.id} #${caseIndex + 1} ${input.id}`, calculator, referenceCase, input] as const)
+  )
+);
+
+describe("Unit entry", () => {
+  it.each(unitCases)("%s gives the same result in every unit", (_name, calculator, referenceCase, input) => {
+    const type = getUnitType(input)!;
+    const withUnit = (unit: string): CalculatorUnits => ({ ...referenceCase.units, [unitKey(input)]: unitSelection(input, unit) });
+    const base = createComputeInputs(calculator.inputs, referenceCase.values, referenceCase.units ?? {}, "conventional").value(input.id);
+
+    fc.assert(
+      fc.property(between(0.5, 2), fc.constantFrom(...type.units), (scale, unit) => {
+        const canonical = base * scale;
+        const units = withUnit(unit);
+        const entered = fromCanonical(input, canonical, units, "conventional");
+        const read = createComputeInputs(calculator.inputs, { [input.id]: entered }, units, "conventional");
+        fc.pre(read.value(input.id) === canonical);
+
+        const expected = computeCalculator(calculator, { ...referenceCase.values, [input.id]: canonical }, withUnit(type.canonical), "conventional");
+        const actual = computeCalculator(calculator, { ...referenceCase.values, [input.id]: entered }, units, "conventional");
+        expect(actual.primary?.value).toBe(expected.primary?.value);
+      })
+    );
+  });
+
+  it("FEUrea is the same whichever unit both urea levels are reported in", () => {
+    const calculator = getCalculatorById("feurea")!;
+    const [urine, plasma] = ["urineUrea", "plasmaUrea"].map((id) => calculator.inputs.find((i) => i.id === id)!);
+    const values = { plasmaCr: "2.0", urineCr: "100" };
+
+    for (const unit of getUnitType(plasma)!.units) {
+      const units = { [unitKey(urine)]: unitSelection(urine, unit), [unitKey(plasma)]: unitSelection(plasma, unit) };
+      const entered = { urineUrea: fromCanonical(urine, 300, units, "conventional"), plasmaUrea: fromCanonical(plasma, 60, units, "conventional") };
+      expect(computeCalculator(calculator, { ...values, ...entered }, units, "conventional").primary?.value).toBeCloseTo(10, 10);
+    }
+  });
+
+  it("PD weekly Kt/V is the same whichever unit both urea levels are reported in", () => {
+    const calculator = getCalculatorById("pd-weekly-ktv")!;
+    const [dialysate, plasma] = ["dailyDialysateUrea", "plasmaUrea"].map((id) => calculator.inputs.find((i) => i.id === id)!);
+    const values = { dialysateVolume: "8", weight: "70", sex: "M", residualKtv: "0" };
+
+    for (const unit of getUnitType(plasma)!.units) {
+      const units = { [unitKey(dialysate)]: unitSelection(dialysate, unit), [unitKey(plasma)]: unitSelection(plasma, unit) };
+      const entered = {
+        dailyDialysateUrea: fromCanonical(dialysate, 54, units, "conventional"),
+        plasmaUrea: fromCanonical(plasma, 60, units, "conventional"),
+      };
+      expect(computeCalculator(calculator, { ...values, ...entered }, units, "conventional").primary?.value).toBeCloseTo(1.2, 10);
+    }
+    // Both follow the global SI preference
+    const si = { ...values, dailyDialysateUrea: "19.28", plasmaUrea: "21.42" };
+    expect(computeCalculator(calculator, si, {}, "si").primary?.value).toBeCloseTo(1.2, 3);
+  });
+});
+
+describe("formula versions", () => {
+  // Result under formula version 1 and under the current version
+  const versions = (id: string, values: Record<string, string>, units: CalculatorUnits = {}) =>
+    ["1", undefined].map((version) => computeCalculator(getCalculatorById(id)!, values, units, "conventional", version).primary?.value);
+
+  it("every superseded version stays selectable", () => {
+    for (const calculator of calculators.filter((c) => c.formulaVersion)) {
+      const selectable = getFormulaVersions(calculator).map((v) => v.version);
+      for (let version = 1; version < Number(currentFormulaVersion(calculator)); version++) {
+        expect(selectable, calculator.id).toContain(String(version));
+      }
+    }
+  });
+
+  it("version 1 reproduces results computed before each fix", () => {
+    expect(versions("standard-ktv", { spKtv: "1.4", sessionTime: "4", sessionsPerWeek: "3" })).toEqual([1.4, 2.18]);
+    expect(versions("lean-body-weight", { weight: "200", height: "170", sex: "M" })).toEqual([42.8, 85.7]);
+    // Version 1 read urea levels as entered, whatever unit was selected
+    const pd = { dailyDialysateUrea: "19.28", plasmaUrea: "60", dialysateVolume: "8", weight: "70", sex: "M" };
+    expect(versions("pd-weekly-ktv", pd, { dailyDialysateUrea_bunUrea: "BUN (mmol/L)" })).toEqual([0.43, 1.2]);
+    const feurea = { urineUrea: "300", plasmaCr: "2.0", plasmaUrea: "21.42", urineCr: "100" };
+    expect(versions("feurea", feurea, { plasmaUrea_bunUrea: "BUN (mmol/L)" })).toEqual([28.01, 10]);
+  });
+
+  it("version 1 agrees with the current formula where the fix made no difference", () => {
+    const [fasV1, fas] = versions("fas-full-age-spectrum", { creatinine: "0.7", age: "30", sex: "F" });
+    expect(fasV1).toBe(fas);
+    const [bvasV1, bvas] = versions("bvas-v3", { fever: "on", hematuria: "on" });
+    expect(bvasV1).toBe(bvas);
+    expect(versions("prisma-7", { age85: "on", socialSupport: "on" })).toEqual([2, 2]);
+  });
+
+  it("PRISMA-7 question 6 scores a no, and scored a yes under version 1", () => {
+    expect(versions("prisma-7", { age85: "on", socialSupport: "no" })).toEqual([1, 2]);
+    expect(versions("prisma-7", { age85: "on", socialSupport: "yes" })).toEqual([2, 1]);
+  });
+});
+
+describe("severity bands", () => {
+  it("interpretation, color coding and recommendations agree for every calculator", () => {
+    expect(checkSeverityConsistency()).toEqual([]);
+  });
+
+  it("Mehran-2 recommendations follow the 4/8/11 risk thresholds", () => {
+    const urgency = (score: number) => getRecommendations("cin-mehran-score", getRecommendationKey("cin-mehran-score", score)!)?.urgency;
+    expect([4, 5, 8, 9, 11, 12].map(urgency)).toEqual(["routine", "routine", "routine", "urgent", "urgent", "emergent"]);
+  });
+
+  it.each([NaN, Infinity, -Infinity])("no calculator has a band for %d", (value) => {
+    for (const calculatorId of Object.keys(severityBands)) {
+      expect(getSeverityBand(calculatorId, value), calculatorId).toBeNull();
+      expect(bandInterpretation(calculatorId)(value)).toBe("");
+      expect(getRecommendationKey(calculatorId, value), calculatorId).toBeNull();
+    }
+  });
+
+  it("ASCVD results get recommendations", () => {
+    expect(getRecommendations("ascvd-risk", getRecommendationKey("ascvd-risk", 25)!)?.urgency).toBe("urgent");
+  });
+});
@@ -4,37 +4,6 @@
  * Last Updated: February 4, 2026
  */
 
-// ============================================================================
-// UNIT CONVERSION HELPERS
-// ============================================================================
-
-export const unitConversions = {
-  creatinine: {
-    toSI: (conventional: number) => conventional * 88.4,
-    toConventional: (si: number) => si / 88.4,
-  },
-  glucose: {
-    toSI: (conventional: number) => conventional / 18,
-    toConventional: (si: number) => si * 18,
-  },
-  albumin: {
-    toSI: (conventional: number) => conventional * 10,
-    toConventional: (si: number) => si / 10,
-  },
-  bun: {
-    toSI: (conventional: number) => conventional / 2.8,
-    toConventional: (si: number) => si * 2.8,
-  },
-  phosphate: {
-    toSI: (conventional: number) => conventional / 3.1,
-    toConventional: (si: number) => si * 3.1,
-  },
-  calcium: {
-    toSI: (conventional: number) => conventional / 4,
-    toConventional: (si: number) => si * 4,
-  },
-};
-
 // ============================================================================
 // 1. KIDNEY FUNCTION & CKD RISK CALCULATORS
 // ============================================================================
@@ -70,6 +39,34 @@ export function ckdEpiCreatinine(
   return Math.round(eGFR);
 }
 
+export function ckdEpiCreatinine2009(
+  creatinine: number,
+  age: number,
+  sex: "M" | "F",
+  race: "Black" | "Other" = "Other",
+  creatinineUnit: "mg/dL" | "μmol/L" = "mg/dL"
+): number {
+  // CKD-EPI 2009 Equation (superseded by the race-free 2021 refit)
+  // Reference: Levey AS et al. Ann Intern Med. 2009;150(9):604-612
+
+  let scr = creatinineUnit === "μmol/L" ? creatinine / 88.4 : creatinine;
+
+  const kappa = sex === "F" ? 0.7 : 0.9;
+  const alpha = sex === "F" ? -0.329 : -0.411;
+  const sexMultiplier = sex === "F" ? 1.018 : 1.0;
+  const raceMultiplier = race === "Black" ? 1.159 : 1.0;
+
+  const eGFR =
+    141 *
+    Math.pow(Math.min(scr / kappa, 1), alpha) *
+    Math.pow(Math.max(scr / kappa, 1), -1.209) *
+    Math.pow(0.993, age) *
+    sexMultiplier *
+    raceMultiplier;
+
+  return Math.round(eGFR);
+}
+
 export function mdrdGfr(
   creatinine: number,
   age: number,
@@ -651,15 +648,32 @@ export function standardKtv(
   sessionsPerWeek: number = 3,
   residualKtv: number = 0
 ): number {
-  // Standard Kt/V per Casino-Lopez (Gotch) formula
-  // Accounts for frequency, session length, and urea generation rate
-  // stdKt/V = (10080 / Tinterval) * (1 - exp(-eKtV)) / (1 - exp(-eKtV) * Tinterval/10080)
-  // Simplified Leypoldt formula for thrice-weekly HD:
-  // stdKt/V ≈ (10080 * (1 - exp(-eKtV))) / (T_interval - T_session + (10080 / (eKtV * N)) * (1 - exp(-eKtV)))
-  // Using the NKF-KDOQI recommended approximation:
+  // Standard Kt/V per Leypoldt (KDOQI 2015 Hemodialysis Adequacy Update)
+  // stdKt/V = [10080 × (1 - e^-eKt/V) / t] / [(1 - e^-eKt/V) / eKt/V + 10080 / (N × t) - 1]
+  // t = session length in minutes, N = sessions per week, 10080 = minutes per week
   const eKtv = spKtv - (0.6 * spKtv) / sessionTime + 0.03;
   const tSession = sessionTime * 60; // convert hours to minutes
-  const tInterval = 10080 / sessionsPerWeek; // minutes between sessions (10080 = minutes/week)
+  const removed = 1 - Math.exp(-eKtv);
+
+  const numerator = (10080 * removed) / tSession;
+  const denominator = removed / eKtv + 10080 / (sessionsPerWeek * tSession) - 1;
+
+  const stdKtv = (numerator / denominator) + residualKtv;
+
+  return Math.round(stdKtv * 100) / 100;
+}
+
+export function standardKtvV1(
+  spKtv: number,
+  sessionTime: number, // Session time in hours
+  sessionsPerWeek: number = 3,
+  residualKtv: number = 0
+): number {
+  // Formula version 1 (superseded by Leypoldt): an interval-based approximation
+  // that returned roughly spKt/V instead of the weekly standard Kt/V
+  const eKtv = spKtv - (0.6 * spKtv) / sessionTime + 0.03;
+  const tSession = sessionTime * 60;
+  const tInterval = 10080 / sessionsPerWeek;
 
   const numerator = 10080 * (1 - Math.exp(-eKtv));
   const denominator = tInterval - tSession + (10080 / (eKtv * sessionsPerWeek)) * (1 - Math.exp(-eKtv));
@@ -780,6 +794,8 @@ export function kdpi(
   // Convert KDRI to KDPI using official OPTN mapping table (April 2025)
   // Reference: https://www.hrsa.gov/sites/default/files/hrsa/optn/kdpi_mapping_table.pdf
   // KDPI is the percentile rank of KDRI_SCALED based on 2024 reference population
+  // When OPTN publishes a new table, bump the kdpi formulaVersion and formulaSource
+  // in calculatorData so saved results computed under this one are flagged
   let kdpi: number;
   
   // Full-precision OPTN KDRI-to-KDPI mapping table (April 2025)
@@ -1141,6 +1157,28 @@ export function leanBodyWeight(
 ): number {
   let heightCm = heightUnit === "in" ? height * 2.54 : height;
 
+  // Janmahasatian formula, which unlike James stays valid at high BMI
+  const bmi = weight / (heightCm / 100) ** 2;
+  let lbw;
+  if (sex === "M") {
+    lbw = (9270 * weight) / (6680 + 216 * bmi);
+  } else {
+    lbw = (9270 * weight) / (8780 + 244 * bmi);
+  }
+
+  return Math.round(lbw * 10) / 10;
+}
+
+export function leanBodyWeightJames(
+  weight: number,
+  height: number,
+  sex: "M" | "F",
+  heightUnit: "cm" | "in" = "cm"
+): number {
+  // James formula (formula version 1, superseded by Janmahasatian); falls and
+  // then goes negative as BMI rises
+  let heightCm = heightUnit === "in" ? height * 2.54 : height;
+
   let lbw;
   if (sex === "M") {
     lbw = 1.1 * weight - 128 * (weight / heightCm) ** 2;
@@ -1273,7 +1311,7 @@ export function prisma7(
   if (healthLimitActivities) score += 1; // Q3: Health problems that limit activities?
   if (needHelp) score += 1;        // Q4: Need someone to help on a regular basis?
   if (healthStayHome) score += 1;  // Q5: Health problems that require staying at home?
-  if (socialSupport) score += 1;   // Q6: Can you count on someone close to you? (Yes = 1 point)
+  if (socialSupport) score += 1;   // Q6: Can you count on someone close to you? (No = 1 point)
   if (mobilityAid) score += 1;     // Q7: Regularly use stick, walker or wheelchair?
 
   return score;
@@ -2102,41 +2140,41 @@ export function lundMalmoRevised(
   sex: "M" | "F",
   creatinineUnit: "mg/dL" | "μmol/L" = "mg/dL"
 ): number {
-  // Convert to mg/dL if needed
-  let scr = creatinineUnit === "μmol/L" ? creatinine / 88.4 : creatinine;
-  
-  // Q values (median creatinine for healthy population)
-  const Q = sex === "F" ? 0.70 : 0.90;
-  
-  // LMR formula uses piecewise function based on SCr/Q ratio
-  const scrOverQ = scr / Q;
-  
-  // X constant (intercept) - derived from the original equation
-  // For females: X ≈ 2.50 + 0.0121 × 180 = 4.68 (at reference height 180cm)
-  // For males: X ≈ 2.56 + 0.0121 × 180 = 4.74
-  // Simplified form using the published coefficients
-  
-  let eGFR: number;
-  
+  // The published equation works in μmol/L
+  const scr = creatinineUnit === "μmol/L" ? creatinine : creatinine * 88.4;
+
+  // X: piecewise creatinine term, linear below and logarithmic above the sex-specific knot
+  let X: number;
   if (sex === "F") {
-    if (scrOverQ < 1) {
-      // eGFR = e^(X - 0.0158 × Age + 0.438 × ln(Age))
-      const X = 4.0 - 0.0158 * age + 0.438 * Math.log(age);
-      eGFR = Math.exp(X) * Math.pow(scrOverQ, -0.323);
-    } else {
-      const X = 4.0 - 0.0158 * age + 0.438 * Math.log(age);
-      eGFR = Math.exp(X) * Math.pow(scrOverQ, -1.129);
-    }
+    X = scr < 150 ? 2.50 + 0.0121 * (150 - scr) : 2.50 - 0.926 * Math.log(scr / 150);
   } else {
-    if (scrOverQ < 1) {
-      const X = 4.1 - 0.0158 * age + 0.438 * Math.log(age);
-      eGFR = Math.exp(X) * Math.pow(scrOverQ, -0.323);
-    } else {
-      const X = 4.1 - 0.0158 * age + 0.438 * Math.log(age);
-      eGFR = Math.exp(X) * Math.pow(scrOverQ, -1.129);
-    }
+    X = scr < 180 ? 2.56 + 0.00968 * (180 - scr) : 2.56 - 0.926 * Math.log(scr / 180);
   }
-  
+
+  // eGFR = e^(X - 0.0158 × Age + 0.438 × ln(Age))
+  const eGFR = Math.exp(X - 0.0158 * age + 0.438 * Math.log(age));
+
+  return Math.round(eGFR);
+}
+
+/**
+ * Lund-Malmö Revised, formula version 1 (superseded by the published Björk
+ * 2011 equation): a Q-ratio approximation of the LMR equation
+ */
+export function lundMalmoRevisedV1(
+  creatinine: number,
+  age: number,
+  sex: "M" | "F",
+  creatinineUnit: "mg/dL" | "μmol/L" = "mg/dL"
+): number {
+  let scr = creatinineUnit === "μmol/L" ? creatinine / 88.4 : creatinine;
+
+  const Q = sex === "F" ? 0.70 : 0.90;
+  const scrOverQ = scr / Q;
+
+  const X = (sex === "F" ? 4.0 : 4.1) - 0.0158 * age + 0.438 * Math.log(age);
+  const eGFR = Math.exp(X) * Math.pow(scrOverQ, scrOverQ < 1 ? -0.323 : -1.129);
+
   return Math.round(eGFR);
 }
 
@@ -2169,9 +2207,8 @@ export function bis1Elderly(
  * FAS (Full Age Spectrum) eGFR Equation
  * Works across all ages from children (2+) to elderly without discontinuity
  * Reference: Pottel H et al. Nephrol Dial Transplant. 2016;31(5):798-806
- * Formula: eGFR = 107.3 / (SCr/Q) for SCr/Q ≤ 1
- *          eGFR = 107.3 / (SCr/Q)^1.209 for SCr/Q > 1
- *          For age ≥40: multiply by 0.988^(Age-40)
+ * Formula: eGFR = 107.3 / (SCr/Q)
+ *          For age >40: multiply by 0.988^(Age-40)
  */
 export function fasFullAgeSpectrum(
   creatinine: number,
@@ -2187,19 +2224,35 @@ export function fasFullAgeSpectrum(
   
   const scrOverQ = scr / Q;
   
-  let eGFR: number;
+  let eGFR = 107.3 / scrOverQ;
   
-  if (scrOverQ <= 1) {
-    eGFR = 107.3 / scrOverQ;
-  } else {
-    eGFR = 107.3 / Math.pow(scrOverQ, 1.209);
+  // Age adjustment for patients over 40
+  if (age > 40) {
+    eGFR = eGFR * Math.pow(0.988, age - 40);
   }
   
-  // Age adjustment for patients ≥40 years
+  return Math.round(eGFR);
+}
+
+/**
+ * FAS, formula version 1 (superseded): a second exponent of 1.209 above
+ * SCr/Q = 1 and the age term from 40 rather than above it
+ */
+export function fasFullAgeSpectrumV1(
+  creatinine: number,
+  age: number,
+  sex: "M" | "F",
+  creatinineUnit: "mg/dL" | "μmol/L" = "mg/dL"
+): number {
+  let scr = creatinineUnit === "μmol/L" ? creatinine / 88.4 : creatinine;
+
+  const scrOverQ = scr / getFasQValue(age, sex);
+
+  let eGFR = scrOverQ <= 1 ? 107.3 / scrOverQ : 107.3 / Math.pow(scrOverQ, 1.209);
   if (age >= 40) {
     eGFR = eGFR * Math.pow(0.988, age - 40);
   }
-  
+
   return Math.round(eGFR);
 }
 
@@ -2478,42 +2531,59 @@ export function sofa(
 
   // CNS (GCS)
   let cnsScore = 0;
-  if (gcs >= 13 && gcs <= 15) cnsScore = 0;
-  else if (gcs >= 10 && gcs <= 12) cnsScore = 1;
-  else if (gcs >= 6 && gcs <= 9) cnsScore = 2;
-  else if (gcs >= 3 && gcs < 6) cnsScore = 3;
+  if (gcs >= 15) cnsScore = 0;
+  else if (gcs >= 13) cnsScore = 1;
+  else if (gcs >= 10) cnsScore = 2;
+  else if (gcs >= 6) cnsScore = 3;
   else cnsScore = 4;
   organScores.cns = cnsScore;
   sofaTotal += cnsScore;
 
   // Renal (Creatinine μmol/L or UOP)
   let renalScore = 0;
-  if (creatinineSI >= 442 || urineOutput < 200) renalScore = 4;
-  else if (creatinineSI >= 354 && creatinineSI < 442) renalScore = 3;
-  else if ((creatinineSI >= 221 && creatinineSI < 354) || urineOutput < 500) renalScore = 2;
-  else if (creatinineSI >= 110 && creatinineSI < 221) renalScore = 1;
+  if (creatinineSI > 440 || urineOutput < 200) renalScore = 4;
+  else if (creatinineSI >= 300 || urineOutput < 500) renalScore = 3;
+  else if (creatinineSI >= 171) renalScore = 2;
+  else if (creatinineSI >= 110) renalScore = 1;
   else renalScore = 0;
   organScores.renal = renalScore;
   sofaTotal += renalScore;
 
-  let interpretation = '';
-  let riskClass = '';
+  return { score: sofaTotal, organScores, ...sofaRisk(sofaTotal) };
+}
 
-  if (sofaTotal >= 11) {
-    interpretation = 'VERY HIGH';
-    riskClass = 'high';
-  } else if (sofaTotal >= 6) {
-    interpretation = 'HIGH';
-    riskClass = 'high';
-  } else if (sofaTotal >= 2) {
-    interpretation = 'MODERATE';
-    riskClass = 'medium';
-  } else {
-    interpretation = 'Low';
-    riskClass = 'low';
-  }
+function sofaRisk(total: number): { interpretation: string; riskClass: string } {
+  if (total >= 11) return { interpretation: 'VERY HIGH', riskClass: 'high' };
+  if (total >= 6) return { interpretation: 'HIGH', riskClass: 'high' };
+  if (total >= 2) return { interpretation: 'MODERATE', riskClass: 'medium' };
+  return { interpretation: 'Low', riskClass: 'low' };
+}
 
-  return { score: sofaTotal, organScores, interpretation, riskClass };
+/**
+ * SOFA, formula version 1 (superseded): CNS scored 0 from GCS 13 and renal
+ * scored on 110/221/354/442 μmol/L creatinine bands. The other organ systems
+ * are unchanged.
+ */
+export function sofaV1(...args: Parameters<typeof sofa>): ReturnType<typeof sofa> {
+  const { organScores } = sofa(...args);
+  const [, , , , , , , gcs, creatinine, creatinineUnit, urineOutput] = args;
+  const creatinineSI = creatinineUnit === 'mg/dL' ? creatinine * 88.4 : creatinine;
+
+  let cns = 4;
+  if (gcs >= 13) cns = 0;
+  else if (gcs >= 10) cns = 1;
+  else if (gcs >= 6) cns = 2;
+  else if (gcs >= 3) cns = 3;
+
+  let renal = 0;
+  if (creatinineSI >= 442 || urineOutput < 200) renal = 4;
+  else if (creatinineSI >= 354) renal = 3;
+  else if (creatinineSI >= 221 || urineOutput < 500) renal = 2;
+  else if (creatinineSI >= 110) renal = 1;
+
+  const scores = { ...organScores, cns, renal };
+  const total = Object.values(scores).reduce((sum, score) => sum + score, 0);
+  return { score: total, organScores: scores, ...sofaRisk(total) };
 }
 
 /**
@@ -4292,9 +4362,34 @@ export function vancomycinAuc(
 
 /**
  * BVAS v3 (Birmingham Vasculitis Activity Score)
- * 9 organ systems, ~40 items. Returns total score.
+ * 9 organ systems, ~40 items. Each system is capped at its published
+ * maximum (total 63). Returns total score.
  */
 export function bvasV3(items: Record<string, boolean>): { total: number; organScores: Record<string, number> } {
+  const scoring: Record<string, { items: string[]; maxPoints: number[]; cap: number }> = {
+    general: { items: ["myalgia", "arthralgia", "fever", "weightLoss"], maxPoints: [1, 1, 2, 2], cap: 3 },
+    cutaneous: { items: ["infarct", "purpura", "ulcer", "gangrene", "otherSkinVasculitis"], maxPoints: [2, 2, 4, 6, 2], cap: 6 },
+    mucousMembranesEyes: {
+      items: ["mouthUlcers", "genitalUlcers", "conjunctivitis", "episcleritis", "uveitis", "retinalVasculitis", "proptosis", "scleritis", "retinalExudate", "suddenVisualLoss"],
+      maxPoints: [2, 1, 1, 2, 6, 6, 4, 6, 6, 6],
+      cap: 6,
+    },
+    ent: { items: ["nasalDischarge", "sinusitis", "nasalCrusting", "hearingLoss", "subglotticStenosis", "conductiveHearingLoss"], maxPoints: [2, 2, 4, 6, 6, 3], cap: 6 },
+    chest: { items: ["wheeze", "nodules", "pleuralEffusion", "infiltrate", "massiveMoptysis", "alveolarHemorrhage", "respiratoryFailure"], maxPoints: [2, 3, 4, 4, 6, 6, 6], cap: 6 },
+    cardiovascular: { items: ["lossOfPulses", "valvularHeartDisease", "pericarditis", "ischemicCardiacPain", "cardiomyopathy", "congestiveHeartFailure"], maxPoints: [4, 4, 3, 6, 6, 6], cap: 6 },
+    abdominal: { items: ["peritonitis", "bloodyDiarrhea", "ischemicAbdominalPain"], maxPoints: [6, 6, 9], cap: 9 },
+    renal: { items: ["hypertensionBvas", "proteinuriaBvas", "hematuria", "creatinineRise", "creatinineRiseRapid", "rrtOrDialysis"], maxPoints: [4, 4, 6, 6, 6, 6], cap: 12 },
+    nervousSystem: { items: ["headache", "meningitis", "organicConfusion", "seizuresBvas", "strokeBvas", "cranialNervePalsy", "sensorNeuropathy", "motorNeuropathy"], maxPoints: [1, 6, 6, 9, 9, 6, 6, 9], cap: 9 },
+  };
+
+  return scoreBvas(scoring, items);
+}
+
+/**
+ * BVAS v3, formula version 1 (superseded): mucous membranes and eyes scored
+ * as separate systems and no system capped.
+ */
+export function bvasV3V1(items: Record<string, boolean>): { total: number; organScores: Record<string, number> } {
   const scoring: Record<string, { items: string[]; maxPoints: number[] }> = {
     general: { items: ["myalgia", "arthralgia", "fever", "weightLoss"], maxPoints: [1, 1, 2, 2] },
     cutaneous: { items: ["infarct", "purpura", "ulcer", "gangrene", "otherSkinVasculitis"], maxPoints: [2, 2, 4, 6, 2] },
@@ -4308,6 +4403,13 @@ export function bvasV3(items: Record<string, boolean>): { total: number; organSc
     nervousSystem: { items: ["headache", "meningitis", "organicConfusion", "seizuresBvas", "strokeBvas", "cranialNervePalsy", "sensorNeuropathy", "motorNeuropathy"], maxPoints: [1, 6, 6, 9, 9, 6, 6, 9] },
   };
 
+  return scoreBvas(scoring, items);
+}
+
+function scoreBvas(
+  scoring: Record<string, { items: string[]; maxPoints: number[]; cap?: number }>,
+  items: Record<string, boolean>
+): { total: number; organScores: Record<string, number> } {
   const organScores: Record<string, number> = {};
   let total = 0;
 
@@ -4318,6 +4420,7 @@ export function bvasV3(items: Record<string, boolean>): { total: number; organSc
         organTotal += config.maxPoints[i];
       }
     }
+    organTotal = Math.min(organTotal, config.cap ?? Infinity);
     organScores[organ] = organTotal;
     total += organTotal;
   }
@@ -4442,3 +4545,205 @@ export function creatinineTrajectory(
     projectedDialysis,
   };
 }
+
+// ============================================================================
+// CONTRAST-ASSOCIATED AKI (MEHRAN SCORES)
+// ============================================================================
+
+export interface MehranResult {
+  totalScore: number;
+  riskCategory: string;
+  cinRisk: number;
+  dialysisRisk: number;
+  breakdown: { factor: string; points: number; present: boolean }[];
+}
+
+/**
+ * Mehran 2 Score Model 1 (Pre-procedural)
+ * Reference: Mehran R et al. Lancet. 2021;398(10315):1974-1983
+ */
+export function mehran2Score(
+  presentation: string,
+  egfr: number,
+  lvef: number,
+  diabetesType: string,
+  hemoglobin: number, // g/dL
+  glucose: number, // mg/dL
+  chf: boolean,
+  ageOver75: boolean
+): MehranResult {
+  const breakdown: MehranResult["breakdown"] = [];
+  let score = 0;
+
+  // 1. Clinical Presentation: 0/2/4/8 points
+  let presentationPoints = 0;
+  let presentationLabel = 'Asymptomatic / Stable Angina';
+  if (presentation === 'unstable') { presentationPoints = 2; presentationLabel = 'Unstable Angina'; }
+  else if (presentation === 'nstemi') { presentationPoints = 4; presentationLabel = 'NSTEMI'; }
+  else if (presentation === 'stemi') { presentationPoints = 8; presentationLabel = 'STEMI'; }
+  breakdown.push({ factor: `Clinical Presentation: ${presentationLabel}`, points: presentationPoints, present: presentationPoints > 0 });
+  score += presentationPoints;
+
+  // 2. eGFR: 0/1/4 points
+  let egfrPoints = 0;
+  let egfrLabel = '';
+  if (egfr < 30) {
+    egfrPoints = 4;
+    egfrLabel = `eGFR <30 mL/min/1.73m² (${egfr})`;
+  } else if (egfr < 60) {
+    egfrPoints = 1;
+    egfrLabel = `eGFR 30-59 mL/min/1.73m² (${egfr})`;
+  } else {
+    egfrLabel = `eGFR ≥60 mL/min/1.73m² (${egfr})`;
+  }
+  breakdown.push({ factor: egfrLabel, points: egfrPoints, present: egfrPoints > 0 });
+  score += egfrPoints;
+
+  // 3. LVEF: 0/2 points
+  const lvefPoints = lvef < 40 ? 2 : 0;
+  breakdown.push({ factor: `LVEF ${lvef < 40 ? '<40%' : '≥40%'} (${lvef}%)`, points: lvefPoints, present: lvefPoints > 0 });
+  score += lvefPoints;
+
+  // 4. Diabetes: 0/1/2 points
+  let diabetesPoints = 0;
+  let diabetesLabel = 'No Diabetes';
+  if (diabetesType === 'noninsulin') { diabetesPoints = 1; diabetesLabel = 'Non-Insulin-Treated Diabetes'; }
+  else if (diabetesType === 'insulin') { diabetesPoints = 2; diabetesLabel = 'Insulin-Treated Diabetes'; }
+  breakdown.push({ factor: `Diabetes: ${diabetesLabel}`, points: diabetesPoints, present: diabetesPoints > 0 });
+  score += diabetesPoints;
+
+  // 5. Hemoglobin: 0/1 points
+  const hbPoints = hemoglobin < 11 ? 1 : 0;
+  breakdown.push({ factor: `Hemoglobin ${hemoglobin < 11 ? '<11' : '≥11'} g/dL (${hemoglobin.toFixed(1)})`, points: hbPoints, present: hbPoints > 0 });
+  score += hbPoints;
+
+  // 6. Basal Glucose: 0/1 points
+  const glucosePoints = glucose >= 150 ? 1 : 0;
+  breakdown.push({ factor: `Basal Glucose ${glucose >= 150 ? '≥150' : '<150'} mg/dL (${Math.round(glucose)})`, points: glucosePoints, present: glucosePoints > 0 });
+  score += glucosePoints;
+
+  // 7. CHF on presentation: 0/1 points
+  breakdown.push({ factor: 'Congestive Heart Failure on Presentation', points: 1, present: chf });
+  if (chf) score += 1;
+
+  // 8. Age >75: 0/1 points
+  breakdown.push({ factor: 'Age >75 years', points: 1, present: ageOver75 });
+  if (ageOver75) score += 1;
+
+  // Determine risk category and CA-AKI risk
+  let riskCategory: string;
+  let cinRisk: number;
+  if (score <= 4) {
+    riskCategory = 'Low Risk';
+    cinRisk = 2.3;
+  } else if (score <= 8) {
+    riskCategory = 'Moderate Risk';
+    cinRisk = 8.3;
+  } else if (score <= 11) {
+    riskCategory = 'High Risk';
+    cinRisk = 16.5;
+  } else {
+    riskCategory = 'Very High Risk';
+    cinRisk = 34.9;
+  }
+
+  return { totalScore: score, riskCategory, cinRisk, dialysisRisk: 0, breakdown };
+}
+
+/**
+ * Original Mehran Score (2004)
+ * Reference: Mehran R et al. J Am Coll Cardiol. 2004;44(7):1393-1399
+ * Pass egfr = null when only serum creatinine is known (SCr >1.5 scores 4 points).
+ */
+export function mehranOriginalScore(
+  hypotension: boolean,
+  iabp: boolean,
+  chf: boolean,
+  ageOver75: boolean,
+  anemia: boolean,
+  diabetes: boolean,
+  contrastVolume: number, // mL
+  egfr: number | null,
+  creatinine: number // mg/dL
+): MehranResult {
+  const breakdown: MehranResult["breakdown"] = [];
+  let score = 0;
+
+  // Hypotension: 5 points
+  breakdown.push({ factor: 'Hypotension (SBP <80 mmHg for ≥1 hr requiring inotropes)', points: 5, present: hypotension });
+  if (hypotension) score += 5;
+
+  // IABP: 5 points
+  breakdown.push({ factor: 'Intra-aortic balloon pump (IABP)', points: 5, present: iabp });
+  if (iabp) score += 5;
+
+  // CHF: 5 points
+  breakdown.push({ factor: 'Congestive heart failure (NYHA III-IV or pulmonary edema)', points: 5, present: chf });
+  if (chf) score += 5;
+
+  // Age >75: 4 points
+  breakdown.push({ factor: 'Age >75 years', points: 4, present: ageOver75 });
+  if (ageOver75) score += 4;
+
+  // Anemia: 3 points
+  breakdown.push({ factor: 'Anemia (Hct <39% for men, <36% for women)', points: 3, present: anemia });
+  if (anemia) score += 3;
+
+  // Diabetes: 3 points
+  breakdown.push({ factor: 'Diabetes mellitus', points: 3, present: diabetes });
+  if (diabetes) score += 3;
+
+  // Contrast volume: 1 point per 100cc
+  const contrastPoints = Math.floor(contrastVolume / 100);
+  breakdown.push({ factor: `Contrast volume (${contrastVolume} mL = ${contrastPoints} pts)`, points: contrastPoints, present: contrastPoints > 0 });
+  score += contrastPoints;
+
+  // eGFR points: 2 points if 40-60, 4 points if 20-40, 6 points if <20
+  const egfrValue = egfr ?? 60;
+  let egfrPoints = 0;
+  let egfrLabel = '';
+  if (egfrValue < 20) {
+    egfrPoints = 6;
+    egfrLabel = `eGFR <20 mL/min (${egfrValue})`;
+  } else if (egfrValue < 40) {
+    egfrPoints = 4;
+    egfrLabel = `eGFR 20-39 mL/min (${egfrValue})`;
+  } else if (egfrValue < 60) {
+    egfrPoints = 2;
+    egfrLabel = `eGFR 40-59 mL/min (${egfrValue})`;
+  } else {
+    egfrLabel = `eGFR ≥60 mL/min (${egfrValue})`;
+  }
+  breakdown.push({ factor: egfrLabel, points: egfrPoints, present: egfrPoints > 0 });
+  score += egfrPoints;
+
+  // SCr >1.5: 4 points (only if eGFR not provided)
+  if (egfr === null && creatinine > 1.5) {
+    breakdown.push({ factor: `Serum Creatinine >1.5 mg/dL (${creatinine.toFixed(1)})`, points: 4, present: true });
+    score += 4;
+  }
+
+  // Determine risk category
+  let riskCategory: string;
+  let cinRisk: number;
+  let dialysisRisk: number;
+  if (score <= 5) {
+    riskCategory = 'Low Risk';
+    cinRisk = 7.5;
+    dialysisRisk = 0.04;
+  } else if (score <= 10) {
+    riskCategory = 'Moderate Risk';
+    cinRisk = 14.0;
+    dialysisRisk = 0.12;
+  } else if (score <= 15) {
+    riskCategory = 'High Risk';
+    cinRisk = 26.1;
+    dialysisRisk = 1.09;
+  } else {
+    riskCategory = 'Very High Risk';
+    cinRisk = 57.3;
+    dialysisRisk = 12.6;
+  }
+
+  return { totalScore: score, riskCategory, cinRisk, dialysisRisk, breakdown };
+}
@@ -1,14 +1,16 @@
 /**
  * Clinical Decision Support Recommendations
- * Evidence-based recommendations for calculator results
+ * Evidence-based recommendations for calculator results. Which recommendation
+ * a result gets, and its urgency, come from the calculator's severity bands.
  */
+import { getSeverityBand, severityBands, type RecommendationUrgency } from "./severityBands";
 
 export interface ClinicalRecommendation {
   condition: string;
   recommendation: string;
   actionItems: string[];
   references?: string[];
-  urgency?: "routine" | "urgent" | "emergent";
+  urgency?: RecommendationUrgency;
 }
 
 export interface RecommendationSet {
@@ -31,8 +33,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Screen for CKD risk factors (diabetes, hypertension)",
           "Repeat eGFR annually if risk factors present",
           "Provide cardiovascular risk reduction counseling"
-        ],
-        urgency: "routine"
+        ]
       },
       "stage2": {
         condition: "CKD Stage 2 (eGFR 60-89)",
@@ -43,8 +44,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Screen and manage CKD risk factors",
           "Refer to nephrology if rapid decline or albuminuria",
           "Annual eGFR monitoring"
-        ],
-        urgency: "routine"
+        ]
       },
       "stage3a": {
         condition: "CKD Stage 3a (eGFR 45-59)",
@@ -56,8 +56,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Screen for complications (anemia, bone disease)",
           "Consider nephrology referral",
           "Monitor eGFR every 6-12 months"
-        ],
-        urgency: "routine"
+        ]
       },
       "stage3b": {
         condition: "CKD Stage 3b (eGFR 30-44)",
@@ -70,8 +69,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Educate on CKD progression and lifestyle",
           "Monitor eGFR every 3-6 months",
           "Adjust medication dosing for renal function"
-        ],
-        urgency: "routine"
+        ]
       },
       "stage4": {
         condition: "CKD Stage 4 (eGFR 15-29)",
@@ -85,8 +83,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Avoid nephrotoxic agents",
           "Plan vascular access for dialysis",
           "Monitor eGFR monthly"
-        ],
-        urgency: "urgent"
+        ]
       },
       "stage5": {
         condition: "CKD Stage 5 (eGFR <15)",
@@ -99,8 +96,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Nutritional counseling",
           "Psychosocial support",
           "Discuss treatment modalities and prognosis"
-        ],
-        urgency: "emergent"
+        ]
       }
     }
   },
@@ -108,18 +104,17 @@ export const clinicalRecommendations: RecommendationSet[] = [
     calculatorId: "kfre",
     recommendations: {
       "low": {
-        condition: "Low Risk (<10%)",
+        condition: "Low Risk (<5%)",
         recommendation: "Low risk of kidney failure progression",
         actionItems: [
           "Continue current management",
           "Optimize blood pressure and glycemic control",
           "Repeat KFRE annually",
           "Monitor for albuminuria changes"
-        ],
-        urgency: "routine"
+        ]
       },
       "moderate": {
-        condition: "Moderate Risk (10-40%)",
+        condition: "Moderate Risk (5-20%)",
         recommendation: "Moderate risk - consider intensified management",
         actionItems: [
           "Intensify blood pressure control (target <120 mmHg)",
@@ -128,11 +123,10 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Screen for and treat complications",
           "Repeat KFRE every 6-12 months",
           "Nephrology follow-up every 3-6 months"
-        ],
-        urgency: "routine"
+        ]
       },
       "high": {
-        condition: "High Risk (>40%)",
+        condition: "High Risk (≥20%)",
         recommendation: "High risk of progression - urgent intervention needed",
         actionItems: [
           "Urgent nephrology referral",
@@ -142,8 +136,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Screen for complications",
           "Prepare for renal replacement therapy",
           "Repeat KFRE every 3-6 months"
-        ],
-        urgency: "urgent"
+        ]
       }
     }
   },
@@ -159,8 +152,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Withhold nephrotoxic medications peri-procedurally",
           "Monitor serum creatinine at 48-72 hours post-procedure"
         ],
-        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."],
-        urgency: "routine"
+        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."]
       },
       "moderate": {
         condition: "Moderate Risk (Score 5-8, CA-AKI ~8.3%)",
@@ -173,8 +165,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Monitor creatinine at 24, 48, and 72 hours",
           "Consider staging multi-vessel PCI if feasible"
         ],
-        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."],
-        urgency: "routine"
+        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."]
       },
       "high": {
         condition: "High Risk (Score 9-11, CA-AKI ~16.5%)",
@@ -188,8 +179,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Close monitoring with daily creatinine for 72 hrs",
           "Nephrology consultation recommended"
         ],
-        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."],
-        urgency: "urgent"
+        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."]
       },
       "veryhigh": {
         condition: "Very High Risk (Score >11, CA-AKI ~34.9%)",
@@ -203,13 +193,12 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "ICU-level monitoring may be warranted post-procedure",
           "Daily renal function monitoring for ≥5 days"
         ],
-        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."],
-        urgency: "emergent"
+        references: ["Mehran R, et al. Lancet. 2021;398(10315):1974-1983."]
       }
     }
   },
   {
-    calculatorId: "ascvd",
+    calculatorId: "ascvd-risk",
     recommendations: {
       "low": {
         condition: "Low Risk (<5%)",
@@ -219,8 +208,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Aspirin not routinely recommended",
           "Recheck risk every 4-6 years",
           "Manage modifiable risk factors"
-        ],
-        urgency: "routine"
+        ]
       },
       "borderline": {
         condition: "Borderline Risk (5-7.5%)",
@@ -231,8 +219,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Consider risk enhancers (family history, LDL-C, CKD)",
           "Target LDL-C <100 mg/dL",
           "Recheck risk annually"
-        ],
-        urgency: "routine"
+        ]
       },
       "intermediate": {
         condition: "Intermediate Risk (7.5-20%)",
@@ -245,8 +232,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Smoking cessation",
           "Regular exercise (150 min/week)",
           "Recheck lipids in 4-12 weeks"
-        ],
-        urgency: "routine"
+        ]
       },
       "high": {
         condition: "High Risk (>20%)",
@@ -260,8 +246,7 @@ export const clinicalRecommendations: RecommendationSet[] = [
           "Aspirin therapy",
           "Screen for subclinical disease",
           "Cardiology referral if indicated"
-        ],
-        urgency: "urgent"
+        ]
       }
     }
   }
@@ -277,5 +262,13 @@ export function getRecommendations(
   
   if (!recommendationSet) return null;
   
-  return recommendationSet.recommendations[resultKey] || null;
+  const recommendation = recommendationSet.recommendations[resultKey];
+  if (!recommendation) return null;
+  const band = severityBands[calculatorId]?.find((b) => b.recommendation === resultKey);
+  return band?.urgency ? { ...recommendation, urgency: band.urgency } : recommendation;
+}
+
+// Map a calculator result to its recommendation key
+export function getRecommendationKey(calculatorId: string, result: number): string | null {
+  return getSeverityBand(calculatorId, result)?.recommendation ?? null;
 }
@@ -0,0 +1,24 @@
+/**
+ * Nephrology Calculator Engine
+ * Framework-free calculator definitions, input schemas, unit normalization
+ * and compute functions. Safe to import from the browser, the Express
+ * server or plain Node scripts.
+ *
+ * Example (Node):
+ *   import { getCalculatorById, computeCalculator } from "@shared/engine";
+ *   const ckdEpi = getCalculatorById("ckd-epi-creatinine")!;
+ *   computeCalculator(ckdEpi, { creatinine: "1.8", age: "62", sex: "M" }, {}, "conventional");
+ */
+
+export * as formulas from "./calculators";
+export * from "./calculatorData";
+export * from "./calculatorInputs";
+export * from "./calculatorSchema";
+export * from "./clinicalRecommendations";
+export * from "./openapi";
+export * from "./plausibility";
+export * from "./referenceRanges";
+export * from "./resultColorCoding";
+export * from "./severityBands";
+export * from "./severityConsistency";
+export * from "./unitRegistry";
@@ -0,0 +1,327 @@
+/**
+ * OpenAPI Document
+ * Builds the OpenAPI 3.1 description of the calculator REST API. Request
+ * body schemas are derived from each calculator's input definitions, so
+ * the published contract always matches what the dashboard collects.
+ */
+import { getFormulaVersions, type Calculator, type CalculatorInput } from "./calculatorData";
+import { getUnitType, hasUnitToggle, unitKey, unitSelections } from "./calculatorInputs";
+import { isInputRequired } from "./calculatorSchema";
+
+type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiOptions {
+  title?: string;
+  version?: string;
+  /** Path prefix the calculator router is mounted on */
+  basePath?: string;
+}
+
+// ckd-epi-creatinine -> CkdEpiCreatinine, anticoagReversal -> AnticoagReversal
+function toSchemaName(calculatorId: string): string {
+  return calculatorId
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("");
+}
+
+function describeInput(input: CalculatorInput): string {
+  const parts = [input.label];
+  if (input.unit) parts.push(`(${input.unit})`);
+  if (input.description) parts.push(`- ${input.description}`);
+  return parts.join(" ").replace(/\.$/, "");
+}
+
+function inputSchema(input: CalculatorInput): JsonSchema {
+  const schema: JsonSchema = { description: describeInput(input) };
+  switch (input.type) {
+    case "number":
+      schema.type = "number";
+      // Ranges are in canonical units, so only enforce them when no unit toggle applies
+      if (hasUnitToggle(input)) {
+        if (input.min !== undefined || input.max !== undefined) {
+          schema.description += `. Expected range ${input.min ?? "–"}–${input.max ?? "–"} ${getUnitType(input)!.canonical}.`;
+        }
+      } else {
+        if (input.min !== undefined) schema.minimum = input.min;
+        if (input.max !== undefined) schema.maximum = input.max;
+      }
+      break;
+    case "score":
+      schema.type = "integer";
+      if (input.min !== undefined) schema.minimum = input.min;
+      if (input.max !== undefined) schema.maximum = input.max;
+      break;
+    case "select":
+    case "radio":
+    case "toggle":
+      schema.type = "string";
+      if (input.options) {
+        schema.enum = input.options.map((o) => o.value);
+        schema.description += `. One of: ${input.options.map((o) => `${o.value} = ${o.label}`).join("; ")}.`;
+      }
+      break;
+    case "checkbox":
+      schema.type = "string";
+      schema.enum = ["on", ""];
+      schema.description += '. "on" when checked.';
+      break;
+  }
+
+  if (input.default !== undefined) schema.default = input.default;
+  return schema;
+}
+
+function unitsSchema(calculator: Calculator): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const input of calculator.inputs.filter(hasUnitToggle)) {
+    const preference = getUnitType(input)!.preference;
+    properties[unitKey(input)] = {
+      type: "string",
+      enum: unitSelections(input),
+      ...(preference && { description: `conventional = ${preference.conventional}, si = ${preference.si}` }),
+    };
+  }
+  return { type: "object", properties, additionalProperties: false };
+}
+
+function requestSchema(calculator: Calculator): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  const required: string[] = [];
+  for (const input of calculator.inputs) {
+    properties[input.id] = inputSchema(input);
+    // The server fills declared defaults, so those inputs may be omitted
+    if (isInputRequired(calculator, input) && input.default === undefined) {
+      required.push(input.id);
+    }
+  }
+
+  return {
+    type: "object",
+    required: ["values"],
+    properties: {
+      values: { type: "object", properties, required, additionalProperties: false },
+      units: unitsSchema(calculator),
+      unitPreference: {
+        type: "string",
+        enum: ["conventional", "si"],
+        default: "conventional",
+        description: "Unit used for toggled inputs without an explicit entry in units",
+      },
+      formulaVersion: {
+        type: "string",
+        enum: getFormulaVersions(calculator).map((v) => v.version),
+        description: "Formula version to compute with, to reproduce a historical result; the current one when omitted",
+      },
+    },
+    additionalProperties: false,
+  };
+}
+
+const sharedSchemas: Record<string, JsonSchema> = {
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: {
+      error: { type: "string" },
+      details: { type: "array", items: { type: "string" } },
+    },
+  },
+  ResultValue: {
+    type: "object",
+    required: ["label", "value"],
+    properties: {
+      label: { type: "string" },
+      value: { type: "number" },
+      unit: { type: "string" },
+    },
+  },
+  CalculatorResult: {
+    type: "object",
+    required: ["kind", "calculatorId", "primary", "secondary", "severity", "interpretation", "warnings", "summary", "provenance"],
+    properties: {
+      kind: {
+        type: "string",
+        description: '"value" for plain results; otherwise the custom display whose payload is in data',
+      },
+      data: { type: "object", description: "Calculator-specific payload for custom displays" },
+      calculatorId: { type: "string" },
+      primary: { oneOf: [{ $ref: "#/components/schemas/ResultValue" }, { type: "null" }] },
+      secondary: { type: "array", items: { $ref: "#/components/schemas/ResultValue" } },
+      severity: { type: "string", enum: ["success", "info", "warning", "danger", "neutral"] },
+      interpretation: { type: "string" },
+      warnings: { type: "array", items: { type: "string" } },
+      summary: { type: "string" },
+      provenance: {
+        type: "object",
+        required: ["calculatorId", "calculatorName", "formulaVersion", "formulaSource", "references", "computedAt"],
+        properties: {
+          calculatorId: { type: "string" },
+          calculatorName: { type: "string" },
+          formulaVersion: { type: "string" },
+          formulaSource: { type: "string" },
+          references: { type: "array", items: { type: "string" } },
+          computedAt: { type: "string", format: "date-time" },
+        },
+      },
+    },
+  },
+  ComputeResponse: {
+    type: "object",
+    required: ["result", "band", "referenceRanges"],
+    properties: {
+      result: { $ref: "#/components/schemas/CalculatorResult" },
+      referenceRanges: {
+        description: "Reference ranges for the patient's age and sex, and for eGFR results the healthy range for age",
+        oneOf: [
+          {
+            type: "object",
+            required: ["ranges"],
+            properties: {
+              ranges: {
+                type: "array",
+                items: {
+                  type: "object",
+                  required: ["range", "inRange"],
+                  properties: { range: { type: "object" }, inRange: { type: "boolean" } },
+                },
+              },
+              ageExpectation: {
+                type: "object",
+                required: ["age", "lower", "median", "upper", "unit", "position", "message"],
+                properties: {
+                  age: { type: "number" },
+                  lower: { type: "number" },
+                  median: { type: "number" },
+                  upper: { type: "number" },
+                  unit: { type: "string" },
+                  position: { type: "string", enum: ["below", "within", "above"] },
+                  message: { type: "string" },
+                },
+              },
+            },
+          },
+          { type: "null" },
+        ],
+      },
+      band: {
+        oneOf: [
+          {
+            type: "object",
+            required: ["label", "severity"],
+            properties: {
+              label: { type: "string" },
+              severity: { type: "string", enum: ["success", "info", "warning", "danger", "neutral"] },
+            },
+          },
+          { type: "null" },
+        ],
+      },
+    },
+  },
+  CalculatorSchema: {
+    type: "object",
+    required: ["id", "name", "description", "category", "resultLabel", "inputs", "references", "formulaVersions"],
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      description: { type: "string" },
+      whenToUse: { type: "string" },
+      category: { type: "string" },
+      resultLabel: { type: "string" },
+      resultUnit: { type: "string" },
+      inputs: { type: "array", items: { type: "object" } },
+      referenceRanges: { type: "array", items: { type: "object" } },
+      references: { type: "array", items: { type: "string" } },
+      formulaVersions: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["version", "source", "current"],
+          properties: { version: { type: "string" }, source: { type: "string" }, current: { type: "boolean" } },
+        },
+      },
+    },
+  },
+};
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+export function buildOpenApiDocument(calculators: Calculator[], options: OpenApiOptions = {}) {
+  const basePath = options.basePath ?? "/api";
+  const schemas: Record<string, JsonSchema> = { ...sharedSchemas };
+  const paths: Record<string, unknown> = {
+    [`${basePath}/calculators`]: {
+      get: {
+        operationId: "listCalculators",
+        summary: "List calculators with their input schemas",
+        responses: {
+          "200": {
+            description: "All calculators",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: { calculators: { type: "array", items: { $ref: "#/components/schemas/CalculatorSchema" } } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    [`${basePath}/calculators/{id}`]: {
+      get: {
+        operationId: "getCalculator",
+        summary: "Get a single calculator schema",
+        parameters: [{ name: "id", in: "path", required: true, schema: { type: "string" } }],
+        responses: {
+          "200": {
+            description: "Calculator schema",
+            content: { "application/json": { schema: { $ref: "#/components/schemas/CalculatorSchema" } } },
+          },
+          "404": errorResponse("Unknown calculator"),
+        },
+      },
+    },
+  };
+
+  for (const calculator of calculators) {
+    const schemaName = `${toSchemaName(calculator.id)}ComputeRequest`;
+    schemas[schemaName] = requestSchema(calculator);
+    paths[`${basePath}/calculators/${calculator.id}/compute`] = {
+      post: {
+        operationId: `compute${toSchemaName(calculator.id)}`,
+        summary: calculator.name,
+        description: calculator.description,
+        tags: [calculator.category],
+        requestBody: {
+          required: true,
+          content: { "application/json": { schema: { $ref: `#/components/schemas/${schemaName}` } } },
+        },
+        responses: {
+          "200": {
+            description: `${calculator.resultLabel}${calculator.resultUnit ? ` (${calculator.resultUnit})` : ""}`,
+            content: { "application/json": { schema: { $ref: "#/components/schemas/ComputeResponse" } } },
+          },
+          "400": errorResponse("Invalid inputs or malformed JSON body"),
+          "422": errorResponse("Calculation failed or gave no finite result"),
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title ?? "Nephrology Calculator API",
+      version: options.version ?? "1.0.0",
+    },
+    paths,
+    components: { schemas },
+  };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { calculators, computeCalculator, getCalculatorById } from "./calculatorData";
+import { checkPlausibility, physiologicRanges } from "./plausibility";
+
+const check = (id: string, values: Record<string, string>, units: Record<string, string> = {}) =>
+  checkPlausibility(getCalculatorById(id)!, values, units, "conventional");
+
+describe("input plausibility", () => {
+  it("only lists ranges for real calculator inputs", () => {
+    const inputIds = new Set(calculators.flatMap((c) => c.inputs.map((input) => input.id)));
+    expect(Object.keys(physiologicRanges).filter((id) => !inputIds.has(id))).toEqual([]);
+  });
+
+  it("offers to convert a value that only makes sense in the other unit", () => {
+    expect(check("ckd-epi-creatinine", { creatinine: "120", age: "55", sex: "M", race: "Other" })).toEqual([
+      expect.objectContaining({ fix: { inputId: "creatinine", value: "1.36", label: "Convert and use 1.36 mg/dL" } }),
+    ]);
+  });
+
+  it("asks to confirm the unit of a value that could be a real extreme", () => {
+    const [issue] = check("corrected-sodium-hyperglycemia", { measuredNa: "130", glucose: "25" });
+    expect(issue.message).toBe("Serum Glucose 25 mg/dL is outside the physiologic range, but would be plausible in mmol/L. Confirm the unit before relying on the result.");
+    expect(issue.fix).toBeUndefined();
+  });
+
+  it("leaves plausible values and their units alone", () => {
+    expect(check("corrected-sodium-hyperglycemia", { measuredNa: "130", glucose: "600" })).toEqual([]);
+    expect(check("corrected-sodium-hyperglycemia", { measuredNa: "130", glucose: "33" }, { glucose: "si" })).toEqual([]);
+  });
+
+  it("are attached to the computed result for every consumer", () => {
+    const values = { creatinine: "120", age: "55", sex: "M", race: "Other" };
+    const [issue] = check("ckd-epi-creatinine", values);
+    expect(computeCalculator(getCalculatorById("ckd-epi-creatinine")!, values, {}, "conventional").warnings).toContain(issue.message);
+  });
+
+  it("flags values implausible in every unit", () => {
+    const [issue] = check("ckd-epi-creatinine", { creatinine: "100000", age: "55", sex: "M", race: "Other" });
+    expect(issue.message).toMatch(/outside the physiologic range for serum creatinine/);
+    expect(issue.fix).toBeUndefined();
+  });
+});
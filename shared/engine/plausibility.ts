@@ -0,0 +1,184 @@
+/**
+ * Input Plausibility
+ * Physiologic ranges per analyte, detection of values that were probably
+ * entered in the other unit (a creatinine of 120 with the toggle on mg/dL
+ * is almost certainly μmol/L), and cross-field checks such as measured vs
+ * calculated osmolality. Ranges are in conventional units and deliberately
+ * wide: they flag entry errors, not abnormal results.
+ */
+import type { Calculator, CalculatorInput } from "./calculatorData";
+import {
+  createComputeInputs,
+  fromCanonical,
+  getUnitType,
+  selectedUnit,
+  type CalculatorUnits,
+  type CalculatorValues,
+  type UnitPreference,
+} from "./calculatorInputs";
+import { convertUnit } from "./unitRegistry";
+
+export interface PhysiologicRange {
+  analyte: string;
+  min: number;
+  max: number;
+  /** Conventional unit of min and max */
+  unit: string;
+}
+
+export interface PlausibilityIssue {
+  /** Inputs involved; the issue is shown next to the last one */
+  inputIds: string[];
+  message: string;
+  /** One-click fix: the value converted into the input's selected unit */
+  fix?: { inputId: string; value: string; label: string };
+}
+
+function rangeFor(inputIds: string[], range: PhysiologicRange): Record<string, PhysiologicRange> {
+  return Object.fromEntries(inputIds.map((id) => [id, range]));
+}
+
+export const physiologicRanges: Record<string, PhysiologicRange> = {
+  ...rangeFor(
+    ["creatinine", "baselineCreatinine", "currentCreatinine", "creatinine1", "creatinine2", "plasmaCr", "donorCreatinine", "cr1", "cr2", "cr3", "baselineCrTrajectory"],
+    { analyte: "Serum creatinine", min: 0.1, max: 20, unit: "mg/dL" }
+  ),
+  ...rangeFor(["urineCr", "urineCreatinine24h"], { analyte: "Urine creatinine", min: 5, max: 1000, unit: "mg/dL" }),
+  ...rangeFor(["bun", "bunValue", "bunDialysis", "preBUN", "postBUN", "plasmaUrea", "urineaNitrogen"], { analyte: "BUN", min: 2, max: 300, unit: "mg/dL" }),
+  ...rangeFor(["urineUrea"], { analyte: "Urine urea nitrogen", min: 10, max: 3000, unit: "mg/dL" }),
+  ...rangeFor(["glucose"], { analyte: "Glucose", min: 30, max: 2000, unit: "mg/dL" }),
+  ...rangeFor(["albumin"], { analyte: "Serum albumin", min: 0.5, max: 6.5, unit: "g/dL" }),
+  ...rangeFor(["calcium", "calciumPTH", "calciumPhos", "measuredCa", "serumCalciumQtc"], { analyte: "Serum calcium", min: 3, max: 20, unit: "mg/dL" }),
+  ...rangeFor(["phosphate", "phosphateLevel", "phosphatePTH", "serumPhosphate", "plasmaPhosphate"], { analyte: "Serum phosphate", min: 0.5, max: 20, unit: "mg/dL" }),
+  ...rangeFor(["plasmaMagnesium", "serumMagnesium", "serumMagnesiumRepletion", "serumMagnesiumQtc", "targetMagnesium"], { analyte: "Serum magnesium", min: 0.3, max: 10, unit: "mg/dL" }),
+  ...rangeFor(["hemoglobin", "targetHemoglobin", "currentHemoglobin"], { analyte: "Hemoglobin", min: 2, max: 25, unit: "g/dL" }),
+  ...rangeFor(["cystatinC"], { analyte: "Cystatin C", min: 0.2, max: 10, unit: "mg/L" }),
+  ...rangeFor(["bilirubin"], { analyte: "Bilirubin", min: 0.1, max: 50, unit: "mg/dL" }),
+  ...rangeFor(["plasmaUricAcid"], { analyte: "Serum uric acid", min: 0.5, max: 25, unit: "mg/dL" }),
+  ...rangeFor(["totalCholesterol"], { analyte: "Total cholesterol", min: 50, max: 1000, unit: "mg/dL" }),
+  ...rangeFor(["hdl"], { analyte: "HDL cholesterol", min: 5, max: 200, unit: "mg/dL" }),
+  ...rangeFor(["ldl"], { analyte: "LDL cholesterol", min: 10, max: 800, unit: "mg/dL" }),
+  ...rangeFor(["sodium", "plasmaNa", "measuredNa", "currentNa"], { analyte: "Serum sodium", min: 90, max: 200, unit: "mEq/L" }),
+  ...rangeFor(["potassium", "plasmaK", "serumPotassium", "potassiumDialysis"], { analyte: "Serum potassium", min: 1, max: 12, unit: "mEq/L" }),
+  ...rangeFor(["chloride"], { analyte: "Serum chloride", min: 50, max: 160, unit: "mEq/L" }),
+  ...rangeFor(["bicarbonate", "bicarbDialysis", "measuredHCO3"], { analyte: "Serum bicarbonate", min: 1, max: 60, unit: "mEq/L" }),
+  ...rangeFor(["measuredOsmolality", "plasmaOsm"], { analyte: "Plasma osmolality", min: 200, max: 450, unit: "mOsm/kg" }),
+  ...rangeFor(["temperature"], { analyte: "Temperature", min: 25, max: 45, unit: "°C" }),
+  ...rangeFor(["weight", "postWeight", "donorWeight", "actualWeight"], { analyte: "Body weight", min: 0.5, max: 400, unit: "kg" }),
+};
+
+// A value within this factor of its range may be a real extreme result, so
+// the unit is questioned rather than converted (glucose 25 mg/dL is severe
+// hypoglycemia, not 450 mg/dL entered in mmol/L)
+const EXTREME_RESULT_FACTOR = 2;
+
+// Three significant figures, without trailing zeros
+function formatValue(value: number): string {
+  return String(Number(value.toPrecision(3)));
+}
+
+/** The same raw number read in each of the input's other toggle units, in canonical units */
+function otherUnitReadings(
+  input: CalculatorInput,
+  raw: number,
+  currentUnit: string
+): { canonical: number; unit: string }[] {
+  const type = getUnitType(input);
+  if (!type) return [];
+  return type.units
+    .filter((unit) => unit !== currentUnit)
+    .map((unit) => ({ canonical: convertUnit(type.analyte, raw, unit, type.canonical), unit }));
+}
+
+interface CrossFieldCheck {
+  inputIds: string[];
+  /** Values are in conventional units; returns a message when implausible */
+  check: (read: (inputId: string) => number) => string | null;
+}
+
+const crossFieldChecks: CrossFieldCheck[] = [
+  {
+    inputIds: ["sodium", "glucose", "bun", "measuredOsmolality"],
+    check: (read) => {
+      const calculated = 2 * read("sodium") + read("glucose") / 18 + read("bun") / 2.8;
+      const measured = read("measuredOsmolality");
+      return measured < calculated - 10
+        ? `Measured osmolality ${formatValue(measured)} mOsm/kg is well below the calculated ${formatValue(calculated)} mOsm/kg. A negative osmolal gap usually means an entry or unit error; check the glucose and BUN units.`
+        : null;
+    },
+  },
+  {
+    inputIds: ["preBUN", "postBUN"],
+    check: (read) =>
+      read("postBUN") >= read("preBUN")
+        ? "Post-dialysis BUN is not lower than pre-dialysis BUN. Check that the values are not swapped or entered in different units."
+        : null,
+  },
+  {
+    inputIds: ["plasmaCr", "urineCr"],
+    check: (read) =>
+      read("urineCr") < read("plasmaCr")
+        ? "Urine creatinine is lower than plasma creatinine, which is very unusual. Check that both are entered in the selected units."
+        : null,
+  },
+  {
+    inputIds: ["bloodPressureSystolic", "bloodPressureDiastolic"],
+    check: (read) =>
+      read("bloodPressureSystolic") <= read("bloodPressureDiastolic") ? "Systolic blood pressure is not higher than diastolic. Check for swapped values." : null,
+  },
+];
+
+/**
+ * Entered values outside physiologic limits, with a converted value when the
+ * number only makes sense in the input's other unit (or a request to confirm
+ * the unit when it could be either), and implausible combinations.
+ * Inputs that declare their own min/max only get the wrong-unit check.
+ */
+export function checkPlausibility(
+  calculator: Calculator,
+  values: CalculatorValues,
+  units: CalculatorUnits,
+  unitPreference: UnitPreference
+): PlausibilityIssue[] {
+  const inputs = createComputeInputs(calculator.inputs, values, units, unitPreference);
+  const isEntered = (inputId: string) => values[inputId] !== undefined && values[inputId] !== "" && Number.isFinite(Number(values[inputId]));
+  const issues: PlausibilityIssue[] = [];
+
+  for (const input of calculator.inputs) {
+    const range = physiologicRanges[input.id];
+    if (input.type !== "number" || !range || !isEntered(input.id)) continue;
+    const raw = Number(values[input.id]);
+    const conventional = inputs.value(input.id);
+    if (conventional >= range.min && conventional <= range.max) continue;
+
+    const currentUnit = selectedUnit(input, units, unitPreference);
+    const other = otherUnitReadings(input, raw, currentUnit).find((reading) => reading.canonical >= range.min && reading.canonical <= range.max);
+    const possibleExtreme = conventional >= range.min / EXTREME_RESULT_FACTOR && conventional <= range.max * EXTREME_RESULT_FACTOR;
+    if (other && possibleExtreme) {
+      issues.push({
+        inputIds: [input.id],
+        message: `${input.label} ${formatValue(raw)} ${currentUnit} is outside the physiologic range, but would be plausible in ${other.unit}. Confirm the unit before relying on the result.`,
+      });
+    } else if (other) {
+      const fixed = formatValue(fromCanonical(input, other.canonical, units, unitPreference));
+      issues.push({
+        inputIds: [input.id],
+        message: `${input.label} ${formatValue(raw)} ${currentUnit} is implausible; it looks like a value in ${other.unit} (${fixed} ${currentUnit}).`,
+        fix: { inputId: input.id, value: fixed, label: `Convert and use ${fixed} ${currentUnit}` },
+      });
+    } else if (input.min === undefined && input.max === undefined) {
+      issues.push({
+        inputIds: [input.id],
+        message: `${input.label} ${formatValue(conventional)} ${range.unit} is outside the physiologic range for ${range.analyte.toLowerCase()} (${range.min}–${range.max} ${range.unit}).`,
+      });
+    }
+  }
+
+  const inputIds = new Set(calculator.inputs.map((input) => input.id));
+  for (const { inputIds: ids, check } of crossFieldChecks) {
+    if (!ids.every((id) => inputIds.has(id) && isEntered(id))) continue;
+    const message = check((id) => inputs.value(id));
+    if (message) issues.push({ inputIds: ids, message });
+  }
+  return issues;
+}
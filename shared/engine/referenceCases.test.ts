@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { calculators, computeCalculator } from "./calculatorData";
+
+describe.each(calculators.map((calculator) => [calculator.id, calculator] as const))("%s", (_id, calculator) => {
+  it("has reference cases", () => {
+    expect(calculator.referenceCases?.length ?? 0).toBeGreaterThan(0);
+  });
+
+  for (const referenceCase of calculator.referenceCases ?? []) {
+    it(referenceCase.description, () => {
+      const result = computeCalculator(
+        calculator,
+        referenceCase.values,
+        referenceCase.units ?? {},
+        "conventional",
+        referenceCase.formulaVersion
+      );
+      const actual = referenceCase.output
+        ? result.secondary.find((s) => s.label === referenceCase.output)?.value
+        : result.primary?.value ?? null;
+
+      if (referenceCase.expected === null) {
+        expect(actual, referenceCase.citation).toBeNull();
+      } else {
+        expect(actual, referenceCase.citation).toBeTypeOf("number");
+        expect(Math.abs(actual! - referenceCase.expected), `${actual} vs ${referenceCase.expected}: ${referenceCase.citation}`).toBeLessThanOrEqual(
+          referenceCase.tolerance + 1e-9
+        );
+      }
+      if (referenceCase.interpretation) {
+        expect(result.interpretation).toContain(referenceCase.interpretation);
+      }
+    });
+  }
+});
@@ -0,0 +1,132 @@
+/**
+ * Reference Range Evaluation
+ * Selects the reference ranges that apply to the patient (by the calculator's
+ * age and sex inputs), marks the one the result falls in, and for eGFR
+ * results adds the healthy range for the patient's age.
+ *
+ * The age expectation follows the EKFC/FAS normal population: healthy
+ * creatinine lies within 0.67–1.33 × Q, so the healthy eGFR range narrows
+ * and falls by 1% a year after 40. An eGFR of 55 is expected at 85 but
+ * well below normal at 30.
+ */
+import type { Calculator, CalculatorResult, ReferenceRange } from "./calculatorData";
+import type { CalculatorValues } from "./calculatorInputs";
+
+export interface PatientDemographics {
+  age?: number;
+  sex?: "M" | "F";
+}
+
+export interface ReferenceRangeMatch {
+  range: ReferenceRange;
+  inRange: boolean;
+}
+
+export interface HealthyEgfrRange {
+  /** eGFR at creatinine 1.33 × Q, the lower limit of normal */
+  lower: number;
+  /** eGFR at the median healthy creatinine */
+  median: number;
+  /** eGFR at creatinine 0.67 × Q */
+  upper: number;
+}
+
+export interface AgeExpectedEgfr extends HealthyEgfrRange {
+  age: number;
+  unit: string;
+  position: "below" | "within" | "above";
+  message: string;
+}
+
+export interface ReferenceRangeEvaluation {
+  /** Ranges that apply to the patient, in declaration order */
+  ranges: ReferenceRangeMatch[];
+  ageExpectation?: AgeExpectedEgfr;
+}
+
+const EGFR_UNIT = "mL/min/1.73m²";
+
+// Healthy SCr/Q interval from the EKFC/FAS reference populations
+const HEALTHY_RATIO_LOW = 0.67;
+const HEALTHY_RATIO_HIGH = 1.33;
+
+/** Age and sex from a calculator's "age" and "sex" inputs */
+export function patientDemographics(values: CalculatorValues): PatientDemographics {
+  const age = Number(values.age);
+  const sex = String(values.sex ?? "").toLowerCase();
+  return {
+    age: values.age !== undefined && values.age !== "" && Number.isFinite(age) ? age : undefined,
+    sex: sex === "m" || sex === "male" ? "M" : sex === "f" || sex === "female" ? "F" : undefined,
+  };
+}
+
+/**
+ * Whether a range applies to the patient. Ranges without an age or sex
+ * restriction always apply, and so do restricted ones when that
+ * demographic isn't known.
+ */
+export function rangeApplies(range: ReferenceRange, patient: PatientDemographics): boolean {
+  if (range.sex && range.sex !== "all" && patient.sex && range.sex !== patient.sex) return false;
+  if (range.ageRange && patient.age !== undefined) {
+    if (range.ageRange.min !== undefined && patient.age < range.ageRange.min) return false;
+    if (range.ageRange.max !== undefined && patient.age > range.ageRange.max) return false;
+  }
+  return true;
+}
+
+export function isInRange(range: ReferenceRange, value: number): boolean {
+  if (range.min === undefined && range.max === undefined) return false;
+  return (range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max);
+}
+
+// EKFC eGFR for a given SCr/Q ratio; Q already carries the age and sex
+function ekfcEgfrAtRatio(ratio: number, age: number): number {
+  const alpha = ratio < 1 ? -0.322 : -1.132;
+  return 107.3 * Math.pow(ratio, alpha) * (age > 40 ? Math.pow(0.99, age - 40) : 1);
+}
+
+/** Healthy eGFR range at an age (2 years and over); the same for both sexes */
+export function healthyEgfrRange(age: number): HealthyEgfrRange {
+  return {
+    lower: Math.round(ekfcEgfrAtRatio(HEALTHY_RATIO_HIGH, age)),
+    median: Math.round(ekfcEgfrAtRatio(1, age)),
+    upper: Math.round(ekfcEgfrAtRatio(HEALTHY_RATIO_LOW, age)),
+  };
+}
+
+/** Healthy eGFR range at the patient's age, with where their eGFR falls */
+export function ageExpectedEgfr(age: number, egfr: number): AgeExpectedEgfr {
+  const { lower, median, upper } = healthyEgfrRange(age);
+  const position = egfr < lower ? "below" : egfr > upper ? "above" : "within";
+  return {
+    age,
+    lower,
+    median,
+    upper,
+    unit: EGFR_UNIT,
+    position,
+    message: `eGFR ${Math.round(egfr)} is ${position} the healthy range for age ${age} (${lower}–${upper} ${EGFR_UNIT}, median ${median}).`,
+  };
+}
+
+/**
+ * Reference ranges for a result given the patient's inputs. eGFR calculators
+ * (results in mL/min/1.73m² with an age input) also get the healthy range for
+ * the patient's age.
+ */
+export function evaluateReferenceRanges(
+  calculator: Calculator,
+  result: Pick<CalculatorResult, "primary">,
+  values: CalculatorValues
+): ReferenceRangeEvaluation | null {
+  if (!result.primary) return null;
+  const value = result.primary.value;
+  const patient = patientDemographics(values);
+  const ranges = (calculator.referenceRanges ?? [])
+    .filter((range) => rangeApplies(range, patient))
+    .map((range) => ({ range, inRange: isInRange(range, value) }));
+  const isEgfr = calculator.resultUnit === EGFR_UNIT && calculator.inputs.some((input) => input.id === "age");
+  const ageExpectation = isEgfr && patient.age !== undefined && patient.age >= 2 ? ageExpectedEgfr(patient.age, value) : undefined;
+  if (ranges.length === 0 && !ageExpectation) return null;
+  return { ranges, ageExpectation };
+}
@@ -0,0 +1,246 @@
+/**
+ * Result Color Coding for Nephrology Calculators
+ * Provides color classes based on clinical thresholds. Calculators with
+ * severity bands (severityBands.ts) take their colors from the bands; the
+ * helpers below cover results whose color depends on other inputs.
+ */
+import type { CalculatorResult } from "./calculatorData";
+import { bandColorCoding, getSeverityBand } from "./severityBands";
+
+export interface ColorResult {
+  bgClass: string;
+  textClass: string;
+  borderClass: string;
+  label: string;
+  severity: 'success' | 'info' | 'warning' | 'danger' | 'neutral';
+}
+
+// Get color coding for a structured calculator result (uses its primary value)
+export function getResultColorCoding(result: CalculatorResult, inputs?: Record<string, unknown>): ColorResult | null {
+  if (!result.primary || !Number.isFinite(result.primary.value)) return null;
+  return getValueColorCoding(result.calculatorId, result.primary.value, inputs);
+}
+
+// Get color coding based on calculator ID and result value
+export function getValueColorCoding(calculatorId: string, value: number, inputs?: Record<string, unknown>): ColorResult | null {
+  const band = getSeverityBand(calculatorId, value);
+  if (band) return bandColorCoding(band);
+
+  switch (calculatorId) {
+    case 'sodium-correction-rate':
+      return getSodiumCorrectionRateColor(value, inputs);
+
+    case 'qtc-bazett':
+      return getQTcColor(value, inputs);
+
+    case 'tacrolimus-target':
+      return getTacrolimusColor(value, inputs);
+
+    case 'cha2ds2-vasc':
+      return getCHA2DS2VASCColor(value, inputs);
+
+    case 'magnesium-repletion':
+      return getMagnesiumRepletionColor(value, inputs);
+
+    case 'pth-target-ckd':
+      return getPTHColor(value, inputs);
+
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// COLOR HELPER FUNCTIONS
+// ============================================================================
+
+function getSodiumCorrectionRateColor(_value: number, inputs?: Record<string, unknown>): ColorResult {
+  // Color is based on Na correction rate (mEq/L per 24h), not the mL/hr infusion rate
+  const currentNa = Number(inputs?.currentNa) || 0;
+  const targetNa = Number(inputs?.targetNa) || 0;
+  const correctionHours = Number(inputs?.correctionHours) || 24;
+  const naChangeIn24h = Math.abs(targetNa - currentNa) / correctionHours * 24;
+
+  if (naChangeIn24h <= 6) {
+    return {
+      bgClass: 'bg-emerald-500/10',
+      textClass: 'text-emerald-600 dark:text-emerald-400',
+      borderClass: 'border-emerald-500',
+      label: 'Safe Rate',
+      severity: 'success'
+    };
+  }
+  if (naChangeIn24h <= 8) {
+    return {
+      bgClass: 'bg-yellow-500/10',
+      textClass: 'text-yellow-600 dark:text-yellow-400',
+      borderClass: 'border-yellow-500',
+      label: 'Acceptable',
+      severity: 'warning'
+    };
+  }
+  if (naChangeIn24h <= 10) {
+    return {
+      bgClass: 'bg-orange-500/10',
+      textClass: 'text-orange-600 dark:text-orange-400',
+      borderClass: 'border-orange-500',
+      label: 'ODS Risk',
+      severity: 'warning'
+    };
+  }
+  return {
+    bgClass: 'bg-red-500/10',
+    textClass: 'text-red-600 dark:text-red-400',
+    borderClass: 'border-red-500',
+    label: 'Too Rapid!',
+    severity: 'danger'
+  };
+}
+
+function getQTcColor(value: number, inputs?: Record<string, unknown>): ColorResult {
+  if (value <= 450) {
+    return {
+      bgClass: 'bg-emerald-500/10',
+      textClass: 'text-emerald-600 dark:text-emerald-400',
+      borderClass: 'border-emerald-500',
+      label: 'Normal',
+      severity: 'success'
+    };
+  }
+  if (value <= 500) {
+    return {
+      bgClass: 'bg-yellow-500/10',
+      textClass: 'text-yellow-600 dark:text-yellow-400',
+      borderClass: 'border-yellow-500',
+      label: 'Prolonged',
+      severity: 'warning'
+    };
+  }
+  return {
+    bgClass: 'bg-red-500/10',
+    textClass: 'text-red-600 dark:text-red-400',
+    borderClass: 'border-red-500',
+    label: 'Severely Prolonged',
+    severity: 'danger'
+  };
+}
+
+function getTacrolimusColor(value: number, inputs?: Record<string, unknown>): ColorResult {
+  // Tacrolimus target ranges vary by time post-transplant
+  const phase = inputs?.phase as string || 'maintenance';
+  
+  let lowTarget = 5;
+  let highTarget = 10;
+  
+  if (phase === 'early') {
+    lowTarget = 10;
+    highTarget = 15;
+  } else if (phase === 'intermediate') {
+    lowTarget = 8;
+    highTarget = 12;
+  }
+  
+  if (value >= lowTarget && value <= highTarget) {
+    return {
+      bgClass: 'bg-emerald-500/10',
+      textClass: 'text-emerald-600 dark:text-emerald-400',
+      borderClass: 'border-emerald-500',
+      label: 'Within Target',
+      severity: 'success'
+    };
+  }
+  if (value < lowTarget) {
+    return {
+      bgClass: 'bg-yellow-500/10',
+      textClass: 'text-yellow-600 dark:text-yellow-400',
+      borderClass: 'border-yellow-500',
+      label: 'Below Target',
+      severity: 'warning'
+    };
+  }
+  return {
+    bgClass: 'bg-red-500/10',
+    textClass: 'text-red-600 dark:text-red-400',
+    borderClass: 'border-red-500',
+    label: 'Above Target',
+    severity: 'danger'
+  };
+}
+
+function getCHA2DS2VASCColor(value: number, inputs?: Record<string, unknown>): ColorResult {
+  const sex = inputs?.sex as string;
+  
+  // Score 0: Low risk - no anticoagulation
+  if (value === 0) {
+    return {
+      bgClass: 'bg-emerald-500/10',
+      textClass: 'text-emerald-600 dark:text-emerald-400',
+      borderClass: 'border-emerald-500',
+      label: 'Low Risk - No Anticoagulation',
+      severity: 'success'
+    };
+  }
+  
+  // Score 1: Consider anticoagulation (especially males)
+  if (value === 1) {
+    // Female with score 1 (only from sex) = effectively low risk
+    if (sex === 'F') {
+      return {
+        bgClass: 'bg-emerald-500/10',
+        textClass: 'text-emerald-600 dark:text-emerald-400',
+        borderClass: 'border-emerald-500',
+        label: 'Low Risk (Female Only)',
+        severity: 'success'
+      };
+    }
+    return {
+      bgClass: 'bg-yellow-500/10',
+      textClass: 'text-yellow-600 dark:text-yellow-400',
+      borderClass: 'border-yellow-500',
+      label: 'Consider Anticoagulation',
+      severity: 'warning'
+    };
+  }
+  
+  // Score 2: Anticoagulation recommended
+  if (value === 2) {
+    return {
+      bgClass: 'bg-orange-500/10',
+      textClass: 'text-orange-600 dark:text-orange-400',
+      borderClass: 'border-orange-500',
+      label: 'Anticoagulation Recommended',
+      severity: 'warning'
+    };
+  }
+  
+  // Score >=3: High risk - anticoagulation strongly recommended
+  return {
+    bgClass: 'bg-red-500/10',
+    textClass: 'text-red-600 dark:text-red-400',
+    borderClass: 'border-red-500',
+    label: 'High Risk - Anticoagulate',
+    severity: 'danger'
+  };
+}
+
+function getMagnesiumRepletionColor(value: number, inputs?: Record<string, unknown>): ColorResult {
+  const mg = Number(inputs?.serumMagnesiumRepletion) || 0;
+  if (mg >= 1.8) return { bgClass: 'bg-emerald-500/10', textClass: 'text-emerald-600 dark:text-emerald-400', borderClass: 'border-emerald-500', label: 'Normal', severity: 'success' };
+  if (mg >= 1.6) return { bgClass: 'bg-yellow-500/10', textClass: 'text-yellow-600 dark:text-yellow-400', borderClass: 'border-yellow-500', label: 'Mild Hypomagnesemia', severity: 'warning' };
+  if (mg >= 1.2) return { bgClass: 'bg-orange-500/10', textClass: 'text-orange-600 dark:text-orange-400', borderClass: 'border-orange-500', label: 'Moderate Hypomagnesemia', severity: 'warning' };
+  return { bgClass: 'bg-red-500/10', textClass: 'text-red-600 dark:text-red-400', borderClass: 'border-red-500', label: 'Severe Hypomagnesemia', severity: 'danger' };
+}
+
+function getPTHColor(value: number, inputs?: Record<string, unknown>): ColorResult {
+  const stage = inputs?.ckdStage || "5D";
+  if (stage === "3" || stage === "4") {
+    if (value <= 65) return { bgClass: 'bg-emerald-500/10', textClass: 'text-emerald-600 dark:text-emerald-400', borderClass: 'border-emerald-500', label: 'Within Target', severity: 'success' };
+    if (value <= 130) return { bgClass: 'bg-yellow-500/10', textClass: 'text-yellow-600 dark:text-yellow-400', borderClass: 'border-yellow-500', label: 'Mildly Elevated', severity: 'warning' };
+    return { bgClass: 'bg-orange-500/10', textClass: 'text-orange-600 dark:text-orange-400', borderClass: 'border-orange-500', label: 'Elevated', severity: 'warning' };
+  }
+  // CKD 5/5D
+  if (value < 130) return { bgClass: 'bg-blue-500/10', textClass: 'text-blue-600 dark:text-blue-400', borderClass: 'border-blue-500', label: 'Below Target (Adynamic Risk)', severity: 'info' };
+  if (value <= 585) return { bgClass: 'bg-emerald-500/10', textClass: 'text-emerald-600 dark:text-emerald-400', borderClass: 'border-emerald-500', label: 'Within KDIGO Target', severity: 'success' };
+  if (value <= 800) return { bgClass: 'bg-orange-500/10', textClass: 'text-orange-600 dark:text-orange-400', borderClass: 'border-orange-500', label: 'Above Target', severity: 'warning' };
+  return { bgClass: 'bg-red-500/10', textClass: 'text-red-600 dark:text-red-400', borderClass: 'border-red-500', label: 'Severe SHPT', severity: 'danger' };
+}
@@ -0,0 +1,463 @@
+/**
+ * Severity Bands
+ * Result categories declared once per calculator: each band has its
+ * threshold, label, color, severity and, where a recommendation exists, its
+ * urgency. The color coding, the interpretation text and the clinical
+ * recommendation for a banded calculator are all read from here, so the
+ * three can't drift apart.
+ *
+ * Bands are listed in ascending order and the first one the value falls
+ * into wins: `below: 60` takes values < 60, `upTo: 4` takes values <= 4,
+ * and the last band (no bound) takes the rest.
+ */
+import type { ResultSeverity } from "./calculatorData";
+import type { ColorResult } from "./resultColorCoding";
+
+export type BandColor = "emerald" | "green" | "yellow" | "orange" | "red" | "red-light" | "red-dark" | "blue" | "purple";
+
+export type RecommendationUrgency = "routine" | "urgent" | "emergent";
+
+export interface SeverityBand {
+  below?: number;
+  upTo?: number;
+  label: string;
+  color: BandColor;
+  severity: ResultSeverity;
+  /** Interpretation text for results in this band */
+  interpretation?: string;
+  /** Key into the calculator's clinical recommendations */
+  recommendation?: string;
+  urgency?: RecommendationUrgency;
+}
+
+const bandColorClasses: Record<BandColor, Pick<ColorResult, "bgClass" | "textClass" | "borderClass">> = {
+  emerald: { bgClass: "bg-emerald-500/10", textClass: "text-emerald-600 dark:text-emerald-400", borderClass: "border-emerald-500" },
+  green: { bgClass: "bg-green-500/10", textClass: "text-green-600 dark:text-green-400", borderClass: "border-green-500" },
+  yellow: { bgClass: "bg-yellow-500/10", textClass: "text-yellow-600 dark:text-yellow-400", borderClass: "border-yellow-500" },
+  orange: { bgClass: "bg-orange-500/10", textClass: "text-orange-600 dark:text-orange-400", borderClass: "border-orange-500" },
+  red: { bgClass: "bg-red-500/10", textClass: "text-red-600 dark:text-red-400", borderClass: "border-red-500" },
+  "red-light": { bgClass: "bg-red-400/10", textClass: "text-red-500 dark:text-red-400", borderClass: "border-red-400" },
+  "red-dark": { bgClass: "bg-red-600/10", textClass: "text-red-600 dark:text-red-500", borderClass: "border-red-600" },
+  blue: { bgClass: "bg-blue-500/10", textClass: "text-blue-600 dark:text-blue-400", borderClass: "border-blue-500" },
+  purple: { bgClass: "bg-purple-500/10", textClass: "text-purple-600 dark:text-purple-400", borderClass: "border-purple-500" },
+};
+
+const ckdEpiCreatinineBands: SeverityBand[] = [
+  { below: 15, label: "Kidney Failure (G5)", color: "red-dark", severity: "danger", interpretation: "Kidney failure (CKD Stage 5) - Consider dialysis/transplant planning", recommendation: "stage5", urgency: "emergent" },
+  { below: 30, label: "Severe (G4)", color: "red-light", severity: "danger", interpretation: "Severe decrease in kidney function (CKD Stage 4)", recommendation: "stage4", urgency: "urgent" },
+  { below: 45, label: "Moderate-Severe (G3b)", color: "orange", severity: "warning", interpretation: "Moderate to severe decrease (CKD Stage 3b)", recommendation: "stage3b", urgency: "routine" },
+  { below: 60, label: "Mild-Moderate (G3a)", color: "yellow", severity: "warning", interpretation: "Mild to moderate decrease (CKD Stage 3a)", recommendation: "stage3a", urgency: "routine" },
+  { below: 90, label: "Mildly Decreased (G2)", color: "green", severity: "success", interpretation: "Mild decrease in kidney function (CKD Stage 2)", recommendation: "stage2", urgency: "routine" },
+  { label: "Normal (G1)", color: "emerald", severity: "success", interpretation: "Normal kidney function (CKD Stage 1)", recommendation: "stage1", urgency: "routine" },
+];
+
+// The same KDIGO G categories for the other eGFR equations, which have no recommendations
+const egfrCategoryBands: SeverityBand[] = ckdEpiCreatinineBands.map(({ recommendation: _recommendation, urgency: _urgency, ...band }) => band);
+
+export const severityBands: Record<string, SeverityBand[]> = {
+  // ============================================================================
+  // KIDNEY FUNCTION
+  // ============================================================================
+  "ckd-epi-creatinine": ckdEpiCreatinineBands,
+  "ckd-epi-cystatin-c": egfrCategoryBands,
+  "schwartz-pediatric": egfrCategoryBands,
+  "kinetic-egfr": egfrCategoryBands,
+  "cockcroft-gault": [
+    { below: 30, label: "Severe Reduction", color: "red", severity: "danger", interpretation: "Severe reduction - adjust drug dosing" },
+    { below: 60, label: "Moderate Reduction", color: "orange", severity: "warning", interpretation: "Moderate reduction" },
+    { below: 90, label: "Mild Reduction", color: "green", severity: "success", interpretation: "Mild reduction" },
+    { label: "Normal", color: "emerald", severity: "success", interpretation: "Normal kidney function" },
+  ],
+  "egfr-slope": [
+    { upTo: -5, label: "Rapid Progression", color: "red", severity: "danger", interpretation: "Rapid progression - investigate for acute process or adjust treatment" },
+    { upTo: -3, label: "Moderate Progression", color: "orange", severity: "warning", interpretation: "Moderate CKD progression" },
+    { upTo: -1, label: "Mild Progression", color: "yellow", severity: "warning", interpretation: "Mild CKD progression" },
+    { label: "Normal Aging", color: "emerald", severity: "success", interpretation: "Normal aging rate" },
+  ],
+  kfre: [
+    { below: 3, label: "Low Risk", color: "emerald", severity: "success", interpretation: "Low risk - routine follow-up", recommendation: "low", urgency: "routine" },
+    { below: 5, label: "Borderline", color: "yellow", severity: "warning", interpretation: "Borderline - consider nephrology referral", recommendation: "low", urgency: "routine" },
+    { below: 20, label: "Moderate Risk", color: "orange", severity: "warning", interpretation: "Moderate risk - nephrology referral recommended", recommendation: "moderate", urgency: "routine" },
+    { below: 40, label: "High Risk", color: "red-light", severity: "danger", interpretation: "High risk - intensive management", recommendation: "high", urgency: "urgent" },
+    { label: "Very High Risk", color: "red-dark", severity: "danger", interpretation: "Very high risk - consider early transplant/dialysis planning", recommendation: "high", urgency: "urgent" },
+  ],
+
+  // ============================================================================
+  // AKI WORKUP
+  // ============================================================================
+  fena: [
+    { below: 1, label: "Prerenal", color: "blue", severity: "info", interpretation: "Prerenal azotemia (volume depletion, heart failure, cirrhosis)" },
+    { upTo: 2, label: "Indeterminate", color: "yellow", severity: "warning", interpretation: "Indeterminate — consider clinical context" },
+    { label: "Intrinsic AKI", color: "orange", severity: "warning", interpretation: "Intrinsic AKI (acute tubular necrosis most likely)" },
+  ],
+  feurea: [
+    { below: 35, label: "Prerenal", color: "blue", severity: "info", interpretation: "Prerenal azotemia" },
+    { upTo: 50, label: "Indeterminate", color: "yellow", severity: "warning", interpretation: "Indeterminate" },
+    { label: "Intrinsic AKI", color: "orange", severity: "warning", interpretation: "Intrinsic AKI (acute tubular necrosis)" },
+  ],
+  "anion-gap": [
+    { upTo: 12, label: "Normal", color: "emerald", severity: "success", interpretation: "Normal anion gap (NAGMA) - think HARDUPS" },
+    { upTo: 16, label: "Borderline High", color: "yellow", severity: "warning", interpretation: "Borderline high" },
+    { label: "High (HAGMA)", color: "red", severity: "danger", interpretation: "High anion gap (HAGMA) - think GOLDMARK" },
+  ],
+  "delta-gap": [
+    { below: 1, label: "Mixed HAGMA + NAGMA", color: "orange", severity: "warning", interpretation: "Combined HAGMA + normal anion gap metabolic acidosis" },
+    { upTo: 2, label: "Pure HAGMA", color: "emerald", severity: "success", interpretation: "Pure high anion gap metabolic acidosis" },
+    { label: "Mixed HAGMA + Alkalosis", color: "purple", severity: "warning", interpretation: "Combined HAGMA + metabolic alkalosis" },
+  ],
+  "osmolal-gap": [
+    { upTo: 10, label: "Normal", color: "emerald", severity: "success", interpretation: "Normal - no unmeasured osmotically active substances" },
+    { upTo: 20, label: "Borderline", color: "yellow", severity: "warning", interpretation: "Borderline - consider toxic alcohol ingestion" },
+    { label: "Elevated - Toxic Alcohol?", color: "red", severity: "danger", interpretation: "Elevated - suggests methanol, ethylene glycol, isopropanol, or other toxins" },
+  ],
+  "urine-anion-gap": [
+    { below: -20, label: "Intact Acidification", color: "blue", severity: "info", interpretation: "Negative UAG - intact renal acidification (GI HCO3 losses or proximal RTA)" },
+    { upTo: 20, label: "Equivocal", color: "yellow", severity: "warning", interpretation: "Equivocal - may need urine pH and NH4+ measurement" },
+    { label: "Impaired Acidification (RTA)", color: "orange", severity: "warning", interpretation: "Positive UAG - impaired renal NH4+ excretion (distal RTA or Type 4 RTA)" },
+  ],
+  ttkg: [
+    { below: 3, label: "Low Renal K+ Excretion", color: "blue", severity: "info", interpretation: "Low TTKG - in hypokalemia suggests extrarenal K loss; in hyperkalemia suggests hypoaldosteronism or aldosterone resistance" },
+    { upTo: 7, label: "Normal Range", color: "emerald", severity: "success", interpretation: "Normal TTKG - in hyperkalemia a TTKG below 7 suggests hypoaldosteronism or aldosterone resistance" },
+    { label: "High Renal K+ Excretion", color: "orange", severity: "warning", interpretation: "High TTKG - in hypokalemia suggests renal K wasting" },
+  ],
+  "kdigo-aki-staging": [
+    { upTo: 0, label: "No AKI", color: "emerald", severity: "success" },
+    { upTo: 1, label: "Stage 1 AKI", color: "yellow", severity: "warning" },
+    { upTo: 2, label: "Stage 2 AKI", color: "orange", severity: "warning" },
+    { label: "Stage 3 AKI", color: "red", severity: "danger" },
+  ],
+  "cin-mehran-score": [
+    { upTo: 4, label: "Low Risk", color: "emerald", severity: "success", recommendation: "low", urgency: "routine" },
+    { upTo: 8, label: "Moderate Risk", color: "yellow", severity: "warning", recommendation: "moderate", urgency: "routine" },
+    { upTo: 11, label: "High Risk", color: "orange", severity: "warning", recommendation: "high", urgency: "urgent" },
+    { label: "Very High Risk", color: "red", severity: "danger", recommendation: "veryhigh", urgency: "emergent" },
+  ],
+  "cin-mehran-original-score": [
+    { upTo: 5, label: "Low Risk", color: "emerald", severity: "success" },
+    { upTo: 10, label: "Moderate Risk", color: "yellow", severity: "warning" },
+    { upTo: 15, label: "High Risk", color: "orange", severity: "warning" },
+    { label: "Very High Risk", color: "red", severity: "danger" },
+  ],
+
+  // ============================================================================
+  // ELECTROLYTES
+  // ============================================================================
+  "water-deficit-hypernatremia": [
+    { upTo: 1, label: "Mild Deficit", color: "emerald", severity: "success", interpretation: "Mild deficit - oral rehydration may suffice" },
+    { upTo: 3, label: "Moderate Deficit", color: "yellow", severity: "warning", interpretation: "Moderate deficit - IV D5W or hypotonic saline" },
+    { label: "Severe Deficit", color: "red", severity: "danger", interpretation: "Severe deficit - careful IV rehydration needed to avoid cerebral edema" },
+  ],
+  "corrected-sodium-hyperglycemia": [
+    { below: 130, label: "Hyponatremia", color: "red", severity: "danger", interpretation: "Significant hyponatremia - requires careful correction" },
+    { below: 135, label: "Mild Hyponatremia", color: "yellow", severity: "warning", interpretation: "Mild hyponatremia" },
+    { upTo: 145, label: "Normal", color: "emerald", severity: "success", interpretation: "Sodium normal when corrected for hyperglycemia" },
+    { label: "Hypernatremia", color: "orange", severity: "warning", interpretation: "Hypernatremia when corrected for hyperglycemia - assess free water deficit" },
+  ],
+  "sodium-deficit": [
+    { upTo: 100, label: "Mild Deficit", color: "emerald", severity: "success", interpretation: "Mild deficit - may use hypotonic saline or fluid restriction" },
+    { upTo: 300, label: "Moderate Deficit", color: "yellow", severity: "warning", interpretation: "Moderate deficit - hypertonic saline (3%) may be needed" },
+    { label: "Severe Deficit", color: "red", severity: "danger", interpretation: "Severe deficit - careful IV hypertonic saline with monitoring" },
+  ],
+  "corrected-calcium": [
+    { below: 8.5, label: "Hypocalcemia", color: "blue", severity: "info", interpretation: "Hypocalcemia - may need supplementation" },
+    { upTo: 10.5, label: "Normal", color: "emerald", severity: "success", interpretation: "Normal corrected calcium" },
+    { label: "Hypercalcemia", color: "red", severity: "danger", interpretation: "Hypercalcemia - investigate cause" },
+  ],
+
+  // ============================================================================
+  // PROTEINURIA
+  // ============================================================================
+  uacr: [
+    { below: 30, label: "A1 - Normal", color: "emerald", severity: "success", interpretation: "A1: Normal to mildly increased albuminuria (<30 mg/g). Low risk of CKD progression. Repeat annually if risk factors present (diabetes, hypertension)." },
+    { below: 300, label: "A2 - Moderately Increased", color: "yellow", severity: "warning", interpretation: "A2: Moderately increased albuminuria (30–300 mg/g, formerly 'microalbuminuria'). KDIGO: increased risk of CKD progression and CVD. Optimize RAAS blockade (ACEi/ARB), add SGLT2i if diabetic. Target ≥30% reduction. Repeat in 3–6 months." },
+    { below: 2200, label: "A3 - Severely Increased", color: "orange", severity: "warning", interpretation: "A3: Severely increased albuminuria (>300 mg/g, formerly 'macroalbuminuria'). KDIGO: high/very high risk. Maximize RAAS blockade + SGLT2i. If >500 mg/g and unexplained, consider kidney biopsy. Required for KFRE risk calculation." },
+    { label: "Nephrotic Range", color: "red", severity: "danger", interpretation: "Nephrotic-range albuminuria (>2200 mg/g ≈ >3.5 g/24h albumin). Kidney biopsy strongly indicated. Full nephrotic workup: serum albumin, lipids, thrombotic risk assessment. Consider anticoagulation if albumin <2.5 g/dL." },
+  ],
+  upcr: [
+    { below: 0.15, label: "Normal", color: "emerald", severity: "success", interpretation: "Normal proteinuria (<0.15 g/g)" },
+    { below: 0.5, label: "Mild", color: "green", severity: "success", interpretation: "Mild proteinuria (0.15–0.5 g/g) — monitor, optimize RAAS blockade" },
+    { below: 1, label: "Moderate", color: "yellow", severity: "warning", interpretation: "Moderate proteinuria (0.5–1.0 g/g) — nephrology referral recommended, consider biopsy if unexplained" },
+    { below: 3.5, label: "Subnephrotic", color: "orange", severity: "warning", interpretation: "Subnephrotic proteinuria (1.0–3.5 g/g) — kidney biopsy indicated if etiology unclear. Aggressive RAAS blockade + SGLT2i. Monitor for progression to nephrotic range." },
+    { below: 10, label: "Nephrotic Range", color: "red", severity: "danger", interpretation: "Nephrotic-range proteinuria (≥3.5 g/g) — kidney biopsy strongly indicated. Assess for complications: edema, hypoalbuminemia, hyperlipidemia, thrombotic risk (albumin <2.5 g/dL = high VTE risk). Consider anticoagulation if albumin <2.0." },
+    { label: "Massive Proteinuria", color: "red-dark", severity: "danger", interpretation: "Massive proteinuria (≥10 g/g) — severe nephrotic syndrome. Urgent biopsy. High thrombotic risk — consider prophylactic anticoagulation. Aggressive edema management (loop diuretics + albumin if needed). Rule out amyloidosis, membranous, FSGS, diabetic nephropathy." },
+  ],
+  "acr-from-pcr": [
+    { below: 30, label: "A1 - Normal", color: "emerald", severity: "success", interpretation: "A1: Normal to mildly increased" },
+    { below: 300, label: "A2 - Moderately Increased", color: "yellow", severity: "warning", interpretation: "A2: Moderately increased" },
+    { label: "A3 - Severely Increased", color: "red", severity: "danger", interpretation: "A3: Severely increased" },
+  ],
+  "24-hour-protein": [
+    { below: 0.15, label: "Normal", color: "emerald", severity: "success", interpretation: "Normal (A1) - No significant proteinuria" },
+    { below: 3, label: "Mild-Moderate", color: "yellow", severity: "warning", interpretation: "Mildly to Moderately Increased (A1-A2) - Monitor and treat underlying cause" },
+    { below: 10, label: "Nephrotic Range", color: "orange", severity: "warning", interpretation: "Nephrotic-Range (A3) - Requires aggressive treatment" },
+    { label: "Severe Nephrotic", color: "red", severity: "danger", interpretation: "Severe Nephrotic-Range (A3) - Timed 24-hour collection recommended for clinical decisions" },
+  ],
+  "igan-prediction": [
+    { below: 20, label: "Low Risk", color: "emerald", severity: "success", interpretation: "Low risk - conservative management (RAAS blockade, SGLT2i)" },
+    { below: 40, label: "Intermediate Risk", color: "orange", severity: "warning", interpretation: "Intermediate risk - consider immunosuppression" },
+    { label: "High Risk", color: "red", severity: "danger", interpretation: "High risk - immunosuppression recommended" },
+  ],
+
+  // ============================================================================
+  // DIALYSIS ADEQUACY
+  // ============================================================================
+  "ktv-hemodialysis": [
+    { below: 1.2, label: "Inadequate", color: "red", severity: "danger", interpretation: "Inadequate dialysis - increase session time or frequency" },
+    { below: 1.4, label: "Borderline", color: "yellow", severity: "warning", interpretation: "Borderline adequate" },
+    { label: "Adequate", color: "emerald", severity: "success", interpretation: "Adequate dialysis (≥1.4 recommended)" },
+  ],
+  "pd-weekly-ktv": [
+    { below: 1.7, label: "Inadequate", color: "red", severity: "danger", interpretation: "Inadequate PD - increase dwell time, add exchange, or consider HD transition" },
+    { below: 2, label: "Minimum Adequate", color: "green", severity: "success", interpretation: "Minimum adequate PD (≥1.7 minimum)" },
+    { label: "Optimal", color: "emerald", severity: "success", interpretation: "Optimal PD adequacy (≥2.0 recommended)" },
+  ],
+  "residual-rkf-ktv": [
+    { upTo: 0, label: "No Residual Function", color: "orange", severity: "warning", interpretation: "No residual kidney function" },
+    { below: 0.1, label: "Minimal Residual Function", color: "yellow", severity: "warning", interpretation: "Minimal residual function" },
+    { below: 0.2, label: "Moderate Residual Function", color: "green", severity: "success", interpretation: "Moderate residual function" },
+    { label: "Significant Residual Function", color: "emerald", severity: "success", interpretation: "Significant residual kidney function - preserve it!" },
+  ],
+  "equilibrated-ktv": [
+    { below: 1, label: "Inadequate", color: "red", severity: "danger", interpretation: "Inadequate - increase dialysis dose" },
+    { below: 1.2, label: "Borderline", color: "yellow", severity: "warning", interpretation: "Borderline adequate" },
+    { label: "Adequate", color: "emerald", severity: "success", interpretation: "Adequate eKt/V" },
+  ],
+  "standard-ktv": [
+    { below: 2.1, label: "Inadequate", color: "red", severity: "danger", interpretation: "Inadequate - increase dialysis frequency or duration" },
+    { below: 2.3, label: "Borderline", color: "yellow", severity: "warning", interpretation: "Borderline adequate" },
+    { label: "Adequate", color: "emerald", severity: "success", interpretation: "Adequate stdKt/V (≥2.3 recommended)" },
+  ],
+  urr: [
+    { below: 65, label: "Inadequate", color: "red", severity: "danger", interpretation: "Inadequate dialysis - increase session time or frequency" },
+    { below: 70, label: "Minimum Adequate", color: "green", severity: "success", interpretation: "Minimum adequate URR (≥65% minimum)" },
+    { label: "Optimal", color: "emerald", severity: "success", interpretation: "Optimal URR (≥70% recommended)" },
+  ],
+  "dialysis-urgency": [
+    { upTo: 2, label: "Low Urgency", color: "emerald", severity: "success", interpretation: "LOW (Score 0–2) — Conservative management appropriate. Monitor closely. No immediate RRT indication. Continue supportive care and reassess in 6–12h." },
+    { upTo: 5, label: "Moderate", color: "yellow", severity: "warning", interpretation: "MODERATE (Score 3–5) — Plan dialysis within 24h. Significant indications accumulating. Optimize medical management. Arrange vascular access and nephrology consult." },
+    { upTo: 8, label: "High Urgency", color: "orange", severity: "warning", interpretation: "HIGH URGENCY (Score 6–8) — Dialysis within hours. Multiple serious indications. Place urgent dialysis access. Temporize with medical management while arranging RRT." },
+    { label: "Emergent", color: "red", severity: "danger", interpretation: "EMERGENT (Score ≥9) — Immediate dialysis. Life-threatening indication present. Contact nephrology STAT for emergent RRT. Place dialysis catheter emergently if no access." },
+  ],
+
+  // ============================================================================
+  // TRANSPLANTATION
+  // ============================================================================
+  epts: [
+    { upTo: 20, label: "Excellent Candidate", color: "emerald", severity: "success", interpretation: "EPTS 0-20%: Highest longevity candidates (receive KDPI ≤20% kidneys first)" },
+    { upTo: 50, label: "Good Candidate", color: "green", severity: "success", interpretation: "EPTS 21-50%: Standard allocation, better than median expected post-transplant survival" },
+    { upTo: 80, label: "Average Candidate", color: "yellow", severity: "warning", interpretation: "EPTS 51-80%: Standard allocation" },
+    { label: "Higher Risk Candidate", color: "orange", severity: "warning", interpretation: "EPTS 81-100%: Standard allocation; consider higher-KDPI kidneys to shorten waiting time" },
+  ],
+  "bk-virus-assessment": [
+    { below: 1000, label: "Low-Level Viremia", color: "emerald", severity: "success" },
+    { below: 10000, label: "Moderate Viremia", color: "yellow", severity: "warning" },
+    { label: "High Viremia (Presumptive BKVN)", color: "red", severity: "danger" },
+  ],
+  "recurrence-risk-transplant": [
+    { upTo: 10, label: "Low Recurrence Risk", color: "emerald", severity: "success" },
+    { upTo: 30, label: "Moderate Risk", color: "yellow", severity: "warning" },
+    { upTo: 60, label: "High Risk", color: "orange", severity: "warning" },
+    { label: "Very High Risk", color: "red", severity: "danger" },
+  ],
+
+  // ============================================================================
+  // CARDIOVASCULAR AND ANTHROPOMETRIC
+  // ============================================================================
+  "ascvd-risk": [
+    { below: 5, label: "Low Risk", color: "emerald", severity: "success", interpretation: "Low risk (<5%)", recommendation: "low", urgency: "routine" },
+    { below: 7.5, label: "Borderline", color: "yellow", severity: "warning", interpretation: "Borderline risk (5-7.5%) - CKD is risk enhancer", recommendation: "borderline", urgency: "routine" },
+    { below: 20, label: "Intermediate Risk", color: "orange", severity: "warning", interpretation: "Intermediate risk (7.5-20%)", recommendation: "intermediate", urgency: "routine" },
+    { label: "High Risk", color: "red", severity: "danger", interpretation: "High risk (>20%)", recommendation: "high", urgency: "urgent" },
+  ],
+  bmi: [
+    { below: 18.5, label: "Underweight", color: "blue", severity: "info", interpretation: "Underweight" },
+    { below: 25, label: "Normal", color: "emerald", severity: "success", interpretation: "Normal weight" },
+    { below: 30, label: "Overweight", color: "yellow", severity: "warning", interpretation: "Overweight" },
+    { below: 35, label: "Obese Class I", color: "orange", severity: "warning", interpretation: "Obese Class I" },
+    { below: 40, label: "Obese Class II", color: "red-light", severity: "danger", interpretation: "Obese Class II" },
+    { label: "Obese Class III", color: "red-dark", severity: "danger", interpretation: "Obese Class III (Severe obesity)" },
+  ],
+
+  // ============================================================================
+  // CKD-MBD AND IRON
+  // ============================================================================
+  "phosphate-management": [
+    { below: 40, label: "Normal Product", color: "emerald", severity: "success" },
+    { below: 50, label: "Borderline", color: "yellow", severity: "warning" },
+    { below: 55, label: "Elevated Product", color: "orange", severity: "warning" },
+    { label: "High Risk (>55)", color: "red", severity: "danger" },
+  ],
+  "iron-deficit": [
+    { upTo: 500, label: "Mild Deficit", color: "emerald", severity: "success", interpretation: "Mild iron deficit — oral iron may suffice for non-dialysis CKD" },
+    { upTo: 1000, label: "Moderate Deficit", color: "yellow", severity: "warning", interpretation: "Moderate deficit — IV iron likely needed" },
+    { label: "Severe Deficit", color: "red", severity: "danger", interpretation: "Severe deficit — significant IV iron supplementation required" },
+  ],
+  "vancomycin-auc": [
+    { below: 400, label: "Subtherapeutic", color: "blue", severity: "info", interpretation: "AUC/MIC <400 — subtherapeutic. Increase dose or shorten interval. Risk of treatment failure and resistance emergence." },
+    { upTo: 600, label: "Therapeutic (400-600)", color: "emerald", severity: "success", interpretation: "AUC/MIC 400–600 — within ASHP/IDSA 2020 target. Continue current regimen. Recheck levels in 3–5 days or with renal function change." },
+    { label: "Supratherapeutic (Nephrotoxic)", color: "red", severity: "danger", interpretation: "AUC/MIC >600 — supratherapeutic. Reduce dose. Risk of nephrotoxicity (AKI risk increases linearly above AUC/MIC 600)." },
+  ],
+
+  // ============================================================================
+  // GLOMERULAR AND SYSTEMIC DISEASES
+  // ============================================================================
+  "complement-gn": [
+    { upTo: 0, label: "Normal Complement", color: "emerald", severity: "success" },
+    { upTo: 1, label: "Low C4 Only", color: "yellow", severity: "warning" },
+    { upTo: 2, label: "Low C3 Only", color: "orange", severity: "warning" },
+    { label: "Low C3 + Low C4", color: "red", severity: "danger" },
+  ],
+  "nephrotic-assessment": [
+    { below: 2, label: "Very High Thrombotic Risk", color: "red", severity: "danger" },
+    { below: 2.5, label: "High Thrombotic Risk", color: "orange", severity: "warning" },
+    { below: 3.5, label: "Low Albumin", color: "yellow", severity: "warning" },
+    { label: "Normal Albumin", color: "emerald", severity: "success" },
+  ],
+  "creatinine-trajectory": [
+    { upTo: -0.1, label: "Falling (Recovering)", color: "emerald", severity: "success" },
+    { below: 0.1, label: "Plateau", color: "yellow", severity: "warning" },
+    { upTo: 0.5, label: "Rising", color: "orange", severity: "warning" },
+    { label: "Rapidly Rising", color: "red", severity: "danger" },
+  ],
+  "bvas-v3": [
+    { upTo: 0, label: "Remission", color: "emerald", severity: "success", interpretation: "BVAS 0 — Remission. Continue maintenance therapy. Monitor for relapse." },
+    { upTo: 9, label: "Low Activity", color: "yellow", severity: "warning", interpretation: "BVAS 1–9 — Low activity. Consider treatment optimization. May represent grumbling disease or minor flare. Repeat in 2–4 weeks to confirm trend." },
+    { upTo: 19, label: "Moderate Activity", color: "orange", severity: "warning", interpretation: "BVAS 10–19 — Moderate activity. Active vasculitis requiring treatment escalation. Consider pulse steroids + cyclophosphamide or rituximab induction." },
+    { label: "Severe Activity", color: "red", severity: "danger", interpretation: "BVAS ≥20 — Severe/life-threatening activity. Urgent induction therapy: pulse methylprednisolone 500–1000 mg × 3 days + cyclophosphamide or rituximab. Consider plasma exchange if pulmonary hemorrhage or severe renal disease (PEXIVAS)." },
+  ],
+  "sledai-2k": [
+    { upTo: 0, label: "Inactive", color: "emerald", severity: "success", interpretation: "Remission - no active disease" },
+    { upTo: 5, label: "Mild Activity", color: "green", severity: "success", interpretation: "Mild disease activity" },
+    { upTo: 10, label: "Moderate Activity", color: "yellow", severity: "warning", interpretation: "Moderate disease activity" },
+    { upTo: 20, label: "High Activity", color: "orange", severity: "warning", interpretation: "High disease activity" },
+    { label: "Very High Activity", color: "red", severity: "danger", interpretation: "Very high disease activity - requires aggressive treatment" },
+  ],
+  "slicc-2012": [
+    { below: 4, label: "Does Not Meet Criteria", color: "emerald", severity: "success", interpretation: "Does not meet SLICC 2012 SLE classification criteria" },
+    { label: "Meets SLE Criteria", color: "purple", severity: "info", interpretation: "Meets SLICC 2012 SLE classification criteria" },
+  ],
+  "das28-esr": [
+    { below: 2.6, label: "Remission", color: "emerald", severity: "success", interpretation: "Remission (DAS28 <2.6). Target achieved per treat-to-target strategy. Continue current DMARD therapy, monitor every 3–6 months. Consider tapering biologics if sustained remission >6 months." },
+    { upTo: 3.2, label: "Low Disease Activity", color: "blue", severity: "info", interpretation: "Low disease activity (DAS28 2.6–3.2). Acceptable alternative target if remission is not achievable. Optimize current DMARD therapy, consider dose adjustment. Monitor every 3–6 months." },
+    { upTo: 5.1, label: "Moderate Disease Activity", color: "orange", severity: "warning", interpretation: "Moderate disease activity (DAS28 3.2–5.1). Treatment escalation recommended. Consider adding or switching DMARDs (methotrexate, leflunomide, sulfasalazine). If failing conventional DMARDs, consider biologic or targeted synthetic DMARDs (TNF inhibitors, IL-6 inhibitors, JAK inhibitors)." },
+    { label: "High Disease Activity", color: "red", severity: "danger", interpretation: "High disease activity (DAS28 >5.1). Aggressive treatment escalation required. Initiate or switch biologic/targeted synthetic DMARD. Consider short-course glucocorticoid bridging (≤3 months). Reassess in 1–3 months. Screen for extra-articular manifestations (interstitial lung disease, vasculitis, secondary amyloidosis)." },
+  ],
+  roks: [
+    { below: 20, label: "Low Recurrence Risk", color: "emerald", severity: "success", interpretation: "Low recurrence risk" },
+    { below: 50, label: "Moderate Risk", color: "yellow", severity: "warning", interpretation: "Moderate recurrence risk" },
+    { label: "High Recurrence Risk", color: "orange", severity: "warning", interpretation: "High recurrence risk - aggressive prevention recommended" },
+  ],
+
+  // ============================================================================
+  // GERIATRICS AND BONE
+  // ============================================================================
+  "frail-scale": [
+    { upTo: 0, label: "Robust", color: "emerald", severity: "success", interpretation: "Not frail (robust)" },
+    { upTo: 2, label: "Pre-Frail", color: "yellow", severity: "warning", interpretation: "Pre-frail" },
+    { label: "Frail", color: "red", severity: "danger", interpretation: "Frail - higher mortality and morbidity risk" },
+  ],
+  "prisma-7": [
+    { upTo: 3, label: "Negative Screen", color: "emerald", severity: "success", interpretation: "Negative screen (0-3) — frailty unlikely" },
+    { label: "Positive Screen — Frailty Likely", color: "red", severity: "danger", interpretation: "Positive screen (≥4) — further comprehensive geriatric assessment recommended" },
+  ],
+  "frax-simplified": [
+    { below: 10, label: "Low Fracture Risk", color: "emerald", severity: "success", interpretation: "Low fracture risk - lifestyle measures recommended" },
+    { below: 20, label: "Moderate Risk", color: "yellow", severity: "warning", interpretation: "Moderate fracture risk - consider pharmacotherapy" },
+    { label: "High Fracture Risk", color: "red", severity: "danger", interpretation: "High fracture risk - pharmacotherapy strongly recommended" },
+  ],
+
+  // ============================================================================
+  // CRITICAL CARE
+  // ============================================================================
+  "curb-65": [
+    { upTo: 0, label: "Low Risk", color: "emerald", severity: "success", interpretation: "Low risk (0.7% mortality) - outpatient treatment" },
+    { upTo: 1, label: "Low-Intermediate Risk", color: "green", severity: "success", interpretation: "Low-intermediate risk (2.1% mortality) - consider hospitalization" },
+    { upTo: 2, label: "Intermediate Risk", color: "yellow", severity: "warning", interpretation: "Intermediate risk (9.2% mortality) - hospitalize" },
+    { upTo: 3, label: "High Risk", color: "red-light", severity: "danger", interpretation: "High risk (14.5% mortality) - hospitalize, consider ICU" },
+    { label: "Very High Risk", color: "red-dark", severity: "danger", interpretation: "Very high risk (>40% mortality) - ICU admission" },
+  ],
+  qsofa: [
+    { upTo: 0, label: "Low Risk", color: "emerald", severity: "success", interpretation: "Low Score - Does not exclude sepsis. Continue clinical assessment." },
+    { upTo: 1, label: "Intermediate Risk", color: "yellow", severity: "warning", interpretation: "Intermediate - Monitor closely. qSOFA has low sensitivity." },
+    { label: "High Risk - Sepsis Likely", color: "red", severity: "danger", interpretation: "HIGH RISK - High risk of poor outcome. Escalate care immediately." },
+  ],
+  news2: [
+    { upTo: 0, label: "Low Risk", color: "emerald", severity: "success", interpretation: "Low Risk - Continue routine monitoring per ward protocol." },
+    { upTo: 4, label: "Low-Medium Risk", color: "green", severity: "success", interpretation: "Low-Medium Risk - Assess by registered nurse. Consider increased monitoring." },
+    { upTo: 6, label: "Medium Risk", color: "yellow", severity: "warning", interpretation: "MEDIUM RISK - Urgent review within 30-60 min. Consider sepsis bundle." },
+    { label: "High Risk - Urgent Response", color: "red", severity: "danger", interpretation: "HIGH RISK - Emergency assessment by critical care team. ICU referral likely." },
+  ],
+  sofa: [
+    { upTo: 1, label: "Minimal Dysfunction", color: "emerald", severity: "success", interpretation: "Low - Minimal organ dysfunction. Continue routine assessment." },
+    { upTo: 5, label: "Moderate Dysfunction", color: "yellow", severity: "warning", interpretation: "MODERATE - Organ dysfunction present. If acute rise ≥2 + infection = sepsis." },
+    { upTo: 10, label: "Severe Dysfunction", color: "orange", severity: "warning", interpretation: "HIGH - Significant organ dysfunction. ICU-level care required." },
+    { label: "Critical - High Mortality", color: "red", severity: "danger", interpretation: "VERY HIGH - Critical organ dysfunction (~50%+ mortality). Maximum support needed." },
+  ],
+  "wells-pe": [
+    { below: 2, label: "Low Probability", color: "emerald", severity: "success", interpretation: "LOW PROBABILITY - <10% risk. D-dimer to rule out; if negative, PE unlikely." },
+    { upTo: 6, label: "Moderate Probability", color: "yellow", severity: "warning", interpretation: "MODERATE PROBABILITY - 20-50% risk. D-dimer or imaging recommended." },
+    { label: "High Probability - PE Likely", color: "red", severity: "danger", interpretation: "HIGH PROBABILITY - >50% risk of PE. Consider immediate anticoagulation and imaging." },
+  ],
+  "wells-dvt": [
+    { upTo: 0, label: "Low Probability", color: "emerald", severity: "success", interpretation: "LOW PROBABILITY - ~3% risk. D-dimer to rule out; if negative, DVT unlikely." },
+    { upTo: 2, label: "Moderate Probability", color: "yellow", severity: "warning", interpretation: "MODERATE PROBABILITY - ~17% risk. D-dimer or ultrasound recommended." },
+    { label: "High Probability - DVT Likely", color: "red", severity: "danger", interpretation: "HIGH PROBABILITY - ~75% risk of DVT. Ultrasound recommended." },
+  ],
+  gcs: [
+    { upTo: 8, label: "Severe Brain Injury", color: "red", severity: "danger", interpretation: "SEVERE - Coma. Intubation usually indicated for airway protection." },
+    { upTo: 12, label: "Moderate Brain Injury", color: "yellow", severity: "warning", interpretation: "MODERATE - Significant impairment. Close monitoring required." },
+    { label: "Mild Brain Injury", color: "emerald", severity: "success", interpretation: "MILD - Minor impairment (13-15). Continue neurological monitoring." },
+  ],
+  pesi: [
+    { upTo: 65, label: "Class I - Very Low Risk", color: "emerald", severity: "success", interpretation: "CLASS I (Very Low Risk) - 0-1.6% 30-day mortality. Outpatient treatment may be appropriate." },
+    { upTo: 85, label: "Class II - Low Risk", color: "green", severity: "success", interpretation: "CLASS II (Low Risk) - 1.7-3.5% 30-day mortality. Consider early discharge." },
+    { upTo: 105, label: "Class III - Intermediate Risk", color: "yellow", severity: "warning", interpretation: "CLASS III (Intermediate Risk) - 3-7% 30-day mortality. Consider inpatient care." },
+    { upTo: 125, label: "Class IV - High Risk", color: "orange", severity: "warning", interpretation: "CLASS IV (High Risk) - 4-11% 30-day mortality. Inpatient treatment required." },
+    { label: "Class V - Very High Risk", color: "red", severity: "danger", interpretation: "CLASS V (Very High Risk) - 10-25% 30-day mortality. ICU admission recommended." },
+  ],
+  apache2: [
+    { below: 10, label: "Low Risk (<10% mortality)", color: "emerald", severity: "success", interpretation: "LOW RISK - <10% predicted mortality. Continue standard ICU care." },
+    { below: 15, label: "Low-Moderate (~15% mortality)", color: "green", severity: "success", interpretation: "LOW-MODERATE RISK - ~15% predicted mortality." },
+    { below: 25, label: "Moderate (~25% mortality)", color: "yellow", severity: "warning", interpretation: "MODERATE RISK - ~25% predicted mortality. Close ICU monitoring." },
+    { below: 35, label: "High (~55% mortality)", color: "red-light", severity: "danger", interpretation: "HIGH RISK - ~55% predicted mortality. Aggressive ICU management needed." },
+    { label: "Very High (~85% mortality)", color: "red-dark", severity: "danger", interpretation: "VERY HIGH RISK - ~85% predicted mortality. Maximum ICU support indicated." },
+  ],
+  sirs: [
+    { upTo: 0, label: "No SIRS Criteria Met", color: "emerald", severity: "success", interpretation: "SIRS NEGATIVE - No criteria met. SIRS not present, but does not rule out infection." },
+    { upTo: 1, label: "1 Criterion - Monitor", color: "yellow", severity: "warning", interpretation: "SIRS NEGATIVE - 1 criterion met. SIRS not present; monitor for further criteria. Does not rule out infection." },
+    { label: "SIRS Positive", color: "red", severity: "danger", interpretation: "SIRS POSITIVE - >=2 criteria met. If infection suspected, consider sepsis. Evaluate for source and initiate workup." },
+  ],
+  genevaRevised: [
+    { upTo: 3, label: "Low Probability (~8%)", color: "emerald", severity: "success", interpretation: "LOW PROBABILITY - PE prevalence ~8%. D-dimer testing; if negative, PE can be safely ruled out." },
+    { upTo: 10, label: "Intermediate Probability (~28%)", color: "yellow", severity: "warning", interpretation: "INTERMEDIATE PROBABILITY - PE prevalence ~28%. D-dimer testing recommended; if positive, proceed to CTPA." },
+    { label: "High Probability (~74%)", color: "red", severity: "danger", interpretation: "HIGH PROBABILITY - PE prevalence ~74%. Proceed directly to CTPA or treatment if CTPA unavailable." },
+  ],
+  hasbled: [
+    { upTo: 1, label: "Low Bleeding Risk", color: "emerald", severity: "success", interpretation: "LOW BLEEDING RISK - Annual major bleeding risk ~1-3%. Anticoagulation generally safe." },
+    { upTo: 2, label: "Moderate Bleeding Risk", color: "yellow", severity: "warning", interpretation: "MODERATE BLEEDING RISK - Annual major bleeding risk ~4%. Consider modifiable risk factors." },
+    { upTo: 3, label: "High Bleeding Risk", color: "orange", severity: "warning", interpretation: "HIGH BLEEDING RISK - Annual major bleeding risk ~6%. Caution with anticoagulation, address modifiable factors." },
+    { label: "Very High Bleeding Risk", color: "red", severity: "danger", interpretation: "VERY HIGH BLEEDING RISK - Annual major bleeding risk >9%. Carefully weigh risks vs benefits. Consider alternatives." },
+  ],
+  perc: [
+    { upTo: 0, label: "PERC Negative - PE Ruled Out", color: "emerald", severity: "success", interpretation: "PERC NEGATIVE - All 8 criteria negative. In low pretest probability patients, PE can be ruled out without D-dimer testing. <2% miss rate." },
+    { label: "PERC Positive - Cannot Rule Out PE", color: "red", severity: "danger", interpretation: "PERC POSITIVE - Cannot rule out PE with PERC alone. Proceed with D-dimer testing or further workup based on clinical probability." },
+  ],
+};
+
+export function getSeverityBand(calculatorId: string, value: number): SeverityBand | null {
+  const bands = severityBands[calculatorId];
+  // NaN fails every bound, so it would otherwise land in the open-ended last band
+  if (!bands || !Number.isFinite(value)) return null;
+  return (
+    bands.find((band) => (band.below !== undefined ? value < band.below : band.upTo !== undefined ? value <= band.upTo : true)) ?? null
+  );
+}
+
+export function bandColorCoding(band: SeverityBand): ColorResult {
+  return { ...bandColorClasses[band.color], label: band.label, severity: band.severity };
+}
+
+/** Interpretation for calculators whose bands carry the text, e.g. `interpretation: bandInterpretation("bmi")` */
+export function bandInterpretation(calculatorId: string): (value: number) => string {
+  return (value) => getSeverityBand(calculatorId, value)?.interpretation ?? "";
+}
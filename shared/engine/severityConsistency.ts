@@ -0,0 +1,119 @@
+/**
+ * Severity Consistency Check
+ * Samples each calculator's result range and compares the three places a
+ * result is classified: the interpretation text, the color coding and the
+ * clinical recommendation (with its urgency). Reports thresholds where one
+ * source changes category and another doesn't, and urgencies that don't fit
+ * the color severity.
+ *
+ * Example (Node):
+ *   import { checkSeverityConsistency } from "@shared/engine";
+ *   for (const issue of checkSeverityConsistency()) console.log(issue.calculatorId, issue.message);
+ */
+import { calculators, type Calculator, type ResultSeverity } from "./calculatorData";
+import { getRecommendationKey, getRecommendations, type ClinicalRecommendation } from "./clinicalRecommendations";
+import { getValueColorCoding } from "./resultColorCoding";
+import { severityBands } from "./severityBands";
+
+export interface SeverityConsistencyIssue {
+  calculatorId: string;
+  /** Result value where the disagreement shows */
+  value: number;
+  message: string;
+}
+
+interface Classification {
+  interpretation: string | null;
+  color: { label: string; severity: ResultSeverity } | null;
+  recommendation: { key: string; urgency?: ClinicalRecommendation["urgency"] } | null;
+}
+
+// Urgencies each color severity can carry
+const urgencyBySeverity: Record<ResultSeverity, NonNullable<ClinicalRecommendation["urgency"]>[]> = {
+  success: ["routine"],
+  info: ["routine"],
+  neutral: ["routine"],
+  warning: ["routine", "urgent"],
+  danger: ["urgent", "emergent"],
+};
+
+// Results from -100 to 20,000, finest near zero (whole numbers for point
+// scores); thresholds declared in bands and reference ranges are added so
+// each one is hit exactly
+function sampleValues(calculator: Calculator): number[] {
+  const values = new Set<number>();
+  const isScore = calculator.resultUnit === "points";
+  if (!isScore) for (let i = -10000; i <= 10000; i++) values.add(i / 100);
+  for (let i = isScore ? -100 : 100; i <= 3000; i++) values.add(i);
+  for (let i = 3000; i <= 20000; i += 50) values.add(i);
+  if (isScore) return Array.from(values).sort((a, b) => a - b);
+  for (const band of severityBands[calculator.id] ?? []) {
+    for (const bound of [band.below, band.upTo]) if (bound !== undefined) values.add(bound);
+  }
+  for (const range of calculator.referenceRanges ?? []) {
+    for (const bound of [range.min, range.max]) if (bound !== undefined) values.add(bound);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function classify(calculator: Calculator, value: number): Classification {
+  // Interpretations that read other inputs can't be sampled by value alone
+  let interpretation: string | null = null;
+  if (calculator.interpretation.length < 2) {
+    try {
+      interpretation = calculator.interpretation(value, {});
+    } catch {
+      interpretation = null;
+    }
+  }
+  const coding = getValueColorCoding(calculator.id, value, {});
+  const key = getRecommendationKey(calculator.id, value);
+  return {
+    interpretation,
+    color: coding ? { label: coding.label, severity: coding.severity } : null,
+    recommendation: key ? { key, urgency: getRecommendations(calculator.id, key)?.urgency } : null,
+  };
+}
+
+/** Disagreements between interpretation, color coding and recommendations for one calculator */
+export function checkCalculatorSeverity(calculator: Calculator): SeverityConsistencyIssue[] {
+  const issues: SeverityConsistencyIssue[] = [];
+  const report = (value: number, message: string) => {
+    // One report per kind of disagreement is enough to find it
+    if (!issues.some((issue) => issue.message === message)) issues.push({ calculatorId: calculator.id, value, message });
+  };
+
+  let previous: { value: number; classification: Classification } | null = null;
+  for (const value of sampleValues(calculator)) {
+    const current = classify(calculator, value);
+    const { color, recommendation, interpretation } = current;
+    if (color && recommendation) {
+      if (recommendation.urgency && !urgencyBySeverity[color.severity].includes(recommendation.urgency)) {
+        report(value, `"${recommendation.key}" recommendation is ${recommendation.urgency} but the color is ${color.severity} ("${color.label}")`);
+      }
+      if (!getRecommendations(calculator.id, recommendation.key)) {
+        report(value, `Recommendation "${recommendation.key}" is not defined`);
+      }
+    }
+    if (previous) {
+      const before = previous.classification;
+      const colorChanged = !!color && !!before.color && color.label !== before.color.label;
+      const interpretationChanged = interpretation !== before.interpretation;
+      const recommendationChanged = !!recommendation && !!before.recommendation && recommendation.key !== before.recommendation.key;
+      const between = `between ${previous.value} and ${value}`;
+      if (colorChanged && interpretation !== null && !interpretationChanged) {
+        report(value, `Color changes from "${before.color!.label}" to "${color!.label}" ${between} but the interpretation does not`);
+      }
+      if (recommendationChanged && color && !colorChanged) {
+        report(value, `Recommendation changes from "${before.recommendation!.key}" to "${recommendation!.key}" ${between} but the color stays "${color.label}"`);
+      }
+    }
+    previous = { value, classification: current };
+  }
+  return issues;
+}
+
+/** Disagreements across every calculator */
+export function checkSeverityConsistency(): SeverityConsistencyIssue[] {
+  return calculators.flatMap(checkCalculatorSeverity);
+}
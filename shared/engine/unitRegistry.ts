@@ -0,0 +1,237 @@
+/**
+ * Unit Registry
+ * Analytes with their molecular weight and valence, the units labs are
+ * reported in, and the unit types calculator inputs declare. Conversion
+ * factors are derived from these (mg/dL ↔ mmol/L through the molecular
+ * weight, mmol/L ↔ mEq/L through the valence) instead of being written out
+ * per input, so every toggle, importer and tooltip converts the same way.
+ */
+
+export interface Analyte {
+  label: string;
+  /** g/mol of the species mass units count */
+  molecularWeight?: number;
+  /** Charge per molecule, for mEq/L */
+  valence?: number;
+}
+
+export const analytes = {
+  creatinine: { label: "Creatinine", molecularWeight: 113.12 },
+  // Mass units count urea nitrogen (2 N per urea molecule); molar units count urea
+  bun: { label: "Urea nitrogen", molecularWeight: 28.014 },
+  glucose: { label: "Glucose", molecularWeight: 180.16 },
+  albumin: { label: "Albumin" },
+  protein: { label: "Protein" },
+  hemoglobin: { label: "Hemoglobin" },
+  calcium: { label: "Calcium", molecularWeight: 40.08, valence: 2 },
+  // Inorganic phosphate is reported as elemental phosphorus
+  phosphate: { label: "Phosphate", molecularWeight: 30.974 },
+  magnesium: { label: "Magnesium", molecularWeight: 24.305, valence: 2 },
+  uricAcid: { label: "Uric acid", molecularWeight: 168.11 },
+  cholesterol: { label: "Cholesterol", molecularWeight: 386.65 },
+  bilirubin: { label: "Bilirubin", molecularWeight: 584.66 },
+  cystatinC: { label: "Cystatin C", molecularWeight: 13343 },
+  // Intact PTH (1-84)
+  pth: { label: "PTH", molecularWeight: 9425 },
+  // 25-hydroxyvitamin D3
+  vitaminD: { label: "25-OH vitamin D", molecularWeight: 400.64 },
+  sodium: { label: "Sodium", molecularWeight: 22.99, valence: 1 },
+  potassium: { label: "Potassium", molecularWeight: 39.098, valence: 1 },
+  chloride: { label: "Chloride", molecularWeight: 35.45, valence: 1 },
+  bicarbonate: { label: "Bicarbonate", molecularWeight: 61.017, valence: 1 },
+  osmolality: { label: "Osmolality" },
+  height: { label: "Height" },
+} satisfies Record<string, Analyte>;
+
+export type AnalyteId = keyof typeof analytes;
+
+type Dimension =
+  | "massConcentration"
+  | "substanceConcentration"
+  | "chargeConcentration"
+  | "mass"
+  | "amount"
+  | "creatinineRatio"
+  | "osmolality"
+  | "length";
+
+export interface UnitDefinition {
+  dimension: Dimension;
+  /**
+   * Size in the dimension's base unit: g/L, mol/L, Eq/L, g, mol, mg per mg
+   * creatinine, mOsm/kg, cm
+   */
+  scale: number;
+  /** g/mol when the unit counts a different species than the analyte (urea rather than urea nitrogen) */
+  molecularWeight?: number;
+  /** Bare unit for FHIR and lab exports, when the id names the species too */
+  symbol?: string;
+  /** Unit as input labels show it, when not the id */
+  label?: string;
+}
+
+const UREA_MOLECULAR_WEIGHT = 60.06;
+
+export const unitDefinitions: Record<string, UnitDefinition> = {
+  "g/dL": { dimension: "massConcentration", scale: 10 },
+  "g/L": { dimension: "massConcentration", scale: 1 },
+  "mg/dL": { dimension: "massConcentration", scale: 0.01 },
+  "mg/L": { dimension: "massConcentration", scale: 1e-3 },
+  "μg/mL": { dimension: "massConcentration", scale: 1e-3 },
+  "ng/mL": { dimension: "massConcentration", scale: 1e-6 },
+  "pg/mL": { dimension: "massConcentration", scale: 1e-9 },
+  "mmol/L": { dimension: "substanceConcentration", scale: 1e-3 },
+  "μmol/L": { dimension: "substanceConcentration", scale: 1e-6 },
+  "nmol/L": { dimension: "substanceConcentration", scale: 1e-9 },
+  "pmol/L": { dimension: "substanceConcentration", scale: 1e-12 },
+  "mEq/L": { dimension: "chargeConcentration", scale: 1e-3 },
+  g: { dimension: "mass", scale: 1 },
+  mg: { dimension: "mass", scale: 1e-3 },
+  "μg": { dimension: "mass", scale: 1e-6 },
+  mmol: { dimension: "amount", scale: 1e-3 },
+  "μmol": { dimension: "amount", scale: 1e-6 },
+  "mg/mg": { dimension: "creatinineRatio", scale: 1 },
+  "g/g": { dimension: "creatinineRatio", scale: 1 },
+  "mg/g": { dimension: "creatinineRatio", scale: 1e-3 },
+  // Per mmol of creatinine, i.e. per 113.12 mg
+  "mg/mmol": { dimension: "creatinineRatio", scale: 1 / analytes.creatinine.molecularWeight },
+  "mOsm/kg": { dimension: "osmolality", scale: 1 },
+  "mmol/kg": { dimension: "osmolality", scale: 1 },
+  cm: { dimension: "length", scale: 1 },
+  in: { dimension: "length", scale: 2.54 },
+  // BUN/Urea toggle choices name the reported species
+  "BUN (mg/dL)": { dimension: "massConcentration", scale: 0.01, molecularWeight: analytes.bun.molecularWeight, symbol: "mg/dL", label: "mg/dL (BUN)" },
+  "BUN (mmol/L)": { dimension: "substanceConcentration", scale: 1e-3, symbol: "mmol/L", label: "mmol/L (BUN)" },
+  "Urea (mg/dL)": { dimension: "massConcentration", scale: 0.01, molecularWeight: UREA_MOLECULAR_WEIGHT, symbol: "mg/dL", label: "mg/dL (Urea)" },
+  "Urea (mmol/L)": { dimension: "substanceConcentration", scale: 1e-3, symbol: "mmol/L", label: "mmol/L (Urea)" },
+};
+
+/** Dimensions that convert into each other through moles */
+const molarGroups: Partial<Record<Dimension, string>> = {
+  massConcentration: "concentration",
+  substanceConcentration: "concentration",
+  chargeConcentration: "concentration",
+  mass: "quantity",
+  amount: "quantity",
+};
+
+// Base units per mole: grams for mass units, equivalents for charge units
+function perMole(unit: UnitDefinition, analyte: Analyte): number | undefined {
+  switch (unit.dimension) {
+    case "massConcentration":
+    case "mass":
+      return unit.molecularWeight ?? analyte.molecularWeight;
+    case "chargeConcentration":
+      return analyte.valence;
+    default:
+      return 1;
+  }
+}
+
+/** Multiply by this to go from one unit to the other, or null when the analyte can't be converted between them */
+export function conversionFactor(analyteId: AnalyteId, from: string, to: string): number | null {
+  const source = unitDefinitions[from];
+  const target = unitDefinitions[to];
+  if (!source || !target) return null;
+  if (source.dimension === target.dimension && source.molecularWeight === target.molecularWeight) {
+    return source.scale / target.scale;
+  }
+  const group = molarGroups[source.dimension];
+  const analyte: Analyte = analytes[analyteId];
+  const sourcePerMole = perMole(source, analyte);
+  const targetPerMole = perMole(target, analyte);
+  if (!group || group !== molarGroups[target.dimension] || !sourcePerMole || !targetPerMole) return null;
+  return (source.scale / sourcePerMole) * (targetPerMole / target.scale);
+}
+
+export function convertUnit(analyteId: AnalyteId, value: number, from: string, to: string): number {
+  if (from === to) return value;
+  const factor = conversionFactor(analyteId, from, to);
+  if (factor === null) {
+    throw new Error(`${analytes[analyteId].label} cannot be converted from ${from} to ${to}`);
+  }
+  return value * factor;
+}
+
+export function unitSymbol(unit: string): string {
+  return unitDefinitions[unit]?.symbol ?? unit;
+}
+
+export function unitLabel(unit: string): string {
+  return unitDefinitions[unit]?.label ?? unit;
+}
+
+/** What an input measures and which units its toggle offers */
+export interface UnitType {
+  analyte: AnalyteId;
+  /** Unit compute functions receive the value in */
+  canonical: string;
+  /** Toggle choices in display order; the first is the default when there is no preference */
+  units: string[];
+  /**
+   * Units the global conventional/SI preference selects. Two-unit toggles
+   * with a preference store "conventional" | "si" rather than the unit.
+   */
+  preference?: { conventional: string; si: string };
+  /** Further units the conversion tooltip shows but the toggle doesn't offer */
+  equivalents?: string[];
+}
+
+function conventionalOrSI(analyte: AnalyteId, conventional: string, si: string, equivalents?: string[]): UnitType {
+  return { analyte, canonical: conventional, units: [conventional, si], preference: { conventional, si }, equivalents };
+}
+
+function fixedUnit(analyte: AnalyteId, unit: string, equivalents: string[]): UnitType {
+  return { analyte, canonical: unit, units: [unit], equivalents };
+}
+
+export const unitTypes = {
+  creatinine: conventionalOrSI("creatinine", "mg/dL", "μmol/L"),
+  // Spot urine creatinine for the 24-hour protein estimate
+  urineCreatinineConcentration: { analyte: "creatinine", canonical: "mg/dL", units: ["mg/dL", "mmol/L"] },
+  // Urine creatinine amounts in the uACR and UPCR ratios
+  urineCreatinineGrams: { analyte: "creatinine", canonical: "g", units: ["g", "mg", "μmol"] },
+  urineCreatinineMilligrams: { analyte: "creatinine", canonical: "mg", units: ["mg", "g", "μmol"] },
+  bunUrea: {
+    analyte: "bun",
+    canonical: "BUN (mg/dL)",
+    units: ["BUN (mg/dL)", "BUN (mmol/L)", "Urea (mg/dL)", "Urea (mmol/L)"],
+    preference: { conventional: "BUN (mg/dL)", si: "BUN (mmol/L)" },
+  },
+  glucose: conventionalOrSI("glucose", "mg/dL", "mmol/L"),
+  albumin: conventionalOrSI("albumin", "g/dL", "g/L"),
+  hemoglobin: conventionalOrSI("hemoglobin", "g/dL", "g/L"),
+  calcium: conventionalOrSI("calcium", "mg/dL", "mmol/L", ["mEq/L"]),
+  phosphate: conventionalOrSI("phosphate", "mg/dL", "mmol/L"),
+  magnesium: conventionalOrSI("magnesium", "mg/dL", "mmol/L", ["mEq/L"]),
+  uricAcid: conventionalOrSI("uricAcid", "mg/dL", "μmol/L"),
+  cholesterol: conventionalOrSI("cholesterol", "mg/dL", "mmol/L"),
+  bilirubin: conventionalOrSI("bilirubin", "mg/dL", "μmol/L"),
+  cystatinC: conventionalOrSI("cystatinC", "mg/L", "μmol/L"),
+  pth: conventionalOrSI("pth", "pg/mL", "pmol/L"),
+  vitaminD: conventionalOrSI("vitaminD", "ng/mL", "nmol/L"),
+  urineAlbumin: conventionalOrSI("albumin", "mg", "μg"),
+  urineProtein: conventionalOrSI("protein", "mg", "g"),
+  urineProteinConcentration: { analyte: "protein", canonical: "mg/dL", units: ["mg/dL", "g/L", "mg/L"] },
+  // Ratios to urine creatinine
+  acr: { analyte: "albumin", canonical: "mg/g", units: ["mg/mmol", "mg/g", "mg/mg"] },
+  pcr: conventionalOrSI("protein", "g/g", "mg/mmol"),
+  upcr: { analyte: "protein", canonical: "g/g", units: ["mg/mmol", "mg/g", "g/g"] },
+  spotUrineRatio: { analyte: "protein", canonical: "mg/mg", units: ["mg/mmol", "mg/g", "mg/mg"] },
+  // Stored "conventional" | "si" selections from before the registry still mean cm | in
+  height: { analyte: "height", canonical: "cm", units: ["cm", "in"] },
+  sodium: fixedUnit("sodium", "mEq/L", ["mmol/L"]),
+  potassium: fixedUnit("potassium", "mEq/L", ["mmol/L"]),
+  chloride: fixedUnit("chloride", "mEq/L", ["mmol/L"]),
+  bicarbonate: fixedUnit("bicarbonate", "mEq/L", ["mmol/L"]),
+  osmolality: fixedUnit("osmolality", "mOsm/kg", ["mmol/kg"]),
+} satisfies Record<string, UnitType>;
+
+export type UnitTypeId = keyof typeof unitTypes;
+
+/** A registered unit spelled like `unit`, ignoring case, spacing, µ/μ and UCUM {annotations} */
+export function findUnit(unit: string): string | undefined {
+  const normalize = (u: string) => u.replace(/\{.*?\}/g, "").replace(/[µμ]/g, "u").replace(/\s+/g, "").toLowerCase();
+  const wanted = normalize(unit);
+  return Object.keys(unitDefinitions).find((id) => normalize(id) === wanted);
+}
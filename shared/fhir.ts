@@ -0,0 +1,124 @@
+/**
+ * FHIR R4 Subset
+ * The resource fields the app reads and writes, plus small helpers for
+ * walking Bundles. Not a complete FHIR model.
+ */
+
+export interface Coding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding?: Coding[];
+  text?: string;
+}
+
+export interface Quantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface Reference {
+  reference?: string;
+  display?: string;
+}
+
+export interface Annotation {
+  text: string;
+}
+
+export interface ObservationComponent {
+  code: CodeableConcept;
+  valueQuantity?: Quantity;
+  valueString?: string;
+}
+
+export interface Observation {
+  resourceType: "Observation";
+  id?: string;
+  status?: string;
+  category?: CodeableConcept[];
+  code: CodeableConcept;
+  subject?: Reference;
+  valueQuantity?: Quantity;
+  valueString?: string;
+  effectiveDateTime?: string;
+  issued?: string;
+  performer?: Reference[];
+  interpretation?: CodeableConcept[];
+  note?: Annotation[];
+  method?: CodeableConcept;
+  derivedFrom?: Reference[];
+  component?: ObservationComponent[];
+}
+
+export interface DiagnosticReport {
+  resourceType: "DiagnosticReport";
+  id?: string;
+  status: string;
+  code: CodeableConcept;
+  subject?: Reference;
+  effectiveDateTime?: string;
+  issued?: string;
+  performer?: Reference[];
+  result?: Reference[];
+  conclusion?: string;
+}
+
+export interface Patient {
+  resourceType: "Patient";
+  id?: string;
+  birthDate?: string;
+  gender?: "male" | "female" | "other" | "unknown";
+}
+
+export interface MedicationRequest {
+  resourceType: "MedicationRequest";
+  id?: string;
+  status?: string;
+  medicationCodeableConcept?: CodeableConcept;
+}
+
+export interface Bundle {
+  resourceType: "Bundle";
+  type?: string;
+  entry?: { fullUrl?: string; resource?: FhirResource }[];
+}
+
+export type FhirResource =
+  | Observation
+  | DiagnosticReport
+  | Patient
+  | MedicationRequest
+  | Bundle
+  | { resourceType: string; id?: string };
+
+export const LOINC_SYSTEM = "http://loinc.org";
+export const UCUM_SYSTEM = "http://unitsofmeasure.org";
+
+/** Resources of one type from a Bundle, a bare resource, or an array of resources */
+export function bundleResources<T extends FhirResource>(
+  resource: FhirResource | FhirResource[] | null | undefined,
+  resourceType: T["resourceType"]
+): T[] {
+  if (!resource) return [];
+  if (Array.isArray(resource)) {
+    return resource.filter((r): r is T => r?.resourceType === resourceType);
+  }
+  if (resource.resourceType === "Bundle" && resourceType !== "Bundle") {
+    const entries = (resource as Bundle).entry;
+    return (Array.isArray(entries) ? entries : [])
+      .map((e) => e?.resource)
+      .filter((r): r is T => r?.resourceType === resourceType);
+  }
+  return resource.resourceType === resourceType ? [resource as T] : [];
+}
+
+/** When an Observation was collected (effective time, falling back to issued) */
+export function observationTime(observation: Observation): string {
+  return observation.effectiveDateTime ?? observation.issued ?? "";
+}
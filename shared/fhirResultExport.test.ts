@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { computeCalculator, getCalculatorById } from "./engine/calculatorData";
+import { LOINC_SYSTEM, type Observation } from "./fhir";
+import { buildResultObservationBundle, LOCAL_RESULT_SYSTEM } from "./fhirResultExport";
+
+function resultObservation(calculatorId: string, values: Record<string, string>, formulaVersion?: string): Observation {
+  const calculator = getCalculatorById(calculatorId)!;
+  const result = computeCalculator(calculator, values, {}, "conventional", formulaVersion);
+  const bundle = buildResultObservationBundle({ calculator, result, values, units: {}, unitPreference: "conventional" });
+  return bundle.entry![0].resource as Observation;
+}
+
+const EGFR_VALUES = { creatinine: "1.2", age: "55", sex: "M", race: "Black" };
+
+describe("FHIR result export", () => {
+  it("codes a current CKD-EPI result as CKD-EPI 2021", () => {
+    expect(resultObservation("ckd-epi-creatinine", EGFR_VALUES).code.coding).toEqual([
+      expect.objectContaining({ system: LOINC_SYSTEM, code: "98979-8" }),
+    ]);
+  });
+
+  it("codes a CKD-EPI 2009 result with the 2009 equation's LOINC", () => {
+    const observation = resultObservation("ckd-epi-creatinine", EGFR_VALUES, "2009");
+    expect(observation.code.coding).toEqual([expect.objectContaining({ system: LOINC_SYSTEM, code: "62238-1" })]);
+    expect(observation.method?.text).toMatch(/formula version 2009/);
+  });
+
+  it("gives superseded versions without a LOINC their own local code", () => {
+    const values = { weight: "70", height: "175", sex: "M" };
+    const current = resultObservation("lean-body-weight", values).code.coding![0];
+    const previous = resultObservation("lean-body-weight", values, "1").code.coding![0];
+    expect(previous).toEqual({ system: LOCAL_RESULT_SYSTEM, code: "lean-body-weight/v1", display: "Lean Body Weight (formula version 1)" });
+    expect(previous.code).not.toBe(current.code);
+  });
+});
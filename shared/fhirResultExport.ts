@@ -0,0 +1,357 @@
+/**
+ * FHIR Result Export
+ * Turns calculator results into FHIR R4 resources for an EHR interface
+ * engine: one Observation per result (LOINC-coded where a code exists,
+ * local codes otherwise) with the numeric inputs as derivedFrom
+ * Observations, and a DiagnosticReport grouping a session's results.
+ */
+import {
+  currentFormulaVersion,
+  type Calculator,
+  type CalculatorInput,
+  type CalculatorResult,
+  type ResultValue,
+} from "./engine/calculatorData";
+import {
+  getUnitType,
+  selectedUnit,
+  type CalculatorUnits,
+  type CalculatorValues,
+  type UnitPreference,
+} from "./engine/calculatorInputs";
+import { unitSymbol } from "./engine/unitRegistry";
+import {
+  LOINC_SYSTEM,
+  UCUM_SYSTEM,
+  type Bundle,
+  type Coding,
+  type DiagnosticReport,
+  type FhirResource,
+  type Observation,
+  type Quantity,
+  type Reference,
+} from "./fhir";
+
+/** Code systems for results and inputs that have no LOINC code */
+export const LOCAL_RESULT_SYSTEM = "urn:nephrology-calculator:result";
+export const LOCAL_INPUT_SYSTEM = "urn:nephrology-calculator:input";
+
+// Result LOINC codes, keyed by calculator id
+const RESULT_LOINC: Record<string, Coding> = {
+  "ckd-epi-creatinine": {
+    code: "98979-8",
+    display: "Glomerular filtration rate/1.73 sq M.predicted [Volume Rate/Area] in Serum, Plasma or Blood by Creatinine-based formula (CKD-EPI 2021)",
+  },
+  "ckd-epi-cystatin-c": {
+    code: "98980-6",
+    display: "Glomerular filtration rate/1.73 sq M.predicted [Volume Rate/Area] in Serum, Plasma or Blood by Creatinine and Cystatin C-based formula (CKD-EPI 2021)",
+  },
+  "cockcroft-gault": { code: "35591-7", display: "Creatinine renal clearance predicted by Cockcroft-Gault formula" },
+  "anion-gap": { code: "33037-3", display: "Anion gap in Serum or Plasma" },
+};
+
+// Result LOINC codes for superseded formula versions, keyed by calculator id and version.
+// Results from a superseded version without one get a local code, never the current version's LOINC.
+const SUPERSEDED_RESULT_LOINC: Record<string, Record<string, Coding>> = {
+  "ckd-epi-creatinine": {
+    "2009": {
+      code: "62238-1",
+      display: "Glomerular filtration rate/1.73 sq M.predicted [Volume Rate/Area] in Serum, Plasma or Blood by Creatinine-based formula (CKD-EPI)",
+    },
+  },
+};
+
+// Input LOINC codes, keyed by input id; creatinine has separate mass and molar codes
+interface InputCode {
+  conventional: Coding;
+  si?: Coding;
+}
+
+const creatinineCode: InputCode = {
+  conventional: { code: "2160-0", display: "Creatinine [Mass/volume] in Serum or Plasma" },
+  si: { code: "14682-9", display: "Creatinine [Moles/volume] in Serum or Plasma" },
+};
+
+const INPUT_LOINC: Record<string, InputCode> = {
+  creatinine: creatinineCode,
+  serumCreatinine: creatinineCode,
+  plasmaCr: creatinineCode,
+  baselineCreatinine: creatinineCode,
+  currentCreatinine: creatinineCode,
+  creatinine1: creatinineCode,
+  creatinine2: creatinineCode,
+  cystatinC: { conventional: { code: "33863-2", display: "Cystatin C [Mass/volume] in Serum or Plasma" } },
+  urineCr: {
+    conventional: { code: "2161-8", display: "Creatinine [Mass/volume] in Urine" },
+    si: { code: "14683-7", display: "Creatinine [Moles/volume] in Urine" },
+  },
+  sodium: { conventional: { code: "2951-2", display: "Sodium [Moles/volume] in Serum or Plasma" } },
+  plasmaNa: { conventional: { code: "2951-2", display: "Sodium [Moles/volume] in Serum or Plasma" } },
+  potassium: { conventional: { code: "2823-3", display: "Potassium [Moles/volume] in Serum or Plasma" } },
+  plasmaK: { conventional: { code: "2823-3", display: "Potassium [Moles/volume] in Serum or Plasma" } },
+  chloride: { conventional: { code: "2075-0", display: "Chloride [Moles/volume] in Serum or Plasma" } },
+  bicarbonate: { conventional: { code: "1963-8", display: "Bicarbonate [Moles/volume] in Serum or Plasma" } },
+  glucose: { conventional: { code: "2345-7", display: "Glucose [Mass/volume] in Serum or Plasma" } },
+  albumin: { conventional: { code: "1751-7", display: "Albumin [Mass/volume] in Serum or Plasma" } },
+  calcium: { conventional: { code: "17861-6", display: "Calcium [Mass/volume] in Serum or Plasma" } },
+  hemoglobin: { conventional: { code: "718-7", display: "Hemoglobin [Mass/volume] in Blood" } },
+  urineNa: { conventional: { code: "2955-3", display: "Sodium [Moles/volume] in Urine" } },
+  urineOsm: { conventional: { code: "2695-8", display: "Osmolality of Urine" } },
+  measuredOsmolality: { conventional: { code: "2692-2", display: "Osmolality of Serum or Plasma" } },
+  plasmaOsm: { conventional: { code: "2692-2", display: "Osmolality of Serum or Plasma" } },
+  acr: { conventional: { code: "9318-7", display: "Albumin/Creatinine [Mass Ratio] in Urine" } },
+  age: { conventional: { code: "30525-0", display: "Age" } },
+  weight: { conventional: { code: "29463-7", display: "Body weight" } },
+  height: { conventional: { code: "8302-2", display: "Body height" } },
+};
+
+// Serum BUN/urea codes by the selected BUN/Urea toggle option
+const BUN_UREA_LOINC: Record<string, Coding> = {
+  "BUN (mg/dL)": { code: "3094-0", display: "Urea nitrogen [Mass/volume] in Serum or Plasma" },
+  "BUN (mmol/L)": { code: "14937-7", display: "Urea nitrogen [Moles/volume] in Serum or Plasma" },
+  "Urea (mg/dL)": { code: "3091-6", display: "Urea [Mass/volume] in Serum or Plasma" },
+  "Urea (mmol/L)": { code: "22664-7", display: "Urea [Moles/volume] in Serum or Plasma" },
+};
+const SERUM_BUN_INPUTS = ["bun", "bunValue", "preBUN", "postBUN", "plasmaUrea", "bunDialysis"];
+
+// Display units -> UCUM codes
+const UCUM_CODES: Record<string, string> = {
+  "mL/min/1.73m²": "mL/min/{1.73_m2}",
+  "mL/min/1.73 m²": "mL/min/{1.73_m2}",
+  "mL/min": "mL/min",
+  "mg/dL": "mg/dL",
+  "mg/L": "mg/L",
+  "g/dL": "g/dL",
+  "g/L": "g/L",
+  "mmol/L": "mmol/L",
+  "μmol/L": "umol/L",
+  "µmol/L": "umol/L",
+  "mEq/L": "meq/L",
+  "mOsm/kg": "mosm/kg",
+  "mg/mmol": "mg/mmol",
+  "mg/g": "mg/g",
+  "mg/mg": "mg/mg",
+  "g/g": "g/g",
+  "pg/mL": "pg/mL",
+  "ng/mL": "ng/mL",
+  "nmol/L": "nmol/L",
+  "pmol/L": "pmol/L",
+  mg: "mg",
+  g: "g",
+  "μg": "ug",
+  "μmol": "umol",
+  in: "[in_i]",
+  "%": "%",
+  years: "a",
+  kg: "kg",
+  cm: "cm",
+  hours: "h",
+  mL: "mL",
+};
+
+export interface ResultExportEntry {
+  calculator: Calculator;
+  result: CalculatorResult;
+  values: CalculatorValues;
+  units: CalculatorUnits;
+  unitPreference: UnitPreference;
+}
+
+export interface FhirExportOptions {
+  /** Patient reference, e.g. { reference: "Patient/123" } */
+  subject?: Reference;
+  performer?: Reference;
+}
+
+const uuid = () => `urn:uuid:${crypto.randomUUID()}`;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function quantity(value: number, unit?: string): Quantity {
+  const q: Quantity = { value: round(value) };
+  if (!unit) return q;
+  q.unit = unit;
+  const code = UCUM_CODES[unit];
+  if (code) {
+    q.system = UCUM_SYSTEM;
+    q.code = code;
+  }
+  return q;
+}
+
+// ckd-epi-creatinine + "KDRI" -> ckd-epi-creatinine/kdri
+const localCode = (...parts: string[]) =>
+  parts.map((p) => p.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "")).join("/");
+
+/** Unit label an input was entered in, following the same toggles as compute */
+function inputUnit(input: CalculatorInput, units: CalculatorUnits, unitPreference: UnitPreference): string {
+  return unitSymbol(selectedUnit(input, units, unitPreference));
+}
+
+function inputCoding(input: CalculatorInput, units: CalculatorUnits, unitPreference: UnitPreference): Coding {
+  if (SERUM_BUN_INPUTS.includes(input.id)) {
+    const coding = BUN_UREA_LOINC[selectedUnit(input, units, unitPreference)];
+    if (coding) return { system: LOINC_SYSTEM, ...coding };
+  }
+  const codes = INPUT_LOINC[input.id];
+  if (codes) {
+    const si = selectedUnit(input, units, unitPreference) === getUnitType(input)?.preference?.si;
+    return { system: LOINC_SYSTEM, ...(si && codes.si ? codes.si : codes.conventional) };
+  }
+  return { system: LOCAL_INPUT_SYSTEM, code: localCode(input.id), display: input.label };
+}
+
+function resultCoding(calculator: Calculator, formulaVersion: string): Coding {
+  if (formulaVersion !== currentFormulaVersion(calculator)) {
+    const loinc = SUPERSEDED_RESULT_LOINC[calculator.id]?.[formulaVersion];
+    if (loinc) return { system: LOINC_SYSTEM, ...loinc };
+    return {
+      system: LOCAL_RESULT_SYSTEM,
+      code: localCode(calculator.id, `v${formulaVersion}`),
+      display: `${calculator.resultLabel} (formula version ${formulaVersion})`,
+    };
+  }
+  const loinc = RESULT_LOINC[calculator.id];
+  if (loinc) return { system: LOINC_SYSTEM, ...loinc };
+  return { system: LOCAL_RESULT_SYSTEM, code: localCode(calculator.id), display: calculator.resultLabel };
+}
+
+interface ExportedResult {
+  observation: Observation;
+  observationUrl: string;
+  inputs: { url: string; resource: Observation }[];
+}
+
+/**
+ * Build the result Observation and its input Observations. Inputs already
+ * exported in this session (same code, value and unit) are reused via
+ * `seenInputs` so a DiagnosticReport does not repeat the same creatinine.
+ */
+function exportResult(
+  entry: ResultExportEntry,
+  options: FhirExportOptions,
+  seenInputs: Map<string, string>
+): ExportedResult {
+  const { calculator, result, values, units, unitPreference } = entry;
+  const effective = result.provenance.computedAt;
+  const inputs: ExportedResult["inputs"] = [];
+  const derivedFrom: Reference[] = [];
+  const otherInputs: string[] = [];
+
+  for (const input of calculator.inputs) {
+    const raw = values[input.id];
+    if (raw === undefined || raw === null || raw === "") continue;
+
+    if (input.type !== "number") {
+      // Selections and scores travel as a note rather than as separate Observations
+      const option = input.options?.find((o) => o.value === String(raw));
+      otherInputs.push(`${input.label} = ${option?.label ?? raw}`);
+      continue;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value)) continue;
+
+    const coding = inputCoding(input, units, unitPreference);
+    const valueQuantity = quantity(value, inputUnit(input, units, unitPreference));
+    const key = `${coding.system}|${coding.code}|${valueQuantity.value}|${valueQuantity.unit ?? ""}`;
+    let url = seenInputs.get(key);
+    if (!url) {
+      url = uuid();
+      seenInputs.set(key, url);
+      inputs.push({
+        url,
+        resource: {
+          resourceType: "Observation",
+          status: "final",
+          code: { coding: [coding], text: input.label },
+          subject: options.subject,
+          effectiveDateTime: effective,
+          valueQuantity,
+        },
+      });
+    }
+    derivedFrom.push({ reference: url, display: input.label });
+  }
+
+  const observation: Observation = {
+    resourceType: "Observation",
+    status: "final",
+    code: { coding: [resultCoding(calculator, result.provenance.formulaVersion)], text: `${calculator.resultLabel} (${calculator.name})` },
+    subject: options.subject,
+    effectiveDateTime: effective,
+    issued: effective,
+    method: { text: [calculator.name, result.provenance.formulaSource, `formula version ${result.provenance.formulaVersion}`].filter(Boolean).join("; ") },
+  };
+  if (options.performer) observation.performer = [options.performer];
+  if (result.primary) {
+    observation.valueQuantity = quantity(result.primary.value, result.primary.unit);
+  } else {
+    observation.valueString = result.interpretation || result.summary;
+  }
+  if (result.interpretation) observation.interpretation = [{ text: result.interpretation }];
+  if (result.secondary.length > 0) {
+    observation.component = result.secondary.map((item: ResultValue) => ({
+      code: {
+        coding: [{ system: LOCAL_RESULT_SYSTEM, code: localCode(calculator.id, item.label), display: item.label }],
+        text: item.label,
+      },
+      valueQuantity: quantity(item.value, item.unit),
+    }));
+  }
+
+  const notes = [...result.warnings];
+  if (otherInputs.length > 0) notes.push(`Other inputs: ${otherInputs.join("; ")}`);
+  if (notes.length > 0) observation.note = notes.map((text) => ({ text }));
+  if (derivedFrom.length > 0) observation.derivedFrom = derivedFrom;
+
+  return { observation, observationUrl: uuid(), inputs };
+}
+
+function collection(entries: { url: string; resource: FhirResource }[]): Bundle {
+  return {
+    resourceType: "Bundle",
+    type: "collection",
+    entry: entries.map(({ url, resource }) => ({ fullUrl: url, resource })),
+  };
+}
+
+/** A Bundle with one result Observation followed by the input Observations it was derived from */
+export function buildResultObservationBundle(entry: ResultExportEntry, options: FhirExportOptions = {}): Bundle {
+  const { observation, observationUrl, inputs } = exportResult(entry, options, new Map());
+  return collection([{ url: observationUrl, resource: observation }, ...inputs]);
+}
+
+/**
+ * A Bundle with a DiagnosticReport grouping every result from a session,
+ * the result Observations, and their (deduplicated) input Observations.
+ */
+export function buildDiagnosticReportBundle(entries: ResultExportEntry[], options: FhirExportOptions = {}): Bundle {
+  if (entries.length === 0) {
+    throw new Error("No results to export.");
+  }
+
+  const seenInputs = new Map<string, string>();
+  const exported = entries.map((entry) => exportResult(entry, options, seenInputs));
+  const times = entries.map((entry) => entry.result.provenance.computedAt).sort();
+
+  const report: DiagnosticReport = {
+    resourceType: "DiagnosticReport",
+    status: "final",
+    code: {
+      coding: [{ system: LOCAL_RESULT_SYSTEM, code: "calculator-session", display: "Nephrology calculator results" }],
+      text: "Nephrology calculator results",
+    },
+    subject: options.subject,
+    effectiveDateTime: times[times.length - 1],
+    issued: new Date().toISOString(),
+    result: exported.map((e, i) => ({ reference: e.observationUrl, display: entries[i].calculator.name })),
+    conclusion: entries.map((entry) => `${entry.calculator.name}: ${entry.result.summary}`).join("\n"),
+  };
+  if (options.performer) report.performer = [options.performer];
+
+  return collection([
+    { url: uuid(), resource: report },
+    ...exported.map((e) => ({ url: e.observationUrl, resource: e.observation })),
+    ...exported.flatMap((e) => e.inputs),
+  ]);
+}
@@ -4,7 +4,7 @@
  * Reference sources: MDCalc, kidney.org, OPTN, medical literature
  */
 
-import * as calc from './client/src/lib/calculators.ts';
+import * as calc from './shared/engine/calculators.ts';
 
 // Test results tracking
 const results = {